@@ -2,21 +2,46 @@
 
 /* eslint-disable react-hooks/exhaustive-deps */
 
+import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
 
 
+import { REPORT_REASON_LABELS, type ReportReason, type ReportResolution, type ReportTargetType } from '@/lib/moderation/report-reasons';
 import { supabase } from '@/lib/supabase/client';
 import { useUser } from '@/lib/useUser';
 
-type PendingPrompt = {
+type QueueItem = {
   id: string;
   title: string;
   user_id: string;
   created_at: string;
-  price: number | null;
-  is_public: boolean | null;
+  submitted_at: string | null;
+  price: number | string | null;
+  claim: { reviewer_id: string; assigned_by: string | null; expires_at: string } | null;
+  approvals: string[];
+  requiredApprovals: number;
+  waitingHours: number;
+  slaBreached: boolean;
+  risk_score: number | null;
+  scan_findings: { classifier: string; rule: string; severity: string; message: string; excerpt?: string }[] | null;
+  highRisk: boolean;
+  // Set when the prompt is already on sale and only this version of its text is under review
+  pending_version: number | null;
 };
 
+type ModerationActionRow = {
+  id: string;
+  prompt_id: string;
+  admin_id: string | null;
+  action: string;
+  reason: string | null;
+  details: Record<string, any> | null;
+  created_at: string;
+  prompts?: { title: string | null } | null;
+};
+
+type Reviewer = { id: string; full_name: string | null };
+
 type Transaction = {
   id: string;
   prompt_id: string | null;
@@ -28,32 +53,79 @@ type Transaction = {
   prompts?: { title: string | null } | null;
 };
 
-type Flagged = {
+type ReportGroup = {
+  targetType: ReportTargetType;
+  targetId: string;
+  promptId: string | null;
+  promptTitle: string | null;
+  reportedUserId: string | null;
+  summary: string;
+  hidden: boolean;
+  reasons: Partial<Record<ReportReason, number>>;
+  reports: { id: string; reporter_id: string; reason: ReportReason; details: string | null; created_at: string }[];
+  firstReportedAt: string;
+};
+
+type Appeal = {
+  id: string;
   prompt_id: string;
-  rating: number | null;
-  comment: string | null;
+  user_id: string;
+  message: string;
   created_at: string;
-  user_id: string | null;
-  prompts?: { title: string | null; user_id: string | null } | null;
+  prompts?: { title: string | null; moderation_note: string | null } | null;
 };
 
+type Triage = { reports: ReportGroup[]; appeals: Appeal[] };
+
 type AdminData = {
-  pendingPrompts: PendingPrompt[];
+  reviewerId: string | null;
+  config: { slaHours: number; claimMinutes: number; secondReviewMinPrice: number } | null;
+  queue: QueueItem[];
+  recentActions: ModerationActionRow[];
+  reviewers: Reviewer[];
   transactions: Transaction[];
-  flagged: Flagged[];
-  error?: string;
 };
 
+type QueueAction = 'claim' | 'release' | 'assign' | 'approve' | 'reject';
+
+const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  prompt: 'Prompt',
+  comment: 'Comment',
+  rating: 'Review',
+};
+
+const ACTION_STATUS: Record<QueueAction | 'ban', string> = {
+  claim: 'Claiming...',
+  release: 'Releasing...',
+  assign: 'Assigning...',
+  approve: 'Approving...',
+  reject: 'Rejecting...',
+  ban: 'Banning...',
+};
+
+function formatWaiting(hours: number) {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
 export default function AdminClient() {
   const { user, loading } = useUser();
   const [data, setData] = useState<AdminData>({
-    pendingPrompts: [],
+    reviewerId: null,
+    config: null,
+    queue: [],
+    recentActions: [],
+    reviewers: [],
     transactions: [],
-    flagged: [],
   });
+  const [triage, setTriage] = useState<Triage>({ reports: [], appeals: [] });
+  const [notes, setNotes] = useState<Record<string, string>>({});
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [confirm, setConfirm] = useState<{ action: 'approve' | 'reject' | 'ban'; targetId: string } | null>(null);
+  const [confirm, setConfirm] = useState<
+    { action: 'approve' | 'reject' | 'ban'; targetId: string; report?: ReportGroup } | null
+  >(null);
 
   /* eslint-disable-next-line react-hooks/exhaustive-deps */
   useEffect(() => {
@@ -95,10 +167,16 @@ export default function AdminClient() {
     setStatus('Loading admin data...');
     setError(null);
     try {
-      const res = await authorizedFetch('/api/admin/moderation');
-      const next = (await res.json()) as AdminData;
-      if (!res.ok) throw new Error(next.error || 'Failed to load admin data');
-      setData(next);
+      const [res, reportsRes] = await Promise.all([
+        authorizedFetch('/api/admin/moderation'),
+        authorizedFetch('/api/admin/reports'),
+      ]);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error?.message || 'Failed to load admin data');
+      setData(json.data as AdminData);
+      const reportsJson = await reportsRes.json();
+      if (!reportsRes.ok) throw new Error(reportsJson?.error?.message || 'Failed to load reports');
+      setTriage(reportsJson.data as Triage);
     } catch (err: any) {
       setError(err.message ?? 'Failed to load admin data');
     } finally {
@@ -106,19 +184,44 @@ export default function AdminClient() {
     }
   };
 
-  const handleAction = async (action: 'approve' | 'reject' | 'ban', targetId: string) => {
+  const handleAction = async (action: QueueAction | 'ban', targetId: string, reviewerId?: string) => {
     setConfirm(null);
-    setStatus(`${action === 'ban' ? 'Banning' : action === 'approve' ? 'Approving' : 'Rejecting'}...`);
+    setStatus(ACTION_STATUS[action]);
     setError(null);
     try {
       const body =
-        action === 'ban' ? { action: 'ban', userId: targetId } : { action, promptId: targetId };
+        action === 'ban' ? { action: 'ban', userId: targetId } : { action, promptId: targetId, reviewerId };
       const res = await authorizedFetch('/api/admin/moderation', {
         method: 'POST',
         body: JSON.stringify(body),
       });
       const json = await res.json();
-      if (!res.ok) throw new Error(json.error || 'Action failed');
+      if (!res.ok) throw new Error(json?.error?.message || 'Action failed');
+      await loadData();
+    } catch (err: any) {
+      setError(err.message ?? 'Action failed');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleReportAction = async (
+    body:
+      | { action: ReportResolution; targetType: ReportTargetType; targetId: string }
+      | { action: 'grant_appeal' | 'deny_appeal'; appealId: string },
+    noteKey: string
+  ) => {
+    setConfirm(null);
+    setStatus('Saving decision...');
+    setError(null);
+    try {
+      const res = await authorizedFetch('/api/admin/reports', {
+        method: 'POST',
+        body: JSON.stringify({ ...body, note: notes[noteKey]?.trim() || undefined }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error?.message || 'Action failed');
+      setNotes((prev) => ({ ...prev, [noteKey]: '' }));
       await loadData();
     } catch (err: any) {
       setError(err.message ?? 'Action failed');
@@ -127,8 +230,14 @@ export default function AdminClient() {
     }
   };
 
-  const pendingCount = data.pendingPrompts.length;
-  const flaggedCount = data.flagged.length;
+  const reviewerName = useMemo(() => {
+    const names = new Map(data.reviewers.map((r) => [r.id, r.full_name || `Admin ${r.id.slice(0, 6)}…`]));
+    return (id: string) => (id === data.reviewerId ? 'you' : names.get(id) ?? `Admin ${id.slice(0, 6)}…`);
+  }, [data.reviewers, data.reviewerId]);
+
+  const pendingCount = data.queue.length;
+  const breachedCount = data.queue.filter((p) => p.slaBreached).length;
+  const reportCount = triage.reports.length;
   const salesCount = data.transactions.length;
 
   if (!user && !loading) {
@@ -146,56 +255,175 @@ export default function AdminClient() {
         <div className="rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">{status}</div>
       )}
 
-      <div className="grid gap-4 sm:grid-cols-3">
+      <div className="grid gap-4 sm:grid-cols-4">
         <StatCard label="Pending prompts" value={pendingCount} />
-        <StatCard label="Flagged" value={flaggedCount} />
+        <StatCard label={`Over ${data.config?.slaHours ?? 24}h SLA`} value={breachedCount} />
+        <StatCard label="Open reports" value={reportCount} />
         <StatCard label="Recent transactions" value={salesCount} />
       </div>
 
       <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-slate-900">Pending Prompts</h2>
-          <span className="text-xs text-slate-500">{pendingCount}</span>
+          <h2 className="text-lg font-semibold text-slate-900">Review Queue</h2>
+          <span className="text-xs text-slate-500">High risk, then oldest first · {pendingCount}</span>
         </div>
         {pendingCount === 0 ? (
           <p className="mt-4 text-sm text-slate-600">No pending prompts.</p>
         ) : (
           <ul className="mt-4 space-y-3">
-            {data.pendingPrompts.map((p) => (
-              <li
-                key={p.id}
-                className="flex flex-col gap-2 rounded-xl border border-slate-200 p-4 sm:flex-row sm:items-center sm:justify-between"
-              >
-                <div>
-                  <p className="text-sm font-semibold text-slate-900">{p.title}</p>
-                  <p className="text-xs text-slate-500">
-                    {new Date(p.created_at).toLocaleString()} · User {p.user_id.slice(0, 6)}… ·{' '}
-                    {p.price ? `$${p.price.toFixed(2)}` : 'Free'}
-                  </p>
-                </div>
-                <div className="flex gap-2 text-sm">
-                  <button
-                    type="button"
-                    onClick={() => setConfirm({ action: 'approve', targetId: p.id })}
-                    className="rounded-lg bg-emerald-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
-                  >
-                    Approve
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setConfirm({ action: 'reject', targetId: p.id })}
-                    className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-800 transition hover:border-red-200 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-                  >
-                    Reject
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setConfirm({ action: 'ban', targetId: p.user_id })}
-                    className="rounded-lg border border-red-200 px-3 py-2 font-semibold text-red-700 transition hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
-                  >
-                    Ban user
-                  </button>
-                </div>
+            {data.queue.map((p) => {
+              const mine = p.claim?.reviewer_id === data.reviewerId;
+              const approvedByMe = !!data.reviewerId && p.approvals.includes(data.reviewerId);
+              const price = Number(p.price ?? 0);
+              return (
+                <li
+                  key={p.id}
+                  className={`flex flex-col gap-3 rounded-xl border p-4 ${
+                    p.slaBreached ? 'border-red-200 bg-red-50/60' : 'border-slate-200'
+                  }`}
+                >
+                  <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                      <p className="text-sm font-semibold text-slate-900">{p.title}</p>
+                      <p className="text-xs text-slate-500">
+                        Waiting {formatWaiting(p.waitingHours)} · User {p.user_id.slice(0, 6)}… ·{' '}
+                        {price > 0 ? `$${price.toFixed(2)}` : 'Free'}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {p.pending_version !== null && (
+                        <span className="rounded-full bg-sky-100 px-2 py-0.5 font-semibold text-sky-800">
+                          Edit · v{p.pending_version}
+                        </span>
+                      )}
+                      {p.risk_score !== null && (
+                        <span
+                          className={`rounded-full px-2 py-0.5 font-semibold ${
+                            p.highRisk ? 'bg-orange-100 text-orange-800' : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          Risk {p.risk_score}
+                        </span>
+                      )}
+                      {p.slaBreached && (
+                        <span className="rounded-full bg-red-100 px-2 py-0.5 font-semibold text-red-700">SLA breached</span>
+                      )}
+                      {p.requiredApprovals > 1 && (
+                        <span className="rounded-full bg-amber-100 px-2 py-0.5 font-semibold text-amber-800">
+                          {p.approvals.length}/{p.requiredApprovals} approvals
+                        </span>
+                      )}
+                      <span
+                        className={`rounded-full px-2 py-0.5 font-semibold ${
+                          p.claim ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600'
+                        }`}
+                      >
+                        {p.claim
+                          ? `Claimed by ${reviewerName(p.claim.reviewer_id)} until ${new Date(p.claim.expires_at).toLocaleTimeString()}`
+                          : 'Unclaimed'}
+                      </span>
+                    </div>
+                  </div>
+                  {(p.scan_findings ?? []).length > 0 && (
+                    <ul className="space-y-1 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                      {(p.scan_findings ?? []).map((f, idx) => (
+                        <li key={`${f.rule}-${idx}`}>
+                          <span className="font-semibold uppercase text-slate-500">{f.severity}</span> {f.message}
+                          {f.excerpt && <span className="font-mono text-slate-500"> ({f.excerpt})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {mine ? (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => setConfirm({ action: 'approve', targetId: p.id })}
+                          disabled={approvedByMe}
+                          className="rounded-lg bg-emerald-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setConfirm({ action: 'reject', targetId: p.id })}
+                          className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-800 transition hover:border-red-200 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleAction('release', p.id)}
+                          className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-600 transition hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                        >
+                          Release
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => handleAction('claim', p.id)}
+                        disabled={!!p.claim || approvedByMe}
+                        title={approvedByMe ? 'Waiting for a second reviewer' : undefined}
+                        className="rounded-lg bg-indigo-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+                      >
+                        Claim
+                      </button>
+                    )}
+                    {data.reviewers.length > 1 && (
+                      <select
+                        value=""
+                        onChange={(e) => e.target.value && handleAction('assign', p.id, e.target.value)}
+                        className="rounded-lg border border-slate-200 px-2 py-2 text-sm text-slate-700"
+                      >
+                        <option value="">Assign to…</option>
+                        {data.reviewers
+                          .filter((r) => r.id !== p.claim?.reviewer_id && !p.approvals.includes(r.id))
+                          .map((r) => (
+                            <option key={r.id} value={r.id}>
+                              {reviewerName(r.id)}
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setConfirm({ action: 'ban', targetId: p.user_id })}
+                      className="rounded-lg border border-red-200 px-3 py-2 font-semibold text-red-700 transition hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                    >
+                      Ban user
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">Moderation Activity</h2>
+          <span className="text-xs text-slate-500">{data.recentActions.length}</span>
+        </div>
+        {data.recentActions.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No moderation activity yet.</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-slate-100 text-sm">
+            {data.recentActions.map((a) => (
+              <li key={a.id} className="flex flex-col gap-1 py-2 sm:flex-row sm:items-center sm:justify-between">
+                <span className="text-slate-800">
+                  <span className="font-semibold">{a.admin_id ? reviewerName(a.admin_id) : 'Scanner'}</span>{' '}
+                  {a.action.replace('_', '-')}
+                  {a.action === 'assign' && a.details?.reviewerId ? ` → ${reviewerName(a.details.reviewerId)}` : ''}{' '}
+                  {a.prompts?.title ?? `prompt ${a.prompt_id.slice(0, 6)}…`}
+                  {a.action === 'approve' && (a.details?.requiredApprovals ?? 1) > 1
+                    ? ` (${a.details?.approvals}/${a.details?.requiredApprovals})`
+                    : ''}
+                  {a.reason && <span className="text-slate-500"> — {a.reason}</span>}
+                </span>
+                <span className="text-xs text-slate-500">{new Date(a.created_at).toLocaleString()}</span>
               </li>
             ))}
           </ul>
@@ -204,25 +432,149 @@ export default function AdminClient() {
 
       <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
         <div className="flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-slate-900">Flagged Content</h2>
-          <span className="text-xs text-slate-500">{flaggedCount}</span>
+          <h2 className="text-lg font-semibold text-slate-900">Reports</h2>
+          <span className="text-xs text-slate-500">Most reported first · {reportCount}</span>
         </div>
-        {flaggedCount === 0 ? (
-          <p className="mt-4 text-sm text-slate-600">No flagged items.</p>
+        {reportCount === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No open reports.</p>
         ) : (
           <ul className="mt-4 space-y-3">
-            {data.flagged.map((f, idx) => (
-              <li key={`${f.prompt_id}-${idx}`} className="rounded-xl border border-slate-200 p-4 text-sm">
+            {triage.reports.map((r) => {
+              const key = `${r.targetType}:${r.targetId}`;
+              const resolve = (action: ReportResolution) =>
+                handleReportAction({ action, targetType: r.targetType, targetId: r.targetId }, key);
+              return (
+                <li key={key} className="flex flex-col gap-3 rounded-xl border border-slate-200 p-4 text-sm">
+                  <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                      <p className="font-semibold text-slate-900">
+                        {REPORT_TARGET_LABELS[r.targetType]}
+                        {r.promptTitle && r.targetType !== 'prompt' ? ` on ${r.promptTitle}` : ''}
+                        {r.hidden && <span className="ml-2 text-xs font-normal text-red-600">already hidden</span>}
+                      </p>
+                      <p className="mt-1 text-slate-700">{r.summary || '—'}</p>
+                      <p className="mt-1 text-xs text-slate-500">
+                        {r.reports.length} report{r.reports.length === 1 ? '' : 's'} since{' '}
+                        {new Date(r.firstReportedAt).toLocaleString()} · Author {r.reportedUserId?.slice(0, 6) ?? '?'}…
+                        {r.promptId && (
+                          <>
+                            {' '}
+                            ·{' '}
+                            <Link href={`/prompts/${r.promptId}`} className="font-semibold text-indigo-600 hover:text-indigo-700">
+                              View prompt
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {Object.entries(r.reasons).map(([reason, count]) => (
+                        <span key={reason} className="rounded-full bg-orange-100 px-2 py-0.5 font-semibold text-orange-800">
+                          {REPORT_REASON_LABELS[reason as ReportReason]} ×{count}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  {r.reports.some((report) => report.details) && (
+                    <ul className="space-y-1 rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                      {r.reports
+                        .filter((report) => report.details)
+                        .map((report) => (
+                          <li key={report.id}>
+                            <span className="font-semibold text-slate-500">{REPORT_REASON_LABELS[report.reason]}:</span>{' '}
+                            {report.details}
+                          </li>
+                        ))}
+                    </ul>
+                  )}
+                  <input
+                    value={notes[key] ?? ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="Note for the author (optional)"
+                    className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => resolve('dismiss')}
+                      className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-600 transition hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    >
+                      Dismiss
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => resolve('warn')}
+                      className="rounded-lg border border-amber-200 px-3 py-2 font-semibold text-amber-800 transition hover:bg-amber-50 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2"
+                    >
+                      Warn author
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => resolve('hide')}
+                      disabled={r.hidden}
+                      className="rounded-lg bg-red-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+                    >
+                      {r.targetType === 'prompt' ? 'Take down' : 'Hide'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirm({ action: 'ban', targetId: r.reportedUserId ?? '', report: r })}
+                      disabled={!r.reportedUserId}
+                      className="rounded-lg border border-red-200 px-3 py-2 font-semibold text-red-700 transition hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+                    >
+                      Hide and ban author
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">Takedown Appeals</h2>
+          <span className="text-xs text-slate-500">Oldest first · {triage.appeals.length}</span>
+        </div>
+        {triage.appeals.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No pending appeals.</p>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {triage.appeals.map((a) => (
+              <li key={a.id} className="flex flex-col gap-3 rounded-xl border border-slate-200 p-4 text-sm">
                 <div className="flex items-center justify-between">
-                  <span className="font-semibold text-slate-900">
-                    {f.prompts?.title ?? 'Prompt'} (rating {f.rating ?? '?'})
-                  </span>
-                  <span className="text-xs text-slate-500">{new Date(f.created_at).toLocaleString()}</span>
+                  <Link href={`/prompts/${a.prompt_id}`} className="font-semibold text-slate-900 hover:text-indigo-700">
+                    {a.prompts?.title ?? 'Prompt'}
+                  </Link>
+                  <span className="text-xs text-slate-500">{new Date(a.created_at).toLocaleString()}</span>
+                </div>
+                {a.prompts?.moderation_note && (
+                  <p className="text-xs text-slate-500">Removed: {a.prompts.moderation_note}</p>
+                )}
+                <p className="whitespace-pre-wrap text-slate-700">{a.message}</p>
+                <input
+                  value={notes[a.id] ?? ''}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [a.id]: e.target.value }))}
+                  placeholder="Note for the creator (optional)"
+                  className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-700"
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => handleReportAction({ action: 'grant_appeal', appealId: a.id }, a.id)}
+                    className="rounded-lg bg-emerald-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
+                  >
+                    Reinstate
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleReportAction({ action: 'deny_appeal', appealId: a.id }, a.id)}
+                    className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-800 transition hover:border-red-200 hover:text-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+                  >
+                    Deny
+                  </button>
                 </div>
-                {f.comment && <p className="mt-1 text-slate-700">{f.comment}</p>}
-                <p className="mt-1 text-xs text-slate-500">
-                  User {f.user_id?.slice(0, 6) ?? '?'}… — Prompt owner {f.prompts?.user_id?.slice(0, 6) ?? '?'}…
-                </p>
               </li>
             ))}
           </ul>
@@ -262,7 +614,9 @@ export default function AdminClient() {
           <div className="w-full max-w-sm rounded-2xl bg-white p-6 shadow-2xl">
             <h3 className="text-lg font-semibold text-slate-900">Confirm</h3>
             <p className="mt-2 text-sm text-slate-700">
-              Are you sure you want to {confirm.action} {confirm.action === 'ban' ? 'this user' : 'this prompt'}?
+              {confirm.report
+                ? 'Hide this content and ban its author?'
+                : `Are you sure you want to ${confirm.action} ${confirm.action === 'ban' ? 'this user' : 'this prompt'}?`}
             </p>
             <div className="mt-4 flex items-center gap-3">
               <button
@@ -274,7 +628,14 @@ export default function AdminClient() {
               </button>
               <button
                 type="button"
-                onClick={() => handleAction(confirm.action, confirm.targetId)}
+                onClick={() =>
+                  confirm.report
+                    ? handleReportAction(
+                        { action: 'ban', targetType: confirm.report.targetType, targetId: confirm.report.targetId },
+                        `${confirm.report.targetType}:${confirm.report.targetId}`
+                      )
+                    : handleAction(confirm.action, confirm.targetId)
+                }
                 className="flex-1 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
               >
                 Confirm
@@ -1,3 +1,5 @@
+import Link from 'next/link';
+
 import AdminClient from './AdminClient';
 
 export const dynamic = 'force-dynamic';
@@ -5,9 +7,22 @@ export const dynamic = 'force-dynamic';
 export default function AdminPage() {
   return (
     <div className="mx-auto max-w-6xl px-4 py-10">
-      <div className="mb-6">
-        <h1 className="text-3xl font-semibold text-slate-900">Admin</h1>
-        <p className="text-sm text-slate-600">Moderate prompts, users, and transactions.</p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-900">Admin</h1>
+          <p className="text-sm text-slate-600">Moderate prompts, users, and transactions.</p>
+        </div>
+        <div className="flex gap-4">
+          <Link href="/admin/plagiarism" className="text-sm font-semibold text-indigo-600 hover:text-indigo-700">
+            Similar prompts →
+          </Link>
+          <Link href="/admin/suspensions" className="text-sm font-semibold text-indigo-600 hover:text-indigo-700">
+            Suspensions →
+          </Link>
+          <Link href="/admin/stripe-events" className="text-sm font-semibold text-indigo-600 hover:text-indigo-700">
+            Stripe events →
+          </Link>
+        </div>
       </div>
       <AdminClient />
     </div>
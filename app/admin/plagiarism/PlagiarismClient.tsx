@@ -0,0 +1,173 @@
+'use client';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+
+import { supabase } from '@/lib/supabase/client';
+import { useUser } from '@/lib/useUser';
+
+type ProvenanceNote =
+  | { kind: 'swap_copy'; sourcePromptId: string; swapId: string }
+  | { kind: 'purchased'; promptId: string };
+
+type ClusterMember = {
+  id: string;
+  title: string;
+  userId: string | null;
+  ownerName: string | null;
+  status: string | null;
+  createdAt: string | null;
+  original: boolean;
+  provenance: ProvenanceNote[];
+};
+
+type SimilarityCluster = {
+  members: ClusterMember[];
+  maxSimilarity: number;
+  pairs: { a: string; b: string; similarity: number }[];
+};
+
+const THRESHOLDS = [0.5, 0.7, 0.9];
+
+export default function PlagiarismClient() {
+  const { user, loading } = useUser();
+  const [minSimilarity, setMinSimilarity] = useState(0.5);
+  const [clusters, setClusters] = useState<SimilarityCluster[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && user) {
+      void loadClusters();
+    }
+  }, [loading, user, minSimilarity]);
+
+  const authorizedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (!supabase) {
+      throw new Error(
+        'Supabase client is not initialized. Check your NEXT_PUBLIC_SUPABASE_* env vars.',
+      );
+    }
+
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...(init?.headers || {}),
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  };
+
+  const loadClusters = async () => {
+    setStatus('Loading similar prompts...');
+    setError(null);
+    try {
+      const res = await authorizedFetch(`/api/admin/plagiarism?minSimilarity=${minSimilarity}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error?.message || 'Failed to load similar prompts');
+      setClusters(json.data?.clusters ?? []);
+    } catch (err: any) {
+      setError(err.message ?? 'Failed to load similar prompts');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  if (!user && !loading) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-700">Sign in as admin.</div>
+    );
+  }
+
+  const titleOf = (cluster: SimilarityCluster, id: string) =>
+    cluster.members.find((member) => member.id === id)?.title ?? id;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+      {status && (
+        <div className="rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">{status}</div>
+      )}
+
+      <div className="flex gap-2 text-sm">
+        {THRESHOLDS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMinSimilarity(option)}
+            className={`rounded-lg px-3 py-2 font-semibold transition focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+              minSimilarity === option ? 'bg-indigo-600 text-white' : 'border border-slate-200 text-slate-700 hover:border-slate-300'
+            }`}
+          >
+            ≥ {Math.round(option * 100)}% similar
+          </button>
+        ))}
+      </div>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">Clusters</h2>
+          <span className="text-xs text-slate-500">{clusters.length}</span>
+        </div>
+        {clusters.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No similar prompts found.</p>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {clusters.map((cluster) => (
+              <li key={cluster.members.map((member) => member.id).join(',')} className="rounded-xl border border-slate-200 p-4 text-sm">
+                <p className="text-xs text-slate-500">
+                  {cluster.members.length} prompts · up to {Math.round(cluster.maxSimilarity * 100)}% similar
+                </p>
+                <ul className="mt-2 space-y-2">
+                  {cluster.members.map((member) => (
+                    <li key={member.id} className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+                      <div>
+                        <Link href={`/prompts/${member.id}`} className="font-semibold text-slate-900 hover:underline">
+                          {member.title}
+                        </Link>
+                        {member.original && (
+                          <span className="ml-2 rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-semibold text-emerald-800">
+                            Original
+                          </span>
+                        )}
+                        <p className="text-xs text-slate-500">
+                          {member.ownerName ?? member.userId ?? 'Unknown owner'} · {member.status ?? 'unknown'}
+                          {member.createdAt ? ` · ${new Date(member.createdAt).toLocaleDateString()}` : ''}
+                        </p>
+                      </div>
+                      {member.provenance.length > 0 && (
+                        <ul className="space-y-0.5 text-xs text-amber-700 sm:text-right">
+                          {member.provenance.map((note, idx) => (
+                            <li key={idx}>
+                              {note.kind === 'swap_copy'
+                                ? `Swap copy of "${titleOf(cluster, note.sourcePromptId)}"`
+                                : `Owner purchased "${titleOf(cluster, note.promptId)}"`}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import PlagiarismClient from './PlagiarismClient';
+
+export const dynamic = 'force-dynamic';
+
+export default function AdminPlagiarismPage() {
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-10">
+      <div className="mb-6">
+        <h1 className="text-3xl font-semibold text-slate-900">Similar prompts</h1>
+        <p className="text-sm text-slate-600">Clusters of prompts with near-identical text, with who owns each copy and how they got it.</p>
+      </div>
+      <PlagiarismClient />
+    </div>
+  );
+}
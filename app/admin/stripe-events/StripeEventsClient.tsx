@@ -0,0 +1,266 @@
+'use client';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import { useEffect, useState } from 'react';
+
+import { supabase } from '@/lib/supabase/client';
+import { useUser } from '@/lib/useUser';
+
+type ReplayMode = 'dry_run' | 'live';
+
+type RecordedWrite = {
+  table: string;
+  operation: string;
+  payload: unknown;
+  filters: Record<string, unknown>;
+};
+
+type ReplayResult = {
+  ok: boolean;
+  error: string | null;
+  writes: RecordedWrite[];
+};
+
+type StripeEventRow = {
+  id: string;
+  event_id: string;
+  type: string;
+  livemode: boolean;
+  created_at: string;
+  processed_at: string | null;
+  payload: Record<string, unknown> | null;
+  request_id: string | null;
+  last_error: string | null;
+  failed_at: string | null;
+  replay_count: number;
+  last_replayed_at: string | null;
+  last_replay_mode: ReplayMode | null;
+  last_replay_result: ReplayResult | null;
+  system_event_id: string | null;
+};
+
+type Filter = 'failed' | 'unprocessed';
+
+export default function StripeEventsClient() {
+  const { user, loading } = useUser();
+  const [filter, setFilter] = useState<Filter>('failed');
+  const [events, setEvents] = useState<StripeEventRow[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmLive, setConfirmLive] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && user) {
+      void loadEvents();
+    }
+  }, [loading, user, filter]);
+
+  const authorizedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (!supabase) {
+      throw new Error(
+        'Supabase client is not initialized. Check your NEXT_PUBLIC_SUPABASE_* env vars.',
+      );
+    }
+
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...(init?.headers || {}),
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  };
+
+  const loadEvents = async () => {
+    setStatus('Loading Stripe events...');
+    setError(null);
+    try {
+      const res = await authorizedFetch(`/api/admin/stripe-events?status=${filter}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error?.message || 'Failed to load Stripe events');
+      setEvents(json.data?.events ?? []);
+    } catch (err: any) {
+      setError(err.message ?? 'Failed to load Stripe events');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const replay = async (eventId: string, mode: ReplayMode) => {
+    setConfirmLive(null);
+    setStatus(mode === 'live' ? 'Replaying event...' : 'Running dry run...');
+    setError(null);
+    try {
+      const res = await authorizedFetch(`/api/admin/stripe-events/${encodeURIComponent(eventId)}/replay`, {
+        method: 'POST',
+        body: JSON.stringify({ mode }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error?.message || 'Replay failed');
+      setExpanded(eventId);
+      await loadEvents();
+    } catch (err: any) {
+      setError(err.message ?? 'Replay failed');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  if (!user && !loading) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-700">Sign in as admin.</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+      {status && (
+        <div className="rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">{status}</div>
+      )}
+
+      <div className="flex gap-2 text-sm">
+        {(['failed', 'unprocessed'] as Filter[]).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setFilter(option)}
+            className={`rounded-lg px-3 py-2 font-semibold transition focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+              filter === option ? 'bg-indigo-600 text-white' : 'border border-slate-200 text-slate-700 hover:border-slate-300'
+            }`}
+          >
+            {option === 'failed' ? 'Failed' : 'All unprocessed'}
+          </button>
+        ))}
+      </div>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">Events</h2>
+          <span className="text-xs text-slate-500">{events.length}</span>
+        </div>
+        {events.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No events need attention.</p>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {events.map((event) => (
+              <li key={event.id} className="rounded-xl border border-slate-200 p-4 text-sm">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="font-semibold text-slate-900">
+                      {event.type}
+                      {!event.livemode && <span className="ml-2 text-xs font-normal text-amber-600">test mode</span>}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {event.event_id} · {new Date(event.created_at).toLocaleString()} · Replays {event.replay_count}
+                    </p>
+                    {event.last_error && <p className="mt-1 text-xs text-red-600">{event.last_error}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(expanded === event.event_id ? null : event.event_id)}
+                      className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-800 transition hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    >
+                      {expanded === event.event_id ? 'Hide' : 'Details'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => replay(event.event_id, 'dry_run')}
+                      className="rounded-lg border border-indigo-200 px-3 py-2 font-semibold text-indigo-700 transition hover:bg-indigo-50 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    >
+                      Dry run
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmLive(event.event_id)}
+                      className="rounded-lg bg-indigo-600 px-3 py-2 font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                    >
+                      Replay live
+                    </button>
+                  </div>
+                </div>
+
+                {expanded === event.event_id && (
+                  <div className="mt-3 space-y-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase text-slate-500">Stored payload</p>
+                      <pre className="mt-1 overflow-x-auto rounded-lg bg-slate-50 p-3 text-xs text-slate-800">
+                        {JSON.stringify(event.payload, null, 2)}
+                      </pre>
+                    </div>
+                    {event.last_replay_result && (
+                      <div>
+                        <p className="text-xs font-semibold uppercase text-slate-500">
+                          Last replay ({event.last_replay_mode === 'live' ? 'live' : 'dry run'}
+                          {event.last_replayed_at ? `, ${new Date(event.last_replayed_at).toLocaleString()}` : ''})
+                        </p>
+                        <p className={`mt-1 text-xs ${event.last_replay_result.ok ? 'text-emerald-700' : 'text-red-600'}`}>
+                          {event.last_replay_result.ok ? 'Succeeded' : event.last_replay_result.error}
+                        </p>
+                        {event.last_replay_result.writes.length > 0 && (
+                          <ul className="mt-1 space-y-1 text-xs text-slate-700">
+                            {event.last_replay_result.writes.map((write, idx) => (
+                              <li key={idx}>
+                                <span className="font-semibold">{write.operation}</span> {write.table}{' '}
+                                <code className="text-slate-500">{JSON.stringify(write.payload)}</code>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {event.system_event_id && (
+                          <p className="mt-1 text-xs text-slate-500">System event {event.system_event_id}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {confirmLive && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-sm rounded-2xl bg-white p-6 shadow-2xl">
+            <h3 className="text-lg font-semibold text-slate-900">Replay live?</h3>
+            <p className="mt-2 text-sm text-slate-700">
+              This applies {confirmLive} to purchases and notifications. Run a dry run first if you are unsure.
+            </p>
+            <div className="mt-4 flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setConfirmLive(null)}
+                className="flex-1 rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={() => replay(confirmLive, 'live')}
+                className="flex-1 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              >
+                Replay
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
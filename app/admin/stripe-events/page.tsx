@@ -0,0 +1,15 @@
+import StripeEventsClient from './StripeEventsClient';
+
+export const dynamic = 'force-dynamic';
+
+export default function AdminStripeEventsPage() {
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-10">
+      <div className="mb-6">
+        <h1 className="text-3xl font-semibold text-slate-900">Stripe events</h1>
+        <p className="text-sm text-slate-600">Inspect failed webhook events and replay them as a dry run or live.</p>
+      </div>
+      <StripeEventsClient />
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+'use client';
+
+/* eslint-disable react-hooks/exhaustive-deps */
+
+import { useEffect, useState } from 'react';
+
+import { supabase } from '@/lib/supabase/client';
+import { useUser } from '@/lib/useUser';
+
+type SuspensionItem = {
+  id: string;
+  user_id: string;
+  kind: 'temporary' | 'permanent';
+  reason: string;
+  ends_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  listings_hidden: number;
+  swaps_cancelled: number;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+  profile: { full_name: string | null; email: string | null } | null;
+};
+
+const DURATIONS = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Permanent', days: null },
+];
+
+export default function SuspensionsClient() {
+  const { user, loading } = useUser();
+  const [active, setActive] = useState<SuspensionItem[]>([]);
+  const [history, setHistory] = useState<SuspensionItem[]>([]);
+  const [userFilter, setUserFilter] = useState('');
+  const [form, setForm] = useState<{ userId: string; reason: string; days: number | null }>({
+    userId: '',
+    reason: '',
+    days: 7,
+  });
+  const [liftReasons, setLiftReasons] = useState<Record<string, string>>({});
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loading && user) {
+      void loadSuspensions();
+    }
+  }, [loading, user]);
+
+  const authorizedFetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    if (!supabase) {
+      throw new Error(
+        'Supabase client is not initialized. Check your NEXT_PUBLIC_SUPABASE_* env vars.',
+      );
+    }
+
+    const {
+      data: { session },
+      error: sessionError,
+    } = await supabase.auth.getSession();
+
+    if (sessionError || !session?.access_token) {
+      throw new Error('Not authenticated');
+    }
+
+    return fetch(input, {
+      ...init,
+      headers: {
+        ...(init?.headers || {}),
+        Authorization: `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  };
+
+  const loadSuspensions = async (userId = userFilter.trim()) => {
+    setStatus('Loading suspensions...');
+    setError(null);
+    try {
+      const query = userId ? `?userId=${encodeURIComponent(userId)}` : '';
+      const res = await authorizedFetch(`/api/admin/suspensions${query}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error?.message || 'Failed to load suspensions');
+      setActive(json.data?.active ?? []);
+      setHistory(json.data?.history ?? []);
+    } catch (err: any) {
+      setError(err.message ?? 'Failed to load suspensions');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const submit = async (body: Record<string, unknown>, pending: string) => {
+    setStatus(pending);
+    setError(null);
+    try {
+      const res = await authorizedFetch('/api/admin/suspensions', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error?.message || 'Failed to update suspension');
+      setStatus(json.message ?? 'Saved');
+      await loadSuspensions();
+      return true;
+    } catch (err: any) {
+      setError(err.message ?? 'Failed to update suspension');
+      setStatus(null);
+      return false;
+    }
+  };
+
+  const handleSuspend = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const ok = await submit(
+      { action: 'suspend', userId: form.userId.trim(), reason: form.reason.trim(), days: form.days },
+      form.days ? 'Suspending user...' : 'Banning user...',
+    );
+    if (ok) setForm({ userId: '', reason: '', days: 7 });
+  };
+
+  const handleLift = async (item: SuspensionItem) => {
+    const reason = liftReasons[item.id]?.trim();
+    if (!reason) {
+      setError('Give a reason for lifting the suspension.');
+      return;
+    }
+    const ok = await submit({ action: 'lift', userId: item.user_id, reason }, 'Lifting suspension...');
+    if (ok) setLiftReasons((prev) => ({ ...prev, [item.id]: '' }));
+  };
+
+  if (!user && !loading) {
+    return (
+      <div className="rounded-xl border border-slate-200 bg-white p-6 text-sm text-slate-700">Sign in as admin.</div>
+    );
+  }
+
+  const nameOf = (item: SuspensionItem) => item.profile?.full_name || item.profile?.email || item.user_id;
+  const termOf = (item: SuspensionItem) =>
+    item.kind === 'permanent' ? 'Permanent ban' : `Until ${new Date(item.ends_at!).toLocaleString()}`;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+      {status && (
+        <div className="rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">{status}</div>
+      )}
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Suspend a user</h2>
+        <form onSubmit={handleSuspend} className="mt-4 space-y-3 text-sm">
+          <input
+            value={form.userId}
+            onChange={(e) => setForm((prev) => ({ ...prev, userId: e.target.value }))}
+            placeholder="User ID"
+            required
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <textarea
+            value={form.reason}
+            onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+            placeholder="Reason (shown to the user)"
+            required
+            rows={2}
+            className="w-full rounded-lg border border-slate-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {DURATIONS.map((option) => (
+              <button
+                key={option.label}
+                type="button"
+                onClick={() => setForm((prev) => ({ ...prev, days: option.days }))}
+                className={`rounded-lg px-3 py-2 font-semibold transition focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 ${
+                  form.days === option.days ? 'bg-indigo-600 text-white' : 'border border-slate-200 text-slate-700 hover:border-slate-300'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            Suspending hides the user&apos;s listings and cancels their open swaps. Lifting relists the hidden prompts.
+          </p>
+          <button
+            type="submit"
+            className="rounded-lg bg-red-600 px-4 py-2 font-semibold text-white transition hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+          >
+            {form.days ? 'Suspend' : 'Ban'}
+          </button>
+        </form>
+      </section>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          void loadSuspensions();
+        }}
+        className="flex gap-2 text-sm"
+      >
+        <input
+          value={userFilter}
+          onChange={(e) => setUserFilter(e.target.value)}
+          placeholder="Filter by user ID"
+          className="flex-1 rounded-lg border border-slate-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          className="rounded-lg border border-slate-200 px-3 py-2 font-semibold text-slate-700 hover:border-slate-300"
+        >
+          Filter
+        </button>
+      </form>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">In force</h2>
+          <span className="text-xs text-slate-500">{active.length}</span>
+        </div>
+        {active.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No active suspensions.</p>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {active.map((item) => (
+              <li key={item.id} className="rounded-xl border border-slate-200 p-4 text-sm">
+                <div className="flex flex-col gap-1 sm:flex-row sm:items-start sm:justify-between">
+                  <div>
+                    <p className="font-semibold text-slate-900">{nameOf(item)}</p>
+                    <p className="text-xs text-slate-500">
+                      {termOf(item)} · since {new Date(item.created_at).toLocaleDateString()} · {item.listings_hidden} listings
+                      hidden · {item.swaps_cancelled} swaps cancelled
+                    </p>
+                    <p className="mt-1 text-slate-700">{item.reason}</p>
+                  </div>
+                </div>
+                <div className="mt-3 flex gap-2">
+                  <input
+                    value={liftReasons[item.id] ?? ''}
+                    onChange={(e) => setLiftReasons((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    placeholder="Reason for lifting"
+                    className="flex-1 rounded-lg border border-slate-200 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleLift(item)}
+                    className="rounded-lg bg-emerald-600 px-3 py-2 font-semibold text-white transition hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2"
+                  >
+                    Lift
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-slate-900">History</h2>
+          <span className="text-xs text-slate-500">{history.length}</span>
+        </div>
+        {history.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No past suspensions.</p>
+        ) : (
+          <ul className="mt-4 space-y-3">
+            {history.map((item) => (
+              <li key={item.id} className="rounded-xl border border-slate-200 p-4 text-sm">
+                <p className="font-semibold text-slate-900">{nameOf(item)}</p>
+                <p className="text-xs text-slate-500">
+                  {termOf(item)} · {new Date(item.created_at).toLocaleDateString()} –{' '}
+                  {new Date(item.lifted_at!).toLocaleDateString()} · {item.lifted_by ? 'lifted by a moderator' : 'expired'}
+                </p>
+                <p className="mt-1 text-slate-700">{item.reason}</p>
+                {item.lift_reason && <p className="mt-1 text-xs text-slate-500">Lifted: {item.lift_reason}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
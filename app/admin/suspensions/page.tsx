@@ -0,0 +1,15 @@
+import SuspensionsClient from './SuspensionsClient';
+
+export const dynamic = 'force-dynamic';
+
+export default function AdminSuspensionsPage() {
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-10">
+      <div className="mb-6">
+        <h1 className="text-3xl font-semibold text-slate-900">Suspensions</h1>
+        <p className="text-sm text-slate-600">Suspend or ban accounts, lift suspensions, and review who was suspended and why.</p>
+      </div>
+      <SuspensionsClient />
+    </div>
+  );
+}
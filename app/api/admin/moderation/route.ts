@@ -1,8 +1,20 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
 import { adminModerationSchema } from '@/lib/validation/schemas';
-import { createSuccessResponse, createErrorResponse } from '@/lib/api/responses';
+import { createSuccessResponse, createErrorResponse, ErrorCode } from '@/lib/api/responses';
 import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { AppError } from '@/lib/errors';
+import {
+  claimModerationPrompt,
+  decideModeration,
+  getModerationQueueConfig,
+  loadModerationQueue,
+  loadRecentModerationActions,
+  releaseModerationClaim,
+} from '@/lib/moderation/queue';
+import { suspendUser } from '@/lib/moderation/suspensions';
+import { publishPromptVersions } from '@/lib/prompt-versions';
+import { notifySavedSearchMatches } from '@/lib/saved-searches';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -47,39 +59,33 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  const { supabaseAdmin } = auth;
+  const { supabaseAdmin, user } = auth;
+  const config = getModerationQueueConfig();
   try {
-    const [pendingRes, txRes, flaggedRes] = await Promise.all([
-      supabaseAdmin
-        .from('prompts')
-        .select('id, title, user_id, created_at, price, status, moderation_note')
-        .eq('status', 'submitted')
-        .order('created_at', { ascending: false })
-        .limit(50),
+    const [queue, recentActions, reviewersRes, txRes] = await Promise.all([
+      loadModerationQueue(supabaseAdmin, config),
+      loadRecentModerationActions(supabaseAdmin),
+      supabaseAdmin.from('profiles').select('id, full_name').eq('is_admin', true),
       supabaseAdmin
         .from('prompt_sales')
         .select('id, prompt_id, amount, buyer_id, seller_id, stripe_txn_id, created_at, prompts(title)')
         .order('created_at', { ascending: false })
         .limit(25),
-      supabaseAdmin
-        .from('prompt_ratings')
-        .select('prompt_id, rating, comment, created_at, user_id, prompts(title, user_id)')
-        .lte('rating', 2)
-        .order('created_at', { ascending: false })
-        .limit(25),
     ]);
 
-    if (pendingRes.error) throw pendingRes.error;
     if (txRes.error) throw txRes.error;
-    if (flaggedRes.error) {
-      console.warn('Flagged fetch error', flaggedRes.error);
+    if (reviewersRes.error) {
+      console.warn('Reviewer fetch error', reviewersRes.error);
     }
 
     return NextResponse.json(
       createSuccessResponse({
-        pendingPrompts: pendingRes.data ?? [],
+        reviewerId: user.id,
+        config,
+        queue,
+        recentActions,
+        reviewers: reviewersRes.data ?? [],
         transactions: txRes.data ?? [],
-        flagged: flaggedRes.data ?? [],
       })
     );
   } catch (err: any) {
@@ -122,79 +128,73 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { action, promptId, userId, reason } = validation.data;
+  const { action, promptId, userId, reviewerId, reason } = validation.data;
   const normalizedReason = reason?.trim() || null;
+  const config = getModerationQueueConfig();
 
   try {
-    if (action === 'approve' && promptId) {
-      const { error } = await supabaseAdmin
-        .from('prompts')
-        .update({
-          is_public: true,
-          status: 'approved',
-          moderation_note: normalizedReason,
-        })
-        .eq('id', promptId);
-
-      if (error) throw error;
-
-      await supabaseAdmin.from('moderation_actions').insert({
-        prompt_id: promptId,
-        admin_id: user.id,
-        action,
-        reason: normalizedReason,
-      });
-
-      return NextResponse.json(createSuccessResponse({ message: 'Prompt approved successfully', promptId }));
-    } else if (action === 'reject' && promptId) {
-      const { error } = await supabaseAdmin
-        .from('prompts')
-        .update({
-          is_public: false,
-          status: 'rejected',
-          moderation_note: normalizedReason,
-        })
-        .eq('id', promptId);
-
-      if (error) throw error;
-
-      await supabaseAdmin.from('moderation_actions').insert({
-        prompt_id: promptId,
-        admin_id: user.id,
+    if (action === 'claim' && promptId) {
+      const claim = await claimModerationPrompt(supabaseAdmin, { promptId, reviewerId: user.id, config });
+      return NextResponse.json(createSuccessResponse({ message: 'Prompt claimed for review', promptId, claim }));
+    } else if (action === 'assign' && promptId && reviewerId) {
+      try {
+        await assertAdminAccess(reviewerId, supabaseAdmin);
+      } catch {
+        return NextResponse.json(
+          createErrorResponse('VALIDATION_ERROR', 'Prompts can only be assigned to admins'),
+          { status: 400 }
+        );
+      }
+      const claim = await claimModerationPrompt(supabaseAdmin, { promptId, reviewerId, assignedBy: user.id, config });
+      return NextResponse.json(createSuccessResponse({ message: 'Prompt assigned', promptId, claim }));
+    } else if (action === 'release' && promptId) {
+      await releaseModerationClaim(supabaseAdmin, { promptId, reviewerId: user.id, reason: normalizedReason });
+      return NextResponse.json(createSuccessResponse({ message: 'Prompt released back to the queue', promptId }));
+    } else if ((action === 'approve' || action === 'reject' || action === 'archive') && promptId) {
+      const decision = await decideModeration(supabaseAdmin, {
+        promptId,
+        reviewerId: user.id,
         action,
         reason: normalizedReason,
+        config,
       });
 
-      return NextResponse.json(createSuccessResponse({ message: 'Prompt rejected successfully', promptId }));
-    } else if (action === 'archive' && promptId) {
-      const { error } = await supabaseAdmin
-        .from('prompts')
-        .update({
-          is_public: false,
-          status: 'archived',
-          moderation_note: normalizedReason,
+      if (decision.status === 'awaiting_second_review') {
+        return NextResponse.json(
+          createSuccessResponse({
+            message: 'Approval recorded; a second reviewer must approve this prompt',
+            promptId,
+            ...decision,
+          })
+        );
+      }
+
+      if (decision.status === 'approved') {
+        // Versions saved while the prompt awaited review become visible to buyers now
+        await publishPromptVersions(supabaseAdmin, String(promptId));
+        // An approved edit changes a prompt already on sale, so saved searches have seen it
+        if (!decision.edit) {
+          await notifySavedSearchMatches(supabaseAdmin, String(promptId));
+        }
+      }
+
+      return NextResponse.json(
+        createSuccessResponse({
+          message: decision.edit ? `Edit ${decision.status} successfully` : `Prompt ${decision.status} successfully`,
+          promptId,
+          ...decision,
         })
-        .eq('id', promptId);
-
-      if (error) throw error;
-
-      await supabaseAdmin.from('moderation_actions').insert({
-        prompt_id: promptId,
-        admin_id: user.id,
-        action,
-        reason: normalizedReason,
-      });
-
-      return NextResponse.json(createSuccessResponse({ message: 'Prompt archived successfully', promptId }));
+      );
     } else if (action === 'ban' && userId) {
-      const { error } = await supabaseAdmin
-        .from('profiles')
-        .update({ is_banned: true })
-        .eq('id', userId);
-
-      if (error) throw error;
+      const suspension = await suspendUser(supabaseAdmin, {
+        userId,
+        adminId: user.id,
+        reason: normalizedReason ?? 'Banned by a moderator',
+      });
 
-      return NextResponse.json(createSuccessResponse({ message: 'User banned successfully', userId }));
+      return NextResponse.json(
+        createSuccessResponse({ message: 'User banned successfully', userId, suspensionId: suspension.id })
+      );
     }
 
     return NextResponse.json(
@@ -202,6 +202,11 @@ export async function POST(req: NextRequest) {
       { status: 400 }
     );
   } catch (err: any) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
     return NextResponse.json(
       createErrorResponse('DATABASE_ERROR', err.message ?? 'Failed to process action'),
       { status: 500 }
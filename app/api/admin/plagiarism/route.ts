@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCode, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { AppError } from '@/lib/errors';
+import { FLAG_SIMILARITY, loadSimilarityClusters } from '@/lib/moderation/plagiarism';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Clusters of prompts with near-identical text, with each copy's owner and how they got it
+export async function GET(req: NextRequest) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return NextResponse.json(
+      createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+      { status: 500 }
+    );
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 });
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status });
+  }
+
+  const requested = Number(req.nextUrl.searchParams.get('minSimilarity'));
+  const minSimilarity = Number.isFinite(requested) && requested >= FLAG_SIMILARITY && requested <= 1 ? requested : FLAG_SIMILARITY;
+
+  try {
+    const clusters = await loadSimilarityClusters(supabaseAdmin, { minSimilarity });
+    return NextResponse.json(createSuccessResponse({ minSimilarity, clusters }));
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+    return NextResponse.json(createErrorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to load similar prompts'), { status: 500 });
+  }
+}
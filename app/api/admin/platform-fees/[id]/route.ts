@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { isPromotion } from '@/lib/platform-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Removes a promotion or creator override; the global default can be changed but not removed
+export async function DELETE(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return NextResponse.json(
+      createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+      { status: 500 }
+    );
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 });
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status });
+  }
+
+  const { id } = await context.params;
+  const { data: rule, error } = await supabaseAdmin
+    .from('platform_fee_rules')
+    .select('id,creator_id,starts_at,ends_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load platform fee rule', { message: error.message }),
+      { status: 500 }
+    );
+  }
+  if (!rule) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Platform fee rule not found'), { status: 404 });
+  }
+  if (rule.creator_id === null && !isPromotion(rule)) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.INVALID_STATUS, 'The global default fee cannot be removed'),
+      { status: 409 }
+    );
+  }
+
+  const { error: deleteError } = await supabaseAdmin.from('platform_fee_rules').delete().eq('id', id);
+  if (deleteError) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to delete platform fee rule', { message: deleteError.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ id }, 'Platform fee rule removed'));
+}
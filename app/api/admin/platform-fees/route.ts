@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { isPromotion, PLATFORM_FEE_RULE_COLUMNS, selectPlatformFee, PlatformFeeRule } from '@/lib/platform-fees';
+import { platformFeeRuleSchema } from '@/lib/validation/schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type AdminContext = { supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>; userId: string };
+
+async function authorizeAdmin(req: NextRequest): Promise<AdminContext | NextResponse> {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return NextResponse.json(
+      createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+      { status: 500 }
+    );
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 });
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status });
+  }
+
+  return { supabaseAdmin, userId: user.id };
+}
+
+// Lists every fee rule with the fee that currently applies to creators without an override
+export async function GET(req: NextRequest) {
+  const auth = await authorizeAdmin(req);
+  if (auth instanceof NextResponse) return auth;
+
+  const { data, error } = await auth.supabaseAdmin
+    .from('platform_fee_rules')
+    .select(PLATFORM_FEE_RULE_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load platform fee rules', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  const rules = (data ?? []) as PlatformFeeRule[];
+  const current = selectPlatformFee(rules.filter((rule) => rule.creator_id === null), '');
+  return NextResponse.json(createSuccessResponse({ rules, defaultFeeBps: current.feeBps }));
+}
+
+/**
+ * Adds a promotion, or sets a standing rate. There is one standing rate per scope (global or a
+ * single creator), so setting it again replaces the previous value.
+ */
+export async function POST(req: NextRequest) {
+  const auth = await authorizeAdmin(req);
+  if (auth instanceof NextResponse) return auth;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), { status: 400 });
+  }
+
+  const parsed = platformFeeRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid request data', parsed.error.format()),
+      { status: 400 }
+    );
+  }
+
+  const rule = {
+    creator_id: parsed.data.creator_id ?? null,
+    fee_bps: parsed.data.fee_bps,
+    starts_at: parsed.data.starts_at ?? null,
+    ends_at: parsed.data.ends_at ?? null,
+    note: parsed.data.note ?? null,
+  };
+
+  if (!isPromotion(rule)) {
+    let existingQuery = auth.supabaseAdmin
+      .from('platform_fee_rules')
+      .select('id')
+      .is('starts_at', null)
+      .is('ends_at', null);
+    existingQuery = rule.creator_id ? existingQuery.eq('creator_id', rule.creator_id) : existingQuery.is('creator_id', null);
+
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+    if (existingError && existingError.code !== 'PGRST116') {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load platform fee rules', { message: existingError.message }),
+        { status: 500 }
+      );
+    }
+
+    if (existing?.id) {
+      const { data: updated, error: updateError } = await auth.supabaseAdmin
+        .from('platform_fee_rules')
+        .update({ fee_bps: rule.fee_bps, note: rule.note, created_by: auth.userId, updated_at: new Date().toISOString() })
+        .eq('id', existing.id)
+        .select(PLATFORM_FEE_RULE_COLUMNS)
+        .single();
+
+      if (updateError) {
+        return NextResponse.json(
+          createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to update platform fee rule', { message: updateError.message }),
+          { status: 500 }
+        );
+      }
+      return NextResponse.json(createSuccessResponse({ rule: updated }, 'Platform fee updated'));
+    }
+  }
+
+  const { data: created, error: insertError } = await auth.supabaseAdmin
+    .from('platform_fee_rules')
+    .insert({ ...rule, created_by: auth.userId })
+    .select(PLATFORM_FEE_RULE_COLUMNS)
+    .single();
+
+  if (insertError) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to create platform fee rule', { message: insertError.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ rule: created }, 'Platform fee rule created'), { status: 201 });
+}
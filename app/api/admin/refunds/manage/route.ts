@@ -68,6 +68,7 @@ export async function POST(request: NextRequest) {
           refunded_amount,
           stripe_checkout_session_id,
           stripe_payment_intent_id,
+          transfer_destination,
           prompts (title)
         )
       `)
@@ -140,6 +141,8 @@ export async function POST(request: NextRequest) {
         payment_intent: paymentIntentId,
         amount: refundAmountCents,
         reason: 'requested_by_customer',
+        // Destination charges: take the creator share back and return the proportional platform fee
+        ...(purchase.transfer_destination ? { reverse_transfer: true, refund_application_fee: true } : {}),
         metadata: {
           purchase_id: purchase.id,
           refund_request_id: refundRequestId,
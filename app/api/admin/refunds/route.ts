@@ -85,7 +85,7 @@ export async function POST(req: NextRequest) {
     const { data: purchase, error: purchaseError } = await supabaseAdmin
       .from('purchases')
       .select(
-        'id,status,amount_total,refunded_amount,currency,stripe_payment_intent_id,stripe_checkout_session_id,buyer_id,seller_id'
+        'id,status,amount_total,refunded_amount,currency,stripe_payment_intent_id,stripe_checkout_session_id,buyer_id,seller_id,transfer_destination'
       )
       .eq('id', purchaseId)
       .maybeSingle();
@@ -169,6 +169,8 @@ export async function POST(req: NextRequest) {
       payment_intent: paymentIntentId,
       amount: requestedCents,
       reason: reason ? 'requested_by_customer' : undefined,
+      // Destination charges: take the creator share back and return the proportional platform fee
+      ...(purchase.transfer_destination ? { reverse_transfer: true, refund_application_fee: true } : {}),
       metadata: {
         purchase_id: purchaseId,
         admin_id: adminCheck.userId!,
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCode, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { AppError } from '@/lib/errors';
+import { adminReportActionSchema } from '@/lib/validation/schemas';
+import { decidePromptAppeal, loadReportTriage, resolveContentReports } from '@/lib/moderation/reports';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function authenticateAdmin(req: NextRequest) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return {
+      response: NextResponse.json(
+        createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+        { status: 500 }
+      ),
+    };
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return { response: NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 }) };
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return {
+      response: NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status }),
+    };
+  }
+
+  return { supabaseAdmin, user };
+}
+
+function errorResponse(err: unknown, fallback: string) {
+  if (err instanceof AppError) {
+    return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+      status: err.statusCode,
+    });
+  }
+  return NextResponse.json(createErrorResponse(ErrorCodes.INTERNAL_ERROR, fallback), { status: 500 });
+}
+
+// Open user reports grouped by content, and takedown appeals waiting for a decision
+export async function GET(req: NextRequest) {
+  const auth = await authenticateAdmin(req);
+  if (auth.response) return auth.response;
+
+  try {
+    const triage = await loadReportTriage(auth.supabaseAdmin);
+    return NextResponse.json(createSuccessResponse(triage));
+  } catch (err) {
+    return errorResponse(err, 'Failed to load reports');
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await authenticateAdmin(req);
+  if (auth.response) return auth.response;
+  const { supabaseAdmin, user } = auth;
+  const requestId = crypto.randomUUID();
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse('INVALID_JSON', 'Invalid JSON in request body'), { status: 400 });
+  }
+
+  const validation = adminReportActionSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      createErrorResponse('VALIDATION_ERROR', 'Invalid input data', validation.error.format()),
+      { status: 400 }
+    );
+  }
+  const { action, targetType, targetId, appealId, note } = validation.data;
+
+  try {
+    if ((action === 'grant_appeal' || action === 'deny_appeal') && appealId) {
+      const appeal = await decidePromptAppeal(supabaseAdmin, {
+        appealId,
+        adminId: user.id,
+        decision: action === 'grant_appeal' ? 'grant' : 'deny',
+        note,
+        requestId,
+      });
+      return NextResponse.json(createSuccessResponse({ appeal }, `Appeal ${appeal.status}`));
+    }
+    if (action !== 'grant_appeal' && action !== 'deny_appeal' && targetType && targetId) {
+      const result = await resolveContentReports(supabaseAdmin, {
+        targetType,
+        targetId,
+        adminId: user.id,
+        resolution: action,
+        note,
+        requestId,
+      });
+      return NextResponse.json(createSuccessResponse(result, `Resolved ${result.resolved} report(s)`));
+    }
+
+    return NextResponse.json(
+      createErrorResponse('INVALID_ACTION', 'Unsupported action or missing required parameters'),
+      { status: 400 }
+    );
+  } catch (err) {
+    return errorResponse(err, 'Failed to process action');
+  }
+}
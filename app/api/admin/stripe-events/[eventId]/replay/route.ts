@@ -0,0 +1,82 @@
+import Stripe from 'stripe';
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { replayStripeEvent } from '@/lib/stripe/replay';
+import { stripeEventReplaySchema } from '@/lib/validation/schemas';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function getStripe() {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    throw new Error('STRIPE_SECRET_KEY is not set');
+  }
+  return new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+}
+
+// Replays a stored Stripe event through the webhook processor, as a dry run or live
+export async function POST(req: NextRequest, context: { params: Promise<{ eventId: string }> }) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return NextResponse.json(
+      createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+      { status: 500 }
+    );
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 });
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status });
+  }
+
+  const { eventId } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  let body: unknown = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Mode is optional and defaults to a dry run
+  }
+
+  const parsed = stripeEventReplaySchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid request data', parsed.error.format()),
+      { status: 400 }
+    );
+  }
+
+  let stripe: Stripe;
+  try {
+    stripe = getStripe();
+  } catch (err: any) {
+    return NextResponse.json(createErrorResponse('SERVER_ERROR', err.message), { status: 500 });
+  }
+
+  try {
+    const result = await replayStripeEvent(supabaseAdmin, stripe, {
+      eventId,
+      mode: parsed.data.mode,
+      adminId: user.id,
+      requestId,
+    });
+    return NextResponse.json(createSuccessResponse({ requestId, result }));
+  } catch (err: any) {
+    return NextResponse.json(
+      createErrorResponse(err?.code || ErrorCodes.INTERNAL_ERROR, err?.message || 'Failed to replay Stripe event', err?.details),
+      { status: err?.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { STRIPE_EVENT_REPLAY_COLUMNS } from '@/lib/stripe/replay';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Lists Stripe webhook events that still need attention: `failed` (default) or all `unprocessed`
+export async function GET(req: NextRequest) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return NextResponse.json(
+      createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+      { status: 500 }
+    );
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 });
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status });
+  }
+
+  const filter = req.nextUrl.searchParams.get('status') === 'unprocessed' ? 'unprocessed' : 'failed';
+
+  let query = supabaseAdmin
+    .from('stripe_events')
+    .select(STRIPE_EVENT_REPLAY_COLUMNS)
+    .is('processed_at', null)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (filter === 'failed') {
+    query = query.not('last_error', 'is', null);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load Stripe events', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ status: filter, events: data ?? [] }));
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCode, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { AppError } from '@/lib/errors';
+import { adminSuspensionSchema } from '@/lib/validation/schemas';
+import { liftSuspension, loadSuspensionAudit, suspendUser } from '@/lib/moderation/suspensions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function authenticateAdmin(req: NextRequest) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return {
+      response: NextResponse.json(
+        createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+        { status: 500 }
+      ),
+    };
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return { response: NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 }) };
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return {
+      response: NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status }),
+    };
+  }
+
+  return { supabaseAdmin, user };
+}
+
+function errorResponse(err: unknown, fallback: string) {
+  if (err instanceof AppError) {
+    return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+      status: err.statusCode,
+    });
+  }
+  return NextResponse.json(createErrorResponse(ErrorCodes.INTERNAL_ERROR, fallback), { status: 500 });
+}
+
+// Suspensions in force and the suspension history, optionally for one user (?userId=)
+export async function GET(req: NextRequest) {
+  const auth = await authenticateAdmin(req);
+  if (auth.response) return auth.response;
+
+  const userId = req.nextUrl.searchParams.get('userId') || undefined;
+  try {
+    const audit = await loadSuspensionAudit(auth.supabaseAdmin, { userId });
+    return NextResponse.json(createSuccessResponse(audit));
+  } catch (err) {
+    return errorResponse(err, 'Failed to load suspensions');
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await authenticateAdmin(req);
+  if (auth.response) return auth.response;
+  const { supabaseAdmin, user } = auth;
+  const requestId = crypto.randomUUID();
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse('INVALID_JSON', 'Invalid JSON in request body'), { status: 400 });
+  }
+
+  const validation = adminSuspensionSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      createErrorResponse('VALIDATION_ERROR', 'Invalid input data', validation.error.format()),
+      { status: 400 }
+    );
+  }
+  const input = validation.data;
+
+  try {
+    if (input.action === 'suspend') {
+      const suspension = await suspendUser(supabaseAdmin, {
+        userId: input.userId,
+        adminId: user.id,
+        reason: input.reason,
+        days: input.days ?? null,
+        requestId,
+      });
+      return NextResponse.json(
+        createSuccessResponse({ suspension }, suspension.kind === 'permanent' ? 'User banned' : 'User suspended'),
+        { status: 201 }
+      );
+    }
+
+    const result = await liftSuspension(supabaseAdmin, {
+      userId: input.userId,
+      adminId: user.id,
+      reason: input.reason,
+      requestId,
+    });
+    return NextResponse.json(createSuccessResponse(result, 'Suspension lifted'));
+  } catch (err) {
+    return errorResponse(err, 'Failed to update suspension');
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { assertAdminAccess, getAdminUser, requireAdminSupabaseClient } from '@/lib/admin/auth';
+import { reverseSwapFulfillment } from '@/lib/swaps/fulfillment';
+import { adminSwapReversalSchema } from '@/lib/validation/schemas';
+import { logger } from '@/lib/logging';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function authorize(req: NextRequest) {
+  let supabaseAdmin: ReturnType<typeof requireAdminSupabaseClient>;
+  try {
+    supabaseAdmin = requireAdminSupabaseClient();
+  } catch {
+    return {
+      response: NextResponse.json(
+        createErrorResponse('SERVER_ERROR', 'Server misconfigured: Supabase URL and service role key are required for admin routes.'),
+        { status: 500 }
+      ),
+    };
+  }
+
+  const user = await getAdminUser(req, supabaseAdmin);
+  if (!user) {
+    return {
+      response: NextResponse.json(createErrorResponse('UNAUTHORIZED', 'Authentication required'), { status: 401 }),
+    };
+  }
+
+  try {
+    await assertAdminAccess(user.id, supabaseAdmin);
+  } catch (err: any) {
+    const status = err.message === 'Forbidden' ? 403 : 500;
+    return {
+      response: NextResponse.json(createErrorResponse('FORBIDDEN', err.message ?? 'Admin access required'), { status }),
+    };
+  }
+
+  return { supabaseAdmin, user };
+}
+
+// Traces which prompt copies a swap fulfillment created
+export async function GET(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req);
+  if (auth.response) return auth.response;
+  const { supabaseAdmin } = auth;
+  const { id } = await context.params;
+
+  const [fulfillmentResult, copiesResult] = await Promise.all([
+    supabaseAdmin
+      .from('swap_fulfillments')
+      .select('swap_id,idempotency_key,fulfilled_by,request_id,created_at,reversed_at,reversed_by,reversal_reason')
+      .eq('swap_id', id)
+      .maybeSingle(),
+    supabaseAdmin
+      .from('swap_prompt_copies')
+      .select('id,source_prompt_id,copied_prompt_id,recipient_id,created_at')
+      .eq('swap_id', id)
+      .order('created_at', { ascending: true }),
+  ]);
+
+  if (fulfillmentResult.error || copiesResult.error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load swap fulfillment', {
+        message: fulfillmentResult.error?.message ?? copiesResult.error?.message,
+      }),
+      { status: 500 }
+    );
+  }
+
+  if (!fulfillmentResult.data) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Swap fulfillment not found'), { status: 404 });
+  }
+
+  return NextResponse.json(
+    createSuccessResponse({ fulfillment: fulfillmentResult.data, copies: copiesResult.data ?? [] })
+  );
+}
+
+// Reverses a fulfillment by archiving every copy it created
+export async function POST(req: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const auth = await authorize(req);
+  if (auth.response) return auth.response;
+  const { supabaseAdmin, user } = auth;
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+
+  let body: unknown = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Reason is optional; an empty body is fine
+  }
+
+  const parsed = adminSwapReversalSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid request data', parsed.error.format()),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const archived = await reverseSwapFulfillment(supabaseAdmin, id, user.id, parsed.data.reason);
+    logger.info('Swap fulfillment reversed', { requestId, swapId: id, adminId: user.id, archived }, 'SWAP_FULFILLMENT_REVERSED');
+    return NextResponse.json(createSuccessResponse({ swapId: id, archived }));
+  } catch (err: any) {
+    return NextResponse.json(
+      createErrorResponse(err?.code || ErrorCodes.INTERNAL_ERROR, err?.message || 'Failed to reverse swap fulfillment', err?.details),
+      { status: err?.statusCode || 500 }
+    );
+  }
+}
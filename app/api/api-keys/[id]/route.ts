@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { apiKeyUpdateSchema } from '@/lib/validation/schemas';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { API_KEY_COLUMNS, StoredApiKey, toApiKeyView } from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function findKey(supabase: any, userId: string, id: string): Promise<StoredApiKey | null> {
+  const { data } = await supabase
+    .from('user_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return (data as StoredApiKey | null) ?? null;
+}
+
+// Renames a saved key or changes its monthly spend cap (null removes the cap)
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = apiKeyUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const key = await findKey(supabase, user.id, id);
+  if (!key || key.revoked_at) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'API key not found.'), { status: 404 });
+  }
+
+  const changes = { ...parsed.data, updated_at: new Date().toISOString() };
+  const { error } = await supabase.from('user_api_keys').update(changes).eq('id', id);
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to update API key.'), { status: 500 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ key: toApiKeyView({ ...key, ...parsed.data }) }));
+}
+
+/**
+ * Revokes a saved key. The ciphertext is wiped so the key can never be used again; the row
+ * stays so past spend and last use remain visible.
+ */
+export async function DELETE(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const key = await findKey(supabase, user.id, id);
+  if (!key) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'API key not found.'), { status: 404 });
+  }
+  if (key.revoked_at) {
+    return NextResponse.json(createSuccessResponse({ key: toApiKeyView(key) }));
+  }
+
+  const revokedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('user_api_keys')
+    .update({ encrypted_key: null, revoked_at: revokedAt, updated_at: revokedAt })
+    .eq('id', id);
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to revoke API key.'), { status: 500 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ key: toApiKeyView({ ...key, revoked_at: revokedAt }) }));
+}
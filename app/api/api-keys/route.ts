@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { apiKeyCreateSchema } from '@/lib/validation/schemas';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import {
+  API_KEY_COLUMNS,
+  encryptApiKey,
+  keyHint,
+  MAX_API_KEYS_PER_USER,
+  StoredApiKey,
+  toApiKeyView,
+} from '@/lib/api-keys';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Lists the user's saved provider keys: labels, hints, spend and status, never the key itself
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load API keys.'), { status: 500 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ keys: ((data ?? []) as StoredApiKey[]).map((key) => toApiKeyView(key)) }));
+}
+
+/**
+ * Saves a provider key encrypted with the app's key-encryption key. The response carries only
+ * the key's metadata; the key cannot be read back, only used by id or revoked.
+ */
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = apiKeyCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { data: existing } = await supabase
+    .from('user_api_keys')
+    .select('id,revoked_at')
+    .eq('user_id', user.id);
+  const activeCount = (existing ?? []).filter((key: { revoked_at: string | null }) => !key.revoked_at).length;
+  if (activeCount >= MAX_API_KEYS_PER_USER) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, `You can save at most ${MAX_API_KEYS_PER_USER} API keys.`),
+      { status: 400 }
+    );
+  }
+
+  const { provider, label, api_key: apiKey, monthly_cap_cents: monthlyCapCents } = parsed.data;
+  let encryptedKey: string;
+  try {
+    encryptedKey = encryptApiKey(apiKey, user.id, provider);
+  } catch (err) {
+    logger.error('Failed to encrypt API key', { userId: user.id, provider }, err as Error, 'API_KEY_VAULT');
+    return NextResponse.json(createErrorResponse(ErrorCodes.INTERNAL_ERROR, 'Saving API keys is not configured.'), {
+      status: 500,
+    });
+  }
+
+  const { data: saved, error } = await supabase
+    .from('user_api_keys')
+    .insert({
+      user_id: user.id,
+      provider,
+      label,
+      encrypted_key: encryptedKey,
+      key_hint: keyHint(apiKey),
+      monthly_cap_cents: monthlyCapCents ?? null,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+  if (error || !saved) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to save API key.'), { status: 500 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ key: toApiKeyView(saved as StoredApiKey) }), { status: 201 });
+}
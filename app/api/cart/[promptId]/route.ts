@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { createSuccessResponse, createErrorResponse, createAuthErrorResponse, ErrorCodes } from '@/lib/api/responses';
+import { cartTotalCents, loadCart } from '@/lib/cart';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Removes one prompt from the cart and returns what is left
+export async function DELETE(_req: Request, context: { params: Promise<{ promptId: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const { promptId } = await context.params;
+  const supabase = await createSupabaseServerClient();
+
+  const { error } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('user_id', user.id)
+    .eq('prompt_id', promptId);
+
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to remove prompt from cart', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  try {
+    const items = await loadCart(supabase, user.id);
+    return NextResponse.json(createSuccessResponse({ items, totalCents: cartTotalCents(items) }));
+  } catch (err: any) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, err?.message ?? 'Failed to load cart'),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createSupabaseAdminClient, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { cartCheckoutSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+  type ErrorCode,
+} from '@/lib/api/responses';
+import { AppError } from '@/lib/errors';
+import { CartLine, encodeCartMetadata, findOwnedPromptIds, groupBySeller, loadCart } from '@/lib/cart';
+import { findTransferDestination, platformFeeCents, resolvePlatformFee } from '@/lib/platform-fees';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function getStripeClient() {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    return null;
+  }
+  return new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+}
+
+// Creates one Stripe checkout session with a line item per prompt in the cart
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.SERVER_ERROR, 'Server misconfigured: STRIPE_SECRET_KEY is missing'),
+      { status: 500 }
+    );
+  }
+
+  let body: unknown = {};
+  try {
+    body = await req.json();
+  } catch {
+    // Redirect URLs are optional
+  }
+
+  const parsed = cartCheckoutSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    const items = await loadCart(supabase, user.id);
+
+    if (items.length === 0) {
+      return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Your cart is empty'), { status: 400 });
+    }
+
+    const unavailable = items.filter((item) => !item.available || item.sellerId === user.id);
+    if (unavailable.length > 0) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.INVALID_STATUS, 'Some prompts in your cart can no longer be purchased', {
+          promptIds: unavailable.map((item) => item.promptId),
+        }),
+        { status: 409 }
+      );
+    }
+
+    const owned = await findOwnedPromptIds(supabase, user.id, items.map((item) => item.promptId));
+    if (owned.length > 0) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.ALREADY_EXISTS, 'You already own some prompts in your cart', { promptIds: owned }),
+        { status: 409 }
+      );
+    }
+
+    const supabaseAdmin = await createSupabaseAdminClient();
+    const feeBpsBySeller = new Map<string, number>();
+    for (const sellerId of new Set(items.map((item) => item.sellerId))) {
+      feeBpsBySeller.set(sellerId, (await resolvePlatformFee(supabaseAdmin, sellerId)).feeBps);
+    }
+
+    const lines: CartLine[] = items.map((item) => ({
+      promptId: item.promptId,
+      sellerId: item.sellerId,
+      amountCents: item.priceCents,
+      platformFeeCents: platformFeeCents(item.priceCents, feeBpsBySeller.get(item.sellerId) ?? 0),
+    }));
+
+    // A charge can have one destination, so only single-creator carts use a destination charge;
+    // mixed carts are held by the platform and paid out from each creator's ledger balance
+    const sellerIds = [...feeBpsBySeller.keys()];
+    const transferDestination =
+      sellerIds.length === 1 ? await findTransferDestination(supabaseAdmin, sellerIds[0]) : null;
+    const totalFeeCents = lines.reduce((sum, line) => sum + (line.platformFeeCents ?? 0), 0);
+
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
+    const session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      payment_method_types: ['card'],
+      line_items: items.map((item) => ({
+        price_data: {
+          currency: 'usd',
+          unit_amount: item.priceCents,
+          product_data: {
+            name: item.title,
+            metadata: {
+              prompt_id: item.promptId,
+              seller_id: item.sellerId,
+            },
+          },
+        },
+        quantity: 1,
+      })),
+      ...(transferDestination
+        ? {
+            payment_intent_data: {
+              ...(totalFeeCents > 0 ? { application_fee_amount: totalFeeCents } : {}),
+              transfer_data: { destination: transferDestination },
+            },
+          }
+        : {}),
+      success_url: parsed.data.success_url || `${siteUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: parsed.data.cancel_url || `${siteUrl}/cancel`,
+      client_reference_id: user.id,
+      metadata: {
+        user_id: user.id,
+        ...(sellerIds.length === 1 ? { platform_fee_bps: String(feeBpsBySeller.get(sellerIds[0])) } : {}),
+        ...(transferDestination ? { transfer_destination: transferDestination } : {}),
+        ...encodeCartMetadata(lines),
+      },
+    });
+
+    return NextResponse.json(
+      createSuccessResponse(
+        {
+          url: session.url,
+          sessionId: session.id,
+          sellers: groupBySeller(lines),
+        },
+        'Checkout session created successfully'
+      )
+    );
+  } catch (err: any) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+
+    console.error('Cart checkout error:', err);
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.STRIPE_ERROR, 'Failed to create checkout session', err?.message),
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { cartItemSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+  type ErrorCode,
+} from '@/lib/api/responses';
+import { AppError } from '@/lib/errors';
+import { assertCartPrompt, cartTotalCents, loadCart } from '@/lib/cart';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function appErrorResponse(err: unknown) {
+  if (err instanceof AppError) {
+    return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+      status: err.statusCode,
+    });
+  }
+  return NextResponse.json(
+    createErrorResponse(ErrorCodes.INTERNAL_ERROR, (err as Error)?.message || 'Cart request failed'),
+    { status: 500 }
+  );
+}
+
+async function cartResponse(supabase: any, userId: string) {
+  const items = await loadCart(supabase, userId);
+  return NextResponse.json(createSuccessResponse({ items, totalCents: cartTotalCents(items) }));
+}
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    return await cartResponse(supabase, user.id);
+  } catch (err) {
+    return appErrorResponse(err);
+  }
+}
+
+// Adds a prompt to the cart; adding a prompt that is already there is a no-op
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = cartItemSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  try {
+    const supabase = await createSupabaseServerClient();
+    await assertCartPrompt(supabase, user.id, parsed.data.prompt_id);
+
+    const { error } = await supabase
+      .from('cart_items')
+      .insert({ user_id: user.id, prompt_id: parsed.data.prompt_id });
+
+    if (error && error.code !== '23505') {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to add prompt to cart', { message: error.message }),
+        { status: 500 }
+      );
+    }
+
+    return await cartResponse(supabase, user.id);
+  } catch (err) {
+    return appErrorResponse(err);
+  }
+}
+
+// Empties the cart
+export async function DELETE() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const { error } = await supabase.from('cart_items').delete().eq('user_id', user.id);
+
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to clear cart', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ items: [], totalCents: 0 }));
+}
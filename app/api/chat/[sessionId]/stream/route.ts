@@ -0,0 +1,128 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import {
+  buildChatMessages,
+  buildLocalMockReply,
+  CHAT_MAX_TOKENS,
+  chatErrorReply,
+  fixedReplyStream,
+  resolveChatModel,
+} from '@/lib/llm/chat';
+import { streamLlmCompletion } from '@/lib/llm/registry';
+import { createLlmSseResponse, LlmStreamOutcome } from '@/lib/llm/stream-response';
+import { LlmProviderError, LlmResponse } from '@/lib/llm/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_MESSAGE_LENGTH = 8000;
+
+/**
+ * Stores the user's message and streams the assistant reply as server-sent events. The reply is
+ * saved as a `ChatMessage` when the stream ends; if the client cancels or disconnects first, the
+ * text generated so far is saved instead so it shows up when the chat is reloaded.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+
+  try {
+    const supabaseAdmin = await createSupabaseAdminClient();
+    await enforceRateLimit({
+      request: req,
+      supabase: supabaseAdmin,
+      scope: 'chat:message',
+      limit: 20,
+      windowSeconds: 60,
+    });
+  } catch (err) {
+    if (err instanceof RateLimitExceeded) {
+      return rateLimitResponse(err);
+    }
+    throw err;
+  }
+
+  let body: { content?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const content = typeof body.content === 'string' ? body.content.trim() : '';
+  if (!content) {
+    return NextResponse.json({ error: 'Message content is required.' }, { status: 400 });
+  }
+  if (content.length > MAX_MESSAGE_LENGTH) {
+    return NextResponse.json({ error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters.` }, { status: 400 });
+  }
+
+  const session = await prisma.chatSession.findUnique({ where: { id: sessionId } });
+  if (!session) {
+    return NextResponse.json({ error: 'Chat session not found.' }, { status: 404 });
+  }
+
+  const userMessage = await prisma.chatMessage.create({
+    data: { sessionId, role: 'user', content },
+  });
+  const history = await prisma.chatMessage.findMany({
+    where: { sessionId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const chat = resolveChatModel();
+  const saveReply = async (outcome: LlmStreamOutcome) => {
+    let reply = outcome.text;
+    if (outcome.status === 'complete') {
+      reply = outcome.text || 'I couldn’t generate a response this time.';
+    } else if (outcome.status === 'failed' && !reply) {
+      reply =
+        outcome.error instanceof LlmProviderError
+          ? chatErrorReply(outcome.error, chat.provider.label, history)
+          : 'I ran into an internal error when trying to generate a response.';
+    }
+    // Nothing was generated before the client went away
+    if (!reply) return;
+
+    const assistantMessage = await prisma.chatMessage.create({
+      data: { sessionId, role: 'assistant', content: reply },
+    });
+    return { messageId: assistantMessage.id, userMessageId: userMessage.id, partial: outcome.status !== 'complete' };
+  };
+
+  const abort = new AbortController();
+  req.signal?.addEventListener('abort', () => abort.abort());
+  const sseOptions = {
+    abort,
+    onFinish: saveReply,
+    donePayload: (response: LlmResponse) => ({
+      stopReason: response.stopReason,
+      usage: response.usage,
+    }),
+  };
+
+  if (chat.useLocalMock) {
+    return createLlmSseResponse(fixedReplyStream(buildLocalMockReply(history, content)), sseOptions);
+  }
+
+  try {
+    return await createLlmSseResponse(
+      streamLlmCompletion(
+        { model: chat.model, messages: buildChatMessages(history), maxTokens: CHAT_MAX_TOKENS },
+        { provider: chat.provider.id, credentials: chat.credentials, signal: abort.signal }
+      ),
+      sseOptions
+    );
+  } catch (err) {
+    // The model failed before sending anything; stream the fallback reply instead
+    const reply =
+      err instanceof LlmProviderError
+        ? chatErrorReply(err, chat.provider.label, history)
+        : 'I ran into an internal error when trying to generate a response.';
+    return createLlmSseResponse(fixedReplyStream(reply), sseOptions);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { updateCouponSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { COUPON_COLUMNS } from '@/lib/coupons';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Deactivates a coupon or changes its limits. Codes and discounts are fixed once created.
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = updateCouponSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  for (const key of ['active', 'expires_at', 'max_redemptions'] as const) {
+    if (parsed.data[key] !== undefined) updates[key] = parsed.data[key];
+  }
+
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .update(updates)
+    .eq('id', id)
+    .eq('creator_id', user.id)
+    .select(COUPON_COLUMNS)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to update coupon', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  if (!coupon) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Coupon not found'), { status: 404 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ coupon }, 'Coupon updated'));
+}
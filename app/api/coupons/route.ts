@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { createCouponSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { COUPON_COLUMNS } from '@/lib/coupons';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Lists the signed-in creator's coupons, newest first
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('coupons')
+    .select(COUPON_COLUMNS)
+    .eq('creator_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load coupons', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ coupons: data ?? [] }));
+}
+
+// Creates a coupon for one of the creator's prompts, or for all of them when prompt_id is omitted
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = createCouponSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const input = parsed.data;
+  const supabase = await createSupabaseServerClient();
+
+  if (input.prompt_id) {
+    const { data: prompt } = await supabase
+      .from('prompts')
+      .select('id, user_id')
+      .eq('id', input.prompt_id)
+      .maybeSingle();
+
+    if (!prompt || prompt.user_id !== user.id) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.FORBIDDEN, 'Coupons can only target your own prompts'),
+        { status: 403 }
+      );
+    }
+  }
+
+  if (input.expires_at && new Date(input.expires_at).getTime() <= Date.now()) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Expiry must be in the future'), {
+      status: 400,
+    });
+  }
+
+  const { data: coupon, error } = await supabase
+    .from('coupons')
+    .insert({
+      creator_id: user.id,
+      code: input.code,
+      discount_type: input.discount_type,
+      discount_value: input.discount_value,
+      prompt_id: input.prompt_id ?? null,
+      expires_at: input.expires_at ?? null,
+      max_redemptions: input.max_redemptions ?? null,
+    })
+    .select(COUPON_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.ALREADY_EXISTS, 'You already have a coupon with this code'),
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to create coupon', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ coupon }, 'Coupon created'), { status: 201 });
+}
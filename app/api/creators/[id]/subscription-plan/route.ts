@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { createSuccessResponse } from '@/lib/api/responses';
+import { findActiveSubscription, findCreatorPlan } from '@/lib/subscriptions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Public plan details for a creator page, plus whether the viewer already subscribes
+export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id: creatorId } = await context.params;
+  const user = await getCurrentUser();
+  const supabase = await createSupabaseAdminClient();
+
+  const plan = await findCreatorPlan(supabase, creatorId);
+  const subscribed = user ? Boolean(await findActiveSubscription(supabase, user.id, creatorId)) : false;
+
+  return NextResponse.json(
+    createSuccessResponse({
+      plan: plan?.active ? { priceCents: plan.price_cents, currency: plan.currency } : null,
+      subscribed,
+    })
+  );
+}
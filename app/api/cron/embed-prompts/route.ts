@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { getEmbedPromptsConfig } from '@/lib/cron/embed-prompts';
+import { embedStalePrompts } from '@/lib/prompt-search';
+import { logger } from '@/lib/logging';
+
+// Embeds new and edited prompts, and re-embeds the catalogue after the embedding backend changes
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+  const config = getEmbedPromptsConfig();
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const report = await embedStalePrompts(supabaseAdmin, { limit: config.batchSize });
+
+    logger.info('Prompt embedding job completed', { requestId, ...report }, 'CRON_EMBED_PROMPTS_COMPLETED');
+
+    return NextResponse.json({ requestId, ...report });
+  } catch (error: any) {
+    logger.error('Prompt embedding job failed', { requestId }, error as Error, 'CRON_EMBED_PROMPTS_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/embed-prompts',
+          requestId,
+          payloadSummary: { batchSize: config.batchSize },
+          errorMessage: error?.message ?? 'Prompt embedding job failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log prompt embedding failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_EMBED_PROMPTS_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Prompt embedding job failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { expireSuspensions } from '@/lib/moderation/suspensions';
+import { logger } from '@/lib/logging';
+
+// Closes temporary suspensions that have ended and relists the prompts they hid
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const report = await expireSuspensions(supabaseAdmin, { requestId });
+
+    logger.info('Suspension expiry job completed', { requestId, ...report }, 'CRON_EXPIRE_SUSPENSIONS_COMPLETED');
+
+    return NextResponse.json({ requestId, ...report });
+  } catch (error: any) {
+    logger.error('Suspension expiry job failed', { requestId }, error as Error, 'CRON_EXPIRE_SUSPENSIONS_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/expire-suspensions',
+          requestId,
+          payloadSummary: {},
+          errorMessage: error?.message ?? 'Suspension expiry job failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log suspension expiry failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_EXPIRE_SUSPENSIONS_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Suspension expiry job failed' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { createSupabaseAdminClient } from '@/lib/supabase/server';
 import { transitionSwap } from '@/lib/swaps/state';
 import { emitSwapNotifications } from '@/lib/swaps/notifications';
 import { recordSystemEvent } from '@/lib/system-events';
+import { ESCROW_OPEN_STATUSES } from '@/lib/swaps/escrow';
 
 const DEFAULT_SWAP_EXPIRES_DAYS = 7;
 const configuredExpiry = Number(process.env.SWAP_EXPIRES_DAYS);
@@ -39,9 +40,22 @@ export async function POST(request: Request) {
       throw error;
     }
 
-    inspected = swaps?.length ?? 0;
+    // Accepted escrow swaps whose deposit deadline passed before both sides deposited
+    const { data: escrowSwaps, error: escrowError } = await supabaseAdmin
+      .from('swaps')
+      .select('id,requester_id,responder_id,status,escrow_deadline')
+      .eq('escrow', true)
+      .in('status', ESCROW_OPEN_STATUSES)
+      .lt('escrow_deadline', new Date().toISOString());
+
+    if (escrowError) {
+      throw escrowError;
+    }
+
+    const candidates = [...(swaps ?? []), ...(escrowSwaps ?? [])];
+    inspected = candidates.length;
     let expiredCount = 0;
-    for (const swap of swaps ?? []) {
+    for (const swap of candidates) {
       try {
         const swapRequestId = crypto.randomUUID();
         const result = await transitionSwap(supabaseAdmin, swap.id, null, 'expire', swapRequestId);
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { getFingerprintPromptsConfig } from '@/lib/cron/fingerprint-prompts';
+import { fingerprintStalePrompts } from '@/lib/moderation/plagiarism';
+import { logger } from '@/lib/logging';
+
+// Fingerprints new and edited prompts, including swap copies, for the plagiarism checks
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+  const config = getFingerprintPromptsConfig();
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const report = await fingerprintStalePrompts(supabaseAdmin, { limit: config.batchSize });
+
+    logger.info('Prompt fingerprint job completed', { requestId, ...report }, 'CRON_FINGERPRINT_PROMPTS_COMPLETED');
+
+    return NextResponse.json({ requestId, ...report });
+  } catch (error: any) {
+    logger.error('Prompt fingerprint job failed', { requestId }, error as Error, 'CRON_FINGERPRINT_PROMPTS_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/fingerprint-prompts',
+          requestId,
+          payloadSummary: { batchSize: config.batchSize },
+          errorMessage: error?.message ?? 'Prompt fingerprint job failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log prompt fingerprint failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_FINGERPRINT_PROMPTS_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Prompt fingerprint job failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import Stripe from 'stripe';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { getScheduledPayoutConfig } from '@/lib/cron/payouts';
+import { PayoutStripeClient, runScheduledPayouts } from '@/lib/payouts';
+import { logger } from '@/lib/logging';
+
+let cachedStripeClient: PayoutStripeClient | null = null;
+
+export function getStripeClient(): PayoutStripeClient {
+  if (!cachedStripeClient) {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not set');
+    }
+    cachedStripeClient = new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+  }
+  return cachedStripeClient;
+}
+
+export function setStripeClient(client: PayoutStripeClient | null) {
+  cachedStripeClient = client;
+}
+
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+  const config = getScheduledPayoutConfig();
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const report = await runScheduledPayouts(supabaseAdmin, getStripeClient(), {
+      holdbackDays: config.holdbackDays,
+      requestId,
+    });
+
+    logger.info('Scheduled payouts job completed', { requestId, ...report }, 'CRON_PAYOUTS_COMPLETED');
+
+    return NextResponse.json({ requestId, ...report });
+  } catch (error: any) {
+    logger.error('Scheduled payouts job failed', { requestId }, error as Error, 'CRON_PAYOUTS_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/payouts',
+          requestId,
+          payloadSummary: { holdbackDays: config.holdbackDays },
+          errorMessage: error?.message ?? 'Scheduled payouts failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log payout failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_PAYOUTS_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Scheduled payouts failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { getPromptScoresConfig } from '@/lib/cron/prompt-scores';
+import { refreshPromptScores } from '@/lib/prompt-scores';
+import { logger } from '@/lib/logging';
+
+// Recomputes the trending and rating scores behind sort=trending and sort=rating
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+  const config = getPromptScoresConfig();
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const scored = await refreshPromptScores(supabaseAdmin, config);
+
+    logger.info('Prompt scores job completed', { requestId, scored }, 'CRON_PROMPT_SCORES_COMPLETED');
+
+    return NextResponse.json({ requestId, scored });
+  } catch (error: any) {
+    logger.error('Prompt scores job failed', { requestId }, error as Error, 'CRON_PROMPT_SCORES_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/prompt-scores',
+          requestId,
+          payloadSummary: { windowDays: config.windowDays, halfLifeHours: config.halfLifeHours },
+          errorMessage: error?.message ?? 'Prompt scores job failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log prompt scores failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_PROMPT_SCORES_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Prompt scores job failed' }, { status: 500 });
+  }
+}
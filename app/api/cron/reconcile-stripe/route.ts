@@ -0,0 +1,91 @@
+import Stripe from 'stripe';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { recordSystemEvent } from '@/lib/system-events';
+import { getStripeReconciliationConfig, getStripeReconciliationWindow } from '@/lib/cron/reconcile-stripe';
+import {
+  reconcileStripeWindow,
+  saveReconciliationReport,
+  StripeReconciliationClient,
+} from '@/lib/stripe/reconciliation';
+import { logger } from '@/lib/logging';
+
+let cachedStripeClient: StripeReconciliationClient | null = null;
+
+export function getStripeClient(): StripeReconciliationClient {
+  if (!cachedStripeClient) {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not set');
+    }
+    cachedStripeClient = new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+  }
+  return cachedStripeClient;
+}
+
+export function setStripeClient(client: StripeReconciliationClient | null) {
+  cachedStripeClient = client;
+}
+
+export async function POST(request: Request) {
+  const configuredSecret = process.env.CRON_SECRET;
+  if (!configuredSecret) {
+    return NextResponse.json({ error: 'Cron secret is not configured' }, { status: 500 });
+  }
+
+  const providedSecret = request.headers.get('CRON_SECRET');
+  if (providedSecret !== configuredSecret) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const requestId = crypto.randomUUID();
+  let supabaseAdmin: any | null = null;
+  const config = getStripeReconciliationConfig();
+  const window = getStripeReconciliationWindow(config);
+
+  try {
+    supabaseAdmin = await createSupabaseAdminClient();
+    const report = await reconcileStripeWindow(supabaseAdmin, getStripeClient(), window, requestId);
+    const runId = await saveReconciliationReport(supabaseAdmin, report, requestId);
+
+    const counts = {
+      fixed: report.fixed,
+      missing: report.missing,
+      conflicting: report.conflicting,
+    };
+
+    logger.info('Stripe reconciliation job completed', {
+      requestId,
+      runId,
+      counts,
+      checked: report.checked,
+    }, 'CRON_STRIPE_RECONCILE_COMPLETED');
+
+    return NextResponse.json({ requestId, runId, counts, checked: report.checked });
+  } catch (error: any) {
+    logger.error('Stripe reconciliation job failed', { requestId }, error as Error, 'CRON_STRIPE_RECONCILE_FAILED');
+    try {
+      const adminClient =
+        supabaseAdmin ?? (await createSupabaseAdminClient().catch(() => null));
+      if (adminClient) {
+        await recordSystemEvent(adminClient, {
+          type: 'cron/reconcile-stripe',
+          requestId,
+          payloadSummary: {
+            windowStart: window.windowStart,
+            windowEnd: window.windowEnd,
+          },
+          errorMessage: error?.message ?? 'Stripe reconciliation failed',
+        });
+      }
+    } catch (eventError) {
+      logger.error(
+        'Failed to log reconciliation failure to system events',
+        { requestId },
+        eventError as Error,
+        'SYSTEM_EVENT_RECONCILE_LOG_FAILED'
+      );
+    }
+    return NextResponse.json({ error: 'Stripe reconciliation failed' }, { status: 500 });
+  }
+}
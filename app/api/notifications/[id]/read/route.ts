@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { createAuthErrorResponse, createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
 
 export const runtime = 'nodejs';
@@ -11,6 +12,11 @@ export async function POST(_req: NextRequest, { params }: { params: { id: string
     return NextResponse.json(createAuthErrorResponse(), { status: 401 });
   }
 
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
   const supabase = await createSupabaseServerClient();
   const { data, error } = await supabase
     .from('notifications')
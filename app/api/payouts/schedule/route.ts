@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { payoutScheduleSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { nextPayoutDate, PAYOUT_COLUMNS, PAYOUT_SCHEDULE_COLUMNS, PayoutSchedule } from '@/lib/payouts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function findSchedule(supabase: any, creatorId: string): Promise<PayoutSchedule | null> {
+  const { data } = await supabase
+    .from('payout_schedules')
+    .select(PAYOUT_SCHEDULE_COLUMNS)
+    .eq('creator_id', creatorId)
+    .maybeSingle();
+  return (data as PayoutSchedule | null) ?? null;
+}
+
+// Returns the creator's automatic payout settings and their most recent payouts
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const schedule = await findSchedule(supabase, user.id);
+  const { data: payouts } = await supabase
+    .from('payouts')
+    .select(PAYOUT_COLUMNS)
+    .eq('seller_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  return NextResponse.json(createSuccessResponse({ schedule, payouts: payouts ?? [] }));
+}
+
+/**
+ * Opts the creator into automatic payouts, or changes the cadence or minimum. Changing the
+ * interval restarts the cadence from today; changing only the minimum keeps the next date.
+ */
+export async function PUT(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = payoutScheduleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const existing = await findSchedule(supabase, user.id);
+  const now = new Date();
+  const keepNextRun = existing?.enabled && existing.interval === parsed.data.interval;
+
+  const schedule = {
+    creator_id: user.id,
+    interval: parsed.data.interval,
+    minimum_cents: parsed.data.minimum_cents,
+    enabled: true,
+    next_run_at: keepNextRun ? existing.next_run_at : nextPayoutDate(parsed.data.interval, now).toISOString(),
+    updated_at: now.toISOString(),
+  };
+
+  const { error } = await supabase.from('payout_schedules').upsert(schedule, { onConflict: 'creator_id' });
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to save payout schedule', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ schedule }, 'Payout schedule saved'));
+}
+
+// Turns automatic payouts off; the balance stays available for manual payouts
+export async function DELETE() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { error } = await supabase
+    .from('payout_schedules')
+    .update({ enabled: false, updated_at: new Date().toISOString() })
+    .eq('creator_id', user.id);
+
+  if (error && error.code !== 'PGRST116') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to disable payout schedule', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ enabled: false }, 'Automatic payouts turned off'));
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createSupabaseServerClient, createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { commentSchema } from '@/lib/validation/schemas';
 import { 
   createSuccessResponse, 
@@ -39,6 +40,7 @@ export async function GET(
       .from('prompt_comments')
       .select('id, user_id, comment, created_at')
       .eq('prompt_id', promptId)
+      .is('hidden_at', null)
       .order('created_at', { ascending: false });
 
     if (commentsError) {
@@ -74,6 +76,11 @@ export async function POST(
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     const promptId = params.id;
 
     // Parse and validate request body
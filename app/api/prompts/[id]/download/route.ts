@@ -3,6 +3,8 @@ import { NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
 import { createErrorResponse } from '@/lib/api/responses';
 import { canDownloadPurchase } from '@/lib/purchases';
+import { findActiveSubscription, SubscriptionRow } from '@/lib/subscriptions';
+import { loadPublishedPromptText } from '@/lib/prompt-versions';
 
 export const runtime = 'nodejs';
 
@@ -46,7 +48,7 @@ export async function GET(
     // Fetch prompt data
     const { data: prompt, error: promptError } = await supabase
       .from('prompts')
-      .select('id, user_id, title, prompt_text')
+      .select('id, user_id, title, prompt_text, status')
       .eq('id', promptId)
       .single();
 
@@ -57,7 +59,7 @@ export async function GET(
       );
     }
 
-    // Check authorization - user owns prompt or has eligible purchase
+    // Check authorization - user owns prompt, has eligible purchase, or subscribes to the creator
     if (prompt.user_id !== user.id) {
       const { data: purchase } = await supabase
         .from('purchases')
@@ -66,7 +68,13 @@ export async function GET(
         .eq('prompt_id', prompt.id)
         .maybeSingle();
 
-      if (!purchase || !canDownloadPurchase(purchase)) {
+      // Subscriptions only cover the creator's approved catalog
+      let subscription: SubscriptionRow | null = null;
+      if (!canDownloadPurchase(purchase) && prompt.status === 'approved' && prompt.user_id) {
+        subscription = await findActiveSubscription(supabase, user.id, prompt.user_id);
+      }
+
+      if (!canDownloadPurchase(purchase, subscription)) {
         return NextResponse.json(
           createErrorResponse('FORBIDDEN', 'You do not have permission to download this prompt'),
           { status: 403 }
@@ -75,7 +83,9 @@ export async function GET(
     }
 
     const filename = safeFilename(prompt.title);
-    const content = prompt.prompt_text ?? '';
+    // Buyers get the approved text; the owner also sees edits still waiting for review
+    const content =
+      prompt.user_id === user.id ? prompt.prompt_text ?? '' : await loadPublishedPromptText(supabase, prompt);
 
     return new Response(content, {
       headers: {
@@ -0,0 +1,164 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { evalSuiteSchema } from '@/lib/validation/schemas';
+import { parsePromptVariables, validateVariableValues } from '@/lib/prompt-variables';
+import {
+  EVAL_RUN_COLUMNS,
+  EVAL_SUITE_COLUMNS,
+  EvalCase,
+  EvalCaseResult,
+  EvalRunRow,
+  EvalSuiteRow,
+  toEvalSummary,
+} from '@/lib/evals';
+import { TEST_RUN_COLUMNS, TestRunRow } from '@/lib/test-runs';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Returns the prompt's evaluation suite, its latest run with per-case results, and the badge
+ * summary. Suites and results are public so buyers can see what the creator tested.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: prompt } = await supabase
+    .from('prompts')
+    .select('id,user_id,eval_pass_rate,eval_case_count,eval_run_at,eval_stale')
+    .eq('id', id)
+    .maybeSingle();
+  if (!prompt) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+
+  const { data: suite, error: suiteError } = await supabase
+    .from('prompt_eval_suites')
+    .select(EVAL_SUITE_COLUMNS)
+    .eq('prompt_id', id)
+    .maybeSingle();
+  if (suiteError && suiteError.code !== 'PGRST116') {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load evaluation suite.'), {
+      status: 500,
+    });
+  }
+
+  const { data: runs } = await supabase
+    .from('eval_runs')
+    .select(EVAL_RUN_COLUMNS)
+    .eq('prompt_id', id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  const latestRun = ((runs ?? []) as EvalRunRow[])[0] ?? null;
+
+  let results: EvalCaseResult[] = [];
+  if (latestRun) {
+    const { data: caseRuns } = await supabase.from('test_runs').select(TEST_RUN_COLUMNS).eq('eval_run_id', latestRun.id);
+    const caseNames = new Map(((suite as EvalSuiteRow | null)?.cases ?? []).map((evalCase) => [evalCase.id, evalCase.name]));
+    results = ((caseRuns ?? []) as TestRunRow[]).map((run) => ({
+      caseId: run.eval_case_id ?? run.id,
+      name: caseNames.get(run.eval_case_id ?? '') ?? 'Removed case',
+      passed: run.status === 'completed' && (run.assertion_results ?? []).every((assertion) => assertion.passed),
+      output: run.output_data?.text ?? null,
+      assertions: run.assertion_results ?? [],
+      error: run.error_message,
+      runId: run.id,
+    }));
+  }
+
+  return NextResponse.json(
+    createSuccessResponse({
+      suite: (suite as EvalSuiteRow | null) ?? null,
+      latestRun,
+      results,
+      summary: toEvalSummary(prompt),
+      canEdit: Boolean(user && prompt.user_id === user.id),
+    })
+  );
+}
+
+/**
+ * Saves the creator's suite. Each case's variables are checked against the current template so
+ * typos surface here rather than as failed cases; cases keep their ids so results stay linked.
+ */
+export async function PUT(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = evalSuiteSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { data: prompt } = await supabase.from('prompts').select('id,user_id,prompt_text').eq('id', id).maybeSingle();
+  if (!prompt) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+  if (prompt.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.FORBIDDEN, 'Only the creator can edit the evaluation suite.'), {
+      status: 403,
+    });
+  }
+
+  const template = parsePromptVariables(prompt.prompt_text ?? '');
+  const cases: EvalCase[] = parsed.data.cases.map((evalCase) => ({ ...evalCase, id: evalCase.id ?? randomUUID() }));
+  const caseErrors: Record<string, Record<string, string>> = {};
+  cases.forEach((evalCase, index) => {
+    const { errors } = validateVariableValues(template.variables, evalCase.variables);
+    if (Object.keys(errors).length > 0) caseErrors[index] = errors;
+  });
+  if (Object.keys(caseErrors).length > 0) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Some test cases have missing or invalid variables.', {
+        cases: caseErrors,
+      }),
+      { status: 400 }
+    );
+  }
+
+  const suite: EvalSuiteRow = {
+    prompt_id: id,
+    model: parsed.data.model,
+    provider: parsed.data.provider ?? null,
+    cases,
+    updated_at: new Date().toISOString(),
+  };
+  const { error } = await supabase.from('prompt_eval_suites').upsert(suite, { onConflict: 'prompt_id' });
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to save evaluation suite.'), {
+      status: 500,
+    });
+  }
+
+  return NextResponse.json(createSuccessResponse({ suite }));
+}
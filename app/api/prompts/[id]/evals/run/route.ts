@@ -0,0 +1,112 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import { evalRunSchema } from '@/lib/validation/schemas';
+import { resolveLlmProvider } from '@/lib/llm/registry';
+import { logger } from '@/lib/logging';
+import { EVAL_SUITE_COLUMNS, EvalSuiteRow, runEvalSuite } from '@/lib/evals';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Runs the prompt's evaluation suite with the creator's API key and refreshes the pass-rate
+ * badge. Creators re-run it after saving a new version of the prompt text, which marks the
+ * previous result as outdated.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = evalRunSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { data: prompt } = await supabase.from('prompts').select('id,user_id,prompt_text').eq('id', id).maybeSingle();
+  if (!prompt) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+  if (prompt.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.FORBIDDEN, 'Only the creator can run the evaluation suite.'), {
+      status: 403,
+    });
+  }
+
+  const { data: suite } = await supabase.from('prompt_eval_suites').select(EVAL_SUITE_COLUMNS).eq('prompt_id', id).maybeSingle();
+  if (!suite || (suite as EvalSuiteRow).cases.length === 0) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Add test cases before running the suite.'), {
+      status: 404,
+    });
+  }
+
+  const provider = resolveLlmProvider(suite.model, suite.provider);
+  // Suites saved before the mock provider was refused, or whose model name resolves to it
+  if (provider.id === 'mock' && process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Pick a real model provider to run the suite.'),
+      { status: 400 }
+    );
+  }
+  if (provider.requiresApiKey && !parsed.data.apiKey) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, `Add your ${provider.label} API key to run the suite.`),
+      { status: 400 }
+    );
+  }
+
+  try {
+    await enforceRateLimit({
+      request: req,
+      supabase: await createSupabaseAdminClient(),
+      scope: 'prompt_eval:run',
+      limit: 3,
+      windowSeconds: 60 * 10,
+      userId: user.id,
+    });
+  } catch (err) {
+    if (err instanceof RateLimitExceeded) {
+      return rateLimitResponse(err);
+    }
+    throw err;
+  }
+
+  try {
+    const { run, results } = await runEvalSuite(supabase, {
+      promptId: id,
+      promptText: prompt.prompt_text ?? '',
+      suite: suite as EvalSuiteRow,
+      userId: user.id,
+      apiKey: parsed.data.apiKey,
+    });
+    return NextResponse.json(createSuccessResponse({ run, results }));
+  } catch (err) {
+    logger.error('Evaluation suite run failed', { promptId: id, userId: user.id }, err as Error, 'PROMPT_EVALS');
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to run the evaluation suite.'), {
+      status: 500,
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { createSupabaseServerClient, createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { ratePromptSchema } from '@/lib/validation/schemas';
 import { 
   createSuccessResponse, 
@@ -24,6 +25,11 @@ export async function POST(
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     // Parse and validate request body
     let body;
     try {
@@ -135,7 +141,8 @@ export async function POST(
     const { data: agg, error: aggError } = await supabase
       .from('prompt_ratings')
       .select('rating')
-      .eq('prompt_id', promptId);
+      .eq('prompt_id', promptId)
+      .is('hidden_at', null);
 
     if (aggError) {
       console.error('Error calculating average rating:', aggError);
@@ -0,0 +1,164 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCode,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import { promptTestComparisonSchema } from '@/lib/validation/schemas';
+import { parsePromptVariables, renderPromptTemplate, validateVariableValues } from '@/lib/prompt-variables';
+import { resolveLlmProvider, runLlmCompletion } from '@/lib/llm/registry';
+import { LlmProviderError, LlmProviderId } from '@/lib/llm/types';
+import { buildTestRequest, loadTestablePrompt, recordTestRun } from '@/lib/test-runs';
+import { recordApiKeyUsage, StoredApiKey, unlockApiKey } from '@/lib/api-keys';
+import { AppError } from '@/lib/errors';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Runs one filled-in template against several models in parallel. Each result is recorded as a
+ * test run sharing a `comparison_id`; one model failing does not fail the others. Providers
+ * listed in `apiKeyIds` use the user's saved key, and every run is charged to that key's spend.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse('Sign in to test this prompt.'), { status: 401 });
+  }
+
+  const admin = await createSupabaseAdminClient();
+  try {
+    await enforceRateLimit({
+      request: req,
+      supabase: admin,
+      scope: 'prompt_test:compare',
+      limit: 3,
+      windowSeconds: 60,
+      userId: user.id,
+    });
+  } catch (err) {
+    if (err instanceof RateLimitExceeded) {
+      return rateLimitResponse(err);
+    }
+    throw err;
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+
+  const parsed = promptTestComparisonSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+  const { targets, apiKeys = {}, apiKeyIds = {}, variables } = parsed.data;
+
+  const runs = targets.map((target) => {
+    const provider = resolveLlmProvider(target.model, target.provider);
+    return { model: target.model, provider, apiKey: apiKeys[provider.id] || null };
+  });
+  const missingKey = runs.find((run) => run.provider.requiresApiKey && !run.apiKey && !apiKeyIds[run.provider.id]);
+  if (missingKey) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, `Add your ${missingKey.provider.label} API key to run ${missingKey.model}.`),
+      { status: 400 }
+    );
+  }
+
+  const access = await loadTestablePrompt(supabase, user.id, id);
+  if ('error' in access) {
+    const code = access.status === 404 ? ErrorCodes.NOT_FOUND : ErrorCodes.FORBIDDEN;
+    return NextResponse.json(createErrorResponse(code, access.error), { status: access.status });
+  }
+
+  const promptText = access.prompt.prompt_text ?? '';
+  const template = parsePromptVariables(promptText);
+  const { values, errors } = validateVariableValues(template.variables, variables);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Some variables are missing or invalid.', { fields: errors }),
+      { status: 400 }
+    );
+  }
+  const renderedPrompt = renderPromptTemplate(promptText, values);
+
+  // Each saved key is unlocked once, even when several models run on the same provider
+  const savedKeys = new Map<LlmProviderId, { apiKey: string; key: StoredApiKey }>();
+  try {
+    for (const providerId of new Set(runs.map((run) => run.provider.id))) {
+      const keyId = apiKeyIds[providerId];
+      if (keyId) {
+        savedKeys.set(providerId, await unlockApiKey(admin, user.id, keyId, providerId));
+      }
+    }
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message), { status: err.statusCode });
+    }
+    throw err;
+  }
+
+  const comparisonId = crypto.randomUUID();
+
+  const results = await Promise.all(
+    runs.map(async ({ model, provider, apiKey }) => {
+      const run = { promptId: id, userId: user.id, model, provider: provider.id, variables: values, startedAt: Date.now(), comparisonId };
+      const savedKey = savedKeys.get(provider.id);
+      try {
+        const response = await runLlmCompletion(buildTestRequest(model, renderedPrompt), {
+          provider: provider.id,
+          credentials: { apiKey: savedKey?.apiKey ?? apiKey },
+        });
+        if (savedKey) {
+          await recordApiKeyUsage(admin, savedKey.key, {
+            model,
+            usage: response.usage,
+            promptText: renderedPrompt,
+            outputText: response.text,
+          });
+        }
+        const saved = await recordTestRun(supabase, { ...run, status: 'complete', text: response.text, response });
+        return {
+          runId: saved?.id ?? null,
+          model: response.model,
+          provider: provider.id,
+          output: response.text,
+          stopReason: response.stopReason,
+          usage: response.usage,
+          latencyMs: saved?.latency_ms ?? Date.now() - run.startedAt,
+          error: null,
+        };
+      } catch (err) {
+        const saved = await recordTestRun(supabase, { ...run, status: 'failed', text: '', error: err });
+        return {
+          runId: saved?.id ?? null,
+          model,
+          provider: provider.id,
+          output: null,
+          stopReason: null,
+          usage: null,
+          latencyMs: saved?.latency_ms ?? Date.now() - run.startedAt,
+          error: err instanceof LlmProviderError ? err.message : 'Model request failed.',
+        };
+      }
+    })
+  );
+
+  return NextResponse.json(createSuccessResponse({ comparisonId, results }));
+}
@@ -1,11 +1,23 @@
-import axios from 'axios';
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, createSupabaseServerClient } from '@/lib/supabase/server';
+import { parsePromptVariables, renderPromptTemplate, validateVariableValues } from '@/lib/prompt-variables';
+import { isLlmProviderId, resolveLlmProvider, runLlmCompletion, streamLlmCompletion } from '@/lib/llm/registry';
+import { createLlmSseResponse } from '@/lib/llm/stream-response';
+import { LlmProviderError, LlmProviderId, LlmResponse } from '@/lib/llm/types';
+import { buildTestRequest, loadTestablePrompt, recordTestRun } from '@/lib/test-runs';
+import { recordApiKeyUsage, StoredApiKey, unlockApiKey } from '@/lib/api-keys';
+import { AppError } from '@/lib/errors';
 
 type Body = {
   apiKey?: string;
+  // A key saved in account settings; used instead of `apiKey` when both are sent
+  apiKeyId?: string;
   model?: string;
-  promptInput?: string;
+  provider?: string;
+  variables?: Record<string, unknown>;
+  // Stream the output as server-sent events instead of returning it in one JSON response
+  stream?: boolean;
 };
 
 const RATE_LIMIT_WINDOW_MS = 60_000; // 1 minute
@@ -39,6 +51,34 @@ function checkRateLimit(identifier: string) {
   return true;
 }
 
+// Returns the variable schema the tester renders as a form
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const { data: prompt, error } = await supabase
+    .from('prompts')
+    .select('id, variable_schema')
+    .eq('id', id)
+    .maybeSingle();
+
+  if ((error && error.code !== 'PGRST116') || !prompt) {
+    return NextResponse.json({ error: 'Prompt not found.' }, { status: 404 });
+  }
+
+  return NextResponse.json({ promptId: id, variables: prompt.variable_schema ?? [] });
+}
+
+/**
+ * Fills the prompt's template variables with the submitted values and sends the rendered prompt
+ * to the model. The prompt text is only used for the owner, buyers and subscribers; the variable
+ * schema is parsed from it again so a stale `variable_schema` cannot let values through unchecked.
+ * With `stream: true` the output arrives as `delta` events followed by one `done` event.
+ * Every run, including failed and cancelled ones, is recorded in `test_runs` without the API key.
+ * With `apiKeyId` the user's saved key is decrypted here and the run's estimated cost added to its monthly spend.
+ */
 export async function POST(
   req: NextRequest,
   context: { params: Promise<{ id: string }> }
@@ -56,98 +96,102 @@ export async function POST(
     return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
   }
 
-  const apiKey = body.apiKey?.trim();
+  const apiKeyId = body.apiKeyId?.trim();
   const model = body.model?.trim();
-  const promptInput = body.promptInput ?? '';
 
-  if (!apiKey || !model) {
+  if (body.provider !== undefined && !isLlmProviderId(body.provider)) {
+    return NextResponse.json({ error: `Unknown provider: ${String(body.provider)}` }, { status: 400 });
+  }
+  const providerId: LlmProviderId | undefined = body.provider;
+
+  if (!model || (!body.apiKey?.trim() && !apiKeyId && resolveLlmProvider(model, providerId).requiresApiKey)) {
     return NextResponse.json({ error: 'Missing required fields: apiKey and model are required.' }, { status: 400 });
   }
 
-  try {
-    const output = await runModelRequest({ model, apiKey, promptInput });
-    return NextResponse.json({ output, model, promptId: id });
-  } catch (err: any) {
-    const message =
-      err?.response?.data?.error?.message ||
-      err?.response?.data?.message ||
-      err?.message ||
-      'Failed to run test.';
-    const status = err?.response?.status && Number.isInteger(err.response.status) ? err.response.status : 500;
-    return NextResponse.json({ error: message }, { status });
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in to test this prompt.' }, { status: 401 });
   }
-}
 
-async function runModelRequest({
-  model,
-  apiKey,
-  promptInput,
-}: { model: string; apiKey: string; promptInput: string }) {
-  // Route OpenAI vs Anthropic based on model naming.
-  if (model.startsWith('claude')) {
-    return runAnthropic({ model, apiKey, promptInput });
+  const access = await loadTestablePrompt(supabase, user.id, id);
+  if ('error' in access) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+  const { prompt } = access;
+
+  const promptText = prompt.prompt_text ?? '';
+  const template = parsePromptVariables(promptText);
+  const { values, errors } = validateVariableValues(template.variables, body.variables);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ error: 'Some variables are missing or invalid.', fields: errors }, { status: 400 });
   }
-  return runOpenAI({ model, apiKey, promptInput });
-}
 
-async function runOpenAI({ model, apiKey, promptInput }: { model: string; apiKey: string; promptInput: string }) {
-  const isChat = model.includes('gpt');
-  const url = isChat
-    ? 'https://api.openai.com/v1/chat/completions'
-    : 'https://api.openai.com/v1/completions';
-
-  const payload = isChat
-    ? {
-        model,
-        messages: [{ role: 'user', content: promptInput || 'Test the prompt with given input.' }],
-        temperature: 0.7,
-        max_tokens: 256,
+  const renderedPrompt = renderPromptTemplate(promptText, values);
+
+  const request = buildTestRequest(model, renderedPrompt);
+  const provider = resolveLlmProvider(model, providerId).id;
+
+  let apiKey = body.apiKey?.trim();
+  let savedKey: { key: StoredApiKey; supabase: any } | null = null;
+  if (apiKeyId) {
+    const admin = await createSupabaseAdminClient();
+    try {
+      const unlocked = await unlockApiKey(admin, user.id, apiKeyId, provider);
+      apiKey = unlocked.apiKey;
+      savedKey = { key: unlocked.key, supabase: admin };
+    } catch (err) {
+      if (err instanceof AppError) {
+        return NextResponse.json({ error: err.message, code: err.code }, { status: err.statusCode });
       }
-    : {
-        model,
-        prompt: promptInput || 'Test the prompt with given input.',
-        temperature: 0.7,
-        max_tokens: 256,
-      };
-
-  const { data } = await axios.post(url, payload, {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
+      throw err;
+    }
+  }
+  // Saved keys track an estimated monthly spend; partial output is estimated from its length
+  const chargeSavedKey = async (usage: LlmResponse['usage'] | null, outputText: string) => {
+    if (!savedKey || (!usage && !outputText)) return;
+    await recordApiKeyUsage(savedKey.supabase, savedKey.key, { model, usage, promptText: renderedPrompt, outputText });
+  };
+  const run = { promptId: id, userId: user.id, model, provider, variables: values, startedAt: Date.now() };
+  const resultBody = (result: LlmResponse, runId?: string | null) => ({
+    output: result.text,
+    model: result.model,
+    provider: result.provider,
+    usage: result.usage,
+    stopReason: result.stopReason,
+    promptId: id,
+    runId: runId ?? null,
   });
 
-  if (isChat) {
-    return data?.choices?.[0]?.message?.content ?? null;
+  try {
+    if (body.stream) {
+      const abort = new AbortController();
+      req.signal?.addEventListener('abort', () => abort.abort());
+      return await createLlmSseResponse(
+        streamLlmCompletion(request, { provider: providerId, credentials: { apiKey }, signal: abort.signal }),
+        {
+          abort,
+          donePayload: (result) => resultBody(result),
+          onFinish: async (outcome) => {
+            await chargeSavedKey(outcome.status === 'complete' ? outcome.response.usage : null, outcome.text);
+            const saved = await recordTestRun(supabase, { ...run, ...outcome });
+            return { runId: saved?.id ?? null };
+          },
+        }
+      );
+    }
+
+    const result = await runLlmCompletion(request, { provider: providerId, credentials: { apiKey } });
+    await chargeSavedKey(result.usage, result.text);
+    const saved = await recordTestRun(supabase, { ...run, status: 'complete', text: result.text, response: result });
+    return NextResponse.json(resultBody(result, saved?.id));
+  } catch (err: any) {
+    await recordTestRun(supabase, { ...run, status: 'failed', text: '', error: err });
+    if (err instanceof LlmProviderError) {
+      return NextResponse.json({ error: err.message, kind: err.kind, provider: err.provider }, { status: err.statusCode });
+    }
+    return NextResponse.json({ error: err?.message || 'Failed to run test.' }, { status: 500 });
   }
-  return data?.choices?.[0]?.text ?? null;
-}
-
-async function runAnthropic({
-  model,
-  apiKey,
-  promptInput,
-}: {
-  model: string;
-  apiKey: string;
-  promptInput: string;
-}) {
-  const url = 'https://api.anthropic.com/v1/messages';
-  const { data } = await axios.post(
-    url,
-    {
-      model,
-      max_tokens: 256,
-      messages: [{ role: 'user', content: promptInput || 'Test the prompt with given input.' }],
-    },
-    {
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-    },
-  );
-
-  return data?.content?.[0]?.text ?? null;
 }
@@ -0,0 +1,75 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { testRunVisibilitySchema } from '@/lib/validation/schemas';
+import { TEST_RUN_COLUMNS, TestRunRow } from '@/lib/test-runs';
+
+export const dynamic = 'force-dynamic';
+
+// Lets the prompt's creator publish one of their own completed runs as a sample output
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ id: string; runId: string }> }
+) {
+  const { id, runId } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = testRunVisibilitySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { data: prompt } = await supabase.from('prompts').select('id,user_id').eq('id', id).maybeSingle();
+  if (!prompt || prompt.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.FORBIDDEN, 'Only the creator can publish sample runs.'), {
+      status: 403,
+    });
+  }
+
+  const { data: run } = await supabase
+    .from('test_runs')
+    .select(TEST_RUN_COLUMNS)
+    .eq('id', runId)
+    .eq('prompt_id', id)
+    .eq('user_id', user.id)
+    .maybeSingle();
+  if (!run) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Test run not found.'), { status: 404 });
+  }
+  if ((run as TestRunRow).status !== 'completed' && parsed.data.is_public) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_STATUS, 'Only completed runs can be published.'), {
+      status: 409,
+    });
+  }
+
+  const { error } = await supabase
+    .from('test_runs')
+    .update({ is_public: parsed.data.is_public })
+    .eq('id', runId);
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to update test run.'), { status: 500 });
+  }
+
+  return NextResponse.json(
+    createSuccessResponse({ run: { ...(run as TestRunRow), is_public: parsed.data.is_public } })
+  );
+}
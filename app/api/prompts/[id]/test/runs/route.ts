@@ -0,0 +1,58 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import { TEST_RUN_COLUMNS, TEST_RUN_HISTORY_LIMIT, TestRunRow } from '@/lib/test-runs';
+
+export const dynamic = 'force-dynamic';
+
+const SAMPLE_RUN_LIMIT = 10;
+
+/**
+ * Returns the signed-in user's recent runs of this prompt and the sample runs its creator has
+ * published. Samples are visible to everyone, so buyers can see real outputs before purchase.
+ * `canPublish` tells the creator's tester to offer publishing their own runs.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: samples, error: samplesError } = await supabase
+    .from('test_runs')
+    .select(TEST_RUN_COLUMNS)
+    .eq('prompt_id', id)
+    .eq('is_public', true)
+    .order('created_at', { ascending: false })
+    .limit(SAMPLE_RUN_LIMIT);
+
+  if (samplesError) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load test runs.'), { status: 500 });
+  }
+
+  let runs: TestRunRow[] = [];
+  if (user) {
+    const { data, error } = await supabase
+      .from('test_runs')
+      .select(TEST_RUN_COLUMNS)
+      .eq('prompt_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(TEST_RUN_HISTORY_LIMIT);
+
+    if (error) {
+      return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load test runs.'), { status: 500 });
+    }
+    runs = (data ?? []) as TestRunRow[];
+  }
+
+  const { data: prompt } = await supabase.from('prompts').select('id,user_id').eq('id', id).maybeSingle();
+  const canPublish = Boolean(user && prompt?.user_id === user.id);
+
+  return NextResponse.json(createSuccessResponse({ runs, samples: (samples ?? []) as TestRunRow[], canPublish }));
+}
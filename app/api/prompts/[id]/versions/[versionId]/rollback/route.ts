@@ -0,0 +1,105 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCode,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { promptVersionRollbackSchema } from '@/lib/validation/schemas';
+import { AppError } from '@/lib/errors';
+import { rejectionNote, scanSubmittedPrompt } from '@/lib/moderation/scanner';
+import { assertPromptOriginal, refreshPromptFingerprint } from '@/lib/moderation/plagiarism';
+import { createPromptVersion, PROMPT_VERSION_COLUMNS, PromptVersionRow } from '@/lib/prompt-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Rolls the prompt back to an earlier version. Versions are immutable, so this saves the old
+ * text as a new version rather than deleting the ones after it.
+ */
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string; versionId: string }> }
+) {
+  const { id, versionId } = await context.params;
+  const requestId = crypto.randomUUID();
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  let body: unknown = {};
+  try {
+    body = await req.json();
+  } catch {
+    // An empty body rolls back with the default changelog note
+  }
+  const parsed = promptVersionRollbackSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const admin = await createSupabaseAdminClient();
+  const { data: prompt } = await admin.from('prompts').select('id,user_id,prompt_text').eq('id', id).maybeSingle();
+  if (!prompt || prompt.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+
+  const { data: target } = await admin
+    .from('prompt_versions')
+    .select(PROMPT_VERSION_COLUMNS)
+    .eq('id', versionId)
+    .eq('prompt_id', id)
+    .maybeSingle();
+  if (!target) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Version not found.'), { status: 404 });
+  }
+  const version = target as PromptVersionRow;
+  if (version.content === prompt.prompt_text) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.INVALID_ACTION, 'This version is already the current prompt text.'),
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Rolled-back text is checked like any other edit
+    await assertPromptOriginal(admin, { promptId: id, userId: user.id, promptText: version.content });
+    const created = await createPromptVersion(admin, {
+      promptId: id,
+      userId: user.id,
+      content: version.content,
+      notes: parsed.data.notes || `Rolled back to version ${version.version_number}`,
+      requestId,
+    });
+    await refreshPromptFingerprint(admin, { id, prompt_text: created.content }, requestId);
+    // Old text is scanned again: the rules may have changed since it was approved
+    const scan = await scanSubmittedPrompt(admin, id, { requestId });
+    if (scan?.verdict === 'reject') {
+      // Only the new text is turned down; an approved listing keeps selling its published text
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.CONTENT_REJECTED, rejectionNote(scan.findings), {
+          version: created.version_number,
+          findings: scan.findings,
+        }),
+        { status: 422 }
+      );
+    }
+    return NextResponse.json(createSuccessResponse({ version: created }), { status: 201 });
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,160 @@
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, createSupabaseServerClient } from '@/lib/supabase/server';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCode,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import { promptVersionCreateSchema } from '@/lib/validation/schemas';
+import { AppError } from '@/lib/errors';
+import { rejectionNote, scanSubmittedPrompt } from '@/lib/moderation/scanner';
+import { assertPromptOriginal, refreshPromptFingerprint } from '@/lib/moderation/plagiarism';
+import {
+  createPromptVersion,
+  findPendingVersion,
+  listPromptVersions,
+  resolveVersionAccess,
+  VERSIONED_PROMPT_COLUMNS,
+  VersionedPrompt,
+} from '@/lib/prompt-versions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Lists a prompt's versions with their full text. The owner sees every version; buyers,
+ * subscribers and users of a free prompt see the published ones.
+ */
+export async function GET(
+  _req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const admin = await createSupabaseAdminClient();
+  const { data: prompt } = await admin.from('prompts').select(VERSIONED_PROMPT_COLUMNS).eq('id', id).maybeSingle();
+  if (!prompt) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+
+  const access = await resolveVersionAccess(admin, user?.id ?? null, prompt as VersionedPrompt);
+  if (access === 'none') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.PROMPT_NOT_PURCHASED, 'Purchase this prompt to see its versions.'),
+      { status: 403 }
+    );
+  }
+
+  try {
+    const versions = await listPromptVersions(admin, id, { includeUnpublished: access === 'owner' });
+    return NextResponse.json(
+      createSuccessResponse({ versions, currentVersion: (prompt as VersionedPrompt).version, canEdit: access === 'owner' })
+    );
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message), { status: err.statusCode });
+    }
+    throw err;
+  }
+}
+
+// Saves new prompt text as the next version; owner only
+export async function POST(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const requestId = crypto.randomUUID();
+  const supabase = await createSupabaseServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const admin = await createSupabaseAdminClient();
+  try {
+    await enforceRateLimit({
+      request: req,
+      supabase: admin,
+      scope: 'prompt:update',
+      limit: 10,
+      windowSeconds: 60,
+      userId: user.id,
+      requestId,
+    });
+  } catch (err) {
+    if (err instanceof RateLimitExceeded) {
+      return rateLimitResponse(err);
+    }
+    throw err;
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = promptVersionCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { data: prompt } = await admin.from('prompts').select('id,user_id,prompt_text').eq('id', id).maybeSingle();
+  if (!prompt || prompt.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Prompt not found.'), { status: 404 });
+  }
+
+  try {
+    // An approved prompt's newest text may be an edit still waiting for review
+    const pending = await findPendingVersion(admin, id);
+    if ((pending?.content ?? prompt.prompt_text) === parsed.data.prompt_text) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.INVALID_ACTION, 'The prompt text has not changed.'),
+        { status: 400 }
+      );
+    }
+
+    // Catches text pasted from a purchased or swapped prompt before the version is saved
+    await assertPromptOriginal(admin, { promptId: id, userId: user.id, promptText: parsed.data.prompt_text });
+    const version = await createPromptVersion(admin, {
+      promptId: id,
+      userId: user.id,
+      content: parsed.data.prompt_text,
+      notes: parsed.data.notes,
+      requestId,
+    });
+    await refreshPromptFingerprint(admin, { id, prompt_text: version.content }, requestId);
+    // New text waits for review, so it gets the same scan as a submission
+    const scan = await scanSubmittedPrompt(admin, id, { requestId });
+    if (scan?.verdict === 'reject') {
+      // Only the new text is turned down; an approved listing keeps selling its published text
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.CONTENT_REJECTED, rejectionNote(scan.findings), {
+          version: version.version_number,
+          findings: scan.findings,
+        }),
+        { status: 422 }
+      );
+    }
+    return NextResponse.json(createSuccessResponse({ version }), { status: 201 });
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+    throw err;
+  }
+}
@@ -1,8 +1,14 @@
 import { NextResponse } from 'next/server';
 import { createPromptSchema } from '@/lib/validation/schemas';
-import { createSuccessResponse, createErrorResponse, createValidationErrorResponse, createAuthErrorResponse, ErrorCodes } from '@/lib/api/responses';
+import { createSuccessResponse, createErrorResponse, createValidationErrorResponse, createAuthErrorResponse, ErrorCodes, ErrorCode } from '@/lib/api/responses';
 import { getCurrentUser, createSupabaseAdminClient } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import { parsePromptVariables } from '@/lib/prompt-variables';
+import { refreshPromptEmbedding } from '@/lib/prompt-search';
+import { scanSubmittedPrompt } from '@/lib/moderation/scanner';
+import { assertPromptOriginal, refreshPromptFingerprint } from '@/lib/moderation/plagiarism';
+import { AppError } from '@/lib/errors';
 
 export const runtime = 'nodejs';
 
@@ -15,6 +21,11 @@ export async function POST(req: Request) {
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     const supabaseAdmin = await createSupabaseAdminClient();
 
     try {
@@ -55,6 +66,28 @@ export async function POST(req: Request) {
     const { title, description, category, price, prompt_text, tags, preview_image, version, status } =
       validationResult.data;
 
+    const template = parsePromptVariables(prompt_text);
+    if (template.errors.length > 0) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid template variables in prompt text', {
+          errors: template.errors,
+        }),
+        { status: 400 }
+      );
+    }
+
+    // Purchased and swapped prompts cannot be relisted, even as drafts
+    try {
+      await assertPromptOriginal(supabaseAdmin, { userId: user.id, promptText: prompt_text });
+    } catch (err) {
+      if (err instanceof AppError) {
+        return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+          status: err.statusCode,
+        });
+      }
+      throw err;
+    }
+
     const { data, error } = await supabaseAdmin
       .from('prompts')
       .insert({
@@ -64,6 +97,7 @@ export async function POST(req: Request) {
         category,
         price,
         prompt_text,
+        variable_schema: template.variables,
         tags,
         preview_image,
         is_public: false,
@@ -86,8 +120,26 @@ export async function POST(req: Request) {
       );
     }
 
+    await refreshPromptEmbedding(
+      supabaseAdmin,
+      { id: data.id, title, description: description ?? null, tags: tags ?? null },
+      requestId
+    );
+    await refreshPromptFingerprint(supabaseAdmin, { id: data.id, prompt_text }, requestId);
+
+    // Runs after embedding and fingerprinting so the duplicate checks can compare this prompt with existing ones
+    const scan = status === 'submitted' ? await scanSubmittedPrompt(supabaseAdmin, data.id, { requestId }) : null;
+    if (scan?.verdict === 'reject') {
+      return NextResponse.json(
+        createSuccessResponse(
+          { promptId: data.id, status: 'rejected', findings: scan.findings },
+          'Prompt was rejected automatically; see the moderation note'
+        )
+      );
+    }
+
     return NextResponse.json(
-      createSuccessResponse({ promptId: data.id }, 'Prompt submitted for review')
+      createSuccessResponse({ promptId: data.id, status }, status === 'submitted' ? 'Prompt submitted for review' : 'Draft saved')
     );
   } catch (error) {
     console.error('Unexpected error creating prompt', error);
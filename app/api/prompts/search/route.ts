@@ -3,6 +3,9 @@ import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/serve
 import { createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
 import { getRequestId, withRequestIdHeader } from '@/lib/api/request-id';
 import { logger } from '@/lib/logging';
+import { loadSearchFacets, PROMPT_SEARCH_COLUMNS, searchPromptsByRelevance } from '@/lib/prompt-search';
+import { isScoreSort, searchPromptsByScore } from '@/lib/prompt-scores';
+import { parseSearchFilters } from '@/lib/search-filters';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -13,23 +16,12 @@ function parseNumber(value: string | null, fallback?: number) {
   return Number.isFinite(n) ? n : fallback;
 }
 
-function parseTags(value: string | null): string[] | undefined {
-  if (!value) return undefined;
-  const tags = value
-    .split(',')
-    .map((t) => t.trim())
-    .filter(Boolean);
-  return tags.length ? tags : undefined;
-}
-
 export async function GET(req: NextRequest) {
   const requestId = getRequestId(req);
   const url = req.nextUrl;
-  const q = url.searchParams.get('q');
+  const filters = parseSearchFilters(url.searchParams);
+  const { q, tags, category, creator, priceMin, priceMax, minRating } = filters;
   const sort = (url.searchParams.get('sort') || 'new').toLowerCase();
-  const tags = parseTags(url.searchParams.get('tags'));
-  const priceMin = parseNumber(url.searchParams.get('priceMin'));
-  const priceMax = parseNumber(url.searchParams.get('priceMax'));
   const page = Math.max(1, parseNumber(url.searchParams.get('page'), 1) || 1);
   const pageSize = Math.min(50, Math.max(1, parseNumber(url.searchParams.get('pageSize'), 12) || 12));
   const from = (page - 1) * pageSize;
@@ -39,9 +31,26 @@ export async function GET(req: NextRequest) {
     const supabase = await createSupabaseServerClient();
     const user = await getCurrentUser();
 
+    // Facet counts run alongside the search; the results are returned even if they fail
+    const facetsPromise = loadSearchFacets(supabase, filters, requestId);
+
+    // Relevance blends text rank, embedding similarity and likes, and trending and rating order by
+    // the scores the prompt-scores job stores; both need a database function
+    if (sort === 'relevance' || isScoreSort(sort)) {
+      const { items, total } =
+        sort === 'relevance'
+          ? await searchPromptsByRelevance(supabase, { ...filters, offset: from, limit: pageSize, requestId })
+          : await searchPromptsByScore(supabase, { ...filters, sort, offset: from, limit: pageSize });
+      const res = NextResponse.json(
+        createSuccessResponse({ items, page, pageSize, total, facets: await facetsPromise }),
+        { status: 200 }
+      );
+      return withRequestIdHeader(res, requestId);
+    }
+
     let query = supabase
       .from('prompts')
-      .select('id,title,description,price,tags,preview_image,created_at,likes,user_id', { count: 'exact' })
+      .select(PROMPT_SEARCH_COLUMNS, { count: 'exact' })
       .eq('is_public', true);
 
     if (q) {
@@ -52,6 +61,18 @@ export async function GET(req: NextRequest) {
       query = query.contains('tags', tags);
     }
 
+    if (category) {
+      query = query.eq('category', category);
+    }
+
+    if (creator) {
+      query = query.eq('user_id', creator);
+    }
+
+    if (minRating !== undefined) {
+      query = query.gte('rating_avg', minRating);
+    }
+
     if (priceMin !== undefined) {
       query = query.gte('price', priceMin);
     }
@@ -75,7 +96,7 @@ export async function GET(req: NextRequest) {
         break;
     }
 
-    const { data, error, count } = await query.range(from, to);
+    const [{ data, error, count }, facets] = await Promise.all([query.range(from, to), facetsPromise]);
 
     if (error) {
       logger.error('Prompt search failed', { requestId, route: '/api/prompts/search', userId: user?.id }, error, 'PROMPT_SEARCH_FAILED');
@@ -92,6 +113,7 @@ export async function GET(req: NextRequest) {
         page,
         pageSize,
         total: count ?? 0,
+        facets,
       }),
       { status: 200 }
     );
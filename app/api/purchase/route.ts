@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { isListingHidden } from '@/lib/moderation/suspension-status';
 import { purchaseSchema } from '@/lib/validation/schemas';
 import { 
   createSuccessResponse, 
@@ -46,6 +48,11 @@ export async function POST(req: Request) {
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     // Parse and validate request body
     let body;
     try {
@@ -74,7 +81,7 @@ export async function POST(req: Request) {
     // Get prompt details
     const { data: prompt, error: promptError } = await supabase
       .from('prompts')
-      .select('id, title, price, user_id, prompt_text')
+      .select('id, title, price, user_id, prompt_text, is_public, suspended_at')
       .eq('id', promptId)
       .single();
 
@@ -82,6 +89,13 @@ export async function POST(req: Request) {
       return NextResponse.json(createNotFoundErrorResponse('Prompt'), { status: 404 });
     }
 
+    if (isListingHidden(prompt)) {
+      return NextResponse.json(createErrorResponse(
+        ErrorCodes.INVALID_STATUS,
+        'This prompt is not on sale right now'
+      ), { status: 400 });
+    }
+
     if (prompt.user_id === user.id) {
       return NextResponse.json(createErrorResponse(
         ErrorCodes.VALIDATION_ERROR,
@@ -1,6 +1,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseAdminClient, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { refundRequestSchema } from '@/lib/validation/schemas';
 import { notifyAdmins } from '@/lib/notifications';
 import {
@@ -23,6 +24,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     const supabaseAdminClient = await createSupabaseAdminClient();
     try {
       await enforceRateLimit({
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { contentReportSchema } from '@/lib/validation/schemas';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCode,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
+import { AppError } from '@/lib/errors';
+import { createContentReport } from '@/lib/moderation/reports';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Reports a prompt, comment or review to the moderators
+export async function POST(req: Request) {
+  const requestId = crypto.randomUUID();
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = contentReportSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  try {
+    await enforceRateLimit({
+      request: req,
+      supabase,
+      scope: 'report:create',
+      limit: 10,
+      windowSeconds: 60 * 60,
+      userId: user.id,
+      requestId,
+    });
+  } catch (err) {
+    if (err instanceof RateLimitExceeded) {
+      return rateLimitResponse(err);
+    }
+    throw err;
+  }
+
+  try {
+    const report = await createContentReport(supabase, { reporterId: user.id, ...parsed.data, requestId });
+    return NextResponse.json(
+      createSuccessResponse({ reportId: report.id }, 'Thanks, a moderator will review your report.'),
+      { status: 201 }
+    );
+  } catch (err) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+    return NextResponse.json(createErrorResponse(ErrorCodes.INTERNAL_ERROR, 'Failed to submit report.'), { status: 500 });
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { savedSearchUpdateSchema } from '@/lib/validation/schemas';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { SAVED_SEARCH_COLUMNS, SavedSearchRow } from '@/lib/saved-searches';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function findSavedSearch(supabase: any, userId: string, id: string): Promise<SavedSearchRow | null> {
+  const { data } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return (data as SavedSearchRow | null) ?? null;
+}
+
+// Renames a saved search or turns its new-prompt notifications on or off
+export async function PATCH(req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = savedSearchUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const search = await findSavedSearch(supabase, user.id, id);
+  if (!search) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Saved search not found.'), { status: 404 });
+  }
+
+  const { error } = await supabase
+    .from('saved_searches')
+    .update({ ...parsed.data, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to update saved search.'), {
+      status: 500,
+    });
+  }
+
+  return NextResponse.json(createSuccessResponse({ search: { ...search, ...parsed.data } }));
+}
+
+export async function DELETE(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const search = await findSavedSearch(supabase, user.id, id);
+  if (!search) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Saved search not found.'), { status: 404 });
+  }
+
+  const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to delete saved search.'), {
+      status: 500,
+    });
+  }
+
+  return NextResponse.json(createSuccessResponse({ id }));
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { savedSearchCreateSchema } from '@/lib/validation/schemas';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { describeSearchFilters, hasSearchFilters, PromptSearchFilters } from '@/lib/search-filters';
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  SAVED_SEARCH_COLUMNS,
+  SavedSearchRow,
+} from '@/lib/saved-searches';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+  if (error) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load saved searches.'), {
+      status: 500,
+    });
+  }
+
+  return NextResponse.json(createSuccessResponse({ searches: (data ?? []) as SavedSearchRow[] }));
+}
+
+/**
+ * Saves the current marketplace search. With `notify` on (the default) the user is told when a
+ * newly approved prompt matches it.
+ */
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON body.'), { status: 400 });
+  }
+  const parsed = savedSearchCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { q, ...rest } = parsed.data.filters;
+  const filters: PromptSearchFilters = { q: q?.trim() || null, ...rest };
+  // A search with no filters would match, and notify about, every new prompt
+  if (!hasSearchFilters(filters)) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Add a search term or filter before saving a search.'),
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { data: existing } = await supabase.from('saved_searches').select('id').eq('user_id', user.id);
+  if ((existing ?? []).length >= MAX_SAVED_SEARCHES_PER_USER) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, `You can save at most ${MAX_SAVED_SEARCHES_PER_USER} searches.`),
+      { status: 400 }
+    );
+  }
+
+  const { data: saved, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      user_id: user.id,
+      name: parsed.data.name ?? describeSearchFilters(filters),
+      filters,
+      notify: parsed.data.notify ?? true,
+    })
+    .select(SAVED_SEARCH_COLUMNS)
+    .single();
+  if (error || !saved) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to save search.'), { status: 500 });
+  }
+
+  return NextResponse.json(createSuccessResponse({ search: saved as SavedSearchRow }), { status: 201 });
+}
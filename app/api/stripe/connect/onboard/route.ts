@@ -1,6 +1,7 @@
 import { NextResponse, NextRequest } from 'next/server';
 import Stripe from 'stripe';
 import { createSupabaseAdminClient, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { createAuthErrorResponse, createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
 import { getRequestId, withRequestIdHeader } from '@/lib/api/request-id';
 import { logger } from '@/lib/logging';
@@ -24,6 +25,11 @@ export async function POST(req: NextRequest) {
     return withRequestIdHeader(res, requestId);
   }
 
+  const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+  if (suspended) {
+    return withRequestIdHeader(suspended, requestId);
+  }
+
   const stripe = getStripe();
   if (!stripe) {
     const res = NextResponse.json(
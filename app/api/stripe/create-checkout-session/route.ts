@@ -1,7 +1,9 @@
 
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
-import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { createSupabaseAdminClient, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { isListingHidden } from '@/lib/moderation/suspension-status';
 import { createCheckoutSessionSchema } from '@/lib/validation/schemas';
 import { 
   createSuccessResponse, 
@@ -10,8 +12,13 @@ import {
   createAuthErrorResponse, 
   createNotFoundErrorResponse,
   createServerErrorResponse,
-  ErrorCodes 
+  ErrorCodes,
+  type ErrorCode,
 } from '@/lib/api/responses';
+import { AppError } from '@/lib/errors';
+import { toPriceCents } from '@/lib/cart';
+import { assertCouponRedeemable, CouponRow, findCoupon, quoteCouponPrice } from '@/lib/coupons';
+import { findTransferDestination, platformFeeCents, resolvePlatformFee } from '@/lib/platform-fees';
 
 export const runtime = "nodejs";
 
@@ -27,6 +34,12 @@ export async function POST(req: Request) {
   try {
     // Get current user (optional for checkout)
     const user = await getCurrentUser();
+    if (user) {
+      const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+      if (suspended) {
+        return suspended;
+      }
+    }
     
     const stripe = getStripeClient();
     if (!stripe) {
@@ -56,23 +69,13 @@ export async function POST(req: Request) {
       );
     }
 
-    const { prompt_id: promptId, success_url, cancel_url } = validationResult.data;
-    const priceInCents = Number(body?.price);
-
-    // Validate required fields from original code
-    const title = body?.title;
-    if (!promptId || !title || !Number.isFinite(priceInCents) || priceInCents <= 0) {
-      return NextResponse.json(createErrorResponse(
-        ErrorCodes.VALIDATION_ERROR,
-        'Missing or invalid prompt_id, title, or price'
-      ), { status: 400 });
-    }
+    const { prompt_id: promptId, coupon_code: couponCode, success_url, cancel_url } = validationResult.data;
 
     // Verify prompt exists and get details
     const supabase = await createSupabaseServerClient();
     const { data: prompt, error: promptError } = await supabase
       .from('prompts')
-      .select('id, title, user_id')
+      .select('id, title, user_id, price, status, is_public, suspended_at')
       .eq('id', promptId)
       .single();
 
@@ -80,6 +83,28 @@ export async function POST(req: Request) {
       return NextResponse.json(createNotFoundErrorResponse('Prompt'), { status: 404 });
     }
 
+    if (prompt.status !== 'approved') {
+      return NextResponse.json(createErrorResponse(
+        ErrorCodes.INVALID_STATUS,
+        'Only approved prompts can be purchased'
+      ), { status: 400 });
+    }
+
+    if (isListingHidden(prompt)) {
+      return NextResponse.json(createErrorResponse(
+        ErrorCodes.INVALID_STATUS,
+        'This prompt is not on sale right now'
+      ), { status: 400 });
+    }
+
+    const listPriceCents = toPriceCents(prompt.price);
+    if (listPriceCents <= 0) {
+      return NextResponse.json(createErrorResponse(
+        ErrorCodes.VALIDATION_ERROR,
+        'Free prompts do not need to be purchased'
+      ), { status: 400 });
+    }
+
     // Verify user owns the prompt or get seller info
     const sellerId = prompt.user_id;
     if (user && user.id === sellerId) {
@@ -89,6 +114,28 @@ export async function POST(req: Request) {
       ), { status: 400 });
     }
 
+    // Coupons, fee overrides and payout accounts are private to their creator, so use the service role
+    const supabaseAdmin = await createSupabaseAdminClient();
+    let coupon: CouponRow | null = null;
+    if (couponCode) {
+      coupon = await findCoupon(supabaseAdmin, sellerId, couponCode);
+      if (!coupon) {
+        return NextResponse.json(createErrorResponse(
+          ErrorCodes.INVALID_COUPON,
+          'Coupon code not found'
+        ), { status: 400 });
+      }
+      assertCouponRedeemable(coupon, prompt.id);
+    }
+
+    const quote = quoteCouponPrice(listPriceCents, coupon);
+
+    // Onboarded creators are paid through a destination charge; otherwise the platform holds
+    // their share in the ledger until a payout
+    const platformFee = await resolvePlatformFee(supabaseAdmin, sellerId);
+    const feeCents = platformFeeCents(quote.amountCents, platformFee.feeBps);
+    const transferDestination = await findTransferDestination(supabaseAdmin, sellerId);
+
     const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000";
 
     // Create a one-time payment session using inline price_data
@@ -99,9 +146,9 @@ export async function POST(req: Request) {
         {
           price_data: {
             currency: "usd",
-            unit_amount: priceInCents,
+            unit_amount: quote.amountCents,
             product_data: {
-              name: title,
+              name: prompt.title,
               metadata: {
                 prompt_id: promptId,
               },
@@ -110,22 +157,50 @@ export async function POST(req: Request) {
           quantity: 1,
         },
       ],
+      ...(transferDestination
+        ? {
+            payment_intent_data: {
+              ...(feeCents > 0 ? { application_fee_amount: feeCents } : {}),
+              transfer_data: { destination: transferDestination },
+            },
+          }
+        : {}),
       success_url: success_url || `${siteUrl}/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancel_url || `${siteUrl}/cancel`,
       metadata: {
         prompt_id: promptId,
         seller_id: sellerId,
         user_id: user?.id ?? "",
+        list_price_cents: String(quote.listPriceCents),
+        platform_fee_bps: String(platformFee.feeBps),
+        platform_fee_cents: String(feeCents),
+        ...(transferDestination ? { transfer_destination: transferDestination } : {}),
+        ...(coupon
+          ? {
+              coupon_id: coupon.id,
+              coupon_code: coupon.code,
+              discount_cents: String(quote.discountCents),
+            }
+          : {}),
       },
     });
 
     // Return success response
     return NextResponse.json(createSuccessResponse({
       url: session.url,
-      sessionId: session.id
+      sessionId: session.id,
+      amountCents: quote.amountCents,
+      discountCents: quote.discountCents,
     }, 'Checkout session created successfully'));
 
   } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        createErrorResponse(error.code as ErrorCode, error.message, error.details),
+        { status: error.statusCode }
+      );
+    }
+
     console.error('Stripe checkout error:', error);
     
     // Handle Stripe-specific errors
@@ -2,6 +2,10 @@ import { NextResponse, type NextRequest } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import Stripe from 'stripe';
 import { logError } from '@/lib/logger';
+import { AppError } from '@/lib/errors';
+import { enforceRateLimit, RateLimitExceeded } from '@/lib/rate-limit';
+import { getScheduledPayoutConfig } from '@/lib/cron/payouts';
+import { executePayout, getPayableBalance, PayableBalance } from '@/lib/payouts';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -27,9 +31,6 @@ type ProfileRow = {
   connected_account_id?: string | null;
 };
 
-type PurchaseRow = { price: number | null };
-type PayoutRow = { amount: number | null };
-
 function extractToken(req: NextRequest) {
   const authHeader = req.headers.get('authorization');
   if (authHeader?.toLowerCase().startsWith('bearer ')) {
@@ -51,26 +52,6 @@ function extractToken(req: NextRequest) {
   return null;
 }
 
-function sumAmounts<T extends Record<string, any>>(rows: T[] | null | undefined, key: keyof T) {
-  return (rows ?? []).reduce((acc, row) => acc + Number(row[key] ?? 0), 0);
-}
-
-const rateLimitWindowMs = 60_000;
-const rateLimitMax = 5;
-const payoutLimiter = new Map<string, { ts: number; count: number }>();
-
-function rateLimit(key: string) {
-  const now = Date.now();
-  const current = payoutLimiter.get(key);
-  if (!current || now - current.ts > rateLimitWindowMs) {
-    payoutLimiter.set(key, { ts: now, count: 1 });
-    return false;
-  }
-  if (current.count >= rateLimitMax) return true;
-  current.count += 1;
-  return false;
-}
-
 export async function POST(req: NextRequest) {
   try {
     const token = extractToken(req);
@@ -86,8 +67,20 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
     }
 
-    if (rateLimit(userId)) {
-      return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+    try {
+      await enforceRateLimit({
+        request: req,
+        supabase: supabaseAdmin,
+        scope: 'stripe_payout',
+        limit: 5,
+        windowSeconds: 60,
+        userId,
+      });
+    } catch (err) {
+      if (err instanceof RateLimitExceeded) {
+        return NextResponse.json({ error: 'rate_limited' }, { status: 429 });
+      }
+      throw err;
     }
 
     let body: { amount?: number };
@@ -114,34 +107,27 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'missing_stripe_account' }, { status: 400 });
     }
 
-    const { data: purchases, error: purchasesError } = await supabaseAdmin
-      .from('purchases')
-      .select('price')
-      .eq('seller_id', userId);
-    if (purchasesError) {
-      console.error('Payout: failed to load purchases', purchasesError);
-      return NextResponse.json({ error: 'purchases_lookup_failed' }, { status: 500 });
-    }
-
-    const { data: paidOut, error: paidOutError } = await supabaseAdmin
-      .from('payouts')
-      .select('amount')
-      .eq('seller_id', userId);
-    if (paidOutError) {
-      console.error('Payout: failed to load payouts', paidOutError);
-      return NextResponse.json({ error: 'payouts_lookup_failed' }, { status: 500 });
+    // The ledger creator_payable balance, less sales still inside the refund window and payouts
+    // already in flight
+    let balance: PayableBalance;
+    try {
+      balance = await getPayableBalance(supabaseAdmin, userId, getScheduledPayoutConfig().holdbackDays);
+    } catch (err) {
+      console.error('Payout: failed to load ledger', err);
+      return NextResponse.json({ error: 'ledger_lookup_failed' }, { status: 500 });
     }
 
-    const gross = sumAmounts(purchases, 'price');
-    const alreadyPaid = sumAmounts(paidOut, 'amount');
-    const available = Math.max(0, gross - alreadyPaid);
+    const available = balance.payableCents / 100;
 
     const requested = Number(body.amount);
     const payoutAmount =
       Number.isFinite(requested) && requested > 0 ? Math.min(requested, available) : available;
 
     if (!Number.isFinite(payoutAmount) || payoutAmount <= 0) {
-      return NextResponse.json({ error: 'no_funds_available', available }, { status: 400 });
+      return NextResponse.json(
+        { error: 'no_funds_available', available, held: balance.holdbackCents / 100 },
+        { status: 400 }
+      );
     }
 
     const amountInCents = Math.round(payoutAmount * 100);
@@ -149,37 +135,42 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'invalid_amount' }, { status: 400 });
     }
 
-    let transfer: Stripe.Transfer;
+    // Clients retrying after a timeout send the same Idempotency-Key so the payout is not repeated.
+    // Payouts are reserved one at a time per creator, so a request without one (or a scheduled run
+    // at the same moment) can only send what the other has not already taken.
+    const idempotencyKey = `manual_payout:${userId}:${req.headers.get('idempotency-key') ?? crypto.randomUUID()}`;
+
+    let payout;
     try {
-      transfer = await stripe.transfers.create({
-        amount: amountInCents,
-        currency: 'usd',
+      payout = await executePayout(supabaseAdmin, stripe, {
+        creatorId: userId,
         destination: accountId,
-        metadata: { seller_id: userId, source: 'manual_payout' },
+        amountCents: amountInCents,
+        holdbackCents: balance.holdbackCents,
+        idempotencyKey,
+        trigger: 'manual',
+        requestId: crypto.randomUUID(),
       });
     } catch (err: any) {
-      console.error('Stripe transfer failed', err);
-      return NextResponse.json({ error: 'stripe_transfer_failed', message: err?.message }, { status: 500 });
-    }
-
-    const { error: insertError } = await supabaseAdmin.from('payouts').insert({
-      seller_id: userId,
-      amount: payoutAmount,
-      currency: 'usd',
-      stripe_transfer_id: transfer.id,
-      destination_account: accountId,
-    });
-
-    if (insertError) {
-      console.error('Payout: failed to record payout', insertError);
+      if (err instanceof AppError && err.code === 'INSUFFICIENT_FUNDS') {
+        return NextResponse.json(
+          { error: 'no_funds_available', available: 0, held: balance.holdbackCents / 100 },
+          { status: 400 }
+        );
+      }
+      console.error('Payout failed', err);
+      if (err instanceof AppError && err.code === 'STRIPE_ERROR') {
+        return NextResponse.json({ error: 'stripe_transfer_failed', message: err.details?.details }, { status: 500 });
+      }
       return NextResponse.json({ error: 'record_failed' }, { status: 500 });
     }
 
-    const remaining = Math.max(0, available - payoutAmount);
+    const remaining = Math.max(0, available - Number(payout.amount));
     return NextResponse.json({
       ok: true,
-      transfer_id: transfer.id,
-      amount: payoutAmount,
+      payout_id: payout.id,
+      transfer_id: payout.stripe_transfer_id,
+      amount: Number(payout.amount),
       currency: 'usd',
       remaining,
     });
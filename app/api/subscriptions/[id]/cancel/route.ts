@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function getStripeClient() {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    return null;
+  }
+  return new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+}
+
+// Cancels at the end of the paid period; the subscription webhook records the final state
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.SERVER_ERROR, 'Server misconfigured: STRIPE_SECRET_KEY is missing'),
+      { status: 500 }
+    );
+  }
+
+  const { id } = await context.params;
+  const supabase = await createSupabaseAdminClient();
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('id,user_id,stripe_subscription_id,status')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!subscription || subscription.user_id !== user.id) {
+    return NextResponse.json(createErrorResponse(ErrorCodes.NOT_FOUND, 'Subscription not found'), { status: 404 });
+  }
+
+  if (subscription.status === 'canceled') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.INVALID_STATUS, 'Subscription is already canceled'),
+      { status: 409 }
+    );
+  }
+
+  try {
+    await stripe.subscriptions.update(subscription.stripe_subscription_id, { cancel_at_period_end: true });
+  } catch (err: any) {
+    console.error('Subscription cancel error:', err);
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.STRIPE_ERROR, 'Failed to cancel subscription', err?.message),
+      { status: 502 }
+    );
+  }
+
+  await supabase
+    .from('subscriptions')
+    .update({ cancel_at_period_end: true, updated_at: new Date().toISOString() })
+    .eq('id', subscription.id);
+
+  return NextResponse.json(createSuccessResponse({ id: subscription.id, cancelAtPeriodEnd: true }, 'Subscription will end at the close of the current period'));
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { getUserSuspension, suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { subscriptionCheckoutSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+  type ErrorCode,
+} from '@/lib/api/responses';
+import { AppError } from '@/lib/errors';
+import { findActiveSubscription, findCreatorPlan } from '@/lib/subscriptions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function getStripeClient() {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    return null;
+  }
+  return new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+}
+
+// Starts a Stripe Billing checkout for a creator's monthly plan
+export async function POST(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.SERVER_ERROR, 'Server misconfigured: STRIPE_SECRET_KEY is missing'),
+      { status: 500 }
+    );
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = subscriptionCheckoutSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { creator_id: creatorId, success_url, cancel_url } = parsed.data;
+  if (creatorId === user.id) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Cannot subscribe to your own catalog'),
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = await createSupabaseAdminClient();
+    const plan = await findCreatorPlan(supabase, creatorId);
+    if (!plan || !plan.active) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.NOT_FOUND, 'This creator does not offer a subscription'),
+        { status: 404 }
+      );
+    }
+
+    if (await getUserSuspension(supabase, creatorId)) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.INVALID_STATUS, "This creator's catalog is not available right now"),
+        { status: 400 }
+      );
+    }
+
+    if (await findActiveSubscription(supabase, user.id, creatorId)) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.ALREADY_EXISTS, 'You are already subscribed to this creator'),
+        { status: 409 }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('stripe_customer_id')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const metadata = { user_id: user.id, creator_id: creatorId };
+    const siteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? 'http://localhost:3000';
+    const session = await stripe.checkout.sessions.create({
+      mode: 'subscription',
+      line_items: [{ price: plan.stripe_price_id, quantity: 1 }],
+      ...(profile?.stripe_customer_id
+        ? { customer: profile.stripe_customer_id }
+        : { customer_email: user.email ?? undefined }),
+      client_reference_id: user.id,
+      metadata,
+      subscription_data: { metadata },
+      success_url: success_url || `${siteUrl}/creator/${creatorId}?subscribed=1`,
+      cancel_url: cancel_url || `${siteUrl}/creator/${creatorId}`,
+    });
+
+    return NextResponse.json(
+      createSuccessResponse({ url: session.url, sessionId: session.id }, 'Checkout session created successfully')
+    );
+  } catch (err: any) {
+    if (err instanceof AppError) {
+      return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+        status: err.statusCode,
+      });
+    }
+
+    console.error('Subscription checkout error:', err);
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.STRIPE_ERROR, 'Failed to create checkout session', err?.message),
+      { status: 502 }
+    );
+  }
+}
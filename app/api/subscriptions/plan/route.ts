@@ -0,0 +1,169 @@
+import { NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
+import { subscriptionPlanSchema } from '@/lib/validation/schemas';
+import {
+  createSuccessResponse,
+  createErrorResponse,
+  createValidationErrorResponse,
+  createAuthErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
+import { findCreatorPlan, isSubscriptionActive } from '@/lib/subscriptions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function getStripeClient() {
+  const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+  if (!stripeSecretKey) {
+    return null;
+  }
+  return new Stripe(stripeSecretKey, { apiVersion: '2024-04-10' });
+}
+
+// Returns the creator's own plan and how many subscribers currently have access
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const plan = await findCreatorPlan(supabase, user.id);
+  const { data: subscriptions } = await supabase
+    .from('subscriptions')
+    .select('status,current_period_end')
+    .eq('creator_id', user.id);
+
+  return NextResponse.json(
+    createSuccessResponse({
+      plan,
+      activeSubscribers: (subscriptions ?? []).filter((row: any) => isSubscriptionActive(row)).length,
+    })
+  );
+}
+
+/**
+ * Creates the creator's monthly plan, or moves it to a new price. Stripe prices are immutable,
+ * so a price change archives the old price; existing subscribers keep the price they signed up at.
+ */
+export async function PUT(req: Request) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const stripe = getStripeClient();
+  if (!stripe) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.SERVER_ERROR, 'Server misconfigured: STRIPE_SECRET_KEY is missing'),
+      { status: 500 }
+    );
+  }
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(createErrorResponse(ErrorCodes.VALIDATION_ERROR, 'Invalid JSON in request body'), {
+      status: 400,
+    });
+  }
+
+  const parsed = subscriptionPlanSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(createValidationErrorResponse(parsed.error.issues), { status: 400 });
+  }
+
+  const { price_cents: priceCents } = parsed.data;
+  const supabase = await createSupabaseAdminClient();
+
+  try {
+    const existing = await findCreatorPlan(supabase, user.id);
+    if (existing && existing.active && existing.price_cents === priceCents) {
+      return NextResponse.json(createSuccessResponse({ plan: existing }));
+    }
+
+    const productId =
+      existing?.stripe_product_id ??
+      (
+        await stripe.products.create({
+          name: `Creator subscription ${user.id}`,
+          metadata: { creator_id: user.id },
+        })
+      ).id;
+
+    const price = await stripe.prices.create({
+      product: productId,
+      currency: 'usd',
+      unit_amount: priceCents,
+      recurring: { interval: 'month' },
+      metadata: { creator_id: user.id },
+    });
+
+    if (existing && existing.stripe_price_id !== price.id) {
+      await stripe.prices.update(existing.stripe_price_id, { active: false });
+    }
+
+    const plan = {
+      creator_id: user.id,
+      stripe_product_id: productId,
+      stripe_price_id: price.id,
+      price_cents: priceCents,
+      currency: 'usd',
+      active: true,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase.from('creator_subscription_plans').upsert(plan, { onConflict: 'creator_id' });
+    if (error) {
+      return NextResponse.json(
+        createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to save subscription plan', { message: error.message }),
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(createSuccessResponse({ plan }, 'Subscription plan saved'));
+  } catch (err: any) {
+    console.error('Subscription plan error:', err);
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.STRIPE_ERROR, 'Failed to save subscription plan', err?.message),
+      { status: 502 }
+    );
+  }
+}
+
+// Stops new subscriptions; current subscribers keep access until they cancel
+export async function DELETE() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  const supabase = await createSupabaseAdminClient();
+  const { error } = await supabase
+    .from('creator_subscription_plans')
+    .update({ active: false, updated_at: new Date().toISOString() })
+    .eq('creator_id', user.id);
+
+  if (error && error.code !== 'PGRST116') {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to deactivate subscription plan', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(createSuccessResponse({ active: false }, 'Subscription plan deactivated'));
+}
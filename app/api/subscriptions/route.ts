@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { createSuccessResponse, createErrorResponse, createAuthErrorResponse, ErrorCodes } from '@/lib/api/responses';
+import { SUBSCRIPTION_COLUMNS, isSubscriptionActive } from '@/lib/subscriptions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Lists the signed-in user's creator subscriptions
+export async function GET() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json(createAuthErrorResponse(), { status: 401 });
+  }
+
+  const supabase = await createSupabaseServerClient();
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return NextResponse.json(
+      createErrorResponse(ErrorCodes.DATABASE_ERROR, 'Failed to load subscriptions', { message: error.message }),
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    createSuccessResponse({
+      subscriptions: (data ?? []).map((row: any) => ({ ...row, hasAccess: isSubscriptionActive(row) })),
+    })
+  );
+}
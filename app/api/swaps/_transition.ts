@@ -1,8 +1,17 @@
 import { NextResponse } from 'next/server';
 import { createSupabaseAdminClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { transitionSwap, SwapAction } from '@/lib/swaps/state';
-import { createAuthErrorResponse, createErrorResponse, createSuccessResponse, ErrorCodes } from '@/lib/api/responses';
+import {
+  createAuthErrorResponse,
+  createErrorResponse,
+  createSuccessResponse,
+  createValidationErrorResponse,
+  ErrorCodes,
+} from '@/lib/api/responses';
 import { emitSwapNotifications } from '@/lib/swaps/notifications';
+import { SwapBundle } from '@/lib/swaps/bundles';
+import { counterSwapSchema } from '@/lib/validation/schemas';
 
 export async function handleSwapAction(request: Request, swapId: string, action: SwapAction) {
   const user = await getCurrentUser();
@@ -10,17 +19,50 @@ export async function handleSwapAction(request: Request, swapId: string, action:
     return NextResponse.json(createAuthErrorResponse(), { status: 401 });
   }
 
+  const suspended = await suspendedUserResponse(await createSupabaseAdminClient(), user.id);
+  if (suspended) {
+    return suspended;
+  }
+
+  let counterOffer: SwapBundle | undefined;
+  if (action === 'counter') {
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(createErrorResponse(ErrorCodes.INVALID_JSON, 'Invalid JSON in request body'), {
+        status: 400,
+      });
+    }
+    const validation = counterSwapSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(createValidationErrorResponse(validation.error.issues), { status: 400 });
+    }
+    counterOffer = validation.data;
+  }
+
   const supabaseAdmin = await createSupabaseAdminClient();
   const requestId = crypto.randomUUID();
 
   try {
-    const result = await transitionSwap(supabaseAdmin, swapId, user.id, action, requestId, {
-      fulfillHandler: action === 'fulfill' ? (swap) => copyPromptsBetweenUsers(supabaseAdmin, swap) : undefined,
-    });
+    const result = await transitionSwap(supabaseAdmin, swapId, user.id, action, requestId, { counterOffer });
 
-    await emitSwapNotifications(supabaseAdmin, action, result.swap, requestId);
+    if (!result.fulfillment?.replayed) {
+      // A deposit that releases the escrow is announced like a fulfillment
+      const notifyAction = action === 'deposit' && result.fulfillment ? 'fulfill' : action;
+      await emitSwapNotifications(supabaseAdmin, notifyAction, result.swap, requestId, { actorId: user.id });
+    }
 
-    return NextResponse.json(createSuccessResponse({ swapId, status: result.status }), { status: 200 });
+    return NextResponse.json(
+      createSuccessResponse({
+        swapId,
+        status: result.status,
+        counterSwapId: result.counterSwap?.id,
+        copies: result.fulfillment?.copies,
+        replayed: result.fulfillment?.replayed,
+      }),
+      { status: 200 }
+    );
   } catch (err: any) {
     const statusCode = err?.statusCode || 500;
     const message = err?.message || 'Swap action failed';
@@ -29,53 +71,3 @@ export async function handleSwapAction(request: Request, swapId: string, action:
     });
   }
 }
-
-async function copyPromptsBetweenUsers(supabase: any, swap: { requested_prompt_id: string; offered_prompt_id: string; requester_id: string; responder_id: string }) {
-  const { data: prompts, error } = await supabase
-    .from('prompts')
-    .select('id, title, description, tags, price, prompt_text, preview_image, version')
-    .in('id', [swap.requested_prompt_id, swap.offered_prompt_id]);
-
-  if (error) {
-    throw error;
-  }
-
-  const requested = prompts?.find((p: any) => p.id === swap.requested_prompt_id);
-  const offered = prompts?.find((p: any) => p.id === swap.offered_prompt_id);
-
-  if (!requested || !offered) {
-    throw new Error('One or more prompts not found for fulfillment');
-  }
-
-  const now = new Date().toISOString();
-  const { error: insertError } = await supabase.from('prompts').insert([
-    {
-      user_id: swap.requester_id,
-      title: offered.title,
-      description: offered.description,
-      tags: offered.tags,
-      price: offered.price,
-      prompt_text: offered.prompt_text,
-      preview_image: offered.preview_image,
-      is_public: false,
-      version: offered.version ?? 1,
-      created_at: now,
-    },
-    {
-      user_id: swap.responder_id,
-      title: requested.title,
-      description: requested.description,
-      tags: requested.tags,
-      price: requested.price,
-      prompt_text: requested.prompt_text,
-      preview_image: requested.preview_image,
-      is_public: false,
-      version: requested.version ?? 1,
-      created_at: now,
-    },
-  ]);
-
-  if (insertError) {
-    throw insertError;
-  }
-}
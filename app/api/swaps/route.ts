@@ -1,18 +1,26 @@
 import { NextResponse } from 'next/server';
 import { createSupabaseAdminClient, createSupabaseServerClient, getCurrentUser } from '@/lib/supabase/server';
+import { suspendedUserResponse } from '@/lib/moderation/suspensions';
 import { createSwapSchema } from '@/lib/validation/schemas';
 import { 
   createSuccessResponse, 
   createErrorResponse, 
   createValidationErrorResponse, 
   createAuthErrorResponse, 
-  ErrorCodes 
+  ErrorCodes,
+  type ErrorCode,
 } from '@/lib/api/responses';
+import { AppError } from '@/lib/errors';
+import { assertSwapBundle, getSwapBundle } from '@/lib/swaps/bundles';
 import { createNotification } from '@/lib/notifications';
 import { enforceRateLimit, rateLimitResponse, RateLimitExceeded } from '@/lib/rate-limit';
 
 export const runtime = 'nodejs';
 
+const SWAP_LIST_COLUMNS =
+  'id, requester_id, responder_id, requested_prompt_id, offered_prompt_id, requested_prompt_ids, offered_prompt_ids, parent_swap_id, ' +
+  'escrow, escrow_deadline, requester_deposited_at, responder_deposited_at, status, created_at';
+
 export async function POST(req: Request) {
   try {
     const requestId = crypto.randomUUID();
@@ -22,6 +30,11 @@ export async function POST(req: Request) {
       return NextResponse.json(createAuthErrorResponse(), { status: 401 });
     }
 
+    const suspended = await suspendedUserResponse(await createSupabaseServerClient(), user.id);
+    if (suspended) {
+      return suspended;
+    }
+
     const supabaseAdmin = await createSupabaseAdminClient();
     try {
       await enforceRateLimit({
@@ -60,19 +73,21 @@ export async function POST(req: Request) {
       );
     }
 
-    const { requested_prompt_id, offered_prompt_id, responder_id } = validationResult.data;
+    const { requested_prompt_ids, offered_prompt_ids, responder_id, escrow } = validationResult.data;
 
     // Create Supabase client
     const supabase = await createSupabaseServerClient();
 
-    // Verify that the user doesn't already have a pending swap for these prompts
+    // Verify that the user doesn't already have a pending swap for the same bundles
     const { data: existingSwap } = await supabase
       .from('swaps')
       .select('id')
       .eq('requester_id', user.id)
-      .eq('requested_prompt_id', requested_prompt_id)
-      .eq('offered_prompt_id', offered_prompt_id)
       .eq('responder_id', responder_id)
+      .contains('requested_prompt_ids', requested_prompt_ids)
+      .containedBy('requested_prompt_ids', requested_prompt_ids)
+      .contains('offered_prompt_ids', offered_prompt_ids)
+      .containedBy('offered_prompt_ids', offered_prompt_ids)
       .eq('status', 'requested')
       .maybeSingle();
 
@@ -83,45 +98,20 @@ export async function POST(req: Request) {
       ), { status: 400 });
     }
 
-    // Verify that the prompts exist and are owned by the correct users
-    const { data: requestedPrompt } = await supabase
-      .from('prompts')
-      .select('id, user_id, status')
-      .eq('id', requested_prompt_id)
-      .single();
-
-    const { data: offeredPrompt } = await supabase
-      .from('prompts')
-      .select('id, user_id, status')
-      .eq('id', offered_prompt_id)
-      .single();
-
-    if (!requestedPrompt || !offeredPrompt) {
-      return NextResponse.json(createErrorResponse(
-        ErrorCodes.VALIDATION_ERROR,
-        'One or both prompts do not exist'
-      ), { status: 400 });
-    }
-
-    if (requestedPrompt.status !== 'approved' || offeredPrompt.status !== 'approved') {
-      return NextResponse.json(
-        createErrorResponse(ErrorCodes.INVALID_STATUS, 'Both prompts must be approved before swaps'),
-        { status: 400 }
-      );
-    }
-
-    if (requestedPrompt.user_id !== user.id) {
-      return NextResponse.json(createErrorResponse(
-        ErrorCodes.VALIDATION_ERROR,
-        'You can only request your own prompts for swaps'
-      ), { status: 400 });
-    }
-
-    if (offeredPrompt.user_id !== responder_id) {
-      return NextResponse.json(createErrorResponse(
-        ErrorCodes.VALIDATION_ERROR,
-        'The responder ID does not match the owner of the offered prompt'
-      ), { status: 400 });
+    // Verify that the prompts exist, are approved and are owned by the correct users
+    try {
+      await assertSwapBundle(supabase, {
+        requesterId: user.id,
+        responderId: responder_id,
+        bundle: { requested_prompt_ids, offered_prompt_ids },
+      });
+    } catch (err: any) {
+      if (err instanceof AppError) {
+        return NextResponse.json(createErrorResponse(err.code as ErrorCode, err.message, err.details), {
+          status: err.statusCode,
+        });
+      }
+      throw err;
     }
 
     // Create the swap
@@ -131,9 +121,13 @@ export async function POST(req: Request) {
         id: crypto.randomUUID(),
         requester_id: user.id,
         responder_id,
-        requested_prompt_id,
-        offered_prompt_id,
+        requested_prompt_id: requested_prompt_ids[0],
+        offered_prompt_id: offered_prompt_ids[0],
+        requested_prompt_ids,
+        offered_prompt_ids,
+        escrow,
         status: 'requested',
+        created_at: new Date().toISOString(),
       })
       .select('id')
       .single();
@@ -189,12 +183,12 @@ export async function GET(_req: Request) {
     const [incomingResult, outgoingResult] = await Promise.all([
       supabase
         .from('swaps')
-        .select('id, requester_id, responder_id, requested_prompt_id, offered_prompt_id, status, created_at')
+        .select(SWAP_LIST_COLUMNS)
         .eq('responder_id', user.id)
         .order('created_at', { ascending: false }),
       supabase
         .from('swaps')
-        .select('id, requester_id, responder_id, requested_prompt_id, offered_prompt_id, status, created_at')
+        .select(SWAP_LIST_COLUMNS)
         .eq('requester_id', user.id)
         .order('created_at', { ascending: false }),
     ]);
@@ -215,11 +209,13 @@ export async function GET(_req: Request) {
       ), { status: 500 });
     }
 
+    const allSwaps: any[] = [...(incomingResult.data ?? []), ...(outgoingResult.data ?? [])];
+
     // Get unique prompt IDs for batch loading
-    const promptIds = [
-      ...(incomingResult.data ?? []).flatMap((s) => [s.requested_prompt_id, s.offered_prompt_id]),
-      ...(outgoingResult.data ?? []).flatMap((s) => [s.requested_prompt_id, s.offered_prompt_id]),
-    ].filter(Boolean) as string[];
+    const promptIds = allSwaps.flatMap((s) => {
+      const bundle = getSwapBundle(s);
+      return [...bundle.requested_prompt_ids, ...bundle.offered_prompt_ids];
+    });
 
     const uniquePromptIds = Array.from(new Set(promptIds));
     const promptMap: Record<string, any> = {};
@@ -239,13 +235,41 @@ export async function GET(_req: Request) {
       }
     }
 
+    // Counter-offers are always between the same two users, so the whole chain is in allSwaps
+    const swapMap = new Map<string, any>(allSwaps.map((s) => [s.id, s]));
+    const counterHistory = (swap: any) => {
+      const history: any[] = [];
+      let parentId = swap.parent_swap_id;
+      while (parentId && swapMap.has(parentId) && history.length < allSwaps.length) {
+        const parent = swapMap.get(parentId);
+        const bundle = getSwapBundle(parent);
+        history.push({
+          id: parent.id,
+          requester_id: parent.requester_id,
+          status: parent.status,
+          created_at: parent.created_at,
+          requested_prompts: bundle.requested_prompt_ids.map((id) => promptMap[id] ?? { id }),
+          offered_prompts: bundle.offered_prompt_ids.map((id) => promptMap[id] ?? { id }),
+        });
+        parentId = parent.parent_swap_id;
+      }
+      return history;
+    };
+
     // Enrich swap data with prompt details
     const enrichSwaps = (swaps: any[]) =>
-      swaps.map((s) => ({
-        ...s,
-        requested_prompt: promptMap[s.requested_prompt_id] ?? null,
-        offered_prompt: promptMap[s.offered_prompt_id] ?? null,
-      }));
+      swaps.map((s) => {
+        const bundle = getSwapBundle(s);
+        return {
+          ...s,
+          ...bundle,
+          requested_prompt: promptMap[bundle.requested_prompt_ids[0]] ?? null,
+          offered_prompt: promptMap[bundle.offered_prompt_ids[0]] ?? null,
+          requested_prompts: bundle.requested_prompt_ids.map((id) => promptMap[id] ?? { id }),
+          offered_prompts: bundle.offered_prompt_ids.map((id) => promptMap[id] ?? { id }),
+          history: counterHistory(s),
+        };
+      });
 
     // Return success response
     return NextResponse.json(createSuccessResponse({
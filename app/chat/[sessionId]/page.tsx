@@ -1,9 +1,5 @@
 import { notFound } from "next/navigation";
-import {
-  getChatSessionWithMessages,
-  sendUserMessage,
-  type ChatMessageDTO,
-} from "./actions";
+import { getChatSessionWithMessages, type ChatMessageDTO } from "./actions";
 import { ChatUI } from "@/components/ChatUI";
 
 // In Next.js 16 with Turbopack, `params` is a Promise and must be awaited.
@@ -30,9 +26,6 @@ export default async function ChatPage({
   }
 
   const { session, messages } = data;
-  const handleSendMessage = async (formData: FormData) => {
-    await sendUserMessage(formData);
-  };
 
   return (
     <main className="max-w-3xl mx-auto px-4 py-6 space-y-4">
@@ -51,7 +44,6 @@ export default async function ChatPage({
         <ChatUI
           sessionId={session.id}
           messages={messages as ChatMessageDTO[]}
-          sendUserMessage={handleSendMessage}
         />
       </section>
     </main>
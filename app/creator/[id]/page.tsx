@@ -3,6 +3,7 @@ import { notFound } from "next/navigation";
 import Link from "next/link";
 import { PromptPreviewImage } from "@/components/PromptPreviewImage";
 import { Card, CardContent } from "@/components/ui/card";
+import SubscribeButton from "@/components/SubscribeButton";
 
 export default async function CreatorProfile({ params }: { params: { id: string } }) {
   const userId = params.id;
@@ -22,9 +23,12 @@ export default async function CreatorProfile({ params }: { params: { id: string
   return (
     <main className="mx-auto max-w-5xl px-4 py-8">
       <h1 className="text-2xl font-semibold mb-1">{creator.email}</h1>
-      <p className="text-slate-600 mb-6">
+      <p className="text-slate-600 mb-4">
         Prompts by this creator
       </p>
+      <div className="mb-6">
+        <SubscribeButton creatorId={userId} />
+      </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {prompts.map((p) => (
@@ -0,0 +1,192 @@
+// app/creator/prompts/[id]/appeal/page.tsx
+import { redirect, notFound } from "next/navigation";
+import { revalidatePath } from "next/cache";
+
+import { createSupabaseServerClient, getCurrentUser } from "@/lib/supabase-server";
+import { getUserSuspension } from "@/lib/moderation/suspensions";
+import { SUSPENDED_PAGE } from "@/lib/moderation/suspension-status";
+import { createSupabaseAdminClient } from "@/lib/supabase/server";
+import { enforceRateLimit, RateLimitExceeded } from "@/lib/rate-limit";
+import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { filePromptAppeal, PROMPT_APPEAL_COLUMNS, type PromptAppeal } from "@/lib/moderation/reports";
+import { promptAppealSchema } from "@/lib/validation/schemas";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+
+type AppealPageProps = {
+  params: { id: string };
+};
+
+export default async function AppealPromptPage({ params }: AppealPageProps) {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/auth/login");
+  }
+
+  const promptId = Number(params.id);
+  if (!Number.isInteger(promptId)) {
+    notFound();
+  }
+
+  const prompt = await prisma.prompt.findUnique({
+    where: { id: promptId },
+    select: { id: true, userId: true, title: true, status: true, moderationNote: true },
+  });
+
+  if (!prompt) {
+    notFound();
+  }
+
+  if (prompt.userId !== user.id) {
+    redirect(`/prompts/${prompt.id}`);
+  }
+
+  // Only taken-down prompts can be appealed; anything else is edited as usual
+  if (prompt.status !== "removed") {
+    redirect(`/creator/prompts/${prompt.id}/edit`);
+  }
+
+  const supabaseAdmin = await createSupabaseAdminClient();
+  const { data: appeals } = await supabaseAdmin
+    .from("prompt_appeals")
+    .select(PROMPT_APPEAL_COLUMNS)
+    .eq("prompt_id", String(prompt.id))
+    .order("created_at", { ascending: false })
+    .limit(5);
+  const history = (appeals ?? []) as PromptAppeal[];
+  const pending = history.find((appeal) => appeal.status === "pending") ?? null;
+
+  async function submitAppeal(formData: FormData) {
+    "use server";
+
+    const userInner = await getCurrentUser();
+    if (!userInner) {
+      redirect("/auth/login");
+    }
+    if (await getUserSuspension(await createSupabaseServerClient(), userInner.id)) {
+      redirect(SUSPENDED_PAGE);
+    }
+
+    const promptId = Number((formData.get("prompt_id") ?? "").toString());
+    if (!Number.isInteger(promptId)) {
+      notFound();
+    }
+
+    const parsed = promptAppealSchema.safeParse({ message: (formData.get("message") ?? "").toString() });
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues[0]?.message ?? "Invalid appeal.");
+    }
+
+    const supabaseAdmin = await createSupabaseAdminClient();
+    try {
+      await enforceRateLimit({
+        request: new Request("https://promptswap.rate-limit"),
+        supabase: supabaseAdmin,
+        scope: "prompt:appeal",
+        limit: 3,
+        windowSeconds: 60 * 60,
+        userId: userInner.id,
+      });
+    } catch (err: any) {
+      if (err instanceof RateLimitExceeded) {
+        throw new Error("You're appealing too often; please wait before trying again.");
+      }
+      throw err;
+    }
+
+    try {
+      await filePromptAppeal(supabaseAdmin, {
+        promptId: String(promptId),
+        userId: userInner.id,
+        message: parsed.data.message,
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw new Error(err.message);
+      }
+      throw err;
+    }
+
+    revalidatePath("/creator/prompts");
+    revalidatePath(`/creator/prompts/${promptId}/appeal`);
+    redirect(`/creator/prompts/${promptId}/appeal`);
+  }
+
+  const statusClasses: Record<PromptAppeal["status"], string> = {
+    pending: "bg-amber-100 text-amber-800",
+    granted: "bg-emerald-100 text-emerald-800",
+    denied: "bg-red-100 text-red-800",
+  };
+
+  return (
+    <main className="mx-auto flex w-full max-w-2xl flex-col gap-6 px-4 py-8">
+      <Card>
+        <CardHeader>
+          <CardTitle>Appeal removal</CardTitle>
+          <CardDescription>
+            &ldquo;{prompt.title}&rdquo; was taken down after it was reported. If you think this was a
+            mistake, tell the moderators why it should be listed again.
+          </CardDescription>
+          {prompt.moderationNote && (
+            <p className="mt-3 text-xs text-muted-foreground">Moderator note: {prompt.moderationNote}</p>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {pending ? (
+            <p className="text-sm text-muted-foreground">
+              Your appeal from {new Date(pending.created_at).toLocaleDateString()} is waiting for a decision.
+              We will notify you when a moderator has reviewed it.
+            </p>
+          ) : (
+            <form action={submitAppeal} className="space-y-4">
+              <input type="hidden" name="prompt_id" value={prompt.id} />
+              <div className="space-y-2">
+                <Label htmlFor="message">Why should this prompt be reinstated?</Label>
+                <Textarea
+                  id="message"
+                  name="message"
+                  rows={6}
+                  minLength={10}
+                  maxLength={2000}
+                  required
+                  placeholder="e.g. This is my original work; the reported text was written by me in 2024..."
+                />
+              </div>
+              <Button type="submit">Submit appeal</Button>
+            </form>
+          )}
+
+          {history.some((appeal) => appeal.status !== "pending") && (
+            <div className="space-y-3">
+              <h2 className="text-sm font-semibold">Previous appeals</h2>
+              <ul className="space-y-3">
+                {history
+                  .filter((appeal) => appeal.status !== "pending")
+                  .map((appeal) => (
+                    <li key={appeal.id} className="rounded-lg border p-3 text-sm">
+                      <div className="flex items-center justify-between">
+                        <Badge className={`rounded-full px-3 py-1 text-xs font-semibold ${statusClasses[appeal.status]}`}>
+                          {appeal.status.charAt(0).toUpperCase() + appeal.status.slice(1)}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(appeal.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                      <p className="mt-2 whitespace-pre-wrap">{appeal.message}</p>
+                      {appeal.decision_note && (
+                        <p className="mt-1 text-xs text-muted-foreground">Moderator note: {appeal.decision_note}</p>
+                      )}
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -2,9 +2,16 @@
 import { redirect, notFound } from "next/navigation";
 import { revalidatePath } from "next/cache";
 
-import { getCurrentUser, createSupabaseAdminClient } from "@/lib/supabase-server";
+import { getCurrentUser, createSupabaseAdminClient, createSupabaseServerClient } from "@/lib/supabase-server";
+import { getUserSuspension } from "@/lib/moderation/suspensions";
+import { SUSPENDED_PAGE } from "@/lib/moderation/suspension-status";
 import { enforceRateLimit, RateLimitExceeded } from "@/lib/rate-limit";
 import { prisma } from "@/lib/prisma";
+import { AppError } from "@/lib/errors";
+import { createPromptVersion, findPendingVersion } from "@/lib/prompt-versions";
+import { refreshPromptEmbedding } from "@/lib/prompt-search";
+import { scanSubmittedPrompt } from "@/lib/moderation/scanner";
+import { assertPromptOriginal, refreshPromptFingerprint } from "@/lib/moderation/plagiarism";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -54,7 +61,12 @@ export default async function EditPromptPage({ params }: EditPageProps) {
     redirect(`/prompts/${prompt.id}`);
   }
 
-  const editableStatuses = new Set(["draft", "submitted", "rejected"]);
+  // Approved prompts stay on sale while edited; new text waits in the moderation queue and reaches
+  // buyers only once it is approved
+  const editableStatuses = new Set(["draft", "submitted", "rejected", "approved"]);
+  if (prompt.status === "removed") {
+    redirect(`/creator/prompts/${prompt.id}/appeal`);
+  }
   if (!editableStatuses.has(prompt.status)) {
     redirect(`/creator/prompts/${prompt.id}`);
   }
@@ -66,6 +78,9 @@ export default async function EditPromptPage({ params }: EditPageProps) {
     if (!userInner) {
       redirect("/auth/login");
     }
+    if (await getUserSuspension(await createSupabaseServerClient(), userInner.id)) {
+      redirect(SUSPENDED_PAGE);
+    }
 
     const supabaseAdmin = await createSupabaseAdminClient();
     try {
@@ -103,6 +118,7 @@ export default async function EditPromptPage({ params }: EditPageProps) {
     const title = (formData.get("title") ?? "").toString().trim();
     const description = (formData.get("description") ?? "").toString().trim();
     const promptText = (formData.get("prompt_text") ?? "").toString();
+    const versionNotes = (formData.get("version_notes") ?? "").toString().trim();
     const tagsRaw = (formData.get("tags") ?? "").toString();
     const priceRaw = (formData.get("price") ?? "").toString();
     const previewImage = (formData.get("preview_image") ?? "").toString().trim();
@@ -123,21 +139,34 @@ export default async function EditPromptPage({ params }: EditPageProps) {
     const isPublic = isPublicRaw === "on";
     const isFeatured = isFeaturedRaw === "on";
     const intent = (formData.get("intent") ?? "").toString();
+    // An approved prompt's newest text may be an edit still waiting for review
+    const pending = await findPendingVersion(supabaseAdmin, String(promptId));
+    const textChanged = promptText !== (pending?.content ?? existing.promptText ?? "");
+    const editsListing = textChanged && existing.status === "approved";
     const nextStatus =
-      intent === "draft"
-        ? "draft"
-        : intent === "submitted"
-        ? "submitted"
-        : existing.status;
-    const moderationNote =
-      intent === "submitted" ? null : existing.moderationNote;
+      intent === "draft" ? "draft" : intent === "submitted" ? "submitted" : existing.status;
+    const moderationNote = intent === "submitted" ? null : existing.moderationNote;
+    // Catches text pasted from a purchased or swapped prompt before anything is saved
+    if (textChanged || intent === "submitted") {
+      try {
+        await assertPromptOriginal(supabaseAdmin, {
+          promptId: String(promptId),
+          userId: userInner.id,
+          promptText,
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw new Error(err.message);
+        }
+        throw err;
+      }
+    }
 
     await prisma.prompt.update({
       where: { id: promptId },
       data: {
         title,
         description: description || null,
-        promptText,
         tags,
         price,
         previewImage: previewImage || null,
@@ -148,6 +177,43 @@ export default async function EditPromptPage({ params }: EditPageProps) {
       },
     });
 
+    // Changing the title, description or tags cleared the search embedding
+    if (
+      title !== existing.title ||
+      (description || null) !== existing.description ||
+      tags.join(",") !== (existing.tags ?? []).join(",")
+    ) {
+      await refreshPromptEmbedding(supabaseAdmin, {
+        id: String(promptId),
+        title,
+        description: description || null,
+        tags,
+      });
+    }
+
+    // The text is written with its version so the two never disagree
+    if (textChanged) {
+      try {
+        await createPromptVersion(supabaseAdmin, {
+          promptId: String(promptId),
+          userId: userInner.id,
+          content: promptText,
+          notes: versionNotes || null,
+        });
+      } catch (err) {
+        if (err instanceof AppError) {
+          throw new Error(err.message);
+        }
+        throw err;
+      }
+      await refreshPromptFingerprint(supabaseAdmin, { id: String(promptId), prompt_text: promptText });
+    }
+
+    // Submissions and edits to approved prompts are scanned before a moderator sees them
+    if (nextStatus === "submitted" || editsListing) {
+      await scanSubmittedPrompt(supabaseAdmin, String(promptId));
+    }
+
     revalidatePath("/creator/prompts");
     revalidatePath("/prompts");
     revalidatePath(`/prompts/${promptId}`);
@@ -161,6 +227,9 @@ export default async function EditPromptPage({ params }: EditPageProps) {
     if (!userInner) {
       redirect("/auth/login");
     }
+    if (await getUserSuspension(await createSupabaseServerClient(), userInner.id)) {
+      redirect(SUSPENDED_PAGE);
+    }
 
     const promptId = Number((formData.get("prompt_id") ?? "").toString());
     if (!Number.isInteger(promptId)) {
@@ -169,7 +238,7 @@ export default async function EditPromptPage({ params }: EditPageProps) {
 
     const existing = await prisma.prompt.findUnique({
       where: { id: promptId },
-      select: { id: true, userId: true, status: true },
+      select: { id: true, userId: true, status: true, promptText: true },
     });
 
     if (!existing || existing.userId !== userInner.id || existing.status !== "rejected") {
@@ -193,6 +262,19 @@ export default async function EditPromptPage({ params }: EditPageProps) {
       throw err;
     }
 
+    try {
+      await assertPromptOriginal(supabaseAdmin, {
+        promptId: String(promptId),
+        userId: userInner.id,
+        promptText: existing.promptText ?? "",
+      });
+    } catch (err) {
+      if (err instanceof AppError) {
+        throw new Error(err.message);
+      }
+      throw err;
+    }
+
     await prisma.prompt.update({
       where: { id: promptId },
       data: {
@@ -201,12 +283,20 @@ export default async function EditPromptPage({ params }: EditPageProps) {
       },
     });
 
+    await scanSubmittedPrompt(supabaseAdmin, String(promptId));
+
     revalidatePath("/creator/prompts");
     revalidatePath("/prompts");
     revalidatePath(`/prompts/${promptId}`);
     redirect("/creator/prompts");
   }
 
+  // The form starts from an edit still waiting for review, so saving again does not drop it
+  const pendingVersion =
+    prompt.status === "approved"
+      ? await findPendingVersion(await createSupabaseServerClient(), String(prompt.id))
+      : null;
+
   const tagsDisplay =
     Array.isArray(prompt.tags) && prompt.tags.length > 0
       ? prompt.tags.join(", ")
@@ -228,6 +318,10 @@ export default async function EditPromptPage({ params }: EditPageProps) {
           <CardTitle>Edit prompt</CardTitle>
           <CardDescription>
             Update the details of your prompt. Changes will be reflected in the marketplace.
+            {prompt.status === "approved" &&
+              (pendingVersion
+                ? ` Version ${pendingVersion.version_number} of the prompt text is waiting for review; buyers keep the current version until it is approved.`
+                : " Changing the prompt text sends it for review; buyers keep the current version until it is approved.")}
           </CardDescription>
           <div className="mt-3 flex items-center gap-3 text-sm">
             <Badge className={`rounded-full px-3 py-1 text-xs font-semibold ${statusClass}`}>
@@ -268,12 +362,26 @@ export default async function EditPromptPage({ params }: EditPageProps) {
               <Textarea
                 id="prompt_text"
                 name="prompt_text"
-                defaultValue={prompt.promptText ?? ""}
+                defaultValue={pendingVersion?.content ?? prompt.promptText ?? ""}
                 placeholder="The full prompt that buyers will unlock..."
                 rows={8}
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="version_notes">What changed? (optional)</Label>
+              <Input
+                id="version_notes"
+                name="version_notes"
+                maxLength={500}
+                placeholder="e.g. Tightened the tone instructions"
+              />
+              <p className="text-xs text-muted-foreground">
+                Editing the prompt text saves a new version. This note is shown in the changelog
+                {prompt.status === "approved" ? " and sent to buyers once the new text is approved." : "."}
+              </p>
+            </div>
+
             <div className="grid gap-4 md:grid-cols-2">
               <div className="space-y-2">
                 <Label htmlFor="price">Price (USD)</Label>
@@ -336,12 +444,20 @@ export default async function EditPromptPage({ params }: EditPageProps) {
             </div>
 
             <div className="flex justify-end gap-2 pt-2">
-              <Button type="submit" name="intent" value="draft">
-                Save as draft
-              </Button>
-              <Button type="submit" name="intent" value="submitted">
-                Submit for review
-              </Button>
+              {prompt.status === "approved" ? (
+                <Button type="submit" name="intent" value="publish">
+                  Save changes
+                </Button>
+              ) : (
+                <>
+                  <Button type="submit" name="intent" value="draft">
+                    Save as draft
+                  </Button>
+                  <Button type="submit" name="intent" value="submitted">
+                    Submit for review
+                  </Button>
+                </>
+              )}
             </div>
           </form>
         </CardContent>
@@ -3,7 +3,9 @@ import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
 
-import { getCurrentUser } from "@/lib/supabase-server";
+import { createSupabaseServerClient, getCurrentUser } from "@/lib/supabase-server";
+import { getUserSuspension } from "@/lib/moderation/suspensions";
+import { SUSPENDED_PAGE } from "@/lib/moderation/suspension-status";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -23,6 +25,9 @@ export default async function NewPromptPage() {
     if (!userInner) {
       redirect("/auth/login");
     }
+    if (await getUserSuspension(await createSupabaseServerClient(), userInner.id)) {
+      redirect(SUSPENDED_PAGE);
+    }
 
     const title = (formData.get("title") ?? "").toString().trim();
     const description = (formData.get("description") ?? "").toString().trim();
@@ -75,6 +75,7 @@ export default async function CreatorPromptsPage() {
     approved: { label: 'Approved', className: 'bg-emerald-100 text-emerald-800' },
     rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
     archived: { label: 'Archived', className: 'bg-slate-900 text-white' },
+    removed: { label: 'Removed', className: 'bg-red-900 text-white' },
   };
 
   return (
@@ -205,12 +206,21 @@ export default async function CreatorPromptsPage() {
                         <Link href={`/prompt/${prompt.id}`} className="text-sm font-semibold underline">
                           View
                         </Link>
-                        <Link
-                          href={`/creator/prompts/${prompt.id}/edit`}
-                          className="text-sm font-semibold underline"
-                        >
-                          Edit
-                        </Link>
+                        {prompt.status === 'removed' ? (
+                          <Link
+                            href={`/creator/prompts/${prompt.id}/appeal`}
+                            className="text-sm font-semibold underline"
+                          >
+                            Appeal
+                          </Link>
+                        ) : (
+                          <Link
+                            href={`/creator/prompts/${prompt.id}/edit`}
+                            className="text-sm font-semibold underline"
+                          >
+                            Edit
+                          </Link>
+                        )}
                       </td>
                     </tr>
                   );
@@ -0,0 +1,258 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+import { supabase } from '@/lib/supabase/client';
+
+type CouponRow = {
+  id: string;
+  code: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  prompt_id: string | null;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  active: boolean;
+};
+
+type PromptOption = {
+  id: string;
+  title: string | null;
+};
+
+function describeDiscount(coupon: CouponRow) {
+  return coupon.discount_type === 'percent'
+    ? `${coupon.discount_value}% off`
+    : `$${(coupon.discount_value / 100).toFixed(2)} off`;
+}
+
+export default function DashboardCouponsPage() {
+  const router = useRouter();
+  const [coupons, setCoupons] = useState<CouponRow[]>([]);
+  const [prompts, setPrompts] = useState<PromptOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    code: '',
+    discountType: 'percent' as CouponRow['discount_type'],
+    discountValue: '',
+    promptId: '',
+    expiresAt: '',
+    maxRedemptions: '',
+  });
+
+  const loadCoupons = async () => {
+    const res = await fetch('/api/coupons');
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to load coupons');
+      return;
+    }
+    setCoupons(payload?.data?.coupons ?? []);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      const userId = sessionData.session?.user?.id;
+
+      if (sessionError || !userId) {
+        router.replace('/auth/login');
+        return;
+      }
+
+      const { data: promptRows } = await supabase
+        .from('prompts')
+        .select('id, title')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+      setPrompts((promptRows as PromptOption[]) ?? []);
+
+      await loadCoupons();
+      setLoading(false);
+    };
+
+    void load();
+  }, [router]);
+
+  const createCoupon = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const discountValue = Number(form.discountValue);
+    const res = await fetch('/api/coupons', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        code: form.code,
+        discount_type: form.discountType,
+        // Fixed discounts are entered in dollars and stored in cents
+        discount_value: form.discountType === 'fixed' ? Math.round(discountValue * 100) : discountValue,
+        prompt_id: form.promptId || null,
+        expires_at: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+        max_redemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+      }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    setSaving(false);
+
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to create coupon');
+      return;
+    }
+
+    setForm({ ...form, code: '', discountValue: '', expiresAt: '', maxRedemptions: '' });
+    await loadCoupons();
+  };
+
+  const toggleActive = async (coupon: CouponRow) => {
+    setError(null);
+    const res = await fetch(`/api/coupons/${coupon.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ active: !coupon.active }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to update coupon');
+      return;
+    }
+    setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? payload.data.coupon : c)));
+  };
+
+  const promptTitle = (promptId: string | null) =>
+    promptId ? prompts.find((p) => p.id === promptId)?.title ?? 'Prompt' : 'All your prompts';
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 px-4 py-10">
+      <header>
+        <p className="text-xs uppercase tracking-wide text-slate-500">Creator</p>
+        <h1 className="text-2xl font-semibold text-slate-900">Coupons</h1>
+        <p className="text-sm text-slate-600">Offer discounts on one prompt or across your whole catalog.</p>
+      </header>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <form onSubmit={createCoupon} className="grid gap-3 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm sm:grid-cols-2">
+        <label className="text-sm text-slate-700">
+          Code
+          <input
+            required
+            value={form.code}
+            onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 uppercase"
+            placeholder="SPRING25"
+          />
+        </label>
+        <label className="text-sm text-slate-700">
+          Applies to
+          <select
+            value={form.promptId}
+            onChange={(e) => setForm({ ...form, promptId: e.target.value })}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+          >
+            <option value="">All your prompts</option>
+            {prompts.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.title ?? p.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-slate-700">
+          Discount
+          <div className="mt-1 flex gap-2">
+            <select
+              value={form.discountType}
+              onChange={(e) => setForm({ ...form, discountType: e.target.value as CouponRow['discount_type'] })}
+              className="rounded-lg border border-slate-200 px-3 py-2"
+            >
+              <option value="percent">%</option>
+              <option value="fixed">$</option>
+            </select>
+            <input
+              required
+              type="number"
+              min="0"
+              step={form.discountType === 'percent' ? '1' : '0.01'}
+              value={form.discountValue}
+              onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+              className="w-full rounded-lg border border-slate-200 px-3 py-2"
+            />
+          </div>
+        </label>
+        <label className="text-sm text-slate-700">
+          Max redemptions
+          <input
+            type="number"
+            min="1"
+            value={form.maxRedemptions}
+            onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+            placeholder="Unlimited"
+          />
+        </label>
+        <label className="text-sm text-slate-700">
+          Expires
+          <input
+            type="datetime-local"
+            value={form.expiresAt}
+            onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {saving ? 'Creating...' : 'Create coupon'}
+          </button>
+        </div>
+      </form>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Your coupons</h2>
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-600">Loading...</p>
+        ) : coupons.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No coupons yet.</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-slate-100">
+            {coupons.map((coupon) => (
+              <li key={coupon.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                <div>
+                  <p className="font-semibold text-slate-900">
+                    {coupon.code} · {describeDiscount(coupon)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {promptTitle(coupon.prompt_id)} · Redeemed {coupon.redemption_count}
+                    {coupon.max_redemptions ? ` / ${coupon.max_redemptions}` : ''}
+                    {coupon.expires_at ? ` · Expires ${new Date(coupon.expires_at).toLocaleString()}` : ''}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void toggleActive(coupon)}
+                  className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:border-slate-300"
+                >
+                  {coupon.active ? 'Deactivate' : 'Activate'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,17 +1,45 @@
 import { redirect } from 'next/navigation';
 
 import { getUser } from '@/lib/auth';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { LedgerEntryRow, loadCreatorLedger, summarizeCreatorLedger } from '@/lib/ledger';
+import { getScheduledPayoutConfig } from '@/lib/cron/payouts';
+import { getPayableBalance } from '@/lib/payouts';
+import PayoutScheduleForm from '@/components/PayoutScheduleForm';
 
 // TODO: Replace with real Stripe dashboard link for your account.
 const STRIPE_DASHBOARD_URL = 'https://dashboard.stripe.com/';
 
+const ACTIVITY_LABELS: Record<string, string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  transfer: 'Paid to Stripe account',
+  transfer_reversal: 'Transfer reversed',
+  payout: 'Payout',
+};
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
 async function getEarnings(userId: string) {
-  // Placeholder: replace with real data source (Prisma/Supabase) aggregating orders.
-  // Returning zeros to avoid throwing until the data source is wired up.
-  return {
-    total: 0,
-    pending: 0,
-  };
+  const supabase = await createSupabaseServerClient();
+  const entries = await loadCreatorLedger(supabase, userId);
+
+  // One row per transaction: the creator's side of it is the creator_payable line
+  const activity = entries
+    .filter((entry) => entry.account === 'creator_payable')
+    .slice(0, 20)
+    .map((entry: LedgerEntryRow) => ({
+      id: entry.id ?? entry.transaction_id,
+      kind: entry.kind,
+      amountCents: entry.direction === 'credit' ? entry.amount_cents : -entry.amount_cents,
+      createdAt: entry.created_at ?? null,
+    }));
+
+  const balance = await getPayableBalance(supabase, userId, getScheduledPayoutConfig().holdbackDays);
+
+  return { summary: summarizeCreatorLedger(entries), balance, activity };
 }
 
 export default async function EarningsPage() {
@@ -20,7 +48,7 @@ export default async function EarningsPage() {
     redirect('/sign-in');
   }
 
-  const earnings = await getEarnings(user.id);
+  const { summary, balance, activity } = await getEarnings(user.id);
 
   return (
     <div className="mx-auto max-w-4xl px-4 py-10">
@@ -34,18 +62,54 @@ export default async function EarningsPage() {
       <div className="grid gap-4 sm:grid-cols-2">
         <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
           <p className="text-xs uppercase text-slate-500">Total Earnings</p>
-          <p className="mt-2 text-3xl font-semibold text-slate-900">
-            ${Number(earnings.total ?? 0).toFixed(2)}
+          <p className="mt-2 text-3xl font-semibold text-slate-900">{formatCents(summary.netEarningsCents)}</p>
+          <p className="mt-1 text-xs text-slate-500">
+            {formatCents(summary.grossSalesCents)} in sales, less {formatCents(summary.platformFeesCents)} platform fees
+            and {formatCents(summary.refundedCents)} refunded
           </p>
         </div>
         <div className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
           <p className="text-xs uppercase text-slate-500">Pending Balance</p>
           <p className="mt-2 text-3xl font-semibold text-slate-900">
-            ${Number(earnings.pending ?? 0).toFixed(2)}
+            {formatCents(Math.max(0, summary.availableCents))}
+          </p>
+          <p className="mt-1 text-xs text-slate-500">
+            {formatCents(balance.payableCents)} available to pay out
+            {balance.holdbackCents > 0 ? `, ${formatCents(balance.holdbackCents)} held until the refund window closes` : ''}
+            . {formatCents(summary.paidOutCents)} paid out so far
           </p>
         </div>
       </div>
 
+      <div className="mt-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <p className="text-sm font-semibold text-slate-900">Recent activity</p>
+        {activity.length === 0 ? (
+          <p className="mt-3 text-sm text-slate-600">No sales yet.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-slate-100">
+            {activity.map((item) => (
+              <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="text-slate-900">{ACTIVITY_LABELS[item.kind] ?? item.kind}</p>
+                  {item.createdAt && (
+                    <p className="text-xs text-slate-500">{new Date(item.createdAt).toLocaleString()}</p>
+                  )}
+                </div>
+                <span className={item.amountCents >= 0 ? 'text-green-700' : 'text-slate-700'}>
+                  {item.amountCents >= 0 ? '+' : '-'}
+                  {formatCents(Math.abs(item.amountCents))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <p className="mb-3 text-sm font-semibold text-slate-900">Automatic payouts</p>
+        <PayoutScheduleForm />
+      </div>
+
       <div className="mt-6 rounded-2xl border border-indigo-100 bg-indigo-50 p-5 shadow-sm">
         <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
           <div>
@@ -58,7 +58,7 @@ export default async function DashboardPage() {
             View all
           </Link>
         </div>
-        <div className="grid gap-4 sm:grid-cols-3">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <Link
             href="/purchases"
             className="rounded-xl border bg-card p-5 text-sm shadow-sm transition hover:border-foreground/40"
@@ -75,6 +75,22 @@ export default async function DashboardPage() {
             <p className="mt-3 text-base font-semibold text-foreground">My prompts</p>
             <p className="mt-2 text-xs text-muted-foreground">Manage what you&apos;re selling</p>
           </Link>
+          <Link
+            href="/dashboard/coupons"
+            className="rounded-xl border bg-card p-5 text-sm shadow-sm transition hover:border-foreground/40"
+          >
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Listings</p>
+            <p className="mt-3 text-base font-semibold text-foreground">Coupons</p>
+            <p className="mt-2 text-xs text-muted-foreground">Offer discount codes</p>
+          </Link>
+          <Link
+            href="/dashboard/subscriptions"
+            className="rounded-xl border bg-card p-5 text-sm shadow-sm transition hover:border-foreground/40"
+          >
+            <p className="text-xs uppercase tracking-wide text-muted-foreground">Billing</p>
+            <p className="mt-3 text-base font-semibold text-foreground">Subscriptions</p>
+            <p className="mt-2 text-xs text-muted-foreground">Monthly catalog access</p>
+          </Link>
           <Link
             href="/chat"
             className="rounded-xl border bg-card p-5 text-sm shadow-sm transition hover:border-foreground/40"
@@ -4,6 +4,7 @@ import { useMemo, useState, type FormEvent } from 'react';
 import { useRouter } from 'next/navigation';
 
 import { supabase } from '@/lib/supabase-client';
+import { parsePromptVariables } from '@/lib/prompt-variables';
 
 type FormState = {
   title: string;
@@ -70,6 +71,13 @@ export default function NewPromptPage() {
       return;
     }
 
+    const template = parsePromptVariables(promptText);
+    if (template.errors.length > 0) {
+      setError(template.errors.join(' '));
+      setLoading(false);
+      return;
+    }
+
     const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
     if (sessionError || !sessionData.session?.user) {
       setError('You must be logged in to create a prompt.');
@@ -81,6 +89,7 @@ export default function NewPromptPage() {
       title: title.trim(),
       description: description.trim(),
       prompt_text: promptText.trim(),
+      variable_schema: template.variables,
       price: numericPrice,
       category: category || null,
       tags: tags.length ? tags : null,
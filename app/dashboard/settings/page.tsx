@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 
 
 import { supabase } from '@/lib/supabase/client';
+import ApiKeyVault from '@/components/ApiKeyVault';
+import SavedSearches from '@/components/SavedSearches';
 
 export default function DashboardSettingsPage() {
   const router = useRouter();
@@ -123,6 +125,18 @@ export default function DashboardSettingsPage() {
           </form>
         )}
       </div>
+
+      {!loading && (
+        <div className="mt-6">
+          <ApiKeyVault />
+        </div>
+      )}
+
+      {!loading && (
+        <div className="mt-6">
+          <SavedSearches />
+        </div>
+      )}
     </div>
   );
 }
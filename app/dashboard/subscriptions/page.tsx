@@ -0,0 +1,192 @@
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+import { supabase } from '@/lib/supabase/client';
+
+type PlanRow = {
+  price_cents: number;
+  active: boolean;
+};
+
+type SubscriptionRow = {
+  id: string;
+  creator_id: string;
+  status: string | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  hasAccess: boolean;
+};
+
+export default function DashboardSubscriptionsPage() {
+  const router = useRouter();
+  const [plan, setPlan] = useState<PlanRow | null>(null);
+  const [activeSubscribers, setActiveSubscribers] = useState(0);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([]);
+  const [price, setPrice] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAll = async () => {
+    const [planRes, subsRes] = await Promise.all([fetch('/api/subscriptions/plan'), fetch('/api/subscriptions')]);
+    const planPayload = await planRes.json().catch(() => ({}));
+    const subsPayload = await subsRes.json().catch(() => ({}));
+
+    if (!planRes.ok || !subsRes.ok) {
+      setError(planPayload?.error?.message || subsPayload?.error?.message || 'Failed to load subscriptions');
+      return;
+    }
+
+    const loadedPlan = planPayload?.data?.plan ?? null;
+    setPlan(loadedPlan);
+    setActiveSubscribers(planPayload?.data?.activeSubscribers ?? 0);
+    setSubscriptions(subsPayload?.data?.subscriptions ?? []);
+    if (loadedPlan) setPrice((loadedPlan.price_cents / 100).toFixed(2));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const { data: sessionData, error: sessionError } = await supabase.auth.getSession();
+      if (sessionError || !sessionData.session?.user?.id) {
+        router.replace('/auth/login');
+        return;
+      }
+      await loadAll();
+      setLoading(false);
+    };
+
+    void load();
+  }, [router]);
+
+  const savePlan = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const res = await fetch('/api/subscriptions/plan', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ price_cents: Math.round(Number(price) * 100) }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    setSaving(false);
+
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to save plan');
+      return;
+    }
+    setPlan(payload?.data?.plan ?? null);
+  };
+
+  const deactivatePlan = async () => {
+    setError(null);
+    const res = await fetch('/api/subscriptions/plan', { method: 'DELETE' });
+    if (!res.ok) {
+      const payload = await res.json().catch(() => ({}));
+      setError(payload?.error?.message || 'Failed to deactivate plan');
+      return;
+    }
+    setPlan((prev) => (prev ? { ...prev, active: false } : prev));
+  };
+
+  const cancelSubscription = async (id: string) => {
+    setError(null);
+    const res = await fetch(`/api/subscriptions/${id}/cancel`, { method: 'POST' });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to cancel subscription');
+      return;
+    }
+    setSubscriptions((prev) => prev.map((s) => (s.id === id ? { ...s, cancel_at_period_end: true } : s)));
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 px-4 py-10">
+      <header>
+        <p className="text-xs uppercase tracking-wide text-slate-500">Billing</p>
+        <h1 className="text-2xl font-semibold text-slate-900">Subscriptions</h1>
+      </header>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Your plan</h2>
+        <p className="mt-1 text-sm text-slate-600">
+          Subscribers can download every approved prompt you publish for a monthly price.
+          {plan?.active ? ` ${activeSubscribers} active subscriber${activeSubscribers === 1 ? '' : 's'}.` : ''}
+        </p>
+        <form onSubmit={savePlan} className="mt-4 flex flex-wrap items-end gap-3">
+          <label className="text-sm text-slate-700">
+            Monthly price (USD)
+            <input
+              required
+              type="number"
+              min="1"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              className="mt-1 block w-40 rounded-lg border border-slate-200 px-3 py-2"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 disabled:opacity-60"
+          >
+            {saving ? 'Saving...' : plan?.active ? 'Update price' : 'Offer subscription'}
+          </button>
+          {plan?.active && (
+            <button
+              type="button"
+              onClick={() => void deactivatePlan()}
+              className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300"
+            >
+              Stop new subscriptions
+            </button>
+          )}
+        </form>
+      </section>
+
+      <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-lg font-semibold text-slate-900">Creators you subscribe to</h2>
+        {loading ? (
+          <p className="mt-4 text-sm text-slate-600">Loading...</p>
+        ) : subscriptions.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-600">No subscriptions yet.</p>
+        ) : (
+          <ul className="mt-4 divide-y divide-slate-100">
+            {subscriptions.map((subscription) => (
+              <li key={subscription.id} className="flex items-center justify-between gap-4 py-3 text-sm">
+                <div>
+                  <a className="font-semibold text-indigo-600 hover:text-indigo-700" href={`/creator/${subscription.creator_id}`}>
+                    View creator
+                  </a>
+                  <p className="text-xs text-slate-500">
+                    {subscription.hasAccess ? 'Active' : subscription.status ?? 'Inactive'}
+                    {subscription.current_period_end
+                      ? ` · ${subscription.cancel_at_period_end ? 'Ends' : 'Renews'} ${new Date(subscription.current_period_end).toLocaleDateString()}`
+                      : ''}
+                  </p>
+                </div>
+                {subscription.hasAccess && !subscription.cancel_at_period_end && (
+                  <button
+                    type="button"
+                    onClick={() => void cancelSubscription(subscription.id)}
+                    className="rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-semibold text-slate-700 hover:border-slate-300"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 
 
 import { supabase } from '@/lib/supabase/client';
+import { parsePromptVariables } from '@/lib/prompt-variables';
 
 type FormState = {
   title: string;
@@ -56,6 +57,13 @@ export default function UploadPromptPage() {
       return;
     }
 
+    const template = parsePromptVariables(promptText);
+    if (template.errors.length > 0) {
+      setError(template.errors.join(' '));
+      setLoading(false);
+      return;
+    }
+
     const tagsArray = tags
       .split(',')
       .map((t) => t.trim())
@@ -72,6 +80,7 @@ export default function UploadPromptPage() {
       title: title.trim(),
       description: description.trim(),
       prompt_text: promptText.trim(),
+      variable_schema: template.variables,
       tags: tagsArray.length ? tagsArray : null,
       price: numericPrice,
       category: category || null,
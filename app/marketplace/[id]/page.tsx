@@ -7,6 +7,9 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { prisma } from '@/lib/prisma';
+import { EvalBadge } from '@/components/EvalBadge';
+import { loadEvalSummary } from '@/lib/evals';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
 
 export const dynamic = 'force-dynamic';
 
@@ -69,6 +72,8 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
     },
   });
 
+  const evalSummary = await loadEvalSummary(await createSupabaseServerClient(), String(prompt.id)).catch(() => null);
+
   const numericPrice = prompt.price ? Number(prompt.price) : 0;
   const priceLabel = numericPrice > 0 ? `${Math.round(numericPrice)} credits` : 'Free';
   const creatorName = prompt.user?.email ?? 'Creator';
@@ -113,7 +118,10 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
               </div>
 
               <div className="flex flex-col items-end gap-3">
-                <Badge className="bg-indigo-600 text-white hover:bg-indigo-700">{priceLabel}</Badge>
+                <div className="flex items-center gap-2">
+                  <EvalBadge summary={evalSummary} />
+                  <Badge className="bg-indigo-600 text-white hover:bg-indigo-700">{priceLabel}</Badge>
+                </div>
                 <BuyButton
                   promptId={String(prompt.id)}
                   title={prompt.title}
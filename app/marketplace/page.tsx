@@ -1,10 +1,14 @@
 import Link from 'next/link';
 
+import MarketplaceFilters from '@/components/MarketplaceFilters';
 import { PromptCard } from '@/components/PromptCard';
+import SaveSearchButton from '@/components/SaveSearchButton';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { buildMetadata } from '@/lib/metadata';
+import { toEvalSummary } from '@/lib/evals';
+import { hasSearchFilters, parseSearchFilters, searchFiltersToParams } from '@/lib/search-filters';
 import {
   Select,
   SelectContent,
@@ -25,6 +29,9 @@ type MarketplaceProps = {
   searchParams?: Promise<{
     q?: string;
     tags?: string;
+    category?: string;
+    creator?: string;
+    minRating?: string;
     sort?: string;
     priceMin?: string;
     priceMax?: string;
@@ -41,11 +48,11 @@ async function fetchPrompts(params: URLSearchParams) {
 
   if (!res.ok) {
     console.error('Failed to load marketplace', res.status);
-    return { items: [], total: 0 };
+    return { items: [], total: 0, facets: null };
   }
 
   const payload = await res.json();
-  return payload?.data ?? { items: [], total: 0 };
+  return payload?.data ?? { items: [], total: 0, facets: null };
 }
 
 export default async function MarketplacePage({ searchParams }: MarketplaceProps) {
@@ -54,16 +61,20 @@ export default async function MarketplacePage({ searchParams }: MarketplaceProps
   const tagsRaw = resolvedParams?.tags?.toString().trim() ?? '';
   const priceMin = resolvedParams?.priceMin?.toString().trim() ?? '';
   const priceMax = resolvedParams?.priceMax?.toString().trim() ?? '';
-  const sort = resolvedParams?.sort?.toString().trim() ?? 'new';
-
-  const params = new URLSearchParams();
-  if (q) params.set('q', q);
-  if (tagsRaw) params.set('tags', tagsRaw);
-  if (priceMin) params.set('priceMin', priceMin);
-  if (priceMax) params.set('priceMax', priceMax);
+  // Searches rank by relevance unless the visitor picks another order
+  const defaultSort = q ? 'relevance' : 'new';
+  const sort = resolvedParams?.sort?.toString().trim() || defaultSort;
+
+  const filters = parseSearchFilters(
+    new URLSearchParams(
+      Object.entries(resolvedParams ?? {}).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    )
+  );
+  const params = searchFiltersToParams(filters);
   params.set('sort', sort);
 
-  const { items: prompts } = await fetchPrompts(params);
+  const { items: prompts, facets } = await fetchPrompts(params);
+  const filtered = hasSearchFilters(filters);
   const tagsList = tagsRaw
     .split(',')
     .map((t) => t.trim())
@@ -125,18 +136,26 @@ export default async function MarketplacePage({ searchParams }: MarketplaceProps
                   <SelectValue placeholder="Sort" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="relevance">Relevance</SelectItem>
                   <SelectItem value="new">Newest</SelectItem>
-                  <SelectItem value="top">Top</SelectItem>
+                  <SelectItem value="trending">Trending</SelectItem>
+                  <SelectItem value="rating">Top rated</SelectItem>
+                  <SelectItem value="top">Most liked</SelectItem>
                   <SelectItem value="price_asc">Price: Low to High</SelectItem>
                   <SelectItem value="price_desc">Price: High to Low</SelectItem>
                 </SelectContent>
               </Select>
 
+              {/* Facet filters set from the sidebar survive a new search */}
+              {filters.category && <input type="hidden" name="category" value={filters.category} />}
+              {filters.creator && <input type="hidden" name="creator" value={filters.creator} />}
+              {filters.minRating !== undefined && <input type="hidden" name="minRating" value={filters.minRating} />}
+
               <div className="flex items-center gap-2">
                 <Button type="submit" className="w-full">
                   Apply
                 </Button>
-                {(q || tagsRaw || priceMin || priceMax || sort !== 'new') && (
+                {(filtered || sort !== defaultSort) && (
                   <Button variant="ghost" asChild className="w-full">
                     <Link href="/marketplace">Clear</Link>
                   </Button>
@@ -157,27 +176,35 @@ export default async function MarketplacePage({ searchParams }: MarketplaceProps
         </Card>
       </div>
 
-      {prompts.length === 0 ? (
-        <div className="rounded-xl border border-slate-200 bg-white p-6 text-center shadow-sm dark:border-slate-800 dark:bg-slate-900">
-          <p className="text-sm text-slate-600 dark:text-slate-300">
-            {q || tagsRaw ? 'No prompts match your filters.' : 'No prompts found.'}
-          </p>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 md:grid-cols-3">
-          {prompts.map((prompt) => (
-            <PromptCard
-              key={prompt.id}
-              id={prompt.id}
-              title={prompt.title}
-              description={prompt.description ?? ''}
-              price={Number(prompt.price ?? 0)}
-              authorName={prompt.userId ?? 'Creator'}
-              previewImage={prompt.previewImage ?? undefined}
-            />
-          ))}
-        </div>
-      )}
+      <div className="mt-6 grid grid-cols-1 gap-6 md:grid-cols-[220px,1fr]">
+        <aside className="space-y-4">
+          <MarketplaceFilters facets={facets ?? null} filters={filters} sort={sort} defaultSort={defaultSort} />
+          {filtered && <SaveSearchButton filters={filters} />}
+        </aside>
+
+        {prompts.length === 0 ? (
+          <div className="h-fit rounded-xl border border-slate-200 bg-white p-6 text-center shadow-sm dark:border-slate-800 dark:bg-slate-900">
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              {filtered ? 'No prompts match your filters.' : 'No prompts found.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+            {prompts.map((prompt) => (
+              <PromptCard
+                key={prompt.id}
+                id={prompt.id}
+                title={prompt.title}
+                description={prompt.description ?? ''}
+                price={Number(prompt.price ?? 0)}
+                authorName={prompt.userId ?? 'Creator'}
+                previewImage={prompt.previewImage ?? undefined}
+                evalSummary={toEvalSummary(prompt)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
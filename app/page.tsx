@@ -1,8 +1,24 @@
 import Link from "next/link";
 
 import { prisma } from "@/lib/prisma";
+import { searchPromptsByScore, type ScoreSort } from "@/lib/prompt-scores";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
 import { getCurrentUser } from "@/lib/supabase-server";
 
+const FEATURED_LIMIT = 6;
+
+// Featured sections come from the scores the prompt-scores job stores; newest prompts stand in until it has run
+async function loadScoredPrompts(sort: ScoreSort) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const { items } = await searchPromptsByScore(supabase, { q: null, sort, offset: 0, limit: FEATURED_LIMIT });
+    return items.filter((item) => item.score !== null);
+  } catch (error) {
+    console.error(`[home] Failed to load ${sort} prompts`, error);
+    return [];
+  }
+}
+
 export const dynamic = "force-dynamic";
 
 export default async function HomePage() {
@@ -21,7 +37,7 @@ export default async function HomePage() {
     featuredPrompts = await prisma.prompt.findMany({
       where: { isPublic: true },
       orderBy: { createdAt: "desc" },
-      take: 12,
+      take: FEATURED_LIMIT,
       select: {
         id: true,
         title: true,
@@ -37,6 +53,11 @@ export default async function HomePage() {
     console.error("[home] Failed to load basic prompt data", error);
   }
 
+  const [trendingPrompts, topRatedPrompts] = await Promise.all([
+    loadScoredPrompts("trending"),
+    loadScoredPrompts("rating"),
+  ]);
+
   const primaryActionHref = currentUser ? "/dashboard" : "/auth/login";
   const primaryActionLabel = currentUser ? "Go to dashboard" : "Sign in to start";
 
@@ -107,77 +128,105 @@ export default async function HomePage() {
           </div>
         </section>
 
-        <section className="space-y-6">
-          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-            <div>
-              <h2 className="text-2xl font-semibold text-foreground">Featured prompts</h2>
-              <p className="text-sm text-muted-foreground">
-                Handpicked creations to accelerate your next launch.
-              </p>
-            </div>
-            <Link
-              href="/prompts"
-              className="text-sm font-semibold text-foreground transition hover:text-foreground/80"
-            >
-              Browse all prompts
-            </Link>
-          </div>
+        <FeaturedSection
+          title="Trending now"
+          description="Prompts buyers are picking up and opening this week."
+          href="/marketplace?sort=trending"
+          prompts={trendingPrompts.length > 0 ? trendingPrompts : featuredPrompts}
+        />
 
-          {featuredPrompts.length === 0 ? (
-            <div className="rounded-xl border border-dashed border-border/60 bg-muted/40 p-6 text-center text-sm text-muted-foreground">
-              <p>No featured prompts yet. Explore the marketplace to discover new favorites.</p>
-              <Link
-                href="/prompts"
-                className="mt-3 inline-flex items-center justify-center rounded-full border border-border/70 px-4 py-2 text-sm font-semibold text-foreground"
-              >
-                Browse marketplace
-              </Link>
-            </div>
-          ) : (
-            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-              {featuredPrompts.map((p) => {
-                const priceNumber = p.price ? Number(p.price) : 0;
-                const priceDisplay = priceNumber > 0 ? `$${priceNumber.toFixed(2)}` : "Free";
-                const description =
-                  p.description && p.description.length > 120
-                    ? `${p.description.slice(0, 120)}...`
-                    : p.description ?? "No description provided.";
-
-                return (
-                  <article
-                    key={p.id}
-                    className="flex h-full flex-col gap-4 rounded-2xl border border-border/70 bg-card p-5 shadow-sm transition hover:-translate-y-0.5 hover:shadow-lg"
-                  >
-                    <div className="space-y-2">
-                      <h3 className="text-lg font-semibold text-foreground line-clamp-2">{p.title}</h3>
-                      <p className="text-sm text-muted-foreground">{description}</p>
-                    </div>
-                    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
-                      {(p.tags ?? []).slice(0, 4).map((tag: string) => (
-                        <span
-                          key={tag}
-                          className="rounded-full border border-border/50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                    </div>
-                    <div className="mt-auto flex items-center justify-between text-sm text-muted-foreground">
-                      <span className="text-base font-semibold text-foreground">{priceDisplay}</span>
-                      <Link
-                        href={`/prompt/${p.id}`}
-                        className="text-sm font-semibold text-primary transition hover:underline"
-                      >
-                        View prompt
-                      </Link>
-                    </div>
-                  </article>
-                );
-              })}
-            </div>
-          )}
-        </section>
+        {topRatedPrompts.length > 0 && (
+          <FeaturedSection
+            title="Top rated"
+            description="The best reviewed prompts, weighted by how many buyers rated them."
+            href="/marketplace?sort=rating"
+            prompts={topRatedPrompts}
+          />
+        )}
       </div>
     </main>
   );
 }
+
+function FeaturedSection({
+  title,
+  description,
+  href,
+  prompts,
+}: {
+  title: string;
+  description: string;
+  href: string;
+  prompts: any[];
+}) {
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-2xl font-semibold text-foreground">{title}</h2>
+          <p className="text-sm text-muted-foreground">{description}</p>
+        </div>
+        <Link
+          href={href}
+          className="text-sm font-semibold text-foreground transition hover:text-foreground/80"
+        >
+          Browse all prompts
+        </Link>
+      </div>
+
+      {prompts.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-border/60 bg-muted/40 p-6 text-center text-sm text-muted-foreground">
+          <p>No featured prompts yet. Explore the marketplace to discover new favorites.</p>
+          <Link
+            href="/prompts"
+            className="mt-3 inline-flex items-center justify-center rounded-full border border-border/70 px-4 py-2 text-sm font-semibold text-foreground"
+          >
+            Browse marketplace
+          </Link>
+        </div>
+      ) : (
+        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+          {prompts.map((p) => {
+            const priceNumber = p.price ? Number(p.price) : 0;
+            const priceDisplay = priceNumber > 0 ? `$${priceNumber.toFixed(2)}` : "Free";
+            const description =
+              p.description && p.description.length > 120
+                ? `${p.description.slice(0, 120)}...`
+                : p.description ?? "No description provided.";
+
+            return (
+              <article
+                key={p.id}
+                className="flex h-full flex-col gap-4 rounded-2xl border border-border/70 bg-card p-5 shadow-sm transition hover:-translate-y-0.5 hover:shadow-lg"
+              >
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold text-foreground line-clamp-2">{p.title}</h3>
+                  <p className="text-sm text-muted-foreground">{description}</p>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                  {(p.tags ?? []).slice(0, 4).map((tag: string) => (
+                    <span
+                      key={tag}
+                      className="rounded-full border border-border/50 px-3 py-1 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+                <div className="mt-auto flex items-center justify-between text-sm text-muted-foreground">
+                  <span className="text-base font-semibold text-foreground">{priceDisplay}</span>
+                  <Link
+                    href={`/prompt/${p.id}`}
+                    className="text-sm font-semibold text-primary transition hover:underline"
+                  >
+                    View prompt
+                  </Link>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 
 
+import PromptTester from '@/components/PromptTester';
 import { supabase } from '@/lib/supabase/client';
 import { useUser } from '@/lib/useUser';
 
@@ -130,7 +131,7 @@ export function ActionPanel({ prompt, salesCount, averageRating, ratingCount }:
           {forking ? 'Forking...' : 'Fork'}
         </button>
 
-        <PromptTester prompt={prompt} open={testerOpen} onClose={() => setTesterOpen(false)} />
+        <TesterModal prompt={prompt} open={testerOpen} onClose={() => setTesterOpen(false)} />
       </div>
     </div>
   );
@@ -179,7 +180,7 @@ function RatingForm({ promptId, existingRatings, onNewRating }: RatingFormProps)
         throw new Error(payload?.error?.message || 'Failed to submit rating.');
       }
       onNewRating([
-        { user_id: user.id, rating, comment: comment.trim() || null, created_at: new Date().toISOString() },
+        { id: null, user_id: user.id, rating, comment: comment.trim() || null, created_at: new Date().toISOString() },
         ...existingRatings,
       ]);
       setComment('');
@@ -278,51 +279,22 @@ function RatingList({ ratings, averageRating }: { ratings: Rating[]; averageRati
 
 type TesterProps = { prompt: Prompt; open: boolean; onClose: () => void };
 
-function PromptTester({ prompt, open, onClose }: TesterProps) {
-  const [input, setInput] = useState('');
-  const [output, setOutput] = useState<string | null>(null);
-
-  const handleTest = () => {
-    // Mock test harness; replace with real model call.
-    setOutput(`Pretend output for input: "${input}"\n\nPrompt:\n${prompt.prompt_text}`);
-  };
-
+function TesterModal({ prompt, open, onClose }: TesterProps) {
   return (
     open && (
       <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
-        <div className="w-full max-w-3xl rounded-2xl bg-white p-6 shadow-2xl">
-          <div className="flex items-center justify-between">
-            <h4 className="text-lg font-semibold text-slate-900">Prompt Tester</h4>
+        <div className="max-h-full w-full max-w-3xl overflow-y-auto">
+          <div className="mb-2 flex justify-end">
             <button
               type="button"
               onClick={onClose}
-              className="rounded-full p-2 text-slate-500 hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              className="rounded-full bg-white p-2 text-slate-500 shadow hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
               aria-label="Close tester"
             >
               ✕
             </button>
           </div>
-          <div className="mt-4 space-y-4">
-            <textarea
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              rows={4}
-              className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-800 focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-              placeholder="Enter sample input..."
-            />
-            <button
-              type="button"
-              onClick={handleTest}
-              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
-            >
-              Test
-            </button>
-            {output && (
-              <pre className="whitespace-pre-wrap rounded-lg bg-slate-50 p-3 text-sm text-slate-800">
-                {output}
-              </pre>
-            )}
-          </div>
+          <PromptTester promptId={String(prompt.id)} promptText={prompt.prompt_text} />
         </div>
       </div>
     )
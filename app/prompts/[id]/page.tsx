@@ -8,7 +8,12 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { prisma } from '@/lib/prisma';
-import { getCurrentUser } from '@/lib/supabase-server';
+import { createSupabaseServerClient, getCurrentUser } from '@/lib/supabase-server';
+import { EvalBadge } from '@/components/EvalBadge';
+import EvalSuitePanel from '@/components/EvalSuitePanel';
+import PromptVersionHistory from '@/components/PromptVersionHistory';
+import ReportButton from '@/components/ReportButton';
+import { loadEvalSummary, type EvalSummary } from '@/lib/evals';
 import ClientSections, { ActionPanel } from './ClientSections';
 
 export type Prompt = {
@@ -27,6 +32,7 @@ export type Prompt = {
 };
 
 export type Rating = {
+  id: string | null;
   user_id: string | null;
   rating: number | null;
   comment: string | null;
@@ -37,8 +43,9 @@ export type PromptVersion = {
   id: string;
   prompt_id: string;
   user_id: string | null;
-  content: string | null;
+  version_number: number;
   notes: string | null;
+  published_at: string | null;
   created_at: string;
 };
 
@@ -255,9 +262,10 @@ async function getPrompt(id: number): Promise<Prompt | null> {
 
 async function getRatings(promptId: number): Promise<Rating[]> {
   const rows = await prisma.promptRating.findMany({
-    where: { promptId },
+    where: { promptId, hiddenAt: null },
     orderBy: { createdAt: 'desc' },
     select: {
+      id: true,
       userId: true,
       rating: true,
       comment: true,
@@ -266,6 +274,7 @@ async function getRatings(promptId: number): Promise<Rating[]> {
   });
 
   return rows.map((row) => ({
+    id: row.id,
     user_id: row.userId,
     rating: row.rating,
     comment: row.comment,
@@ -281,9 +290,31 @@ async function getSalesCount(promptId: number): Promise<number> {
   return count;
 }
 
-async function getVersions(_promptId: string): Promise<PromptVersion[]> {
-  // Version history currently unavailable.
-  return [];
+async function getEvalSummary(promptId: number): Promise<EvalSummary | null> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    return await loadEvalSummary(supabase, String(promptId));
+  } catch (err) {
+    console.error("[prompt detail] Failed to load eval summary", err);
+    return null;
+  }
+}
+
+async function getVersions(promptId: string): Promise<PromptVersion[]> {
+  try {
+    const supabase = await createSupabaseServerClient();
+    // Row-level security limits this to the versions the viewer may read
+    const { data, error } = await supabase
+      .from('prompt_versions')
+      .select('id,prompt_id,user_id,version_number,notes,published_at,created_at')
+      .eq('prompt_id', promptId)
+      .order('version_number', { ascending: false });
+    if (error) throw error;
+    return (data ?? []) as PromptVersion[];
+  } catch (err) {
+    console.error("[prompt detail] Failed to load versions", err);
+    return [];
+  }
 }
 
 async function getAlsoBoughtPrompts(promptId: number): Promise<AlsoBoughtPrompt[]> {
@@ -400,12 +431,13 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
     notFound();
   }
 
-  const [prompt, ratings, salesCount, versions, currentUser] = await Promise.all([
+  const [prompt, ratings, salesCount, versions, currentUser, evalSummary] = await Promise.all([
     getPrompt(promptId),
     getRatings(promptId),
     getSalesCount(promptId),
     getVersions(String(promptId)),
     getCurrentUser(),
+    getEvalSummary(promptId),
   ]);
 
   if (!prompt) {
@@ -432,6 +464,7 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
     approved: "bg-emerald-100 text-emerald-800",
     rejected: "bg-red-100 text-red-800",
     archived: "bg-slate-900 text-white",
+    removed: "bg-red-900 text-white",
   };
   const ownerStatusLabel =
     prompt.status?.charAt(0).toUpperCase() + (prompt.status?.slice(1) ?? "");
@@ -499,6 +532,7 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
                   )}
                 </div>
                 <div className="flex items-center gap-3">
+                  <EvalBadge summary={evalSummary} className="px-3 py-1 text-sm" />
                   {averageRating !== null && (
                     <div className="flex items-center gap-1 rounded-full bg-amber-50 px-3 py-1 text-sm font-semibold text-amber-700">
                       <span aria-hidden="true">★</span>
@@ -551,13 +585,23 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
                     )}
                   </div>
                   <div className="mt-2">
-                    <Button asChild variant="outline" size="sm">
-                      <Link href={`/creator/prompts/${prompt.id}/edit`}>Edit this prompt</Link>
-                    </Button>
+                    {prompt.status === 'removed' ? (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/creator/prompts/${prompt.id}/appeal`}>Appeal removal</Link>
+                      </Button>
+                    ) : (
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/creator/prompts/${prompt.id}/edit`}>Edit this prompt</Link>
+                      </Button>
+                    )}
                   </div>
                 </>
               )}
 
+              {currentUserId !== prompt.user_id && (
+                <ReportButton targetType="prompt" targetId={String(prompt.id)} />
+              )}
+
               {prompt.tags && prompt.tags.length > 0 && (
                 <div className="flex flex-wrap gap-2">
                   {prompt.tags.map((tag) => (
@@ -645,6 +689,8 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
             </div>
           </div>
 
+          <EvalSuitePanel promptId={String(prompt.id)} />
+
           <div className="mt-8 space-y-4">
             <h2 className="text-xl font-semibold">Ratings &amp; reviews</h2>
 
@@ -730,6 +776,11 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
                     {r.comment && (
                       <p className="text-slate-700">{r.comment}</p>
                     )}
+                    {r.id && r.user_id !== currentUserId && (
+                      <div className="mt-2 flex justify-end">
+                        <ReportButton targetType="rating" targetId={r.id} />
+                      </div>
+                    )}
                   </div>
                 ))
               )}
@@ -737,52 +788,11 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
           </div>
 
           {/* Version history */}
-          {(currentUserId === prompt.user_id || hasPurchased || price === 0) &&
-            versions.length > 0 && (
-              <div className="mt-10 space-y-4">
-                <h2 className="text-xl font-semibold">Version history</h2>
-                <p className="text-sm text-slate-500">
-                  {currentUserId === prompt.user_id
-                    ? "You’re seeing all versions you’ve saved for this prompt."
-                    : "This prompt’s creator keeps it updated over time. Here’s a history of changes."}
-                </p>
-
-                <div className="space-y-3">
-                  {versions.map((v) => (
-                    <div
-                      key={v.id}
-                      className="rounded-lg border border-slate-200 bg-white p-3 text-sm"
-                    >
-                      <div className="flex items-center justify-between gap-2">
-                        <div className="flex flex-col gap-0.5">
-                          <span className="text-xs font-medium text-slate-700">
-                            {new Date(v.created_at).toLocaleString()}
-                          </span>
-                          {v.notes && (
-                            <span className="text-xs text-slate-500">
-                              {v.notes}
-                            </span>
-                          )}
-                        </div>
-                        {currentUserId === prompt.user_id && (
-                          <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-600">
-                            Saved by creator
-                          </span>
-                        )}
-                      </div>
-
-                      {v.content && (
-                        <pre className="mt-2 max-h-32 overflow-auto rounded bg-slate-950/90 p-2 text-[11px] text-slate-50">
-                          {v.content.length > 600
-                            ? `${v.content.slice(0, 600)}…`
-                            : v.content}
-                        </pre>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+          {(currentUserId === prompt.user_id || hasPurchased || price === 0) && (
+            <div className="mt-10">
+              <PromptVersionHistory promptId={String(prompt.id)} />
+            </div>
+          )}
 
           {relatedPrompts.length > 0 && (
             <div className="mt-12">
@@ -865,7 +875,7 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
 
         <aside className="space-y-4">
           <ActionPanel prompt={prompt} salesCount={salesCount} averageRating={averageRating} ratingCount={ratings.length} />
-          <VersionsCard versions={versions} latestContent={prompt.prompt_text} />
+          <VersionsCard versions={versions} />
         </aside>
       </div>
     </div>
@@ -874,10 +884,9 @@ export default async function PromptDetailPage({ params }: { params: { id: strin
 
 type VersionsCardProps = {
   versions: PromptVersion[];
-  latestContent: string;
 };
 
-function VersionsCard({ versions, latestContent }: VersionsCardProps) {
+function VersionsCard({ versions }: VersionsCardProps) {
   if (!versions.length) {
     return (
       <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -894,10 +903,8 @@ function VersionsCard({ versions, latestContent }: VersionsCardProps) {
         {versions.map((version) => (
           <li key={version.id} className="rounded-lg border border-slate-200 p-3 text-sm">
             <div className="flex items-center justify-between">
-              <div className="font-medium text-slate-900">
-                {new Date(version.created_at).toLocaleString()}
-              </div>
-              <VersionDiff latestContent={latestContent} content={version.content ?? ''} />
+              <div className="font-medium text-slate-900">Version {version.version_number}</div>
+              <div className="text-xs text-slate-500">{new Date(version.created_at).toLocaleDateString()}</div>
             </div>
             {version.notes && <p className="mt-2 text-slate-700">{version.notes}</p>}
           </li>
@@ -906,25 +913,3 @@ function VersionsCard({ versions, latestContent }: VersionsCardProps) {
     </div>
   );
 }
-
-function VersionDiff({ latestContent, content }: { latestContent: string; content: string }) {
-  return (
-    <details className="text-xs text-indigo-700">
-      <summary className="cursor-pointer select-none">View diff</summary>
-      <div className="mt-2 space-y-2 rounded-lg bg-slate-50 p-2 text-slate-700">
-        <div>
-          <div className="font-semibold text-slate-800">Current</div>
-          <pre className="mt-1 overflow-auto rounded bg-white p-2 text-[11px] leading-relaxed text-slate-700">
-            {latestContent}
-          </pre>
-        </div>
-        <div>
-          <div className="font-semibold text-slate-800">This version</div>
-          <pre className="mt-1 overflow-auto rounded bg-white p-2 text-[11px] leading-relaxed text-slate-700">
-            {content}
-          </pre>
-        </div>
-      </div>
-    </details>
-  );
-}
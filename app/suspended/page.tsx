@@ -0,0 +1,67 @@
+import Link from "next/link";
+
+import LogoutButton from "@/components/LogoutButton";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { activeSuspension, SUSPENSION_PROFILE_COLUMNS } from "@/lib/moderation/suspension-status";
+import { createSupabaseServerClient, getCurrentUser } from "@/lib/supabase-server";
+
+export const dynamic = "force-dynamic";
+
+// Middleware sends suspended users here; everything else in the app is off limits until it ends
+export default async function SuspendedPage() {
+  const user = await getCurrentUser();
+  let suspension = null;
+  if (user) {
+    const supabase = await createSupabaseServerClient();
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select(SUSPENSION_PROFILE_COLUMNS)
+      .eq("id", user.id)
+      .maybeSingle();
+    suspension = activeSuspension(profile);
+  }
+
+  if (!suspension) {
+    return (
+      <main className="mx-auto flex w-full max-w-xl flex-col gap-6 px-4 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Your account is in good standing</CardTitle>
+            <CardDescription>There is no suspension on this account.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/marketplace" className="text-sm font-semibold text-indigo-600 hover:text-indigo-700">
+              Go to Marketplace
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-xl flex-col gap-6 px-4 py-16">
+      <Card>
+        <CardHeader>
+          <CardTitle>{suspension.permanent ? "Your account has been banned" : "Your account is suspended"}</CardTitle>
+          <CardDescription>
+            {suspension.permanent
+              ? "You can no longer buy, sell, swap, comment or review on PromptSwap."
+              : `You can't buy, sell, swap, comment or review until ${new Date(suspension.until!).toLocaleString()}. Your listings are hidden until then.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4 text-sm">
+          {suspension.reason && (
+            <p>
+              <span className="font-semibold">Reason:</span> {suspension.reason}
+            </p>
+          )}
+          <p className="text-muted-foreground">
+            If you think this is a mistake, reply to the email on your account and a moderator will review it.
+          </p>
+          <LogoutButton label="Sign out" />
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
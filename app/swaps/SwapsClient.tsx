@@ -8,18 +8,41 @@ import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/lib/supabase/client';
 import { useUser } from '@/lib/useUser';
 
+type SwapHistoryEntry = {
+  id: string;
+  requester_id: string;
+  status: string;
+  created_at: string;
+  requested_prompts: PromptMeta[];
+  offered_prompts: PromptMeta[];
+};
+
 type Swap = {
   id: string;
   requester_id: string;
   responder_id: string;
   requested_prompt_id: string;
   offered_prompt_id: string;
+  requested_prompt_ids: string[];
+  offered_prompt_ids: string[];
+  parent_swap_id?: string | null;
+  escrow?: boolean;
+  escrow_deadline?: string | null;
+  requester_deposited_at?: string | null;
+  responder_deposited_at?: string | null;
   status: string;
   created_at: string;
   requested_prompt?: PromptMeta | null;
   offered_prompt?: PromptMeta | null;
+  requested_prompts?: PromptMeta[];
+  offered_prompts?: PromptMeta[];
+  history?: SwapHistoryEntry[];
 };
 
+type SwapAction = 'accept' | 'decline' | 'cancel' | 'deposit' | 'fulfill';
+
+const ESCROW_OPEN_STATUSES = ['accepted', 'escrow_partial'];
+
 type PromptMeta = {
   id: string;
   title: string;
@@ -40,7 +63,8 @@ export default function SwapsClient() {
   const [outgoing, setOutgoing] = useState<Swap[]>([]);
   const [status, setStatus] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [confirm, setConfirm] = useState<{ id: string; action: 'accept' | 'decline' | 'cancel' | 'fulfill' } | null>(null);
+  const [confirm, setConfirm] = useState<{ id: string; action: SwapAction } | null>(null);
+  const [counterFor, setCounterFor] = useState<Swap | null>(null);
 
   /* eslint-disable-next-line react-hooks/exhaustive-deps */
   useEffect(() => {
@@ -101,6 +125,26 @@ export default function SwapsClient() {
     }
   };
 
+  const handleCounter = async (bundle: { requested_prompt_ids: string[]; offered_prompt_ids: string[] }) => {
+    if (!counterFor) return;
+    setStatus('Sending counter-offer...');
+    setError(null);
+    try {
+      const res = await authorizedFetch(`/api/swaps/${counterFor.id}/counter`, {
+        method: 'POST',
+        body: JSON.stringify(bundle),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error?.message || data.error || 'Failed to send counter-offer');
+      await fetchSwaps();
+      setCounterFor(null);
+    } catch (err: any) {
+      setError(err.message ?? 'Failed to send counter-offer');
+    } finally {
+      setStatus(null);
+    }
+  };
+
   const incomingRequested = useMemo(() => incoming.filter((s) => s.status === 'requested'), [incoming]);
 
   if (!user && !loading) {
@@ -135,6 +179,7 @@ export default function SwapsClient() {
                 swap={swap}
                 isIncoming
                 onAction={(action) => setConfirm({ id: swap.id, action })}
+                onCounter={() => setCounterFor(swap)}
               />
             ))}
           </div>
@@ -157,6 +202,15 @@ export default function SwapsClient() {
         )}
       </section>
 
+      {counterFor && user && (
+        <CounterOfferDialog
+          swap={counterFor}
+          userId={user.id}
+          onCancel={() => setCounterFor(null)}
+          onSubmit={handleCounter}
+        />
+      )}
+
       {confirm && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
           <div className="w-full max-w-sm rounded-2xl bg-white p-6 shadow-2xl">
@@ -191,10 +245,12 @@ function SwapCard({
   swap,
   isIncoming = false,
   onAction,
+  onCounter,
 }: {
   swap: Swap;
   isIncoming?: boolean;
-  onAction?: (action: 'accept' | 'decline' | 'cancel' | 'fulfill') => void;
+  onAction?: (action: SwapAction) => void;
+  onCounter?: () => void;
 }) {
   const statusColor =
     swap.status === 'accepted'
@@ -203,7 +259,22 @@ function SwapCard({
         ? 'bg-red-50 text-red-700'
         : swap.status === 'fulfilled'
           ? 'bg-blue-50 text-blue-700'
-          : 'bg-amber-50 text-amber-700';
+          : swap.status === 'countered'
+            ? 'bg-violet-50 text-violet-700'
+            : swap.status === 'escrow_partial' || swap.status === 'escrow_held'
+              ? 'bg-sky-50 text-sky-700'
+              : 'bg-amber-50 text-amber-700';
+
+  // requested_* belongs to the requester, offered_* to the responder
+  const requestedPrompts = swap.requested_prompts ?? (swap.requested_prompt ? [swap.requested_prompt] : []);
+  const offeredPrompts = swap.offered_prompts ?? (swap.offered_prompt ? [swap.offered_prompt] : []);
+  const givePrompts = isIncoming ? offeredPrompts : requestedPrompts;
+  const getPrompts = isIncoming ? requestedPrompts : offeredPrompts;
+
+  const escrowOpen = Boolean(swap.escrow) && ESCROW_OPEN_STATUSES.includes(swap.status);
+  const myDepositAt = isIncoming ? swap.responder_deposited_at : swap.requester_deposited_at;
+  const theirDepositAt = isIncoming ? swap.requester_deposited_at : swap.responder_deposited_at;
+  const deadlinePassed = Boolean(swap.escrow_deadline) && new Date(swap.escrow_deadline as string).getTime() < Date.now();
 
   return (
     <div className="flex flex-col gap-3 rounded-xl border border-slate-200 p-4">
@@ -212,11 +283,61 @@ function SwapCard({
         <div className="text-xs text-slate-500">{new Date(swap.created_at).toLocaleString()}</div>
       </div>
 
+      {swap.parent_swap_id && <p className="text-xs font-medium text-violet-700">Counter-offer</p>}
+
+      {swap.escrow && (
+        <div className="rounded-lg border border-sky-100 bg-sky-50 px-3 py-2 text-xs text-sky-800">
+          <p className="font-semibold">Escrow swap</p>
+          {escrowOpen ? (
+            <>
+              <p className="mt-1">
+                You: {myDepositAt ? 'deposited' : 'not deposited'} · Partner: {theirDepositAt ? 'deposited' : 'not deposited'}
+              </p>
+              {swap.escrow_deadline && (
+                <p className="mt-1">
+                  {deadlinePassed ? 'Deadline passed' : 'Deposit by'} {new Date(swap.escrow_deadline).toLocaleString()}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="mt-1">
+              {swap.status === 'requested'
+                ? 'Both sides deposit after acceptance; copies are released once both deposits are in.'
+                : swap.status === 'fulfilled'
+                  ? 'Both deposits were received and copies were released.'
+                  : 'No prompts were released.'}
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="grid gap-3 sm:grid-cols-2">
-        <PromptBadge label="You give" prompt={swap.offered_prompt} />
-        <PromptBadge label="You get" prompt={swap.requested_prompt} />
+        <BundleBadge label="You give" prompts={givePrompts} />
+        <BundleBadge label="You get" prompts={getPrompts} />
       </div>
 
+      {swap.history && swap.history.length > 0 && (
+        <details className="rounded-lg bg-slate-50 px-3 py-2 text-xs text-slate-600">
+          <summary className="cursor-pointer font-medium text-slate-700">
+            Negotiation history ({swap.history.length} earlier {swap.history.length === 1 ? 'offer' : 'offers'})
+          </summary>
+          <ol className="mt-2 space-y-2">
+            {swap.history.map((entry) => (
+              <li key={entry.id}>
+                <span className="font-semibold">
+                  {entry.requester_id === swap.requester_id ? 'Requester' : 'Responder'} proposed
+                </span>{' '}
+                {entry.requested_prompts.map((p) => p.title ?? 'Unknown prompt').join(', ')} for{' '}
+                {entry.offered_prompts.map((p) => p.title ?? 'Unknown prompt').join(', ')}
+                <span className="ml-1 text-slate-400">
+                  ({entry.status}, {new Date(entry.created_at).toLocaleDateString()})
+                </span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+
       {isIncoming && swap.status === 'requested' && (
         <div className="flex items-center gap-2">
           <button
@@ -226,6 +347,13 @@ function SwapCard({
           >
             Accept
           </button>
+          <button
+            type="button"
+            onClick={() => onCounter?.()}
+            className="flex-1 rounded-lg border border-violet-200 px-4 py-2 text-sm font-semibold text-violet-700 transition hover:bg-violet-50 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2"
+          >
+            Counter
+          </button>
           <button
             type="button"
             onClick={() => onAction?.('decline')}
@@ -248,7 +376,19 @@ function SwapCard({
         </div>
       )}
 
-      {swap.status === 'accepted' && (
+      {escrowOpen && !myDepositAt && !deadlinePassed && (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => onAction?.('deposit')}
+            className="flex-1 rounded-lg bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2"
+          >
+            Deposit into escrow
+          </button>
+        </div>
+      )}
+
+      {swap.status === 'accepted' && !swap.escrow && (
         <div className="flex items-center gap-2">
           <button
             type="button"
@@ -263,12 +403,119 @@ function SwapCard({
   );
 }
 
-function PromptBadge({ prompt, label }: { prompt?: PromptMeta | null; label: string }) {
+function BundleBadge({ prompts, label }: { prompts: PromptMeta[]; label: string }) {
+  const total = prompts.reduce((sum, p) => sum + Number(p.price ?? 0), 0);
   return (
     <div className="rounded-lg border border-slate-200 p-3">
-      <p className="text-xs uppercase text-slate-500">{label}</p>
-      <p className="mt-1 text-sm font-semibold text-slate-900">{prompt?.title ?? 'Unknown prompt'}</p>
-      <p className="text-xs text-slate-500">{prompt?.price ? `$${prompt.price.toFixed(2)}` : 'Free'}</p>
+      <p className="text-xs uppercase text-slate-500">
+        {label} {prompts.length > 1 && `(${prompts.length} prompts)`}
+      </p>
+      {prompts.length === 0 ? (
+        <p className="mt-1 text-sm font-semibold text-slate-900">Unknown prompt</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {prompts.map((prompt) => (
+            <li key={prompt.id} className="text-sm font-semibold text-slate-900">
+              {prompt.title ?? 'Unknown prompt'}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-xs text-slate-500">{total > 0 ? `$${total.toFixed(2)} value` : 'Free'}</p>
+    </div>
+  );
+}
+
+function CounterOfferDialog({
+  swap,
+  userId,
+  onCancel,
+  onSubmit,
+}: {
+  swap: Swap;
+  userId: string;
+  onCancel: () => void;
+  onSubmit: (bundle: { requested_prompt_ids: string[]; offered_prompt_ids: string[] }) => void;
+}) {
+  const [myPrompts, setMyPrompts] = useState<PromptMeta[]>([]);
+  const [theirPrompts, setTheirPrompts] = useState<PromptMeta[]>([]);
+  // The counter-proposer gives what they were offering and asks for what they were offered
+  const [give, setGive] = useState<string[]>(swap.offered_prompt_ids ?? [swap.offered_prompt_id]);
+  const [want, setWant] = useState<string[]>(swap.requested_prompt_ids ?? [swap.requested_prompt_id]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPrompts = async (ownerId: string) => {
+      const { data, error } = await supabase
+        .from('prompts')
+        .select('id, title, price, user_id')
+        .eq('user_id', ownerId)
+        .eq('status', 'approved')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data ?? []) as PromptMeta[];
+    };
+
+    Promise.all([loadPrompts(userId), loadPrompts(swap.requester_id)])
+      .then(([mine, theirs]) => {
+        setMyPrompts(mine);
+        setTheirPrompts(theirs);
+      })
+      .catch((err: any) => setLoadError(err.message ?? 'Failed to load prompts'));
+  }, [userId, swap.requester_id]);
+
+  const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]);
+
+  const renderOptions = (prompts: PromptMeta[], selected: string[], onToggle: (id: string) => void) =>
+    prompts.length === 0 ? (
+      <p className="text-xs text-slate-500">No approved prompts.</p>
+    ) : (
+      <ul className="max-h-40 space-y-1 overflow-y-auto">
+        {prompts.map((prompt) => (
+          <li key={prompt.id}>
+            <label className="flex items-center gap-2 text-sm text-slate-800">
+              <input type="checkbox" checked={selected.includes(prompt.id)} onChange={() => onToggle(prompt.id)} />
+              {prompt.title}
+            </label>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+      <div className="w-full max-w-lg rounded-2xl bg-white p-6 shadow-2xl">
+        <h3 className="text-lg font-semibold text-slate-900">Counter-offer</h3>
+        <p className="mt-1 text-sm text-slate-600">Propose a different bundle for this swap.</p>
+        {loadError && <p className="mt-2 text-sm text-red-600">{loadError}</p>}
+        <div className="mt-4 grid gap-4 sm:grid-cols-2">
+          <div>
+            <p className="mb-2 text-xs uppercase text-slate-500">You give</p>
+            {renderOptions(myPrompts, give, (id) => setGive((prev) => toggle(prev, id)))}
+          </div>
+          <div>
+            <p className="mb-2 text-xs uppercase text-slate-500">You get</p>
+            {renderOptions(theirPrompts, want, (id) => setWant((prev) => toggle(prev, id)))}
+          </div>
+        </div>
+        <div className="mt-6 flex items-center gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 rounded-lg border border-slate-200 px-4 py-2 text-sm font-medium text-slate-700 hover:border-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={give.length === 0 || want.length === 0}
+            onClick={() => onSubmit({ requested_prompt_ids: give, offered_prompt_ids: want })}
+            className="flex-1 rounded-lg bg-violet-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-violet-700 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            Send counter-offer
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
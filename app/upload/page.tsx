@@ -163,6 +163,17 @@ export default function UploadPage() {
 
     const promptId = payloadResult.data.promptId;
 
+    // The pre-moderation scan rejects listings with leaked secrets or disallowed content outright
+    if (payloadResult.data.status === 'rejected') {
+      const reasons = (payloadResult.data.findings ?? [])
+        .filter((finding: { severity: string }) => finding.severity === 'critical')
+        .map((finding: { message: string }) => finding.message);
+      setError(`Prompt was rejected automatically: ${reasons.join('; ') || 'it breaks the listing rules'}. Fix it and resubmit.`);
+      setSubmitting(false);
+      setStatus(null);
+      return;
+    }
+
     // Upload prompt file to storage
     const promptTextFile = new Blob([form.promptText.trim()], { type: 'text/plain' });
     const { error: uploadPromptError } = await supabase.storage
@@ -0,0 +1,263 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+
+import type { LlmProviderId } from '@/lib/llm/types';
+
+type SavedKey = {
+  id: string;
+  provider: LlmProviderId;
+  label: string;
+  key_hint: string;
+  monthly_cap_cents: number | null;
+  spent_this_month_cents: number;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+const PROVIDERS: { value: Exclude<LlmProviderId, 'mock'>; label: string }[] = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'anthropic', label: 'Anthropic' },
+  { value: 'google', label: 'Google' },
+  { value: 'mistral', label: 'Mistral' },
+  { value: 'openai-compatible', label: 'Self-hosted (OpenAI-compatible)' },
+];
+
+const inputClass =
+  'mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100';
+
+function formatDollars(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// Empty input means no cap
+function parseCap(value: string): number | null {
+  return value.trim() === '' ? null : Math.round(Number(value) * 100);
+}
+
+// Saved provider keys for the prompt tester. Keys are write-only: after saving, only the label
+// and last four characters come back from the server.
+export default function ApiKeyVault() {
+  const [keys, setKeys] = useState<SavedKey[]>([]);
+  const [provider, setProvider] = useState<(typeof PROVIDERS)[number]['value']>('openai');
+  const [label, setLabel] = useState('');
+  const [apiKey, setApiKey] = useState('');
+  const [cap, setCap] = useState('');
+  const [capEdits, setCapEdits] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/api-keys');
+        if (!res.ok) return;
+        const payload = await res.json();
+        setKeys(payload?.data?.keys ?? []);
+      } catch (err) {
+        console.error('Failed to load API keys', err);
+      }
+    };
+
+    void load();
+  }, []);
+
+  const replaceKey = (updated: SavedKey) => {
+    setKeys((prev) => prev.map((key) => (key.id === updated.id ? updated : key)));
+  };
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const res = await fetch('/api/api-keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ provider, label, api_key: apiKey, monthly_cap_cents: parseCap(cap) }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    setSaving(false);
+
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to save API key');
+      return;
+    }
+    setKeys((prev) => [payload.data.key, ...prev]);
+    setLabel('');
+    setApiKey('');
+    setCap('');
+  };
+
+  const saveCap = async (key: SavedKey) => {
+    setError(null);
+    const res = await fetch(`/api/api-keys/${key.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ monthly_cap_cents: parseCap(capEdits[key.id] ?? '') }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to update spend cap');
+      return;
+    }
+    replaceKey(payload.data.key);
+    setCapEdits((prev) => {
+      const { [key.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const revoke = async (key: SavedKey) => {
+    if (!window.confirm(`Revoke "${key.label}"? It can no longer be used for tests.`)) return;
+    setError(null);
+    const res = await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to revoke API key');
+      return;
+    }
+    replaceKey(payload.data.key);
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">Model API keys</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Save provider keys to use in the prompt tester. Keys are encrypted and never shown again after saving; spend is an
+        estimate based on token counts.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      {keys.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-100 rounded-lg border border-slate-200">
+          {keys.map((key) => (
+            <li key={key.id} className="space-y-2 px-4 py-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <span className="font-medium text-slate-900">{key.label}</span>
+                  <span className="ml-2 text-slate-500">
+                    {PROVIDERS.find((p) => p.value === key.provider)?.label ?? key.provider} · …{key.key_hint}
+                  </span>
+                </div>
+                {key.revoked_at ? (
+                  <span className="text-xs font-medium text-slate-400">Revoked</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => revoke(key)}
+                    className="text-xs font-semibold text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </div>
+              <div className="text-xs text-slate-500">
+                {formatDollars(key.spent_this_month_cents)} this month
+                {key.monthly_cap_cents !== null ? ` of ${formatDollars(key.monthly_cap_cents)} cap` : ' · no cap'}
+                {' · '}
+                {key.last_used_at ? `last used ${new Date(key.last_used_at).toLocaleString()}` : 'never used'}
+              </div>
+              {!key.revoked_at && (
+                <div className="flex items-center gap-2">
+                  <input
+                    aria-label={`Monthly cap for ${key.label}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={key.monthly_cap_cents !== null ? (key.monthly_cap_cents / 100).toFixed(2) : 'No cap'}
+                    value={capEdits[key.id] ?? ''}
+                    onChange={(e) => setCapEdits((prev) => ({ ...prev, [key.id]: e.target.value }))}
+                    className="w-32 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => saveCap(key)}
+                    disabled={capEdits[key.id] === undefined}
+                    className="text-xs font-semibold text-indigo-600 hover:text-indigo-700 disabled:text-slate-300"
+                  >
+                    Set cap
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="mt-6 space-y-4" onSubmit={save}>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-slate-700" htmlFor="api_key_provider">
+              Provider
+            </label>
+            <select
+              id="api_key_provider"
+              value={provider}
+              onChange={(e) => setProvider(e.target.value as typeof provider)}
+              className={`${inputClass} bg-white`}
+            >
+              {PROVIDERS.map((p) => (
+                <option key={p.value} value={p.value}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700" htmlFor="api_key_label">
+              Label
+            </label>
+            <input
+              id="api_key_label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Personal OpenAI"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700" htmlFor="api_key_value">
+              API key
+            </label>
+            <input
+              id="api_key_value"
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="sk-..."
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-700" htmlFor="api_key_cap">
+              Monthly spend cap (USD, optional)
+            </label>
+            <input
+              id="api_key_cap"
+              type="number"
+              min="0"
+              step="0.01"
+              value={cap}
+              onChange={(e) => setCap(e.target.value)}
+              placeholder="10.00"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={saving || !label.trim() || !apiKey.trim()}
+          className="inline-flex items-center justify-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 disabled:cursor-not-allowed disabled:bg-indigo-300"
+        >
+          {saving ? 'Saving...' : 'Save key'}
+        </button>
+      </form>
+    </div>
+  );
+}
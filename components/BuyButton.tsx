@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
+import { CART_UPDATED_EVENT } from "@/components/CartDrawer";
 
 type BuyButtonProps = {
   promptId: string;
@@ -24,6 +25,10 @@ export default function BuyButton({
 }: BuyButtonProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  const [addingToCart, setAddingToCart] = useState(false);
+  const [cartMessage, setCartMessage] = useState<string | null>(null);
+  const [couponCode, setCouponCode] = useState("");
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
 
   async function handleBuy() {
     if (!userId) {
@@ -32,19 +37,50 @@ export default function BuyButton({
     }
 
     setLoading(true);
+    setCheckoutError(null);
 
+    // The server prices the prompt; only the coupon code is sent along
     const res = await fetch("/api/stripe/create-checkout-session", {
       method: "POST",
       body: JSON.stringify({
         prompt_id: promptId,
-        title,
-        price,
-        user_id: userId,
+        ...(couponCode.trim() ? { coupon_code: couponCode.trim() } : {}),
       }),
     });
 
-    const { url } = await res.json();
-    router.push(url);
+    const payload = await res.json();
+    if (!res.ok || !payload?.data?.url) {
+      setLoading(false);
+      setCheckoutError(payload?.error?.message ?? "Could not start checkout");
+      return;
+    }
+
+    router.push(payload.data.url);
+  }
+
+  async function handleAddToCart() {
+    if (!userId) {
+      router.push("/signin");
+      return;
+    }
+
+    setAddingToCart(true);
+    setCartMessage(null);
+
+    const res = await fetch("/api/cart", {
+      method: "POST",
+      body: JSON.stringify({ prompt_id: promptId }),
+    });
+    const payload = await res.json();
+
+    setAddingToCart(false);
+    if (!res.ok) {
+      setCartMessage(payload?.error?.message ?? "Could not add to cart");
+      return;
+    }
+
+    setCartMessage("Added to cart");
+    window.dispatchEvent(new Event(CART_UPDATED_EVENT));
   }
 
   // OWNER LOGIC
@@ -65,9 +101,26 @@ export default function BuyButton({
   }
 
   return (
-    <Button disabled={loading} onClick={handleBuy}>
-      {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-      Buy for ${price.toFixed(2)}
-    </Button>
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <Button disabled={loading} onClick={handleBuy}>
+          {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          Buy for ${price.toFixed(2)}
+        </Button>
+        <Button variant="outline" disabled={addingToCart} onClick={handleAddToCart}>
+          {addingToCart ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          Add to cart
+        </Button>
+      </div>
+      <input
+        value={couponCode}
+        onChange={(e) => setCouponCode(e.target.value)}
+        placeholder="Coupon code"
+        aria-label={`Coupon code for ${title}`}
+        className="w-40 rounded-md border px-2 py-1 text-xs uppercase"
+      />
+      {checkoutError && <span className="text-xs text-red-600">{checkoutError}</span>}
+      {cartMessage && <span className="text-xs text-muted-foreground">{cartMessage}</span>}
+    </div>
   );
 }
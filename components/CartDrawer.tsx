@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, ShoppingCart, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+type CartItem = {
+  promptId: string;
+  title: string;
+  sellerId: string;
+  priceCents: number;
+  available: boolean;
+};
+
+// Dispatched by "Add to cart" buttons so the drawer refreshes its count
+export const CART_UPDATED_EVENT = "cart:updated";
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export default function CartDrawer() {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [totalCents, setTotalCents] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyCart = (payload: any) => {
+    setItems(payload?.data?.items ?? []);
+    setTotalCents(payload?.data?.totalCents ?? 0);
+  };
+
+  const loadCart = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/cart");
+      if (!res.ok) return;
+      applyCart(await res.json());
+    } catch (err) {
+      console.error("Failed to load cart", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCart();
+    const onUpdated = () => void loadCart();
+    window.addEventListener(CART_UPDATED_EVENT, onUpdated);
+    return () => window.removeEventListener(CART_UPDATED_EVENT, onUpdated);
+  }, [loadCart]);
+
+  const removeItem = async (promptId: string) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/cart/${encodeURIComponent(promptId)}`, { method: "DELETE" });
+      const payload = await res.json();
+      if (!res.ok) throw new Error(payload?.error?.message || "Failed to remove item");
+      applyCart(payload);
+    } catch (err: any) {
+      setError(err.message ?? "Failed to remove item");
+    }
+  };
+
+  const checkout = async () => {
+    setCheckingOut(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/cart/checkout", { method: "POST", body: JSON.stringify({}) });
+      const payload = await res.json();
+      if (!res.ok || !payload?.data?.url) {
+        throw new Error(payload?.error?.message || "Failed to start checkout");
+      }
+      window.location.href = payload.data.url;
+    } catch (err: any) {
+      setError(err.message ?? "Failed to start checkout");
+      setCheckingOut(false);
+    }
+  };
+
+  const sellerCount = new Set(items.filter((item) => item.available).map((item) => item.sellerId)).size;
+  const hasUnavailable = items.some((item) => !item.available);
+
+  return (
+    <div className="relative">
+      <Button size="sm" variant="ghost" className="relative" onClick={() => setOpen((value) => !value)}>
+        <ShoppingCart size={18} />
+        {items.length > 0 && (
+          <span className="absolute -top-1 -right-1 rounded-full bg-primary text-white text-[10px] px-1">
+            {items.length}
+          </span>
+        )}
+      </Button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 rounded-md border bg-popover shadow-md z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <span className="text-sm font-semibold">Cart</span>
+            {sellerCount > 1 && (
+              <span className="text-xs text-muted-foreground">{`${sellerCount} creators`}</span>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {loading && items.length === 0 ? (
+              <div className="p-3 text-sm text-muted-foreground">Loading...</div>
+            ) : items.length === 0 ? (
+              <div className="p-3 text-sm text-muted-foreground">Your cart is empty.</div>
+            ) : (
+              items.map((item) => (
+                <div key={item.promptId} className="flex items-center justify-between gap-2 p-3 border-b last:border-b-0">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">{item.title}</p>
+                    <p className={`text-xs ${item.available ? "text-muted-foreground" : "text-red-600"}`}>
+                      {item.available ? formatCents(item.priceCents) : "No longer available"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => void removeItem(item.promptId)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${item.title} from cart`}
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+          {items.length > 0 && (
+            <div className="space-y-2 border-t p-3">
+              {error && <p className="text-xs text-red-600">{error}</p>}
+              {hasUnavailable && (
+                <p className="text-xs text-muted-foreground">Remove unavailable prompts before checking out.</p>
+              )}
+              <div className="flex items-center justify-between text-sm">
+                <span>Total</span>
+                <span className="font-semibold">{formatCents(totalCents)}</span>
+              </div>
+              <Button className="w-full" size="sm" disabled={checkingOut || hasUnavailable} onClick={checkout}>
+                {checkingOut ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Checkout
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,91 @@
 "use client";
 
-import { useCallback } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
 import type { ChatMessageDTO } from "@/app/chat/[sessionId]/actions";
+import { readSseEvents } from "@/lib/llm/sse";
 import { MessageInput } from "./MessageInput";
 import { RealtimeClient } from "@/app/chat/[sessionId]/RealtimeClient";
 
 type ChatUIProps = {
   sessionId: string;
   messages: ChatMessageDTO[];
-  sendUserMessage: (formData: FormData) => void | Promise<void>;
 };
 
-export function ChatUI({ sessionId, messages, sendUserMessage }: ChatUIProps) {
+const STREAMING_ID = "streaming-reply";
+
+export function ChatUI({ sessionId, messages: savedMessages }: ChatUIProps) {
+  const router = useRouter();
+  const [messages, setMessages] = useState(savedMessages);
+  const [streaming, setStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The server copy wins once it is refreshed; it includes partial replies saved after a cancel
+  useEffect(() => {
+    setMessages(savedMessages);
+  }, [savedMessages]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   const handleServerEvent = useCallback((event: unknown) => {
     // For now, just log. Later we'll handle OpenAI Realtime events here.
     console.log("[ChatUI] server event:", event);
   }, []);
 
+  const appendToReply = (text: string) => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === STREAMING_ID ? { ...m, content: m.content + text } : m)),
+    );
+  };
+
+  const send = async (content: string) => {
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setError(null);
+    setStreaming(true);
+    setMessages((prev) => [
+      ...prev,
+      { id: `pending-${Date.now()}`, role: "user", content, createdAt: new Date() },
+      { id: STREAMING_ID, role: "assistant", content: "", createdAt: new Date() },
+    ]);
+
+    try {
+      const res = await fetch(`/api/chat/${sessionId}/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content }),
+        signal: abort.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const payload = await res.json().catch(() => null);
+        const message = typeof payload?.error === "string" ? payload.error : payload?.error?.message;
+        throw new Error(message || "Failed to send message.");
+      }
+
+      for await (const event of readSseEvents(res.body)) {
+        const data = JSON.parse(event.data);
+        if (event.event === "delta") appendToReply(data.text ?? "");
+        if (event.event === "error") setError(data.error ?? "The reply was interrupted.");
+      }
+    } catch (err: any) {
+      // A cancel keeps the partial reply; the server saved the same text
+      if (!abort.signal.aborted) {
+        setError(err?.message ?? "The reply was interrupted.");
+      }
+    } finally {
+      abortRef.current = null;
+      setStreaming(false);
+      // Reload the saved messages, which also recovers a reply cut off by a dropped connection
+      router.refresh();
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="flex h-full flex-col space-y-4">
       {/* WebSocket client: connects to /api/realtime for this session */}
@@ -46,17 +115,20 @@ export function ChatUI({ sessionId, messages, sendUserMessage }: ChatUIProps) {
                 </span>
               </div>
               <p className="text-sm text-gray-900 whitespace-pre-wrap">
-                {m.content}
+                {m.content || (m.id === STREAMING_ID ? "…" : "")}
               </p>
             </div>
           ))
         )}
       </div>
 
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
       {/* Input at the bottom */}
       <MessageInput
-        sessionId={sessionId}
-        sendUserMessage={sendUserMessage}
+        streaming={streaming}
+        onSend={(content) => void send(content)}
+        onCancel={cancel}
       />
     </div>
   );
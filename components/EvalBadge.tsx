@@ -0,0 +1,38 @@
+import type { EvalSummary } from '@/lib/evals';
+
+type EvalBadgeProps = {
+  summary: EvalSummary | null | undefined;
+  className?: string;
+};
+
+function toneFor(summary: EvalSummary) {
+  if (summary.stale) return 'bg-slate-100 text-slate-600';
+  const rate = summary.pass_rate ?? 0;
+  if (rate >= 0.9) return 'bg-emerald-100 text-emerald-800';
+  if (rate >= 0.6) return 'bg-amber-100 text-amber-800';
+  return 'bg-red-100 text-red-800';
+}
+
+// Pass rate of the creator's evaluation suite; shown as outdated once the prompt text changes
+export function EvalBadge({ summary, className = '' }: EvalBadgeProps) {
+  if (!summary || summary.pass_rate === null) return null;
+
+  const percent = Math.round(summary.pass_rate * 100);
+  const passed = summary.case_count !== null ? Math.round(summary.pass_rate * summary.case_count) : null;
+  const title =
+    passed !== null
+      ? `${passed} of ${summary.case_count} test cases passed${summary.stale ? ' on an earlier version' : ''}`
+      : undefined;
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-semibold ${toneFor(summary)} ${className}`}
+    >
+      <span aria-hidden="true">✓</span>
+      Evals {percent}%{summary.stale ? ' · outdated' : ''}
+    </span>
+  );
+}
+
+export default EvalBadge;
@@ -0,0 +1,496 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { EvalBadge } from './EvalBadge';
+import { LLM_PROVIDER_IDS, type LlmProviderId } from '@/lib/llm/types';
+import type { PromptVariable } from '@/lib/prompt-variables';
+import type {
+  EvalAssertion,
+  EvalAssertionType,
+  EvalCase,
+  EvalCaseResult,
+  EvalRunRow,
+  EvalSuiteRow,
+  EvalSummary,
+} from '@/lib/evals';
+
+type Props = {
+  promptId: string;
+};
+
+// Form state for one assertion; `value` holds the text, pattern, JSON schema or length as typed
+type AssertionDraft = { type: EvalAssertionType; value: string; flags: string; caseSensitive: boolean };
+
+type CaseDraft = { id?: string; name: string; variables: Record<string, string>; assertions: AssertionDraft[] };
+
+const ASSERTION_LABELS: Record<EvalAssertionType, string> = {
+  contains: 'Contains',
+  regex: 'Matches regex',
+  json_schema: 'Valid JSON for schema',
+  max_length: 'At most N characters',
+};
+
+const ASSERTION_PLACEHOLDERS: Record<EvalAssertionType, string> = {
+  contains: 'Text the output must include',
+  regex: 'e.g. ^Subject: .+',
+  json_schema: '{"type": "object", "required": ["title"]}',
+  max_length: '280',
+};
+
+const MAX_CASES = 10;
+
+const emptyAssertion = (): AssertionDraft => ({ type: 'contains', value: '', flags: '', caseSensitive: false });
+
+function toAssertionDraft(assertion: EvalAssertion): AssertionDraft {
+  switch (assertion.type) {
+    case 'contains':
+      return { ...emptyAssertion(), value: assertion.value, caseSensitive: Boolean(assertion.case_sensitive) };
+    case 'regex':
+      return { ...emptyAssertion(), type: 'regex', value: assertion.pattern, flags: assertion.flags ?? '' };
+    case 'json_schema':
+      return { ...emptyAssertion(), type: 'json_schema', value: JSON.stringify(assertion.schema, null, 2) };
+    case 'max_length':
+      return { ...emptyAssertion(), type: 'max_length', value: String(assertion.value) };
+  }
+}
+
+function toAssertion(draft: AssertionDraft): EvalAssertion {
+  switch (draft.type) {
+    case 'contains':
+      return { type: 'contains', value: draft.value, case_sensitive: draft.caseSensitive };
+    case 'regex':
+      return { type: 'regex', pattern: draft.value, ...(draft.flags ? { flags: draft.flags } : {}) };
+    case 'json_schema': {
+      let schema: unknown;
+      try {
+        schema = JSON.parse(draft.value);
+      } catch {
+        throw new Error('JSON schema assertions must contain valid JSON.');
+      }
+      return { type: 'json_schema', schema: schema as Record<string, unknown> };
+    }
+    case 'max_length':
+      return { type: 'max_length', value: Number(draft.value) };
+  }
+}
+
+function toCaseDraft(evalCase: EvalCase): CaseDraft {
+  return {
+    id: evalCase.id,
+    name: evalCase.name,
+    variables: Object.fromEntries(Object.entries(evalCase.variables).map(([name, value]) => [name, String(value)])),
+    assertions: evalCase.assertions.map(toAssertionDraft),
+  };
+}
+
+export default function EvalSuitePanel({ promptId }: Props) {
+  const [suite, setSuite] = useState<EvalSuiteRow | null>(null);
+  const [latestRun, setLatestRun] = useState<EvalRunRow | null>(null);
+  const [results, setResults] = useState<EvalCaseResult[]>([]);
+  const [summary, setSummary] = useState<EvalSummary | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [model, setModel] = useState('gpt-4o-mini');
+  const [provider, setProvider] = useState<LlmProviderId | ''>('');
+  const [cases, setCases] = useState<CaseDraft[]>([]);
+  const [apiKey, setApiKey] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [suiteRes, variablesRes] = await Promise.all([
+          fetch(`/api/prompts/${promptId}/evals`),
+          fetch(`/api/prompts/${promptId}/test`),
+        ]);
+        if (suiteRes.ok) {
+          const payload = await suiteRes.json();
+          const loaded: EvalSuiteRow | null = payload?.data?.suite ?? null;
+          setSuite(loaded);
+          setLatestRun(payload?.data?.latestRun ?? null);
+          setResults(payload?.data?.results ?? []);
+          setSummary(payload?.data?.summary ?? null);
+          setCanEdit(Boolean(payload?.data?.canEdit));
+          if (loaded) {
+            setModel(loaded.model);
+            setProvider(loaded.provider ?? '');
+            setCases(loaded.cases.map(toCaseDraft));
+          }
+        }
+        if (variablesRes.ok) {
+          const data = await variablesRes.json();
+          setVariables(Array.isArray(data?.variables) ? data.variables : []);
+        }
+      } catch (err) {
+        console.error('Failed to load evaluation suite', err);
+      }
+    };
+
+    void load();
+  }, [promptId]);
+
+  const updateCase = (index: number, update: (draft: CaseDraft) => CaseDraft) => {
+    setCases((prev) => prev.map((draft, i) => (i === index ? update(draft) : draft)));
+  };
+
+  const updateAssertion = (caseIndex: number, assertionIndex: number, patch: Partial<AssertionDraft>) => {
+    updateCase(caseIndex, (draft) => ({
+      ...draft,
+      assertions: draft.assertions.map((assertion, i) => (i === assertionIndex ? { ...assertion, ...patch } : assertion)),
+    }));
+  };
+
+  const addCase = () => {
+    setCases((prev) =>
+      prev.length >= MAX_CASES
+        ? prev
+        : [...prev, { name: `Case ${prev.length + 1}`, variables: {}, assertions: [emptyAssertion()] }],
+    );
+  };
+
+  const save = async () => {
+    setError(null);
+    let payload;
+    try {
+      payload = {
+        model: model.trim(),
+        ...(provider ? { provider } : {}),
+        cases: cases.map((draft) => ({
+          ...(draft.id ? { id: draft.id } : {}),
+          name: draft.name,
+          variables: Object.fromEntries(Object.entries(draft.variables).filter(([, value]) => value.trim() !== '')),
+          assertions: draft.assertions.map(toAssertion),
+        })),
+      };
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/prompts/${promptId}/evals`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body?.error?.message || 'Failed to save the evaluation suite.');
+        return;
+      }
+      const saved: EvalSuiteRow = body.data.suite;
+      setSuite(saved);
+      setCases(saved.cases.map(toCaseDraft));
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const run = async () => {
+    setError(null);
+    setRunning(true);
+    try {
+      const res = await fetch(`/api/prompts/${promptId}/evals/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(apiKey.trim() ? { apiKey: apiKey.trim() } : {}),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(body?.error?.message || 'Failed to run the evaluation suite.');
+        return;
+      }
+      const finished: EvalRunRow = body.data.run;
+      setLatestRun(finished);
+      setResults(body.data.results ?? []);
+      if (finished.status === 'completed') {
+        setSummary({
+          pass_rate: Number(finished.pass_rate),
+          case_count: finished.total_cases,
+          run_at: finished.completed_at,
+          stale: false,
+        });
+      } else {
+        setError('The model could not be reached for every case, so the badge was not updated.');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!suite && !canEdit) return null;
+
+  return (
+    <section className="mt-8 space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold">Evaluation suite</h2>
+          <p className="text-xs text-slate-500">
+            {suite
+              ? `${suite.cases.length} test case${suite.cases.length === 1 ? '' : 's'} run on ${suite.model}`
+              : 'Add test cases with assertions to show buyers how reliably this prompt works.'}
+          </p>
+        </div>
+        <EvalBadge summary={summary} />
+      </div>
+
+      {summary?.stale && (
+        <p className="rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+          The prompt text changed after the last run{canEdit ? '. Run the suite again to refresh the badge.' : '.'}
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results.length > 0 && (
+        <ul className="divide-y divide-slate-100 text-sm">
+          {results.map((result) => (
+            <li key={result.caseId} className="py-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-slate-900">{result.name}</span>
+                <span className={result.passed ? 'text-green-700' : 'text-red-700'}>{result.passed ? 'Passed' : 'Failed'}</span>
+              </div>
+              {result.error && <p className="text-xs text-red-600">{result.error}</p>}
+              {result.assertions
+                .filter((assertion) => !assertion.passed)
+                .map((assertion, index) => (
+                  <p key={index} className="text-xs text-slate-500">
+                    {ASSERTION_LABELS[assertion.type]}: {assertion.message}
+                  </p>
+                ))}
+              {result.output && (
+                <details className="mt-1 text-xs text-slate-600">
+                  <summary className="cursor-pointer">Output</summary>
+                  <pre className="mt-1 whitespace-pre-wrap rounded bg-slate-50 p-2">{result.output}</pre>
+                </details>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {latestRun && (
+        <p className="text-xs text-slate-500">
+          Last run {new Date(latestRun.completed_at ?? latestRun.created_at).toLocaleString()} · {latestRun.passed_cases}/
+          {latestRun.total_cases} passed{latestRun.status === 'failed' ? ' · model unavailable for some cases' : ''}
+        </p>
+      )}
+
+      {canEdit && !editing && (
+        <div className="flex flex-wrap items-end gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              if (cases.length === 0) addCase();
+              setEditing(true);
+            }}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300"
+          >
+            {suite ? 'Edit test cases' : 'Create evaluation suite'}
+          </button>
+          {suite && (
+            <>
+              <label className="text-sm text-slate-700">
+                API key (not stored)
+                <input
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  className="mt-1 block w-64 rounded-lg border border-slate-200 px-3 py-2"
+                  placeholder="sk-..."
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => void run()}
+                disabled={running}
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 disabled:opacity-60"
+              >
+                {running ? 'Running...' : 'Run suite'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {canEdit && editing && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-3">
+            <label className="text-sm text-slate-700">
+              Model
+              <input
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                className="mt-1 block w-56 rounded-lg border border-slate-200 px-3 py-2"
+              />
+            </label>
+            <label className="text-sm text-slate-700">
+              Provider
+              <select
+                value={provider}
+                onChange={(e) => setProvider(e.target.value as LlmProviderId | '')}
+                className="mt-1 block w-48 rounded-lg border border-slate-200 px-3 py-2"
+              >
+                <option value="">From model name</option>
+                {LLM_PROVIDER_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {id}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {cases.map((draft, caseIndex) => (
+            <div key={draft.id ?? caseIndex} className="space-y-3 rounded-xl border border-slate-200 p-4">
+              <div className="flex items-center gap-2">
+                <input
+                  value={draft.name}
+                  onChange={(e) => updateCase(caseIndex, (prev) => ({ ...prev, name: e.target.value }))}
+                  className="flex-1 rounded-lg border border-slate-200 px-3 py-2 text-sm font-medium"
+                  aria-label="Case name"
+                />
+                <button
+                  type="button"
+                  onClick={() => setCases((prev) => prev.filter((_, i) => i !== caseIndex))}
+                  className="text-xs text-red-600 hover:underline"
+                >
+                  Remove case
+                </button>
+              </div>
+
+              {variables.length > 0 && (
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {variables.map((variable) => (
+                    <label key={variable.name} className="text-xs text-slate-600">
+                      {variable.name}
+                      {variable.required ? ' *' : ''}
+                      <input
+                        value={draft.variables[variable.name] ?? ''}
+                        onChange={(e) =>
+                          updateCase(caseIndex, (prev) => ({
+                            ...prev,
+                            variables: { ...prev.variables, [variable.name]: e.target.value },
+                          }))
+                        }
+                        placeholder={variable.options?.join(' | ') ?? (variable.default !== undefined ? String(variable.default) : '')}
+                        className="mt-1 block w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+                      />
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {draft.assertions.map((assertion, assertionIndex) => (
+                  <div key={assertionIndex} className="flex flex-wrap items-start gap-2">
+                    <select
+                      value={assertion.type}
+                      onChange={(e) => updateAssertion(caseIndex, assertionIndex, { type: e.target.value as EvalAssertionType })}
+                      className="rounded-lg border border-slate-200 px-2 py-1.5 text-sm"
+                    >
+                      {(Object.keys(ASSERTION_LABELS) as EvalAssertionType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {ASSERTION_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                    {assertion.type === 'json_schema' ? (
+                      <textarea
+                        value={assertion.value}
+                        onChange={(e) => updateAssertion(caseIndex, assertionIndex, { value: e.target.value })}
+                        placeholder={ASSERTION_PLACEHOLDERS.json_schema}
+                        rows={3}
+                        className="min-w-[16rem] flex-1 rounded-lg border border-slate-200 px-3 py-1.5 font-mono text-xs"
+                      />
+                    ) : (
+                      <input
+                        type={assertion.type === 'max_length' ? 'number' : 'text'}
+                        value={assertion.value}
+                        onChange={(e) => updateAssertion(caseIndex, assertionIndex, { value: e.target.value })}
+                        placeholder={ASSERTION_PLACEHOLDERS[assertion.type]}
+                        className="min-w-[12rem] flex-1 rounded-lg border border-slate-200 px-3 py-1.5 text-sm"
+                      />
+                    )}
+                    {assertion.type === 'regex' && (
+                      <input
+                        value={assertion.flags}
+                        onChange={(e) => updateAssertion(caseIndex, assertionIndex, { flags: e.target.value })}
+                        placeholder="flags"
+                        className="w-16 rounded-lg border border-slate-200 px-2 py-1.5 text-sm"
+                      />
+                    )}
+                    {assertion.type === 'contains' && (
+                      <label className="flex items-center gap-1 text-xs text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={assertion.caseSensitive}
+                          onChange={(e) => updateAssertion(caseIndex, assertionIndex, { caseSensitive: e.target.checked })}
+                        />
+                        Match case
+                      </label>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateCase(caseIndex, (prev) => ({
+                          ...prev,
+                          assertions: prev.assertions.filter((_, i) => i !== assertionIndex),
+                        }))
+                      }
+                      className="text-xs text-slate-500 hover:text-red-600"
+                      aria-label="Remove assertion"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateCase(caseIndex, (prev) => ({ ...prev, assertions: [...prev.assertions, emptyAssertion()] }))}
+                  className="text-xs font-semibold text-indigo-600 hover:underline"
+                >
+                  Add assertion
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={addCase}
+              disabled={cases.length >= MAX_CASES}
+              className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300 disabled:opacity-60"
+            >
+              Add test case
+            </button>
+            <button
+              type="button"
+              onClick={() => void save()}
+              disabled={saving || cases.length === 0}
+              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-700 disabled:opacity-60"
+            >
+              {saving ? 'Saving...' : 'Save suite'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setCases(suite ? suite.cases.map(toCaseDraft) : []);
+                setEditing(false);
+              }}
+              className="px-2 py-2 text-sm text-slate-600 hover:underline"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
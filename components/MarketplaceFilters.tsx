@@ -1,86 +1,123 @@
-'use client';
+import Link from 'next/link';
 
-import { useMemo } from 'react';
-
-type SortOption = 'price-asc' | 'price-desc' | 'newest';
+import type { FacetBucket, SearchFacets } from '@/lib/prompt-search';
+import { searchFiltersToParams, type PromptSearchFilters } from '@/lib/search-filters';
 
 type MarketplaceFiltersProps = {
-  categories: string[];
-  tags: string[];
-  category: string;
-  selectedTags: string[];
-  sort: SortOption;
-  onCategoryChange: (value: string) => void;
-  onTagsChange: (values: string[]) => void;
-  onSortChange: (value: SortOption) => void;
+  facets: SearchFacets | null;
+  filters: PromptSearchFilters;
+  sort: string;
+  defaultSort: string;
+};
+
+type FacetLink = {
+  key: string;
+  label: string;
+  count: number;
+  active: boolean;
+  next: PromptSearchFilters;
 };
 
-export default function MarketplaceFilters({
-  categories,
-  tags,
-  category,
-  selectedTags,
-  sort,
-  onCategoryChange,
-  onTagsChange,
-  onSortChange,
-}: MarketplaceFiltersProps) {
-  const tagSet = useMemo(() => new Set(selectedTags), [selectedTags]);
+// Facet counts for the current search; each option links to the search with that filter toggled
+export default function MarketplaceFilters({ facets, filters, sort, defaultSort }: MarketplaceFiltersProps) {
+  if (!facets) return null;
 
-  const toggleTag = (tag: string) => {
-    const next = new Set(tagSet);
-    if (next.has(tag)) {
-      next.delete(tag);
-    } else {
-      next.add(tag);
-    }
-    onTagsChange(Array.from(next));
+  const href = (next: PromptSearchFilters) => {
+    const params = searchFiltersToParams(next);
+    if (sort !== defaultSort) params.set('sort', sort);
+    const query = params.toString();
+    return query ? `/marketplace?${query}` : '/marketplace';
   };
 
-  return (
-    <div className="flex flex-col gap-3 md:flex-row md:items-center">
-      <select
-        value={category}
-        onChange={(e) => onCategoryChange(e.target.value)}
-        className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100 md:w-48"
-      >
-        <option value="">All categories</option>
-        {categories.map((c) => (
-          <option key={c} value={c}>
-            {c}
-          </option>
-        ))}
-      </select>
+  const selectedTags = filters.tags ?? [];
+  const valueLinks = (buckets: FacetBucket[], selected: string | undefined, field: 'category' | 'creator'): FacetLink[] =>
+    buckets.map((bucket) => ({
+      key: bucket.value,
+      label: bucket.label,
+      count: bucket.count,
+      active: selected === bucket.value,
+      next: { ...filters, [field]: selected === bucket.value ? undefined : bucket.value },
+    }));
 
-      <div className="flex flex-col gap-2 rounded-lg border border-slate-200 px-3 py-2 text-sm md:w-64">
-        <p className="text-xs font-semibold text-slate-600">Tags</p>
-        <div className="flex flex-wrap gap-2">
-          {tags.map((tag) => (
-            <button
-              type="button"
-              key={tag}
-              onClick={() => toggleTag(tag)}
-              className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
-                tagSet.has(tag)
-                  ? 'bg-indigo-100 text-indigo-800 border border-indigo-200'
-                  : 'bg-slate-100 text-slate-700 hover:bg-slate-200 border border-transparent'
-              }`}
-            >
-              {tag}
-            </button>
-          ))}
-        </div>
-      </div>
+  const sections: { title: string; links: FacetLink[] }[] = [
+    { title: 'Category', links: valueLinks(facets.categories, filters.category, 'category') },
+    {
+      title: 'Tags',
+      links: facets.tags.map((bucket) => {
+        const active = selectedTags.includes(bucket.value);
+        return {
+          key: bucket.value,
+          label: bucket.label,
+          count: bucket.count,
+          active,
+          next: {
+            ...filters,
+            tags: active ? selectedTags.filter((tag) => tag !== bucket.value) : [...selectedTags, bucket.value],
+          },
+        };
+      }),
+    },
+    {
+      title: 'Price',
+      links: facets.priceRanges.map((range) => {
+        const active = filters.priceMin === range.min && filters.priceMax === (range.max ?? undefined);
+        return {
+          key: range.key,
+          label: range.label,
+          count: range.count,
+          active,
+          next: {
+            ...filters,
+            priceMin: active ? undefined : range.min,
+            priceMax: active ? undefined : range.max ?? undefined,
+          },
+        };
+      }),
+    },
+    {
+      title: 'Rating',
+      links: facets.ratings.map((band) => {
+        const active = filters.minRating === band.min;
+        return {
+          key: String(band.min),
+          label: band.label,
+          count: band.count,
+          active,
+          next: { ...filters, minRating: active ? undefined : band.min },
+        };
+      }),
+    },
+    { title: 'Creator', links: valueLinks(facets.creators, filters.creator, 'creator') },
+  ];
 
-      <select
-        value={sort}
-        onChange={(e) => onSortChange(e.target.value as SortOption)}
-        className="w-full rounded-lg border border-slate-200 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100 md:w-48"
-      >
-        <option value="newest">Newest</option>
-        <option value="price-asc">Price: Low → High</option>
-        <option value="price-desc">Price: High → Low</option>
-      </select>
+  return (
+    <div className="space-y-5 text-sm">
+      {sections
+        .filter((section) => section.links.some((link) => link.count > 0 || link.active))
+        .map((section) => (
+          <div key={section.title} className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">{section.title}</p>
+            <ul className="space-y-1">
+              {section.links
+                .filter((link) => link.count > 0 || link.active)
+                .map((link) => (
+                  <li key={link.key}>
+                    <Link
+                      href={href(link.next)}
+                      className={`flex items-center justify-between gap-2 rounded-md px-2 py-1 transition ${
+                        link.active
+                          ? 'bg-indigo-50 font-semibold text-indigo-800 dark:bg-indigo-950 dark:text-indigo-200'
+                          : 'text-slate-700 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-800'
+                      }`}
+                    >
+                      <span className="truncate">{link.label}</span>
+                      <span className="text-xs text-slate-500">{link.count}</span>
+                    </Link>
+                  </li>
+                ))}
+            </ul>
+          </div>
+        ))}
     </div>
   );
 }
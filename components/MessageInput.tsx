@@ -1,33 +1,54 @@
+import { FormEvent, useState } from "react";
+
 type MessageInputProps = {
-  sessionId: string;
-  sendUserMessage: (formData: FormData) => void | Promise<void>;
+  streaming: boolean;
+  onSend: (content: string) => void;
+  onCancel: () => void;
 };
 
-export function MessageInput({
-  sessionId,
-  sendUserMessage,
-}: MessageInputProps) {
+export function MessageInput({ streaming, onSend, onCancel }: MessageInputProps) {
+  const [content, setContent] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const text = content.trim();
+    if (!text || streaming) return;
+    onSend(text);
+    setContent("");
+  };
+
   return (
     <form
-      action={sendUserMessage}
+      onSubmit={handleSubmit}
       className="mt-3 flex flex-col gap-2 border-t border-gray-200 pt-3"
     >
-      <input type="hidden" name="sessionId" value={sessionId} />
-
       <div className="flex gap-2">
         <textarea
           name="content"
           rows={2}
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
           className="flex-1 resize-none rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           placeholder="Type your message…"
         />
 
-        <button
-          type="submit"
-          className="self-end inline-flex items-center rounded-md border border-transparent bg-blue-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
-        >
-          Send
-        </button>
+        {streaming ? (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="self-end inline-flex items-center rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!content.trim()}
+            className="self-end inline-flex items-center rounded-md border border-transparent bg-blue-600 px-3 py-2 text-sm font-medium text-white shadow-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            Send
+          </button>
+        )}
       </div>
     </form>
   );
@@ -0,0 +1,161 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+
+type Schedule = {
+  interval: "weekly" | "monthly";
+  minimum_cents: number;
+  enabled: boolean;
+  next_run_at: string;
+};
+
+type Payout = {
+  id: string;
+  amount: number;
+  status: "pending" | "paid" | "failed";
+  trigger: "manual" | "scheduled";
+  failure_reason: string | null;
+  created_at: string | null;
+};
+
+const STATUS_STYLES: Record<Payout["status"], string> = {
+  paid: "text-green-700",
+  pending: "text-amber-700",
+  failed: "text-red-700",
+};
+
+export default function PayoutScheduleForm() {
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [payoutInterval, setPayoutInterval] = useState<Schedule["interval"]>("weekly");
+  const [minimum, setMinimum] = useState("25.00");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch("/api/payouts/schedule");
+        if (!res.ok) return;
+        const payload = await res.json();
+        const loaded: Schedule | null = payload?.data?.schedule ?? null;
+        setSchedule(loaded);
+        setPayouts(payload?.data?.payouts ?? []);
+        if (loaded) {
+          setPayoutInterval(loaded.interval);
+          setMinimum((loaded.minimum_cents / 100).toFixed(2));
+        }
+      } catch (err) {
+        console.error("Failed to load payout schedule", err);
+      }
+    };
+
+    void load();
+  }, []);
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const res = await fetch("/api/payouts/schedule", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ interval: payoutInterval, minimum_cents: Math.round(Number(minimum) * 100) }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    setSaving(false);
+
+    if (!res.ok) {
+      setError(payload?.error?.message || "Failed to save payout schedule");
+      return;
+    }
+    setSchedule(payload?.data?.schedule ?? null);
+  };
+
+  const disable = async () => {
+    setError(null);
+    const res = await fetch("/api/payouts/schedule", { method: "DELETE" });
+    if (!res.ok) {
+      const payload = await res.json().catch(() => ({}));
+      setError(payload?.error?.message || "Failed to turn off automatic payouts");
+      return;
+    }
+    setSchedule((prev) => (prev ? { ...prev, enabled: false } : prev));
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-600">
+        {schedule?.enabled
+          ? `Next automatic payout: ${new Date(schedule.next_run_at).toLocaleDateString()}, if your balance is at least $${(schedule.minimum_cents / 100).toFixed(2)}.`
+          : "Automatic payouts are off. Turn them on to have your balance sent to Stripe on a schedule."}
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <form onSubmit={save} className="flex flex-wrap items-end gap-3">
+        <label className="text-sm text-slate-700">
+          Frequency
+          <select
+            value={payoutInterval}
+            onChange={(e) => setPayoutInterval(e.target.value as Schedule["interval"])}
+            className="mt-1 block w-36 rounded-lg border border-slate-200 px-3 py-2"
+          >
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </label>
+        <label className="text-sm text-slate-700">
+          Minimum (USD)
+          <input
+            required
+            type="number"
+            min="1"
+            step="0.01"
+            value={minimum}
+            onChange={(e) => setMinimum(e.target.value)}
+            className="mt-1 block w-32 rounded-lg border border-slate-200 px-3 py-2"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {saving ? "Saving..." : schedule?.enabled ? "Update schedule" : "Turn on automatic payouts"}
+        </button>
+        {schedule?.enabled && (
+          <button
+            type="button"
+            onClick={() => void disable()}
+            className="rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300"
+          >
+            Turn off
+          </button>
+        )}
+      </form>
+
+      {payouts.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {payouts.map((payout) => (
+            <li key={payout.id} className="flex items-center justify-between py-2 text-sm">
+              <div>
+                <p className="text-slate-900">
+                  {payout.trigger === "scheduled" ? "Automatic payout" : "Manual payout"}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {payout.created_at ? new Date(payout.created_at).toLocaleString() : ""}
+                  {payout.failure_reason ? ` · ${payout.failure_reason}` : ""}
+                </p>
+              </div>
+              <span className={STATUS_STYLES[payout.status]}>
+                ${Number(payout.amount).toFixed(2)} · {payout.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { Avatar, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { EvalBadge } from '@/components/EvalBadge';
+import type { EvalSummary } from '@/lib/evals';
 
 type PromptCardProps = {
   id: string;
@@ -18,6 +20,7 @@ type PromptCardProps = {
   authorAvatar?: string | null;
   category?: string | null;
   previewImage?: string | null;
+  evalSummary?: EvalSummary | null;
 };
 
 const formatPrice = (price: number) => {
@@ -34,6 +37,7 @@ export function PromptCard({
   authorAvatar,
   category,
   previewImage,
+  evalSummary,
 }: PromptCardProps) {
   const priceLabel = useMemo(() => formatPrice(price), [price]);
   const creatorInitial = (authorName || 'C').trim().charAt(0).toUpperCase();
@@ -96,9 +100,12 @@ export function PromptCard({
           </div>
 
           <div className="mt-auto flex items-center justify-between gap-2">
-            <Badge variant="secondary" className="text-xs font-semibold">
-              {category || 'Uncategorized'}
-            </Badge>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary" className="text-xs font-semibold">
+                {category || 'Uncategorized'}
+              </Badge>
+              <EvalBadge summary={evalSummary} />
+            </div>
             <Button asChild variant="outline" size="sm" className="rounded-full">
               <Link href={`/marketplace/${id}`}>View</Link>
             </Button>
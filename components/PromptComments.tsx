@@ -4,6 +4,7 @@
 
 import { useEffect, useState } from 'react';
 
+import ReportButton from '@/components/ReportButton';
 import { supabase } from '@/lib/supabase';
 import { useUser } from '@/lib/useUser';
 
@@ -107,6 +108,11 @@ export default function PromptComments({ promptId }: Props) {
               <span className="text-xs text-slate-500">{new Date(c.created_at).toLocaleString()}</span>
             </div>
             <p className="mt-1 whitespace-pre-wrap text-slate-700">{c.comment}</p>
+            {c.user_id !== user?.id && (
+              <div className="mt-2 flex justify-end">
+                <ReportButton targetType="comment" targetId={c.id} />
+              </div>
+            )}
           </li>
         ))}
         {comments.length === 0 && <p className="text-sm text-slate-600">No comments yet.</p>}
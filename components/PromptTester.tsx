@@ -1,71 +1,279 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+
+import { readSseEvents } from '@/lib/llm/sse';
+import type { LlmProviderId, LlmStopReason, LlmUsage } from '@/lib/llm/types';
+import type { PromptVariable } from '@/lib/prompt-variables';
+import TestRunComparison, { type ComparisonColumn } from './TestRunComparison';
+import TestRunHistory from './TestRunHistory';
 
 type Props = {
   promptText: string;
   promptId: string;
 };
 
-const models = [
-  { value: 'gpt-4o', label: 'GPT-4o' },
-  { value: 'gpt-4o-mini', label: 'GPT-4o Mini' },
-  { value: 'gpt-4', label: 'GPT-4' },
-  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
-  { value: 'text-davinci-003', label: 'text-davinci-003' },
-  { value: 'claude-3-opus', label: 'Claude 3 Opus' },
-  { value: 'claude-3-sonnet', label: 'Claude 3 Sonnet' },
+// `custom` is a model served by the site's own OpenAI-compatible server; the user names the model
+const models: { value: string; label: string; provider: LlmProviderId }[] = [
+  { value: 'gpt-4o', label: 'GPT-4o', provider: 'openai' },
+  { value: 'gpt-4o-mini', label: 'GPT-4o Mini', provider: 'openai' },
+  { value: 'gpt-4', label: 'GPT-4', provider: 'openai' },
+  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo', provider: 'openai' },
+  { value: 'claude-3-opus', label: 'Claude 3 Opus', provider: 'anthropic' },
+  { value: 'claude-3-sonnet', label: 'Claude 3 Sonnet', provider: 'anthropic' },
+  { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro', provider: 'google' },
+  { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash', provider: 'google' },
+  { value: 'mistral-large-latest', label: 'Mistral Large', provider: 'mistral' },
+  { value: 'mistral-small-latest', label: 'Mistral Small', provider: 'mistral' },
+  { value: 'custom', label: 'Self-hosted (OpenAI-compatible)', provider: 'openai-compatible' },
 ];
 
+const PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google',
+  mistral: 'Mistral',
+  'openai-compatible': 'self-hosted server',
+  mock: 'mock',
+};
+
+const MAX_COMPARE_MODELS = 4;
+
+const STOP_REASON_LABELS: Record<LlmStopReason, string> = {
+  end: 'finished',
+  max_tokens: 'cut off at the token limit',
+  stop_sequence: 'stop sequence',
+  content_filter: 'blocked by the provider',
+  other: 'stopped',
+};
+
+// A key saved in account settings; the tester only ever sees its label and last four characters
+type SavedKey = {
+  id: string;
+  provider: LlmProviderId;
+  label: string;
+  key_hint: string;
+  revoked_at: string | null;
+};
+
+type RunResult = {
+  output: string;
+  usage?: LlmUsage;
+  stopReason?: LlmStopReason;
+};
+
 export default function PromptTester({ promptText, promptId }: Props) {
-  const [apiKey, setApiKey] = useState('');
-  const [promptInput, setPromptInput] = useState('');
+  const [apiKeys, setApiKeys] = useState<Partial<Record<LlmProviderId, string>>>({});
+  const [savedKeys, setSavedKeys] = useState<SavedKey[]>([]);
+  const [savedKeyIds, setSavedKeyIds] = useState<Partial<Record<LlmProviderId, string>>>({});
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [model, setModel] = useState(models[0]?.value ?? 'gpt-4o');
-  const [output, setOutput] = useState<string | null>(null);
+  const [customModel, setCustomModel] = useState('');
+  const [result, setResult] = useState<RunResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<{ key: string; columns: ComparisonColumn[] } | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
 
   const warning = useMemo(
     () =>
-      'Your API key is used only for this test request and is not stored. Avoid sharing keys broadly; rotate if needed.',
+      'A pasted API key is used only for this test request and is not stored. Save keys in Settings to reuse them with a monthly spend cap.',
     [],
   );
 
-  const handleRun = async () => {
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/prompts/${promptId}/test`);
+        if (!res.ok) return;
+        const data = await res.json();
+        const loaded: PromptVariable[] = Array.isArray(data?.variables) ? data.variables : [];
+        setVariables(loaded);
+        setValues(
+          Object.fromEntries(loaded.map((variable) => [variable.name, variable.default !== undefined ? String(variable.default) : ''])),
+        );
+      } catch (err) {
+        console.error('Failed to load prompt variables', err);
+      }
+    };
+
+    void load();
+  }, [promptId]);
+
+  useEffect(() => {
+    const loadSavedKeys = async () => {
+      try {
+        const res = await fetch('/api/api-keys');
+        if (!res.ok) return;
+        const payload = await res.json();
+        const keys: SavedKey[] = (payload?.data?.keys ?? []).filter((key: SavedKey) => !key.revoked_at);
+        setSavedKeys(keys);
+        // Preselect the first saved key for each provider
+        const defaults: Partial<Record<LlmProviderId, string>> = {};
+        for (const key of [...keys].reverse()) defaults[key.provider] = key.id;
+        setSavedKeyIds(defaults);
+      } catch (err) {
+        console.error('Failed to load saved API keys', err);
+      }
+    };
+
+    void loadSavedKeys();
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const setValue = (name: string, value: string) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setFieldErrors((prev) => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const selected = models.find((m) => m.value === model) ?? models[0];
+  const activeModels = compareMode ? models.filter((m) => compareModels.includes(m.value)) : [selected];
+  const keyProviders = Array.from(new Set(activeModels.map((m) => m.provider)));
+  const modelName = (m: (typeof models)[number]) => (m.value === 'custom' ? customModel.trim() : m.value);
+
+  const toggleCompareModel = (value: string) => {
+    setCompareModels((prev) =>
+      prev.includes(value) ? prev.filter((m) => m !== value) : [...prev, value].slice(-MAX_COMPARE_MODELS),
+    );
+  };
+
+  const validateRun = () => {
+    const missingKey = keyProviders.find(
+      (provider) => provider !== 'openai-compatible' && !savedKeyIds[provider] && !apiKeys[provider]?.trim(),
+    );
+    if (missingKey) {
+      setError(`Please provide your ${PROVIDER_LABELS[missingKey]} API key.`);
+      return false;
+    }
+    if (activeModels.some((m) => m.value === 'custom') && !customModel.trim()) {
+      setError('Please enter the model name.');
+      return false;
+    }
+    return true;
+  };
+
+  const handleCompare = async () => {
     setError(null);
-    setOutput(null);
+    setFieldErrors({});
+    setResult(null);
+    setComparison(null);
 
-    if (!apiKey.trim()) {
-      setError('Please provide your API key.');
+    if (activeModels.length < 2) {
+      setError('Pick at least two models to compare.');
       return;
     }
+    if (!validateRun()) return;
 
     setLoading(true);
     try {
-      const res = await fetch(`/api/prompts/${promptId}/test`, {
+      const res = await fetch(`/api/prompts/${promptId}/test/compare`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          apiKey: apiKey.trim(),
-          model,
-          promptInput,
+          targets: activeModels.map((m) => ({ model: modelName(m), provider: m.provider })),
+          apiKeys: Object.fromEntries(
+            keyProviders.map((provider) => [provider, savedKeyIds[provider] ? undefined : apiKeys[provider]?.trim() || undefined]),
+          ),
+          apiKeyIds: Object.fromEntries(keyProviders.map((provider) => [provider, savedKeyIds[provider] || undefined])),
+          variables: values,
         }),
       });
+      const payload = await res.json().catch(() => null);
 
       if (!res.ok) {
-        const message = await res.text();
-        throw new Error(message || 'Test request failed.');
+        if (payload?.error?.details?.fields) setFieldErrors(payload.error.details.fields);
+        throw new Error(payload?.error?.message || 'Comparison failed.');
+      }
+
+      setComparison({
+        key: payload.data.comparisonId,
+        columns: payload.data.results.map((r: any, index: number) => ({
+          id: r.runId ?? `${index}`,
+          model: r.model,
+          output: r.output,
+          error: r.error,
+          latencyMs: r.latencyMs,
+          inputTokens: r.usage?.inputTokens ?? null,
+          outputTokens: r.usage?.outputTokens ?? null,
+          stopReason: r.stopReason ? STOP_REASON_LABELS[r.stopReason as LlmStopReason] : null,
+        })),
+      });
+    } catch (err: any) {
+      setError(err.message ?? 'Something went wrong while comparing.');
+    } finally {
+      setLoading(false);
+      setHistoryVersion((v) => v + 1);
+    }
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setFieldErrors({});
+    setResult(null);
+    setComparison(null);
+
+    if (!validateRun()) return;
+
+    const abort = new AbortController();
+    abortRef.current = abort;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/prompts/${promptId}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          apiKeyId: savedKeyIds[selected.provider] || undefined,
+          apiKey: savedKeyIds[selected.provider] ? undefined : apiKeys[selected.provider]?.trim() || undefined,
+          model: modelName(selected),
+          provider: selected.provider,
+          variables: values,
+          stream: true,
+        }),
+        signal: abort.signal,
+      });
+
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        if (data?.fields) setFieldErrors(data.fields);
+        throw new Error(data?.error || 'Test request failed.');
       }
 
-      const data = await res.json();
-      setOutput(typeof data === 'string' ? data : JSON.stringify(data, null, 2));
+      setResult({ output: '' });
+      for await (const event of readSseEvents(res.body)) {
+        const data = JSON.parse(event.data);
+        if (event.event === 'delta') {
+          setResult((prev) => ({ ...prev, output: (prev?.output ?? '') + (data.text ?? '') }));
+        } else if (event.event === 'done') {
+          setResult((prev) => ({ output: prev?.output ?? '', usage: data.usage, stopReason: data.stopReason }));
+        } else if (event.event === 'error') {
+          setError(data.error || 'The test stopped before the model finished.');
+        }
+      }
     } catch (err: any) {
-      setError(err.message ?? 'Something went wrong while testing.');
+      // Stopping keeps whatever output already arrived
+      if (!abort.signal.aborted) {
+        setError(err.message ?? 'Something went wrong while testing.');
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setHistoryVersion((v) => v + 1);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
       <div className="flex items-start justify-between gap-4">
@@ -81,51 +289,107 @@ export default function PromptTester({ promptText, promptId }: Props) {
       <p className="mt-4 text-xs text-slate-500">{warning}</p>
 
       <div className="mt-6 space-y-4">
-        <div className="space-y-2">
-          <label className="block text-sm font-medium text-slate-800" htmlFor="apiKey">
-            Your OpenAI/Anthropic API key — not stored
-          </label>
-          <input
-            id="apiKey"
-            type="password"
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder="sk-..."
-            className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-            autoComplete="off"
-          />
-        </div>
+        {keyProviders.map((provider) => {
+          const providerKeys = savedKeys.filter((key) => key.provider === provider);
+          return (
+            <div key={provider} className="space-y-2">
+              <label className="block text-sm font-medium text-slate-800" htmlFor={`apiKey-${provider}`}>
+                Your {PROVIDER_LABELS[provider]} API key{provider === 'openai-compatible' ? ' (optional)' : ''}
+                {savedKeyIds[provider] ? '' : ' — not stored'}
+              </label>
+              {providerKeys.length > 0 && (
+                <select
+                  aria-label={`Saved ${PROVIDER_LABELS[provider]} key`}
+                  value={savedKeyIds[provider] ?? ''}
+                  onChange={(e) => setSavedKeyIds((prev) => ({ ...prev, [provider]: e.target.value || undefined }))}
+                  className="w-full rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                >
+                  {providerKeys.map((key) => (
+                    <option key={key.id} value={key.id}>
+                      {key.label} (…{key.key_hint})
+                    </option>
+                  ))}
+                  <option value="">Paste a key for this run</option>
+                </select>
+              )}
+              {!savedKeyIds[provider] && (
+                <input
+                  id={`apiKey-${provider}`}
+                  type="password"
+                  value={apiKeys[provider] ?? ''}
+                  onChange={(e) => setApiKeys((prev) => ({ ...prev, [provider]: e.target.value }))}
+                  placeholder="sk-..."
+                  className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+                  autoComplete="off"
+                />
+              )}
+            </div>
+          );
+        })}
 
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-slate-800" htmlFor="model">
-            Model
-          </label>
-          <select
-            id="model"
-            value={model}
-            onChange={(e) => setModel(e.target.value)}
-            className="w-full rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-          >
-            {models.map((m) => (
-              <option key={m.value} value={m.value}>
-                {m.label}
-              </option>
-            ))}
-          </select>
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-slate-800" htmlFor="model">
+              {compareMode ? `Models (up to ${MAX_COMPARE_MODELS})` : 'Model'}
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              <input type="checkbox" checked={compareMode} onChange={(e) => setCompareMode(e.target.checked)} />
+              Compare models
+            </label>
+          </div>
+          {compareMode ? (
+            <div id="model" className="grid grid-cols-2 gap-2">
+              {models.map((m) => (
+                <label key={m.value} className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={compareModels.includes(m.value)}
+                    onChange={() => toggleCompareModel(m.value)}
+                  />
+                  {m.label}
+                </label>
+              ))}
+            </div>
+          ) : (
+            <select
+              id="model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="w-full rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+            >
+              {models.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {activeModels.some((m) => m.value === 'custom') && (
+            <input
+              aria-label="Model name"
+              value={customModel}
+              onChange={(e) => setCustomModel(e.target.value)}
+              placeholder="llama3.1"
+              className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
+            />
+          )}
         </div>
 
         <div className="space-y-2">
-          <label className="block text-sm font-medium text-slate-800" htmlFor="variables">
-            Prompt input / variables (optional)
-          </label>
-          <textarea
-            id="variables"
-            value={promptInput}
-            onChange={(e) => setPromptInput(e.target.value)}
-            rows={4}
-            placeholder="E.g., product name=PromptSwap, audience=marketers"
-            className="w-full rounded-lg border border-slate-200 px-4 py-2 text-sm text-slate-800 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100"
-          />
+          {variables.length > 0 && (
+            <fieldset className="space-y-3">
+              <legend className="text-sm font-medium text-slate-800">Variables</legend>
+              {variables.map((variable) => (
+                <VariableField
+                  key={variable.name}
+                  variable={variable}
+                  value={values[variable.name] ?? ''}
+                  error={fieldErrors[variable.name]}
+                  onChange={(value) => setValue(variable.name, value)}
+                />
+              ))}
+            </fieldset>
+          )}
           <div className="rounded-lg bg-slate-50 p-3 text-xs text-slate-700">
             <div className="font-semibold text-slate-900">Prompt being tested</div>
             <pre className="mt-2 max-h-32 overflow-auto whitespace-pre-wrap text-[11px] leading-relaxed">
@@ -143,26 +407,104 @@ export default function PromptTester({ promptText, promptId }: Props) {
         <div className="flex items-center gap-3">
           <button
             type="button"
-            onClick={handleRun}
+            onClick={compareMode ? handleCompare : handleRun}
             disabled={loading}
             className="inline-flex items-center justify-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:cursor-not-allowed disabled:bg-indigo-300"
           >
-            {loading ? 'Running...' : 'Run Test'}
+            {loading ? 'Running...' : compareMode ? 'Compare' : 'Run Test'}
           </button>
+          {loading && !compareMode && (
+            <button
+              type="button"
+              onClick={handleStop}
+              className="inline-flex items-center justify-center rounded-lg border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:border-slate-300"
+            >
+              Stop
+            </button>
+          )}
           <span className="text-xs text-slate-500">
-            We do not store your key. Rate limiting or provider costs may apply.
+            Pasted keys are not stored. Rate limiting or provider costs may apply.
           </span>
         </div>
 
-        {output && (
+        {result && (
           <div className="rounded-lg border border-slate-200 bg-slate-50 p-4">
-            <div className="text-sm font-semibold text-slate-900">Output</div>
+            <div className="flex items-center justify-between gap-3">
+              <div className="text-sm font-semibold text-slate-900">Output</div>
+              {result.usage && (
+                <div className="text-xs text-slate-500">
+                  {result.usage.inputTokens} in · {result.usage.outputTokens} out
+                  {result.stopReason ? ` · ${STOP_REASON_LABELS[result.stopReason]}` : ''}
+                </div>
+              )}
+            </div>
             <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap text-sm text-slate-800">
-              {output}
+              {result.output}
             </pre>
           </div>
         )}
+
+        {comparison && <TestRunComparison key={comparison.key} columns={comparison.columns} />}
+
+        <TestRunHistory
+          promptId={promptId}
+          refreshKey={historyVersion}
+          onCompare={(columns) => setComparison({ key: columns.map((c) => c.id).join(':'), columns })}
+        />
       </div>
     </div>
   );
 }
+
+const inputClass =
+  'w-full rounded-lg border border-slate-200 px-4 py-2 text-sm text-slate-800 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-100';
+
+type VariableFieldProps = {
+  variable: PromptVariable;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+};
+
+function VariableField({ variable, value, error, onChange }: VariableFieldProps) {
+  const id = `variable-${variable.name}`;
+  const label = variable.name.replace(/_/g, ' ');
+
+  let control;
+  if (variable.type === 'enum' || variable.type === 'boolean') {
+    const options = variable.type === 'enum' ? variable.options ?? [] : ['true', 'false'];
+    control = (
+      <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} bg-white`}>
+        <option value="">Select...</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {variable.type === 'boolean' ? (option === 'true' ? 'Yes' : 'No') : option}
+          </option>
+        ))}
+      </select>
+    );
+  } else if (variable.type === 'text') {
+    control = <textarea id={id} value={value} onChange={(e) => onChange(e.target.value)} rows={3} className={inputClass} />;
+  } else {
+    control = (
+      <input
+        id={id}
+        type={variable.type === 'number' ? 'number' : 'text'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={inputClass}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-xs font-medium capitalize text-slate-700" htmlFor={id}>
+        {label}
+        {!variable.required && <span className="ml-1 font-normal normal-case text-slate-400">(optional)</span>}
+      </label>
+      {control}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { diffLines, type DiffLine } from '@/lib/text-diff';
+
+type Version = {
+  id: string;
+  version_number: number;
+  content: string;
+  notes: string | null;
+  published_at: string | null;
+  rejected_at?: string | null;
+  created_at: string;
+};
+
+type Props = {
+  promptId: string;
+};
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  same: 'text-slate-600',
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-',
+};
+
+// Changelog of a prompt with a line diff between any two versions; owners can roll back
+export default function PromptVersionHistory({ promptId }: Props) {
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/prompts/${promptId}/versions`);
+      if (!res.ok) return;
+      const payload = await res.json();
+      const loaded: Version[] = payload?.data?.versions ?? [];
+      setVersions(loaded);
+      setCurrentVersion(payload?.data?.currentVersion ?? null);
+      setCanEdit(Boolean(payload?.data?.canEdit));
+      // Compare the latest version with the one before it by default
+      setToId(loaded[0]?.id ?? '');
+      setFromId(loaded[1]?.id ?? loaded[0]?.id ?? '');
+    } catch (err) {
+      console.error('Failed to load prompt versions', err);
+    }
+  }, [promptId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const from = versions.find((v) => v.id === fromId);
+  const to = versions.find((v) => v.id === toId);
+  const lines = useMemo(() => (from && to ? diffLines(from.content, to.content) : []), [from, to]);
+  const changed = lines.some((line) => line.type !== 'same');
+
+  const rollback = async (version: Version) => {
+    if (!window.confirm(`Make version ${version.version_number} the current prompt text again?`)) return;
+    setRollingBack(version.id);
+    setError(null);
+    const res = await fetch(`/api/prompts/${promptId}/versions/${version.id}/rollback`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const payload = await res.json().catch(() => ({}));
+    setRollingBack(null);
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Rollback failed.');
+      // A rejected rollback is still saved as a version, so it shows up in the history
+      if (res.status === 422) await load();
+      return;
+    }
+    await load();
+  };
+
+  if (versions.length === 0) return null;
+
+  const versionLabel = (v: Version) =>
+    `v${v.version_number} · ${new Date(v.created_at).toLocaleDateString()}${v.published_at ? '' : v.rejected_at ? ' (rejected)' : ' (unpublished)'}`;
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div>
+        <h2 className="text-xl font-semibold">Version history</h2>
+        <p className="text-sm text-slate-500">
+          {canEdit
+            ? 'Every change to the prompt text is saved as a version. Unpublished versions go live when the prompt is approved.'
+            : 'Your purchase includes every version the creator publishes.'}
+        </p>
+      </div>
+
+      {error && <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>}
+
+      <ul className="space-y-2">
+        {versions.map((v) => (
+          <li key={v.id} className="flex items-start justify-between gap-3 rounded-lg border border-slate-200 p-3 text-sm">
+            <div>
+              <div className="font-medium text-slate-900">
+                Version {v.version_number}
+                {v.version_number === currentVersion && (
+                  <span className="ml-2 rounded-full bg-indigo-50 px-2 py-0.5 text-[11px] font-medium text-indigo-700">
+                    Current
+                  </span>
+                )}
+                {!v.published_at && (
+                  <span className="ml-2 rounded-full bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-700">
+                    Unpublished
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-slate-500">{new Date(v.created_at).toLocaleString()}</div>
+              {v.notes && <p className="mt-1 text-slate-700">{v.notes}</p>}
+            </div>
+            {canEdit && v.version_number !== currentVersion && (
+              <button
+                type="button"
+                onClick={() => rollback(v)}
+                disabled={rollingBack !== null}
+                className="shrink-0 text-xs font-semibold text-indigo-600 hover:text-indigo-700 disabled:text-slate-300"
+              >
+                {rollingBack === v.id ? 'Rolling back...' : 'Roll back to this'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+            <span>Compare</span>
+            <select
+              aria-label="Older version"
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm"
+            >
+              {versions.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {versionLabel(v)}
+                </option>
+              ))}
+            </select>
+            <span>with</span>
+            <select
+              aria-label="Newer version"
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm"
+            >
+              {versions.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {versionLabel(v)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {changed ? (
+            <pre className="max-h-96 overflow-auto rounded-lg border border-slate-200 text-[12px] leading-relaxed">
+              {lines.map((line, index) => (
+                <div key={index} className={`whitespace-pre-wrap px-3 ${LINE_STYLES[line.type]}`}>
+                  <span className="mr-2 select-none text-slate-400">{LINE_MARKERS[line.type]}</span>
+                  {line.text || ' '}
+                </div>
+              ))}
+            </pre>
+          ) : (
+            <p className="text-xs text-slate-500">These versions have the same text.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  REPORT_REASON_LABELS,
+  REPORT_REASONS,
+  type ReportReason,
+  type ReportTargetType,
+} from '@/lib/moderation/report-reasons';
+
+type Props = {
+  targetType: ReportTargetType;
+  targetId: string;
+  className?: string;
+};
+
+// Lets a signed-in user flag a prompt, comment or review for the moderators
+export default function ReportButton({ targetType, targetId, className }: Props) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [state, setState] = useState<'idle' | 'sending' | 'sent' | 'signed-out'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setState('sending');
+    setError(null);
+    const res = await fetch('/api/reports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ targetType, targetId, reason, details: details.trim() || undefined }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (res.status === 401) {
+      setState('signed-out');
+      return;
+    }
+    if (!res.ok) {
+      setState('idle');
+      setError(payload?.error?.message || 'Could not send this report.');
+      return;
+    }
+    setState('sent');
+  };
+
+  if (state === 'signed-out') {
+    return (
+      <p className="text-xs text-slate-500">
+        <Link href="/auth/login" className="font-semibold text-indigo-600 hover:text-indigo-700">
+          Sign in
+        </Link>{' '}
+        to report content.
+      </p>
+    );
+  }
+
+  if (state === 'sent') {
+    return <p className="text-xs text-slate-500">Thanks, a moderator will review your report.</p>;
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={className ?? 'text-xs text-slate-400 hover:text-red-600'}
+      >
+        Report
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-3 text-sm">
+      <label className="block text-xs font-medium text-slate-600">
+        Reason
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as ReportReason)}
+          className="mt-1 w-full rounded-md border border-slate-300 bg-white px-2 py-1.5 text-sm"
+        >
+          {REPORT_REASONS.map((value) => (
+            <option key={value} value={value}>
+              {REPORT_REASON_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <Textarea
+        value={details}
+        onChange={(e) => setDetails(e.target.value)}
+        maxLength={1000}
+        placeholder="Anything the moderators should know (optional)"
+        className="min-h-[60px]"
+      />
+      <div className="flex gap-2">
+        <Button type="button" size="sm" onClick={submit} disabled={state === 'sending'}>
+          {state === 'sending' ? 'Sending...' : 'Send report'}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={() => setOpen(false)} disabled={state === 'sending'}>
+          Cancel
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import type { PromptSearchFilters } from '@/lib/search-filters';
+
+type Props = {
+  filters: PromptSearchFilters;
+};
+
+// Saves the current marketplace search; the user is notified when new prompts match it
+export default function SaveSearchButton({ filters }: Props) {
+  const [state, setState] = useState<'idle' | 'saving' | 'saved' | 'signed-out'>('idle');
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async () => {
+    setState('saving');
+    setError(null);
+    const res = await fetch('/api/saved-searches', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filters }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (res.status === 401) {
+      setState('signed-out');
+      return;
+    }
+    if (!res.ok) {
+      setState('idle');
+      setError(payload?.error?.message || 'Could not save this search.');
+      return;
+    }
+    setState('saved');
+  };
+
+  if (state === 'signed-out') {
+    return (
+      <p className="text-xs text-slate-500">
+        <Link href="/auth/login" className="font-semibold text-indigo-600 hover:text-indigo-700">
+          Sign in
+        </Link>{' '}
+        to save searches.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Button type="button" variant="outline" size="sm" onClick={save} disabled={state !== 'idle'} className="w-full">
+        {state === 'saving' ? 'Saving...' : state === 'saved' ? 'Search saved' : 'Save this search'}
+      </Button>
+      {state === 'saved' && (
+        <p className="text-xs text-slate-500">
+          We will notify you about new matches.{' '}
+          <Link href="/dashboard/settings" className="font-semibold text-indigo-600 hover:text-indigo-700">
+            Manage
+          </Link>
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
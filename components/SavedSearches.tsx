@@ -0,0 +1,115 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+import { searchUrl, type PromptSearchFilters } from '@/lib/search-filters';
+
+type SavedSearch = {
+  id: string;
+  name: string;
+  filters: PromptSearchFilters;
+  notify: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+};
+
+// Saved marketplace searches; each can notify the user when a newly approved prompt matches
+export default function SavedSearches() {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/saved-searches');
+        if (!res.ok) return;
+        const payload = await res.json();
+        setSearches(payload?.data?.searches ?? []);
+      } catch (err) {
+        console.error('Failed to load saved searches', err);
+      }
+    };
+
+    void load();
+  }, []);
+
+  const toggleNotify = async (search: SavedSearch) => {
+    setError(null);
+    const res = await fetch(`/api/saved-searches/${search.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ notify: !search.notify }),
+    });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to update saved search');
+      return;
+    }
+    setSearches((prev) => prev.map((s) => (s.id === search.id ? payload.data.search : s)));
+  };
+
+  const remove = async (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    setError(null);
+    const res = await fetch(`/api/saved-searches/${search.id}`, { method: 'DELETE' });
+    const payload = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(payload?.error?.message || 'Failed to delete saved search');
+      return;
+    }
+    setSearches((prev) => prev.filter((s) => s.id !== search.id));
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-slate-900">Saved searches</h2>
+      <p className="mt-1 text-sm text-slate-600">
+        Save a search from the marketplace to run it again later and hear about new prompts that match it.
+      </p>
+
+      {error && (
+        <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700">{error}</div>
+      )}
+
+      {searches.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">
+          No saved searches yet.{' '}
+          <Link href="/marketplace" className="font-semibold text-indigo-600 hover:text-indigo-700">
+            Browse the marketplace
+          </Link>
+        </p>
+      ) : (
+        <ul className="mt-4 divide-y divide-slate-100 rounded-lg border border-slate-200">
+          {searches.map((search) => (
+            <li key={search.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+              <div className="min-w-0">
+                <Link href={searchUrl(search.filters)} className="font-medium text-slate-900 hover:text-indigo-700">
+                  {search.name}
+                </Link>
+                <div className="text-xs text-slate-500">
+                  {search.last_notified_at
+                    ? `Last match ${new Date(search.last_notified_at).toLocaleDateString()}`
+                    : 'No new matches yet'}
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <label className="flex items-center gap-1 text-xs text-slate-600">
+                  <input type="checkbox" checked={search.notify} onChange={() => toggleNotify(search)} />
+                  Notify me
+                </label>
+                <button
+                  type="button"
+                  onClick={() => remove(search)}
+                  className="text-xs font-semibold text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+
+type PlanInfo = {
+  priceCents: number;
+  currency: string;
+};
+
+export default function SubscribeButton({ creatorId }: { creatorId: string }) {
+  const [plan, setPlan] = useState<PlanInfo | null>(null);
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/creators/${creatorId}/subscription-plan`);
+        if (!res.ok) return;
+        const payload = await res.json();
+        setPlan(payload?.data?.plan ?? null);
+        setSubscribed(Boolean(payload?.data?.subscribed));
+      } catch (err) {
+        console.error("Failed to load subscription plan", err);
+      }
+    };
+
+    void load();
+  }, [creatorId]);
+
+  if (!plan) return null;
+
+  if (subscribed) {
+    return (
+      <div className="rounded-md bg-green-50 px-3 py-1.5 text-xs text-green-700">
+        Subscribed: all approved prompts are yours to download
+      </div>
+    );
+  }
+
+  async function handleSubscribe() {
+    setLoading(true);
+    setError(null);
+
+    const res = await fetch("/api/subscriptions/checkout", {
+      method: "POST",
+      body: JSON.stringify({ creator_id: creatorId }),
+    });
+    const payload = await res.json();
+
+    if (!res.ok || !payload?.data?.url) {
+      setLoading(false);
+      setError(res.status === 401 ? "Sign in to subscribe" : payload?.error?.message ?? "Could not start checkout");
+      return;
+    }
+
+    window.location.href = payload.data.url;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Button disabled={loading} onClick={handleSubscribe}>
+        {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+        Subscribe for ${(plan.priceCents / 100).toFixed(2)}/month
+      </Button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+import { diffWords } from '@/lib/text-diff';
+
+export type ComparisonColumn = {
+  id: string;
+  model: string;
+  output: string | null;
+  error?: string | null;
+  latencyMs: number | null;
+  inputTokens: number | null;
+  outputTokens: number | null;
+  stopReason?: string | null;
+};
+
+type Props = {
+  columns: ComparisonColumn[];
+};
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+function formatLatency(ms: number | null) {
+  if (ms === null) return '—';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+export default function TestRunComparison({ columns }: Props) {
+  const [view, setView] = useState<'side' | 'diff'>('side');
+  const [baseId, setBaseId] = useState(columns[0]?.id ?? '');
+  const [otherId, setOtherId] = useState(columns[1]?.id ?? '');
+
+  const base = columns.find((c) => c.id === baseId) ?? columns[0];
+  const other = columns.find((c) => c.id === otherId) ?? columns[1];
+  const segments = useMemo(
+    () => (base && other ? diffWords(base.output ?? '', other.output ?? '') : []),
+    [base, other],
+  );
+
+  if (columns.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-slate-900">Comparison</div>
+        {columns.length > 1 && (
+          <div className="flex rounded-lg border border-slate-200 bg-white text-xs font-medium">
+            {(['side', 'diff'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1 ${view === option ? 'bg-indigo-600 text-white' : 'text-slate-700'} first:rounded-l-lg last:rounded-r-lg`}
+              >
+                {option === 'side' ? 'Side by side' : 'Diff'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {view === 'side' || columns.length < 2 ? (
+        <div className={`grid grid-cols-1 gap-3 ${GRID_COLUMNS[Math.min(columns.length, 4)]}`}>
+          {columns.map((column) => (
+            <div key={column.id} className="flex flex-col rounded-lg border border-slate-200 bg-white p-3">
+              <div className="text-sm font-semibold text-slate-900">{column.model}</div>
+              <div className="mt-1 text-xs text-slate-500">
+                {formatLatency(column.latencyMs)} · {column.inputTokens ?? '—'} in · {column.outputTokens ?? '—'} out
+                {column.stopReason ? ` · ${column.stopReason}` : ''}
+              </div>
+              {column.error ? (
+                <p className="mt-2 text-sm text-red-600">{column.error}</p>
+              ) : (
+                <pre className="mt-2 max-h-80 flex-1 overflow-auto whitespace-pre-wrap text-sm text-slate-800">
+                  {column.output}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+            <select
+              value={base?.id}
+              onChange={(e) => setBaseId(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1"
+              aria-label="Compare from"
+            >
+              {columns.map((column) => (
+                <option key={column.id} value={column.id}>
+                  {column.model}
+                </option>
+              ))}
+            </select>
+            <span>→</span>
+            <select
+              value={other?.id}
+              onChange={(e) => setOtherId(e.target.value)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1"
+              aria-label="Compare to"
+            >
+              {columns.map((column) => (
+                <option key={column.id} value={column.id}>
+                  {column.model}
+                </option>
+              ))}
+            </select>
+          </div>
+          <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-lg border border-slate-200 bg-white p-3 text-sm text-slate-800">
+            {segments.map((segment, index) => (
+              <span
+                key={index}
+                className={
+                  segment.type === 'added'
+                    ? 'bg-green-100 text-green-900'
+                    : segment.type === 'removed'
+                      ? 'bg-red-100 text-red-900 line-through'
+                      : undefined
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import type { TestRunRow } from '@/lib/test-runs';
+import type { ComparisonColumn } from './TestRunComparison';
+
+type Props = {
+  promptId: string;
+  // Bumped by the tester after each run so the list reloads
+  refreshKey: number;
+  onCompare: (columns: ComparisonColumn[]) => void;
+};
+
+const STATUS_STYLES: Record<TestRunRow['status'], string> = {
+  completed: 'text-green-700',
+  failed: 'text-red-700',
+  cancelled: 'text-amber-700',
+};
+
+export function toComparisonColumn(run: TestRunRow): ComparisonColumn {
+  return {
+    id: run.id,
+    model: run.model_used,
+    output: run.output_data?.text ?? null,
+    error: run.error_message,
+    latencyMs: run.latency_ms,
+    inputTokens: run.input_tokens,
+    outputTokens: run.output_tokens,
+    stopReason: run.output_data?.stop_reason ?? null,
+  };
+}
+
+export default function TestRunHistory({ promptId, refreshKey, onCompare }: Props) {
+  const [runs, setRuns] = useState<TestRunRow[]>([]);
+  const [samples, setSamples] = useState<TestRunRow[]>([]);
+  const [canPublish, setCanPublish] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch(`/api/prompts/${promptId}/test/runs`);
+        if (!res.ok) return;
+        const payload = await res.json();
+        setRuns(payload?.data?.runs ?? []);
+        setSamples(payload?.data?.samples ?? []);
+        setCanPublish(Boolean(payload?.data?.canPublish));
+      } catch (err) {
+        console.error('Failed to load test runs', err);
+      }
+    };
+
+    void load();
+  }, [promptId, refreshKey]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((runId) => runId !== id) : [...prev, id].slice(-4)));
+  };
+
+  const setPublished = async (run: TestRunRow, isPublic: boolean) => {
+    const res = await fetch(`/api/prompts/${promptId}/test/runs/${run.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ is_public: isPublic }),
+    });
+    if (!res.ok) return;
+    const payload = await res.json();
+    const updated: TestRunRow = payload?.data?.run;
+    setRuns((prev) => prev.map((r) => (r.id === updated.id ? updated : r)));
+    setSamples((prev) => (isPublic ? [updated, ...prev.filter((r) => r.id !== updated.id)] : prev.filter((r) => r.id !== updated.id)));
+  };
+
+  const compareSelected = () => {
+    const all = [...runs, ...samples];
+    onCompare(
+      selected
+        .map((id) => all.find((run) => run.id === id))
+        .filter((run): run is TestRunRow => Boolean(run))
+        .map(toComparisonColumn),
+    );
+  };
+
+  if (runs.length === 0 && samples.length === 0) return null;
+
+  const renderRun = (run: TestRunRow, publishable: boolean) => (
+    <li key={run.id} className="flex items-start gap-3 py-2 text-sm">
+      <input
+        type="checkbox"
+        checked={selected.includes(run.id)}
+        onChange={() => toggle(run.id)}
+        className="mt-1"
+        aria-label={`Select run with ${run.model_used}`}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-slate-900">{run.model_used}</span>
+          <span className={`text-xs ${STATUS_STYLES[run.status]}`}>{run.status}</span>
+          <span className="text-xs text-slate-500">
+            {new Date(run.created_at).toLocaleString()}
+            {run.latency_ms !== null ? ` · ${run.latency_ms} ms` : ''}
+            {run.output_tokens !== null ? ` · ${run.output_tokens} tokens` : ''}
+          </span>
+        </div>
+        <p className="truncate text-xs text-slate-600">{run.error_message || run.output_data?.text}</p>
+      </div>
+      {publishable && run.status === 'completed' && (
+        <button
+          type="button"
+          onClick={() => void setPublished(run, !run.is_public)}
+          className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+        >
+          {run.is_public ? 'Unpublish' : 'Publish as sample'}
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold text-slate-900">Test history</div>
+        <button
+          type="button"
+          onClick={compareSelected}
+          disabled={selected.length < 2}
+          className="rounded-lg border border-slate-200 px-3 py-1 text-xs font-semibold text-slate-700 hover:border-slate-300 disabled:opacity-50"
+        >
+          Compare selected ({selected.length})
+        </button>
+      </div>
+
+      {samples.length > 0 && (
+        <div>
+          <div className="text-xs font-medium uppercase text-slate-500">Sample runs from the creator</div>
+          <ul className="divide-y divide-slate-100">{samples.map((run) => renderRun(run, false))}</ul>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div>
+          <div className="text-xs font-medium uppercase text-slate-500">Your runs</div>
+          <ul className="divide-y divide-slate-100">{runs.map((run) => renderRun(run, canPublish))}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
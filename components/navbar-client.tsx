@@ -8,6 +8,7 @@ import { useCallback, useEffect, useState } from "react";
 import { Bell, Check } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import CartDrawer from "@/components/CartDrawer";
 
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 
@@ -191,6 +192,7 @@ export default function NavbarClient({ initialUser }: Props) {
           {user.email && (
             <span className="text-xs text-muted-foreground">{`Signed in as ${user.email}`}</span>
           )}
+          <CartDrawer />
           <div className="relative">
             <Button
               size="sm"
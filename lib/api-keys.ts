@@ -0,0 +1,177 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { BusinessError, ResourceError, UnexpectedError, ValidationError } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import { estimateCostMicros, estimateTokens } from '@/lib/llm/pricing';
+import type { LlmProviderId, LlmUsage } from '@/lib/llm/types';
+
+const API_KEYS_LABEL = 'API_KEY_VAULT';
+
+// Everything about a saved key except its ciphertext; this is all the browser ever receives
+export const API_KEY_COLUMNS =
+  'id,user_id,provider,label,key_hint,monthly_cap_cents,month_spend_micros,spend_month,last_used_at,revoked_at,created_at';
+
+export type StoredApiKey = {
+  id: string;
+  user_id: string;
+  provider: LlmProviderId;
+  label: string;
+  key_hint: string;
+  monthly_cap_cents: number | null;
+  month_spend_micros: number;
+  spend_month: string | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export const MAX_API_KEYS_PER_USER = 20;
+
+// Ciphertext format: v1:<iv>:<auth tag>:<ciphertext>, each part base64
+const CIPHER = 'aes-256-gcm';
+const CIPHER_VERSION = 'v1';
+const IV_BYTES = 12;
+const MICROS_PER_CENT = 10_000;
+
+/**
+ * The key-encryption key comes from `API_KEY_ENCRYPTION_KEY`: 32 random bytes, base64 encoded
+ * (e.g. `openssl rand -base64 32`). Without it saved keys can neither be stored nor used.
+ */
+function getKeyEncryptionKey(): Buffer {
+  const raw = process.env.API_KEY_ENCRYPTION_KEY;
+  const key = raw ? Buffer.from(raw, 'base64') : null;
+  if (!key || key.length !== 32) {
+    throw new UnexpectedError('API_KEY_ENCRYPTION_KEY must be set to 32 base64-encoded bytes');
+  }
+  return key;
+}
+
+// The owner and provider are bound in as associated data, so ciphertext moved to another row fails to decrypt
+function associatedData(userId: string, provider: LlmProviderId) {
+  return Buffer.from(`${userId}:${provider}`, 'utf8');
+}
+
+export function encryptApiKey(plaintext: string, userId: string, provider: LlmProviderId): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, getKeyEncryptionKey(), iv);
+  cipher.setAAD(associatedData(userId, provider));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [CIPHER_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptApiKey(payload: string, userId: string, provider: LlmProviderId): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== CIPHER_VERSION || !iv || !tag || !ciphertext) {
+    throw new UnexpectedError('Unrecognised API key ciphertext');
+  }
+  const decipher = createDecipheriv(CIPHER, getKeyEncryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAAD(associatedData(userId, provider));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export function keyHint(apiKey: string): string {
+  return apiKey.slice(-4);
+}
+
+// Spend is tracked per calendar month (UTC) and starts from zero in a new month
+export function spendMonth(now = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+export function currentSpendMicros(key: Pick<StoredApiKey, 'month_spend_micros' | 'spend_month'>, now = new Date()): number {
+  return key.spend_month === spendMonth(now) ? Number(key.month_spend_micros) : 0;
+}
+
+export type ApiKeyView = StoredApiKey & { spent_this_month_cents: number };
+
+// Copies the known columns one by one so a row read with extra columns cannot leak ciphertext
+export function toApiKeyView(key: StoredApiKey, now = new Date()): ApiKeyView {
+  return {
+    id: key.id,
+    user_id: key.user_id,
+    provider: key.provider,
+    label: key.label,
+    key_hint: key.key_hint,
+    monthly_cap_cents: key.monthly_cap_cents,
+    month_spend_micros: Number(key.month_spend_micros),
+    spend_month: key.spend_month,
+    last_used_at: key.last_used_at,
+    revoked_at: key.revoked_at,
+    created_at: key.created_at,
+    spent_this_month_cents: Math.round(currentSpendMicros(key, now) / MICROS_PER_CENT),
+  };
+}
+
+/**
+ * Loads and decrypts one of the user's saved keys for a run against `provider`. Revoked keys,
+ * keys for another provider and keys that reached their monthly cap are refused before any
+ * request is sent.
+ */
+export async function unlockApiKey(
+  supabase: any,
+  userId: string,
+  keyId: string,
+  provider: LlmProviderId
+): Promise<{ apiKey: string; key: StoredApiKey }> {
+  const { data } = await supabase
+    .from('user_api_keys')
+    .select(`${API_KEY_COLUMNS},encrypted_key`)
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!data || data.revoked_at || !data.encrypted_key) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'Saved API key not found or revoked.');
+  }
+  const { encrypted_key: encryptedKey, ...key } = data as StoredApiKey & { encrypted_key: string };
+
+  if (key.provider !== provider) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, `The saved key "${key.label}" is for ${key.provider}, not ${provider}.`);
+  }
+  if (key.monthly_cap_cents !== null && currentSpendMicros(key) >= key.monthly_cap_cents * MICROS_PER_CENT) {
+    throw new BusinessError(
+      ErrorCodes.SPEND_CAP_REACHED,
+      `The saved key "${key.label}" reached its monthly spend cap. Raise the cap in settings or wait until next month.`
+    );
+  }
+
+  return { apiKey: decryptApiKey(encryptedKey, userId, key.provider), key };
+}
+
+/**
+ * Adds the estimated cost of a run to the key's monthly spend and stamps `last_used_at`. Runs
+ * that ended without a usage report (cancelled or failed mid-stream) are estimated from the
+ * text. The cap is checked before each run, so concurrent runs can overshoot it by one run.
+ */
+export async function recordApiKeyUsage(
+  supabase: any,
+  key: StoredApiKey,
+  run: { model: string; usage?: Pick<LlmUsage, 'inputTokens' | 'outputTokens'> | null; promptText?: string; outputText?: string }
+): Promise<void> {
+  const usage = run.usage ?? {
+    inputTokens: estimateTokens(run.promptText ?? ''),
+    outputTokens: estimateTokens(run.outputText ?? ''),
+  };
+  const now = new Date();
+  // Re-read the spend so runs that share a key (e.g. a comparison) do not overwrite each other
+  const { data: latest } = await supabase
+    .from('user_api_keys')
+    .select('month_spend_micros,spend_month')
+    .eq('id', key.id)
+    .maybeSingle();
+  const { error } = await supabase
+    .from('user_api_keys')
+    .update({
+      month_spend_micros: currentSpendMicros(latest ?? key, now) + estimateCostMicros(key.provider, run.model, usage),
+      spend_month: spendMonth(now),
+      last_used_at: now.toISOString(),
+    })
+    .eq('id', key.id);
+
+  if (error) {
+    logger.error('Failed to record API key usage', { keyId: key.id, userId: key.user_id }, error as Error, API_KEYS_LABEL);
+  }
+}
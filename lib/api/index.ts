@@ -28,6 +28,7 @@ export {
   commentSchema,
   purchaseSchema,
   createSwapSchema,
+  counterSwapSchema,
   updateSwapStatusSchema,
   moderatePromptSchema,
   banUserSchema,
@@ -37,6 +37,13 @@ export const ErrorCodes = {
   INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
   PROMPT_NOT_PURCHASED: 'PROMPT_NOT_PURCHASED',
   STRIPE_ERROR: 'STRIPE_ERROR',
+  INVALID_COUPON: 'INVALID_COUPON',
+  SPEND_CAP_REACHED: 'SPEND_CAP_REACHED',
+  REVIEW_CLAIMED: 'REVIEW_CLAIMED',
+  CLAIM_REQUIRED: 'CLAIM_REQUIRED',
+  DUPLICATE_CONTENT: 'DUPLICATE_CONTENT',
+  CONTENT_REJECTED: 'CONTENT_REJECTED',
+  ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
   
   // Server errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
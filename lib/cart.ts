@@ -0,0 +1,222 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { isListingHidden } from '@/lib/moderation/suspension-status';
+
+// Stripe allows 50 metadata keys per session; each cart line uses one
+export const MAX_CART_ITEMS = 20;
+
+const CART_ITEM_KEY_PREFIX = 'cart_item_';
+const OWNED_PURCHASE_STATUSES = ['paid', 'partially_refunded', 'disputed'];
+
+export type CartItem = {
+  promptId: string;
+  title: string;
+  sellerId: string;
+  priceCents: number;
+  addedAt: string;
+  available: boolean;
+};
+
+// One checkout line as stored in the Stripe session metadata
+export type CartLine = {
+  promptId: string;
+  sellerId: string;
+  amountCents: number;
+  // Absent on sessions created before platform fees were charged
+  platformFeeCents?: number;
+};
+
+export type SellerSubtotal = {
+  sellerId: string;
+  amountCents: number;
+  promptIds: string[];
+};
+
+export function toPriceCents(price: number | string | null | undefined): number {
+  const value = Number(price ?? 0);
+  return Number.isFinite(value) ? Math.round(value * 100) : 0;
+}
+
+function cartError(message: string, details?: any, status = 400) {
+  return new AppError(ErrorCategory.VALIDATION, ErrorCodes.VALIDATION_ERROR, message, details, status);
+}
+
+/**
+ * Loads the user's cart with current prompt titles and prices. Items whose prompt was
+ * removed, unapproved or made free are returned with `available: false`.
+ */
+export async function loadCart(supabase: any, userId: string): Promise<CartItem[]> {
+  const { data: rows, error } = await supabase
+    .from('cart_items')
+    .select('prompt_id, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load cart', { details: error.message }, 500);
+  }
+
+  const promptIds = (rows ?? []).map((row: any) => row.prompt_id);
+  if (promptIds.length === 0) return [];
+
+  const { data: prompts, error: promptsError } = await supabase
+    .from('prompts')
+    .select('id, title, price, user_id, status, is_public, suspended_at')
+    .in('id', promptIds);
+
+  if (promptsError) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load cart prompts', { details: promptsError.message }, 500);
+  }
+
+  const byId = new Map<string, any>((prompts ?? []).map((p: any) => [p.id, p]));
+  return (rows ?? []).map((row: any) => {
+    const prompt = byId.get(row.prompt_id);
+    const priceCents = toPriceCents(prompt?.price);
+    return {
+      promptId: row.prompt_id,
+      title: prompt?.title ?? 'Unavailable prompt',
+      sellerId: prompt?.user_id ?? '',
+      priceCents,
+      addedAt: row.created_at,
+      available: Boolean(prompt) && prompt.status === 'approved' && !isListingHidden(prompt) && priceCents > 0,
+    };
+  });
+}
+
+/**
+ * Returns the prompt ids the user already owns through a purchase that still grants access.
+ */
+export async function findOwnedPromptIds(supabase: any, userId: string, promptIds: string[]): Promise<string[]> {
+  if (promptIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('purchases')
+    .select('prompt_id, status')
+    .eq('buyer_id', userId)
+    .in('prompt_id', promptIds);
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load purchases', { details: error.message }, 500);
+  }
+
+  return (data ?? [])
+    .filter((row: any) => OWNED_PURCHASE_STATUSES.includes(row.status))
+    .map((row: any) => String(row.prompt_id));
+}
+
+/**
+ * Checks that a prompt can be added to the user's cart: it exists, is approved, listed and paid,
+ * is not the user's own, is not already owned and the cart has room.
+ */
+export async function assertCartPrompt(supabase: any, userId: string, promptId: string): Promise<void> {
+  const { data: prompt, error } = await supabase
+    .from('prompts')
+    .select('id, user_id, price, status, is_public, suspended_at')
+    .eq('id', promptId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load prompt', { details: error.message }, 500);
+  }
+
+  if (!prompt) {
+    throw new AppError(ErrorCategory.RESOURCE, ErrorCodes.NOT_FOUND, 'Prompt not found', { promptId }, 404);
+  }
+
+  if (prompt.status !== 'approved') {
+    throw new AppError(ErrorCategory.VALIDATION, ErrorCodes.INVALID_STATUS, 'Only approved prompts can be purchased', { promptId }, 400);
+  }
+
+  if (isListingHidden(prompt)) {
+    throw new AppError(ErrorCategory.VALIDATION, ErrorCodes.INVALID_STATUS, 'This prompt is not on sale right now', { promptId }, 400);
+  }
+
+  if (toPriceCents(prompt.price) <= 0) {
+    throw cartError('Free prompts do not need to be purchased');
+  }
+
+  if (prompt.user_id === userId) {
+    throw cartError('Cannot purchase your own prompt');
+  }
+
+  const owned = await findOwnedPromptIds(supabase, userId, [promptId]);
+  if (owned.length > 0) {
+    throw new AppError(ErrorCategory.BUSINESS, ErrorCodes.ALREADY_EXISTS, 'You already own this prompt', { promptId }, 409);
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('cart_items')
+    .select('prompt_id')
+    .eq('user_id', userId);
+
+  if (itemsError) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load cart', { details: itemsError.message }, 500);
+  }
+
+  const inCart = (items ?? []).some((item: any) => item.prompt_id === promptId);
+  if (!inCart && (items ?? []).length >= MAX_CART_ITEMS) {
+    throw cartError(`A cart may contain at most ${MAX_CART_ITEMS} prompts`);
+  }
+}
+
+export function cartTotalCents(items: CartItem[]): number {
+  return items.filter((item) => item.available).reduce((sum, item) => sum + item.priceCents, 0);
+}
+
+export function groupBySeller(lines: CartLine[]): SellerSubtotal[] {
+  const bySeller = new Map<string, SellerSubtotal>();
+  for (const line of lines) {
+    const subtotal = bySeller.get(line.sellerId) ?? { sellerId: line.sellerId, amountCents: 0, promptIds: [] };
+    subtotal.amountCents += line.amountCents;
+    subtotal.promptIds.push(line.promptId);
+    bySeller.set(line.sellerId, subtotal);
+  }
+  return Array.from(bySeller.values());
+}
+
+/**
+ * Encodes cart lines into Stripe session metadata, one `cart_item_<n>` key per line
+ * holding `promptId:sellerId:amountCents`. The webhook rebuilds the purchases from it.
+ */
+export function encodeCartMetadata(lines: CartLine[]): Record<string, string> {
+  const metadata: Record<string, string> = { cart_item_count: String(lines.length) };
+  lines.forEach((line, index) => {
+    const fee = line.platformFeeCents === undefined ? '' : `:${line.platformFeeCents}`;
+    metadata[`${CART_ITEM_KEY_PREFIX}${index}`] = `${line.promptId}:${line.sellerId}:${line.amountCents}${fee}`;
+  });
+  return metadata;
+}
+
+/**
+ * Returns the cart lines stored on a checkout session, or null for single-prompt sessions.
+ */
+export function parseCartMetadata(metadata: Record<string, string> | null | undefined): CartLine[] | null {
+  const count = Number(metadata?.cart_item_count);
+  if (!metadata || !Number.isInteger(count) || count <= 0) return null;
+
+  const lines: CartLine[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const [promptId, sellerId, amount, fee] = (metadata[`${CART_ITEM_KEY_PREFIX}${index}`] ?? '').split(':');
+    const amountCents = Number(amount);
+    const platformFeeCents = fee === undefined ? undefined : Number(fee);
+    if (
+      !promptId ||
+      !Number.isInteger(amountCents) ||
+      amountCents <= 0 ||
+      (platformFeeCents !== undefined && (!Number.isInteger(platformFeeCents) || platformFeeCents < 0))
+    ) {
+      throw new AppError(
+        ErrorCategory.VALIDATION,
+        'INVALID_METADATA',
+        `Invalid cart line ${index} in checkout session metadata`,
+        { metadata },
+        400
+      );
+    }
+    lines.push(
+      platformFeeCents === undefined
+        ? { promptId, sellerId: sellerId ?? '', amountCents }
+        : { promptId, sellerId: sellerId ?? '', amountCents, platformFeeCents }
+    );
+  }
+  return lines;
+}
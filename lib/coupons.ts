@@ -0,0 +1,106 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+
+// Stripe rejects card payments below $0.50, so a coupon may not take a price under it
+export const MIN_CHARGE_CENTS = 50;
+
+export const COUPON_COLUMNS =
+  'id,creator_id,code,discount_type,discount_value,prompt_id,expires_at,max_redemptions,redemption_count,active,created_at';
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export type CouponRow = {
+  id: string;
+  creator_id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  prompt_id: string | null;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  redemption_count: number;
+  active: boolean;
+  created_at?: string;
+};
+
+export type CouponQuote = {
+  listPriceCents: number;
+  discountCents: number;
+  amountCents: number;
+};
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function couponError(message: string, details?: any) {
+  return new AppError(ErrorCategory.BUSINESS, ErrorCodes.INVALID_COUPON, message, details, 400);
+}
+
+/**
+ * Looks up a creator's coupon by code. Codes are unique per creator, so the same code can
+ * exist for several creators and only the seller's own coupon applies.
+ */
+export async function findCoupon(supabase: any, creatorId: string, code: string): Promise<CouponRow | null> {
+  const { data, error } = await supabase
+    .from('coupons')
+    .select(COUPON_COLUMNS)
+    .eq('creator_id', creatorId)
+    .eq('code', normalizeCouponCode(code))
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load coupon', { details: error.message }, 500);
+  }
+
+  return (data as CouponRow | null) ?? null;
+}
+
+/**
+ * Throws INVALID_COUPON when the coupon cannot be used for the prompt right now.
+ */
+export function assertCouponRedeemable(coupon: CouponRow, promptId: string, now: Date = new Date()) {
+  const details = { code: coupon.code };
+
+  if (!coupon.active) {
+    throw couponError('Coupon is no longer active', details);
+  }
+
+  if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= now.getTime()) {
+    throw couponError('Coupon has expired', details);
+  }
+
+  if (coupon.max_redemptions != null && coupon.redemption_count >= coupon.max_redemptions) {
+    throw couponError('Coupon has reached its redemption limit', details);
+  }
+
+  if (coupon.prompt_id && coupon.prompt_id !== promptId) {
+    throw couponError('Coupon does not apply to this prompt', details);
+  }
+}
+
+/**
+ * Prices a prompt with an optional coupon. Percentage discounts round up to whole cents
+ * in the buyer's favour; fixed discounts are capped at the list price.
+ */
+export function quoteCouponPrice(listPriceCents: number, coupon?: CouponRow | null): CouponQuote {
+  if (!coupon) {
+    return { listPriceCents, discountCents: 0, amountCents: listPriceCents };
+  }
+
+  const rawDiscount =
+    coupon.discount_type === 'percent'
+      ? Math.ceil((listPriceCents * coupon.discount_value) / 100)
+      : coupon.discount_value;
+  const discountCents = Math.min(listPriceCents, Math.max(0, rawDiscount));
+  const amountCents = listPriceCents - discountCents;
+
+  if (amountCents < MIN_CHARGE_CENTS) {
+    throw couponError(`Discounted price must be at least $${(MIN_CHARGE_CENTS / 100).toFixed(2)}`, {
+      code: coupon.code,
+      amountCents,
+    });
+  }
+
+  return { listPriceCents, discountCents, amountCents };
+}
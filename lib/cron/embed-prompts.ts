@@ -0,0 +1,19 @@
+export interface EmbedPromptsConfig {
+  batchSize: number;
+}
+
+// Keeps a run well inside the function timeout when the backend is a remote embeddings API
+const DEFAULT_BATCH_SIZE = 200;
+
+function parseBatchSize(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+export function getEmbedPromptsConfig(): EmbedPromptsConfig {
+  return {
+    batchSize: parseBatchSize(process.env.CRON_EMBED_PROMPTS_BATCH_SIZE, DEFAULT_BATCH_SIZE),
+  };
+}
@@ -0,0 +1,19 @@
+export interface FingerprintPromptsConfig {
+  batchSize: number;
+}
+
+// Fingerprinting is local CPU work, so a run can cover far more prompts than an embedding batch
+const DEFAULT_BATCH_SIZE = 500;
+
+function parseBatchSize(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+export function getFingerprintPromptsConfig(): FingerprintPromptsConfig {
+  return {
+    batchSize: parseBatchSize(process.env.CRON_FINGERPRINT_PROMPTS_BATCH_SIZE, DEFAULT_BATCH_SIZE),
+  };
+}
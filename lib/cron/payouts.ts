@@ -0,0 +1,19 @@
+export interface ScheduledPayoutConfig {
+  holdbackDays: number;
+}
+
+// Matches the 30-day refund window enforced by /api/refunds/request
+const DEFAULT_HOLDBACK_DAYS = 30;
+
+function parseDays(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0) return fallback;
+  return parsed;
+}
+
+export function getScheduledPayoutConfig(): ScheduledPayoutConfig {
+  return {
+    holdbackDays: parseDays(process.env.PAYOUT_HOLDBACK_DAYS, DEFAULT_HOLDBACK_DAYS),
+  };
+}
@@ -0,0 +1,18 @@
+import { PROMPT_SCORE_SETTINGS } from '@/lib/prompt-scores';
+
+export type PromptScoresConfig = typeof PROMPT_SCORE_SETTINGS;
+
+function parsePositive(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+export function getPromptScoresConfig(): PromptScoresConfig {
+  return {
+    ...PROMPT_SCORE_SETTINGS,
+    windowDays: Math.round(parsePositive(process.env.CRON_PROMPT_SCORES_WINDOW_DAYS, PROMPT_SCORE_SETTINGS.windowDays)),
+    halfLifeHours: parsePositive(process.env.CRON_PROMPT_SCORES_HALF_LIFE_HOURS, PROMPT_SCORE_SETTINGS.halfLifeHours),
+  };
+}
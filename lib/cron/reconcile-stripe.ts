@@ -0,0 +1,30 @@
+export interface StripeReconciliationConfig {
+  windowHours: number;
+}
+
+function parseHours(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+// The job runs nightly; the default window overlaps the previous run so late events are not missed
+export function getStripeReconciliationConfig(): StripeReconciliationConfig {
+  return {
+    windowHours: parseHours(process.env.CRON_STRIPE_RECONCILE_WINDOW_HOURS, 48),
+  };
+}
+
+export function getStripeReconciliationWindow(
+  config: StripeReconciliationConfig,
+  now: Date = new Date()
+) {
+  const windowStart = new Date(now.getTime() - config.windowHours * 60 * 60 * 1000);
+  return {
+    windowStart: windowStart.toISOString(),
+    windowEnd: now.toISOString(),
+    createdGte: Math.floor(windowStart.getTime() / 1000),
+    createdLt: Math.floor(now.getTime() / 1000),
+  };
+}
@@ -0,0 +1,57 @@
+import { EMBEDDING_DIMENSIONS, EmbeddingBackend, normalizeVector } from './types';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'this', 'to', 'with', 'your', 'you',
+]);
+
+// Character trigrams let "summarise" and "summarize" share most of their features
+const TRIGRAM_WEIGHT = 0.5;
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i += 1) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => !STOP_WORDS.has(token))
+    .map((token) => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+/**
+ * Embeds text by hashing its words and character trigrams into a fixed-size vector (the
+ * "hashing trick"). It only captures word overlap, not meaning, but needs no model or network,
+ * so it is the default for development and tests.
+ */
+export function hashingEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const add = (feature: string, weight: number) => {
+    const h = hash(feature);
+    // The top bit picks the sign so colliding features tend to cancel out instead of piling up
+    vector[h % EMBEDDING_DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+  };
+
+  for (const token of tokenize(text)) {
+    add(`w:${token}`, 1);
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i += 1) {
+      add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  return normalizeVector(vector);
+}
+
+export const hashingBackend: EmbeddingBackend = {
+  id: 'hashing',
+  model: 'v1',
+  async embed(texts) {
+    return texts.map(hashingEmbedding);
+  },
+};
@@ -0,0 +1,65 @@
+import { hashingBackend } from './hashing';
+import { createEmbeddingsApiBackend } from './openai';
+import { EMBEDDING_BACKEND_IDS, EmbeddingBackend, EmbeddingBackendId } from './types';
+
+export { EMBEDDING_DIMENSIONS, cosineSimilarity } from './types';
+export type { EmbeddingBackend, EmbeddingBackendId } from './types';
+
+const DEFAULT_MODELS: Record<EmbeddingBackendId, string> = {
+  hashing: hashingBackend.model,
+  local: 'all-minilm',
+  openai: 'text-embedding-3-small',
+};
+
+function isEmbeddingBackendId(value: unknown): value is EmbeddingBackendId {
+  return typeof value === 'string' && (EMBEDDING_BACKEND_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the embedding backend from `EMBEDDING_BACKEND`. `hashing` (the default) runs in-process
+ * and needs nothing; `local` calls a CPU model on an OpenAI-compatible server at
+ * `EMBEDDING_BASE_URL` (falling back to `OPENAI_COMPATIBLE_BASE_URL`); `openai` uses
+ * `OPENAI_API_KEY`. `EMBEDDING_MODEL` overrides the backend's default model.
+ */
+export function getEmbeddingBackend(env: NodeJS.ProcessEnv = process.env): EmbeddingBackend {
+  const configured = env.EMBEDDING_BACKEND?.trim().toLowerCase() || 'hashing';
+  if (!isEmbeddingBackendId(configured)) {
+    throw new Error(`Unknown EMBEDDING_BACKEND "${configured}"; use one of ${EMBEDDING_BACKEND_IDS.join(', ')}`);
+  }
+
+  const model = env.EMBEDDING_MODEL?.trim() || DEFAULT_MODELS[configured];
+  switch (configured) {
+    case 'local': {
+      const baseUrl = env.EMBEDDING_BASE_URL || env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseUrl) {
+        throw new Error('EMBEDDING_BASE_URL is not set');
+      }
+      return createEmbeddingsApiBackend({
+        id: 'local',
+        baseUrl,
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+        model,
+        requestDimensions: false,
+      });
+    }
+    case 'openai': {
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is not set');
+      }
+      return createEmbeddingsApiBackend({
+        id: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        apiKey: env.OPENAI_API_KEY,
+        model,
+        requestDimensions: true,
+      });
+    }
+    default:
+      return hashingBackend;
+  }
+}
+
+// Identifies the vector space an embedding lives in, e.g. `local:all-minilm`
+export function embeddingModelId(backend: EmbeddingBackend): string {
+  return `${backend.id}:${backend.model}`;
+}
@@ -0,0 +1,52 @@
+import { postJson } from '@/lib/llm/http';
+import { LlmProviderError } from '@/lib/llm/types';
+import { EMBEDDING_DIMENSIONS, EmbeddingBackend, EmbeddingBackendId, normalizeVector } from './types';
+
+type EmbeddingsApiOptions = {
+  id: Exclude<EmbeddingBackendId, 'hashing'>;
+  baseUrl: string;
+  apiKey?: string | null;
+  model: string;
+  // OpenAI's text-embedding-3 models can shorten their vectors; local servers return the model's own size
+  requestDimensions: boolean;
+};
+
+/**
+ * Builds a backend for any server that speaks the OpenAI `/embeddings` API: OpenAI itself, or a
+ * model running on the CPU of a local Ollama or llama.cpp server (e.g. `all-minilm`, which
+ * produces 384-dimensional vectors).
+ */
+export function createEmbeddingsApiBackend(options: EmbeddingsApiOptions): EmbeddingBackend {
+  const provider = options.id === 'openai' ? 'openai' : 'openai-compatible';
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+
+  return {
+    id: options.id,
+    model: options.model,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const data = await postJson(
+        provider,
+        url,
+        {
+          model: options.model,
+          input: texts,
+          dimensions: options.requestDimensions ? EMBEDDING_DIMENSIONS : undefined,
+        },
+        options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}
+      );
+
+      const rows: { index?: number; embedding?: number[] }[] = Array.isArray(data?.data) ? data.data : [];
+      const vectors = [...rows].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map((row) => row.embedding ?? []);
+      if (vectors.length !== texts.length || vectors.some((vector) => vector.length !== EMBEDDING_DIMENSIONS)) {
+        throw new LlmProviderError(
+          provider,
+          'invalid_request',
+          `${options.model} must return ${EMBEDDING_DIMENSIONS}-dimensional embeddings`
+        );
+      }
+      return vectors.map(normalizeVector);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+export const EMBEDDING_BACKEND_IDS = ['hashing', 'local', 'openai'] as const;
+
+export type EmbeddingBackendId = (typeof EMBEDDING_BACKEND_IDS)[number];
+
+// Every backend produces vectors of this size so they fit the `prompts.embedding vector(384)` column
+export const EMBEDDING_DIMENSIONS = 384;
+
+export interface EmbeddingBackend {
+  id: EmbeddingBackendId;
+  // Stored next to each embedding; vectors from different models are never compared
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
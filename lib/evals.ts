@@ -0,0 +1,371 @@
+import { logger } from '@/lib/logging';
+import { parsePromptVariables, renderPromptTemplate, validateVariableValues } from '@/lib/prompt-variables';
+import { resolveLlmProvider, runLlmCompletion } from '@/lib/llm/registry';
+import { LlmProviderError, type LlmProviderId } from '@/lib/llm/types';
+import { buildTestRequest, recordTestRun } from '@/lib/test-runs';
+
+const EVALS_LABEL = 'PROMPT_EVALS';
+
+/**
+ * Assertions a creator can attach to a test case. All of them are checked against the model
+ * output; `json_schema` parses the output as JSON first (a surrounding code fence is allowed).
+ */
+export type EvalAssertion =
+  | { type: 'contains'; value: string; case_sensitive?: boolean }
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'json_schema'; schema: Record<string, unknown> }
+  | { type: 'max_length'; value: number };
+
+export type EvalAssertionType = EvalAssertion['type'];
+
+export type EvalCase = {
+  id: string;
+  name: string;
+  variables: Record<string, unknown>;
+  assertions: EvalAssertion[];
+};
+
+export type EvalSuiteRow = {
+  prompt_id: string;
+  model: string;
+  provider: LlmProviderId | null;
+  cases: EvalCase[];
+  updated_at: string;
+};
+
+export type EvalRunStatus = 'running' | 'completed' | 'failed';
+
+export type EvalRunRow = {
+  id: string;
+  prompt_id: string;
+  triggered_by: string;
+  model: string;
+  provider: LlmProviderId | null;
+  status: EvalRunStatus;
+  total_cases: number;
+  passed_cases: number;
+  pass_rate: number | string | null;
+  created_at: string;
+  completed_at: string | null;
+};
+
+export type AssertionResult = {
+  type: EvalAssertionType;
+  passed: boolean;
+  message: string | null;
+};
+
+export type EvalCaseResult = {
+  caseId: string;
+  name: string;
+  passed: boolean;
+  output: string | null;
+  assertions: AssertionResult[];
+  error: string | null;
+  runId: string | null;
+};
+
+// What cards and the detail page need to render the badge
+export type EvalSummary = {
+  pass_rate: number | null;
+  case_count: number | null;
+  run_at: string | null;
+  stale: boolean;
+};
+
+export const EVAL_SUITE_COLUMNS = 'prompt_id,model,provider,cases,updated_at';
+export const EVAL_RUN_COLUMNS =
+  'id,prompt_id,triggered_by,model,provider,status,total_cases,passed_cases,pass_rate,created_at,completed_at';
+
+export const MAX_EVAL_CASES = 10;
+export const MAX_EVAL_ASSERTIONS = 10;
+
+const CODE_FENCE_PATTERN = /^```(?:json)?\s*([\s\S]*?)\s*```$/i;
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = describeType(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+/**
+ * Validates a value against the commonly used part of JSON Schema: `type`, `enum`, `const`,
+ * `properties`, `required`, `additionalProperties: false`, `items`, `minItems`/`maxItems`,
+ * `minLength`/`maxLength` and `minimum`/`maximum`. Other keywords are ignored.
+ * Returns one message per violation; an empty list means the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, any>, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path} should be ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} should be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path} should have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path} should have at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path} should be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path} should be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path} should have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (describeType(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties && typeof schema.properties === 'object' ? schema.properties : {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(properties)) {
+      if (key in record && propertySchema && typeof propertySchema === 'object') {
+        errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(record)) {
+        if (!(key in properties)) errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function checkAssertion(output: string, assertion: EvalAssertion): AssertionResult {
+  const result = (passed: boolean, message: string) => ({ type: assertion.type, passed, message: passed ? null : message });
+
+  switch (assertion.type) {
+    case 'contains': {
+      const found = assertion.case_sensitive
+        ? output.includes(assertion.value)
+        : output.toLowerCase().includes(assertion.value.toLowerCase());
+      return result(found, `Output does not contain "${assertion.value}"`);
+    }
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(assertion.pattern, assertion.flags);
+      } catch {
+        return result(false, `Invalid regular expression /${assertion.pattern}/`);
+      }
+      return result(pattern.test(output), `Output does not match /${assertion.pattern}/${assertion.flags ?? ''}`);
+    }
+    case 'json_schema': {
+      const trimmed = output.trim();
+      const json = CODE_FENCE_PATTERN.exec(trimmed)?.[1] ?? trimmed;
+      let value: unknown;
+      try {
+        value = JSON.parse(json);
+      } catch {
+        return result(false, 'Output is not valid JSON');
+      }
+      const errors = validateJsonSchema(value, assertion.schema);
+      return result(errors.length === 0, errors.slice(0, 3).join('; '));
+    }
+    case 'max_length':
+      return result(
+        output.length <= assertion.value,
+        `Output is ${output.length} characters, more than ${assertion.value}`
+      );
+  }
+}
+
+export function passRate(passed: number, total: number): number | null {
+  return total > 0 ? Number((passed / total).toFixed(4)) : null;
+}
+
+export function toEvalSummary(row: {
+  eval_pass_rate?: number | string | null;
+  eval_case_count?: number | null;
+  eval_run_at?: string | null;
+  eval_stale?: boolean | null;
+} | null): EvalSummary | null {
+  if (!row || row.eval_pass_rate === null || row.eval_pass_rate === undefined) return null;
+  return {
+    pass_rate: Number(row.eval_pass_rate),
+    case_count: row.eval_case_count ?? null,
+    run_at: row.eval_run_at ?? null,
+    stale: Boolean(row.eval_stale),
+  };
+}
+
+export async function loadEvalSummary(supabase: any, promptId: string): Promise<EvalSummary | null> {
+  const { data } = await supabase
+    .from('prompts')
+    .select('id,eval_pass_rate,eval_case_count,eval_run_at,eval_stale')
+    .eq('id', promptId)
+    .maybeSingle();
+  return toEvalSummary(data);
+}
+
+type RunEvalSuiteInput = {
+  promptId: string;
+  promptText: string;
+  suite: EvalSuiteRow;
+  userId: string;
+  apiKey?: string | null;
+};
+
+/**
+ * Runs every case of a suite through the same model call the prompt tester uses, records each
+ * case as a test run linked to one `eval_runs` row and, when the model could be reached for
+ * every case, copies the pass rate onto the prompt for the badge. A run where the provider
+ * failed (bad key, rate limit, outage) is marked `failed` and leaves the badge as it was, since
+ * it says nothing about the prompt.
+ */
+export async function runEvalSuite(
+  supabase: any,
+  input: RunEvalSuiteInput
+): Promise<{ run: EvalRunRow; results: EvalCaseResult[] }> {
+  const { promptId, promptText, suite, userId, apiKey } = input;
+  const provider = resolveLlmProvider(suite.model, suite.provider).id;
+
+  const { data: created, error: createError } = await supabase
+    .from('eval_runs')
+    .insert({
+      prompt_id: promptId,
+      triggered_by: userId,
+      model: suite.model,
+      provider,
+      status: 'running',
+      total_cases: suite.cases.length,
+    })
+    .select(EVAL_RUN_COLUMNS)
+    .single();
+  if (createError || !created) {
+    throw createError ?? new Error('Failed to start evaluation run');
+  }
+  const evalRun = created as EvalRunRow;
+
+  const template = parsePromptVariables(promptText);
+  let providerFailed = false;
+
+  const results = await Promise.all(
+    suite.cases.map(async (evalCase): Promise<EvalCaseResult> => {
+      const { values, errors } = validateVariableValues(template.variables, evalCase.variables);
+      const run = {
+        promptId,
+        userId,
+        model: suite.model,
+        provider,
+        variables: values,
+        startedAt: Date.now(),
+        evalRunId: evalRun.id,
+        evalCaseId: evalCase.id,
+      };
+
+      if (Object.keys(errors).length > 0) {
+        const message = `Invalid variables: ${Object.entries(errors)
+          .map(([name, fieldError]) => `${name} (${fieldError})`)
+          .join(', ')}`;
+        const saved = await recordTestRun(supabase, { ...run, status: 'failed', text: '', error: new Error(message) });
+        return { caseId: evalCase.id, name: evalCase.name, passed: false, output: null, assertions: [], error: message, runId: saved?.id ?? null };
+      }
+
+      try {
+        const response = await runLlmCompletion(buildTestRequest(suite.model, renderPromptTemplate(promptText, values)), {
+          provider,
+          credentials: { apiKey },
+        });
+        const assertions = evalCase.assertions.map((assertion) => checkAssertion(response.text, assertion));
+        const saved = await recordTestRun(supabase, {
+          ...run,
+          status: 'complete',
+          text: response.text,
+          response,
+          assertionResults: assertions,
+        });
+        return {
+          caseId: evalCase.id,
+          name: evalCase.name,
+          passed: assertions.every((assertion) => assertion.passed),
+          output: response.text,
+          assertions,
+          error: null,
+          runId: saved?.id ?? null,
+        };
+      } catch (err) {
+        if (err instanceof LlmProviderError) providerFailed = true;
+        const saved = await recordTestRun(supabase, { ...run, status: 'failed', text: '', error: err });
+        return {
+          caseId: evalCase.id,
+          name: evalCase.name,
+          passed: false,
+          output: null,
+          assertions: [],
+          error: err instanceof LlmProviderError ? err.message : 'Model request failed.',
+          runId: saved?.id ?? null,
+        };
+      }
+    })
+  );
+
+  const passed = results.filter((result) => result.passed).length;
+  const completedAt = new Date().toISOString();
+  const finished = {
+    status: (providerFailed ? 'failed' : 'completed') as EvalRunStatus,
+    passed_cases: passed,
+    pass_rate: passRate(passed, results.length),
+    completed_at: completedAt,
+  };
+
+  const { error: runUpdateError } = await supabase.from('eval_runs').update(finished).eq('id', evalRun.id);
+  if (runUpdateError) {
+    logger.error('Failed to finish evaluation run', { promptId, evalRunId: evalRun.id }, runUpdateError as Error, EVALS_LABEL);
+  }
+
+  if (!providerFailed) {
+    const { error: promptUpdateError } = await supabase
+      .from('prompts')
+      .update({
+        eval_pass_rate: finished.pass_rate,
+        eval_case_count: results.length,
+        eval_run_at: completedAt,
+        eval_stale: false,
+      })
+      .eq('id', promptId);
+    if (promptUpdateError) {
+      logger.error('Failed to update prompt eval badge', { promptId, evalRunId: evalRun.id }, promptUpdateError as Error, EVALS_LABEL);
+    }
+  }
+
+  return { run: { ...evalRun, ...finished }, results };
+}
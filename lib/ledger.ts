@@ -0,0 +1,345 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+
+/**
+ * Double-entry ledger for marketplace money movement. Every transaction debits and credits the
+ * same total across these accounts:
+ * - cash: the platform's Stripe balance
+ * - creator_payable: what the platform owes creators (transfers and payouts pay it down)
+ * - platform_revenue: the application fee kept by the platform
+ * - processing_fees: Stripe's processing fee, paid by the platform
+ */
+export type LedgerAccount = 'cash' | 'creator_payable' | 'platform_revenue' | 'processing_fees';
+export type LedgerKind = 'sale' | 'processing_fee' | 'refund' | 'transfer' | 'transfer_reversal' | 'payout';
+export type LedgerDirection = 'debit' | 'credit';
+
+export const LEDGER_ENTRY_COLUMNS =
+  'id,transaction_id,kind,account,direction,amount_cents,currency,creator_id,purchase_id,payout_id,fee_bps,stripe_object_id,created_at';
+
+export type LedgerLine = {
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amountCents: number;
+};
+
+export type LedgerTransaction = {
+  transactionId: string;
+  kind: LedgerKind;
+  creatorId: string;
+  currency: string;
+  purchaseId?: string | null;
+  payoutId?: string | null;
+  feeBps?: number | null;
+  stripeObjectId?: string | null;
+  lines: LedgerLine[];
+};
+
+export type LedgerEntryRow = {
+  id?: string;
+  transaction_id: string;
+  kind: LedgerKind;
+  account: LedgerAccount;
+  direction: LedgerDirection;
+  amount_cents: number;
+  currency?: string;
+  creator_id?: string | null;
+  purchase_id?: string | null;
+  created_at?: string | null;
+};
+
+export type SaleSplit = {
+  grossCents: number;
+  platformFeeCents: number;
+  creatorNetCents: number;
+};
+
+export type CreatorLedgerSummary = {
+  grossSalesCents: number;
+  platformFeesCents: number;
+  refundedCents: number;
+  netEarningsCents: number;
+  paidOutCents: number;
+  availableCents: number;
+};
+
+type PurchaseLedgerInput = {
+  purchaseId: string;
+  creatorId: string;
+  grossCents: number;
+  platformFeeCents: number;
+  feeBps?: number | null;
+  currency: string;
+  transferDestination?: string | null;
+  stripeObjectId?: string | null;
+};
+
+function line(account: LedgerAccount, direction: LedgerDirection, amountCents: number): LedgerLine {
+  return { account, direction, amountCents };
+}
+
+// Zero-amount lines carry no information and are rejected by the amount check
+function nonZero(lines: LedgerLine[]) {
+  return lines.filter((entry) => entry.amountCents > 0);
+}
+
+export function splitSale(grossCents: number, platformFeeCents: number): SaleSplit {
+  const fee = Math.min(Math.max(0, platformFeeCents), Math.max(0, grossCents));
+  return { grossCents, platformFeeCents: fee, creatorNetCents: grossCents - fee };
+}
+
+export function isBalanced(transaction: LedgerTransaction) {
+  const net = transaction.lines.reduce(
+    (sum, entry) => sum + (entry.direction === 'debit' ? entry.amountCents : -entry.amountCents),
+    0
+  );
+  return net === 0;
+}
+
+/**
+ * Records the buyer's payment split into platform fee and creator share. Destination charges
+ * hand the creator share to the connected account immediately, recorded as a transfer.
+ */
+export function saleTransactions(input: PurchaseLedgerInput): LedgerTransaction[] {
+  const split = splitSale(input.grossCents, input.platformFeeCents);
+  if (split.grossCents <= 0) return [];
+
+  const base = {
+    creatorId: input.creatorId,
+    currency: input.currency,
+    purchaseId: input.purchaseId,
+    stripeObjectId: input.stripeObjectId ?? null,
+  };
+
+  const transactions: LedgerTransaction[] = [
+    {
+      ...base,
+      transactionId: `sale:${input.purchaseId}`,
+      kind: 'sale',
+      feeBps: input.feeBps ?? null,
+      lines: nonZero([
+        line('cash', 'debit', split.grossCents),
+        line('creator_payable', 'credit', split.creatorNetCents),
+        line('platform_revenue', 'credit', split.platformFeeCents),
+      ]),
+    },
+  ];
+
+  if (input.transferDestination && split.creatorNetCents > 0) {
+    transactions.push({
+      ...base,
+      transactionId: `transfer:${input.purchaseId}`,
+      kind: 'transfer',
+      stripeObjectId: input.transferDestination,
+      lines: [line('creator_payable', 'debit', split.creatorNetCents), line('cash', 'credit', split.creatorNetCents)],
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Records the part of a purchase refunded since `previousRefundedCents`, reversing creator share
+ * and platform fee in proportion to the sale. The creator share is derived from cumulative totals
+ * so several partial refunds add up to exactly the sale split. Destination charges are refunded
+ * with `reverse_transfer`, which takes the creator share back from the connected account.
+ */
+export function refundTransactions(
+  input: PurchaseLedgerInput & { previousRefundedCents: number; refundedCents: number }
+): LedgerTransaction[] {
+  const split = splitSale(input.grossCents, input.platformFeeCents);
+  const refunded = Math.min(input.refundedCents, split.grossCents);
+  const previous = Math.min(Math.max(0, input.previousRefundedCents), refunded);
+  const delta = refunded - previous;
+  if (delta <= 0 || split.grossCents <= 0) return [];
+
+  const creatorShareOf = (cents: number) => Math.round((split.creatorNetCents * cents) / split.grossCents);
+  const creatorShare = creatorShareOf(refunded) - creatorShareOf(previous);
+  const feeShare = delta - creatorShare;
+
+  const base = {
+    creatorId: input.creatorId,
+    currency: input.currency,
+    purchaseId: input.purchaseId,
+    stripeObjectId: input.stripeObjectId ?? null,
+  };
+
+  const transactions: LedgerTransaction[] = [
+    {
+      ...base,
+      transactionId: `refund:${input.purchaseId}:${refunded}`,
+      kind: 'refund',
+      lines: nonZero([
+        line('creator_payable', 'debit', creatorShare),
+        line('platform_revenue', 'debit', feeShare),
+        line('cash', 'credit', delta),
+      ]),
+    },
+  ];
+
+  if (input.transferDestination && creatorShare > 0) {
+    transactions.push({
+      ...base,
+      transactionId: `transfer_reversal:${input.purchaseId}:${refunded}`,
+      kind: 'transfer_reversal',
+      lines: [line('cash', 'debit', creatorShare), line('creator_payable', 'credit', creatorShare)],
+    });
+  }
+
+  return transactions;
+}
+
+/**
+ * Splits a payment-level amount (such as the Stripe fee on a cart payment) across its purchases
+ * in proportion to their amounts; the last purchase absorbs the rounding remainder.
+ */
+export function allocateByAmount(totalCents: number, amounts: number[]): number[] {
+  const sum = amounts.reduce((acc, amount) => acc + amount, 0);
+  if (sum <= 0) return amounts.map(() => 0);
+
+  let allocated = 0;
+  return amounts.map((amount, index) => {
+    if (index === amounts.length - 1) return totalCents - allocated;
+    const share = Math.round((totalCents * amount) / sum);
+    allocated += share;
+    return share;
+  });
+}
+
+export function processingFeeTransaction(input: {
+  purchaseId: string;
+  creatorId: string;
+  feeCents: number;
+  currency: string;
+  stripeObjectId?: string | null;
+}): LedgerTransaction | null {
+  if (input.feeCents <= 0) return null;
+  return {
+    transactionId: `processing_fee:${input.purchaseId}`,
+    kind: 'processing_fee',
+    creatorId: input.creatorId,
+    currency: input.currency,
+    purchaseId: input.purchaseId,
+    stripeObjectId: input.stripeObjectId ?? null,
+    lines: [line('processing_fees', 'debit', input.feeCents), line('cash', 'credit', input.feeCents)],
+  };
+}
+
+export function payoutTransaction(input: {
+  payoutId: string | null;
+  creatorId: string;
+  amountCents: number;
+  currency: string;
+  stripeTransferId: string;
+}): LedgerTransaction {
+  return {
+    transactionId: `payout:${input.stripeTransferId}`,
+    kind: 'payout',
+    creatorId: input.creatorId,
+    currency: input.currency,
+    payoutId: input.payoutId,
+    stripeObjectId: input.stripeTransferId,
+    lines: [line('creator_payable', 'debit', input.amountCents), line('cash', 'credit', input.amountCents)],
+  };
+}
+
+/**
+ * Inserts each transaction's lines in one statement. Transaction ids are deterministic, so a
+ * transaction that was already recorded (webhook retry, replay, reconciliation) is skipped.
+ * Returns the number of transactions written.
+ */
+export async function recordLedgerTransactions(supabase: any, transactions: LedgerTransaction[]): Promise<number> {
+  let recorded = 0;
+
+  for (const transaction of transactions) {
+    if (transaction.lines.length === 0) continue;
+    if (!isBalanced(transaction)) {
+      throw new AppError(
+        ErrorCategory.UNEXPECTED,
+        ErrorCodes.INTERNAL_ERROR,
+        `Ledger transaction ${transaction.transactionId} is unbalanced`,
+        { lines: transaction.lines },
+        500
+      );
+    }
+
+    const rows = transaction.lines.map((entry) => ({
+      transaction_id: transaction.transactionId,
+      kind: transaction.kind,
+      account: entry.account,
+      direction: entry.direction,
+      amount_cents: entry.amountCents,
+      currency: transaction.currency,
+      creator_id: transaction.creatorId,
+      purchase_id: transaction.purchaseId ?? null,
+      payout_id: transaction.payoutId ?? null,
+      fee_bps: transaction.feeBps ?? null,
+      stripe_object_id: transaction.stripeObjectId ?? null,
+    }));
+
+    const { error } = await supabase.from('ledger_entries').insert(rows);
+    if (error) {
+      if (error.code === '23505') continue;
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        ErrorCodes.DATABASE_ERROR,
+        'Failed to record ledger transaction',
+        { transactionId: transaction.transactionId, details: error.message },
+        500
+      );
+    }
+    recorded += 1;
+  }
+
+  return recorded;
+}
+
+export async function loadCreatorLedger(supabase: any, creatorId: string): Promise<LedgerEntryRow[]> {
+  const { data, error } = await supabase
+    .from('ledger_entries')
+    .select(LEDGER_ENTRY_COLUMNS)
+    .eq('creator_id', creatorId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load ledger', { details: error.message }, 500);
+  }
+
+  return (data ?? []) as LedgerEntryRow[];
+}
+
+/**
+ * Totals a creator's ledger entries.
+ * - netEarnings: creator share of sales less the share reversed by refunds
+ * - paidOut: transfers to the connected account and manual payouts, less reversed transfers
+ * - available: creator_payable balance still held by the platform, i.e. what a payout may send
+ */
+export function summarizeCreatorLedger(entries: LedgerEntryRow[]): CreatorLedgerSummary {
+  const summary: CreatorLedgerSummary = {
+    grossSalesCents: 0,
+    platformFeesCents: 0,
+    refundedCents: 0,
+    netEarningsCents: 0,
+    paidOutCents: 0,
+    availableCents: 0,
+  };
+
+  for (const entry of entries) {
+    const amount = Number(entry.amount_cents ?? 0);
+    const signed = entry.direction === 'credit' ? amount : -amount;
+
+    if (entry.account === 'creator_payable') {
+      summary.availableCents += signed;
+      if (entry.kind === 'sale' || entry.kind === 'refund') summary.netEarningsCents += signed;
+      if (entry.kind === 'transfer' || entry.kind === 'payout' || entry.kind === 'transfer_reversal') {
+        summary.paidOutCents -= signed;
+      }
+    } else if (entry.account === 'platform_revenue') {
+      summary.platformFeesCents += signed;
+    } else if (entry.account === 'cash') {
+      if (entry.kind === 'sale' && entry.direction === 'debit') summary.grossSalesCents += amount;
+      if (entry.kind === 'refund' && entry.direction === 'credit') summary.refundedCents += amount;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,146 @@
+import { kindFromStatus, postJson, postStream, ProviderErrorClassifier } from './http';
+import {
+  buildUsage,
+  LlmCredentials,
+  LlmErrorKind,
+  LlmProvider,
+  LlmProviderError,
+  LlmRequest,
+  LlmStopReason,
+  normalizeStopReason,
+} from './types';
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
+
+const ANTHROPIC_STOP_REASONS: Record<string, LlmStopReason> = {
+  end_turn: 'end',
+  max_tokens: 'max_tokens',
+  stop_sequence: 'stop_sequence',
+  refusal: 'content_filter',
+};
+
+const ANTHROPIC_ERROR_KINDS: Record<string, LlmErrorKind> = {
+  authentication_error: 'auth',
+  permission_error: 'auth',
+  rate_limit_error: 'rate_limit',
+  invalid_request_error: 'invalid_request',
+  not_found_error: 'invalid_request',
+  overloaded_error: 'unavailable',
+  api_error: 'unavailable',
+};
+
+const classifyAnthropicError: ProviderErrorClassifier = (status, body) => ({
+  kind: ANTHROPIC_ERROR_KINDS[body?.error?.type] ?? kindFromStatus(status),
+});
+
+function anthropicPayload(request: LlmRequest) {
+  // System messages are a top-level field rather than a message role
+  const system = request.messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: request.temperature,
+    stop_sequences: request.stop?.length ? request.stop : undefined,
+    system: system || undefined,
+    messages: request.messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({ role: message.role, content: message.content })),
+  };
+}
+
+function anthropicHeaders(credentials: LlmCredentials) {
+  return {
+    'x-api-key': credentials.apiKey ?? '',
+    'anthropic-version': '2023-06-01',
+  };
+}
+
+export const anthropicProvider: LlmProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  matchesModel: (model) => model.startsWith('claude'),
+  async complete(request, credentials) {
+    const data = await postJson(
+      'anthropic',
+      ANTHROPIC_URL,
+      anthropicPayload(request),
+      anthropicHeaders(credentials),
+      classifyAnthropicError
+    );
+
+    const text = Array.isArray(data?.content)
+      ? data.content
+          .filter((block: any) => block?.type === 'text')
+          .map((block: any) => block.text)
+          .join('')
+      : '';
+
+    return {
+      provider: 'anthropic',
+      model: data?.model ?? request.model,
+      text,
+      stopReason: normalizeStopReason(ANTHROPIC_STOP_REASONS, data?.stop_reason),
+      usage: buildUsage(data?.usage?.input_tokens, data?.usage?.output_tokens),
+    };
+  },
+  async *stream(request, credentials, signal) {
+    const events = postStream(
+      'anthropic',
+      ANTHROPIC_URL,
+      { ...anthropicPayload(request), stream: true },
+      anthropicHeaders(credentials),
+      classifyAnthropicError,
+      signal
+    );
+
+    let text = '';
+    let model = request.model;
+    let stopReason: unknown;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of events) {
+      const data = JSON.parse(event.data);
+      switch (data?.type) {
+        case 'message_start':
+          model = data.message?.model ?? model;
+          inputTokens = data.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            text += data.delta.text;
+            yield { type: 'delta', text: data.delta.text };
+          }
+          break;
+        case 'message_delta':
+          stopReason = data.delta?.stop_reason ?? stopReason;
+          outputTokens = data.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          throw new LlmProviderError(
+            'anthropic',
+            ANTHROPIC_ERROR_KINDS[data.error?.type] ?? 'unknown',
+            data.error?.message || 'Anthropic stream failed'
+          );
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        provider: 'anthropic',
+        model,
+        text,
+        stopReason: normalizeStopReason(ANTHROPIC_STOP_REASONS, stopReason),
+        usage: buildUsage(inputTokens, outputTokens),
+      },
+    };
+  },
+};
@@ -0,0 +1,90 @@
+import { getServerCredentials, isLlmProviderId, resolveLlmProvider } from './registry';
+import { LlmMessage, LlmProviderError, LlmResponse, LlmStreamEvent } from './types';
+
+// CHAT_MODEL picks the model (and so the provider); CHAT_LLM_PROVIDER forces one, e.g. "openai-compatible"
+const CHAT_MODEL = process.env.CHAT_MODEL || 'gpt-4o-mini';
+export const CHAT_MAX_TOKENS = 512;
+// Only the most recent messages are sent to the model
+const CHAT_HISTORY_LIMIT = 10;
+
+type ChatHistoryMessage = {
+  role: string;
+  content: string;
+};
+
+export function resolveChatModel() {
+  const configuredProvider = process.env.CHAT_LLM_PROVIDER;
+  const provider = resolveLlmProvider(CHAT_MODEL, isLlmProviderId(configuredProvider) ? configuredProvider : null);
+  const credentials = getServerCredentials(provider.id);
+  // FREE MODE: with the mock flag on or no API key, chat never hits the network
+  const useLocalMock = process.env.USE_MOCK_OPENAI === '1' || (provider.requiresApiKey && !credentials.apiKey);
+
+  return { model: CHAT_MODEL, provider, credentials, useLocalMock };
+}
+
+export function buildLocalMockReply(history: ChatHistoryMessage[], userText: string): string {
+  const lastUser = [...history].reverse().find((m) => m.role !== 'assistant')?.content ?? userText;
+
+  const snippets: string[] = [];
+
+  snippets.push(
+    "I'm a local mock assistant running without a paid OpenAI key. This reply is generated by your own app logic."
+  );
+
+  if (lastUser) {
+    snippets.push(`You said: "${lastUser}"`);
+  }
+
+  snippets.push('In a production setup, this is where a real OpenAI model (like gpt-4o-mini) would respond.');
+
+  return snippets.join(' ');
+}
+
+// `history` already ends with the message the user just sent
+export function buildChatMessages(history: ChatHistoryMessage[]): LlmMessage[] {
+  return [
+    {
+      role: 'system',
+      content: 'You are an AI chatting inside the PromptSwap app. Be concise and helpful.',
+    },
+    ...history.slice(-CHAT_HISTORY_LIMIT).map(
+      (m): LlmMessage => ({
+        role: m.role === 'assistant' ? 'assistant' : 'user',
+        content: m.content,
+      })
+    ),
+  ];
+}
+
+/**
+ * The assistant message to store when the model call fails. Quota and auth problems fall back
+ * to the local mock reply so the app keeps working for free.
+ */
+export function chatErrorReply(err: LlmProviderError, providerLabel: string, history: ChatHistoryMessage[]): string {
+  console.error('[chat] Model error', err.provider, err.kind, err.message);
+
+  if (err.kind === 'quota' || err.kind === 'auth') {
+    console.warn('[chat] Falling back to local mock reply due to provider quota/auth error.');
+    return buildLocalMockReply(history, '');
+  }
+
+  // In development, surface the actual error for debugging
+  if (process.env.NODE_ENV === 'development') {
+    return `${providerLabel} error (${err.kind}): ${err.message.slice(0, 300)}`;
+  }
+
+  return 'I hit an error talking to the model. Please try again in a moment.';
+}
+
+// Streams a reply that did not come from a model (mock or error text) through the same events
+export async function* fixedReplyStream(text: string): AsyncGenerator<LlmStreamEvent> {
+  const response: LlmResponse = {
+    provider: 'mock',
+    model: 'local',
+    text,
+    stopReason: 'end',
+    usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+  };
+  yield { type: 'delta', text };
+  yield { type: 'done', response };
+}
@@ -0,0 +1,128 @@
+import { kindFromStatus, postJson, postStream, ProviderErrorClassifier } from './http';
+import { buildUsage, LlmErrorKind, LlmProvider, LlmRequest, LlmStopReason, normalizeStopReason } from './types';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const GEMINI_STOP_REASONS: Record<string, LlmStopReason> = {
+  STOP: 'end',
+  MAX_TOKENS: 'max_tokens',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+};
+
+const GEMINI_ERROR_KINDS: Record<string, LlmErrorKind> = {
+  UNAUTHENTICATED: 'auth',
+  PERMISSION_DENIED: 'auth',
+  RESOURCE_EXHAUSTED: 'rate_limit',
+  INVALID_ARGUMENT: 'invalid_request',
+  NOT_FOUND: 'invalid_request',
+  UNAVAILABLE: 'unavailable',
+  INTERNAL: 'unavailable',
+};
+
+const classifyGeminiError: ProviderErrorClassifier = (status, body) => {
+  // An invalid key comes back as a 400 INVALID_ARGUMENT with an API_KEY_INVALID reason
+  const reasons: string[] = (body?.error?.details ?? []).map((detail: any) => detail?.reason);
+  if (reasons.includes('API_KEY_INVALID')) return { kind: 'auth' };
+  return { kind: GEMINI_ERROR_KINDS[body?.error?.status] ?? kindFromStatus(status) };
+};
+
+function geminiPayload(request: LlmRequest) {
+  const system = request.messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+  return {
+    contents: request.messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+    systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+    generationConfig: {
+      maxOutputTokens: request.maxTokens,
+      temperature: request.temperature,
+      stopSequences: request.stop?.length ? request.stop : undefined,
+    },
+  };
+}
+
+function candidateText(data: any): string {
+  return (data?.candidates?.[0]?.content?.parts ?? []).map((part: any) => part?.text ?? '').join('');
+}
+
+// A prompt blocked outright has no candidates, only promptFeedback.blockReason
+function finishReasonOf(data: any): string | undefined {
+  return data?.candidates?.[0]?.finishReason ?? (data?.promptFeedback?.blockReason ? 'SAFETY' : undefined);
+}
+
+function usageOf(data: any) {
+  return buildUsage(
+    data?.usageMetadata?.promptTokenCount,
+    data?.usageMetadata?.candidatesTokenCount,
+    data?.usageMetadata?.totalTokenCount
+  );
+}
+
+export const googleProvider: LlmProvider = {
+  id: 'google',
+  label: 'Google Gemini',
+  requiresApiKey: true,
+  matchesModel: (model) => model.startsWith('gemini'),
+  async complete(request, credentials) {
+    const data = await postJson(
+      'google',
+      `${GEMINI_BASE_URL}/${encodeURIComponent(request.model)}:generateContent`,
+      geminiPayload(request),
+      { 'x-goog-api-key': credentials.apiKey ?? '' },
+      classifyGeminiError
+    );
+
+    return {
+      provider: 'google',
+      model: data?.modelVersion ?? request.model,
+      text: candidateText(data),
+      stopReason: normalizeStopReason(GEMINI_STOP_REASONS, finishReasonOf(data)),
+      usage: usageOf(data),
+    };
+  },
+  async *stream(request, credentials, signal) {
+    const events = postStream(
+      'google',
+      `${GEMINI_BASE_URL}/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse`,
+      geminiPayload(request),
+      { 'x-goog-api-key': credentials.apiKey ?? '' },
+      classifyGeminiError,
+      signal
+    );
+
+    // Each event is a partial GenerateContentResponse; the last one has the finish reason and usage
+    let text = '';
+    let last: any = null;
+    for await (const event of events) {
+      const chunk = JSON.parse(event.data);
+      const delta = candidateText(chunk);
+      if (delta) {
+        text += delta;
+        yield { type: 'delta', text: delta };
+      }
+      last = chunk;
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        provider: 'google',
+        model: last?.modelVersion ?? request.model,
+        text,
+        stopReason: normalizeStopReason(GEMINI_STOP_REASONS, finishReasonOf(last)),
+        usage: usageOf(last),
+      },
+    };
+  },
+};
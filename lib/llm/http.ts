@@ -0,0 +1,98 @@
+import axios from 'axios';
+import { readSseEvents, SseEvent } from './sse';
+import { LlmErrorKind, LlmProviderError, LlmProviderId } from './types';
+
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export type ProviderErrorClassifier = (status: number, data: any) => { kind: LlmErrorKind; message?: string };
+
+export function kindFromStatus(status: number): LlmErrorKind {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 400 || status === 404 || status === 413 || status === 422) return 'invalid_request';
+  if (status >= 500) return 'unavailable';
+  return 'unknown';
+}
+
+/**
+ * Posts a JSON payload to a provider and turns HTTP and network failures into `LlmProviderError`s.
+ * Providers pass a classifier when their error bodies say more than the status code, e.g. OpenAI
+ * reports an exhausted quota as a 429 with `insufficient_quota`.
+ */
+function toProviderError(
+  provider: LlmProviderId,
+  status: number,
+  data: any,
+  classify: ProviderErrorClassifier,
+  fallbackMessage?: string
+) {
+  const { kind, message } = classify(status, data);
+  const providerMessage =
+    message || data?.error?.message || data?.message || (typeof data === 'string' && data ? data : null) || fallbackMessage;
+  return new LlmProviderError(provider, kind, providerMessage || `${provider} request failed`, status);
+}
+
+export async function postJson(
+  provider: LlmProviderId,
+  url: string,
+  payload: unknown,
+  headers: Record<string, string>,
+  classify: ProviderErrorClassifier = (status) => ({ kind: kindFromStatus(status) })
+): Promise<any> {
+  try {
+    const { data } = await axios.post(url, payload, {
+      headers: { 'Content-Type': 'application/json', ...headers },
+      timeout: REQUEST_TIMEOUT_MS,
+    });
+    return data;
+  } catch (err: any) {
+    if (err instanceof LlmProviderError) throw err;
+
+    const status: number | undefined = err?.response?.status;
+    if (!status) {
+      throw new LlmProviderError(provider, 'unavailable', err?.message || `Could not reach ${provider}`);
+    }
+
+    throw toProviderError(provider, status, err.response.data, classify, err.message);
+  }
+}
+
+/**
+ * Streaming counterpart of `postJson`: opens the request with fetch and yields the provider's
+ * server-sent events. Aborting `signal` cancels the upstream request; the abort error is passed
+ * through unchanged so callers can tell a cancellation from a provider failure.
+ */
+export async function* postStream(
+  provider: LlmProviderId,
+  url: string,
+  payload: unknown,
+  headers: Record<string, string>,
+  classify: ProviderErrorClassifier = (status) => ({ kind: kindFromStatus(status) }),
+  signal?: AbortSignal
+): AsyncGenerator<SseEvent> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...headers },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  } catch (err: any) {
+    if (signal?.aborted) throw err;
+    throw new LlmProviderError(provider, 'unavailable', err?.message || `Could not reach ${provider}`);
+  }
+
+  if (!response.ok || !response.body) {
+    const text = await response.text().catch(() => '');
+    let data: any = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // keep the raw text as the message
+    }
+    throw toProviderError(provider, response.status, data, classify, response.statusText);
+  }
+
+  yield* readSseEvents(response.body);
+}
@@ -0,0 +1,69 @@
+import { LlmErrorKind, LlmProvider, LlmProviderError, LlmRequest, LlmResponse, LlmStopReason } from './types';
+
+const MOCK_ERROR_KINDS: LlmErrorKind[] = ['auth', 'rate_limit', 'quota', 'invalid_request', 'unavailable', 'unknown'];
+
+// Whitespace-separated words stand in for tokens so counts are predictable in tests
+function countTokens(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function mockCompletion(request: LlmRequest): LlmResponse {
+  const errorKind = request.model.startsWith('mock-error-') ? request.model.slice('mock-error-'.length) : null;
+  if (errorKind) {
+    const kind = MOCK_ERROR_KINDS.includes(errorKind as LlmErrorKind) ? (errorKind as LlmErrorKind) : 'unknown';
+    throw new LlmProviderError('mock', kind, `Mock provider error: ${kind}`);
+  }
+
+  const lastUser = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+  let text = `[mock:${request.model}] ${lastUser}`.trim();
+  let stopReason: LlmStopReason = 'end';
+
+  for (const sequence of request.stop ?? []) {
+    const index = sequence ? text.indexOf(sequence) : -1;
+    if (index >= 0) {
+      text = text.slice(0, index);
+      stopReason = 'stop_sequence';
+    }
+  }
+
+  if (request.maxTokens !== undefined && countTokens(text) > request.maxTokens) {
+    text = text.split(/\s+/).filter(Boolean).slice(0, request.maxTokens).join(' ');
+    stopReason = 'max_tokens';
+  }
+
+  const inputTokens = request.messages.reduce((sum, message) => sum + countTokens(message.content), 0);
+  const outputTokens = countTokens(text);
+
+  return {
+    provider: 'mock',
+    model: request.model,
+    text,
+    stopReason,
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+  };
+}
+
+/**
+ * Offline provider that never touches the network. It echoes the last user message as
+ * `[mock:<model>] <message>`, honours `maxTokens` and `stop` like a real model would, and
+ * `mock-error-<kind>` models (e.g. `mock-error-quota`) fail with that error kind.
+ */
+export const mockProvider: LlmProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  requiresApiKey: false,
+  matchesModel: (model) => model === 'mock' || model.startsWith('mock-'),
+  async complete(request) {
+    return mockCompletion(request);
+  },
+  // Streams the same answer word by word, so streamed and non-streamed runs always agree
+  async *stream(request, _credentials, signal) {
+    const response = mockCompletion(request);
+    const words = response.text.split(/(?<=\s)/);
+    for (const word of words) {
+      signal?.throwIfAborted();
+      yield { type: 'delta', text: word };
+    }
+    yield { type: 'done', response };
+  },
+};
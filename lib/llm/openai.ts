@@ -0,0 +1,160 @@
+import { kindFromStatus, postJson, postStream, ProviderErrorClassifier } from './http';
+import {
+  buildUsage,
+  LlmCredentials,
+  LlmProvider,
+  LlmProviderError,
+  LlmProviderId,
+  LlmRequest,
+  LlmStopReason,
+  LlmUsage,
+  normalizeStopReason,
+} from './types';
+
+const OPENAI_STOP_REASONS: Record<string, LlmStopReason> = {
+  stop: 'end',
+  length: 'max_tokens',
+  model_length: 'max_tokens',
+  content_filter: 'content_filter',
+};
+
+const classifyChatCompletionsError: ProviderErrorClassifier = (status, body) => ({
+  kind: body?.error?.code === 'insufficient_quota' ? 'quota' : kindFromStatus(status),
+});
+
+type ChatCompletionsOptions = {
+  id: LlmProviderId;
+  label: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  modelPattern?: RegExp;
+  // Whether the server accepts `stream_options`; Mistral rejects unknown fields but reports usage anyway
+  streamUsageOption: boolean;
+};
+
+/**
+ * Builds a provider for any server that speaks the OpenAI chat completions API. OpenAI and
+ * Mistral use it with their own base URL; `openai-compatible` takes the base URL from the
+ * credentials so it can point at a self-hosted Ollama or llama.cpp server.
+ */
+export function createChatCompletionsProvider(options: ChatCompletionsOptions): LlmProvider {
+  const endpoint = (credentials: LlmCredentials) => {
+    const baseUrl = (options.defaultBaseUrl ?? credentials.baseUrl)?.replace(/\/+$/, '');
+    if (!baseUrl) {
+      throw new LlmProviderError(options.id, 'invalid_request', `${options.label} has no base URL configured`);
+    }
+    return `${baseUrl}/chat/completions`;
+  };
+
+  const payload = (request: LlmRequest) => ({
+    model: request.model,
+    messages: request.messages,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    stop: request.stop?.length ? request.stop : undefined,
+  });
+
+  const headers = (credentials: LlmCredentials): Record<string, string> =>
+    credentials.apiKey ? { Authorization: `Bearer ${credentials.apiKey}` } : {};
+
+  return {
+    id: options.id,
+    label: options.label,
+    requiresApiKey: options.requiresApiKey,
+    matchesModel: (model) => Boolean(options.modelPattern?.test(model)),
+    async complete(request, credentials) {
+      const data = await postJson(
+        options.id,
+        endpoint(credentials),
+        payload(request),
+        headers(credentials),
+        classifyChatCompletionsError
+      );
+
+      const choice = data?.choices?.[0];
+      return {
+        provider: options.id,
+        model: data?.model ?? request.model,
+        text: choice?.message?.content ?? '',
+        stopReason: normalizeStopReason(OPENAI_STOP_REASONS, choice?.finish_reason),
+        usage: buildUsage(data?.usage?.prompt_tokens, data?.usage?.completion_tokens, data?.usage?.total_tokens),
+      };
+    },
+    async *stream(request, credentials, signal) {
+      const events = postStream(
+        options.id,
+        endpoint(credentials),
+        {
+          ...payload(request),
+          stream: true,
+          stream_options: options.streamUsageOption ? { include_usage: true } : undefined,
+        },
+        headers(credentials),
+        classifyChatCompletionsError,
+        signal
+      );
+
+      let text = '';
+      let model = request.model;
+      let finishReason: unknown;
+      let usage: LlmUsage = buildUsage(0, 0);
+
+      for await (const event of events) {
+        if (event.data === '[DONE]') break;
+        const chunk = JSON.parse(event.data);
+        if (chunk?.error) {
+          throw new LlmProviderError(options.id, 'unknown', chunk.error.message || `${options.label} stream failed`);
+        }
+
+        model = chunk?.model ?? model;
+        // With include_usage the final chunk carries usage and an empty choices array
+        if (chunk?.usage) {
+          usage = buildUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens, chunk.usage.total_tokens);
+        }
+        const choice = chunk?.choices?.[0];
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          yield { type: 'delta', text: delta };
+        }
+      }
+
+      yield {
+        type: 'done',
+        response: {
+          provider: options.id,
+          model,
+          text,
+          stopReason: normalizeStopReason(OPENAI_STOP_REASONS, finishReason),
+          usage,
+        },
+      };
+    },
+  };
+}
+
+export const openaiProvider = createChatCompletionsProvider({
+  id: 'openai',
+  label: 'OpenAI',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+  modelPattern: /^(gpt-|chatgpt-|o\d)/,
+  streamUsageOption: true,
+});
+
+export const mistralProvider = createChatCompletionsProvider({
+  id: 'mistral',
+  label: 'Mistral',
+  defaultBaseUrl: 'https://api.mistral.ai/v1',
+  requiresApiKey: true,
+  modelPattern: /^(mistral-|open-mistral|open-mixtral|ministral-|codestral-|pixtral-|magistral-)/,
+  streamUsageOption: false,
+});
+
+export const openaiCompatibleProvider = createChatCompletionsProvider({
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible server',
+  requiresApiKey: false,
+  streamUsageOption: true,
+});
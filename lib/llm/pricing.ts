@@ -0,0 +1,57 @@
+import type { LlmProviderId, LlmUsage } from './types';
+
+// USD per million tokens, matched by model-name prefix (longest prefix wins)
+type ModelPrice = { prefix: string; input: number; output: number };
+
+const MODEL_PRICES: ModelPrice[] = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4-turbo', input: 10, output: 30 },
+  { prefix: 'gpt-4', input: 30, output: 60 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+  { prefix: 'o1-mini', input: 3, output: 12 },
+  { prefix: 'o1', input: 15, output: 60 },
+  { prefix: 'claude-3-haiku', input: 0.25, output: 1.25 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-3-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-opus', input: 15, output: 75 },
+  { prefix: 'gemini-1.5-flash', input: 0.075, output: 0.3 },
+  { prefix: 'gemini-1.5-pro', input: 1.25, output: 5 },
+  { prefix: 'mistral-small', input: 0.2, output: 0.6 },
+  { prefix: 'mistral-large', input: 2, output: 6 },
+];
+
+// Used for models missing above; errs on the expensive side so spend caps are not overshot
+const PROVIDER_FALLBACK_PRICES: Record<'openai' | 'anthropic' | 'google' | 'mistral', { input: number; output: number }> = {
+  openai: { input: 30, output: 60 },
+  anthropic: { input: 15, output: 75 },
+  google: { input: 1.25, output: 5 },
+  mistral: { input: 2, output: 6 },
+};
+
+// Rough tokens-per-character ratio for runs that end without a usage report
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimated cost of one call in micro-dollars (millionths of a dollar). Prices are per million
+ * tokens, so tokens × price is already in micro-dollars.
+ */
+export function estimateCostMicros(
+  provider: LlmProviderId,
+  model: string,
+  usage: Pick<LlmUsage, 'inputTokens' | 'outputTokens'>
+): number {
+  // Self-hosted servers and the mock provider cost nothing per token
+  if (provider === 'openai-compatible' || provider === 'mock') return 0;
+
+  const match = MODEL_PRICES.filter((price) => model.startsWith(price.prefix)).sort(
+    (a, b) => b.prefix.length - a.prefix.length
+  )[0];
+  const price = match ?? PROVIDER_FALLBACK_PRICES[provider];
+  return Math.ceil(usage.inputTokens * price.input + usage.outputTokens * price.output);
+}
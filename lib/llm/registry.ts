@@ -0,0 +1,92 @@
+import { anthropicProvider } from './anthropic';
+import { googleProvider } from './google';
+import { mockProvider } from './mock';
+import { mistralProvider, openaiCompatibleProvider, openaiProvider } from './openai';
+import {
+  LlmCredentials,
+  LlmProvider,
+  LlmProviderError,
+  LlmProviderId,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamEvent,
+} from './types';
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  google: googleProvider,
+  mistral: mistralProvider,
+  'openai-compatible': openaiCompatibleProvider,
+  mock: mockProvider,
+};
+
+// Environment variables holding the server's own key for each provider (used by chat, never by the tester)
+const SERVER_API_KEY_ENV: Record<LlmProviderId, string | null> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_API_KEY',
+  mistral: 'MISTRAL_API_KEY',
+  'openai-compatible': 'OPENAI_COMPATIBLE_API_KEY',
+  mock: null,
+};
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, value);
+}
+
+/**
+ * Picks the provider for a model. An explicit provider always wins, which is how models served
+ * by an OpenAI-compatible server (e.g. `llama3.1` on Ollama) are reached; otherwise the model
+ * name decides, falling back to OpenAI for names no provider recognises.
+ */
+export function resolveLlmProvider(model: string, providerId?: LlmProviderId | null): LlmProvider {
+  if (providerId) return LLM_PROVIDERS[providerId];
+  return Object.values(LLM_PROVIDERS).find((provider) => provider.matchesModel(model)) ?? openaiProvider;
+}
+
+export function getServerCredentials(providerId: LlmProviderId): LlmCredentials {
+  const keyEnv = SERVER_API_KEY_ENV[providerId];
+  return { apiKey: keyEnv ? process.env[keyEnv] || null : null };
+}
+
+/**
+ * The base URL for `openai-compatible` comes from `OPENAI_COMPATIBLE_BASE_URL` unless the caller
+ * passes one, so user input never chooses which host the server calls.
+ */
+function prepareCall(model: string, options: { provider?: LlmProviderId | null; credentials: LlmCredentials }) {
+  const provider = resolveLlmProvider(model, options.provider);
+  const credentials: LlmCredentials = {
+    apiKey: options.credentials.apiKey?.trim() || null,
+    baseUrl:
+      provider.id === 'openai-compatible'
+        ? options.credentials.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || null
+        : null,
+  };
+
+  if (provider.requiresApiKey && !credentials.apiKey) {
+    throw new LlmProviderError(provider.id, 'auth', `An API key is required for ${provider.label}`);
+  }
+
+  return { provider, credentials };
+}
+
+export async function runLlmCompletion(
+  request: LlmRequest,
+  options: { provider?: LlmProviderId | null; credentials: LlmCredentials }
+): Promise<LlmResponse> {
+  const { provider, credentials } = prepareCall(request.model, options);
+  return provider.complete(request, credentials);
+}
+
+/**
+ * Streams a completion through the resolved provider. Aborting `signal` stops the upstream
+ * request and makes the iteration throw the abort error.
+ */
+export async function* streamLlmCompletion(
+  request: LlmRequest,
+  options: { provider?: LlmProviderId | null; credentials: LlmCredentials; signal?: AbortSignal }
+): AsyncGenerator<LlmStreamEvent> {
+  const { provider, credentials } = prepareCall(request.model, options);
+  yield* provider.stream(request, credentials, options.signal);
+}
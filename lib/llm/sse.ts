@@ -0,0 +1,52 @@
+/**
+ * Server-sent events helpers shared by the provider adapters (reading upstream streams) and the
+ * browser (reading our own routes), so this module must not import anything server-only.
+ */
+export type SseEvent = {
+  event: string;
+  data: string;
+};
+
+export function encodeSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Yields events from an SSE body as they arrive. Events without an `event:` line are reported
+ * as `message`, and multi-line `data:` fields are joined with newlines as the spec describes.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        }
+        if (data.length > 0) yield { event, data: data.join('\n') };
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    // Stopping early (e.g. the caller was cancelled) closes the upstream connection too
+    if (!finished) await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,96 @@
+import { encodeSseEvent } from './sse';
+import { LlmProviderError, LlmResponse, LlmStreamEvent } from './types';
+
+/**
+ * How a streamed completion ended. `text` is everything streamed so far, so a cancelled or
+ * failed stream can still be saved as a partial answer.
+ */
+export type LlmStreamOutcome =
+  | { status: 'complete'; text: string; response: LlmResponse }
+  | { status: 'cancelled'; text: string }
+  | { status: 'failed'; text: string; error: unknown };
+
+type LlmSseOptions = {
+  // Aborted when the client goes away, which also stops the upstream provider request
+  abort: AbortController;
+  // Extra fields for the final `done` event, e.g. the id of a message saved in `onFinish`
+  onFinish?: (outcome: LlmStreamOutcome) => Promise<Record<string, unknown> | void>;
+  donePayload?: (response: LlmResponse) => Record<string, unknown>;
+};
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Turns a provider stream into a `text/event-stream` response with `delta`, `done` and `error`
+ * events. The first event is awaited before responding, so a bad key or an unknown model still
+ * rejects here and the caller can answer with a normal JSON error and status code.
+ */
+export async function createLlmSseResponse(
+  events: AsyncGenerator<LlmStreamEvent>,
+  options: LlmSseOptions
+): Promise<Response> {
+  const first = await events.next();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(encoder.encode(encodeSseEvent(event, data)));
+        } catch {
+          // The client already disconnected
+        }
+      };
+
+      let text = '';
+      let outcome: LlmStreamOutcome | null = null;
+      try {
+        for (let step = first; !step.done; step = await events.next()) {
+          if (step.value.type === 'delta') {
+            text += step.value.text;
+            send('delta', { text: step.value.text });
+          } else {
+            outcome = { status: 'complete', text, response: step.value.response };
+          }
+        }
+      } catch (error) {
+        outcome = options.abort.signal.aborted ? { status: 'cancelled', text } : { status: 'failed', text, error };
+      }
+      outcome ??= { status: 'failed', text, error: new Error('Stream ended without a final event') };
+
+      let extra: Record<string, unknown> | void = undefined;
+      try {
+        extra = await options.onFinish?.(outcome);
+      } catch (error) {
+        console.error('[llm] Failed to finish stream', error);
+      }
+
+      if (outcome.status === 'complete') {
+        send('done', { ...(options.donePayload?.(outcome.response) ?? {}), ...(extra ?? {}) });
+      } else if (outcome.status === 'failed') {
+        const error = outcome.error;
+        send('error', {
+          error: error instanceof Error ? error.message : 'Model request failed.',
+          kind: error instanceof LlmProviderError ? error.kind : 'unknown',
+          ...(extra ?? {}),
+        });
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Already closed by a cancel
+      }
+    },
+    cancel() {
+      options.abort.abort();
+    },
+  });
+
+  return new Response(body, { headers: SSE_HEADERS });
+}
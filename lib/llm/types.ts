@@ -0,0 +1,105 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+
+export const LLM_PROVIDER_IDS = ['openai', 'anthropic', 'google', 'mistral', 'openai-compatible', 'mock'] as const;
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export type LlmMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type LlmRequest = {
+  model: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  stop?: string[];
+};
+
+export type LlmCredentials = {
+  apiKey?: string | null;
+  // Only used by providers that talk to a configurable server, e.g. a local Ollama instance
+  baseUrl?: string | null;
+};
+
+/**
+ * Why the model stopped, in the same terms for every provider:
+ * - end: the model finished its answer
+ * - max_tokens: the answer was cut off by the token limit
+ * - stop_sequence: a requested stop sequence was produced
+ * - content_filter: the provider withheld or cut the answer for safety reasons
+ * - other: anything the provider reports that does not fit the above
+ */
+export type LlmStopReason = 'end' | 'max_tokens' | 'stop_sequence' | 'content_filter' | 'other';
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+};
+
+export type LlmResponse = {
+  provider: LlmProviderId;
+  model: string;
+  text: string;
+  stopReason: LlmStopReason;
+  usage: LlmUsage;
+};
+
+// A streamed completion is a series of text deltas followed by exactly one `done` event
+export type LlmStreamEvent = { type: 'delta'; text: string } | { type: 'done'; response: LlmResponse };
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  // Whether a model name clearly belongs to this provider, used when no provider is given
+  matchesModel(model: string): boolean;
+  complete(request: LlmRequest, credentials: LlmCredentials): Promise<LlmResponse>;
+  stream(request: LlmRequest, credentials: LlmCredentials, signal?: AbortSignal): AsyncIterable<LlmStreamEvent>;
+}
+
+export type LlmErrorKind = 'auth' | 'rate_limit' | 'quota' | 'invalid_request' | 'unavailable' | 'unknown';
+
+const LLM_ERROR_STATUS: Record<LlmErrorKind, number> = {
+  auth: 401,
+  rate_limit: 429,
+  quota: 402,
+  invalid_request: 400,
+  unavailable: 503,
+  unknown: 502,
+};
+
+/**
+ * A failed model call with the provider's error mapped onto a common `kind`, so callers can
+ * react to a bad key or an exhausted quota without knowing each provider's error format.
+ */
+export class LlmProviderError extends AppError {
+  public readonly provider: LlmProviderId;
+  public readonly kind: LlmErrorKind;
+
+  constructor(provider: LlmProviderId, kind: LlmErrorKind, message: string, providerStatus?: number) {
+    super(
+      ErrorCategory.EXTERNAL,
+      ErrorCodes.EXTERNAL_SERVICE_ERROR,
+      message,
+      { provider, kind, providerStatus },
+      LLM_ERROR_STATUS[kind]
+    );
+    this.name = 'LlmProviderError';
+    this.provider = provider;
+    this.kind = kind;
+  }
+}
+
+export function buildUsage(inputTokens: unknown, outputTokens: unknown, totalTokens?: unknown): LlmUsage {
+  const input = Number(inputTokens) || 0;
+  const output = Number(outputTokens) || 0;
+  return { inputTokens: input, outputTokens: output, totalTokens: Number(totalTokens) || input + output };
+}
+
+export function normalizeStopReason(reasons: Record<string, LlmStopReason>, raw: unknown): LlmStopReason {
+  if (typeof raw !== 'string' || !raw) return 'end';
+  return reasons[raw] ?? 'other';
+}
@@ -0,0 +1,279 @@
+import { BLOCK_SIMILARITY, findSimilarPromptsByText } from '@/lib/moderation/plagiarism';
+
+export const SCAN_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export type ScanSeverity = (typeof SCAN_SEVERITIES)[number];
+
+export type ScanFinding = {
+  classifier: string;
+  rule: string;
+  severity: ScanSeverity;
+  message: string;
+  // Redacted so findings never store a secret or personal data in full
+  excerpt?: string;
+};
+
+export type ScanInput = {
+  promptId: string;
+  userId: string | null;
+  title: string;
+  description: string | null;
+  promptText: string;
+  tags: string[];
+};
+
+export type ScanContext = {
+  supabase: any;
+};
+
+/**
+ * One step of the pre-moderation scan. Classifiers only report findings; the scanner turns them
+ * into a risk score and decides whether the prompt is rejected outright.
+ */
+export interface PromptClassifier {
+  id: string;
+  classify(input: ScanInput, context: ScanContext): Promise<ScanFinding[]>;
+}
+
+type PatternRule = {
+  rule: string;
+  severity: ScanSeverity;
+  message: string;
+  pattern: RegExp;
+  // Extra check on a match, e.g. the Luhn checksum of a card number
+  accept?: (match: string) => boolean;
+};
+
+function scanText(input: ScanInput) {
+  return [input.title, input.description ?? '', input.promptText, input.tags.join(' ')].join('\n');
+}
+
+function redact(match: string) {
+  const trimmed = match.trim();
+  if (trimmed.length <= 8) return `${trimmed.slice(0, 2)}…`;
+  return `${trimmed.slice(0, 4)}…${trimmed.slice(-2)}`;
+}
+
+function luhn(value: string) {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i += 1) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Placeholder addresses are common in templates and are not personal data
+const PLACEHOLDER_EMAIL_DOMAINS = /@(example\.(com|org|net)|test\.com|email\.com|domain\.com|company\.com)$/i;
+
+// One finding per rule, so a prompt full of one kind of match is not scored as many problems
+function patternClassifier(id: string, rules: PatternRule[]): PromptClassifier {
+  return {
+    id,
+    async classify(input) {
+      const text = scanText(input);
+      const findings: ScanFinding[] = [];
+      for (const rule of rules) {
+        const matches = Array.from(text.matchAll(new RegExp(rule.pattern.source, rule.pattern.flags.replace('g', '') + 'g')))
+          .map((match) => match[0])
+          .filter((match) => !rule.accept || rule.accept(match));
+        if (matches.length === 0) continue;
+        findings.push({
+          classifier: id,
+          rule: rule.rule,
+          severity: rule.severity,
+          message: matches.length > 1 ? `${rule.message} (${matches.length} matches)` : rule.message,
+          excerpt: redact(matches[0]),
+        });
+      }
+      return findings;
+    },
+  };
+}
+
+export const piiClassifier = patternClassifier('pii', [
+  {
+    rule: 'email',
+    severity: 'medium',
+    message: 'Contains an email address',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/,
+    accept: (match) => !PLACEHOLDER_EMAIL_DOMAINS.test(match),
+  },
+  {
+    rule: 'phone',
+    severity: 'medium',
+    message: 'Contains a phone number',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/,
+    accept: (match) => !/555[\s.-]01\d\d/.test(match),
+  },
+  {
+    rule: 'us_ssn',
+    severity: 'high',
+    message: 'Contains what looks like a US Social Security number',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/,
+  },
+  {
+    rule: 'card_number',
+    severity: 'high',
+    message: 'Contains what looks like a payment card number',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/,
+    accept: luhn,
+  },
+]);
+
+// A live credential in a listing is leaked to every buyer, so these reject the prompt outright
+export const secretsClassifier = patternClassifier('secrets', [
+  { rule: 'private_key', severity: 'critical', message: 'Contains a private key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----/ },
+  { rule: 'anthropic_key', severity: 'critical', message: 'Contains an Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { rule: 'openai_key', severity: 'critical', message: 'Contains an OpenAI API key', pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{32,}/ },
+  { rule: 'stripe_key', severity: 'critical', message: 'Contains a live Stripe key', pattern: /\b[rs]k_live_[A-Za-z0-9]{20,}/ },
+  { rule: 'aws_access_key', severity: 'critical', message: 'Contains an AWS access key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: 'github_token', severity: 'critical', message: 'Contains a GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{40,})/ },
+  { rule: 'google_api_key', severity: 'critical', message: 'Contains a Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { rule: 'slack_token', severity: 'critical', message: 'Contains a Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+]);
+
+export const injectionClassifier = patternClassifier('injection', [
+  {
+    rule: 'ignore_instructions',
+    severity: 'high',
+    message: 'Tries to override earlier instructions',
+    pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|system)\s+(?:instructions|prompts?|rules|messages)/i,
+  },
+  {
+    rule: 'reveal_system_prompt',
+    severity: 'high',
+    message: 'Asks the model to reveal its system prompt',
+    pattern: /\b(?:reveal|print|show|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+instructions)/i,
+  },
+  {
+    rule: 'jailbreak_persona',
+    severity: 'high',
+    message: 'Uses a known jailbreak persona',
+    pattern: /\b(?:you\s+are\s+(?:now\s+)?DAN\b|do\s+anything\s+now|developer\s+mode\s+(?:enabled|on)|jailbreak(?:ed|ing)?\s+mode)/i,
+  },
+  {
+    rule: 'no_restrictions',
+    severity: 'medium',
+    message: 'Tells the model to drop its safety rules',
+    pattern: /\b(?:without\s+any|with\s+no|free\s+of\s+all)\s+(?:restrictions|filters|guidelines|rules|limitations)|\bpretend\s+(?:that\s+)?(?:you\s+have|there\s+are)\s+no\s+(?:rules|restrictions|guidelines)/i,
+  },
+]);
+
+// Topics the marketplace does not list. Critical topics are rejected without review.
+export const disallowedTopicsClassifier = patternClassifier('disallowed_topics', [
+  {
+    rule: 'child_sexual_content',
+    severity: 'critical',
+    message: 'Sexual content involving minors',
+    pattern: /\b(?:sexual|erotic|nude|explicit)\b[^.\n]{0,40}\b(?:minors?|child(?:ren)?|underage|kids?)\b|\b(?:minors?|child(?:ren)?|underage|kids?)\b[^.\n]{0,40}\b(?:sexual|erotic|nude|explicit)\b/i,
+  },
+  {
+    rule: 'weapons',
+    severity: 'critical',
+    message: 'Instructions for building weapons or explosives',
+    pattern: /\b(?:build|make|assemble|synthesi[sz]e)\s+(?:a\s+|an\s+)?(?:pipe\s+bomb|bomb|explosives?|nerve\s+agent|bioweapon|chemical\s+weapon|ghost\s+gun)/i,
+  },
+  {
+    rule: 'malware',
+    severity: 'high',
+    message: 'Writing malware',
+    pattern: /\b(?:write|create|build|generate)\s+(?:a\s+|an\s+)?(?:ransomware|keylogger|botnet|credential\s+stealer|malware|computer\s+virus)/i,
+  },
+  {
+    rule: 'fraud',
+    severity: 'high',
+    message: 'Fraud or phishing',
+    pattern: /\b(?:phishing\s+(?:email|page|site|kit)|fake\s+(?:invoices?|id\s+cards?|passports?|reviews)|carding|credit\s+card\s+dumps?)\b/i,
+  },
+  {
+    rule: 'self_harm',
+    severity: 'high',
+    message: 'Encourages self-harm',
+    pattern: /\b(?:how\s+to\s+(?:kill|hurt)\s+(?:yourself|myself)|suicide\s+methods?|pro[-\s]?ana\s+tips)\b/i,
+  },
+]);
+
+export type SimilarPrompt = { id: string; title: string; user_id: string | null; similarity: number };
+
+// Near-identical listings are usually copies; looser matches are only worth a reviewer's glance
+const NEAR_DUPLICATE_SIMILARITY = 0.9;
+const COPY_SIMILARITY = 0.97;
+
+/**
+ * Compares the prompt's search embedding with other creators' listings (see
+ * `find_similar_prompts`), so it only finds anything once the prompt has been embedded.
+ */
+export const duplicatesClassifier: PromptClassifier = {
+  id: 'duplicates',
+  async classify(input, { supabase }) {
+    const { data, error } = await supabase.rpc('find_similar_prompts', {
+      p_prompt_id: input.promptId,
+      p_min_similarity: NEAR_DUPLICATE_SIMILARITY,
+      p_limit: 3,
+    });
+    if (error) {
+      throw new Error(`Failed to look up similar prompts: ${error.message}`);
+    }
+    return ((data ?? []) as SimilarPrompt[]).map((match) => ({
+      classifier: 'duplicates',
+      rule: match.similarity >= COPY_SIMILARITY ? 'copy' : 'near_duplicate',
+      severity: match.similarity >= COPY_SIMILARITY ? ('high' as const) : ('medium' as const),
+      message: `${Math.round(match.similarity * 100)}% similar to "${match.title}" (${match.id})`,
+    }));
+  },
+};
+
+/**
+ * Compares the prompt text's MinHash fingerprint with other creators' prompts. Copies of a prompt
+ * the creator bought or received in a swap are rejected; other close matches go to a reviewer.
+ */
+export const plagiarismClassifier: PromptClassifier = {
+  id: 'plagiarism',
+  async classify(input, { supabase }) {
+    const matches = await findSimilarPromptsByText(supabase, input);
+    return matches.slice(0, 3).map((match) => {
+      const percent = `${Math.round(match.similarity * 100)}%`;
+      if (match.acquired && match.similarity >= BLOCK_SIMILARITY) {
+        return {
+          classifier: 'plagiarism',
+          rule: 'acquired_copy',
+          severity: 'critical' as const,
+          message: `Copies "${match.title}", which the creator ${match.acquired === 'swap' ? 'received in a swap' : 'purchased'}`,
+        };
+      }
+      return {
+        classifier: 'plagiarism',
+        rule: match.similarity >= BLOCK_SIMILARITY ? 'text_copy' : 'text_overlap',
+        severity: match.similarity >= BLOCK_SIMILARITY ? ('high' as const) : ('medium' as const),
+        message: `Text is ${percent} similar to "${match.title}" (${match.id})`,
+      };
+    });
+  },
+};
+
+export const PROMPT_CLASSIFIERS: Record<string, PromptClassifier> = {
+  pii: piiClassifier,
+  secrets: secretsClassifier,
+  injection: injectionClassifier,
+  disallowed_topics: disallowedTopicsClassifier,
+  duplicates: duplicatesClassifier,
+  plagiarism: plagiarismClassifier,
+};
+
+/**
+ * The classifiers a scan runs: all of them, or the comma-separated ids in
+ * `MODERATION_CLASSIFIERS`. Unknown ids are ignored.
+ */
+export function getPromptClassifiers(env: NodeJS.ProcessEnv = process.env): PromptClassifier[] {
+  const ids = env.MODERATION_CLASSIFIERS?.split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (!ids?.length) return Object.values(PROMPT_CLASSIFIERS);
+  return ids.flatMap((id) => (PROMPT_CLASSIFIERS[id] ? [PROMPT_CLASSIFIERS[id]] : []));
+}
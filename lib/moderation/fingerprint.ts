@@ -0,0 +1,103 @@
+// Text fingerprints for spotting copied prompts: word shingles reduced to a MinHash signature,
+// split into LSH bands so near-copies can be found with an index lookup instead of a full scan.
+
+export const SHINGLE_SIZE = 5;
+export const SIGNATURE_SIZE = 128;
+export const BAND_COUNT = 32;
+const ROWS_PER_BAND = SIGNATURE_SIZE / BAND_COUNT;
+
+// Stored with every fingerprint; changing any of the parameters above needs a new id so the
+// fingerprint-prompts job recomputes the catalogue
+export const FINGERPRINT_ALGORITHM = `minhash-w${SHINGLE_SIZE}-${SIGNATURE_SIZE}x${BAND_COUNT}`;
+
+// Final mix of MurmurHash3, spreads FNV's clustered low bits across the whole word
+function fmix32(value: number) {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function fnv1a(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => fmix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Lowercased words with punctuation dropped. Template variables collapse to one token so renaming
+ * `{{topic}}` to `{{subject}}` does not hide a copy.
+ */
+export function fingerprintWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\{\{[^}]*\}\}/g, ' var ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(Boolean);
+}
+
+export function shingles(text: string): Set<string> {
+  const words = fingerprintWords(text);
+  const result = new Set<string>();
+  if (words.length === 0) return result;
+  if (words.length <= SHINGLE_SIZE) {
+    result.add(words.join(' '));
+    return result;
+  }
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+/**
+ * MinHash signature of the prompt text as signed 32-bit integers (Postgres `integer[]`), or an
+ * empty array for text without words. The share of equal positions in two signatures estimates
+ * the Jaccard similarity of their shingle sets.
+ */
+export function minhashSignature(text: string): number[] {
+  const set = shingles(text);
+  if (set.size === 0) return [];
+
+  const mins = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of set) {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < SIGNATURE_SIZE; i += 1) {
+      const h = fmix32(base ^ SEEDS[i]);
+      if (h < mins[i]) mins[i] = h;
+    }
+  }
+  return mins.map((value) => value | 0);
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== SIGNATURE_SIZE || b.length !== SIGNATURE_SIZE) return 0;
+  let equal = 0;
+  for (let i = 0; i < SIGNATURE_SIZE; i += 1) {
+    if (a[i] === b[i]) equal += 1;
+  }
+  return equal / SIGNATURE_SIZE;
+}
+
+/**
+ * LSH band keys of a signature. Two prompts share at least one band with probability
+ * 1 - (1 - s^4)^32 for similarity s: about 87% at 0.5 and certain above 0.8.
+ */
+export function signatureBands(signature: number[]): string[] {
+  if (signature.length !== SIGNATURE_SIZE) return [];
+  const bands: string[] = [];
+  for (let band = 0; band < BAND_COUNT; band += 1) {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    bands.push(`${band}:${fnv1a(rows.join(',')).toString(36)}`);
+  }
+  return bands;
+}
@@ -0,0 +1,390 @@
+import { BusinessError, UnexpectedError } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import {
+  estimateSimilarity,
+  FINGERPRINT_ALGORITHM,
+  minhashSignature,
+  signatureBands,
+} from '@/lib/moderation/fingerprint';
+
+const PLAGIARISM_LABEL = 'PLAGIARISM';
+
+// Resubmitting content you bought or received in a swap at or above this is blocked outright
+export const BLOCK_SIMILARITY = 0.8;
+// Other creators' prompts at or above this are flagged for a reviewer
+export const FLAG_SIMILARITY = 0.5;
+
+// Enough to rank a popular template's many near-copies without loading the catalogue
+const CANDIDATE_LIMIT = 50;
+
+export type Acquisition = 'purchase' | 'swap';
+
+export type TextMatch = {
+  id: string;
+  title: string;
+  userId: string | null;
+  status: string | null;
+  similarity: number;
+  // How the checked user got hold of the matched prompt, if they did
+  acquired: Acquisition | null;
+};
+
+export type OriginalityVerdict = 'original' | 'flag' | 'block';
+
+export type OriginalityResult = {
+  verdict: OriginalityVerdict;
+  matches: TextMatch[];
+};
+
+type FingerprintedPrompt = {
+  id: string;
+  title: string | null;
+  user_id: string | null;
+  status: string | null;
+  created_at?: string | null;
+  text_fingerprint: number[] | null;
+};
+
+async function loadAcquisitions(supabase: any, userId: string, promptIds: string[]) {
+  const acquired = new Map<string, Acquisition>();
+  if (promptIds.length === 0) return acquired;
+
+  const [purchases, copies] = await Promise.all([
+    supabase.from('purchases').select('prompt_id').eq('buyer_id', userId).in('prompt_id', promptIds),
+    supabase
+      .from('swap_prompt_copies')
+      .select('source_prompt_id')
+      .eq('recipient_id', userId)
+      .in('source_prompt_id', promptIds),
+  ]);
+  if (purchases.error || copies.error) {
+    throw new UnexpectedError('Failed to load prompt acquisitions', {
+      userId,
+      error: (purchases.error ?? copies.error).message,
+    });
+  }
+
+  for (const row of copies.data ?? []) acquired.set(row.source_prompt_id, 'swap');
+  for (const row of purchases.data ?? []) acquired.set(row.prompt_id, 'purchase');
+  return acquired;
+}
+
+/**
+ * Other creators' prompts whose text is at least `minSimilarity` similar to `promptText`, most
+ * similar first. Candidates come from shared LSH bands and are then scored on their full
+ * signature, so only fingerprinted prompts are found.
+ */
+export async function findSimilarPromptsByText(
+  supabase: any,
+  input: { promptId?: string | null; userId: string | null; promptText: string },
+  minSimilarity = FLAG_SIMILARITY
+): Promise<TextMatch[]> {
+  const signature = minhashSignature(input.promptText);
+  const bands = signatureBands(signature);
+  if (bands.length === 0) return [];
+
+  const { data: bandRows, error: bandError } = await supabase
+    .from('prompt_fingerprint_bands')
+    .select('prompt_id')
+    .in('band', bands);
+  if (bandError) {
+    throw new UnexpectedError('Failed to look up prompt fingerprints', { error: bandError.message });
+  }
+
+  const shared = new Map<string, number>();
+  for (const row of bandRows ?? []) {
+    if (row.prompt_id === input.promptId) continue;
+    shared.set(row.prompt_id, (shared.get(row.prompt_id) ?? 0) + 1);
+  }
+  const candidateIds = Array.from(shared.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CANDIDATE_LIMIT)
+    .map(([id]) => id);
+  if (candidateIds.length === 0) return [];
+
+  const { data: candidates, error: candidateError } = await supabase
+    .from('prompts')
+    .select('id,title,user_id,status,text_fingerprint')
+    .in('id', candidateIds);
+  if (candidateError) {
+    throw new UnexpectedError('Failed to load similar prompts', { error: candidateError.message });
+  }
+
+  // Re-listing your own work is fine; swap copies you own are matched through their source
+  const similar = ((candidates ?? []) as FingerprintedPrompt[])
+    .filter((prompt) => prompt.user_id !== input.userId && prompt.text_fingerprint)
+    .map((prompt) => ({ prompt, similarity: estimateSimilarity(signature, prompt.text_fingerprint!) }))
+    .filter((match) => match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const acquired = input.userId
+    ? await loadAcquisitions(supabase, input.userId, similar.map((match) => match.prompt.id))
+    : new Map<string, Acquisition>();
+
+  return similar.map(({ prompt, similarity }) => ({
+    id: prompt.id,
+    title: prompt.title ?? 'Untitled prompt',
+    userId: prompt.user_id,
+    status: prompt.status,
+    similarity,
+    acquired: acquired.get(prompt.id) ?? null,
+  }));
+}
+
+export async function assessPromptOriginality(
+  supabase: any,
+  input: { promptId?: string | null; userId: string; promptText: string }
+): Promise<OriginalityResult> {
+  const matches = await findSimilarPromptsByText(supabase, input);
+  const verdict: OriginalityVerdict = matches.some((match) => match.acquired && match.similarity >= BLOCK_SIMILARITY)
+    ? 'block'
+    : matches.length > 0
+      ? 'flag'
+      : 'original';
+  return { verdict, matches };
+}
+
+/**
+ * Throws `DUPLICATE_CONTENT` when the text is a copy of a prompt the user bought or received in a
+ * swap. Similarity to other creators' prompts only flags the listing; the scanner reports it to
+ * reviewers.
+ */
+export async function assertPromptOriginal(
+  supabase: any,
+  input: { promptId?: string | null; userId: string; promptText: string }
+): Promise<OriginalityResult> {
+  const result = await assessPromptOriginality(supabase, input);
+  if (result.verdict === 'block') {
+    const source = result.matches.find((match) => match.acquired && match.similarity >= BLOCK_SIMILARITY)!;
+    throw new BusinessError(
+      ErrorCodes.DUPLICATE_CONTENT,
+      `This prompt is a copy of "${source.title}", which you ${
+        source.acquired === 'swap' ? 'received in a swap' : 'purchased'
+      }. Purchased and swapped prompts cannot be listed as your own.`,
+      { promptId: source.id, similarity: source.similarity, acquired: source.acquired }
+    );
+  }
+  return result;
+}
+
+/**
+ * Stores the text fingerprint and replaces the prompt's LSH bands. Editing `prompt_text` clears
+ * both (see `clear_stale_prompt_fingerprint`), so this runs after every text change.
+ */
+export async function fingerprintPrompts(
+  supabase: any,
+  prompts: { id: string; prompt_text: string | null }[]
+): Promise<number> {
+  let fingerprinted = 0;
+  for (const prompt of prompts) {
+    const signature = minhashSignature(prompt.prompt_text ?? '');
+    const { error } = await supabase
+      .from('prompts')
+      .update({
+        text_fingerprint: signature,
+        fingerprint_algorithm: FINGERPRINT_ALGORITHM,
+        fingerprinted_at: new Date().toISOString(),
+      })
+      .eq('id', prompt.id);
+    if (error) {
+      throw new UnexpectedError('Failed to store prompt fingerprint', { promptId: prompt.id, error: error.message });
+    }
+
+    const { error: deleteError } = await supabase.from('prompt_fingerprint_bands').delete().eq('prompt_id', prompt.id);
+    if (deleteError) {
+      throw new UnexpectedError('Failed to clear prompt fingerprint bands', { promptId: prompt.id, error: deleteError.message });
+    }
+    const bands = signatureBands(signature).map((band) => ({ band, prompt_id: prompt.id }));
+    if (bands.length > 0) {
+      const { error: insertError } = await supabase.from('prompt_fingerprint_bands').insert(bands);
+      if (insertError) {
+        throw new UnexpectedError('Failed to store prompt fingerprint bands', { promptId: prompt.id, error: insertError.message });
+      }
+    }
+    fingerprinted += 1;
+  }
+  return fingerprinted;
+}
+
+// Fingerprints a prompt right after its text is saved; on failure the fingerprint-prompts job catches it up later
+export async function refreshPromptFingerprint(
+  supabase: any,
+  prompt: { id: string; prompt_text: string | null },
+  requestId?: string
+) {
+  try {
+    await fingerprintPrompts(supabase, [prompt]);
+  } catch (err: any) {
+    logger.warn('Failed to fingerprint prompt', { requestId, promptId: prompt.id, error: err?.message }, PLAGIARISM_LABEL);
+  }
+}
+
+/**
+ * Fingerprints prompts that have none yet, including swap copies created by `copy_swap_prompt`,
+ * or one from an older algorithm.
+ */
+export async function fingerprintStalePrompts(
+  supabase: any,
+  options: { limit: number }
+): Promise<{ fingerprinted: number; algorithm: string }> {
+  const { data, error } = await supabase
+    .from('prompts')
+    .select('id,prompt_text,fingerprint_algorithm')
+    .or(`fingerprint_algorithm.is.null,fingerprint_algorithm.neq."${FINGERPRINT_ALGORITHM}"`)
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+  if (error) {
+    throw new UnexpectedError('Failed to load prompts to fingerprint', { error: error.message });
+  }
+
+  const stale = ((data ?? []) as { id: string; prompt_text: string | null; fingerprint_algorithm: string | null }[])
+    .filter((prompt) => prompt.fingerprint_algorithm !== FINGERPRINT_ALGORITHM)
+    .slice(0, options.limit);
+  return { fingerprinted: await fingerprintPrompts(supabase, stale), algorithm: FINGERPRINT_ALGORITHM };
+}
+
+export type ProvenanceNote =
+  | { kind: 'swap_copy'; sourcePromptId: string; swapId: string }
+  | { kind: 'purchased'; promptId: string };
+
+export type ClusterMember = {
+  id: string;
+  title: string;
+  userId: string | null;
+  ownerName: string | null;
+  status: string | null;
+  createdAt: string | null;
+  // The earliest prompt in the cluster that is not a swap copy
+  original: boolean;
+  provenance: ProvenanceNote[];
+};
+
+export type SimilarityCluster = {
+  members: ClusterMember[];
+  maxSimilarity: number;
+  pairs: { a: string; b: string; similarity: number }[];
+};
+
+const CLUSTER_PAIR_LIMIT = 500;
+
+/**
+ * Groups fingerprinted prompts into clusters of near-copies with who owns each one and how they
+ * got it: swap copies point at their source, and owners who bought another member are marked.
+ * Candidate pairs share an LSH band (`prompt_similarity_pairs`) and are kept when their
+ * signatures are at least `minSimilarity` similar.
+ */
+export async function loadSimilarityClusters(
+  supabase: any,
+  options: { minSimilarity?: number } = {}
+): Promise<SimilarityCluster[]> {
+  const minSimilarity = options.minSimilarity ?? FLAG_SIMILARITY;
+  const { data: pairRows, error: pairError } = await supabase.rpc('prompt_similarity_pairs', {
+    p_min_shared_bands: 1,
+    p_limit: CLUSTER_PAIR_LIMIT,
+  });
+  if (pairError) {
+    throw new UnexpectedError('Failed to load similar prompt pairs', { error: pairError.message });
+  }
+
+  const candidateIds = Array.from(
+    new Set(((pairRows ?? []) as { prompt_a: string; prompt_b: string }[]).flatMap((row) => [row.prompt_a, row.prompt_b]))
+  );
+  if (candidateIds.length === 0) return [];
+
+  const { data: promptRows, error: promptError } = await supabase
+    .from('prompts')
+    .select('id,title,user_id,status,created_at,text_fingerprint')
+    .in('id', candidateIds);
+  if (promptError) {
+    throw new UnexpectedError('Failed to load clustered prompts', { error: promptError.message });
+  }
+  const prompts = new Map<string, FingerprintedPrompt>(
+    ((promptRows ?? []) as FingerprintedPrompt[]).map((prompt) => [prompt.id, prompt])
+  );
+
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const next = parent.get(id) ?? id;
+    if (next === id) return id;
+    const root = find(next);
+    parent.set(id, root);
+    return root;
+  };
+
+  const pairs: SimilarityCluster['pairs'] = [];
+  for (const row of (pairRows ?? []) as { prompt_a: string; prompt_b: string }[]) {
+    const a = prompts.get(row.prompt_a);
+    const b = prompts.get(row.prompt_b);
+    if (!a?.text_fingerprint || !b?.text_fingerprint) continue;
+    const similarity = estimateSimilarity(a.text_fingerprint, b.text_fingerprint);
+    if (similarity < minSimilarity) continue;
+    pairs.push({ a: a.id, b: b.id, similarity });
+    parent.set(find(a.id), find(b.id));
+  }
+  if (pairs.length === 0) return [];
+
+  const clusteredIds = Array.from(new Set(pairs.flatMap((pair) => [pair.a, pair.b])));
+  const ownerIds = Array.from(
+    new Set(clusteredIds.map((id) => prompts.get(id)?.user_id).filter((id): id is string => Boolean(id)))
+  );
+  const [copies, purchases, owners] = await Promise.all([
+    supabase.from('swap_prompt_copies').select('swap_id,source_prompt_id,copied_prompt_id').in('copied_prompt_id', clusteredIds),
+    supabase.from('purchases').select('buyer_id,prompt_id').in('prompt_id', clusteredIds),
+    supabase.from('profiles').select('id,full_name').in('id', ownerIds),
+  ]);
+  const failed = copies.error ?? purchases.error ?? owners.error;
+  if (failed) {
+    throw new UnexpectedError('Failed to load prompt provenance', { error: failed.message });
+  }
+
+  const copyOf = new Map<string, { swap_id: string; source_prompt_id: string }>(
+    (copies.data ?? []).map((row: any) => [row.copied_prompt_id, row])
+  );
+  const ownerNames = new Map<string, string | null>((owners.data ?? []).map((row: any) => [row.id, row.full_name ?? null]));
+
+  const groups = new Map<string, string[]>();
+  for (const id of clusteredIds) {
+    const root = find(id);
+    groups.set(root, [...(groups.get(root) ?? []), id]);
+  }
+
+  const clusters: SimilarityCluster[] = [];
+  for (const ids of groups.values()) {
+    const memberIds = new Set(ids);
+    const rows = ids
+      .map((id) => prompts.get(id)!)
+      .sort((a, b) => (a.created_at ?? '').localeCompare(b.created_at ?? ''));
+    const original = rows.find((row) => !copyOf.has(row.id));
+
+    const members = rows.map((row): ClusterMember => {
+      const provenance: ProvenanceNote[] = [];
+      const copy = copyOf.get(row.id);
+      if (copy) provenance.push({ kind: 'swap_copy', sourcePromptId: copy.source_prompt_id, swapId: copy.swap_id });
+      for (const purchase of purchases.data ?? []) {
+        if (purchase.buyer_id === row.user_id && purchase.prompt_id !== row.id && memberIds.has(purchase.prompt_id)) {
+          provenance.push({ kind: 'purchased', promptId: purchase.prompt_id });
+        }
+      }
+      return {
+        id: row.id,
+        title: row.title ?? 'Untitled prompt',
+        userId: row.user_id,
+        ownerName: row.user_id ? ownerNames.get(row.user_id) ?? null : null,
+        status: row.status,
+        createdAt: row.created_at ?? null,
+        original: row.id === original?.id,
+        provenance,
+      };
+    });
+
+    const clusterPairs = pairs.filter((pair) => memberIds.has(pair.a));
+    clusters.push({
+      members,
+      maxSimilarity: Math.max(...clusterPairs.map((pair) => pair.similarity)),
+      pairs: clusterPairs,
+    });
+  }
+
+  return clusters.sort((a, b) => b.members.length - a.members.length || b.maxSimilarity - a.maxSimilarity);
+}
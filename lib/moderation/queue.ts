@@ -0,0 +1,402 @@
+import { BusinessError, ResourceError, UnexpectedError } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import type { ScanFinding } from '@/lib/moderation/classifiers';
+import { approvedListingFields } from '@/lib/moderation/suspensions';
+import { rejectPendingVersions } from '@/lib/prompt-versions';
+
+export interface ModerationQueueConfig {
+  // How long a reviewer holds a prompt before anyone else may claim it
+  claimMinutes: number;
+  // Prompts waiting longer than this are flagged as breaching the review SLA
+  slaHours: number;
+  // Prompts priced at or above this need approvals from two different reviewers
+  secondReviewMinPrice: number;
+}
+
+const DEFAULT_CLAIM_MINUTES = 30;
+const DEFAULT_SLA_HOURS = 24;
+const DEFAULT_SECOND_REVIEW_MIN_PRICE = 50;
+
+const QUEUE_LIMIT = 100;
+
+// Submitted prompts the scanner scores at or above this are reviewed before the rest of the queue
+export const HIGH_RISK_SCORE = 50;
+
+function parsePositive(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+export function getModerationQueueConfig(): ModerationQueueConfig {
+  return {
+    claimMinutes: parsePositive(process.env.MODERATION_CLAIM_MINUTES, DEFAULT_CLAIM_MINUTES),
+    slaHours: parsePositive(process.env.MODERATION_SLA_HOURS, DEFAULT_SLA_HOURS),
+    secondReviewMinPrice: parsePositive(process.env.MODERATION_SECOND_REVIEW_MIN_PRICE, DEFAULT_SECOND_REVIEW_MIN_PRICE),
+  };
+}
+
+export function requiredApprovals(price: number | string | null, config: ModerationQueueConfig): number {
+  return Number(price ?? 0) >= config.secondReviewMinPrice ? 2 : 1;
+}
+
+export const MODERATION_QUEUE_COLUMNS =
+  'id,title,user_id,created_at,submitted_at,price,status,moderation_note,risk_score,scan_findings,pending_version';
+
+export const MODERATION_ACTION_COLUMNS = 'id,prompt_id,admin_id,action,reason,details,created_at';
+
+export type ModerationAction =
+  | 'claim'
+  | 'assign'
+  | 'release'
+  | 'approve'
+  | 'reject'
+  | 'archive'
+  | 'auto_reject'
+  // Takedowns after user reports and their appeals
+  | 'remove'
+  | 'reinstate'
+  | 'deny_appeal';
+
+export type ModerationClaim = {
+  prompt_id: string;
+  reviewer_id: string;
+  assigned_by: string | null;
+  claimed_at: string;
+  expires_at: string;
+};
+
+export type ModerationActionRow = {
+  id: string;
+  prompt_id: string;
+  // Null for the automated scan
+  admin_id: string | null;
+  action: string;
+  reason: string | null;
+  details: Record<string, any> | null;
+  created_at: string;
+};
+
+export type QueuePrompt = {
+  id: string;
+  title: string;
+  user_id: string;
+  created_at: string;
+  submitted_at: string | null;
+  price: number | string | null;
+  status: string;
+  moderation_note: string | null;
+  // Set by the pre-moderation scan; null if the prompt was not scanned
+  risk_score: number | null;
+  scan_findings: ScanFinding[] | null;
+  // Set on an approved prompt whose edit waits for review; the prompt stays on sale meanwhile
+  pending_version: number | null;
+};
+
+export type QueueItem = QueuePrompt & {
+  // Only unexpired claims; an expired claim leaves the prompt open
+  claim: ModerationClaim | null;
+  // Reviewers who approved since the prompt was last submitted
+  approvals: string[];
+  requiredApprovals: number;
+  waitingHours: number;
+  slaBreached: boolean;
+  highRisk: boolean;
+};
+
+function submittedAt(prompt: Pick<QueuePrompt, 'submitted_at' | 'created_at'>) {
+  return prompt.submitted_at ?? prompt.created_at;
+}
+
+// Distinct reviewers whose approvals count toward the current submission
+function currentApprovals(prompt: Pick<QueuePrompt, 'submitted_at' | 'created_at'>, actions: ModerationActionRow[]) {
+  const since = new Date(submittedAt(prompt)).getTime();
+  const approvers = actions
+    .filter((action) => action.action === 'approve' && new Date(action.created_at).getTime() >= since)
+    .flatMap((action) => (action.admin_id ? [action.admin_id] : []));
+  return Array.from(new Set(approvers));
+}
+
+// A new submission, or an edit to a prompt that is already on sale
+export function isAwaitingReview(prompt: Pick<QueuePrompt, 'status' | 'pending_version'>) {
+  return prompt.status === 'submitted' || (prompt.status === 'approved' && Boolean(prompt.pending_version));
+}
+
+function isHighRisk(prompt: Pick<QueuePrompt, 'risk_score'>) {
+  return (prompt.risk_score ?? 0) >= HIGH_RISK_SCORE;
+}
+
+/**
+ * Submitted prompts and edits to approved prompts, with their active claim, approvals so far and
+ * SLA state. Prompts the scanner rated high risk come first, riskiest first; the rest follow
+ * longest waiting first. A prompt waiting on its second approval stays in the queue.
+ */
+export async function loadModerationQueue(
+  supabase: any,
+  config: ModerationQueueConfig,
+  now: Date = new Date()
+): Promise<QueueItem[]> {
+  const [submittedRes, editsRes] = await Promise.all([
+    supabase
+      .from('prompts')
+      .select(MODERATION_QUEUE_COLUMNS)
+      .eq('status', 'submitted')
+      .order('submitted_at', { ascending: true })
+      .limit(QUEUE_LIMIT),
+    supabase
+      .from('prompts')
+      .select(MODERATION_QUEUE_COLUMNS)
+      .eq('status', 'approved')
+      .gt('pending_version', 0)
+      .order('submitted_at', { ascending: true })
+      .limit(QUEUE_LIMIT),
+  ]);
+  if (submittedRes.error || editsRes.error) {
+    throw new UnexpectedError('Failed to load the moderation queue', {
+      error: (submittedRes.error ?? editsRes.error).message,
+    });
+  }
+
+  const prompts = [...(submittedRes.data ?? []), ...(editsRes.data ?? [])] as QueuePrompt[];
+  const rows = prompts.sort((a, b) => {
+    if (isHighRisk(a) !== isHighRisk(b)) return isHighRisk(a) ? -1 : 1;
+    if (isHighRisk(a) && a.risk_score !== b.risk_score) return (b.risk_score ?? 0) - (a.risk_score ?? 0);
+    return new Date(submittedAt(a)).getTime() - new Date(submittedAt(b)).getTime();
+  });
+  if (rows.length === 0) return [];
+
+  rows.splice(QUEUE_LIMIT);
+  const ids = rows.map((row) => row.id);
+  const [claimsRes, approvalsRes] = await Promise.all([
+    supabase.from('moderation_claims').select('*').in('prompt_id', ids),
+    supabase.from('moderation_actions').select(MODERATION_ACTION_COLUMNS).in('prompt_id', ids).eq('action', 'approve'),
+  ]);
+  if (claimsRes.error || approvalsRes.error) {
+    throw new UnexpectedError('Failed to load the moderation queue', {
+      error: (claimsRes.error ?? approvalsRes.error).message,
+    });
+  }
+
+  const claims = (claimsRes.data ?? []) as ModerationClaim[];
+  const approvals = (approvalsRes.data ?? []) as ModerationActionRow[];
+
+  return rows.map((prompt) => {
+    const claim = claims.find((c) => c.prompt_id === prompt.id && new Date(c.expires_at) > now) ?? null;
+    const waitingHours = (now.getTime() - new Date(submittedAt(prompt)).getTime()) / 3_600_000;
+    return {
+      ...prompt,
+      claim,
+      approvals: currentApprovals(
+        prompt,
+        approvals.filter((a) => a.prompt_id === prompt.id)
+      ),
+      requiredApprovals: requiredApprovals(prompt.price, config),
+      waitingHours,
+      slaBreached: waitingHours > config.slaHours,
+      highRisk: isHighRisk(prompt),
+    };
+  });
+}
+
+export async function loadRecentModerationActions(
+  supabase: any,
+  limit = 50
+): Promise<(ModerationActionRow & { prompts?: { title: string | null } | null })[]> {
+  const { data, error } = await supabase
+    .from('moderation_actions')
+    .select(`${MODERATION_ACTION_COLUMNS},prompts(title)`)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new UnexpectedError('Failed to load moderation actions', { error: error.message });
+  }
+  return data ?? [];
+}
+
+export async function recordModerationAction(
+  supabase: any,
+  input: {
+    promptId: string;
+    adminId: string | null;
+    action: ModerationAction;
+    reason?: string | null;
+    details?: Record<string, any>;
+  }
+) {
+  const { error } = await supabase.from('moderation_actions').insert({
+    prompt_id: input.promptId,
+    admin_id: input.adminId,
+    action: input.action,
+    reason: input.reason ?? null,
+    details: input.details ?? {},
+  });
+  if (error) {
+    throw new UnexpectedError('Failed to record moderation action', { promptId: input.promptId, error: error.message });
+  }
+}
+
+async function loadQueuePrompt(supabase: any, promptId: string): Promise<QueuePrompt> {
+  const { data } = await supabase.from('prompts').select(MODERATION_QUEUE_COLUMNS).eq('id', promptId).maybeSingle();
+  if (!data) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'Prompt not found');
+  }
+  return data as QueuePrompt;
+}
+
+/**
+ * Claims a prompt awaiting review for a reviewer. With `assignedBy`, an admin hands the prompt to
+ * `reviewerId`, taking it over from anyone who holds it.
+ */
+export async function claimModerationPrompt(
+  supabase: any,
+  input: { promptId: string; reviewerId: string; assignedBy?: string; config: ModerationQueueConfig }
+): Promise<ModerationClaim> {
+  const { data, error } = await supabase.rpc('claim_moderation_prompt', {
+    p_prompt_id: input.promptId,
+    p_reviewer_id: input.reviewerId,
+    p_ttl_seconds: Math.round(input.config.claimMinutes * 60),
+    p_assigned_by: input.assignedBy ?? null,
+  });
+  if (error) {
+    throw new UnexpectedError('Failed to claim prompt for review', { promptId: input.promptId, error: error.message });
+  }
+
+  const claim = (Array.isArray(data) ? data[0] : data) as ModerationClaim | undefined;
+  if (!claim) {
+    const prompt = await loadQueuePrompt(supabase, input.promptId);
+    if (!isAwaitingReview(prompt)) {
+      throw new BusinessError(ErrorCodes.INVALID_STATUS, 'Prompt is not awaiting review');
+    }
+    throw new BusinessError(ErrorCodes.REVIEW_CLAIMED, 'Another reviewer is already reviewing this prompt');
+  }
+
+  await recordModerationAction(supabase, {
+    promptId: input.promptId,
+    adminId: input.assignedBy ?? input.reviewerId,
+    action: input.assignedBy ? 'assign' : 'claim',
+    details: { reviewerId: input.reviewerId, expiresAt: claim.expires_at },
+  });
+  return claim;
+}
+
+export async function releaseModerationClaim(
+  supabase: any,
+  input: { promptId: string; reviewerId: string; reason?: string | null }
+) {
+  await requireActiveClaim(supabase, input.promptId, input.reviewerId);
+  const { error } = await supabase
+    .from('moderation_claims')
+    .delete()
+    .eq('prompt_id', input.promptId)
+    .eq('reviewer_id', input.reviewerId);
+  if (error) {
+    throw new UnexpectedError('Failed to release review claim', { promptId: input.promptId, error: error.message });
+  }
+  await recordModerationAction(supabase, {
+    promptId: input.promptId,
+    adminId: input.reviewerId,
+    action: 'release',
+    reason: input.reason,
+  });
+}
+
+async function requireActiveClaim(supabase: any, promptId: string, reviewerId: string, now: Date = new Date()) {
+  const { data } = await supabase.from('moderation_claims').select('*').eq('prompt_id', promptId).maybeSingle();
+  const claim = data as ModerationClaim | null;
+  if (!claim || claim.reviewer_id !== reviewerId || new Date(claim.expires_at) <= now) {
+    throw new BusinessError(ErrorCodes.CLAIM_REQUIRED, 'Claim this prompt before reviewing it');
+  }
+}
+
+export type ModerationDecision = {
+  status: 'approved' | 'rejected' | 'archived' | 'awaiting_second_review';
+  approvals: number;
+  requiredApprovals: number;
+  // The decision was on an edit to an approved prompt, which stays on sale either way
+  edit: boolean;
+};
+
+const DECIDED_STATUS = { approve: 'approved', reject: 'rejected', archive: 'archived' } as const;
+
+/**
+ * Applies a reviewer's decision. Prompts in review can only be decided by the reviewer holding
+ * the claim. An approval of a prompt that needs two reviewers is recorded and the claim released,
+ * and the prompt is published once a second, different reviewer approves it. For an edit to an
+ * approved prompt only the edit is decided: rejecting it keeps the published text on sale, and the
+ * caller publishes an approved edit with `publishPromptVersions`.
+ */
+export async function decideModeration(
+  supabase: any,
+  input: {
+    promptId: string;
+    reviewerId: string;
+    action: 'approve' | 'reject' | 'archive';
+    reason: string | null;
+    config: ModerationQueueConfig;
+  }
+): Promise<ModerationDecision> {
+  const prompt = await loadQueuePrompt(supabase, input.promptId);
+  const inReview = isAwaitingReview(prompt);
+  const edit = inReview && prompt.status === 'approved';
+  if (inReview) {
+    await requireActiveClaim(supabase, input.promptId, input.reviewerId);
+  } else if (input.action !== 'archive') {
+    throw new BusinessError(ErrorCodes.INVALID_STATUS, 'Prompt is not awaiting review');
+  }
+
+  const required = requiredApprovals(prompt.price, input.config);
+  let approvals = 0;
+
+  if (input.action === 'approve') {
+    const { data, error } = await supabase
+      .from('moderation_actions')
+      .select(MODERATION_ACTION_COLUMNS)
+      .eq('prompt_id', input.promptId)
+      .eq('action', 'approve');
+    if (error) {
+      throw new UnexpectedError('Failed to load approvals', { promptId: input.promptId, error: error.message });
+    }
+    const approvers = currentApprovals(prompt, (data ?? []) as ModerationActionRow[]);
+    if (approvers.includes(input.reviewerId)) {
+      throw new BusinessError(ErrorCodes.ALREADY_EXISTS, 'You already approved this prompt; a second reviewer must approve it');
+    }
+    approvals = approvers.length + 1;
+  }
+
+  await recordModerationAction(supabase, {
+    promptId: input.promptId,
+    adminId: input.reviewerId,
+    action: input.action,
+    reason: input.reason,
+    details: input.action === 'approve' ? { approvals, requiredApprovals: required } : {},
+  });
+
+  const awaitingSecond = input.action === 'approve' && approvals < required;
+  const status = awaitingSecond ? 'awaiting_second_review' : DECIDED_STATUS[input.action];
+  if (edit && (status === 'approved' || status === 'rejected')) {
+    if (status === 'rejected') {
+      await rejectPendingVersions(supabase, input.promptId);
+    }
+    const { error } = await supabase.from('prompts').update({ moderation_note: input.reason }).eq('id', input.promptId);
+    if (error) {
+      throw new UnexpectedError('Failed to update prompt', { promptId: input.promptId, error: error.message });
+    }
+  } else if (status !== 'awaiting_second_review') {
+    const listing =
+      status === 'approved' ? await approvedListingFields(supabase, prompt.user_id) : { is_public: false };
+    const { error } = await supabase
+      .from('prompts')
+      .update({ ...listing, status, moderation_note: input.reason, ...(status === 'archived' ? { pending_version: null } : {}) })
+      .eq('id', input.promptId);
+    if (error) {
+      throw new UnexpectedError('Failed to update prompt status', { promptId: input.promptId, error: error.message });
+    }
+  }
+
+  if (inReview) {
+    await supabase.from('moderation_claims').delete().eq('prompt_id', input.promptId);
+  }
+
+  return { status, approvals, requiredApprovals: required, edit };
+}
@@ -0,0 +1,30 @@
+// Shared by the report API, the admin triage and the report form in the browser
+
+export const REPORT_TARGET_TYPES = ['prompt', 'comment', 'rating'] as const;
+export type ReportTargetType = (typeof REPORT_TARGET_TYPES)[number];
+
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate',
+  'sexual_content',
+  'violence',
+  'ip_infringement',
+  'scam',
+  'other',
+] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate: 'Hate speech',
+  sexual_content: 'Sexual content',
+  violence: 'Violence or dangerous content',
+  ip_infringement: 'Copied or stolen content',
+  scam: 'Scam or fraud',
+  other: 'Something else',
+};
+
+export const REPORT_RESOLUTIONS = ['dismiss', 'hide', 'warn', 'ban'] as const;
+export type ReportResolution = (typeof REPORT_RESOLUTIONS)[number];
@@ -0,0 +1,477 @@
+import { BusinessError, ResourceError, UnexpectedError, ValidationError } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { createNotification, notifyAdmins, notifyMany } from '@/lib/notifications';
+import { recordModerationAction } from '@/lib/moderation/queue';
+import { approvedListingFields, suspendUser } from '@/lib/moderation/suspensions';
+import {
+  REPORT_REASON_LABELS,
+  type ReportReason,
+  type ReportResolution,
+  type ReportTargetType,
+} from '@/lib/moderation/report-reasons';
+
+export const CONTENT_REPORT_COLUMNS =
+  'id,reporter_id,target_type,target_id,prompt_id,reported_user_id,reason,details,status,resolution,resolution_note,resolved_by,resolved_at,created_at';
+
+export const PROMPT_APPEAL_COLUMNS = 'id,prompt_id,user_id,message,status,decided_by,decision_note,decided_at,created_at';
+
+export type ContentReport = {
+  id: string;
+  reporter_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  prompt_id: string | null;
+  reported_user_id: string | null;
+  reason: ReportReason;
+  details: string | null;
+  status: 'open' | 'dismissed' | 'actioned';
+  resolution: ReportResolution | null;
+  resolution_note: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+export type PromptAppeal = {
+  id: string;
+  prompt_id: string;
+  user_id: string;
+  message: string;
+  status: 'pending' | 'granted' | 'denied';
+  decided_by: string | null;
+  decision_note: string | null;
+  decided_at: string | null;
+  created_at: string;
+};
+
+type ReportTarget = {
+  type: ReportTargetType;
+  id: string;
+  promptId: string;
+  ownerId: string | null;
+  // Prompt title, or the comment or review text, shown to admins in triage
+  summary: string;
+  hidden: boolean;
+};
+
+const TARGET_NAMES: Record<ReportTargetType, string> = {
+  prompt: 'prompt',
+  comment: 'comment',
+  rating: 'review',
+};
+
+function excerpt(text: string | null | undefined, length = 140) {
+  const trimmed = (text ?? '').trim();
+  return trimmed.length > length ? `${trimmed.slice(0, length - 1)}…` : trimmed;
+}
+
+async function loadReportTarget(supabase: any, type: ReportTargetType, id: string): Promise<ReportTarget> {
+  if (type === 'prompt') {
+    const { data } = await supabase.from('prompts').select('id,user_id,title,status').eq('id', id).maybeSingle();
+    if (!data) throw new ResourceError(ErrorCodes.NOT_FOUND, 'Prompt not found');
+    return {
+      type,
+      id,
+      promptId: data.id,
+      ownerId: data.user_id ?? null,
+      summary: data.title ?? 'Untitled prompt',
+      hidden: data.status === 'removed',
+    };
+  }
+
+  const table = type === 'comment' ? 'prompt_comments' : 'prompt_ratings';
+  const { data } = await supabase
+    .from(table)
+    .select(type === 'comment' ? 'id,user_id,prompt_id,comment,hidden_at' : 'id,user_id,prompt_id,rating,comment,hidden_at')
+    .eq('id', id)
+    .maybeSingle();
+  if (!data) throw new ResourceError(ErrorCodes.NOT_FOUND, `${type === 'comment' ? 'Comment' : 'Review'} not found`);
+  return {
+    type,
+    id,
+    promptId: data.prompt_id,
+    ownerId: data.user_id ?? null,
+    summary: type === 'rating' ? `${data.rating ?? '?'}/5 ${excerpt(data.comment)}`.trim() : excerpt(data.comment),
+    hidden: Boolean(data.hidden_at),
+  };
+}
+
+/**
+ * Files a report against a prompt, comment or review. Users cannot report their own content or
+ * report the same content twice while their first report is open. Admins are notified.
+ */
+export async function createContentReport(
+  supabase: any,
+  input: {
+    reporterId: string;
+    targetType: ReportTargetType;
+    targetId: string;
+    reason: ReportReason;
+    details?: string | null;
+    requestId?: string;
+  }
+): Promise<ContentReport> {
+  const target = await loadReportTarget(supabase, input.targetType, input.targetId);
+  if (target.ownerId === input.reporterId) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, `You cannot report your own ${TARGET_NAMES[target.type]}`);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('content_reports')
+    .select('id')
+    .eq('reporter_id', input.reporterId)
+    .eq('target_type', input.targetType)
+    .eq('target_id', input.targetId)
+    .eq('status', 'open');
+  if (existingError) {
+    throw new UnexpectedError('Failed to check existing reports', { error: existingError.message });
+  }
+  if ((existing ?? []).length > 0) {
+    throw new BusinessError(ErrorCodes.ALREADY_EXISTS, `You already reported this ${TARGET_NAMES[target.type]}`);
+  }
+
+  const { data: report, error } = await supabase
+    .from('content_reports')
+    .insert({
+      reporter_id: input.reporterId,
+      target_type: input.targetType,
+      target_id: input.targetId,
+      prompt_id: target.promptId,
+      reported_user_id: target.ownerId,
+      reason: input.reason,
+      details: input.details?.trim() || null,
+    })
+    .select(CONTENT_REPORT_COLUMNS)
+    .single();
+  if (error || !report) {
+    throw new UnexpectedError('Failed to create report', { error: error?.message });
+  }
+
+  await notifyAdmins(supabase, {
+    type: 'report.created',
+    title: `New report: ${REPORT_REASON_LABELS[input.reason]}`,
+    body: `A ${TARGET_NAMES[target.type]} was reported: ${excerpt(target.summary, 80)}`,
+    url: '/admin',
+    requestId: input.requestId,
+  });
+
+  return report as ContentReport;
+}
+
+export type ReportGroup = {
+  targetType: ReportTargetType;
+  targetId: string;
+  promptId: string | null;
+  promptTitle: string | null;
+  reportedUserId: string | null;
+  summary: string;
+  hidden: boolean;
+  reasons: Partial<Record<ReportReason, number>>;
+  reports: ContentReport[];
+  firstReportedAt: string;
+};
+
+export type AppealItem = PromptAppeal & { prompts?: { title: string | null; moderation_note: string | null } | null };
+
+const TRIAGE_LIMIT = 200;
+
+/**
+ * Open reports grouped by the reported content, most reported first, and appeals waiting for a
+ * decision, oldest first.
+ */
+export async function loadReportTriage(supabase: any): Promise<{ reports: ReportGroup[]; appeals: AppealItem[] }> {
+  const [reportsRes, appealsRes] = await Promise.all([
+    supabase
+      .from('content_reports')
+      .select(`${CONTENT_REPORT_COLUMNS}, prompts(title)`)
+      .eq('status', 'open')
+      .order('created_at', { ascending: true })
+      .limit(TRIAGE_LIMIT),
+    supabase
+      .from('prompt_appeals')
+      .select(`${PROMPT_APPEAL_COLUMNS}, prompts(title, moderation_note)`)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true }),
+  ]);
+  if (reportsRes.error || appealsRes.error) {
+    throw new UnexpectedError('Failed to load reports', { error: (reportsRes.error ?? appealsRes.error).message });
+  }
+
+  const groups = new Map<string, ReportGroup>();
+  for (const row of (reportsRes.data ?? []) as (ContentReport & { prompts?: { title: string | null } | null })[]) {
+    const key = `${row.target_type}:${row.target_id}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        targetType: row.target_type,
+        targetId: row.target_id,
+        promptId: row.prompt_id,
+        promptTitle: row.prompts?.title ?? null,
+        reportedUserId: row.reported_user_id,
+        summary: '',
+        hidden: false,
+        reasons: {},
+        reports: [],
+        firstReportedAt: row.created_at,
+      };
+      groups.set(key, group);
+    }
+    group.reasons[row.reason] = (group.reasons[row.reason] ?? 0) + 1;
+    group.reports.push(row);
+  }
+
+  // Content deleted since it was reported keeps its group so the reports can still be closed
+  await Promise.all(
+    Array.from(groups.values()).map(async (group) => {
+      try {
+        const target = await loadReportTarget(supabase, group.targetType, group.targetId);
+        group.summary = target.summary;
+        group.hidden = target.hidden;
+      } catch {
+        group.summary = 'Content no longer exists';
+      }
+    })
+  );
+
+  const reports = Array.from(groups.values()).sort(
+    (a, b) => b.reports.length - a.reports.length || a.firstReportedAt.localeCompare(b.firstReportedAt)
+  );
+  return { reports, appeals: (appealsRes.data ?? []) as AppealItem[] };
+}
+
+async function hideReportTarget(supabase: any, target: ReportTarget, adminId: string, note: string | null) {
+  if (target.hidden) return;
+  if (target.type === 'prompt') {
+    const { error } = await supabase
+      .from('prompts')
+      .update({ status: 'removed', is_public: false, moderation_note: note ?? 'Removed after user reports' })
+      .eq('id', target.id);
+    if (error) {
+      throw new UnexpectedError('Failed to remove prompt', { promptId: target.id, error: error.message });
+    }
+    await recordModerationAction(supabase, { promptId: target.id, adminId, action: 'remove', reason: note });
+    return;
+  }
+
+  const { error } = await supabase
+    .from(target.type === 'comment' ? 'prompt_comments' : 'prompt_ratings')
+    .update({ hidden_at: new Date().toISOString() })
+    .eq('id', target.id);
+  if (error) {
+    throw new UnexpectedError(`Failed to hide ${TARGET_NAMES[target.type]}`, { id: target.id, error: error.message });
+  }
+}
+
+const REPORTED_USER_MESSAGES: Record<Exclude<ReportResolution, 'dismiss'>, (name: string) => string> = {
+  hide: (name) => `Your ${name} was removed because it breaks the community guidelines.`,
+  warn: (name) => `Your ${name} was reported and reviewed. Please follow the community guidelines; further reports may lead to removal or a ban.`,
+  ban: (name) => `Your ${name} was removed and your account has been banned for breaking the community guidelines.`,
+};
+
+/**
+ * Closes every open report on a piece of content with one decision: `dismiss` leaves it up,
+ * `hide` takes it down (prompts move to `removed` and may be appealed), `warn` only notifies the
+ * author, and `ban` takes it down and bans the author. Reporters and the author are notified.
+ */
+export async function resolveContentReports(
+  supabase: any,
+  input: {
+    targetType: ReportTargetType;
+    targetId: string;
+    adminId: string;
+    resolution: ReportResolution;
+    note?: string | null;
+    requestId?: string;
+  }
+): Promise<{ resolved: number; resolution: ReportResolution }> {
+  const { data: open, error: openError } = await supabase
+    .from('content_reports')
+    .select(CONTENT_REPORT_COLUMNS)
+    .eq('target_type', input.targetType)
+    .eq('target_id', input.targetId)
+    .eq('status', 'open');
+  if (openError) {
+    throw new UnexpectedError('Failed to load reports', { error: openError.message });
+  }
+  const reports = (open ?? []) as ContentReport[];
+  if (reports.length === 0) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'No open reports for this content');
+  }
+
+  const note = input.note?.trim() || null;
+  const name = TARGET_NAMES[input.targetType];
+  const reportedUserId = reports[0].reported_user_id;
+
+  if (input.resolution === 'hide' || input.resolution === 'ban') {
+    const target = await loadReportTarget(supabase, input.targetType, input.targetId);
+    await hideReportTarget(supabase, target, input.adminId, note);
+  }
+  if (input.resolution === 'ban' && reportedUserId) {
+    await suspendUser(supabase, {
+      userId: reportedUserId,
+      adminId: input.adminId,
+      reason: note ?? `Reported ${name} broke the community guidelines`,
+      requestId: input.requestId,
+    });
+  }
+
+  const resolvedAt = new Date().toISOString();
+  for (const report of reports) {
+    const { error } = await supabase
+      .from('content_reports')
+      .update({
+        status: input.resolution === 'dismiss' ? 'dismissed' : 'actioned',
+        resolution: input.resolution,
+        resolution_note: note,
+        resolved_by: input.adminId,
+        resolved_at: resolvedAt,
+      })
+      .eq('id', report.id);
+    if (error) {
+      throw new UnexpectedError('Failed to resolve report', { reportId: report.id, error: error.message });
+    }
+  }
+
+  await notifyMany(
+    supabase,
+    Array.from(new Set(reports.map((report) => report.reporter_id))),
+    {
+      type: 'report.resolved',
+      title: 'Your report was reviewed',
+      body:
+        input.resolution === 'dismiss'
+          ? `Thanks for your report. We reviewed the ${name} and found it does not break the community guidelines.`
+          : `Thanks for your report. We reviewed the ${name} and took action.`,
+      url: reports[0].prompt_id ? `/prompts/${reports[0].prompt_id}` : null,
+      requestId: input.requestId,
+    }
+  );
+
+  if (input.resolution !== 'dismiss' && reportedUserId) {
+    const appealable = input.targetType === 'prompt' && input.resolution === 'hide';
+    await createNotification(supabase, {
+      userId: reportedUserId,
+      type: input.resolution === 'warn' ? 'moderation.warning' : 'moderation.removed',
+      title: input.resolution === 'warn' ? 'Community guidelines warning' : `Your ${name} was removed`,
+      body: `${REPORTED_USER_MESSAGES[input.resolution](name)}${note ? ` Moderator note: ${note}` : ''}${
+        appealable ? ' You can appeal this decision.' : ''
+      }`,
+      url: appealable ? `/creator/prompts/${input.targetId}/appeal` : null,
+      requestId: input.requestId,
+    });
+  }
+
+  return { resolved: reports.length, resolution: input.resolution };
+}
+
+/**
+ * Lets a creator contest the removal of their prompt. One appeal may be pending at a time, and
+ * only prompts in `removed` can be appealed.
+ */
+export async function filePromptAppeal(
+  supabase: any,
+  input: { promptId: string; userId: string; message: string; requestId?: string }
+): Promise<PromptAppeal> {
+  const { data: prompt } = await supabase.from('prompts').select('id,user_id,title,status').eq('id', input.promptId).maybeSingle();
+  if (!prompt || prompt.user_id !== input.userId) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'Prompt not found');
+  }
+  if (prompt.status !== 'removed') {
+    throw new BusinessError(ErrorCodes.INVALID_STATUS, 'Only removed prompts can be appealed');
+  }
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('prompt_appeals')
+    .select('id')
+    .eq('prompt_id', input.promptId)
+    .eq('status', 'pending');
+  if (pendingError) {
+    throw new UnexpectedError('Failed to check existing appeals', { error: pendingError.message });
+  }
+  if ((pending ?? []).length > 0) {
+    throw new BusinessError(ErrorCodes.ALREADY_EXISTS, 'An appeal for this prompt is already waiting for a decision');
+  }
+
+  const { data: appeal, error } = await supabase
+    .from('prompt_appeals')
+    .insert({ prompt_id: input.promptId, user_id: input.userId, message: input.message.trim() })
+    .select(PROMPT_APPEAL_COLUMNS)
+    .single();
+  if (error || !appeal) {
+    throw new UnexpectedError('Failed to file appeal', { error: error?.message });
+  }
+
+  await notifyAdmins(supabase, {
+    type: 'appeal.created',
+    title: 'New takedown appeal',
+    body: `The creator of "${prompt.title ?? 'a prompt'}" appealed its removal.`,
+    url: '/admin',
+    requestId: input.requestId,
+  });
+
+  return appeal as PromptAppeal;
+}
+
+/**
+ * Decides a pending appeal. Granting it relists the prompt as approved; denying it keeps the
+ * prompt removed. The creator is notified either way.
+ */
+export async function decidePromptAppeal(
+  supabase: any,
+  input: { appealId: string; adminId: string; decision: 'grant' | 'deny'; note?: string | null; requestId?: string }
+): Promise<PromptAppeal> {
+  const { data: appeal } = await supabase
+    .from('prompt_appeals')
+    .select(PROMPT_APPEAL_COLUMNS)
+    .eq('id', input.appealId)
+    .maybeSingle();
+  if (!appeal) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'Appeal not found');
+  }
+  if (appeal.status !== 'pending') {
+    throw new BusinessError(ErrorCodes.INVALID_STATUS, 'Appeal was already decided');
+  }
+
+  const note = input.note?.trim() || null;
+  const granted = input.decision === 'grant';
+  if (granted) {
+    const { error } = await supabase
+      .from('prompts')
+      .update({ status: 'approved', ...(await approvedListingFields(supabase, appeal.user_id)), moderation_note: note })
+      .eq('id', appeal.prompt_id);
+    if (error) {
+      throw new UnexpectedError('Failed to reinstate prompt', { promptId: appeal.prompt_id, error: error.message });
+    }
+  }
+  await recordModerationAction(supabase, {
+    promptId: appeal.prompt_id,
+    adminId: input.adminId,
+    action: granted ? 'reinstate' : 'deny_appeal',
+    reason: note,
+    details: { appealId: appeal.id },
+  });
+
+  const decided = {
+    status: granted ? 'granted' : 'denied',
+    decided_by: input.adminId,
+    decision_note: note,
+    decided_at: new Date().toISOString(),
+  };
+  const { error: updateError } = await supabase.from('prompt_appeals').update(decided).eq('id', appeal.id);
+  if (updateError) {
+    throw new UnexpectedError('Failed to record appeal decision', { appealId: appeal.id, error: updateError.message });
+  }
+
+  await createNotification(supabase, {
+    userId: appeal.user_id,
+    type: 'appeal.decided',
+    title: granted ? 'Your appeal was granted' : 'Your appeal was denied',
+    body: granted
+      ? 'Your prompt is listed again.'
+      : `Your prompt stays removed.${note ? ` Moderator note: ${note}` : ''}`,
+    url: granted ? `/prompts/${appeal.prompt_id}` : `/creator/prompts`,
+    requestId: input.requestId,
+  });
+
+  return { ...(appeal as PromptAppeal), ...decided } as PromptAppeal;
+}
@@ -0,0 +1,148 @@
+import { UnexpectedError } from '@/lib/errors';
+import { logger } from '@/lib/logging';
+import {
+  getPromptClassifiers,
+  PromptClassifier,
+  ScanFinding,
+  ScanInput,
+  ScanSeverity,
+} from '@/lib/moderation/classifiers';
+import { HIGH_RISK_SCORE, isAwaitingReview, recordModerationAction } from '@/lib/moderation/queue';
+import { findPendingVersion, rejectPendingVersions } from '@/lib/prompt-versions';
+
+const PROMPT_SCAN_LABEL = 'PROMPT_SCAN';
+
+// How much a single finding of each severity adds to the risk; a critical finding alone is 100
+const SEVERITY_WEIGHTS: Record<ScanSeverity, number> = {
+  low: 0.1,
+  medium: 0.25,
+  high: 0.5,
+  critical: 1,
+};
+
+export type ScanVerdict = 'clear' | 'review' | 'reject';
+
+export type ScanResult = {
+  findings: ScanFinding[];
+  riskScore: number;
+  verdict: ScanVerdict;
+  // Classifiers that threw; the prompt still goes to a reviewer
+  failed: string[];
+};
+
+// Each finding removes its weight's share of the remaining headroom, so scores stay in 0-100
+export function riskScore(findings: ScanFinding[]): number {
+  const clean = findings.reduce((remaining, finding) => remaining * (1 - SEVERITY_WEIGHTS[finding.severity]), 1);
+  return Math.round((1 - clean) * 100);
+}
+
+export async function scanPrompt(
+  input: ScanInput,
+  context: { supabase: any; classifiers?: PromptClassifier[] }
+): Promise<ScanResult> {
+  const classifiers = context.classifiers ?? getPromptClassifiers();
+  const results = await Promise.allSettled(classifiers.map((classifier) => classifier.classify(input, context)));
+
+  const findings: ScanFinding[] = [];
+  const failed: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      findings.push(...result.value);
+    } else {
+      failed.push(classifiers[index].id);
+    }
+  });
+
+  const score = riskScore(findings);
+  const verdict: ScanVerdict = findings.some((finding) => finding.severity === 'critical')
+    ? 'reject'
+    : score >= HIGH_RISK_SCORE
+      ? 'review'
+      : 'clear';
+  return { findings, riskScore: score, verdict, failed };
+}
+
+export function rejectionNote(findings: ScanFinding[]) {
+  const reasons = Array.from(new Set(findings.filter((f) => f.severity === 'critical').map((f) => f.message)));
+  return `Automatically rejected: ${reasons.join('; ')}. Remove it and resubmit.`;
+}
+
+/**
+ * Scans a prompt that was just submitted for review, or the pending edit of an approved prompt,
+ * and stores the findings and risk score on it. Clear violations (any critical finding) are
+ * rejected straight away with a `moderation_note`; for an edit only the edit is rejected and the
+ * prompt stays on sale with its published text. Everything else waits for a reviewer, with risky
+ * prompts first in the queue. Never throws: a prompt that cannot be scanned simply goes to a
+ * reviewer unscored.
+ */
+export async function scanSubmittedPrompt(
+  supabase: any,
+  promptId: string,
+  options: { requestId?: string; classifiers?: PromptClassifier[] } = {}
+): Promise<ScanResult | null> {
+  try {
+    const { data: prompt, error } = await supabase
+      .from('prompts')
+      .select('id,user_id,title,description,prompt_text,tags,status,pending_version')
+      .eq('id', promptId)
+      .maybeSingle();
+    if (error || !prompt) {
+      throw new UnexpectedError('Failed to load prompt to scan', { promptId, error: error?.message });
+    }
+    if (!isAwaitingReview(prompt)) return null;
+    const edit = prompt.status === 'approved';
+    const promptText = edit ? (await findPendingVersion(supabase, promptId))?.content : prompt.prompt_text;
+
+    const result = await scanPrompt(
+      {
+        promptId,
+        userId: prompt.user_id ?? null,
+        title: prompt.title ?? '',
+        description: prompt.description ?? null,
+        promptText: promptText ?? '',
+        tags: prompt.tags ?? [],
+      },
+      { supabase, classifiers: options.classifiers }
+    );
+    if (result.failed.length > 0) {
+      logger.warn('Prompt classifiers failed', { requestId: options.requestId, promptId, failed: result.failed }, PROMPT_SCAN_LABEL);
+    }
+
+    const rejected = result.verdict === 'reject';
+    const note = rejected ? rejectionNote(result.findings) : null;
+    if (rejected && edit) {
+      await rejectPendingVersions(supabase, promptId);
+    }
+    const { error: updateError } = await supabase
+      .from('prompts')
+      .update({
+        scan_findings: result.findings,
+        risk_score: result.riskScore,
+        scanned_at: new Date().toISOString(),
+        ...(rejected ? (edit ? { moderation_note: note } : { status: 'rejected', is_public: false, moderation_note: note }) : {}),
+      })
+      .eq('id', promptId);
+    if (updateError) {
+      throw new UnexpectedError('Failed to store scan result', { promptId, error: updateError.message });
+    }
+
+    if (rejected) {
+      await recordModerationAction(supabase, {
+        promptId,
+        adminId: null,
+        action: 'auto_reject',
+        reason: note,
+        details: {
+          riskScore: result.riskScore,
+          rules: result.findings.map((f) => f.rule),
+          ...(edit ? { version: prompt.pending_version } : {}),
+        },
+      });
+      logger.info('Prompt rejected by scan', { requestId: options.requestId, promptId, riskScore: result.riskScore }, PROMPT_SCAN_LABEL);
+    }
+    return result;
+  } catch (err: any) {
+    logger.error('Prompt scan failed', { requestId: options.requestId, promptId, error: err?.message }, err as Error, PROMPT_SCAN_LABEL);
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+// Reads a profile's suspension without server-only imports, so middleware can enforce it
+
+export const SUSPENSION_PROFILE_COLUMNS = 'is_banned,suspended_until,suspension_reason';
+
+export type SuspensionProfile = {
+  is_banned?: boolean | null;
+  suspended_until?: string | null;
+  suspension_reason?: string | null;
+};
+
+export type ActiveSuspension = {
+  permanent: boolean;
+  // ISO timestamp the suspension ends; null for permanent bans
+  until: string | null;
+  reason: string | null;
+};
+
+/**
+ * The suspension in force for a profile, if any. A temporary suspension stops applying as soon
+ * as it ends, even before the expiry job relists the user's prompts.
+ */
+export function activeSuspension(profile: SuspensionProfile | null | undefined, now: Date = new Date()): ActiveSuspension | null {
+  if (!profile) return null;
+  if (profile.is_banned) {
+    return { permanent: true, until: null, reason: profile.suspension_reason ?? null };
+  }
+  if (profile.suspended_until && new Date(profile.suspended_until).getTime() > now.getTime()) {
+    return { permanent: false, until: profile.suspended_until, reason: profile.suspension_reason ?? null };
+  }
+  return null;
+}
+
+/**
+ * Whether a prompt is off the marketplace: unlisted, or hidden while its creator is suspended.
+ * Such prompts cannot be bought or swapped even when their status is still `approved`.
+ */
+export function isListingHidden(prompt: { is_public?: boolean | null; suspended_at?: string | null }): boolean {
+  return prompt.is_public === false || Boolean(prompt.suspended_at);
+}
+
+export const SUSPENDED_PAGE = '/suspended';
+
+// Suspended users can still read the suspension page and sign in or out
+const SUSPENSION_EXEMPT_PREFIXES = [SUSPENDED_PAGE, '/auth', '/signin', '/api/auth'];
+
+export function isSuspensionExempt(pathname: string) {
+  return SUSPENSION_EXEMPT_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+export function suspensionMessage(suspension: ActiveSuspension) {
+  const base = suspension.permanent
+    ? 'Your account has been banned.'
+    : `Your account is suspended until ${new Date(suspension.until!).toUTCString()}.`;
+  return suspension.reason ? `${base} Reason: ${suspension.reason}` : base;
+}
@@ -0,0 +1,414 @@
+import { NextResponse } from 'next/server';
+import {
+  AppError,
+  BusinessError,
+  ErrorCategory,
+  ResourceError,
+  toAppError,
+  UnexpectedError,
+  ValidationError,
+} from '@/lib/errors';
+import { createErrorResponse, ErrorCodes, type ErrorCode } from '@/lib/api/responses';
+import { createNotification } from '@/lib/notifications';
+import { logger } from '@/lib/logging';
+import { transitionSwap } from '@/lib/swaps/state';
+import { emitSwapNotifications } from '@/lib/swaps/notifications';
+import {
+  activeSuspension,
+  SUSPENDED_PAGE,
+  SUSPENSION_PROFILE_COLUMNS,
+  suspensionMessage,
+  type ActiveSuspension,
+} from '@/lib/moderation/suspension-status';
+
+export const USER_SUSPENSION_COLUMNS =
+  'id,user_id,kind,reason,ends_at,created_by,created_at,listings_hidden,swaps_cancelled,lifted_at,lifted_by,lift_reason';
+
+export type UserSuspension = {
+  id: string;
+  user_id: string;
+  kind: 'temporary' | 'permanent';
+  reason: string;
+  ends_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  listings_hidden: number;
+  swaps_cancelled: number;
+  lifted_at: string | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+};
+
+// Statuses where nothing has been exchanged yet, so a suspended participant's swap can be voided
+const OPEN_SWAP_STATUSES = ['requested', 'accepted', 'escrow_partial'];
+
+const MAX_SUSPENSION_DAYS = 365;
+
+export async function getUserSuspension(supabase: any, userId: string): Promise<ActiveSuspension | null> {
+  const { data, error } = await supabase.from('profiles').select(SUSPENSION_PROFILE_COLUMNS).eq('id', userId).maybeSingle();
+  if (error && error.code !== 'PGRST116') {
+    throw new UnexpectedError('Failed to load account status', { userId, error: error.message });
+  }
+  return activeSuspension(data);
+}
+
+/**
+ * Throws `ACCOUNT_SUSPENDED` (403) while the user is banned or suspended. Middleware already
+ * rejects writes from suspended sessions; this covers work done on a user's behalf elsewhere.
+ */
+export async function assertNotSuspended(supabase: any, userId: string): Promise<void> {
+  const suspension = await getUserSuspension(supabase, userId);
+  if (suspension) {
+    throw new AppError(
+      ErrorCategory.AUTH,
+      ErrorCodes.ACCOUNT_SUSPENDED,
+      suspensionMessage(suspension),
+      { permanent: suspension.permanent, until: suspension.until },
+      403
+    );
+  }
+}
+
+/**
+ * Second check for route handlers that write: the 403 to return while the user is suspended,
+ * or null. Middleware lets the request through when it cannot read the profile; this does not.
+ */
+export async function suspendedUserResponse(supabase: any, userId: string): Promise<NextResponse | null> {
+  try {
+    await assertNotSuspended(supabase, userId);
+    return null;
+  } catch (err) {
+    const appError = toAppError(err);
+    return NextResponse.json(
+      createErrorResponse(appError.code as ErrorCode, appError.message, appError.details),
+      { status: appError.statusCode }
+    );
+  }
+}
+
+/**
+ * How an approved prompt is listed: public, unless its creator is suspended, in which case it stays
+ * hidden and marked so lifting the suspension lists it.
+ */
+export async function approvedListingFields(
+  supabase: any,
+  creatorId: string | null
+): Promise<{ is_public: boolean; suspended_at?: string }> {
+  const suspension = creatorId ? await getUserSuspension(supabase, creatorId) : null;
+  return suspension ? { is_public: false, suspended_at: new Date().toISOString() } : { is_public: true };
+}
+
+async function hideListings(supabase: any, userId: string, hiddenAt: string): Promise<number> {
+  const { data, error } = await supabase.from('prompts').select('id').eq('user_id', userId).eq('is_public', true);
+  if (error) {
+    throw new UnexpectedError('Failed to load listings', { userId, error: error.message });
+  }
+  for (const prompt of data ?? []) {
+    const { error: updateError } = await supabase
+      .from('prompts')
+      .update({ is_public: false, suspended_at: hiddenAt })
+      .eq('id', prompt.id);
+    if (updateError) {
+      throw new UnexpectedError('Failed to hide listing', { promptId: prompt.id, error: updateError.message });
+    }
+  }
+  return (data ?? []).length;
+}
+
+// Only prompts still approved go back on sale; one removed or sent back to review meanwhile stays hidden
+async function relistListings(supabase: any, userId: string): Promise<number> {
+  const { data, error } = await supabase.from('prompts').select('id,status,suspended_at').eq('user_id', userId);
+  if (error) {
+    throw new UnexpectedError('Failed to load listings', { userId, error: error.message });
+  }
+  const hidden = (data ?? []).filter((prompt: { suspended_at: string | null }) => prompt.suspended_at);
+  let relisted = 0;
+  for (const prompt of hidden) {
+    const relist = prompt.status === 'approved';
+    const { error: updateError } = await supabase
+      .from('prompts')
+      .update(relist ? { is_public: true, suspended_at: null } : { suspended_at: null })
+      .eq('id', prompt.id);
+    if (updateError) {
+      throw new UnexpectedError('Failed to relist listing', { promptId: prompt.id, error: updateError.message });
+    }
+    if (relist) relisted += 1;
+  }
+  return relisted;
+}
+
+async function voidOpenSwaps(supabase: any, userId: string, requestId: string): Promise<number> {
+  const [asRequester, asResponder] = await Promise.all([
+    supabase.from('swaps').select('id').eq('requester_id', userId).in('status', OPEN_SWAP_STATUSES),
+    supabase.from('swaps').select('id').eq('responder_id', userId).in('status', OPEN_SWAP_STATUSES),
+  ]);
+  if (asRequester.error || asResponder.error) {
+    throw new UnexpectedError('Failed to load open swaps', { userId, error: (asRequester.error ?? asResponder.error).message });
+  }
+
+  let voided = 0;
+  for (const swap of [...(asRequester.data ?? []), ...(asResponder.data ?? [])]) {
+    try {
+      const result = await transitionSwap(supabase, swap.id, null, 'void', requestId);
+      await emitSwapNotifications(supabase, 'void', result.swap, requestId, { actorId: userId });
+      voided += 1;
+    } catch (error) {
+      // A swap that moved on since it was listed (e.g. released by the other party) is left alone
+      logger.warn(
+        'Failed to void swap of suspended user',
+        { requestId, swapId: swap.id, userId, error: (error as Error).message },
+        'SUSPENSION_SWAP_VOID_FAILED'
+      );
+    }
+  }
+  return voided;
+}
+
+async function loadActiveSuspensionRow(supabase: any, userId: string): Promise<UserSuspension | null> {
+  const { data, error } = await supabase
+    .from('user_suspensions')
+    .select(USER_SUSPENSION_COLUMNS)
+    .eq('user_id', userId)
+    .is('lifted_at', null)
+    .maybeSingle();
+  if (error && error.code !== 'PGRST116') {
+    throw new UnexpectedError('Failed to load suspension', { userId, error: error.message });
+  }
+  return (data as UserSuspension) ?? null;
+}
+
+/**
+ * Suspends a user for `days`, or bans them when `days` is omitted. Their public listings are
+ * hidden and swaps that have not been released are cancelled. A new suspension replaces the one
+ * in force. Admins cannot be suspended.
+ */
+export async function suspendUser(
+  supabase: any,
+  input: { userId: string; adminId: string; reason: string; days?: number | null; requestId?: string }
+): Promise<UserSuspension> {
+  const requestId = input.requestId ?? crypto.randomUUID();
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, 'A reason is required');
+  }
+  if (input.days != null && (!Number.isInteger(input.days) || input.days < 1 || input.days > MAX_SUSPENSION_DAYS)) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, `Suspensions last between 1 and ${MAX_SUSPENSION_DAYS} days`);
+  }
+  if (input.userId === input.adminId) {
+    throw new BusinessError(ErrorCodes.FORBIDDEN, 'You cannot suspend yourself');
+  }
+
+  const { data: profile } = await supabase.from('profiles').select('id,is_admin').eq('id', input.userId).maybeSingle();
+  if (!profile) {
+    throw new ResourceError(ErrorCodes.NOT_FOUND, 'User not found');
+  }
+  if (profile.is_admin) {
+    throw new BusinessError(ErrorCodes.FORBIDDEN, 'Admins cannot be suspended');
+  }
+
+  const now = new Date();
+  const permanent = input.days == null;
+  const endsAt = permanent ? null : new Date(now.getTime() + input.days! * 24 * 60 * 60 * 1000).toISOString();
+
+  const current = await loadActiveSuspensionRow(supabase, input.userId);
+  if (current) {
+    const { error } = await supabase
+      .from('user_suspensions')
+      .update({ lifted_at: now.toISOString(), lifted_by: input.adminId, lift_reason: 'Replaced by a new suspension' })
+      .eq('id', current.id);
+    if (error) {
+      throw new UnexpectedError('Failed to replace suspension', { suspensionId: current.id, error: error.message });
+    }
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .update({ is_banned: permanent, suspended_until: endsAt, suspension_reason: reason })
+    .eq('id', input.userId);
+  if (profileError) {
+    throw new UnexpectedError('Failed to suspend user', { userId: input.userId, error: profileError.message });
+  }
+
+  const listingsHidden = await hideListings(supabase, input.userId, now.toISOString());
+  const swapsCancelled = await voidOpenSwaps(supabase, input.userId, requestId);
+
+  const { data: suspension, error } = await supabase
+    .from('user_suspensions')
+    .insert({
+      user_id: input.userId,
+      kind: permanent ? 'permanent' : 'temporary',
+      reason,
+      ends_at: endsAt,
+      created_by: input.adminId,
+      listings_hidden: listingsHidden,
+      swaps_cancelled: swapsCancelled,
+    })
+    .select(USER_SUSPENSION_COLUMNS)
+    .single();
+  if (error || !suspension) {
+    throw new UnexpectedError('Failed to record suspension', { userId: input.userId, error: error?.message });
+  }
+
+  await createNotification(supabase, {
+    userId: input.userId,
+    type: 'account.suspended',
+    title: permanent ? 'Your account has been banned' : 'Your account has been suspended',
+    body: suspensionMessage({ permanent, until: endsAt, reason }),
+    url: SUSPENDED_PAGE,
+    requestId,
+  });
+
+  logger.info(
+    'User suspended',
+    { requestId, userId: input.userId, adminId: input.adminId, permanent, endsAt, listingsHidden, swapsCancelled },
+    'USER_SUSPENDED'
+  );
+
+  return suspension as UserSuspension;
+}
+
+async function closeSuspension(
+  supabase: any,
+  userId: string,
+  lift: { liftedAt: string; liftedBy: string | null; reason: string; requestId: string }
+): Promise<{ relisted: number }> {
+  const current = await loadActiveSuspensionRow(supabase, userId);
+  if (current) {
+    const { error } = await supabase
+      .from('user_suspensions')
+      .update({ lifted_at: lift.liftedAt, lifted_by: lift.liftedBy, lift_reason: lift.reason })
+      .eq('id', current.id);
+    if (error) {
+      throw new UnexpectedError('Failed to lift suspension', { suspensionId: current.id, error: error.message });
+    }
+  }
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .update({ is_banned: false, suspended_until: null, suspension_reason: null })
+    .eq('id', userId);
+  if (profileError) {
+    throw new UnexpectedError('Failed to lift suspension', { userId, error: profileError.message });
+  }
+
+  const relisted = await relistListings(supabase, userId);
+
+  await createNotification(supabase, {
+    userId,
+    type: 'account.reinstated',
+    title: 'Your account has been reinstated',
+    body: relisted > 0 ? `You can use PromptSwap again. ${relisted} of your prompts are listed again.` : 'You can use PromptSwap again.',
+    url: '/dashboard',
+    requestId: lift.requestId,
+  });
+
+  return { relisted };
+}
+
+/**
+ * Lifts a user's ban or suspension early and relists the prompts hidden by it. Swaps cancelled
+ * by the suspension stay cancelled.
+ */
+export async function liftSuspension(
+  supabase: any,
+  input: { userId: string; adminId: string; reason: string; requestId?: string }
+): Promise<{ relisted: number }> {
+  const requestId = input.requestId ?? crypto.randomUUID();
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, 'A reason is required');
+  }
+  if (!(await getUserSuspension(supabase, input.userId))) {
+    throw new BusinessError(ErrorCodes.INVALID_STATUS, 'User is not suspended');
+  }
+
+  const result = await closeSuspension(supabase, input.userId, {
+    liftedAt: new Date().toISOString(),
+    liftedBy: input.adminId,
+    reason,
+    requestId,
+  });
+  logger.info('User suspension lifted', { requestId, userId: input.userId, adminId: input.adminId, ...result }, 'USER_UNSUSPENDED');
+  return result;
+}
+
+/**
+ * Closes temporary suspensions that have run out and relists the prompts they hid. Enforcement
+ * already stopped when `suspended_until` passed; this tidies up after it.
+ */
+export async function expireSuspensions(
+  supabase: any,
+  opts: { now?: Date; limit?: number; requestId?: string } = {}
+): Promise<{ expired: number; relisted: number; failed: number }> {
+  const now = opts.now ?? new Date();
+  const requestId = opts.requestId ?? crypto.randomUUID();
+  const { data, error } = await supabase
+    .from('user_suspensions')
+    .select(USER_SUSPENSION_COLUMNS)
+    .eq('kind', 'temporary')
+    .is('lifted_at', null)
+    .lte('ends_at', now.toISOString())
+    .order('ends_at', { ascending: true })
+    .limit(opts.limit ?? 200);
+  if (error) {
+    throw new UnexpectedError('Failed to load expired suspensions', { error: error.message });
+  }
+
+  const report = { expired: 0, relisted: 0, failed: 0 };
+  for (const suspension of (data ?? []) as UserSuspension[]) {
+    try {
+      const result = await closeSuspension(supabase, suspension.user_id, {
+        liftedAt: suspension.ends_at!,
+        liftedBy: null,
+        reason: 'Suspension ended',
+        requestId,
+      });
+      report.expired += 1;
+      report.relisted += result.relisted;
+    } catch (err) {
+      report.failed += 1;
+      logger.warn(
+        'Failed to expire suspension',
+        { requestId, suspensionId: suspension.id, error: (err as Error).message },
+        'SUSPENSION_EXPIRE_FAILED'
+      );
+    }
+  }
+  return report;
+}
+
+export type SuspensionListItem = UserSuspension & { profile: { full_name: string | null; email: string | null } | null };
+
+/**
+ * Suspensions in force and the most recent history, newest first, with the suspended user's name
+ * for the admin audit view.
+ */
+export async function loadSuspensionAudit(
+  supabase: any,
+  opts: { userId?: string; limit?: number } = {}
+): Promise<{ active: SuspensionListItem[]; history: SuspensionListItem[] }> {
+  let query = supabase.from('user_suspensions').select(USER_SUSPENSION_COLUMNS);
+  if (opts.userId) query = query.eq('user_id', opts.userId);
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(opts.limit ?? 100);
+  if (error) {
+    throw new UnexpectedError('Failed to load suspensions', { error: error.message });
+  }
+  const rows = (data ?? []) as UserSuspension[];
+
+  const userIds = Array.from(new Set(rows.map((row) => row.user_id)));
+  const profiles = new Map<string, { full_name: string | null; email: string | null }>();
+  if (userIds.length > 0) {
+    const { data: profileRows } = await supabase.from('profiles').select('id,full_name,email').in('id', userIds);
+    for (const profile of profileRows ?? []) {
+      profiles.set(profile.id, { full_name: profile.full_name ?? null, email: profile.email ?? null });
+    }
+  }
+
+  const items = rows
+    .map((row) => ({ ...row, profile: profiles.get(row.user_id) ?? null }))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return {
+    active: items.filter((item) => !item.lifted_at),
+    history: items.filter((item) => item.lifted_at),
+  };
+}
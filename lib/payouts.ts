@@ -0,0 +1,424 @@
+import Stripe from 'stripe';
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import { createNotification } from '@/lib/notifications';
+import {
+  LedgerEntryRow,
+  loadCreatorLedger,
+  payoutTransaction,
+  recordLedgerTransactions,
+  summarizeCreatorLedger,
+} from '@/lib/ledger';
+
+export type PayoutInterval = 'weekly' | 'monthly';
+export type PayoutTrigger = 'manual' | 'scheduled';
+export type PayoutStripeClient = Pick<Stripe, 'transfers'>;
+
+export const PAYOUT_SCHEDULE_COLUMNS = 'creator_id,interval,minimum_cents,enabled,next_run_at,last_run_at';
+export const PAYOUT_COLUMNS =
+  'id,seller_id,amount,currency,status,trigger,idempotency_key,stripe_transfer_id,failure_reason,created_at';
+
+export type PayoutSchedule = {
+  creator_id: string;
+  interval: PayoutInterval;
+  minimum_cents: number;
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+};
+
+export type PayoutRow = {
+  id: string;
+  seller_id: string;
+  amount: number;
+  currency: string | null;
+  status: 'pending' | 'paid' | 'failed';
+  trigger: PayoutTrigger;
+  idempotency_key: string | null;
+  stripe_transfer_id: string | null;
+  failure_reason: string | null;
+  created_at: string | null;
+};
+
+export type PayableBalance = {
+  availableCents: number;
+  holdbackCents: number;
+  pendingCents: number;
+  payableCents: number;
+};
+
+export type ScheduledPayoutReport = {
+  due: number;
+  paid: number;
+  belowMinimum: number;
+  skipped: number;
+  failed: number;
+  // Payouts left pending by an interrupted run that were sent again
+  retried: number;
+};
+
+const PAYOUT_LABEL = 'PAYOUT';
+
+export function formatPayoutAmount(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// Weekly payouts run seven days after the previous one; monthly ones on the same day next month
+export function nextPayoutDate(interval: PayoutInterval, from: Date): Date {
+  const next = new Date(from.getTime());
+  if (interval === 'monthly') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 7);
+  }
+  return next;
+}
+
+/**
+ * Creator share of sales still inside the refund window. Refunds in that window are reversed from
+ * creator_payable, so paying it out early could leave the creator's balance negative. Destination
+ * charges are excluded by construction: their transfer entry already zeroed the purchase.
+ */
+export function refundHoldbackCents(entries: LedgerEntryRow[], cutoff: Date): number {
+  const recentPurchases = new Set(
+    entries
+      .filter(
+        (entry) =>
+          entry.kind === 'sale' &&
+          entry.purchase_id &&
+          entry.created_at &&
+          new Date(entry.created_at).getTime() >= cutoff.getTime()
+      )
+      .map((entry) => entry.purchase_id as string)
+  );
+
+  const heldByPurchase = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.account !== 'creator_payable' || !entry.purchase_id || !recentPurchases.has(entry.purchase_id)) continue;
+    const signed = entry.direction === 'credit' ? entry.amount_cents : -entry.amount_cents;
+    heldByPurchase.set(entry.purchase_id, (heldByPurchase.get(entry.purchase_id) ?? 0) + signed);
+  }
+
+  let held = 0;
+  for (const amount of heldByPurchase.values()) {
+    held += Math.max(0, amount);
+  }
+  return held;
+}
+
+/**
+ * What can be sent to the creator right now: the ledger creator_payable balance, less the refund
+ * holdback and payouts that are still in flight (not yet in the ledger).
+ */
+export async function getPayableBalance(
+  supabase: any,
+  creatorId: string,
+  holdbackDays: number,
+  now: Date = new Date()
+): Promise<PayableBalance> {
+  const entries = await loadCreatorLedger(supabase, creatorId);
+  const { data: pending, error } = await supabase
+    .from('payouts')
+    .select('amount')
+    .eq('seller_id', creatorId)
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load pending payouts', { details: error.message }, 500);
+  }
+
+  const availableCents = Math.max(0, summarizeCreatorLedger(entries).availableCents);
+  const cutoff = new Date(now.getTime() - holdbackDays * 24 * 60 * 60 * 1000);
+  const holdbackCents = Math.min(availableCents, refundHoldbackCents(entries, cutoff));
+  const pendingCents = (pending ?? []).reduce(
+    (sum: number, row: { amount: number | string | null }) => sum + Math.round(Number(row.amount ?? 0) * 100),
+    0
+  );
+
+  return {
+    availableCents,
+    holdbackCents,
+    pendingCents,
+    payableCents: Math.max(0, availableCents - holdbackCents - pendingCents),
+  };
+}
+
+async function findPayoutByKey(supabase: any, idempotencyKey: string): Promise<PayoutRow | null> {
+  const { data, error } = await supabase
+    .from('payouts')
+    .select(PAYOUT_COLUMNS)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load payout', { details: error.message }, 500);
+  }
+  return (data as PayoutRow | null) ?? null;
+}
+
+async function notifyPayout(supabase: any, creatorId: string, payout: { status: 'paid' | 'failed'; amountCents: number }, requestId: string) {
+  const paid = payout.status === 'paid';
+  try {
+    await createNotification(supabase, {
+      userId: creatorId,
+      type: paid ? 'payout.paid' : 'payout.failed',
+      title: paid ? 'Payout sent' : 'Payout failed',
+      body: paid
+        ? `${formatPayoutAmount(payout.amountCents)} is on its way to your Stripe account.`
+        : `We could not send your ${formatPayoutAmount(payout.amountCents)} payout. Check your Stripe account; we will try again on your next payout date.`,
+      url: '/dashboard/earnings',
+      requestId,
+    });
+  } catch (notifyError) {
+    logger.warn('Failed to notify creator about payout', {
+      requestId,
+      creatorId,
+      error: (notifyError as Error)?.message,
+    }, 'PAYOUT_NOTIFICATION_FAILED');
+  }
+}
+
+/**
+ * Sends up to `amountCents` to the creator's connected account. The payout is first reserved by
+ * the `reserve_payout` RPC, which takes a per-creator lock and writes the pending row against the
+ * balance left after other pending payouts, so a manual and a scheduled payout racing each other
+ * cannot send the same money twice; the second one gets what is left or `INSUFFICIENT_FUNDS`.
+ * The same key is sent to Stripe, so calling this again with the same key never pays twice: a
+ * paid payout is returned as is, an interrupted one gets the original transfer back from Stripe.
+ */
+export async function executePayout(
+  supabase: any,
+  stripe: PayoutStripeClient,
+  input: {
+    creatorId: string;
+    destination: string;
+    amountCents: number;
+    // Sales still inside the refund window, kept back when the payout is reserved
+    holdbackCents: number;
+    idempotencyKey: string;
+    trigger: PayoutTrigger;
+    requestId: string;
+  }
+): Promise<PayoutRow> {
+  let payout = await findPayoutByKey(supabase, input.idempotencyKey);
+  if (payout?.status === 'paid') return payout;
+
+  if (!payout) {
+    const { data, error } = await supabase.rpc('reserve_payout', {
+      p_creator_id: input.creatorId,
+      p_amount_cents: input.amountCents,
+      p_holdback_cents: input.holdbackCents,
+      p_trigger: input.trigger,
+      p_idempotency_key: input.idempotencyKey,
+      p_destination: input.destination,
+    });
+
+    if (error) {
+      if (error.code === '23514') {
+        throw new AppError(ErrorCategory.BUSINESS, ErrorCodes.INSUFFICIENT_FUNDS, 'No payable balance left', { creatorId: input.creatorId }, 409);
+      }
+      throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to record payout', { details: error.message }, 500);
+    }
+    payout = data as PayoutRow;
+    // Another run reserved the same key and has already sent it
+    if (payout.status === 'paid') return payout;
+  }
+
+  const amountCents = Math.round(Number(payout.amount) * 100);
+
+  let transfer: Stripe.Transfer;
+  try {
+    transfer = await stripe.transfers.create(
+      {
+        amount: amountCents,
+        currency: 'usd',
+        destination: input.destination,
+        metadata: { seller_id: input.creatorId, payout_id: payout!.id, source: `${input.trigger}_payout` },
+      },
+      { idempotencyKey: input.idempotencyKey }
+    );
+  } catch (err: any) {
+    await supabase
+      .from('payouts')
+      .update({ status: 'failed', failure_reason: err?.message ?? 'Stripe transfer failed', updated_at: new Date().toISOString() })
+      .eq('id', payout!.id);
+    await notifyPayout(supabase, input.creatorId, { status: 'failed', amountCents }, input.requestId);
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.STRIPE_ERROR, 'Stripe transfer failed', { payoutId: payout!.id, details: err?.message }, 502);
+  }
+
+  const { error: updateError } = await supabase
+    .from('payouts')
+    .update({ status: 'paid', stripe_transfer_id: transfer.id, failure_reason: null, updated_at: new Date().toISOString() })
+    .eq('id', payout!.id);
+
+  if (updateError) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to mark payout as paid', { payoutId: payout!.id, details: updateError.message }, 500);
+  }
+
+  await recordLedgerTransactions(supabase, [
+    payoutTransaction({
+      payoutId: payout!.id,
+      creatorId: input.creatorId,
+      amountCents,
+      currency: 'usd',
+      stripeTransferId: transfer.id,
+    }),
+  ]);
+
+  logger.info('Payout sent', {
+    requestId: input.requestId,
+    payoutId: payout!.id,
+    creatorId: input.creatorId,
+    amountCents,
+    trigger: input.trigger,
+    transferId: transfer.id,
+  }, PAYOUT_LABEL);
+
+  await notifyPayout(supabase, input.creatorId, { status: 'paid', amountCents }, input.requestId);
+
+  return { ...payout!, status: 'paid', stripe_transfer_id: transfer.id, failure_reason: null };
+}
+
+async function findPayoutDestination(supabase: any, creatorId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('stripe_account_id, connected_account_id, stripe_payouts_enabled')
+    .eq('id', creatorId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load creator payout account', { details: error.message }, 500);
+  }
+  if (data?.stripe_payouts_enabled === false) return null;
+  return data?.connected_account_id ?? data?.stripe_account_id ?? null;
+}
+
+async function loadPendingScheduledPayouts(
+  supabase: any,
+  creatorId: string
+): Promise<(PayoutRow & { destination_account: string | null })[]> {
+  const { data, error } = await supabase
+    .from('payouts')
+    .select(`${PAYOUT_COLUMNS},destination_account`)
+    .eq('seller_id', creatorId)
+    .eq('trigger', 'scheduled')
+    .eq('status', 'pending');
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load pending payouts', { details: error.message }, 500);
+  }
+  return data ?? [];
+}
+
+/**
+ * Pays every creator whose schedule is due. A payout below the creator's minimum is skipped and
+ * the balance carries over. The idempotency key is derived from the due date, so rerunning the
+ * job for the same period cannot pay twice. Payouts an earlier run left pending are sent again
+ * with their original key first; while one is still pending the schedule keeps its date, so
+ * the money it holds back is not stuck until someone notices.
+ */
+export async function runScheduledPayouts(
+  supabase: any,
+  stripe: PayoutStripeClient,
+  options: { holdbackDays: number; requestId: string; now?: Date }
+): Promise<ScheduledPayoutReport> {
+  const now = options.now ?? new Date();
+  const report: ScheduledPayoutReport = { due: 0, paid: 0, belowMinimum: 0, skipped: 0, failed: 0, retried: 0 };
+
+  const { data: schedules, error } = await supabase
+    .from('payout_schedules')
+    .select(PAYOUT_SCHEDULE_COLUMNS)
+    .eq('enabled', true)
+    .lte('next_run_at', now.toISOString());
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load payout schedules', { details: error.message }, 500);
+  }
+
+  for (const schedule of (schedules ?? []) as PayoutSchedule[]) {
+    report.due += 1;
+    const context = { requestId: options.requestId, creatorId: schedule.creator_id, dueAt: schedule.next_run_at };
+    const idempotencyKey = `scheduled_payout:${schedule.creator_id}:${new Date(schedule.next_run_at).toISOString()}`;
+
+    try {
+      const destination = await findPayoutDestination(supabase, schedule.creator_id);
+
+      // The holdback only depends on recent sales, so retried payouts do not change it
+      const balance = await getPayableBalance(supabase, schedule.creator_id, options.holdbackDays, now);
+
+      let retriedThisPeriod = false;
+      for (const pending of await loadPendingScheduledPayouts(supabase, schedule.creator_id)) {
+        const target = pending.destination_account ?? destination;
+        if (!target) continue;
+        await executePayout(supabase, stripe, {
+          creatorId: schedule.creator_id,
+          destination: target,
+          amountCents: Math.round(Number(pending.amount) * 100),
+          holdbackCents: balance.holdbackCents,
+          idempotencyKey: pending.idempotency_key!,
+          trigger: 'scheduled',
+          requestId: options.requestId,
+        });
+        report.retried += 1;
+        retriedThisPeriod ||= pending.idempotency_key === idempotencyKey;
+      }
+
+      if (retriedThisPeriod) {
+        report.paid += 1;
+      } else if (!destination) {
+        report.skipped += 1;
+        logger.warn('Scheduled payout skipped: no payout-enabled Stripe account', context, PAYOUT_LABEL);
+      } else if (balance.payableCents < schedule.minimum_cents) {
+        report.belowMinimum += 1;
+      } else {
+        await executePayout(supabase, stripe, {
+          creatorId: schedule.creator_id,
+          destination,
+          amountCents: balance.payableCents,
+          holdbackCents: balance.holdbackCents,
+          idempotencyKey,
+          trigger: 'scheduled',
+          requestId: options.requestId,
+        });
+        report.paid += 1;
+      }
+    } catch (err) {
+      // A manual payout reserved the balance first; there is nothing left to send this period
+      if (err instanceof AppError && err.code === ErrorCodes.INSUFFICIENT_FUNDS) {
+        report.belowMinimum += 1;
+        continue;
+      }
+      report.failed += 1;
+      logger.warn('Scheduled payout failed', { ...context, error: (err as Error)?.message }, PAYOUT_LABEL);
+    }
+
+    let stillPending = true;
+    try {
+      stillPending = (await loadPendingScheduledPayouts(supabase, schedule.creator_id)).length > 0;
+    } catch (err) {
+      logger.warn('Failed to check pending payouts', { ...context, error: (err as Error)?.message }, PAYOUT_LABEL);
+    }
+    if (stillPending) {
+      logger.warn('Payout schedule kept on its date: a payout is still pending', context, PAYOUT_LABEL);
+      continue;
+    }
+
+    // Due dates stay on the creator's cadence even when the job runs late
+    let nextRun = nextPayoutDate(schedule.interval, new Date(schedule.next_run_at));
+    while (nextRun.getTime() <= now.getTime()) {
+      nextRun = nextPayoutDate(schedule.interval, nextRun);
+    }
+
+    const { error: advanceError } = await supabase
+      .from('payout_schedules')
+      .update({ next_run_at: nextRun.toISOString(), last_run_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq('creator_id', schedule.creator_id);
+
+    if (advanceError) {
+      logger.warn('Failed to advance payout schedule', { ...context, error: advanceError.message }, PAYOUT_LABEL);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,118 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+
+// Fallback when no global rule exists; matches the 10% the legacy payment intent route charged
+export const DEFAULT_PLATFORM_FEE_BPS = 1000;
+
+export const PLATFORM_FEE_RULE_COLUMNS = 'id,creator_id,fee_bps,starts_at,ends_at,note,created_at';
+
+export type PlatformFeeRule = {
+  id: string;
+  creator_id: string | null;
+  fee_bps: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  note?: string | null;
+  created_at?: string | null;
+};
+
+export type ResolvedPlatformFee = {
+  feeBps: number;
+  ruleId: string | null;
+  promotional: boolean;
+};
+
+function defaultFeeBps() {
+  const fromEnv = Number(process.env.PLATFORM_FEE_BPS);
+  return Number.isInteger(fromEnv) && fromEnv >= 0 && fromEnv <= 10000 ? fromEnv : DEFAULT_PLATFORM_FEE_BPS;
+}
+
+// Rules with a start or end date are promotions; the rest are standing rates
+export function isPromotion(rule: Pick<PlatformFeeRule, 'starts_at' | 'ends_at'>) {
+  return Boolean(rule.starts_at || rule.ends_at);
+}
+
+function isRuleActive(rule: PlatformFeeRule, now: Date) {
+  if (rule.starts_at && new Date(rule.starts_at).getTime() > now.getTime()) return false;
+  if (rule.ends_at && new Date(rule.ends_at).getTime() <= now.getTime()) return false;
+  return true;
+}
+
+function newestFirst(a: PlatformFeeRule, b: PlatformFeeRule) {
+  return new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime();
+}
+
+/**
+ * Picks the fee for a creator from the given rules.
+ * - standing rate: the creator override, else the global default, else PLATFORM_FEE_BPS / 10%
+ * - promotions: the lowest active promotion for the creator or everyone, applied only when it
+ *   is below the standing rate, so a promotion never raises a negotiated override
+ */
+export function selectPlatformFee(
+  rules: PlatformFeeRule[],
+  creatorId: string,
+  now: Date = new Date()
+): ResolvedPlatformFee {
+  const applicable = rules.filter(
+    (rule) => (rule.creator_id === null || rule.creator_id === creatorId) && isRuleActive(rule, now)
+  );
+
+  const standing = applicable.filter((rule) => !isPromotion(rule)).sort(newestFirst);
+  const standingRule = standing.find((rule) => rule.creator_id === creatorId) ?? standing.find((rule) => rule.creator_id === null);
+  const base: ResolvedPlatformFee = standingRule
+    ? { feeBps: standingRule.fee_bps, ruleId: standingRule.id, promotional: false }
+    : { feeBps: defaultFeeBps(), ruleId: null, promotional: false };
+
+  const promotion = applicable
+    .filter(isPromotion)
+    .reduce<PlatformFeeRule | null>((best, rule) => (!best || rule.fee_bps < best.fee_bps ? rule : best), null);
+
+  if (promotion && promotion.fee_bps < base.feeBps) {
+    return { feeBps: promotion.fee_bps, ruleId: promotion.id, promotional: true };
+  }
+  return base;
+}
+
+/**
+ * Loads the global and creator-specific fee rules and resolves the creator's current fee.
+ * Creator rules are private, so pass a service-role client.
+ */
+export async function resolvePlatformFee(
+  supabase: any,
+  creatorId: string,
+  now: Date = new Date()
+): Promise<ResolvedPlatformFee> {
+  const { data, error } = await supabase
+    .from('platform_fee_rules')
+    .select(PLATFORM_FEE_RULE_COLUMNS)
+    .or(`creator_id.is.null,creator_id.eq.${creatorId}`);
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load platform fee rules', { details: error.message }, 500);
+  }
+
+  return selectPlatformFee((data ?? []) as PlatformFeeRule[], creatorId, now);
+}
+
+export function platformFeeCents(amountCents: number, feeBps: number): number {
+  return Math.min(amountCents, Math.max(0, Math.round((amountCents * feeBps) / 10000)));
+}
+
+/**
+ * Returns the creator's connected Stripe account when it can receive destination charges.
+ * Creators without one are paid from their ledger balance through `/api/stripe/payout`.
+ */
+export async function findTransferDestination(supabase: any, creatorId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('stripe_account_id, connected_account_id, stripe_charges_enabled')
+    .eq('id', creatorId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load creator payout account', { details: error.message }, 500);
+  }
+
+  if (!data?.stripe_charges_enabled) return null;
+  return data.connected_account_id ?? data.stripe_account_id ?? null;
+}
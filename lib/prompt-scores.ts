@@ -0,0 +1,88 @@
+import { UnexpectedError } from '@/lib/errors';
+import type { PromptSearchFilters } from '@/lib/search-filters';
+
+export const SCORE_SORTS = ['trending', 'rating'] as const;
+
+export type ScoreSort = (typeof SCORE_SORTS)[number];
+
+export function isScoreSort(value: string): value is ScoreSort {
+  return (SCORE_SORTS as readonly string[]).includes(value);
+}
+
+/**
+ * Inputs to `refresh_prompt_scores`. The rating is a Bayesian average that treats every prompt as
+ * having `priorWeight` extra ratings at the catalogue mean; purchases and views inside the window
+ * count less the older they are, halving every `halfLifeHours`.
+ */
+export const PROMPT_SCORE_SETTINGS = {
+  priorWeight: 5,
+  windowDays: 14,
+  halfLifeHours: 72,
+  weights: {
+    rating: 0.4,
+    purchases: 0.4,
+    views: 0.2,
+  },
+};
+
+// Recomputes the score of every public prompt; returns how many were scored
+export async function refreshPromptScores(
+  supabase: any,
+  settings: typeof PROMPT_SCORE_SETTINGS = PROMPT_SCORE_SETTINGS
+): Promise<number> {
+  const { data, error } = await supabase.rpc('refresh_prompt_scores', {
+    p_prior_weight: settings.priorWeight,
+    p_window_days: settings.windowDays,
+    p_half_life_hours: settings.halfLifeHours,
+    p_rating_weight: settings.weights.rating,
+    p_purchases_weight: settings.weights.purchases,
+    p_views_weight: settings.weights.views,
+  });
+  if (error) {
+    throw new UnexpectedError('Failed to refresh prompt scores', { error: error.message });
+  }
+  return Number(data ?? 0);
+}
+
+type ScoreSearchParams = PromptSearchFilters & {
+  sort: ScoreSort;
+  offset: number;
+  limit: number;
+};
+
+type ScoreSearchRow = {
+  prompt: Record<string, any>;
+  score: number | null;
+  total_count: number;
+};
+
+/**
+ * Public prompts ordered by trending score or Bayesian rating (see `search_prompts_by_score`).
+ * Prompts published since the last refresh have no score yet and come last.
+ */
+export async function searchPromptsByScore(
+  supabase: any,
+  params: ScoreSearchParams
+): Promise<{ items: Record<string, any>[]; total: number }> {
+  const { data, error } = await supabase.rpc('search_prompts_by_score', {
+    p_sort: params.sort,
+    p_query: params.q?.trim() || null,
+    p_tags: params.tags ?? null,
+    p_category: params.category ?? null,
+    p_creator: params.creator ?? null,
+    p_price_min: params.priceMin ?? null,
+    p_price_max: params.priceMax ?? null,
+    p_min_rating: params.minRating ?? null,
+    p_limit: params.limit,
+    p_offset: params.offset,
+  });
+  if (error) {
+    throw new UnexpectedError('Failed to search prompts', { error: error.message });
+  }
+
+  const rows = (data ?? []) as ScoreSearchRow[];
+  return {
+    items: rows.map((row) => ({ ...row.prompt, score: row.score })),
+    total: Number(rows[0]?.total_count ?? 0),
+  };
+}
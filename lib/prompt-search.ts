@@ -0,0 +1,242 @@
+import { UnexpectedError } from '@/lib/errors';
+import { logger } from '@/lib/logging';
+import { EmbeddingBackend, embeddingModelId, getEmbeddingBackend } from '@/lib/embeddings';
+import { PRICE_RANGES, PromptSearchFilters, RATING_BANDS } from '@/lib/search-filters';
+
+const PROMPT_SEARCH_LABEL = 'PROMPT_SEARCH';
+
+export const PROMPT_SEARCH_COLUMNS =
+  'id,title,description,price,tags,category,preview_image,created_at,likes,user_id,rating_avg,rating_count,eval_pass_rate,eval_case_count,eval_run_at,eval_stale';
+
+const FACET_LIMIT = 20;
+
+export type FacetBucket = { value: string; label: string; count: number };
+
+export type PriceFacetBucket = { key: string; label: string; min: number; max: number | null; count: number };
+
+export type RatingFacetBucket = { min: number; label: string; count: number };
+
+export type SearchFacets = {
+  tags: FacetBucket[];
+  categories: FacetBucket[];
+  creators: FacetBucket[];
+  priceRanges: PriceFacetBucket[];
+  ratings: RatingFacetBucket[];
+};
+
+/**
+ * Counts for each facet of a search (see `search_prompt_facets`). Every facet ignores its own
+ * filter, so the other options stay visible once one is picked. Returns null when the counts
+ * cannot be loaded; the search results do not depend on them.
+ */
+export async function loadSearchFacets(
+  supabase: any,
+  filters: PromptSearchFilters,
+  requestId?: string
+): Promise<SearchFacets | null> {
+  let data: any = null;
+  let error: { message?: string } | null = null;
+  try {
+    ({ data, error } = await supabase.rpc('search_prompt_facets', {
+      p_query: filters.q,
+      p_tags: filters.tags ?? null,
+      p_category: filters.category ?? null,
+      p_creator: filters.creator ?? null,
+      p_price_min: filters.priceMin ?? null,
+      p_price_max: filters.priceMax ?? null,
+      p_min_rating: filters.minRating ?? null,
+      p_price_buckets: PRICE_RANGES.map(({ key, min, max }) => ({ key, min, max })),
+      p_rating_bands: RATING_BANDS,
+      p_facet_limit: FACET_LIMIT,
+    }));
+  } catch (err: any) {
+    error = { message: err?.message };
+  }
+  if (error || !data) {
+    logger.warn('Failed to load search facets', { requestId, error: error?.message }, PROMPT_SEARCH_LABEL);
+    return null;
+  }
+
+  const priceCounts = new Map(
+    ((data.priceRanges ?? []) as { key: string; count: number }[]).map((row) => [row.key, Number(row.count)])
+  );
+  const ratingCounts = new Map(
+    ((data.ratings ?? []) as { min: number; count: number }[]).map((row) => [Number(row.min), Number(row.count)])
+  );
+  const buckets = (rows: unknown): FacetBucket[] =>
+    ((rows ?? []) as { value: string; label?: string; count: number }[]).map((row) => ({
+      value: row.value,
+      label: row.label ?? row.value,
+      count: Number(row.count),
+    }));
+
+  return {
+    tags: buckets(data.tags),
+    categories: buckets(data.categories),
+    creators: buckets(data.creators),
+    priceRanges: PRICE_RANGES.map((range) => ({ ...range, count: priceCounts.get(range.key) ?? 0 })),
+    ratings: RATING_BANDS.map((min) => ({ min, label: `${min}+ stars`, count: ratingCounts.get(min) ?? 0 })),
+  };
+}
+
+/**
+ * How `sort=relevance` blends its signals. Text rank and vector similarity are both in [0, 1];
+ * likes are log-scaled so a popular prompt only wins when it is about as relevant as the others.
+ */
+export const RELEVANCE_WEIGHTS = {
+  text: 0.45,
+  vector: 0.45,
+  likes: 0.1,
+};
+
+// Prompts that share no words with the query still match when their embedding is at least this close
+export const MIN_VECTOR_SIMILARITY = 0.3;
+
+export type EmbeddablePrompt = {
+  id: string;
+  title: string | null;
+  description: string | null;
+  tags: string[] | null;
+};
+
+// The same fields as the full-text `search_vector`, so both signals describe the same text
+export function promptEmbeddingText(prompt: Omit<EmbeddablePrompt, 'id'>): string {
+  return [prompt.title, prompt.description, (prompt.tags ?? []).join(' ')]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Computes and stores embeddings for the given prompts. Editing a prompt's title, description or
+ * tags clears its embedding in the database, so this is called again after every such edit.
+ */
+export async function embedPrompts(
+  supabase: any,
+  prompts: EmbeddablePrompt[],
+  backend: EmbeddingBackend = getEmbeddingBackend()
+): Promise<number> {
+  const embeddable = prompts.filter((prompt) => promptEmbeddingText(prompt));
+  if (embeddable.length === 0) return 0;
+
+  const vectors = await backend.embed(embeddable.map(promptEmbeddingText));
+  const model = embeddingModelId(backend);
+  const embeddedAt = new Date().toISOString();
+
+  for (let i = 0; i < embeddable.length; i += 1) {
+    const { error } = await supabase
+      .from('prompts')
+      .update({ embedding: vectors[i], embedding_model: model, embedding_updated_at: embeddedAt })
+      .eq('id', embeddable[i].id);
+    if (error) {
+      throw new UnexpectedError('Failed to store prompt embedding', { promptId: embeddable[i].id, error: error.message });
+    }
+  }
+  return embeddable.length;
+}
+
+// Embeds a prompt right after it is saved; on failure the embed-prompts job catches it up later
+export async function refreshPromptEmbedding(supabase: any, prompt: EmbeddablePrompt, requestId?: string) {
+  try {
+    await embedPrompts(supabase, [prompt]);
+  } catch (err: any) {
+    logger.warn('Failed to embed prompt', { requestId, promptId: prompt.id, error: err?.message }, PROMPT_SEARCH_LABEL);
+  }
+}
+
+/**
+ * Embeds prompts that have no embedding yet, or one from a different model than the configured
+ * backend, so switching backends re-embeds the catalogue over a few runs.
+ */
+export async function embedStalePrompts(
+  supabase: any,
+  options: { limit: number; backend?: EmbeddingBackend }
+): Promise<{ embedded: number; model: string }> {
+  const backend = options.backend ?? getEmbeddingBackend();
+  const model = embeddingModelId(backend);
+
+  const { data, error } = await supabase
+    .from('prompts')
+    .select('id,title,description,tags,embedding_model')
+    .or(`embedding_model.is.null,embedding_model.neq."${model}"`)
+    .order('created_at', { ascending: false })
+    .limit(options.limit);
+  if (error) {
+    throw new UnexpectedError('Failed to load prompts to embed', { error: error.message });
+  }
+
+  const stale = ((data ?? []) as (EmbeddablePrompt & { embedding_model: string | null })[])
+    .filter((prompt) => prompt.embedding_model !== model)
+    .slice(0, options.limit);
+  return { embedded: await embedPrompts(supabase, stale, backend), model };
+}
+
+type RelevanceSearchParams = PromptSearchFilters & {
+  offset: number;
+  limit: number;
+  requestId?: string;
+};
+
+type HybridSearchRow = {
+  prompt: Record<string, any>;
+  score: number;
+  text_rank: number;
+  vector_similarity: number;
+  total_count: number;
+};
+
+/**
+ * Ranks public prompts by a blend of full-text rank, embedding similarity to the query and likes
+ * (see `search_prompts_hybrid`). If the query cannot be embedded, e.g. the local model server is
+ * down, the search still runs on text rank and likes alone.
+ */
+export async function searchPromptsByRelevance(
+  supabase: any,
+  params: RelevanceSearchParams,
+  backend?: EmbeddingBackend
+): Promise<{ items: Record<string, any>[]; total: number }> {
+  const q = params.q?.trim() || null;
+  let queryEmbedding: number[] | null = null;
+  let model: string | null = null;
+
+  if (q) {
+    try {
+      const resolved = backend ?? getEmbeddingBackend();
+      const [vector] = await resolved.embed([q]);
+      // A query made only of stop words hashes to the zero vector, which has no direction to compare
+      if (vector?.some((value) => value !== 0)) {
+        queryEmbedding = vector;
+        model = embeddingModelId(resolved);
+      }
+    } catch (err: any) {
+      logger.warn('Failed to embed search query', { requestId: params.requestId, error: err?.message }, PROMPT_SEARCH_LABEL);
+    }
+  }
+
+  const { data, error } = await supabase.rpc('search_prompts_hybrid', {
+    p_query: q,
+    p_query_embedding: queryEmbedding,
+    p_embedding_model: model,
+    p_tags: params.tags ?? null,
+    p_category: params.category ?? null,
+    p_creator: params.creator ?? null,
+    p_price_min: params.priceMin ?? null,
+    p_price_max: params.priceMax ?? null,
+    p_min_rating: params.minRating ?? null,
+    p_text_weight: RELEVANCE_WEIGHTS.text,
+    p_vector_weight: RELEVANCE_WEIGHTS.vector,
+    p_likes_weight: RELEVANCE_WEIGHTS.likes,
+    p_min_similarity: MIN_VECTOR_SIMILARITY,
+    p_limit: params.limit,
+    p_offset: params.offset,
+  });
+  if (error) {
+    throw new UnexpectedError('Failed to search prompts', { error: error.message });
+  }
+
+  const rows = (data ?? []) as HybridSearchRow[];
+  return {
+    items: rows.map((row) => ({ ...row.prompt, relevance: row.score })),
+    total: Number(rows[0]?.total_count ?? 0),
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Typed placeholders in prompt text.
+ * - `{{topic}}` or `{{topic:string}}`: single-line text
+ * - `{{notes:text}}`: multi-line text
+ * - `{{length:number}}`, `{{formal:boolean}}`
+ * - `{{audience:enum[marketers,devs]}}`: one of the listed options
+ * A `=value` suffix sets a default and makes the variable optional, e.g. `{{length:number=200}}`.
+ * Later bare references (`{{audience}}`) reuse the first declaration. Anything else in double
+ * braces, such as a JSON example, is left as written.
+ */
+export type PromptVariableType = 'string' | 'text' | 'number' | 'boolean' | 'enum';
+
+export type PromptVariable = {
+  name: string;
+  type: PromptVariableType;
+  required: boolean;
+  options?: string[];
+  default?: string | number | boolean;
+};
+
+export type PromptVariableValue = string | number | boolean;
+
+export type ParsedPromptTemplate = {
+  variables: PromptVariable[];
+  errors: string[];
+};
+
+export const MAX_PROMPT_VARIABLES = 25;
+export const MAX_VARIABLE_VALUE_LENGTH = 2000;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const DECLARATION_PATTERN = /^([A-Za-z_][A-Za-z0-9_]{0,39})(?::(string|text|number|boolean|enum\[([^\]]*)\]))?(?:=(.*))?$/;
+
+function parseDefault(type: PromptVariableType, raw: string, options?: string[]): PromptVariableValue | Error {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() !== '' && Number.isFinite(value) ? value : new Error(`default "${raw}" is not a number`);
+    }
+    case 'boolean':
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      return new Error(`default "${raw}" must be true or false`);
+    case 'enum':
+      return options?.includes(raw) ? raw : new Error(`default "${raw}" is not one of the options`);
+    default:
+      return raw;
+  }
+}
+
+function sameDeclaration(a: PromptVariable, b: PromptVariable) {
+  return (
+    a.type === b.type &&
+    a.default === b.default &&
+    (a.options ?? []).join(',') === (b.options ?? []).join(',')
+  );
+}
+
+export function parsePromptVariables(text: string): ParsedPromptTemplate {
+  const variables = new Map<string, PromptVariable>();
+  // Names first seen as a bare `{{name}}`, which a later typed declaration may still refine
+  const implicit = new Set<string>();
+  const errors: string[] = [];
+
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    const declaration = DECLARATION_PATTERN.exec(match[1]);
+    if (!declaration) continue;
+
+    const [, name, rawType, rawOptions, rawDefault] = declaration;
+    const existing = variables.get(name);
+
+    // A bare reference to a variable declared earlier
+    if (!rawType && rawDefault === undefined && existing) continue;
+
+    const type = (rawType?.startsWith('enum') ? 'enum' : rawType ?? 'string') as PromptVariableType;
+    const variable: PromptVariable = { name, type, required: rawDefault === undefined };
+
+    if (type === 'enum') {
+      const options = Array.from(new Set((rawOptions ?? '').split(',').map((option) => option.trim()).filter(Boolean)));
+      if (options.length === 0) {
+        errors.push(`Variable "${name}" must list at least one enum option`);
+        continue;
+      }
+      variable.options = options;
+    }
+
+    if (rawDefault !== undefined) {
+      const parsedDefault = parseDefault(type, rawDefault, variable.options);
+      if (parsedDefault instanceof Error) {
+        errors.push(`Variable "${name}": ${parsedDefault.message}`);
+        continue;
+      }
+      variable.default = parsedDefault;
+    }
+
+    if (existing && !implicit.has(name)) {
+      if (!sameDeclaration(existing, variable)) {
+        errors.push(`Variable "${name}" is declared with conflicting types or defaults`);
+      }
+      continue;
+    }
+
+    if (!rawType && rawDefault === undefined) implicit.add(name);
+    else implicit.delete(name);
+    variables.set(name, variable);
+  }
+
+  if (variables.size > MAX_PROMPT_VARIABLES) {
+    errors.push(`Prompts can declare at most ${MAX_PROMPT_VARIABLES} variables`);
+  }
+
+  return { variables: Array.from(variables.values()), errors };
+}
+
+/**
+ * Checks submitted values against the schema and coerces form input (numbers and booleans
+ * arrive as strings). Missing optional values fall back to their default.
+ */
+export function validateVariableValues(
+  variables: PromptVariable[],
+  input: Record<string, unknown> | null | undefined
+): { values: Record<string, PromptVariableValue>; errors: Record<string, string> } {
+  const values: Record<string, PromptVariableValue> = {};
+  const errors: Record<string, string> = {};
+
+  for (const variable of variables) {
+    const raw = input?.[variable.name];
+    const missing = raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '');
+
+    if (missing) {
+      if (variable.default !== undefined) {
+        values[variable.name] = variable.default;
+      } else {
+        errors[variable.name] = 'This field is required';
+      }
+      continue;
+    }
+
+    switch (variable.type) {
+      case 'number': {
+        const value = typeof raw === 'number' ? raw : Number(raw);
+        if (!Number.isFinite(value)) {
+          errors[variable.name] = 'Must be a number';
+        } else {
+          values[variable.name] = value;
+        }
+        break;
+      }
+      case 'boolean':
+        if (raw === true || raw === 'true') values[variable.name] = true;
+        else if (raw === false || raw === 'false') values[variable.name] = false;
+        else errors[variable.name] = 'Must be true or false';
+        break;
+      case 'enum':
+        if (typeof raw === 'string' && variable.options?.includes(raw)) {
+          values[variable.name] = raw;
+        } else {
+          errors[variable.name] = `Must be one of: ${(variable.options ?? []).join(', ')}`;
+        }
+        break;
+      default:
+        if (typeof raw !== 'string') {
+          errors[variable.name] = 'Must be text';
+        } else if (raw.length > MAX_VARIABLE_VALUE_LENGTH) {
+          errors[variable.name] = `Must be at most ${MAX_VARIABLE_VALUE_LENGTH} characters`;
+        } else {
+          values[variable.name] = raw;
+        }
+    }
+  }
+
+  return { values, errors };
+}
+
+// Replaces every placeholder with its value; placeholders without a value are left as written
+export function renderPromptTemplate(text: string, values: Record<string, PromptVariableValue>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, inner: string) => {
+    const name = DECLARATION_PATTERN.exec(inner)?.[1];
+    return name !== undefined && name in values ? String(values[name]) : placeholder;
+  });
+}
@@ -0,0 +1,270 @@
+import { ResourceError, UnexpectedError, ValidationError } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import { notifyMany } from '@/lib/notifications';
+import { parsePromptVariables } from '@/lib/prompt-variables';
+import { canDownloadPurchase } from '@/lib/purchases';
+import { findActiveSubscription, SubscriptionRow } from '@/lib/subscriptions';
+
+const PROMPT_VERSIONS_LABEL = 'PROMPT_VERSIONS';
+
+export const PROMPT_VERSION_COLUMNS = 'id,prompt_id,user_id,version_number,content,notes,published_at,rejected_at,created_at';
+
+export type PromptVersionRow = {
+  id: string;
+  prompt_id: string;
+  user_id: string | null;
+  version_number: number;
+  content: string;
+  notes: string | null;
+  // Null until the prompt is approved with this version; buyers only see published versions
+  published_at: string | null;
+  // Set when review turns down an edit to an approved prompt; such a version is never published
+  rejected_at: string | null;
+  created_at: string;
+};
+
+export type VersionedPrompt = {
+  id: string;
+  user_id: string | null;
+  title: string | null;
+  price: number | string | null;
+  status: string | null;
+  is_public: boolean | null;
+  version: number | null;
+};
+
+export const VERSIONED_PROMPT_COLUMNS = 'id,user_id,title,price,status,is_public,version';
+
+export type VersionAccess = 'owner' | 'entitled' | 'none';
+
+/**
+ * Who may read a prompt's versions: the owner sees every version, and anyone who can use the
+ * prompt (free and listed, bought, or covered by a creator subscription) sees the published ones.
+ */
+export async function resolveVersionAccess(
+  supabase: any,
+  userId: string | null,
+  prompt: VersionedPrompt
+): Promise<VersionAccess> {
+  if (userId && prompt.user_id === userId) return 'owner';
+
+  const isFree = !prompt.price || Number(prompt.price) <= 0;
+  if (isFree) {
+    return prompt.status === 'approved' && prompt.is_public !== false ? 'entitled' : 'none';
+  }
+  if (!userId) return 'none';
+
+  const { data: purchase } = await supabase
+    .from('purchases')
+    .select('id,status')
+    .eq('buyer_id', userId)
+    .eq('prompt_id', prompt.id)
+    .maybeSingle();
+
+  let subscription: SubscriptionRow | null = null;
+  if (!canDownloadPurchase(purchase) && prompt.status === 'approved' && prompt.user_id) {
+    subscription = await findActiveSubscription(supabase, userId, prompt.user_id);
+  }
+
+  return canDownloadPurchase(purchase, subscription) ? 'entitled' : 'none';
+}
+
+export async function listPromptVersions(
+  supabase: any,
+  promptId: string,
+  options: { includeUnpublished: boolean }
+): Promise<PromptVersionRow[]> {
+  const { data, error } = await supabase
+    .from('prompt_versions')
+    .select(PROMPT_VERSION_COLUMNS)
+    .eq('prompt_id', promptId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw new UnexpectedError('Failed to load prompt versions', { promptId, error: error.message });
+  }
+
+  const versions = ((data ?? []) as PromptVersionRow[]).sort((a, b) => b.version_number - a.version_number);
+  return options.includeUnpublished ? versions : versions.filter((version) => version.published_at);
+}
+
+/**
+ * Saves new prompt text as the next version, with an optional changelog note, through the
+ * `create_prompt_version` database function. The version stays unpublished. A prompt that is not
+ * approved takes the text at once; an approved prompt stays on sale with its current text and the
+ * version waits in the moderation queue as the prompt's `pending_version`.
+ */
+export async function createPromptVersion(
+  supabase: any,
+  input: { promptId: string; userId: string; content: string; notes?: string | null; requestId?: string }
+): Promise<PromptVersionRow> {
+  const template = parsePromptVariables(input.content);
+  if (template.errors.length > 0) {
+    throw new ValidationError(ErrorCodes.VALIDATION_ERROR, 'Invalid template variables in prompt text', {
+      errors: template.errors,
+    });
+  }
+
+  const { data, error } = await supabase.rpc('create_prompt_version', {
+    p_prompt_id: input.promptId,
+    p_user_id: input.userId,
+    p_content: input.content,
+    p_notes: input.notes ?? null,
+    p_variable_schema: template.variables,
+  });
+
+  if (error) {
+    if (error.code === 'P0002') {
+      throw new ResourceError(ErrorCodes.NOT_FOUND, 'Prompt not found.');
+    }
+    throw new UnexpectedError('Failed to save prompt version', { promptId: input.promptId, error: error.message });
+  }
+
+  return data as PromptVersionRow;
+}
+
+/**
+ * The text buyers get: the newest published version, or the prompt's own text if it predates
+ * versioning. Text saved since the last approval is left out until a moderator approves it.
+ */
+export async function loadPublishedPromptText(
+  supabase: any,
+  prompt: { id: string | number; prompt_text: string | null }
+): Promise<string> {
+  const { data, error } = await supabase
+    .from('prompt_versions')
+    .select('version_number,content,published_at')
+    .eq('prompt_id', String(prompt.id))
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw new UnexpectedError('Failed to load prompt versions', { promptId: prompt.id, error: error.message });
+  }
+
+  const versions = (data ?? []) as Pick<PromptVersionRow, 'version_number' | 'content' | 'published_at'>[];
+  if (versions.length === 0) return prompt.prompt_text ?? '';
+  const published = versions
+    .filter((version) => version.published_at)
+    .sort((a, b) => b.version_number - a.version_number)[0];
+  return published?.content ?? '';
+}
+
+/**
+ * The edit of an approved prompt that waits for review, or null if there is none.
+ */
+export async function findPendingVersion(supabase: any, promptId: string): Promise<PromptVersionRow | null> {
+  const { data: prompt, error } = await supabase.from('prompts').select('id,pending_version').eq('id', promptId).maybeSingle();
+  if (error && error.code !== 'PGRST116') {
+    throw new UnexpectedError('Failed to load prompt', { promptId, error: error.message });
+  }
+  if (!prompt?.pending_version) return null;
+
+  const versions = await listPromptVersions(supabase, promptId, { includeUnpublished: true });
+  return versions.find((version) => version.version_number === prompt.pending_version) ?? null;
+}
+
+/**
+ * Publishes the versions saved while the prompt was not approved, and for an approved prompt's
+ * edit puts the newest one on sale. Called when a moderator approves the prompt or the edit;
+ * buyers hear about the newest version. Returns it, or null if none was pending.
+ */
+export async function publishPromptVersions(
+  supabase: any,
+  promptId: string,
+  requestId?: string
+): Promise<PromptVersionRow | null> {
+  const pending = (await listPromptVersions(supabase, promptId, { includeUnpublished: true })).filter(
+    (version) => !version.published_at && !version.rejected_at
+  );
+  if (pending.length === 0) return null;
+
+  const publishedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('prompt_versions')
+    .update({ published_at: publishedAt })
+    .in(
+      'id',
+      pending.map((version) => version.id)
+    );
+  if (error) {
+    logger.error('Failed to publish prompt versions', { requestId, promptId }, error as Error, PROMPT_VERSIONS_LABEL);
+    return null;
+  }
+
+  const latest = { ...pending[0], published_at: publishedAt };
+  const { error: promptError } = await supabase
+    .from('prompts')
+    .update({
+      prompt_text: latest.content,
+      variable_schema: parsePromptVariables(latest.content).variables,
+      version: latest.version_number,
+      pending_version: null,
+    })
+    .eq('id', promptId);
+  if (promptError) {
+    logger.error('Failed to apply published prompt version', { requestId, promptId }, promptError as Error, PROMPT_VERSIONS_LABEL);
+    return null;
+  }
+
+  await notifyBuyersOfVersion(supabase, latest, requestId);
+  return latest;
+}
+
+/**
+ * Turns down the edit waiting on an approved prompt. The prompt stays on sale with its last
+ * published text. Returns the number of versions rejected.
+ */
+export async function rejectPendingVersions(supabase: any, promptId: string): Promise<number> {
+  const pending = (await listPromptVersions(supabase, promptId, { includeUnpublished: true })).filter(
+    (version) => !version.published_at && !version.rejected_at
+  );
+  if (pending.length > 0) {
+    const { error } = await supabase
+      .from('prompt_versions')
+      .update({ rejected_at: new Date().toISOString() })
+      .in(
+        'id',
+        pending.map((version) => version.id)
+      );
+    if (error) {
+      throw new UnexpectedError('Failed to reject prompt versions', { promptId, error: error.message });
+    }
+  }
+
+  const { error: promptError } = await supabase.from('prompts').update({ pending_version: null }).eq('id', promptId);
+  if (promptError) {
+    throw new UnexpectedError('Failed to clear pending prompt version', { promptId, error: promptError.message });
+  }
+  return pending.length;
+}
+
+// Past buyers whose purchase still grants access; refunded buyers are not told about updates
+async function notifyBuyersOfVersion(supabase: any, version: PromptVersionRow, requestId?: string) {
+  const [{ data: prompt }, { data: purchases, error }] = await Promise.all([
+    supabase.from('prompts').select('id,user_id,title').eq('id', version.prompt_id).maybeSingle(),
+    supabase.from('purchases').select('buyer_id,status').eq('prompt_id', version.prompt_id),
+  ]);
+
+  if (error) {
+    logger.error('Failed to load buyers for version notification', { requestId, promptId: version.prompt_id }, error as Error, PROMPT_VERSIONS_LABEL);
+    return;
+  }
+
+  const buyerIds = Array.from(
+    new Set(
+      ((purchases ?? []) as { buyer_id: string | null; status: string | null }[])
+        .filter((purchase) => purchase.buyer_id && purchase.buyer_id !== prompt?.user_id && canDownloadPurchase(purchase))
+        .map((purchase) => purchase.buyer_id as string)
+    )
+  );
+  if (buyerIds.length === 0) return;
+
+  await notifyMany(supabase, buyerIds, {
+    type: 'prompt.updated',
+    title: `${prompt?.title ?? 'A prompt you bought'} was updated`,
+    body: version.notes ? `Version ${version.version_number}: ${version.notes}` : `Version ${version.version_number} is available.`,
+    url: `/prompts/${version.prompt_id}`,
+    requestId,
+  });
+}
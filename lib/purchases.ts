@@ -1,3 +1,5 @@
+import { isSubscriptionActive, SubscriptionAccessShape } from '@/lib/subscriptions';
+
 export type PurchaseAccessShape = {
   status?: string | null;
 };
@@ -8,8 +10,12 @@ const ALLOWED_STATUSES = new Set(['paid', 'partially_refunded', 'disputed']);
  * Determines if a purchase allows content download based on its status.
  * - allowed: paid, partially_refunded, disputed
  * - denied: refunded, failed, pending or unknown
+ * An active subscription to the prompt's creator also allows download without a purchase.
  */
-export function canDownloadPurchase(purchase: PurchaseAccessShape | null | undefined): boolean {
-  if (!purchase?.status) return false;
-  return ALLOWED_STATUSES.has(purchase.status.toLowerCase());
+export function canDownloadPurchase(
+  purchase: PurchaseAccessShape | null | undefined,
+  subscription?: SubscriptionAccessShape | null
+): boolean {
+  if (purchase?.status && ALLOWED_STATUSES.has(purchase.status.toLowerCase())) return true;
+  return isSubscriptionActive(subscription);
 }
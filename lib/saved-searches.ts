@@ -0,0 +1,58 @@
+import { logger } from '@/lib/logging';
+import { createNotification } from '@/lib/notifications';
+import type { PromptSearchFilters } from '@/lib/search-filters';
+
+const SAVED_SEARCHES_LABEL = 'SAVED_SEARCHES';
+
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+
+export const SAVED_SEARCH_COLUMNS = 'id,user_id,name,filters,notify,last_notified_at,created_at';
+
+export type SavedSearchRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: PromptSearchFilters;
+  // Whether the user is told about newly approved prompts that match
+  notify: boolean;
+  last_notified_at: string | null;
+  created_at: string;
+};
+
+/**
+ * Tells users whose saved searches match a newly approved prompt. The `claim_saved_search_matches`
+ * database function records each alert, so a prompt that is approved again after an edit does not
+ * notify the same saved search twice.
+ */
+export async function notifySavedSearchMatches(supabase: any, promptId: string, requestId?: string): Promise<number> {
+  const { data, error } = await supabase.rpc('claim_saved_search_matches', { p_prompt_id: promptId });
+  if (error) {
+    logger.error('Failed to match saved searches', { requestId, promptId, error: error.message }, error as Error, SAVED_SEARCHES_LABEL);
+    return 0;
+  }
+
+  const matches = (data ?? []) as { saved_search_id: string; user_id: string; name: string }[];
+  if (matches.length === 0) return 0;
+
+  const { data: prompt } = await supabase.from('prompts').select('id,title').eq('id', promptId).maybeSingle();
+
+  // A user with several matching searches gets one notification, naming the first
+  const byUser = new Map<string, string>();
+  for (const match of matches) {
+    if (!byUser.has(match.user_id)) byUser.set(match.user_id, match.name);
+  }
+
+  await Promise.allSettled(
+    Array.from(byUser, ([userId, name]) =>
+      createNotification(supabase, {
+        userId,
+        type: 'search.match',
+        title: `New prompt for "${name}"`,
+        body: `${prompt?.title ?? 'A new prompt'} matches your saved search.`,
+        url: `/prompts/${promptId}`,
+        requestId,
+      })
+    )
+  );
+  return byUser.size;
+}
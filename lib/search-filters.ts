@@ -0,0 +1,103 @@
+// Marketplace search filters, shared by the search API, the marketplace page and saved searches
+
+// As carried in the query string and stored in saved searches
+export type PromptSearchFilters = {
+  q: string | null;
+  tags?: string[];
+  category?: string;
+  creator?: string;
+  priceMin?: number;
+  priceMax?: number;
+  minRating?: number;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function parseNumber(value: string | null, fallback?: number) {
+  if (!value) return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function parseTags(value: string | null): string[] | undefined {
+  if (!value) return undefined;
+  const tags = value
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+  return tags.length ? tags : undefined;
+}
+
+export function parseSearchFilters(params: URLSearchParams): PromptSearchFilters {
+  const creator = params.get('creator')?.trim();
+  return {
+    q: params.get('q')?.trim() || null,
+    tags: parseTags(params.get('tags')),
+    category: params.get('category')?.trim() || undefined,
+    // An id that is not a uuid would make the database reject the whole search
+    creator: creator && UUID_PATTERN.test(creator) ? creator : undefined,
+    priceMin: parseNumber(params.get('priceMin')),
+    priceMax: parseNumber(params.get('priceMax')),
+    minRating: parseNumber(params.get('minRating')),
+  };
+}
+
+export function searchFiltersToParams(filters: PromptSearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.q) params.set('q', filters.q);
+  if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+  if (filters.category) params.set('category', filters.category);
+  if (filters.creator) params.set('creator', filters.creator);
+  if (filters.priceMin !== undefined) params.set('priceMin', String(filters.priceMin));
+  if (filters.priceMax !== undefined) params.set('priceMax', String(filters.priceMax));
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating));
+  return params;
+}
+
+export function hasSearchFilters(filters: PromptSearchFilters): boolean {
+  return searchFiltersToParams(filters).toString() !== '';
+}
+
+// Price facet buckets; bounds are inclusive like the priceMin/priceMax filters
+export const PRICE_RANGES = [
+  { key: 'free', label: 'Free', min: 0, max: 0 },
+  { key: 'under-5', label: 'Under $5', min: 0.01, max: 4.99 },
+  { key: '5-20', label: '$5 to $20', min: 5, max: 19.99 },
+  { key: '20-50', label: '$20 to $50', min: 20, max: 49.99 },
+  { key: '50-plus', label: '$50 and up', min: 50, max: null },
+] as const;
+
+// Minimum average ratings offered as rating facets
+export const RATING_BANDS = [4, 3, 2, 1] as const;
+
+function formatPrice(value: number) {
+  return `$${Number.isInteger(value) ? value : value.toFixed(2)}`;
+}
+
+// A readable default name, e.g. `"meeting notes" · sales, email · under $20`
+export function describeSearchFilters(filters: PromptSearchFilters): string {
+  const parts: string[] = [];
+  if (filters.q) parts.push(`"${filters.q}"`);
+  if (filters.tags?.length) parts.push(filters.tags.join(', '));
+  if (filters.category) parts.push(filters.category);
+
+  const range = PRICE_RANGES.find((r) => r.min === filters.priceMin && (r.max ?? undefined) === filters.priceMax);
+  if (range) {
+    parts.push(range.label.toLowerCase());
+  } else if (filters.priceMin !== undefined && filters.priceMax !== undefined) {
+    parts.push(`${formatPrice(filters.priceMin)} to ${formatPrice(filters.priceMax)}`);
+  } else if (filters.priceMin !== undefined) {
+    parts.push(`${formatPrice(filters.priceMin)} and up`);
+  } else if (filters.priceMax !== undefined) {
+    parts.push(`up to ${formatPrice(filters.priceMax)}`);
+  }
+
+  if (filters.minRating !== undefined) parts.push(`${filters.minRating}+ stars`);
+  if (filters.creator) parts.push('one creator');
+  return parts.join(' · ') || 'All prompts';
+}
+
+export function searchUrl(filters: PromptSearchFilters): string {
+  const query = searchFiltersToParams(filters).toString();
+  return query ? `/marketplace?${query}` : '/marketplace';
+}
@@ -0,0 +1,557 @@
+import Stripe from 'stripe';
+import { StripeWebhookHandler } from '@/lib/stripe/webhook-handler';
+import { logger } from '@/lib/logging';
+import { parseCartMetadata } from '@/lib/cart';
+import { allocateByAmount, LedgerTransaction, processingFeeTransaction, recordLedgerTransactions } from '@/lib/ledger';
+import {
+  findPurchase,
+  handleCheckoutCompleted,
+  handlePaymentIntentSucceeded,
+  listPaymentPurchases,
+  prioritizeStatus,
+  PurchaseRow,
+  reconcileLineItemRefund,
+  reconcileRefund,
+  SupabaseClient,
+} from './webhook-events';
+
+export type StripeReconciliationClient = Pick<Stripe, 'checkout' | 'paymentIntents' | 'refunds' | 'charges'>;
+
+export type ReconciliationIssue = {
+  kind: 'fixed' | 'missing' | 'conflicting';
+  object: 'checkout_session' | 'payment_intent' | 'refund';
+  stripeId: string;
+  purchaseId: string | null;
+  detail: string;
+  repaired: boolean;
+};
+
+export type ReconciliationReport = {
+  windowStart: string;
+  windowEnd: string;
+  checked: { checkoutSessions: number; paymentIntents: number; refunds: number };
+  fixed: number;
+  missing: number;
+  conflicting: number;
+  processingFeesRecorded: number;
+  issues: ReconciliationIssue[];
+};
+
+type ReconciliationWindow = {
+  windowStart: string;
+  windowEnd: string;
+  createdGte: number;
+  createdLt: number;
+};
+
+const PAGE_SIZE = 100;
+
+async function listAll<T extends { id: string }>(
+  fetchPage: (startingAfter?: string) => Promise<{ data: T[]; has_more: boolean }>
+): Promise<T[]> {
+  const items: T[] = [];
+  let startingAfter: string | undefined;
+  for (;;) {
+    const page = await fetchPage(startingAfter);
+    items.push(...page.data);
+    if (!page.has_more || page.data.length === 0) break;
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+  return items;
+}
+
+function paymentIntentIdOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+// A purchase only needs repair when Stripe moves it forward; refunded or disputed rows stay as they are
+function needsPaidRepair(purchase: PurchaseRow, refs: { checkoutSessionId?: string | null; paymentIntentId?: string | null }) {
+  if (prioritizeStatus(purchase.status, 'paid') !== purchase.status) return true;
+  if (refs.checkoutSessionId && !purchase.stripe_checkout_session_id) return true;
+  if (refs.paymentIntentId && !purchase.stripe_payment_intent_id) return true;
+  return false;
+}
+
+/**
+ * Records Stripe's processing fee in the ledger for each payment whose purchases do not have it
+ * yet. Checkout completion events carry no fee, so it is read from the charge's balance
+ * transaction once the charge has settled; unsettled payments are picked up by a later run.
+ */
+async function recordProcessingFees(
+  supabase: SupabaseClient,
+  stripe: StripeReconciliationClient,
+  paymentIntentIds: string[],
+  requestId: string
+): Promise<number> {
+  let recorded = 0;
+
+  for (const paymentIntentId of paymentIntentIds) {
+    try {
+      const purchases = (await listPaymentPurchases(supabase, paymentIntentId)).filter(
+        (purchase) => (purchase.amount_total ?? 0) > 0
+      );
+      if (purchases.length === 0) continue;
+
+      const { data: existing, error } = await supabase
+        .from('ledger_entries')
+        .select('transaction_id')
+        .in('transaction_id', purchases.map((purchase) => `processing_fee:${purchase.id}`));
+      if (error) throw new Error(error.message);
+      if ((existing ?? []).length > 0) continue;
+
+      const intent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+        expand: ['latest_charge.balance_transaction'],
+      });
+      const charge = intent.latest_charge && typeof intent.latest_charge !== 'string' ? intent.latest_charge : null;
+      const balance =
+        charge?.balance_transaction && typeof charge.balance_transaction !== 'string' ? charge.balance_transaction : null;
+      if (!balance) continue;
+
+      const shares = allocateByAmount(balance.fee, purchases.map((purchase) => purchase.amount_total ?? 0));
+      for (const [index, purchase] of purchases.entries()) {
+        const { error: updateError } = await supabase
+          .from('purchases')
+          .update({ stripe_fee_amount: shares[index] })
+          .eq('id', purchase.id);
+        if (updateError) throw new Error(updateError.message);
+      }
+
+      recorded += await recordLedgerTransactions(
+        supabase,
+        purchases
+          .map((purchase, index) =>
+            processingFeeTransaction({
+              purchaseId: purchase.id,
+              creatorId: purchase.seller_id,
+              feeCents: shares[index],
+              currency: purchase.currency ?? 'usd',
+              stripeObjectId: balance.id,
+            })
+          )
+          .filter((transaction): transaction is LedgerTransaction => transaction !== null)
+      );
+    } catch (err: any) {
+      logger.warn('Failed to record Stripe processing fee', {
+        requestId,
+        paymentIntentId,
+        error: err?.message,
+      }, 'STRIPE_RECONCILIATION_FEES');
+    }
+  }
+
+  return recorded;
+}
+
+/**
+ * Compares Stripe checkout sessions, payment intents and refunds created in the window with
+ * `purchases` and `refunds`, and repairs drift through the same handlers the webhook uses.
+ * - fixed: an existing row was behind Stripe and has been updated
+ * - missing: Stripe has no matching row; `repaired` says whether one was created
+ * - conflicting: the row disagrees with Stripe in a way that needs manual review
+ * Settled payments also get their Stripe processing fee recorded in the ledger.
+ */
+export async function reconcileStripeWindow(
+  supabase: SupabaseClient,
+  stripe: StripeReconciliationClient,
+  window: ReconciliationWindow,
+  requestId: string
+): Promise<ReconciliationReport> {
+  const eventId = `reconciliation:${requestId}`;
+  const created = { gte: window.createdGte, lt: window.createdLt };
+  const issues: ReconciliationIssue[] = [];
+  const handledPaymentIntents = new Set<string>();
+
+  const sessions = await listAll((startingAfter) =>
+    stripe.checkout.sessions.list({ created, limit: PAGE_SIZE, starting_after: startingAfter })
+  );
+
+  for (const session of sessions) {
+    if (session.status !== 'complete' || session.payment_status !== 'paid') continue;
+    // Subscription sessions create no purchases; billing state comes from subscription events
+    if (session.mode === 'subscription') continue;
+    const paymentIntentId = paymentIntentIdOf(session.payment_intent as any);
+    if (paymentIntentId) handledPaymentIntents.add(paymentIntentId);
+
+    try {
+      const cartLines = parseCartMetadata(session.metadata);
+      if (cartLines) {
+        // Cart sessions hold one purchase per line; re-running the handler upserts them all
+        const buyerId = StripeWebhookHandler.extractMetadata(session.metadata, ['user_id', 'buyer_id', 'buyerId', 'userId']);
+        let needsRepair = false;
+        for (const line of cartLines) {
+          const purchase = await findPurchase(supabase, {
+            checkoutSessionId: session.id,
+            paymentIntentId,
+            buyerId,
+            promptId: line.promptId,
+          });
+
+          if (!purchase) {
+            needsRepair = true;
+            issues.push({
+              kind: 'missing',
+              object: 'checkout_session',
+              stripeId: session.id,
+              purchaseId: null,
+              detail: `Purchase created for cart prompt ${line.promptId}`,
+              repaired: true,
+            });
+          } else if (purchase.amount_total && purchase.amount_total !== line.amountCents) {
+            issues.push({
+              kind: 'conflicting',
+              object: 'checkout_session',
+              stripeId: session.id,
+              purchaseId: purchase.id,
+              detail: `Amount ${purchase.amount_total} does not match cart line amount ${line.amountCents}`,
+              repaired: false,
+            });
+          } else if (needsPaidRepair(purchase, { checkoutSessionId: session.id, paymentIntentId })) {
+            needsRepair = true;
+            issues.push({
+              kind: 'fixed',
+              object: 'checkout_session',
+              stripeId: session.id,
+              purchaseId: purchase.id,
+              detail: `Purchase was ${purchase.status ?? 'pending'}; marked paid`,
+              repaired: true,
+            });
+          }
+        }
+
+        if (needsRepair) {
+          await handleCheckoutCompleted(supabase, session, eventId, requestId, session.created);
+        }
+        continue;
+      }
+
+      const { promptId, buyerId } = StripeWebhookHandler.validatePurchaseMetadata(session);
+      const purchase = await findPurchase(supabase, {
+        checkoutSessionId: session.id,
+        paymentIntentId,
+        buyerId,
+        promptId,
+      });
+
+      if (!purchase) {
+        await handleCheckoutCompleted(supabase, session, eventId, requestId, session.created);
+        issues.push({
+          kind: 'missing',
+          object: 'checkout_session',
+          stripeId: session.id,
+          purchaseId: null,
+          detail: 'Purchase created from paid checkout session',
+          repaired: true,
+        });
+        continue;
+      }
+
+      if (purchase.stripe_checkout_session_id && purchase.stripe_checkout_session_id !== session.id) {
+        issues.push({
+          kind: 'conflicting',
+          object: 'checkout_session',
+          stripeId: session.id,
+          purchaseId: purchase.id,
+          detail: `Purchase is linked to checkout session ${purchase.stripe_checkout_session_id}`,
+          repaired: false,
+        });
+        continue;
+      }
+
+      if (purchase.amount_total && session.amount_total && purchase.amount_total !== session.amount_total) {
+        issues.push({
+          kind: 'conflicting',
+          object: 'checkout_session',
+          stripeId: session.id,
+          purchaseId: purchase.id,
+          detail: `Amount ${purchase.amount_total} does not match Stripe amount ${session.amount_total}`,
+          repaired: false,
+        });
+        continue;
+      }
+
+      if (needsPaidRepair(purchase, { checkoutSessionId: session.id, paymentIntentId })) {
+        await handleCheckoutCompleted(supabase, session, eventId, requestId, session.created);
+        issues.push({
+          kind: 'fixed',
+          object: 'checkout_session',
+          stripeId: session.id,
+          purchaseId: purchase.id,
+          detail: `Purchase was ${purchase.status ?? 'pending'}; marked paid`,
+          repaired: true,
+        });
+      }
+    } catch (err: any) {
+      issues.push({
+        kind: 'conflicting',
+        object: 'checkout_session',
+        stripeId: session.id,
+        purchaseId: null,
+        detail: err?.message ?? 'Failed to reconcile checkout session',
+        repaired: false,
+      });
+    }
+  }
+
+  const intents = await listAll((startingAfter) =>
+    stripe.paymentIntents.list({ created, limit: PAGE_SIZE, starting_after: startingAfter })
+  );
+
+  for (const intent of intents) {
+    if (intent.status !== 'succeeded' || handledPaymentIntents.has(intent.id)) continue;
+
+    const promptId = StripeWebhookHandler.extractMetadata(intent.metadata, ['prompt_id', 'promptId']);
+    const buyerId = StripeWebhookHandler.extractMetadata(intent.metadata, ['user_id', 'buyer_id', 'buyerId', 'userId']);
+    // Intents without purchase metadata belong to checkout sessions or other flows
+    if (!promptId || !buyerId) continue;
+
+    try {
+      const purchase = await findPurchase(supabase, { paymentIntentId: intent.id, buyerId, promptId });
+
+      if (!purchase) {
+        await handlePaymentIntentSucceeded(supabase, intent, eventId, requestId);
+        issues.push({
+          kind: 'missing',
+          object: 'payment_intent',
+          stripeId: intent.id,
+          purchaseId: null,
+          detail: 'Purchase created from succeeded payment intent',
+          repaired: true,
+        });
+        continue;
+      }
+
+      if (purchase.stripe_payment_intent_id && purchase.stripe_payment_intent_id !== intent.id) {
+        issues.push({
+          kind: 'conflicting',
+          object: 'payment_intent',
+          stripeId: intent.id,
+          purchaseId: purchase.id,
+          detail: `Purchase is linked to payment intent ${purchase.stripe_payment_intent_id}`,
+          repaired: false,
+        });
+        continue;
+      }
+
+      const amount = intent.amount_received ?? intent.amount;
+      if (purchase.amount_total && amount && purchase.amount_total !== amount) {
+        issues.push({
+          kind: 'conflicting',
+          object: 'payment_intent',
+          stripeId: intent.id,
+          purchaseId: purchase.id,
+          detail: `Amount ${purchase.amount_total} does not match Stripe amount ${amount}`,
+          repaired: false,
+        });
+        continue;
+      }
+
+      if (needsPaidRepair(purchase, { paymentIntentId: intent.id })) {
+        await handlePaymentIntentSucceeded(supabase, intent, eventId, requestId);
+        issues.push({
+          kind: 'fixed',
+          object: 'payment_intent',
+          stripeId: intent.id,
+          purchaseId: purchase.id,
+          detail: `Purchase was ${purchase.status ?? 'pending'}; marked paid`,
+          repaired: true,
+        });
+      }
+    } catch (err: any) {
+      issues.push({
+        kind: 'conflicting',
+        object: 'payment_intent',
+        stripeId: intent.id,
+        purchaseId: null,
+        detail: err?.message ?? 'Failed to reconcile payment intent',
+        repaired: false,
+      });
+    }
+  }
+
+  const refunds = await listAll((startingAfter) =>
+    stripe.refunds.list({ created, limit: PAGE_SIZE, starting_after: startingAfter, expand: ['data.charge'] })
+  );
+
+  for (const refund of refunds) {
+    if (refund.status !== 'succeeded' || !refund.charge) continue;
+
+    try {
+      const charge =
+        typeof refund.charge === 'string' ? await stripe.charges.retrieve(refund.charge) : (refund.charge as Stripe.Charge);
+      const paymentIntentId = paymentIntentIdOf(charge.payment_intent as any);
+      const purchase = await findPurchase(supabase, {
+        purchaseId: refund.metadata?.purchase_id ?? charge.metadata?.purchase_id ?? null,
+        paymentIntentId,
+        checkoutSessionId: charge.metadata?.stripe_checkout_session_id ?? charge.metadata?.checkout_session_id ?? null,
+      });
+
+      if (!purchase) {
+        issues.push({
+          kind: 'missing',
+          object: 'refund',
+          stripeId: refund.id,
+          purchaseId: null,
+          detail: `No purchase found for refunded charge ${charge.id}`,
+          repaired: false,
+        });
+        continue;
+      }
+
+      const { data: refundRow, error: refundError } = await supabase
+        .from('refunds')
+        .select('id,purchase_id,amount,status')
+        .eq('stripe_refund_id', refund.id)
+        .maybeSingle();
+
+      if (refundError && refundError.code !== 'PGRST116') {
+        throw new Error(refundError.message);
+      }
+
+      if (!refundRow) {
+        const { error: insertError } = await supabase.from('refunds').insert({
+          purchase_id: purchase.id,
+          stripe_refund_id: refund.id,
+          amount: refund.amount,
+          currency: refund.currency,
+          reason: refund.reason ?? refund.metadata?.reason ?? null,
+          status: refund.status,
+          stripe_created_at: new Date(refund.created * 1000).toISOString(),
+          last_stripe_event_id: eventId,
+        });
+        if (insertError) {
+          throw new Error(insertError.message);
+        }
+        issues.push({
+          kind: 'missing',
+          object: 'refund',
+          stripeId: refund.id,
+          purchaseId: purchase.id,
+          detail: 'Refund record created',
+          repaired: true,
+        });
+      } else if (refundRow.purchase_id !== purchase.id || refundRow.amount !== refund.amount) {
+        issues.push({
+          kind: 'conflicting',
+          object: 'refund',
+          stripeId: refund.id,
+          purchaseId: purchase.id,
+          detail: `Refund record ${refundRow.id} does not match Stripe purchase or amount`,
+          repaired: false,
+        });
+        continue;
+      } else if (refundRow.status !== refund.status) {
+        const { error: updateError } = await supabase
+          .from('refunds')
+          .update({ status: refund.status, last_stripe_event_id: eventId, updated_at: new Date().toISOString() })
+          .eq('id', refundRow.id);
+        if (updateError) {
+          throw new Error(updateError.message);
+        }
+        issues.push({
+          kind: 'fixed',
+          object: 'refund',
+          stripeId: refund.id,
+          purchaseId: purchase.id,
+          detail: `Refund status was ${refundRow.status}`,
+          repaired: true,
+        });
+      }
+
+      const paymentPurchases = await listPaymentPurchases(supabase, paymentIntentId);
+      if (paymentPurchases.length > 1) {
+        // Cart payment: the charge total spans several purchases, so apply this refund alone
+        await reconcileLineItemRefund(supabase, refund, eventId, requestId);
+        const updated = await findPurchase(supabase, { purchaseId: purchase.id });
+        if ((updated?.refunded_amount ?? 0) > (purchase.refunded_amount ?? 0)) {
+          issues.push({
+            kind: 'fixed',
+            object: 'refund',
+            stripeId: refund.id,
+            purchaseId: purchase.id,
+            detail: `Purchase refunded amount was ${purchase.refunded_amount ?? 0}; now ${updated?.refunded_amount}`,
+            repaired: true,
+          });
+        }
+      } else if ((purchase.refunded_amount ?? 0) < (charge.amount_refunded ?? 0)) {
+        await reconcileRefund(supabase, charge, eventId, requestId, refund.created);
+        issues.push({
+          kind: 'fixed',
+          object: 'refund',
+          stripeId: refund.id,
+          purchaseId: purchase.id,
+          detail: `Purchase refunded amount was ${purchase.refunded_amount ?? 0}; Stripe has ${charge.amount_refunded}`,
+          repaired: true,
+        });
+      }
+    } catch (err: any) {
+      issues.push({
+        kind: 'conflicting',
+        object: 'refund',
+        stripeId: refund.id,
+        purchaseId: null,
+        detail: err?.message ?? 'Failed to reconcile refund',
+        repaired: false,
+      });
+    }
+  }
+
+  const feePaymentIntents = new Set(handledPaymentIntents);
+  for (const intent of intents) {
+    if (intent.status === 'succeeded') feePaymentIntents.add(intent.id);
+  }
+  const processingFeesRecorded = await recordProcessingFees(supabase, stripe, [...feePaymentIntents], requestId);
+
+  const count = (kind: ReconciliationIssue['kind']) => issues.filter((issue) => issue.kind === kind).length;
+  const report: ReconciliationReport = {
+    windowStart: window.windowStart,
+    windowEnd: window.windowEnd,
+    checked: { checkoutSessions: sessions.length, paymentIntents: intents.length, refunds: refunds.length },
+    fixed: count('fixed'),
+    missing: count('missing'),
+    conflicting: count('conflicting'),
+    processingFeesRecorded,
+    issues,
+  };
+
+  logger.info('Stripe reconciliation completed', {
+    requestId,
+    checked: report.checked,
+    fixed: report.fixed,
+    missing: report.missing,
+    conflicting: report.conflicting,
+    processingFeesRecorded: report.processingFeesRecorded,
+  }, 'STRIPE_RECONCILIATION_COMPLETED');
+
+  return report;
+}
+
+/**
+ * Stores the report in `stripe_reconciliation_runs` and returns the run id.
+ */
+export async function saveReconciliationReport(
+  supabase: SupabaseClient,
+  report: ReconciliationReport,
+  requestId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('stripe_reconciliation_runs')
+    .insert({
+      request_id: requestId,
+      window_start: report.windowStart,
+      window_end: report.windowEnd,
+      checked: report.checked,
+      fixed_count: report.fixed,
+      missing_count: report.missing,
+      conflicting_count: report.conflicting,
+      issues: report.issues,
+    })
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save reconciliation report: ${error.message}`);
+  }
+
+  return data?.id ?? null;
+}
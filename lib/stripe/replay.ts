@@ -0,0 +1,192 @@
+import Stripe from 'stripe';
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { logger } from '@/lib/logging';
+import { recordSystemEvent } from '@/lib/system-events';
+import { markStripeEventProcessed, processEvent, SupabaseClient } from './webhook-events';
+
+export type StripeReplayMode = 'dry_run' | 'live';
+
+export type RecordedWrite = {
+  table: string;
+  operation: 'insert' | 'update' | 'upsert' | 'delete' | 'rpc';
+  payload: unknown;
+  filters: Record<string, unknown>;
+};
+
+export type StripeReplayResult = {
+  eventId: string;
+  eventType: string;
+  mode: StripeReplayMode;
+  ok: boolean;
+  error: string | null;
+  writes: RecordedWrite[];
+  systemEventId: string | null;
+  replayedAt: string;
+};
+
+export const STRIPE_EVENT_REPLAY_COLUMNS =
+  'id,event_id,type,livemode,created_at,stripe_created_at,processed_at,payload,request_id,last_error,failed_at,replay_count,last_replayed_at,last_replayed_by,last_replay_mode,last_replay_result,system_event_id';
+
+// A query that records a write instead of sending it. Chained filters are kept for the report.
+function recordedQuery(write: RecordedWrite) {
+  const result = { data: null, error: null };
+  const query: any = {
+    then: (resolve: (value: any) => any, reject?: (reason: any) => any) => Promise.resolve(result).then(resolve, reject),
+    maybeSingle: async () => result,
+    single: async () => result,
+  };
+  for (const method of ['eq', 'neq', 'in', 'is', 'match']) {
+    query[method] = (column: string, value: unknown) => {
+      write.filters[column] = value;
+      return query;
+    };
+  }
+  for (const method of ['select', 'order', 'limit']) {
+    query[method] = () => query;
+  }
+  return query;
+}
+
+/**
+ * Wraps a Supabase client so reads go through and writes are only recorded.
+ * Used to preview what replaying a Stripe event would change.
+ */
+export function createDryRunClient(supabase: SupabaseClient) {
+  const writes: RecordedWrite[] = [];
+  const record = (table: string, operation: RecordedWrite['operation']) => (payload?: unknown) => {
+    const write: RecordedWrite = { table, operation, payload: payload ?? null, filters: {} };
+    writes.push(write);
+    return recordedQuery(write);
+  };
+
+  const client = {
+    from(table: string) {
+      return {
+        select: (...args: any[]) => (supabase.from(table) as any).select(...args),
+        insert: record(table, 'insert'),
+        update: record(table, 'update'),
+        upsert: record(table, 'upsert'),
+        delete: record(table, 'delete'),
+      };
+    },
+    async rpc(fn: string, args?: unknown) {
+      writes.push({ table: fn, operation: 'rpc', payload: args ?? null, filters: {} });
+      return { data: null, error: null };
+    },
+  };
+
+  return { client: client as unknown as SupabaseClient, writes };
+}
+
+/**
+ * Re-runs a stored Stripe event through `processEvent`. The event body is fetched from
+ * Stripe because `stripe_events` only keeps a summary. Dry runs report the writes that
+ * would happen; live runs apply them and mark the event processed on success. Either way
+ * the outcome is written back to the event row and linked to a `system_events` entry.
+ */
+export async function replayStripeEvent(
+  supabase: SupabaseClient,
+  stripe: Pick<Stripe, 'events'>,
+  params: { eventId: string; mode: StripeReplayMode; adminId: string; requestId: string }
+): Promise<StripeReplayResult> {
+  const { eventId, mode, adminId, requestId } = params;
+
+  const { data: row, error: loadError } = await supabase
+    .from('stripe_events')
+    .select('event_id,type,processed_at,replay_count')
+    .eq('event_id', eventId)
+    .maybeSingle();
+
+  if (loadError && loadError.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load Stripe event', { details: loadError.message }, 500);
+  }
+
+  if (!row) {
+    throw new AppError(ErrorCategory.RESOURCE, ErrorCodes.NOT_FOUND, 'Stripe event not found', { eventId }, 404);
+  }
+
+  if (mode === 'live' && row.processed_at) {
+    throw new AppError(
+      ErrorCategory.BUSINESS,
+      ErrorCodes.INVALID_STATUS,
+      'Stripe event was already processed; use a dry run to inspect it',
+      { eventId, processedAt: row.processed_at },
+      409
+    );
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = await stripe.events.retrieve(eventId);
+  } catch (err: any) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      ErrorCodes.STRIPE_ERROR,
+      'Failed to fetch event from Stripe',
+      { eventId, details: err?.message },
+      502
+    );
+  }
+
+  const dryRun = mode === 'dry_run' ? createDryRunClient(supabase) : null;
+  let processingError: string | null = null;
+
+  try {
+    await processEvent(dryRun?.client ?? supabase, event, requestId);
+    if (mode === 'live') {
+      await markStripeEventProcessed(supabase, event, requestId);
+    }
+  } catch (err: any) {
+    processingError = err?.message ?? 'Replay failed';
+  }
+
+  const ok = processingError === null;
+  const writes = dryRun?.writes ?? [];
+  const replayedAt = new Date().toISOString();
+
+  const systemEventId = await recordSystemEvent(supabase, {
+    type: 'stripe/replay',
+    requestId,
+    payloadSummary: { eventId, eventType: event.type, mode, ok, adminId, writes: writes.length },
+    errorMessage: processingError ?? 'Replay succeeded',
+    context: mode,
+  });
+
+  const updates: Record<string, unknown> = {
+    replay_count: (row.replay_count ?? 0) + 1,
+    last_replayed_at: replayedAt,
+    last_replayed_by: adminId,
+    last_replay_mode: mode,
+    last_replay_result: { ok, error: processingError, writes },
+    system_event_id: systemEventId,
+  };
+  if (mode === 'live' && !ok) {
+    updates.last_error = processingError;
+    updates.failed_at = replayedAt;
+  }
+
+  const { error: updateError } = await supabase.from('stripe_events').update(updates).eq('event_id', eventId);
+  if (updateError) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      ErrorCodes.DATABASE_ERROR,
+      'Failed to record Stripe event replay',
+      { details: updateError.message },
+      500
+    );
+  }
+
+  logger.info('Stripe event replayed', { requestId, eventId, eventType: event.type, mode, ok, adminId }, 'STRIPE_EVENT_REPLAYED');
+
+  return {
+    eventId,
+    eventType: event.type,
+    mode,
+    ok,
+    error: processingError,
+    writes,
+    systemEventId,
+    replayedAt,
+  };
+}
@@ -0,0 +1,318 @@
+import Stripe from 'stripe';
+import { StripeWebhookHandler } from '@/lib/stripe/webhook-handler';
+import { createNotification } from '@/lib/notifications';
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { logger } from '@/lib/logging';
+import { isSubscriptionActive } from '@/lib/subscriptions';
+import type { SupabaseClient } from './webhook-events';
+
+const SUBSCRIPTION_HANDLER_LABELS = {
+  subscriptionUpdated: 'SUBSCRIPTION_UPDATED',
+  invoice: 'SUBSCRIPTION_INVOICE',
+};
+
+type ExistingSubscription = {
+  id: string;
+  user_id: string | null;
+  creator_id: string | null;
+  status: string | null;
+};
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+function toIso(seconds?: number | null) {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+async function findSubscriptionRow(
+  supabase: SupabaseClient,
+  stripeSubscriptionId: string
+): Promise<ExistingSubscription | null> {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('id,user_id,creator_id,status')
+    .eq('stripe_subscription_id', stripeSubscriptionId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to load subscription',
+      { details: error.message }
+    );
+  }
+
+  return (data as ExistingSubscription | null) ?? null;
+}
+
+// A canceled Stripe subscription can never become active again, so a late event must not revive it
+function nextStatus(current: string | null | undefined, incoming: string) {
+  return current === 'canceled' ? current : incoming;
+}
+
+/**
+ * Mirrors the subscriber's overall state onto `profiles.subscription_status`
+ * ('active' while any creator subscription grants access, otherwise 'inactive').
+ */
+export async function refreshProfileSubscriptionStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  stripeCustomerId: string | null,
+  requestId: string
+) {
+  const { data: rows, error: loadError } = await supabase
+    .from('subscriptions')
+    .select('status,current_period_end')
+    .eq('user_id', userId);
+
+  if (loadError) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to load subscriptions for profile',
+      { details: loadError.message }
+    );
+  }
+
+  const updates: Record<string, any> = {
+    subscription_status: (rows ?? []).some((row: any) => isSubscriptionActive(row)) ? 'active' : 'inactive',
+  };
+  if (stripeCustomerId) {
+    updates.stripe_customer_id = stripeCustomerId;
+  }
+
+  const { error } = await supabase.from('profiles').update(updates).eq('id', userId);
+  if (error) {
+    logger.warn('Failed to update profile subscription status', {
+      requestId,
+      userId,
+      error: error.message,
+    }, SUBSCRIPTION_HANDLER_LABELS.subscriptionUpdated);
+  }
+}
+
+/**
+ * Upserts the `subscriptions` row for a `customer.subscription.*` event. Subscriber and creator
+ * come from the metadata set at checkout, falling back to an existing row.
+ */
+export async function upsertSubscriptionFromStripe(
+  supabase: SupabaseClient,
+  subscription: Stripe.Subscription,
+  eventType: string,
+  eventId: string,
+  requestId: string
+) {
+  const existing = await findSubscriptionRow(supabase, subscription.id);
+  const userId =
+    StripeWebhookHandler.extractMetadata(subscription.metadata, ['user_id', 'userId']) ?? existing?.user_id ?? null;
+  const creatorId =
+    StripeWebhookHandler.extractMetadata(subscription.metadata, ['creator_id', 'creatorId']) ?? existing?.creator_id ?? null;
+
+  if (!userId || !creatorId) {
+    logger.warn('Subscription missing user or creator metadata, skipping', {
+      requestId,
+      subscriptionId: subscription.id,
+      eventType,
+    }, SUBSCRIPTION_HANDLER_LABELS.subscriptionUpdated);
+    return;
+  }
+
+  const stripeCustomerId = idOf(subscription.customer as any);
+  const status = nextStatus(existing?.status, subscription.status);
+
+  const { error } = await supabase.from('subscriptions').upsert(
+    {
+      user_id: userId,
+      creator_id: creatorId,
+      stripe_subscription_id: subscription.id,
+      stripe_price_id: subscription.items?.data?.[0]?.price?.id ?? null,
+      stripe_customer_id: stripeCustomerId,
+      status,
+      current_period_end: toIso(subscription.current_period_end),
+      cancel_at_period_end: Boolean(subscription.cancel_at_period_end),
+      canceled_at: toIso(subscription.canceled_at),
+      last_stripe_event_id: eventId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'stripe_subscription_id' }
+  );
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to upsert subscription',
+      { details: error.message }
+    );
+  }
+
+  await refreshProfileSubscriptionStatus(supabase, userId, stripeCustomerId, requestId);
+
+  logger.info('Subscription synced from Stripe event', {
+    requestId,
+    subscriptionId: subscription.id,
+    eventType,
+    status,
+    userId,
+    creatorId,
+  }, SUBSCRIPTION_HANDLER_LABELS.subscriptionUpdated);
+
+  if (!existing && eventType === 'customer.subscription.created') {
+    try {
+      await createNotification(supabase, {
+        userId: creatorId,
+        type: 'subscription.created',
+        title: 'New subscriber',
+        body: 'Someone subscribed to your prompt catalog.',
+        url: '/dashboard/subscriptions',
+        requestId,
+      });
+    } catch (notifyError) {
+      logger.warn('Failed to notify creator about subscriber', {
+        requestId,
+        subscriptionId: subscription.id,
+        error: (notifyError as Error)?.message,
+      }, 'SUBSCRIPTION_NOTIFICATION_FAILED');
+    }
+  }
+}
+
+/**
+ * Records the subscription from a completed subscription checkout in case the
+ * `customer.subscription.created` event has not arrived yet; that event fills in the details.
+ */
+export async function handleSubscriptionCheckoutCompleted(
+  supabase: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  eventId: string,
+  requestId: string
+) {
+  const subscriptionId = idOf(session.subscription as any);
+  const userId = StripeWebhookHandler.extractMetadata(session.metadata, ['user_id', 'userId']);
+  const creatorId = StripeWebhookHandler.extractMetadata(session.metadata, ['creator_id', 'creatorId']);
+  const stripeCustomerId = idOf(session.customer as any);
+
+  if (!subscriptionId || !userId || !creatorId) {
+    throw new AppError(
+      ErrorCategory.VALIDATION,
+      'INVALID_METADATA',
+      'Subscription checkout session missing subscription, user_id or creator_id',
+      { sessionId: session.id },
+      400
+    );
+  }
+
+  const existing = await findSubscriptionRow(supabase, subscriptionId);
+  if (!existing) {
+    const { error } = await supabase.from('subscriptions').insert({
+      user_id: userId,
+      creator_id: creatorId,
+      stripe_subscription_id: subscriptionId,
+      stripe_customer_id: stripeCustomerId,
+      status: session.payment_status === 'paid' ? 'active' : 'incomplete',
+      last_stripe_event_id: eventId,
+    });
+
+    if (error && error.code !== '23505') {
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        'DATABASE_ERROR',
+        'Failed to record subscription from checkout',
+        { details: error.message }
+      );
+    }
+  }
+
+  await refreshProfileSubscriptionStatus(supabase, userId, stripeCustomerId, requestId);
+
+  logger.info('Subscription checkout session handled', {
+    requestId,
+    sessionId: session.id,
+    subscriptionId,
+    userId,
+    creatorId,
+  }, SUBSCRIPTION_HANDLER_LABELS.subscriptionUpdated);
+}
+
+/**
+ * Keeps subscription state in step with billing: a paid invoice extends the period and
+ * reactivates a past_due subscription, a failed payment moves it to past_due and tells the subscriber.
+ */
+export async function handleSubscriptionInvoice(
+  supabase: SupabaseClient,
+  invoice: Stripe.Invoice,
+  eventType: string,
+  eventId: string,
+  requestId: string
+) {
+  const subscriptionId = idOf(invoice.subscription as any);
+  if (!subscriptionId) return;
+
+  const existing = await findSubscriptionRow(supabase, subscriptionId);
+  if (!existing?.user_id) {
+    logger.warn('Invoice received for unknown subscription', {
+      requestId,
+      invoiceId: invoice.id,
+      subscriptionId,
+      eventType,
+    }, SUBSCRIPTION_HANDLER_LABELS.invoice);
+    return;
+  }
+
+  const failed = eventType === 'invoice.payment_failed';
+  const updates: Record<string, any> = {
+    status: nextStatus(existing.status, failed ? 'past_due' : 'active'),
+    last_stripe_event_id: eventId,
+    updated_at: new Date().toISOString(),
+  };
+
+  if (!failed) {
+    const periodEnd = Math.max(0, ...(invoice.lines?.data ?? []).map((line) => line.period?.end ?? 0));
+    if (periodEnd > 0) {
+      updates.current_period_end = toIso(periodEnd);
+    }
+  }
+
+  const { error } = await supabase.from('subscriptions').update(updates).eq('id', existing.id);
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to apply invoice to subscription',
+      { details: error.message }
+    );
+  }
+
+  await refreshProfileSubscriptionStatus(supabase, existing.user_id, idOf(invoice.customer as any), requestId);
+
+  logger.info('Subscription invoice applied', {
+    requestId,
+    invoiceId: invoice.id,
+    subscriptionId,
+    eventType,
+    status: updates.status,
+  }, SUBSCRIPTION_HANDLER_LABELS.invoice);
+
+  if (failed) {
+    try {
+      await createNotification(supabase, {
+        userId: existing.user_id,
+        type: 'subscription.payment_failed',
+        title: 'Subscription payment failed',
+        body: 'We could not charge your card for a creator subscription. Update your payment method to keep access.',
+        url: '/dashboard/subscriptions',
+        requestId,
+      });
+    } catch (notifyError) {
+      logger.warn('Failed to notify subscriber about failed payment', {
+        requestId,
+        subscriptionId,
+        error: (notifyError as Error)?.message,
+      }, 'SUBSCRIPTION_NOTIFICATION_FAILED');
+    }
+  }
+}
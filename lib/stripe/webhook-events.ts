@@ -0,0 +1,1365 @@
+import { createHash } from 'crypto';
+import Stripe from 'stripe';
+import { createSupabaseAdminClient } from '@/lib/supabase/server';
+import { StripeWebhookHandler } from '@/lib/stripe/webhook-handler';
+import { createNotification } from '@/lib/notifications';
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { logger } from '@/lib/logging';
+import { recordSystemEvent } from '@/lib/system-events';
+import { CartLine, parseCartMetadata } from '@/lib/cart';
+import { recordLedgerTransactions, refundTransactions, saleTransactions } from '@/lib/ledger';
+import {
+  handleSubscriptionCheckoutCompleted,
+  handleSubscriptionInvoice,
+  upsertSubscriptionFromStripe,
+} from './subscription-events';
+
+export type SupabaseClient = Awaited<ReturnType<typeof createSupabaseAdminClient>>;
+export type PurchaseRow = {
+  id: string;
+  buyer_id: string;
+  seller_id: string;
+  prompt_id: string | number;
+  stripe_checkout_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  amount_total: number | null;
+  refunded_amount: number | null;
+  status: string | null;
+  currency: string | null;
+  refund_reason?: string | null;
+  coupon_id?: string | null;
+  platform_fee_amount?: number | null;
+  platform_fee_bps?: number | null;
+  transfer_destination?: string | null;
+};
+
+const PURCHASE_COLUMNS =
+  'id,buyer_id,seller_id,prompt_id,stripe_checkout_session_id,stripe_payment_intent_id,amount_total,refunded_amount,status,currency,refund_reason,coupon_id,platform_fee_amount,platform_fee_bps,transfer_destination';
+
+// Statuses where the buyer's money was captured, so the sale belongs in the ledger
+const CAPTURED_STATUSES = new Set(['paid', 'partially_refunded', 'refunded', 'disputed']);
+
+const STATUS_ORDER = ['refunded', 'disputed', 'partially_refunded', 'paid', 'failed', 'pending'] as const;
+export type PurchaseStatus = (typeof STATUS_ORDER)[number];
+
+const STRIPE_HANDLER_LABELS = {
+  checkoutCompleted: 'CHECKOUT_COMPLETED',
+  paymentSucceeded: 'PAYMENT_INTENT_SUCCEEDED',
+  refundApplied: 'CHARGE_REFUNDED',
+  lineItemRefund: 'REFUND_UPDATED',
+  disputeCreated: 'DISPUTE_CREATED',
+};
+
+export function prioritizeStatus(current: string | null | undefined, incoming: PurchaseStatus): PurchaseStatus {
+  const currentIndex = STATUS_ORDER.indexOf((current ?? 'pending') as PurchaseStatus);
+  const incomingIndex = STATUS_ORDER.indexOf(incoming);
+
+  if (currentIndex === -1) return incoming;
+  if (incomingIndex === -1) return (current ?? 'pending') as PurchaseStatus;
+
+  return STATUS_ORDER[Math.min(currentIndex, incomingIndex)];
+}
+
+function stripeTimestampToIso(seconds?: number) {
+  return seconds ? new Date(seconds * 1000).toISOString() : new Date().toISOString();
+}
+
+function metadataCents(value: string | null | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const cents = Number(value);
+  return Number.isInteger(cents) && cents >= 0 ? cents : undefined;
+}
+
+function hashPayload(payload: any) {
+  return createHash('sha256').update(JSON.stringify(payload || {})).digest('hex');
+}
+
+export function summarizeEventPayload(event: Stripe.Event) {
+  const object: any = event.data?.object ?? {};
+  return {
+    object: object.object,
+    id: object.id,
+    type: event.type,
+    payment_intent: object.payment_intent ?? object.id ?? null,
+    charge: object.charge ?? null,
+    amount: object.amount ?? object.amount_total ?? null,
+    refund_id: object.object === 'refund' ? object.id : undefined,
+  };
+}
+
+export async function recordStripeEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  requestId: string
+) {
+  const stripeCreatedAt = event.created ? stripeTimestampToIso(event.created) : null;
+  const payload = summarizeEventPayload(event);
+
+  const { error } = await supabase
+    .from('stripe_events')
+    .insert({
+      event_id: event.id,
+      type: event.type,
+      livemode: Boolean(event.livemode),
+      stripe_created_at: stripeCreatedAt,
+      payload,
+      request_id: requestId,
+    });
+
+  if (!error) return { alreadyProcessed: false };
+
+  if (error.code === '23505') {
+    const { data: existing, error: fetchError } = await supabase
+      .from('stripe_events')
+      .select('processed_at')
+      .eq('event_id', event.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        'DATABASE_ERROR',
+        'Failed to inspect existing Stripe event',
+        { details: fetchError.message }
+      );
+    }
+
+    if (existing?.processed_at) {
+      return { alreadyProcessed: true, processedAt: existing.processed_at };
+    }
+
+    return { alreadyProcessed: false, existing: true };
+  }
+
+  throw new AppError(
+    ErrorCategory.EXTERNAL,
+    'DATABASE_ERROR',
+    'Failed to record Stripe event',
+    { details: error.message }
+  );
+}
+
+export async function markStripeEventProcessed(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  requestId: string
+) {
+  const payloadHash = hashPayload(event.data?.object ?? {});
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      processed_at: new Date().toISOString(),
+      payload_hash: payloadHash,
+      request_id: requestId,
+      last_error: null,
+    })
+    .eq('event_id', event.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to mark Stripe event processed',
+      { details: error.message }
+    );
+  }
+}
+
+/**
+ * Stores the processing error on the event row and links it to a system event, so the
+ * admin replay console can list the failure. The event stays unprocessed for Stripe retries.
+ */
+export async function markStripeEventFailed(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  errorMessage: string,
+  requestId: string
+) {
+  const systemEventId = await recordSystemEvent(supabase, {
+    type: 'stripe/webhook',
+    requestId,
+    payloadSummary: { eventId: event.id, eventType: event.type },
+    errorMessage,
+  });
+
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      last_error: errorMessage,
+      failed_at: new Date().toISOString(),
+      system_event_id: systemEventId,
+      request_id: requestId,
+    })
+    .eq('event_id', event.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to mark Stripe event failed',
+      { details: error.message }
+    );
+  }
+}
+
+export async function findPurchase(
+  supabase: SupabaseClient,
+  refs: {
+    purchaseId?: string | null;
+    paymentIntentId?: string | null;
+    checkoutSessionId?: string | null;
+    buyerId?: string | null;
+    promptId?: string | number | null;
+  }
+): Promise<PurchaseRow | null> {
+  const selectors: { column: string; value?: string | number | null }[] = [
+    { column: 'id', value: refs.purchaseId },
+    { column: 'stripe_payment_intent_id', value: refs.paymentIntentId },
+    { column: 'stripe_checkout_session_id', value: refs.checkoutSessionId },
+  ];
+
+  for (const selector of selectors) {
+    if (!selector.value) continue;
+    let query = supabase
+      .from('purchases')
+      .select(PURCHASE_COLUMNS)
+      .eq(selector.column, selector.value as any);
+
+    // A cart checkout creates one purchase per prompt under the same session and payment
+    if (selector.column !== 'id' && refs.promptId) {
+      query = query.eq('prompt_id', refs.promptId as any);
+    }
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        'DATABASE_ERROR',
+        'Failed to load purchase',
+        { details: error.message }
+      );
+    }
+
+    if (data) return data as PurchaseRow;
+  }
+
+  if (refs.buyerId && refs.promptId) {
+    const { data, error } = await supabase
+      .from('purchases')
+      .select(PURCHASE_COLUMNS)
+      .eq('buyer_id', refs.buyerId)
+      .eq('prompt_id', refs.promptId as any)
+      .maybeSingle();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        'DATABASE_ERROR',
+        'Failed to load purchase by buyer/prompt',
+        { details: error.message }
+      );
+    }
+
+    if (data) return data as PurchaseRow;
+  }
+
+  return null;
+}
+
+/**
+ * Returns every purchase paid by the given payment intent. Cart checkouts share one
+ * payment across several purchases, so charge-level refund totals cannot be applied to them.
+ */
+export async function listPaymentPurchases(
+  supabase: SupabaseClient,
+  paymentIntentId: string | null | undefined
+): Promise<PurchaseRow[]> {
+  if (!paymentIntentId) return [];
+
+  const { data, error } = await supabase
+    .from('purchases')
+    .select(PURCHASE_COLUMNS)
+    .eq('stripe_payment_intent_id', paymentIntentId);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to load purchases for payment',
+      { details: error.message }
+    );
+  }
+
+  return (data ?? []) as PurchaseRow[];
+}
+
+export async function upsertPurchaseFromStripe(
+  supabase: SupabaseClient,
+  input: {
+    buyerId: string;
+    sellerId: string;
+    promptId: string | number;
+    stripeCheckoutSessionId?: string | null;
+    stripePaymentIntentId?: string | null;
+    amountTotal: number;
+    currency: string;
+    status: PurchaseStatus;
+    lastStripeEventId: string;
+    priceCents?: number;
+    couponId?: string | null;
+    couponCode?: string | null;
+    discountCents?: number;
+    platformFeeCents?: number;
+    platformFeeBps?: number | null;
+    transferDestination?: string | null;
+  },
+  requestId: string
+): Promise<string | null> {
+  const purchase = await findPurchase(supabase, {
+    paymentIntentId: input.stripePaymentIntentId,
+    checkoutSessionId: input.stripeCheckoutSessionId,
+    buyerId: input.buyerId,
+    promptId: input.promptId,
+  });
+
+  const targetStatus = prioritizeStatus(purchase?.status, input.status);
+
+  if (purchase) {
+    const updates: Record<string, any> = {
+      last_stripe_event_id: input.lastStripeEventId,
+    };
+
+    if (input.stripeCheckoutSessionId && !purchase.stripe_checkout_session_id) {
+      updates.stripe_checkout_session_id = input.stripeCheckoutSessionId;
+    }
+
+    if (input.stripePaymentIntentId && !purchase.stripe_payment_intent_id) {
+      updates.stripe_payment_intent_id = input.stripePaymentIntentId;
+    }
+
+    if (!purchase.amount_total || purchase.amount_total !== input.amountTotal) {
+      updates.amount_total = input.amountTotal;
+    }
+
+    if (!purchase.currency || purchase.currency !== input.currency) {
+      updates.currency = input.currency;
+    }
+
+    if (purchase.status !== targetStatus) {
+      updates.status = targetStatus;
+    }
+
+    if (input.couponId && !purchase.coupon_id) {
+      updates.coupon_id = input.couponId;
+      updates.coupon_code = input.couponCode ?? null;
+      updates.discount_amount = input.discountCents ?? 0;
+    }
+
+    if (input.platformFeeCents !== undefined && purchase.platform_fee_bps == null) {
+      updates.platform_fee_amount = input.platformFeeCents;
+      updates.platform_fee_bps = input.platformFeeBps ?? null;
+      updates.transfer_destination = input.transferDestination ?? null;
+    }
+
+    if (
+      input.priceCents &&
+      (!purchase.amount_total || purchase.amount_total === 0)
+    ) {
+      updates.price = Number((input.priceCents / 100).toFixed(2));
+    }
+
+    const shouldUpdate = Object.keys(updates).length > 0;
+    if (shouldUpdate) {
+      const { error } = await supabase
+        .from('purchases')
+        .update(updates)
+        .eq('id', purchase.id);
+
+      if (error) {
+        throw new AppError(
+          ErrorCategory.EXTERNAL,
+          'DATABASE_ERROR',
+          'Failed to update purchase',
+          { details: error.message }
+        );
+      }
+
+      logger.info('Purchase reconciled from Stripe event', {
+        requestId,
+        purchaseId: purchase.id,
+        status: targetStatus,
+        updates,
+      }, 'PURCHASE_UPDATED');
+    } else {
+      logger.info('Purchase already up to date for Stripe event', {
+        requestId,
+        purchaseId: purchase.id,
+      }, 'PURCHASE_ALREADY_CURRENT');
+    }
+
+    // The split recorded first wins; events without fee details fall back to the stored one
+    await recordSaleLedger(supabase, {
+      purchaseId: purchase.id,
+      sellerId: purchase.seller_id,
+      status: targetStatus,
+      amountTotal: input.amountTotal,
+      currency: input.currency,
+      platformFeeCents: updates.platform_fee_amount ?? purchase.platform_fee_amount ?? 0,
+      platformFeeBps: updates.platform_fee_bps ?? purchase.platform_fee_bps ?? null,
+      transferDestination: updates.transfer_destination ?? purchase.transfer_destination ?? null,
+      stripeObjectId: input.stripePaymentIntentId ?? input.stripeCheckoutSessionId ?? null,
+    });
+
+    return purchase.id;
+  }
+
+  const priceCents = input.priceCents ?? input.amountTotal;
+  const insertPayload = {
+    buyer_id: input.buyerId,
+    seller_id: input.sellerId,
+    prompt_id: input.promptId,
+    stripe_checkout_session_id: input.stripeCheckoutSessionId ?? null,
+    stripe_payment_intent_id: input.stripePaymentIntentId ?? null,
+    amount_total: input.amountTotal,
+    refunded_amount: 0,
+    currency: input.currency,
+    status: input.status,
+    last_stripe_event_id: input.lastStripeEventId,
+    price: Number((priceCents / 100).toFixed(2)),
+    coupon_id: input.couponId ?? null,
+    coupon_code: input.couponCode ?? null,
+    discount_amount: input.discountCents ?? 0,
+    platform_fee_amount: input.platformFeeCents ?? 0,
+    platform_fee_bps: input.platformFeeBps ?? null,
+    transfer_destination: input.transferDestination ?? null,
+    created_at: new Date().toISOString(),
+  };
+
+  const { data: inserted, error } = await supabase
+    .from('purchases')
+    .insert(insertPayload)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      const existing = await findPurchase(supabase, {
+        paymentIntentId: input.stripePaymentIntentId,
+        checkoutSessionId: input.stripeCheckoutSessionId,
+        buyerId: input.buyerId,
+        promptId: input.promptId,
+      });
+      return existing?.id ?? null;
+    }
+
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to create purchase',
+      { details: error.message }
+    );
+  }
+
+  if (!inserted?.id) return null;
+
+  logger.info('Purchase created from Stripe event', {
+    requestId,
+    purchaseId: inserted.id,
+    status: input.status,
+  }, 'PURCHASE_CREATED');
+
+  await recordSaleLedger(supabase, {
+    purchaseId: inserted.id,
+    sellerId: input.sellerId,
+    status: input.status,
+    amountTotal: input.amountTotal,
+    currency: input.currency,
+    platformFeeCents: input.platformFeeCents ?? 0,
+    platformFeeBps: input.platformFeeBps ?? null,
+    transferDestination: input.transferDestination ?? null,
+    stripeObjectId: input.stripePaymentIntentId ?? input.stripeCheckoutSessionId ?? null,
+  });
+
+  return inserted.id;
+}
+
+async function recordSaleLedger(
+  supabase: SupabaseClient,
+  sale: {
+    purchaseId: string;
+    sellerId: string;
+    status: string;
+    amountTotal: number;
+    currency: string;
+    platformFeeCents: number;
+    platformFeeBps: number | null;
+    transferDestination: string | null;
+    stripeObjectId: string | null;
+  }
+) {
+  if (!CAPTURED_STATUSES.has(sale.status)) return;
+
+  await recordLedgerTransactions(
+    supabase,
+    saleTransactions({
+      purchaseId: sale.purchaseId,
+      creatorId: sale.sellerId,
+      grossCents: sale.amountTotal,
+      platformFeeCents: sale.platformFeeCents,
+      feeBps: sale.platformFeeBps,
+      currency: sale.currency,
+      transferDestination: sale.transferDestination,
+      stripeObjectId: sale.stripeObjectId,
+    })
+  );
+}
+
+// Records the refunded amount added since `previousRefundedCents`; replays record nothing new
+async function recordRefundLedger(
+  supabase: SupabaseClient,
+  purchase: PurchaseRow,
+  previousRefundedCents: number,
+  refundedCents: number,
+  stripeObjectId: string | null
+) {
+  await recordLedgerTransactions(
+    supabase,
+    refundTransactions({
+      purchaseId: purchase.id,
+      creatorId: purchase.seller_id,
+      grossCents: purchase.amount_total ?? 0,
+      platformFeeCents: purchase.platform_fee_amount ?? 0,
+      currency: purchase.currency ?? 'usd',
+      transferDestination: purchase.transfer_destination ?? null,
+      stripeObjectId,
+      previousRefundedCents,
+      refundedCents,
+    })
+  );
+}
+
+export async function reconcileRefund(
+  supabase: SupabaseClient,
+  charge: Stripe.Charge,
+  eventId: string,
+  requestId: string,
+  stripeCreated?: number
+) {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string'
+      ? charge.payment_intent
+      : charge.payment_intent?.id ?? null;
+  const checkoutSessionId =
+    charge.metadata?.stripe_checkout_session_id ??
+    charge.metadata?.checkout_session_id ??
+    null;
+  const purchaseId = charge.metadata?.purchase_id ?? null;
+  const refundedAmount = charge.amount_refunded ?? 0;
+  const totalAmount = charge.amount ?? refundedAmount;
+  const refundReason =
+    charge.refunds?.data?.[0]?.reason ??
+    charge.refunds?.data?.[0]?.metadata?.reason ??
+    charge.metadata?.refund_reason ??
+    null;
+
+  const paymentPurchases = await listPaymentPurchases(supabase, paymentIntentId);
+  if (paymentPurchases.length > 1) {
+    // Cart payment: each line item is refunded on its own through refund.* events
+    logger.info('Charge refund covers a cart payment, applying per line item instead', {
+      requestId,
+      paymentIntentId,
+      purchases: paymentPurchases.length,
+    }, STRIPE_HANDLER_LABELS.refundApplied);
+    return;
+  }
+
+  let purchase = await findPurchase(supabase, {
+    purchaseId,
+    paymentIntentId,
+    checkoutSessionId,
+  });
+
+  if (!purchase && charge.metadata?.prompt_id && charge.metadata?.buyer_id && charge.metadata?.seller_id) {
+    await upsertPurchaseFromStripe(
+      supabase,
+      {
+        buyerId: charge.metadata.buyer_id,
+        sellerId: charge.metadata.seller_id,
+        promptId: charge.metadata.prompt_id,
+        stripeCheckoutSessionId: checkoutSessionId ?? undefined,
+        stripePaymentIntentId: paymentIntentId ?? undefined,
+        amountTotal: totalAmount,
+        currency: charge.currency,
+        status: refundedAmount >= totalAmount ? 'refunded' : 'partially_refunded',
+        lastStripeEventId: eventId,
+        priceCents: totalAmount,
+      },
+      requestId
+    );
+    purchase = await findPurchase(supabase, {
+      purchaseId,
+      paymentIntentId,
+      checkoutSessionId,
+      buyerId: charge.metadata.buyer_id,
+      promptId: charge.metadata.prompt_id,
+    });
+  }
+
+  if (!purchase) {
+    logger.warn('Refund received but purchase not found', {
+      requestId,
+      paymentIntentId,
+      checkoutSessionId,
+      purchaseId,
+    }, STRIPE_HANDLER_LABELS.refundApplied);
+    return;
+  }
+
+  const currentRefunded = purchase.refunded_amount ?? 0;
+  const amountTotal = purchase.amount_total && purchase.amount_total > 0 ? purchase.amount_total : totalAmount;
+  const nextRefundedAmount = Math.max(currentRefunded, refundedAmount);
+  const computedStatus =
+    nextRefundedAmount >= amountTotal && amountTotal > 0
+      ? 'refunded'
+      : 'partially_refunded';
+  const targetStatus = prioritizeStatus(purchase.status, computedStatus as PurchaseStatus);
+
+  const updates: Record<string, any> = {
+    refunded_amount: nextRefundedAmount,
+    amount_total: amountTotal,
+    status: targetStatus,
+    refund_reason: refundReason ?? purchase.refund_reason ?? null,
+    refunded_at: stripeTimestampToIso(stripeCreated),
+    last_stripe_event_id: eventId,
+    stripe_payment_intent_id: paymentIntentId ?? purchase.stripe_payment_intent_id,
+  };
+
+  const { error } = await supabase
+    .from('purchases')
+    .update(updates)
+    .eq('id', purchase.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to apply refund to purchase',
+      { details: error.message }
+    );
+  }
+
+  await recordRefundLedger(
+    supabase,
+    { ...purchase, amount_total: amountTotal },
+    currentRefunded,
+    nextRefundedAmount,
+    charge.id ?? null
+  );
+
+  logger.info('Refund reconciled to purchase', {
+    requestId,
+    purchaseId: purchase.id,
+    status: targetStatus,
+    refundedAmount: nextRefundedAmount,
+    amountTotal,
+  }, STRIPE_HANDLER_LABELS.refundApplied);
+
+  try {
+    const humanAmount = nextRefundedAmount / 100;
+    const title =
+      targetStatus === 'refunded'
+        ? 'Refund processed'
+        : 'Partial refund processed';
+    await createNotification(supabase, {
+      userId: purchase.buyer_id,
+      type: 'refund.processed',
+      title,
+      body: `A refund of ${humanAmount} ${charge.currency} was processed for your purchase.`,
+      url: '/purchases',
+      requestId,
+    });
+  } catch (notifyError) {
+    logger.warn('Failed to notify buyer about refund', {
+      requestId,
+      purchaseId: purchase.id,
+      error: (notifyError as Error)?.message,
+    }, 'REFUND_NOTIFICATION_FAILED');
+  }
+}
+
+/**
+ * Applies a single Stripe refund to the purchase named in its metadata. Only used for cart
+ * payments, where the charge's refunded total spans several purchases; single-purchase
+ * payments are reconciled from `charge.refunded`.
+ */
+export async function reconcileLineItemRefund(
+  supabase: SupabaseClient,
+  refund: Stripe.Refund,
+  eventId: string,
+  requestId: string
+) {
+  const paymentIntentId =
+    typeof refund.payment_intent === 'string'
+      ? refund.payment_intent
+      : refund.payment_intent?.id ?? null;
+  const paymentPurchases = await listPaymentPurchases(supabase, paymentIntentId);
+  if (paymentPurchases.length <= 1) return;
+
+  const purchaseId = refund.metadata?.purchase_id ?? null;
+  const purchase = paymentPurchases.find((row) => row.id === purchaseId);
+  if (!purchase) {
+    logger.warn('Cart refund has no matching purchase_id, skipping', {
+      requestId,
+      refundId: refund.id,
+      paymentIntentId,
+      purchaseId,
+    }, STRIPE_HANDLER_LABELS.lineItemRefund);
+    return;
+  }
+
+  const { error: upsertError } = await supabase.from('refunds').upsert(
+    {
+      purchase_id: purchase.id,
+      stripe_refund_id: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      reason: refund.metadata?.reason || refund.reason || null,
+      status: refund.status ?? 'pending',
+      stripe_created_at: stripeTimestampToIso(refund.created),
+      updated_at: new Date().toISOString(),
+      last_stripe_event_id: eventId,
+    },
+    { onConflict: 'stripe_refund_id' }
+  );
+
+  if (upsertError) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to record refund',
+      { details: upsertError.message }
+    );
+  }
+
+  const { data: refundRows, error: refundsError } = await supabase
+    .from('refunds')
+    .select('amount,status')
+    .eq('purchase_id', purchase.id);
+
+  if (refundsError) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to load refunds for purchase',
+      { details: refundsError.message }
+    );
+  }
+
+  const succeededTotal = (refundRows ?? [])
+    .filter((row: any) => row.status === 'succeeded')
+    .reduce((sum: number, row: any) => sum + Number(row.amount ?? 0), 0);
+  const currentRefunded = purchase.refunded_amount ?? 0;
+  const nextRefundedAmount = Math.max(currentRefunded, succeededTotal);
+
+  if (nextRefundedAmount === currentRefunded) {
+    logger.info('Cart refund recorded, purchase already current', {
+      requestId,
+      purchaseId: purchase.id,
+      refundId: refund.id,
+      status: refund.status,
+    }, STRIPE_HANDLER_LABELS.lineItemRefund);
+    return;
+  }
+
+  const amountTotal = purchase.amount_total ?? 0;
+  const computedStatus =
+    nextRefundedAmount >= amountTotal && amountTotal > 0 ? 'refunded' : 'partially_refunded';
+  const targetStatus = prioritizeStatus(purchase.status, computedStatus);
+
+  const { error } = await supabase
+    .from('purchases')
+    .update({
+      refunded_amount: nextRefundedAmount,
+      status: targetStatus,
+      refund_reason: refund.metadata?.reason || refund.reason || purchase.refund_reason || null,
+      refunded_at: stripeTimestampToIso(refund.created),
+      last_stripe_event_id: eventId,
+    })
+    .eq('id', purchase.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to apply refund to purchase',
+      { details: error.message }
+    );
+  }
+
+  await recordRefundLedger(supabase, purchase, currentRefunded, nextRefundedAmount, refund.id);
+
+  logger.info('Cart refund reconciled to purchase', {
+    requestId,
+    purchaseId: purchase.id,
+    refundId: refund.id,
+    status: targetStatus,
+    refundedAmount: nextRefundedAmount,
+    amountTotal,
+  }, STRIPE_HANDLER_LABELS.lineItemRefund);
+
+  try {
+    await createNotification(supabase, {
+      userId: purchase.buyer_id,
+      type: 'refund.processed',
+      title: targetStatus === 'refunded' ? 'Refund processed' : 'Partial refund processed',
+      body: `A refund of ${nextRefundedAmount / 100} ${refund.currency} was processed for your purchase.`,
+      url: '/purchases',
+      requestId,
+    });
+  } catch (notifyError) {
+    logger.warn('Failed to notify buyer about refund', {
+      requestId,
+      purchaseId: purchase.id,
+      error: (notifyError as Error)?.message,
+    }, 'REFUND_NOTIFICATION_FAILED');
+  }
+}
+
+async function handleCartCheckoutCompleted(
+  supabase: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  lines: CartLine[],
+  eventId: string,
+  requestId: string,
+  stripeCreated?: number
+) {
+  const buyerId = StripeWebhookHandler.extractMetadata(session.metadata, ['user_id', 'buyer_id', 'buyerId', 'userId']);
+  if (!buyerId) {
+    throw new AppError(
+      ErrorCategory.VALIDATION,
+      'INVALID_METADATA',
+      'Cart checkout session missing user_id',
+      { sessionId: session.id },
+      400
+    );
+  }
+
+  const promptIds = lines.map((line) => line.promptId);
+  const { data: prompts, error: promptsError } = await supabase
+    .from('prompts')
+    .select('id, user_id')
+    .in('id', promptIds);
+
+  if (promptsError) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to load cart prompts',
+      { details: promptsError.message }
+    );
+  }
+
+  const promptsById = new Map<string, any>((prompts ?? []).map((prompt: any) => [String(prompt.id), prompt]));
+  const paymentIntentId =
+    typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : (session.payment_intent as Stripe.PaymentIntent | null)?.id ?? null;
+
+  const lineTotal = lines.reduce((sum, line) => sum + line.amountCents, 0);
+  if (session.amount_total != null && session.amount_total !== lineTotal) {
+    logger.warn('Cart checkout total does not match line items', {
+      requestId,
+      sessionId: session.id,
+      amountTotal: session.amount_total,
+      lineTotal,
+    }, STRIPE_HANDLER_LABELS.checkoutCompleted);
+  }
+
+  for (const line of lines) {
+    const prompt = promptsById.get(line.promptId);
+    const sellerId = line.sellerId || prompt?.user_id;
+    if (!prompt || !sellerId) {
+      throw new AppError(
+        ErrorCategory.RESOURCE,
+        'PROMPT_NOT_FOUND',
+        `Prompt ${line.promptId} not found`,
+        { sessionId: session.id },
+        404
+      );
+    }
+
+    await upsertPurchaseFromStripe(
+      supabase,
+      {
+        buyerId,
+        sellerId,
+        promptId: prompt.id,
+        stripeCheckoutSessionId: session.id,
+        stripePaymentIntentId: paymentIntentId ?? undefined,
+        amountTotal: line.amountCents,
+        currency: session.currency || 'usd',
+        status: 'paid',
+        lastStripeEventId: eventId,
+        priceCents: line.amountCents,
+        platformFeeCents: line.platformFeeCents,
+        platformFeeBps:
+          metadataCents(session.metadata?.platform_fee_bps) ??
+          (line.platformFeeCents === undefined ? null : Math.round((line.platformFeeCents * 10000) / line.amountCents)),
+        transferDestination: session.metadata?.transfer_destination || null,
+      },
+      requestId
+    );
+  }
+
+  const { error: clearError } = await supabase
+    .from('cart_items')
+    .delete()
+    .eq('user_id', buyerId)
+    .in('prompt_id', promptIds);
+
+  if (clearError) {
+    logger.warn('Failed to clear purchased cart items', {
+      requestId,
+      buyerId,
+      error: clearError.message,
+    }, STRIPE_HANDLER_LABELS.checkoutCompleted);
+  }
+
+  logger.info('Cart checkout session handled', {
+    requestId,
+    sessionId: session.id,
+    buyerId,
+    items: lines.length,
+    amountTotal: lineTotal,
+    stripeCreatedAt: stripeTimestampToIso(stripeCreated),
+  }, STRIPE_HANDLER_LABELS.checkoutCompleted);
+}
+
+// Redemption counts are recomputed from purchases, so replays cannot double count them
+async function refreshCouponRedemptions(supabase: SupabaseClient, couponId: string, requestId: string) {
+  const { error } = await supabase.rpc('refresh_coupon_redemptions', { p_coupon_id: couponId });
+  if (error) {
+    logger.warn('Failed to refresh coupon redemptions', {
+      requestId,
+      couponId,
+      error: error.message,
+    }, STRIPE_HANDLER_LABELS.checkoutCompleted);
+  }
+}
+
+export async function handleCheckoutCompleted(
+  supabase: SupabaseClient,
+  session: Stripe.Checkout.Session,
+  eventId: string,
+  requestId: string,
+  stripeCreated?: number
+) {
+  if (session.mode === 'subscription') {
+    await handleSubscriptionCheckoutCompleted(supabase, session, eventId, requestId);
+    return;
+  }
+
+  const cartLines = parseCartMetadata(session.metadata);
+  if (cartLines) {
+    await handleCartCheckoutCompleted(supabase, session, cartLines, eventId, requestId, stripeCreated);
+    return;
+  }
+
+  const { promptId, buyerId, sellerId } = StripeWebhookHandler.validatePurchaseMetadata(session);
+  const amountTotal = session.amount_total ?? session.amount_subtotal;
+
+  if (!amountTotal || amountTotal <= 0) {
+    throw new AppError(
+      ErrorCategory.VALIDATION,
+      'INVALID_AMOUNT',
+      'Checkout session missing amount_total',
+      { sessionId: session.id },
+      400
+    );
+  }
+
+  const { data: prompt, error: promptError } = await supabase
+    .from('prompts')
+    .select('id, user_id, price')
+    .eq('id', promptId)
+    .maybeSingle();
+
+  if (promptError || !prompt) {
+    throw new AppError(
+      ErrorCategory.RESOURCE,
+      'PROMPT_NOT_FOUND',
+      `Prompt ${promptId} not found`,
+      { details: promptError?.message },
+      404
+    );
+  }
+
+  const finalSellerId = sellerId || prompt.user_id;
+  if (!finalSellerId) {
+    throw new AppError(
+      ErrorCategory.RESOURCE,
+      'SELLER_NOT_FOUND',
+      'No seller found for prompt',
+      { promptId },
+      404
+    );
+  }
+
+  const paymentIntentId =
+    typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : (session.payment_intent as Stripe.PaymentIntent | null)?.id ?? null;
+
+  await upsertPurchaseFromStripe(
+    supabase,
+    {
+      buyerId,
+      sellerId: finalSellerId,
+      promptId: prompt.id,
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: paymentIntentId ?? undefined,
+      amountTotal,
+      currency: session.currency || 'usd',
+      status: 'paid',
+      lastStripeEventId: eventId,
+      priceCents: amountTotal,
+      couponId: session.metadata?.coupon_id || null,
+      couponCode: session.metadata?.coupon_code || null,
+      discountCents: Number(session.metadata?.discount_cents ?? 0) || 0,
+      platformFeeCents: metadataCents(session.metadata?.platform_fee_cents),
+      platformFeeBps: metadataCents(session.metadata?.platform_fee_bps) ?? null,
+      transferDestination: session.metadata?.transfer_destination || null,
+    },
+    requestId
+  );
+
+  if (session.metadata?.coupon_id) {
+    await refreshCouponRedemptions(supabase, session.metadata.coupon_id, requestId);
+  }
+
+  logger.info('Checkout session handled', {
+    requestId,
+    sessionId: session.id,
+    promptId,
+    buyerId,
+    sellerId: finalSellerId,
+    amountTotal,
+    stripeCreatedAt: stripeTimestampToIso(stripeCreated),
+  }, STRIPE_HANDLER_LABELS.checkoutCompleted);
+}
+
+function idOfDestination(destination: string | Stripe.Account | null | undefined) {
+  if (!destination) return null;
+  return typeof destination === 'string' ? destination : destination.id;
+}
+
+export async function handlePaymentIntentSucceeded(
+  supabase: SupabaseClient,
+  intent: Stripe.PaymentIntent,
+  eventId: string,
+  requestId: string
+) {
+  const promptId = StripeWebhookHandler.extractMetadata(intent.metadata, ['prompt_id', 'promptId']);
+  const buyerId = StripeWebhookHandler.extractMetadata(intent.metadata, ['user_id', 'buyer_id', 'buyerId', 'userId']);
+
+  if (!promptId || !buyerId) {
+    logger.warn('Payment intent missing metadata, skipping purchase sync', {
+      requestId,
+      paymentIntentId: intent.id,
+      promptId,
+      buyerId,
+    }, STRIPE_HANDLER_LABELS.paymentSucceeded);
+    return;
+  }
+
+  const amountTotal = intent.amount_received ?? intent.amount;
+  if (!amountTotal || amountTotal <= 0) {
+    throw new AppError(
+      ErrorCategory.VALIDATION,
+      'INVALID_AMOUNT',
+      'Payment intent missing amount',
+      { paymentIntentId: intent.id },
+      400
+    );
+  }
+
+  const { data: prompt, error: promptError } = await supabase
+    .from('prompts')
+    .select('id, user_id')
+    .eq('id', promptId)
+    .maybeSingle();
+
+  if (promptError || !prompt) {
+    throw new AppError(
+      ErrorCategory.RESOURCE,
+      'PROMPT_NOT_FOUND',
+      `Prompt ${promptId} not found`,
+      { details: promptError?.message },
+      404
+    );
+  }
+
+  await upsertPurchaseFromStripe(
+    supabase,
+    {
+      buyerId,
+      sellerId: prompt.user_id,
+      promptId: prompt.id,
+      stripeCheckoutSessionId: undefined,
+      stripePaymentIntentId: intent.id,
+      amountTotal,
+      currency: intent.currency || 'usd',
+      status: 'paid',
+      lastStripeEventId: eventId,
+      priceCents: amountTotal,
+      platformFeeCents: intent.application_fee_amount ?? 0,
+      platformFeeBps: Math.round(((intent.application_fee_amount ?? 0) * 10000) / amountTotal),
+      transferDestination: idOfDestination(intent.transfer_data?.destination),
+    },
+    requestId
+  );
+}
+
+async function handlePaymentIntentFailed(
+  supabase: SupabaseClient,
+  intent: Stripe.PaymentIntent,
+  eventId: string,
+  requestId: string
+) {
+  const purchase = await findPurchase(supabase, {
+    paymentIntentId: intent.id,
+    buyerId: StripeWebhookHandler.extractMetadata(intent.metadata, ['user_id', 'buyer_id', 'buyerId', 'userId']),
+    promptId: StripeWebhookHandler.extractMetadata(intent.metadata, ['prompt_id', 'promptId']),
+  });
+
+  if (!purchase) return;
+
+  const { error } = await supabase
+    .from('purchases')
+    .update({
+      status: prioritizeStatus(purchase.status, 'failed'),
+      last_stripe_event_id: eventId,
+    })
+    .eq('id', purchase.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to mark purchase failed',
+      { details: error.message }
+    );
+  }
+
+  logger.warn('Payment intent marked as failed', {
+    requestId,
+    purchaseId: purchase.id,
+    paymentIntentId: intent.id,
+  }, 'PAYMENT_FAILED');
+}
+
+async function handleDisputeCreated(
+  supabase: SupabaseClient,
+  dispute: Stripe.Dispute,
+  eventId: string,
+  requestId: string
+) {
+  const paymentIntentId =
+    typeof dispute.payment_intent === 'string'
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id ?? null;
+  const chargeId =
+    typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id ?? null;
+
+  // A dispute on a cart payment covers every purchase paid by it
+  const paymentPurchases = await listPaymentPurchases(supabase, paymentIntentId);
+  let disputed = paymentPurchases;
+  if (paymentPurchases.length <= 1) {
+    const purchase = await findPurchase(supabase, {
+      paymentIntentId,
+      checkoutSessionId: dispute.metadata?.stripe_checkout_session_id ?? null,
+      purchaseId: dispute.metadata?.purchase_id ?? null,
+    });
+    disputed = purchase ? [purchase] : [];
+  }
+
+  if (disputed.length === 0) {
+    logger.warn('Dispute received but purchase not found', {
+      requestId,
+      paymentIntentId,
+      chargeId,
+    }, STRIPE_HANDLER_LABELS.disputeCreated);
+    return;
+  }
+
+  for (const row of disputed) {
+    const { error } = await supabase
+      .from('purchases')
+      .update({
+        status: prioritizeStatus(row.status, 'disputed'),
+        last_stripe_event_id: eventId,
+      })
+      .eq('id', row.id);
+
+    if (error) {
+      throw new AppError(
+        ErrorCategory.EXTERNAL,
+        'DATABASE_ERROR',
+        'Failed to mark purchase disputed',
+        { details: error.message }
+      );
+    }
+
+    logger.warn('Purchase marked as disputed', {
+      requestId,
+      purchaseId: row.id,
+      paymentIntentId,
+      chargeId,
+    }, STRIPE_HANDLER_LABELS.disputeCreated);
+  }
+}
+
+async function handleAccountUpdated(
+  supabase: SupabaseClient,
+  account: Stripe.Account,
+  eventId: string,
+  requestId: string
+) {
+  const chargesEnabled = Boolean(account.charges_enabled);
+  const payoutsEnabled = Boolean(account.payouts_enabled);
+  const status = account.requirements?.disabled_reason || null;
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      stripe_charges_enabled: chargesEnabled,
+      stripe_payouts_enabled: payoutsEnabled,
+      stripe_account_status: status,
+      stripe_account_id: account.id,
+      connected_account_id: account.id,
+    })
+    .eq('stripe_account_id', account.id);
+
+  if (error) {
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to update Stripe account status',
+      { details: error.message },
+      500
+    );
+  }
+
+  logger.info('Stripe account updated', {
+    requestId,
+    accountId: account.id,
+    chargesEnabled,
+    payoutsEnabled,
+    status,
+  }, 'ACCOUNT_UPDATED');
+}
+
+export async function processEvent(
+  supabase: SupabaseClient,
+  event: Stripe.Event,
+  requestId: string
+) {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(
+        supabase,
+        event.data.object as Stripe.Checkout.Session,
+        event.id,
+        requestId,
+        event.created
+      );
+      break;
+
+    case 'payment_intent.succeeded':
+      await handlePaymentIntentSucceeded(
+        supabase,
+        event.data.object as Stripe.PaymentIntent,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'payment_intent.payment_failed':
+      await handlePaymentIntentFailed(
+        supabase,
+        event.data.object as Stripe.PaymentIntent,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'charge.refunded':
+      await reconcileRefund(
+        supabase,
+        event.data.object as Stripe.Charge,
+        event.id,
+        requestId,
+        event.created
+      );
+      break;
+
+    case 'refund.created':
+    case 'refund.updated':
+      await reconcileLineItemRefund(
+        supabase,
+        event.data.object as Stripe.Refund,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      await upsertSubscriptionFromStripe(
+        supabase,
+        event.data.object as Stripe.Subscription,
+        event.type,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'invoice.paid':
+    case 'invoice.payment_failed':
+      await handleSubscriptionInvoice(
+        supabase,
+        event.data.object as Stripe.Invoice,
+        event.type,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'charge.dispute.created':
+      await handleDisputeCreated(
+        supabase,
+        event.data.object as Stripe.Dispute,
+        event.id,
+        requestId
+      );
+      break;
+
+    case 'account.updated':
+      await handleAccountUpdated(
+        supabase,
+        event.data.object as Stripe.Account,
+        event.id,
+        requestId
+      );
+      break;
+
+    default:
+      logger.info('Unhandled Stripe event type', {
+        requestId,
+        eventType: event.type,
+        eventId: event.id,
+      }, 'UNHANDLED_STRIPE_EVENT');
+  }
+}
@@ -0,0 +1,84 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+
+export const SUBSCRIPTION_COLUMNS =
+  'id,user_id,creator_id,stripe_subscription_id,stripe_price_id,stripe_customer_id,status,current_period_end,cancel_at_period_end,canceled_at,created_at';
+
+export type SubscriptionAccessShape = {
+  status?: string | null;
+  current_period_end?: string | null;
+};
+
+export type SubscriptionRow = SubscriptionAccessShape & {
+  id: string;
+  user_id: string;
+  creator_id: string;
+  stripe_subscription_id: string;
+  stripe_price_id: string | null;
+  stripe_customer_id: string | null;
+  cancel_at_period_end: boolean;
+  canceled_at: string | null;
+  created_at: string | null;
+};
+
+export type CreatorSubscriptionPlan = {
+  creator_id: string;
+  stripe_product_id: string;
+  stripe_price_id: string;
+  price_cents: number;
+  currency: string;
+  active: boolean;
+};
+
+// past_due keeps access while Stripe retries the invoice, until the paid period runs out
+const ENTITLED_STATUSES = new Set(['active', 'trialing', 'past_due']);
+
+/**
+ * Determines if a subscription currently grants access to the creator's catalog.
+ * - allowed: active, trialing or past_due with the paid period not yet over
+ * - denied: canceled, incomplete, unpaid, or any status once the period has ended
+ */
+export function isSubscriptionActive(
+  subscription: SubscriptionAccessShape | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!subscription?.status) return false;
+  if (!ENTITLED_STATUSES.has(subscription.status.toLowerCase())) return false;
+  if (!subscription.current_period_end) return subscription.status.toLowerCase() !== 'past_due';
+  return new Date(subscription.current_period_end).getTime() > now.getTime();
+}
+
+/**
+ * Returns the user's entitling subscription to a creator, if any.
+ */
+export async function findActiveSubscription(
+  supabase: any,
+  userId: string,
+  creatorId: string
+): Promise<SubscriptionRow | null> {
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select(SUBSCRIPTION_COLUMNS)
+    .eq('user_id', userId)
+    .eq('creator_id', creatorId);
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load subscriptions', { details: error.message }, 500);
+  }
+
+  return ((data ?? []) as SubscriptionRow[]).find((row) => isSubscriptionActive(row)) ?? null;
+}
+
+export async function findCreatorPlan(supabase: any, creatorId: string): Promise<CreatorSubscriptionPlan | null> {
+  const { data, error } = await supabase
+    .from('creator_subscription_plans')
+    .select('creator_id,stripe_product_id,stripe_price_id,price_cents,currency,active')
+    .eq('creator_id', creatorId)
+    .maybeSingle();
+
+  if (error && error.code !== 'PGRST116') {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load subscription plan', { details: error.message }, 500);
+  }
+
+  return (data as CreatorSubscriptionPlan | null) ?? null;
+}
@@ -0,0 +1,104 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+import { ErrorCodes } from '@/lib/api/responses';
+import { isListingHidden } from '@/lib/moderation/suspension-status';
+
+export const MAX_SWAP_BUNDLE_SIZE = 10;
+
+export type SwapBundle = {
+  requested_prompt_ids: string[];
+  offered_prompt_ids: string[];
+};
+
+type BundleShape = {
+  requested_prompt_id?: string | null;
+  offered_prompt_id?: string | null;
+  requested_prompt_ids?: string[] | null;
+  offered_prompt_ids?: string[] | null;
+};
+
+function uniqueIds(ids: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(ids.filter(Boolean) as string[]));
+}
+
+/**
+ * Returns the bundle for a swap row, falling back to the legacy one-for-one
+ * columns for rows created before bundles existed.
+ * - requested_prompt_ids: prompts owned by the requester
+ * - offered_prompt_ids: prompts owned by the responder
+ */
+export function getSwapBundle(swap: BundleShape): SwapBundle {
+  const requested = swap.requested_prompt_ids?.length ? swap.requested_prompt_ids : [swap.requested_prompt_id];
+  const offered = swap.offered_prompt_ids?.length ? swap.offered_prompt_ids : [swap.offered_prompt_id];
+  return {
+    requested_prompt_ids: uniqueIds(requested),
+    offered_prompt_ids: uniqueIds(offered),
+  };
+}
+
+export function isSameBundle(a: SwapBundle, b: SwapBundle): boolean {
+  const sameSet = (x: string[], y: string[]) => x.length === y.length && x.every((id) => y.includes(id));
+  return sameSet(a.requested_prompt_ids, b.requested_prompt_ids) && sameSet(a.offered_prompt_ids, b.offered_prompt_ids);
+}
+
+function bundleError(message: string, details?: any) {
+  return new AppError(ErrorCategory.VALIDATION, ErrorCodes.VALIDATION_ERROR, message, details, 400);
+}
+
+/**
+ * Verifies that every prompt in a bundle exists, is approved and belongs to the
+ * side of the swap it is listed on. Throws an AppError describing the first problem.
+ */
+export async function assertSwapBundle(
+  supabase: any,
+  params: { requesterId: string; responderId: string; bundle: SwapBundle }
+): Promise<void> {
+  const { requesterId, responderId, bundle } = params;
+  const requestedIds = uniqueIds(bundle.requested_prompt_ids);
+  const offeredIds = uniqueIds(bundle.offered_prompt_ids);
+
+  if (requesterId === responderId) {
+    throw bundleError('You cannot swap with yourself');
+  }
+
+  if (requestedIds.length === 0 || offeredIds.length === 0) {
+    throw bundleError('Both sides of a swap must include at least one prompt');
+  }
+
+  if (requestedIds.length > MAX_SWAP_BUNDLE_SIZE || offeredIds.length > MAX_SWAP_BUNDLE_SIZE) {
+    throw bundleError(`A swap bundle may contain at most ${MAX_SWAP_BUNDLE_SIZE} prompts per side`);
+  }
+
+  const allIds = [...requestedIds, ...offeredIds];
+  const { data: prompts, error } = await supabase
+    .from('prompts')
+    .select('id, user_id, status, is_public, suspended_at')
+    .in('id', allIds);
+
+  if (error) {
+    throw new AppError(ErrorCategory.EXTERNAL, ErrorCodes.DATABASE_ERROR, 'Failed to load swap prompts', { details: error.message }, 500);
+  }
+
+  const byId = new Map<string, any>((prompts ?? []).map((p: any) => [p.id, p]));
+  const missing = allIds.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw bundleError('One or more prompts do not exist', { missing });
+  }
+
+  const notApproved = allIds.filter((id) => byId.get(id).status !== 'approved');
+  if (notApproved.length > 0) {
+    throw new AppError(ErrorCategory.VALIDATION, ErrorCodes.INVALID_STATUS, 'All prompts must be approved before swaps', { notApproved }, 400);
+  }
+
+  const hidden = allIds.filter((id) => isListingHidden(byId.get(id)));
+  if (hidden.length > 0) {
+    throw new AppError(ErrorCategory.VALIDATION, ErrorCodes.INVALID_STATUS, 'Prompts off the marketplace cannot be swapped', { hidden }, 400);
+  }
+
+  if (requestedIds.some((id) => byId.get(id).user_id !== requesterId)) {
+    throw bundleError('You can only request your own prompts for swaps');
+  }
+
+  if (offeredIds.some((id) => byId.get(id).user_id !== responderId)) {
+    throw bundleError('The responder ID does not match the owner of every offered prompt');
+  }
+}
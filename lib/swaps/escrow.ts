@@ -0,0 +1,57 @@
+import { fulfillmentIdempotencyKey, SwapFulfillmentResult, SwapPromptCopy, toSwapRpcError } from './fulfillment';
+
+const DEFAULT_SWAP_ESCROW_HOURS = 72;
+const configuredEscrowHours = Number(process.env.SWAP_ESCROW_HOURS);
+export const SWAP_ESCROW_HOURS =
+  Number.isFinite(configuredEscrowHours) && configuredEscrowHours > 0 ? configuredEscrowHours : DEFAULT_SWAP_ESCROW_HOURS;
+
+// Escrow swaps that are still waiting for deposits; these expire once their deadline passes
+export const ESCROW_OPEN_STATUSES = ['accepted', 'escrow_partial'];
+
+export type EscrowDepositResult = {
+  status: string;
+  released: boolean;
+  fulfillment?: SwapFulfillmentResult;
+};
+
+/**
+ * Deadline for both parties to deposit, counted from when the swap is accepted.
+ */
+export function escrowDeadlineFrom(acceptedAt: Date = new Date()): string {
+  return new Date(acceptedAt.getTime() + SWAP_ESCROW_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+export function isEscrowExpired(swap: { escrow_deadline?: string | null }, now: Date = new Date()): boolean {
+  return Boolean(swap.escrow_deadline) && new Date(swap.escrow_deadline as string).getTime() < now.getTime();
+}
+
+/**
+ * Records the actor's deposit via the `deposit_swap_escrow` Postgres function. The second
+ * deposit releases both bundles in the same transaction, using the fulfillment idempotency key.
+ */
+export async function depositSwapEscrow(
+  supabase: any,
+  swapId: string,
+  actorId: string | null,
+  requestId: string
+): Promise<EscrowDepositResult> {
+  const { data, error } = await supabase.rpc('deposit_swap_escrow', {
+    p_swap_id: swapId,
+    p_actor_id: actorId,
+    p_idempotency_key: fulfillmentIdempotencyKey(swapId),
+    p_request_id: requestId,
+  });
+
+  if (error) {
+    throw toSwapRpcError(error, swapId, 'Failed to deposit into escrow');
+  }
+
+  const released = Boolean(data?.released);
+  return {
+    status: data?.status ?? 'escrow_partial',
+    released,
+    fulfillment: released
+      ? { replayed: Boolean(data?.replayed), copies: (data?.copies ?? []) as SwapPromptCopy[] }
+      : undefined,
+  };
+}
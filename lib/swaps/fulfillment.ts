@@ -0,0 +1,97 @@
+import { AppError, ErrorCategory } from '@/lib/errors';
+
+export type SwapPromptCopy = {
+  source_prompt_id: string;
+  copied_prompt_id: string;
+  recipient_id: string;
+};
+
+export type SwapFulfillmentResult = {
+  replayed: boolean;
+  copies: SwapPromptCopy[];
+};
+
+/**
+ * Fulfillment is idempotent per swap: every retry of the same swap uses the same key,
+ * so the database function returns the original copies instead of creating new ones.
+ */
+export function fulfillmentIdempotencyKey(swapId: string): string {
+  return `swap-fulfill:${swapId}`;
+}
+
+/**
+ * Maps errors raised by the swap database functions onto AppErrors.
+ */
+export function toSwapRpcError(
+  error: { code?: string; message?: string },
+  swapId: string,
+  fallbackMessage = 'Failed to fulfill swap'
+): AppError {
+  switch (error.code) {
+    case 'P0002':
+      return new AppError(ErrorCategory.RESOURCE, 'SWAP_NOT_FOUND', error.message || 'Swap not found', { swapId }, 404);
+    case '42501':
+      return new AppError(ErrorCategory.AUTH, 'FORBIDDEN', 'Only participants may perform this action', {}, 403);
+    case '55000':
+      return new AppError(ErrorCategory.BUSINESS, 'INVALID_TRANSITION', error.message || 'Cannot fulfill swap', { swapId }, 409);
+    case '23505':
+      return new AppError(ErrorCategory.BUSINESS, 'ALREADY_EXISTS', error.message || 'Swap already fulfilled', { swapId }, 409);
+    default:
+      return new AppError(
+        ErrorCategory.EXTERNAL,
+        'COPY_FAILED',
+        fallbackMessage,
+        { details: error.message },
+        500
+      );
+  }
+}
+
+/**
+ * Copies both bundles and marks the swap fulfilled in a single transaction via the
+ * `fulfill_swap` Postgres function. Either everything is written or nothing is.
+ */
+export async function fulfillSwapAtomically(
+  supabase: any,
+  swapId: string,
+  actorId: string | null,
+  requestId: string
+): Promise<SwapFulfillmentResult> {
+  const { data, error } = await supabase.rpc('fulfill_swap', {
+    p_swap_id: swapId,
+    p_actor_id: actorId,
+    p_idempotency_key: fulfillmentIdempotencyKey(swapId),
+    p_request_id: requestId,
+  });
+
+  if (error) {
+    throw toSwapRpcError(error, swapId);
+  }
+
+  return {
+    replayed: Boolean(data?.replayed),
+    copies: (data?.copies ?? []) as SwapPromptCopy[],
+  };
+}
+
+/**
+ * Archives every prompt copy created by a swap's fulfillment. Returns the number of copies archived.
+ */
+export async function reverseSwapFulfillment(
+  supabase: any,
+  swapId: string,
+  adminId: string,
+  reason?: string | null
+): Promise<number> {
+  const { data, error } = await supabase.rpc('reverse_swap_fulfillment', {
+    p_swap_id: swapId,
+    p_admin_id: adminId,
+    p_reason: reason ?? null,
+  });
+
+  if (error) {
+    throw toSwapRpcError(error, swapId);
+  }
+
+  return Number(data ?? 0);
+}
@@ -6,8 +6,9 @@ const SWAP_URL = '/swaps';
 export async function emitSwapNotifications(
   supabase: any,
   action: SwapAction,
-  swap: { requester_id: string; responder_id: string },
-  requestId: string
+  swap: { requester_id: string; responder_id: string; escrow?: boolean | null; status?: string },
+  requestId: string,
+  opts?: { actorId?: string | null }
 ) {
   try {
     if (action === 'accept') {
@@ -15,7 +16,19 @@ export async function emitSwapNotifications(
         userId: swap.requester_id,
         type: 'swap.accepted',
         title: 'Swap accepted',
-        body: 'Your swap request was accepted.',
+        body: swap.escrow
+          ? 'Your swap request was accepted. Deposit your prompts before the escrow deadline.'
+          : 'Your swap request was accepted.',
+        url: SWAP_URL,
+        requestId,
+      });
+    } else if (action === 'deposit') {
+      const counterpartId = opts?.actorId === swap.requester_id ? swap.responder_id : swap.requester_id;
+      await createNotification(supabase, {
+        userId: counterpartId,
+        type: 'swap.deposited',
+        title: 'Swap deposit received',
+        body: 'Your swap partner deposited their prompts into escrow. Deposit yours to release the swap.',
         url: SWAP_URL,
         requestId,
       });
@@ -28,6 +41,15 @@ export async function emitSwapNotifications(
         url: SWAP_URL,
         requestId,
       });
+    } else if (action === 'counter') {
+      await createNotification(supabase, {
+        userId: swap.requester_id,
+        type: 'swap.countered',
+        title: 'Swap counter-offer',
+        body: 'Your swap request received a counter-offer with a different bundle.',
+        url: SWAP_URL,
+        requestId,
+      });
     } else if (action === 'fulfill') {
       await notifyMany(
         supabase,
@@ -40,6 +62,16 @@ export async function emitSwapNotifications(
           requestId,
         }
       );
+    } else if (action === 'void') {
+      const counterpartId = opts?.actorId === swap.requester_id ? swap.responder_id : swap.requester_id;
+      await createNotification(supabase, {
+        userId: counterpartId,
+        type: 'swap.cancelled',
+        title: 'Swap cancelled',
+        body: "Your swap was cancelled because the other member's account was suspended. No prompts were released.",
+        url: SWAP_URL,
+        requestId,
+      });
     } else if (action === 'expire') {
       await notifyMany(
         supabase,
@@ -47,7 +79,10 @@ export async function emitSwapNotifications(
         {
           type: 'swap.expired',
           title: 'Swap expired',
-          body: 'This swap request expired. Start a new swap if you still want to trade.',
+          body:
+            swap.escrow && swap.status !== 'requested'
+              ? 'The escrow deadline passed before both deposits were made. No prompts were released.'
+              : 'This swap request expired. Start a new swap if you still want to trade.',
           url: SWAP_URL,
           requestId,
         }
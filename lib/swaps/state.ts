@@ -1,5 +1,8 @@
 import { AppError, ErrorCategory } from '@/lib/errors';
 import { logger } from '@/lib/logging';
+import { assertSwapBundle, getSwapBundle, isSameBundle, SwapBundle } from './bundles';
+import { fulfillSwapAtomically, SwapFulfillmentResult } from './fulfillment';
+import { depositSwapEscrow, ESCROW_OPEN_STATUSES, escrowDeadlineFrom, isEscrowExpired } from './escrow';
 
 export type SwapRecord = {
   id: string;
@@ -7,19 +10,44 @@ export type SwapRecord = {
   responder_id: string;
   requested_prompt_id: string;
   offered_prompt_id: string;
+  requested_prompt_ids?: string[] | null;
+  offered_prompt_ids?: string[] | null;
+  parent_swap_id?: string | null;
+  escrow?: boolean | null;
+  escrow_deadline?: string | null;
+  requester_deposited_at?: string | null;
+  responder_deposited_at?: string | null;
   status: string;
 };
 
-export type SwapAction = 'accept' | 'decline' | 'cancel' | 'fulfill' | 'expire';
+export type SwapAction = 'accept' | 'decline' | 'counter' | 'cancel' | 'deposit' | 'fulfill' | 'expire' | 'void';
 
-const ALLOWED_STATUSES = ['requested', 'accepted', 'declined', 'fulfilled', 'cancelled', 'expired'] as const;
+const ALLOWED_STATUSES = [
+  'requested',
+  'accepted',
+  'declined',
+  'countered',
+  'escrow_partial',
+  'escrow_held',
+  'fulfilled',
+  'cancelled',
+  'expired',
+] as const;
+
+const SWAP_COLUMNS =
+  'id,requester_id,responder_id,requested_prompt_id,offered_prompt_id,requested_prompt_ids,offered_prompt_ids,parent_swap_id,' +
+  'escrow,escrow_deadline,requester_deposited_at,responder_deposited_at,status';
 
 const transitionMap: Record<SwapAction, { from: string[]; to: string; actor: 'requester' | 'responder' | 'either' | 'system' }> = {
   accept: { from: ['requested'], to: 'accepted', actor: 'responder' },
   decline: { from: ['requested'], to: 'declined', actor: 'responder' },
+  counter: { from: ['requested'], to: 'countered', actor: 'responder' },
   cancel: { from: ['requested'], to: 'cancelled', actor: 'requester' },
+  deposit: { from: ESCROW_OPEN_STATUSES, to: 'escrow_partial', actor: 'either' },
   fulfill: { from: ['accepted'], to: 'fulfilled', actor: 'either' },
-  expire: { from: ['requested'], to: 'expired', actor: 'system' },
+  expire: { from: ['requested', ...ESCROW_OPEN_STATUSES], to: 'expired', actor: 'system' },
+  // Swaps still open when a participant is suspended; nothing has been released yet
+  void: { from: ['requested', ...ESCROW_OPEN_STATUSES], to: 'cancelled', actor: 'system' },
 };
 
 function actorRole(swap: SwapRecord, actorId: string | null) {
@@ -35,8 +63,8 @@ export async function transitionSwap(
   actorId: string | null,
   action: SwapAction,
   requestId: string,
-  opts?: { fulfillHandler?: (swap: SwapRecord) => Promise<void> }
-): Promise<{ status: string; swap: SwapRecord }> {
+  opts?: { counterOffer?: SwapBundle }
+): Promise<{ status: string; swap: SwapRecord; counterSwap?: SwapRecord; fulfillment?: SwapFulfillmentResult }> {
   const meta = transitionMap[action];
   if (!meta) {
     throw new AppError(ErrorCategory.VALIDATION, 'INVALID_ACTION', 'Unsupported swap action', { action }, 400);
@@ -44,7 +72,7 @@ export async function transitionSwap(
 
   const { data: swap, error: fetchError } = await supabase
     .from('swaps')
-    .select('id,requester_id,responder_id,requested_prompt_id,offered_prompt_id,status')
+    .select(SWAP_COLUMNS)
     .eq('id', swapId)
     .maybeSingle();
 
@@ -66,7 +94,9 @@ export async function transitionSwap(
     throw new AppError(ErrorCategory.AUTH, 'FORBIDDEN', 'System-only action', {}, 403);
   }
 
-  if (!meta.from.includes(swap.status)) {
+  // A retried fulfill is allowed through so the database can replay the original result
+  const isFulfillRetry = action === 'fulfill' && swap.status === meta.to;
+  if (!meta.from.includes(swap.status) && !isFulfillRetry) {
     throw new AppError(
       ErrorCategory.BUSINESS,
       'INVALID_TRANSITION',
@@ -76,9 +106,42 @@ export async function transitionSwap(
     );
   }
 
+  assertEscrowRules(swap, action);
+
+  if (action === 'counter') {
+    await assertCounterOffer(supabase, swap, opts?.counterOffer);
+  }
+
+  if (action === 'deposit') {
+    // Deposit snapshots, status changes and the final release happen in one database call
+    const deposit = await depositSwapEscrow(supabase, swapId, actorId, requestId);
+    logger.info(
+      'Swap transition',
+      { requestId, swapId, action, from: swap.status, to: deposit.status, actorId, released: deposit.released },
+      'SWAP_TRANSITION'
+    );
+    return { status: deposit.status, swap, fulfillment: deposit.fulfillment };
+  }
+
+  if (action === 'fulfill') {
+    // Copies and the status change are written together by the database function
+    const fulfillment = await fulfillSwapAtomically(supabase, swapId, actorId, requestId);
+    logger.info(
+      'Swap transition',
+      { requestId, swapId, action, from: swap.status, to: meta.to, actorId, replayed: fulfillment.replayed, copies: fulfillment.copies.length },
+      'SWAP_TRANSITION'
+    );
+    return { status: meta.to, swap, fulfillment };
+  }
+
+  const updates: Record<string, unknown> = { status: meta.to };
+  if (action === 'accept' && swap.escrow) {
+    updates.escrow_deadline = escrowDeadlineFrom();
+  }
+
   const { error: updateError } = await supabase
     .from('swaps')
-    .update({ status: meta.to })
+    .update(updates)
     .eq('id', swapId);
 
   if (updateError) {
@@ -91,13 +154,104 @@ export async function transitionSwap(
     );
   }
 
-  if (meta.to === 'fulfilled' && opts?.fulfillHandler) {
-    await opts.fulfillHandler(swap);
+  let counterSwap: SwapRecord | undefined;
+  if (action === 'counter') {
+    counterSwap = await insertCounterSwap(supabase, swap, opts!.counterOffer!);
   }
 
-  logger.info('Swap transition', { requestId, swapId, action, from: swap.status, to: meta.to, actorId }, 'SWAP_TRANSITION');
+  logger.info(
+    'Swap transition',
+    { requestId, swapId, action, from: swap.status, to: meta.to, actorId, counterSwapId: counterSwap?.id },
+    'SWAP_TRANSITION'
+  );
+
+  return { status: meta.to, swap, counterSwap };
+}
+
+/**
+ * Escrow swaps are released by deposits rather than fulfill, and only expire after
+ * acceptance once their deposit deadline has passed.
+ */
+function assertEscrowRules(swap: SwapRecord, action: SwapAction) {
+  const invalid = (message: string) =>
+    new AppError(ErrorCategory.BUSINESS, 'INVALID_TRANSITION', message, { from: swap.status, action }, 409);
+
+  if (action === 'deposit' && !swap.escrow) {
+    throw invalid('Only escrow swaps accept deposits');
+  }
+  if (action === 'deposit' && isEscrowExpired(swap)) {
+    throw invalid('Escrow deadline has passed');
+  }
+  if (action === 'fulfill' && swap.escrow) {
+    throw invalid('Escrow swaps are released automatically once both parties deposit');
+  }
+  if (action === 'expire' && swap.status !== 'requested' && !(swap.escrow && isEscrowExpired(swap))) {
+    throw invalid(`Cannot expire from status ${swap.status} before the escrow deadline`);
+  }
+}
+
+/**
+ * A counter-offer is proposed by the responder, so the bundle is expressed from
+ * their side: requested_prompt_ids are the responder's own prompts and
+ * offered_prompt_ids are the prompts they want from the original requester.
+ */
+async function assertCounterOffer(supabase: any, swap: SwapRecord, counterOffer?: SwapBundle) {
+  if (!counterOffer) {
+    throw new AppError(ErrorCategory.VALIDATION, 'VALIDATION_ERROR', 'Counter-offer bundle is required', {}, 400);
+  }
+
+  const current = getSwapBundle(swap);
+  const currentFromResponder = {
+    requested_prompt_ids: current.offered_prompt_ids,
+    offered_prompt_ids: current.requested_prompt_ids,
+  };
+  if (isSameBundle(getSwapBundle(counterOffer), currentFromResponder)) {
+    throw new AppError(
+      ErrorCategory.VALIDATION,
+      'VALIDATION_ERROR',
+      'Counter-offer must change the bundle; accept the swap instead',
+      {},
+      400
+    );
+  }
+
+  await assertSwapBundle(supabase, {
+    requesterId: swap.responder_id,
+    responderId: swap.requester_id,
+    bundle: counterOffer,
+  });
+}
+
+async function insertCounterSwap(supabase: any, swap: SwapRecord, counterOffer: SwapBundle): Promise<SwapRecord> {
+  const bundle = getSwapBundle(counterOffer);
+  const row: SwapRecord & { created_at: string } = {
+    id: crypto.randomUUID(),
+    requester_id: swap.responder_id,
+    responder_id: swap.requester_id,
+    requested_prompt_id: bundle.requested_prompt_ids[0],
+    offered_prompt_id: bundle.offered_prompt_ids[0],
+    requested_prompt_ids: bundle.requested_prompt_ids,
+    offered_prompt_ids: bundle.offered_prompt_ids,
+    parent_swap_id: swap.id,
+    escrow: swap.escrow ?? false,
+    status: 'requested',
+    created_at: new Date().toISOString(),
+  };
+
+  const { error: insertError } = await supabase.from('swaps').insert(row);
+  if (insertError) {
+    // Put the original swap back so the negotiation is not left dangling.
+    await supabase.from('swaps').update({ status: swap.status }).eq('id', swap.id);
+    throw new AppError(
+      ErrorCategory.EXTERNAL,
+      'DATABASE_ERROR',
+      'Failed to create counter-offer',
+      { details: insertError.message },
+      500
+    );
+  }
 
-  return { status: meta.to, swap };
+  return row;
 }
 
 export function isSwapStatus(value: string): boolean {
@@ -10,19 +10,28 @@ export interface SystemEventRecord {
   context?: string;
 }
 
+/**
+ * Inserts a system event and returns its id, or null when the event could not be recorded.
+ */
 export async function recordSystemEvent(
   supabase: any,
   event: SystemEventRecord
-) {
+): Promise<string | null> {
   try {
-    await supabase.from('system_events').insert({
-      request_id: event.requestId,
-      type: event.type,
-      payload_summary: event.payloadSummary ?? null,
-      error_message: event.errorMessage,
-      context: event.context ?? null,
-    });
+    const { data } = await supabase
+      .from('system_events')
+      .insert({
+        request_id: event.requestId,
+        type: event.type,
+        payload_summary: event.payloadSummary ?? null,
+        error_message: event.errorMessage,
+        context: event.context ?? null,
+      })
+      .select('id')
+      .maybeSingle();
+    return data?.id ?? null;
   } catch (error) {
     logger.error('Failed to record system event', { eventType: event.type, requestId: event.requestId }, error as Error, 'SYSTEM_EVENT_LOG_FAILED');
+    return null;
   }
 }
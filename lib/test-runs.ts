@@ -0,0 +1,161 @@
+import { logger } from '@/lib/logging';
+import { canDownloadPurchase } from '@/lib/purchases';
+import { findActiveSubscription, SubscriptionRow } from '@/lib/subscriptions';
+import type { PromptVariableValue } from '@/lib/prompt-variables';
+import type { AssertionResult } from '@/lib/evals';
+import type { LlmStreamOutcome } from '@/lib/llm/stream-response';
+import type { LlmProviderId, LlmRequest } from '@/lib/llm/types';
+
+const TEST_RUN_LABEL = 'TEST_RUNS';
+
+export type TestRunStatus = 'completed' | 'failed' | 'cancelled';
+
+export const TEST_RUN_COLUMNS =
+  'id,prompt_id,user_id,input_data,output_data,model_used,provider,status,latency_ms,input_tokens,output_tokens,error_message,comparison_id,is_public,eval_run_id,eval_case_id,assertion_results,created_at';
+
+export const TEST_RUN_HISTORY_LIMIT = 20;
+export const MAX_COMPARISON_MODELS = 4;
+const TEST_RUN_MAX_TOKENS = 256;
+const TEST_RUN_TEMPERATURE = 0.7;
+
+export type TestRunRow = {
+  id: string;
+  prompt_id: string;
+  user_id: string;
+  input_data: { variables: Record<string, PromptVariableValue>; max_tokens: number; temperature: number } | null;
+  output_data: { text: string; stop_reason: string | null } | null;
+  model_used: string;
+  provider: LlmProviderId | null;
+  status: TestRunStatus;
+  latency_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  error_message: string | null;
+  comparison_id: string | null;
+  is_public: boolean;
+  eval_run_id: string | null;
+  eval_case_id: string | null;
+  assertion_results: AssertionResult[] | null;
+  created_at: string;
+};
+
+export type TestablePrompt = {
+  id: string;
+  user_id: string | null;
+  prompt_text: string | null;
+  price: number | string | null;
+  status: string | null;
+};
+
+/**
+ * Loads a prompt the user may run in the tester: their own, a free one, or one they bought or
+ * can use through a creator subscription. Returns the HTTP status to answer with otherwise.
+ */
+export async function loadTestablePrompt(
+  supabase: any,
+  userId: string,
+  promptId: string
+): Promise<{ prompt: TestablePrompt } | { error: string; status: number }> {
+  const { data: prompt, error } = await supabase
+    .from('prompts')
+    .select('id, user_id, prompt_text, price, status')
+    .eq('id', promptId)
+    .maybeSingle();
+
+  if ((error && error.code !== 'PGRST116') || !prompt) {
+    return { error: 'Prompt not found.', status: 404 };
+  }
+
+  const isFree = !prompt.price || Number(prompt.price) <= 0;
+  if (prompt.user_id !== userId && !isFree) {
+    const { data: purchase } = await supabase
+      .from('purchases')
+      .select('id,status')
+      .eq('buyer_id', userId)
+      .eq('prompt_id', prompt.id)
+      .maybeSingle();
+
+    let subscription: SubscriptionRow | null = null;
+    if (!canDownloadPurchase(purchase) && prompt.status === 'approved' && prompt.user_id) {
+      subscription = await findActiveSubscription(supabase, userId, prompt.user_id);
+    }
+
+    if (!canDownloadPurchase(purchase, subscription)) {
+      return { error: 'Purchase this prompt to test it.', status: 403 };
+    }
+  }
+
+  return { prompt };
+}
+
+// Every tester run uses the same settings so runs against different models are comparable
+export function buildTestRequest(model: string, renderedPrompt: string): LlmRequest {
+  return {
+    model,
+    messages: [{ role: 'user', content: renderedPrompt || 'Test the prompt with given input.' }],
+    temperature: TEST_RUN_TEMPERATURE,
+    maxTokens: TEST_RUN_MAX_TOKENS,
+  };
+}
+
+export type TestRunRecord = {
+  promptId: string;
+  userId: string;
+  model: string;
+  provider: LlmProviderId;
+  variables: Record<string, PromptVariableValue>;
+  startedAt: number;
+  comparisonId?: string | null;
+  // Set when the run is one case of an evaluation suite run
+  evalRunId?: string | null;
+  evalCaseId?: string | null;
+  assertionResults?: AssertionResult[] | null;
+} & LlmStreamOutcome;
+
+/**
+ * Writes one tester run. The API key is never part of the record. Failing to record is logged
+ * but does not fail the test itself.
+ */
+export async function recordTestRun(supabase: any, run: TestRunRecord): Promise<TestRunRow | null> {
+  const response = run.status === 'complete' ? run.response : null;
+  const status: TestRunStatus = run.status === 'complete' ? 'completed' : run.status;
+  const errorMessage =
+    run.status === 'failed' ? (run.error instanceof Error ? run.error.message : 'Model request failed.') : null;
+
+  const { data, error } = await supabase
+    .from('test_runs')
+    .insert({
+      prompt_id: run.promptId,
+      user_id: run.userId,
+      input_data: { variables: run.variables, max_tokens: TEST_RUN_MAX_TOKENS, temperature: TEST_RUN_TEMPERATURE },
+      output_data: {
+        text: response?.text ?? run.text,
+        stop_reason: response?.stopReason ?? null,
+      },
+      model_used: response?.model ?? run.model,
+      provider: run.provider,
+      status,
+      latency_ms: Math.max(0, Math.round(Date.now() - run.startedAt)),
+      input_tokens: response?.usage.inputTokens ?? null,
+      output_tokens: response?.usage.outputTokens ?? null,
+      error_message: errorMessage,
+      comparison_id: run.comparisonId ?? null,
+      eval_run_id: run.evalRunId ?? null,
+      eval_case_id: run.evalCaseId ?? null,
+      assertion_results: run.assertionResults ?? null,
+    })
+    .select(TEST_RUN_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error(
+      'Failed to record test run',
+      { promptId: run.promptId, userId: run.userId, status },
+      error as Error,
+      TEST_RUN_LABEL
+    );
+    return null;
+  }
+
+  return data as TestRunRow;
+}
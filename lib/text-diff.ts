@@ -0,0 +1,89 @@
+export type DiffSegment = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// Above this many cells the LCS table gets too big for the browser; show a plain replacement
+const MAX_DIFF_CELLS = 250_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+// Longest-common-subsequence diff of two token lists; the tokens must rebuild their texts when joined
+function diffTokens(a: string[], b: string[], before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) segments.push({ type: 'removed', text: before });
+    if (after) segments.push({ type: 'added', text: after });
+    return segments;
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
+
+/**
+ * Word-level diff of two outputs via longest common subsequence. `removed` text is only in
+ * `before`, `added` text only in `after`; whitespace is kept so the segments rebuild both texts.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  return diffTokens(tokenize(before), tokenize(after), before, after);
+}
+
+export type DiffLine = {
+  type: DiffSegment['type'];
+  text: string;
+};
+
+// Each line keeps its newline so the tokens rebuild the text; a missing final newline still matches
+function splitLines(text: string): string[] {
+  return (text.match(/[^\n]*\n|[^\n]+$/g) ?? []).map((line) => (line.endsWith('\n') ? line : `${line}\n`));
+}
+
+/**
+ * Line-level diff of two prompt versions, one entry per line (without its newline), for a
+ * unified view where removed lines come before the lines that replaced them.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const lines: DiffLine[] = [];
+  for (const segment of diffTokens(splitLines(before), splitLines(after), before, after)) {
+    for (const line of splitLines(segment.text)) {
+      lines.push({ type: segment.type, text: line.slice(0, -1) });
+    }
+  }
+  return lines;
+}
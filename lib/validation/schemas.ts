@@ -1,4 +1,9 @@
 import { z } from 'zod';
+import { MAX_SWAP_BUNDLE_SIZE } from '@/lib/swaps/bundles';
+import { LLM_PROVIDER_IDS } from '@/lib/llm/types';
+import { MAX_COMPARISON_MODELS } from '@/lib/test-runs';
+import { MAX_EVAL_ASSERTIONS, MAX_EVAL_CASES } from '@/lib/evals';
+import { REPORT_REASONS, REPORT_RESOLUTIONS, REPORT_TARGET_TYPES } from '@/lib/moderation/report-reasons';
 
 // Prompt validation schemas
 export const createPromptSchema = z.object({
@@ -13,6 +18,18 @@ export const createPromptSchema = z.object({
   status: z.enum(['draft', 'submitted']).optional().default('submitted'),
 });
 
+// Prompt versions: each change to prompt_text is saved as a new version with an optional changelog note
+const versionNotesSchema = z.string().trim().max(500, 'Changelog note too long').optional().nullable();
+
+export const promptVersionCreateSchema = z.object({
+  prompt_text: z.string().min(1, 'Prompt text is required').max(10000, 'Prompt text too long'),
+  notes: versionNotesSchema,
+});
+
+export const promptVersionRollbackSchema = z.object({
+  notes: versionNotesSchema,
+});
+
 export const ratePromptSchema = z.object({
   rating: z.number().min(1, 'Rating must be at least 1').max(5, 'Rating cannot exceed 5'),
   comment: z.string().max(500, 'Comment too long').optional().nullable(),
@@ -32,10 +49,43 @@ export const purchaseSchema = z.object({
 
 
 // Swap validation schemas
-export const createSwapSchema = z.object({
-  requested_prompt_id: z.string().uuid('Invalid requested prompt ID'),
-  offered_prompt_id: z.string().uuid('Invalid offered prompt ID'),
-  responder_id: z.string().uuid('Invalid responder ID'),
+const swapBundleIdsSchema = (side: 'requested' | 'offered') =>
+  z
+    .array(z.string().uuid(`Invalid ${side} prompt ID`))
+    .min(1, `At least one ${side} prompt is required`)
+    .max(MAX_SWAP_BUNDLE_SIZE, `At most ${MAX_SWAP_BUNDLE_SIZE} ${side} prompts per swap`)
+    .transform((ids) => Array.from(new Set(ids)));
+
+// Accepts bundles, or the legacy single prompt ids which are treated as one-prompt bundles
+export const createSwapSchema = z
+  .object({
+    requested_prompt_id: z.string().uuid('Invalid requested prompt ID').optional(),
+    offered_prompt_id: z.string().uuid('Invalid offered prompt ID').optional(),
+    requested_prompt_ids: swapBundleIdsSchema('requested').optional(),
+    offered_prompt_ids: swapBundleIdsSchema('offered').optional(),
+    responder_id: z.string().uuid('Invalid responder ID'),
+    escrow: z.boolean().optional().default(false),
+  })
+  .refine((data) => data.requested_prompt_ids || data.requested_prompt_id, {
+    message: 'At least one requested prompt is required',
+    path: ['requested_prompt_ids'],
+  })
+  .refine((data) => data.offered_prompt_ids || data.offered_prompt_id, {
+    message: 'At least one offered prompt is required',
+    path: ['offered_prompt_ids'],
+  })
+  .transform((data) => ({
+    responder_id: data.responder_id,
+    escrow: data.escrow,
+    requested_prompt_ids: data.requested_prompt_ids ?? [data.requested_prompt_id as string],
+    offered_prompt_ids: data.offered_prompt_ids ?? [data.offered_prompt_id as string],
+  }));
+
+// Counter-offers are expressed from the counter-proposer's side:
+// requested_prompt_ids are their own prompts, offered_prompt_ids are the ones they want.
+export const counterSwapSchema = z.object({
+  requested_prompt_ids: swapBundleIdsSchema('requested'),
+  offered_prompt_ids: swapBundleIdsSchema('offered'),
 });
 
 export const updateSwapStatusSchema = z.object({
@@ -43,7 +93,7 @@ export const updateSwapStatusSchema = z.object({
 });
 
 export const swapActionSchema = z.object({
-  action: z.enum(['accept', 'decline', 'cancel', 'fulfill']),
+  action: z.enum(['accept', 'decline', 'counter', 'cancel', 'fulfill']),
 });
 
 // Admin moderation validation schemas
@@ -60,16 +110,54 @@ export const banUserSchema = z.object({
 
 // Combined admin moderation schema
 export const adminModerationSchema = z.object({
-  action: z.enum(['approve', 'reject', 'archive', 'ban']),
+  action: z.enum(['claim', 'assign', 'release', 'approve', 'reject', 'archive', 'ban']),
   promptId: z.string().uuid('Invalid prompt ID').optional(),
   userId: z.string().uuid('Invalid user ID').optional(),
+  // The reviewer an admin hands the prompt to with `assign`
+  reviewerId: z.string().uuid('Invalid reviewer ID').optional(),
   reason: z.string().max(500, 'Reason too long').optional(),
 });
 
-// Swap action schema for swap updates
-export const swapActionSchema = z.object({
-  action: z.enum(['accept', 'reject']),
-  swap_id: z.string().uuid('Invalid swap ID'),
+// Admin suspension of a user; omitting days bans them permanently
+export const adminSuspensionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('suspend'),
+    userId: z.string().uuid('Invalid user ID'),
+    reason: z.string().trim().min(1, 'A reason is required').max(500, 'Reason too long'),
+    days: z.number().int().min(1).max(365).optional().nullable(),
+  }),
+  z.object({
+    action: z.literal('lift'),
+    userId: z.string().uuid('Invalid user ID'),
+    reason: z.string().trim().min(1, 'A reason is required').max(500, 'Reason too long'),
+  }),
+]);
+
+// User report of a prompt, comment or review
+export const contentReportSchema = z.object({
+  targetType: z.enum(REPORT_TARGET_TYPES),
+  targetId: z.string().uuid('Invalid content ID'),
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().max(1000, 'Details too long').optional().nullable(),
+});
+
+// Admin triage of reported content and takedown appeals
+export const adminReportActionSchema = z.object({
+  action: z.enum([...REPORT_RESOLUTIONS, 'grant_appeal', 'deny_appeal']),
+  targetType: z.enum(REPORT_TARGET_TYPES).optional(),
+  targetId: z.string().uuid('Invalid content ID').optional(),
+  appealId: z.string().uuid('Invalid appeal ID').optional(),
+  note: z.string().max(500, 'Note too long').optional(),
+});
+
+// Creator appeal against the removal of their prompt
+export const promptAppealSchema = z.object({
+  message: z.string().trim().min(10, 'Explain why the prompt should be reinstated').max(2000, 'Appeal too long'),
+});
+
+// Admin reversal of a swap fulfillment
+export const adminSwapReversalSchema = z.object({
+  reason: z.string().max(500, 'Reason too long').optional(),
 });
 
 // Creator enable validation schema
@@ -79,14 +167,195 @@ export const enableCreatorSchema = z.object({
 
 // Stripe validation schemas
 
+const couponCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]{3,32}$/, 'Coupon codes are 3-32 letters, digits, dashes or underscores');
+
+// Price and title come from the prompts row, never from the client
 export const createCheckoutSessionSchema = z.object({
   prompt_id: z.string().uuid('Invalid prompt ID'),
-  title: z.string().min(1, 'Title is required'),
-  price: z.number().positive('Price must be positive'), // in cents
+  coupon_code: couponCodeSchema.optional(),
   success_url: z.string().url('Invalid success URL').optional(),
   cancel_url: z.string().url('Invalid cancel URL').optional(),
 });
 
+// Coupon validation schemas
+export const createCouponSchema = z
+  .object({
+    code: couponCodeSchema,
+    discount_type: z.enum(['percent', 'fixed']),
+    discount_value: z.number().int('Discount must be a whole number').positive('Discount must be positive'), // percent or cents
+    prompt_id: z.string().uuid('Invalid prompt ID').nullable().optional(),
+    expires_at: z.string().datetime('Invalid expiry date').nullable().optional(),
+    max_redemptions: z.number().int().positive('Max redemptions must be positive').nullable().optional(),
+  })
+  .refine((data) => data.discount_type !== 'percent' || data.discount_value <= 100, {
+    message: 'Percentage discounts cannot exceed 100',
+    path: ['discount_value'],
+  });
+
+export const updateCouponSchema = z.object({
+  active: z.boolean().optional(),
+  expires_at: z.string().datetime('Invalid expiry date').nullable().optional(),
+  max_redemptions: z.number().int().positive('Max redemptions must be positive').nullable().optional(),
+});
+
+// Creator subscription validation schemas
+export const subscriptionPlanSchema = z.object({
+  price_cents: z.number().int('Price must be in whole cents').min(100, 'Price must be at least $1.00').max(100000, 'Price cannot exceed $1,000.00'),
+});
+
+export const subscriptionCheckoutSchema = z.object({
+  creator_id: z.string().uuid('Invalid creator ID'),
+  success_url: z.string().url('Invalid success URL').optional(),
+  cancel_url: z.string().url('Invalid cancel URL').optional(),
+});
+
+// Platform fee rule validation schemas (admin); a rule with a window is a promotion
+export const platformFeeRuleSchema = z
+  .object({
+    creator_id: z.string().uuid('Invalid creator ID').nullable().optional(),
+    fee_bps: z.number().int('Fee must be in whole basis points').min(0, 'Fee cannot be negative').max(10000, 'Fee cannot exceed 100%'),
+    starts_at: z.string().datetime('Invalid start date').nullable().optional(),
+    ends_at: z.string().datetime('Invalid end date').nullable().optional(),
+    note: z.string().max(200, 'Note too long').optional(),
+  })
+  .refine((data) => !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at), {
+    message: 'Promotion must end after it starts',
+    path: ['ends_at'],
+  });
+
+// Payout validation schemas
+export const payoutScheduleSchema = z.object({
+  interval: z.enum(['weekly', 'monthly']),
+  minimum_cents: z.number().int('Minimum must be in whole cents').min(100, 'Minimum must be at least $1.00').max(1000000, 'Minimum cannot exceed $10,000.00'),
+});
+
+// Prompt tester schemas
+export const promptTestComparisonSchema = z.object({
+  targets: z
+    .array(
+      z.object({
+        model: z.string().trim().min(1, 'Model is required').max(100, 'Model name too long'),
+        provider: z.enum(LLM_PROVIDER_IDS).optional(),
+      })
+    )
+    .min(2, 'Pick at least two models to compare')
+    .max(MAX_COMPARISON_MODELS, `Compare at most ${MAX_COMPARISON_MODELS} models at once`),
+  // One key per provider, never stored
+  apiKeys: z.partialRecord(z.enum(LLM_PROVIDER_IDS), z.string().trim().max(500)).optional(),
+  // Saved keys by id, per provider; these win over pasted keys
+  apiKeyIds: z.partialRecord(z.enum(LLM_PROVIDER_IDS), z.string().uuid('Invalid API key id')).optional(),
+  variables: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const testRunVisibilitySchema = z.object({
+  is_public: z.boolean(),
+});
+
+// Prompt evaluation suite schemas
+function isValidRegex(pattern: string, flags?: string) {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const evalAssertionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('contains'),
+    value: z.string().min(1, 'Text is required').max(500, 'Text too long'),
+    case_sensitive: z.boolean().optional(),
+  }),
+  z
+    .object({
+      type: z.literal('regex'),
+      pattern: z.string().min(1, 'Pattern is required').max(500, 'Pattern too long'),
+      flags: z.string().regex(/^[imsu]{0,4}$/, 'Flags may only use i, m, s and u').optional(),
+    })
+    .refine((assertion) => isValidRegex(assertion.pattern, assertion.flags), {
+      message: 'Invalid regular expression',
+      path: ['pattern'],
+    }),
+  z.object({
+    type: z.literal('json_schema'),
+    schema: z.record(z.string(), z.unknown()),
+  }),
+  z.object({
+    type: z.literal('max_length'),
+    value: z.number().int().min(1, 'Length must be at least 1').max(100000, 'Length too large'),
+  }),
+]);
+
+export const evalCaseSchema = z.object({
+  id: z.string().trim().min(1).max(64).optional(),
+  name: z.string().trim().min(1, 'Case name is required').max(100, 'Case name too long'),
+  variables: z.record(z.string(), z.unknown()).default({}),
+  assertions: z
+    .array(evalAssertionSchema)
+    .min(1, 'Add at least one assertion')
+    .max(MAX_EVAL_ASSERTIONS, `At most ${MAX_EVAL_ASSERTIONS} assertions per case`),
+});
+
+export const evalSuiteSchema = z.object({
+  model: z.string().trim().min(1, 'Model is required').max(100, 'Model name too long'),
+  // The mock provider always answers the same way, so it cannot earn a pass-rate badge
+  provider: z.enum(LLM_PROVIDER_IDS).exclude(['mock']).optional(),
+  cases: z
+    .array(evalCaseSchema)
+    .min(1, 'Add at least one test case')
+    .max(MAX_EVAL_CASES, `At most ${MAX_EVAL_CASES} test cases per suite`),
+});
+
+export const evalRunSchema = z.object({
+  // Used for this run only, never stored
+  apiKey: z.string().trim().max(500).optional(),
+});
+
+// Saved provider API keys
+const savedKeyProviderSchema = z.enum(LLM_PROVIDER_IDS).exclude(['mock']);
+const monthlyCapSchema = z
+  .number()
+  .int('Cap must be in whole cents')
+  .min(0, 'Cap must be non-negative')
+  .max(1_000_000, 'Cap too high')
+  .nullable();
+
+export const apiKeyCreateSchema = z.object({
+  provider: savedKeyProviderSchema,
+  label: z.string().trim().min(1, 'Label is required').max(60, 'Label too long'),
+  api_key: z.string().trim().min(8, 'API key looks too short').max(500, 'API key too long'),
+  monthly_cap_cents: monthlyCapSchema.optional(),
+});
+
+export const apiKeyUpdateSchema = z
+  .object({
+    label: z.string().trim().min(1, 'Label is required').max(60, 'Label too long').optional(),
+    monthly_cap_cents: monthlyCapSchema.optional(),
+  })
+  .refine((value) => value.label !== undefined || value.monthly_cap_cents !== undefined, {
+    message: 'Nothing to update',
+  });
+
+// Cart validation schemas
+export const cartItemSchema = z.object({
+  prompt_id: z.string().uuid('Invalid prompt ID'),
+});
+
+export const cartCheckoutSchema = z.object({
+  success_url: z.string().url('Invalid success URL').optional(),
+  cancel_url: z.string().url('Invalid cancel URL').optional(),
+});
+
+// Admin replay of a stored Stripe webhook event
+export const stripeEventReplaySchema = z.object({
+  mode: z.enum(['dry_run', 'live']).default('dry_run'),
+});
+
 export const connectStripeSchema = z.object({
   email: z.string().email('Invalid email address'),
   country: z.string().length(2, 'Country must be 2 characters').toUpperCase(),
@@ -114,20 +383,68 @@ export const adminRefundInitiateSchema = z.object({
   reason: z.string().max(500, 'Reason too long').optional(),
 });
 
+// Saved marketplace searches; filters mirror the /api/prompts/search query string
+const savedSearchNameSchema = z.string().trim().min(1, 'Name is required').max(80, 'Name too long');
+
+export const savedSearchFiltersSchema = z.object({
+  q: z.string().trim().max(200, 'Search too long').optional().nullable(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(10, 'Too many tags').optional(),
+  category: z.string().trim().min(1).max(60).optional(),
+  creator: z.string().uuid('Invalid creator ID').optional(),
+  priceMin: z.number().min(0, 'Price cannot be negative').optional(),
+  priceMax: z.number().min(0, 'Price cannot be negative').optional(),
+  minRating: z.number().min(1, 'Rating must be at least 1').max(5, 'Rating cannot exceed 5').optional(),
+});
+
+export const savedSearchCreateSchema = z.object({
+  name: savedSearchNameSchema.optional(),
+  filters: savedSearchFiltersSchema,
+  notify: z.boolean().optional(),
+});
+
+export const savedSearchUpdateSchema = z
+  .object({
+    name: savedSearchNameSchema.optional(),
+    notify: z.boolean().optional(),
+  })
+  .refine((value) => value.name !== undefined || value.notify !== undefined, {
+    message: 'Nothing to update',
+  });
+
 // Export all schemas as a union type for dynamic validation
 export const AllValidationSchemas = {
   createPrompt: createPromptSchema,
+  promptVersionCreate: promptVersionCreateSchema,
+  promptVersionRollback: promptVersionRollbackSchema,
   ratePrompt: ratePromptSchema,
   comment: commentSchema,
   purchase: purchaseSchema,
   createSwap: createSwapSchema,
+  counterSwap: counterSwapSchema,
   updateSwapStatus: updateSwapStatusSchema,
   moderatePrompt: moderatePromptSchema,
   banUser: banUserSchema,
   enableCreator: enableCreatorSchema,
   createCheckoutSession: createCheckoutSessionSchema,
+  createCoupon: createCouponSchema,
+  updateCoupon: updateCouponSchema,
+  subscriptionPlan: subscriptionPlanSchema,
+  subscriptionCheckout: subscriptionCheckoutSchema,
+  platformFeeRule: platformFeeRuleSchema,
+  payoutSchedule: payoutScheduleSchema,
+  promptTestComparison: promptTestComparisonSchema,
+  testRunVisibility: testRunVisibilitySchema,
+  evalSuite: evalSuiteSchema,
+  evalRun: evalRunSchema,
+  apiKeyCreate: apiKeyCreateSchema,
+  apiKeyUpdate: apiKeyUpdateSchema,
+  savedSearchCreate: savedSearchCreateSchema,
+  savedSearchUpdate: savedSearchUpdateSchema,
+  cartItem: cartItemSchema,
+  cartCheckout: cartCheckoutSchema,
   connectStripe: connectStripeSchema,
   adminRefundInitiate: adminRefundInitiateSchema,
+  stripeEventReplay: stripeEventReplaySchema,
 } as const;
 
 export type ValidationSchemaKey = keyof typeof AllValidationSchemas;
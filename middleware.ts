@@ -2,6 +2,15 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 
+import { createErrorResponse, ErrorCodes } from "@/lib/api/responses";
+import {
+  activeSuspension,
+  isSuspensionExempt,
+  SUSPENDED_PAGE,
+  SUSPENSION_PROFILE_COLUMNS,
+  suspensionMessage,
+} from "@/lib/moderation/suspension-status";
+
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseAnonKey =
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || process.env.SUPABASE_ANON_KEY;
@@ -16,11 +25,21 @@ function ensureSupabaseEnv() {
   }
 }
 
+const WRITE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+function bearerToken(request: NextRequest) {
+  const header = request.headers.get("authorization");
+  return header?.toLowerCase().startsWith("bearer ") ? header.slice(7).trim() || null : null;
+}
+
 export async function middleware(request: NextRequest) {
   const response = NextResponse.next();
   ensureSupabaseEnv();
 
+  // API calls from the browser may authenticate with a bearer token instead of cookies
+  const token = bearerToken(request);
   const supabase = createServerClient(supabaseUrl!, supabaseAnonKey!, {
+    global: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
     cookies: {
       get(name) {
         return request.cookies.get(name)?.value;
@@ -37,9 +56,55 @@ export async function middleware(request: NextRequest) {
     },
   });
 
-  await supabase.auth.getUser();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  let userId = user?.id ?? null;
+  if (!userId && token) {
+    const { data } = await supabase.auth.getUser(token);
+    userId = data.user?.id ?? null;
+  }
+
+  const { pathname } = request.nextUrl;
+  if (!userId || isSuspensionExempt(pathname)) {
+    return response;
+  }
+
+  // Suspended users cannot write anything (API routes and server actions) or browse the app
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select(SUSPENSION_PROFILE_COLUMNS)
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) {
+    // Routes that write check again with suspendedUserResponse, which fails closed
+    console.error("[middleware] Failed to read suspension status", error.message);
+    return response;
+  }
+
+  const suspension = activeSuspension(profile);
+  if (!suspension) {
+    return response;
+  }
+
+  let blocked: NextResponse;
+  if (WRITE_METHODS.has(request.method)) {
+    blocked = NextResponse.json(
+      createErrorResponse(ErrorCodes.ACCOUNT_SUSPENDED, suspensionMessage(suspension), {
+        permanent: suspension.permanent,
+        until: suspension.until,
+      }),
+      { status: 403 }
+    );
+  } else if (pathname.startsWith("/api/")) {
+    return response;
+  } else {
+    blocked = NextResponse.redirect(new URL(SUSPENDED_PAGE, request.url));
+  }
 
-  return response;
+  // Keep any session cookies Supabase refreshed above
+  response.cookies.getAll().forEach((cookie) => blocked.cookies.set(cookie));
+  return blocked;
 }
 
 export const config = {
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { createClient } from "@supabase/supabase-js";
+import { platformFeeCents, resolvePlatformFee } from "@/lib/platform-fees";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY ?? "", { apiVersion: "2024-04-10" });
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL ?? "";
@@ -31,17 +32,22 @@ export async function POST(req: Request) {
   if (!sellerStripeId)
     return NextResponse.json({ error: "Seller not onboarded" }, { status: 400 });
 
+  const amount = Math.round(prompt.price * 100);
+  const platformFee = await resolvePlatformFee(supabaseAdmin, prompt.user_id);
+  const feeCents = platformFeeCents(amount, platformFee.feeBps);
+
   // Create payment intent → sends funds to seller's Stripe account
   const paymentIntent = await stripe.paymentIntents.create({
-    amount: Math.round(prompt.price * 100),
+    amount,
     currency: "usd",
-    application_fee_amount: Math.round(prompt.price * 100 * 0.10), // 10% marketplace fee
+    ...(feeCents > 0 ? { application_fee_amount: feeCents } : {}),
     transfer_data: {
       destination: sellerStripeId,
     },
     metadata: {
       promptId,
       sellerId: prompt.user_id,
+      platform_fee_bps: String(platformFee.feeBps),
     },
   });
 
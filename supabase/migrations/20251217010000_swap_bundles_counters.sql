@@ -0,0 +1,30 @@
+-- Multi-prompt bundle swaps and counter-offer chains
+begin;
+
+alter table public.swaps
+  add column if not exists requested_prompt_ids uuid[] not null default '{}',
+  add column if not exists offered_prompt_ids uuid[] not null default '{}',
+  add column if not exists parent_swap_id uuid references public.swaps (id) on delete set null;
+
+-- Backfill bundles from the legacy one-for-one columns
+update public.swaps
+set requested_prompt_ids = array[requested_prompt_id]
+where requested_prompt_id is not null and cardinality(requested_prompt_ids) = 0;
+
+update public.swaps
+set offered_prompt_ids = array[offered_prompt_id]
+where offered_prompt_id is not null and cardinality(offered_prompt_ids) = 0;
+
+alter table public.swaps drop constraint if exists swaps_status_check;
+alter table public.swaps
+  add constraint swaps_status_check check (status in ('requested','accepted','declined','countered','fulfilled','cancelled','expired'));
+
+alter table public.swaps drop constraint if exists swaps_bundles_not_empty;
+alter table public.swaps
+  add constraint swaps_bundles_not_empty check (cardinality(requested_prompt_ids) > 0 and cardinality(offered_prompt_ids) > 0);
+
+create index if not exists idx_swaps_parent_swap_id on public.swaps (parent_swap_id);
+create index if not exists idx_swaps_requested_prompt_ids on public.swaps using gin (requested_prompt_ids);
+create index if not exists idx_swaps_offered_prompt_ids on public.swaps using gin (offered_prompt_ids);
+
+commit;
@@ -0,0 +1,193 @@
+-- Atomic, idempotent swap fulfillment with copy provenance
+begin;
+
+create table if not exists public.swap_fulfillments (
+  swap_id uuid primary key references public.swaps (id) on delete cascade,
+  idempotency_key text not null unique,
+  fulfilled_by uuid references auth.users (id),
+  request_id text,
+  created_at timestamptz not null default now(),
+  reversed_at timestamptz,
+  reversed_by uuid references auth.users (id),
+  reversal_reason text
+);
+
+-- One row per prompt copy created by a swap, so support can trace and reverse them
+create table if not exists public.swap_prompt_copies (
+  id uuid primary key default gen_random_uuid(),
+  swap_id uuid not null references public.swaps (id) on delete cascade,
+  source_prompt_id uuid not null references public.prompts (id),
+  copied_prompt_id uuid not null references public.prompts (id) on delete cascade,
+  recipient_id uuid not null references auth.users (id),
+  created_at timestamptz not null default now(),
+  constraint swap_prompt_copies_unique unique (swap_id, source_prompt_id, recipient_id)
+);
+
+create index if not exists idx_swap_prompt_copies_swap_id on public.swap_prompt_copies (swap_id);
+create index if not exists idx_swap_prompt_copies_copied_prompt_id on public.swap_prompt_copies (copied_prompt_id);
+create index if not exists idx_swap_prompt_copies_source_prompt_id on public.swap_prompt_copies (source_prompt_id);
+
+alter table public.swap_fulfillments enable row level security;
+alter table public.swap_prompt_copies enable row level security;
+
+create policy if not exists swap_fulfillments_service_only
+  on public.swap_fulfillments for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create policy if not exists swap_prompt_copies_select_recipient_admin_service
+  on public.swap_prompt_copies for select
+  using (
+    auth.uid() = recipient_id
+    or auth.role() = 'service_role'
+    or exists(select 1 from public.profiles ap where ap.id = auth.uid() and coalesce(ap.is_admin,false) = true)
+  );
+
+create policy if not exists swap_prompt_copies_write_service_only
+  on public.swap_prompt_copies for insert
+  with check (auth.role() = 'service_role');
+
+create or replace function public.copy_swap_prompt(p_swap_id uuid, p_source_prompt_id uuid, p_recipient_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_copy_id uuid;
+begin
+  insert into public.prompts (user_id, title, description, tags, price, prompt_text, preview_image, is_public, version, created_at)
+  select p_recipient_id, p.title, p.description, p.tags, p.price, p.prompt_text, p.preview_image, false, coalesce(p.version, 1), now()
+  from public.prompts p
+  where p.id = p_source_prompt_id
+  returning id into v_copy_id;
+
+  if v_copy_id is null then
+    raise exception 'Prompt % not found for fulfillment', p_source_prompt_id using errcode = 'P0002';
+  end if;
+
+  insert into public.swap_prompt_copies (swap_id, source_prompt_id, copied_prompt_id, recipient_id)
+  values (p_swap_id, p_source_prompt_id, v_copy_id, p_recipient_id);
+
+  return v_copy_id;
+end;
+$$;
+
+create or replace function public.swap_fulfillment_result(p_swap_id uuid, p_replayed boolean)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'replayed', p_replayed,
+    'copies', coalesce(
+      (
+        select jsonb_agg(
+          jsonb_build_object(
+            'source_prompt_id', c.source_prompt_id,
+            'copied_prompt_id', c.copied_prompt_id,
+            'recipient_id', c.recipient_id
+          )
+          order by c.created_at
+        )
+        from public.swap_prompt_copies c
+        where c.swap_id = p_swap_id
+      ),
+      '[]'::jsonb
+    )
+  );
+$$;
+
+-- Copies both bundles and marks the swap fulfilled in one transaction.
+-- Calling it again with the same idempotency key returns the original copies.
+create or replace function public.fulfill_swap(
+  p_swap_id uuid,
+  p_actor_id uuid,
+  p_idempotency_key text,
+  p_request_id text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_swap public.swaps%rowtype;
+  v_existing public.swap_fulfillments%rowtype;
+  v_prompt_id uuid;
+begin
+  select * into v_swap from public.swaps where id = p_swap_id for update;
+  if not found then
+    raise exception 'Swap not found' using errcode = 'P0002';
+  end if;
+
+  if p_actor_id is not null and p_actor_id not in (v_swap.requester_id, v_swap.responder_id) then
+    raise exception 'Only participants may perform this action' using errcode = '42501';
+  end if;
+
+  select * into v_existing from public.swap_fulfillments where swap_id = p_swap_id;
+  if found then
+    if v_existing.idempotency_key <> p_idempotency_key then
+      raise exception 'Swap was already fulfilled with a different idempotency key' using errcode = '23505';
+    end if;
+    return public.swap_fulfillment_result(p_swap_id, true);
+  end if;
+
+  if v_swap.status <> 'accepted' then
+    raise exception 'Cannot fulfill from status %', v_swap.status using errcode = '55000';
+  end if;
+
+  -- The requester receives the responder's bundle and vice versa
+  foreach v_prompt_id in array v_swap.offered_prompt_ids loop
+    perform public.copy_swap_prompt(p_swap_id, v_prompt_id, v_swap.requester_id);
+  end loop;
+
+  foreach v_prompt_id in array v_swap.requested_prompt_ids loop
+    perform public.copy_swap_prompt(p_swap_id, v_prompt_id, v_swap.responder_id);
+  end loop;
+
+  insert into public.swap_fulfillments (swap_id, idempotency_key, fulfilled_by, request_id)
+  values (p_swap_id, p_idempotency_key, p_actor_id, p_request_id);
+
+  update public.swaps set status = 'fulfilled' where id = p_swap_id;
+
+  return public.swap_fulfillment_result(p_swap_id, false);
+end;
+$$;
+
+-- Support tool: archives every copy a swap created. The swap itself stays fulfilled.
+create or replace function public.reverse_swap_fulfillment(p_swap_id uuid, p_admin_id uuid, p_reason text default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  update public.swap_fulfillments
+  set reversed_at = now(), reversed_by = p_admin_id, reversal_reason = p_reason
+  where swap_id = p_swap_id and reversed_at is null;
+
+  if not found then
+    raise exception 'No active fulfillment for swap %', p_swap_id using errcode = 'P0002';
+  end if;
+
+  update public.prompts p
+  set status = 'archived', is_public = false
+  from public.swap_prompt_copies c
+  where c.swap_id = p_swap_id and p.id = c.copied_prompt_id;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.copy_swap_prompt(uuid, uuid, uuid) from public;
+revoke all on function public.fulfill_swap(uuid, uuid, text, text) from public;
+revoke all on function public.reverse_swap_fulfillment(uuid, uuid, text) from public;
+grant execute on function public.fulfill_swap(uuid, uuid, text, text) to service_role;
+grant execute on function public.reverse_swap_fulfillment(uuid, uuid, text) to service_role;
+
+commit;
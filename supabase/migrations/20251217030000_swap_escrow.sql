@@ -0,0 +1,198 @@
+-- Escrow mode for swaps: both parties deposit before copies are released
+begin;
+
+alter table public.swaps
+  add column if not exists escrow boolean not null default false,
+  add column if not exists escrow_deadline timestamptz,
+  add column if not exists requester_deposited_at timestamptz,
+  add column if not exists responder_deposited_at timestamptz;
+
+alter table public.swaps drop constraint if exists swaps_status_check;
+alter table public.swaps
+  add constraint swaps_status_check check (
+    status in ('requested','accepted','declined','countered','escrow_partial','escrow_held','fulfilled','cancelled','expired')
+  );
+
+create index if not exists idx_swaps_escrow_deadline
+  on public.swaps (escrow_deadline)
+  where escrow and status in ('accepted','escrow_partial');
+
+-- Snapshot of each deposited prompt; copies are released from these, not the live prompt
+create table if not exists public.swap_escrow_deposits (
+  id uuid primary key default gen_random_uuid(),
+  swap_id uuid not null references public.swaps (id) on delete cascade,
+  depositor_id uuid not null references auth.users (id),
+  prompt_id uuid not null references public.prompts (id),
+  prompt_text text not null,
+  content_hash text not null,
+  deposited_at timestamptz not null default now(),
+  constraint swap_escrow_deposits_unique unique (swap_id, prompt_id)
+);
+
+create index if not exists idx_swap_escrow_deposits_swap_id on public.swap_escrow_deposits (swap_id);
+
+alter table public.swap_escrow_deposits enable row level security;
+
+create policy if not exists swap_escrow_deposits_service_only
+  on public.swap_escrow_deposits for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Copies prefer the escrow snapshot so a depositor cannot change the prompt after depositing
+create or replace function public.copy_swap_prompt(p_swap_id uuid, p_source_prompt_id uuid, p_recipient_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_copy_id uuid;
+begin
+  insert into public.prompts (user_id, title, description, tags, price, prompt_text, preview_image, is_public, version, created_at)
+  select
+    p_recipient_id, p.title, p.description, p.tags, p.price,
+    coalesce(d.prompt_text, p.prompt_text),
+    p.preview_image, false, coalesce(p.version, 1), now()
+  from public.prompts p
+  left join public.swap_escrow_deposits d on d.swap_id = p_swap_id and d.prompt_id = p.id
+  where p.id = p_source_prompt_id
+  returning id into v_copy_id;
+
+  if v_copy_id is null then
+    raise exception 'Prompt % not found for fulfillment', p_source_prompt_id using errcode = 'P0002';
+  end if;
+
+  insert into public.swap_prompt_copies (swap_id, source_prompt_id, copied_prompt_id, recipient_id)
+  values (p_swap_id, p_source_prompt_id, v_copy_id, p_recipient_id);
+
+  return v_copy_id;
+end;
+$$;
+
+-- Same as before, except escrow swaps can only be released once both deposits are held
+create or replace function public.fulfill_swap(
+  p_swap_id uuid,
+  p_actor_id uuid,
+  p_idempotency_key text,
+  p_request_id text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_swap public.swaps%rowtype;
+  v_existing public.swap_fulfillments%rowtype;
+  v_prompt_id uuid;
+  v_expected_status text;
+begin
+  select * into v_swap from public.swaps where id = p_swap_id for update;
+  if not found then
+    raise exception 'Swap not found' using errcode = 'P0002';
+  end if;
+
+  if p_actor_id is not null and p_actor_id not in (v_swap.requester_id, v_swap.responder_id) then
+    raise exception 'Only participants may perform this action' using errcode = '42501';
+  end if;
+
+  select * into v_existing from public.swap_fulfillments where swap_id = p_swap_id;
+  if found then
+    if v_existing.idempotency_key <> p_idempotency_key then
+      raise exception 'Swap was already fulfilled with a different idempotency key' using errcode = '23505';
+    end if;
+    return public.swap_fulfillment_result(p_swap_id, true);
+  end if;
+
+  v_expected_status := case when v_swap.escrow then 'escrow_held' else 'accepted' end;
+  if v_swap.status <> v_expected_status then
+    raise exception 'Cannot fulfill from status %', v_swap.status using errcode = '55000';
+  end if;
+
+  -- The requester receives the responder's bundle and vice versa
+  foreach v_prompt_id in array v_swap.offered_prompt_ids loop
+    perform public.copy_swap_prompt(p_swap_id, v_prompt_id, v_swap.requester_id);
+  end loop;
+
+  foreach v_prompt_id in array v_swap.requested_prompt_ids loop
+    perform public.copy_swap_prompt(p_swap_id, v_prompt_id, v_swap.responder_id);
+  end loop;
+
+  insert into public.swap_fulfillments (swap_id, idempotency_key, fulfilled_by, request_id)
+  values (p_swap_id, p_idempotency_key, p_actor_id, p_request_id);
+
+  update public.swaps set status = 'fulfilled' where id = p_swap_id;
+
+  return public.swap_fulfillment_result(p_swap_id, false);
+end;
+$$;
+
+-- Records the caller's deposit. The second deposit moves the swap to escrow_held and
+-- releases both bundles in the same transaction.
+create or replace function public.deposit_swap_escrow(
+  p_swap_id uuid,
+  p_actor_id uuid,
+  p_idempotency_key text,
+  p_request_id text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_swap public.swaps%rowtype;
+  v_bundle uuid[];
+begin
+  select * into v_swap from public.swaps where id = p_swap_id for update;
+  if not found then
+    raise exception 'Swap not found' using errcode = 'P0002';
+  end if;
+
+  if p_actor_id is null or p_actor_id not in (v_swap.requester_id, v_swap.responder_id) then
+    raise exception 'Only participants may perform this action' using errcode = '42501';
+  end if;
+
+  if not v_swap.escrow then
+    raise exception 'Only escrow swaps accept deposits' using errcode = '55000';
+  end if;
+
+  if v_swap.status not in ('accepted', 'escrow_partial') then
+    raise exception 'Cannot deposit from status %', v_swap.status using errcode = '55000';
+  end if;
+
+  if v_swap.escrow_deadline is not null and v_swap.escrow_deadline < now() then
+    raise exception 'Escrow deadline has passed' using errcode = '55000';
+  end if;
+
+  v_bundle := case when p_actor_id = v_swap.requester_id then v_swap.requested_prompt_ids else v_swap.offered_prompt_ids end;
+
+  insert into public.swap_escrow_deposits (swap_id, depositor_id, prompt_id, prompt_text, content_hash)
+  select p_swap_id, p_actor_id, p.id, coalesce(p.prompt_text, ''), md5(coalesce(p.prompt_text, ''))
+  from public.prompts p
+  where p.id = any(v_bundle)
+  on conflict (swap_id, prompt_id) do nothing;
+
+  if p_actor_id = v_swap.requester_id then
+    update public.swaps set requester_deposited_at = coalesce(requester_deposited_at, now()) where id = p_swap_id
+    returning * into v_swap;
+  else
+    update public.swaps set responder_deposited_at = coalesce(responder_deposited_at, now()) where id = p_swap_id
+    returning * into v_swap;
+  end if;
+
+  if v_swap.requester_deposited_at is null or v_swap.responder_deposited_at is null then
+    update public.swaps set status = 'escrow_partial' where id = p_swap_id;
+    return jsonb_build_object('status', 'escrow_partial', 'released', false, 'replayed', false, 'copies', '[]'::jsonb);
+  end if;
+
+  update public.swaps set status = 'escrow_held' where id = p_swap_id;
+  return jsonb_build_object('status', 'fulfilled', 'released', true)
+    || public.fulfill_swap(p_swap_id, p_actor_id, p_idempotency_key, p_request_id);
+end;
+$$;
+
+revoke all on function public.deposit_swap_escrow(uuid, uuid, text, text) from public;
+grant execute on function public.deposit_swap_escrow(uuid, uuid, text, text) to service_role;
+
+commit;
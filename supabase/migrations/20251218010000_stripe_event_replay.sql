@@ -0,0 +1,23 @@
+-- Failure tracking and admin replay history for Stripe webhook events
+begin;
+
+alter table public.stripe_events
+  add column if not exists last_error text,
+  add column if not exists failed_at timestamptz,
+  add column if not exists replay_count integer not null default 0,
+  add column if not exists last_replayed_at timestamptz,
+  add column if not exists last_replayed_by uuid references auth.users (id),
+  add column if not exists last_replay_mode text,
+  add column if not exists last_replay_result jsonb,
+  add column if not exists system_event_id uuid references public.system_events (id) on delete set null;
+
+alter table public.stripe_events drop constraint if exists stripe_events_last_replay_mode_check;
+alter table public.stripe_events
+  add constraint stripe_events_last_replay_mode_check check (last_replay_mode is null or last_replay_mode in ('dry_run','live'));
+
+-- The replay console lists events that never finished processing
+create index if not exists idx_stripe_events_unprocessed
+  on public.stripe_events (created_at desc)
+  where processed_at is null;
+
+commit;
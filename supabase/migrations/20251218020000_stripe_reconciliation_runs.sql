@@ -0,0 +1,33 @@
+-- Reports written by the nightly Stripe reconciliation job
+begin;
+
+create table if not exists public.stripe_reconciliation_runs (
+  id uuid primary key default gen_random_uuid(),
+  request_id text not null,
+  window_start timestamptz not null,
+  window_end timestamptz not null,
+  checked jsonb not null default '{}'::jsonb,
+  fixed_count integer not null default 0,
+  missing_count integer not null default 0,
+  conflicting_count integer not null default 0,
+  issues jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_stripe_reconciliation_runs_created_at
+  on public.stripe_reconciliation_runs (created_at desc);
+
+alter table public.stripe_reconciliation_runs enable row level security;
+
+create policy if not exists stripe_reconciliation_runs_service_or_admin
+  on public.stripe_reconciliation_runs for select
+  using (
+    auth.role() = 'service_role'
+    or exists(select 1 from public.profiles ap where ap.id = auth.uid() and coalesce(ap.is_admin,false) = true)
+  );
+
+create policy if not exists stripe_reconciliation_runs_write_service_only
+  on public.stripe_reconciliation_runs for insert
+  with check (auth.role() = 'service_role');
+
+commit;
@@ -0,0 +1,46 @@
+-- Persistent carts and multi-prompt checkout sessions
+begin;
+
+create table if not exists public.cart_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  prompt_id uuid not null references public.prompts (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint cart_items_user_prompt_unique unique (user_id, prompt_id)
+);
+
+create index if not exists idx_cart_items_user_id on public.cart_items (user_id, created_at);
+
+alter table public.cart_items enable row level security;
+
+create policy if not exists cart_items_select_own
+  on public.cart_items for select
+  using (auth.uid() = user_id or auth.role() = 'service_role');
+
+create policy if not exists cart_items_insert_own
+  on public.cart_items for insert
+  with check (auth.uid() = user_id or auth.role() = 'service_role');
+
+create policy if not exists cart_items_delete_own
+  on public.cart_items for delete
+  using (auth.uid() = user_id or auth.role() = 'service_role');
+
+-- A cart checkout creates one purchase per prompt that share the session and payment intent,
+-- so the Stripe ids are only unique per prompt
+alter table public.purchases drop constraint if exists purchases_stripe_checkout_session_uidx;
+alter table public.purchases drop constraint if exists purchases_stripe_payment_intent_uidx;
+
+do $$ begin
+  alter table public.purchases
+    add constraint purchases_checkout_session_prompt_uidx unique (stripe_checkout_session_id, prompt_id);
+exception when duplicate_object then null; end $$;
+
+do $$ begin
+  alter table public.purchases
+    add constraint purchases_payment_intent_prompt_uidx unique (stripe_payment_intent_id, prompt_id);
+exception when duplicate_object then null; end $$;
+
+create index if not exists idx_purchases_stripe_checkout_session_id on public.purchases (stripe_checkout_session_id);
+create index if not exists idx_purchases_stripe_payment_intent_id on public.purchases (stripe_payment_intent_id);
+
+commit;
@@ -0,0 +1,78 @@
+-- Creator-managed coupon codes and the redemption recorded on each purchase
+begin;
+
+create table if not exists public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid not null references auth.users (id) on delete cascade,
+  code text not null,
+  discount_type text not null,
+  discount_value integer not null,
+  prompt_id uuid references public.prompts (id) on delete cascade,
+  expires_at timestamptz,
+  max_redemptions integer,
+  redemption_count integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint coupons_discount_type_check check (discount_type in ('percent','fixed')),
+  constraint coupons_discount_value_check check (
+    discount_value > 0 and (discount_type <> 'percent' or discount_value <= 100)
+  ),
+  constraint coupons_max_redemptions_check check (max_redemptions is null or max_redemptions > 0),
+  constraint coupons_code_format check (code ~ '^[A-Z0-9_-]{3,32}$'),
+  constraint coupons_creator_code_unique unique (creator_id, code)
+);
+
+create index if not exists idx_coupons_prompt_id on public.coupons (prompt_id);
+
+alter table public.coupons enable row level security;
+
+-- Buyers never read coupons directly; checkout looks codes up with the service role
+create policy if not exists coupons_select_own
+  on public.coupons for select
+  using (auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists coupons_insert_own
+  on public.coupons for insert
+  with check (auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists coupons_update_own
+  on public.coupons for update
+  using (auth.uid() = creator_id or auth.role() = 'service_role')
+  with check (auth.uid() = creator_id or auth.role() = 'service_role');
+
+alter table public.purchases
+  add column if not exists coupon_id uuid references public.coupons (id) on delete set null,
+  add column if not exists coupon_code text,
+  add column if not exists discount_amount integer not null default 0;
+
+create index if not exists idx_purchases_coupon_id on public.purchases (coupon_id) where coupon_id is not null;
+
+-- Recounts redemptions from purchases so replays and reconciliation runs cannot double count
+create or replace function public.refresh_coupon_redemptions(p_coupon_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  select count(*) into v_count
+  from public.purchases
+  where coupon_id = p_coupon_id
+    and status in ('paid','partially_refunded','refunded','disputed');
+
+  update public.coupons
+  set redemption_count = v_count,
+      updated_at = now()
+  where id = p_coupon_id;
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.refresh_coupon_redemptions(uuid) from public;
+grant execute on function public.refresh_coupon_redemptions(uuid) to service_role;
+
+commit;
@@ -0,0 +1,63 @@
+-- Monthly creator subscriptions through Stripe Billing; subscribers can download the
+-- creator's approved prompts while the subscription is active
+begin;
+
+create table if not exists public.subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  stripe_subscription_id text,
+  stripe_price_id text,
+  status text,
+  created_at timestamptz default now()
+);
+
+alter table public.subscriptions
+  add column if not exists creator_id uuid references auth.users (id) on delete cascade,
+  add column if not exists stripe_customer_id text,
+  add column if not exists current_period_end timestamptz,
+  add column if not exists cancel_at_period_end boolean not null default false,
+  add column if not exists canceled_at timestamptz,
+  add column if not exists last_stripe_event_id text,
+  add column if not exists updated_at timestamptz not null default now();
+
+create unique index if not exists subscriptions_stripe_subscription_id_uidx
+  on public.subscriptions (stripe_subscription_id);
+create index if not exists idx_subscriptions_user_creator on public.subscriptions (user_id, creator_id);
+create index if not exists idx_subscriptions_creator_id on public.subscriptions (creator_id);
+
+alter table public.subscriptions enable row level security;
+
+create policy if not exists subscriptions_select_party
+  on public.subscriptions for select
+  using (auth.uid() = user_id or auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists subscriptions_write_service
+  on public.subscriptions for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- One Stripe product and monthly price per creator; changing the price swaps in a new Stripe price
+create table if not exists public.creator_subscription_plans (
+  creator_id uuid primary key references auth.users (id) on delete cascade,
+  stripe_product_id text not null,
+  stripe_price_id text not null,
+  price_cents integer not null,
+  currency text not null default 'usd',
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint creator_subscription_plans_price_check check (price_cents >= 100)
+);
+
+alter table public.creator_subscription_plans enable row level security;
+
+create policy if not exists creator_subscription_plans_select_all
+  on public.creator_subscription_plans for select
+  using (true);
+
+create policy if not exists creator_subscription_plans_write_service
+  on public.creator_subscription_plans for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+commit;
@@ -0,0 +1,146 @@
+-- Configurable platform fee rules and a double-entry ledger for every purchase, refund and payout
+begin;
+
+-- A rule without a window is a standing rate (global default when creator_id is null, otherwise a
+-- creator override); a rule with starts_at/ends_at is a promotion that can only lower the fee
+create table if not exists public.platform_fee_rules (
+  id uuid primary key default gen_random_uuid(),
+  creator_id uuid references auth.users (id) on delete cascade,
+  fee_bps integer not null,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  note text,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint platform_fee_rules_fee_bps_check check (fee_bps between 0 and 10000),
+  constraint platform_fee_rules_window_check check (starts_at is null or ends_at is null or ends_at > starts_at)
+);
+
+create unique index if not exists platform_fee_rules_standing_uidx
+  on public.platform_fee_rules (coalesce(creator_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  where starts_at is null and ends_at is null;
+create index if not exists idx_platform_fee_rules_creator_id on public.platform_fee_rules (creator_id);
+
+alter table public.platform_fee_rules enable row level security;
+
+create policy if not exists platform_fee_rules_select
+  on public.platform_fee_rules for select
+  using (creator_id is null or auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists platform_fee_rules_write_service
+  on public.platform_fee_rules for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Matches the 10% the legacy payment intent route charged
+insert into public.platform_fee_rules (creator_id, fee_bps, note)
+select null, 1000, 'Global default'
+where not exists (
+  select 1 from public.platform_fee_rules
+  where creator_id is null and starts_at is null and ends_at is null
+);
+
+alter table public.purchases
+  add column if not exists platform_fee_amount integer not null default 0,
+  add column if not exists platform_fee_bps integer,
+  add column if not exists stripe_fee_amount integer not null default 0,
+  add column if not exists transfer_destination text;
+
+create table if not exists public.ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id text not null,
+  kind text not null,
+  account text not null,
+  direction text not null,
+  amount_cents integer not null,
+  currency text not null default 'usd',
+  creator_id uuid references auth.users (id) on delete set null,
+  purchase_id uuid references public.purchases (id) on delete set null,
+  payout_id uuid references public.payouts (id) on delete set null,
+  fee_bps integer,
+  stripe_object_id text,
+  created_at timestamptz not null default now(),
+  constraint ledger_entries_kind_check check (
+    kind in ('sale','processing_fee','refund','transfer','transfer_reversal','payout')
+  ),
+  constraint ledger_entries_account_check check (
+    account in ('cash','creator_payable','platform_revenue','processing_fees')
+  ),
+  constraint ledger_entries_direction_check check (direction in ('debit','credit')),
+  constraint ledger_entries_amount_check check (amount_cents > 0),
+  constraint ledger_entries_transaction_line_unique unique (transaction_id, account, direction)
+);
+
+create index if not exists idx_ledger_entries_creator_id on public.ledger_entries (creator_id, created_at desc);
+create index if not exists idx_ledger_entries_purchase_id on public.ledger_entries (purchase_id);
+
+alter table public.ledger_entries enable row level security;
+
+create policy if not exists ledger_entries_select_own
+  on public.ledger_entries for select
+  using (auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists ledger_entries_insert_service
+  on public.ledger_entries for insert
+  with check (auth.role() = 'service_role');
+
+-- Entries are append-only; corrections are recorded as new transactions
+revoke update, delete on public.ledger_entries from anon, authenticated;
+
+-- Checked at commit so every line of a transaction can be inserted first
+create or replace function public.assert_ledger_transaction_balanced()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_balance bigint;
+begin
+  select coalesce(sum(case when direction = 'debit' then amount_cents else -amount_cents end), 0)
+  into v_balance
+  from public.ledger_entries
+  where transaction_id = new.transaction_id;
+
+  if v_balance <> 0 then
+    raise exception 'Ledger transaction % is unbalanced by % cents', new.transaction_id, v_balance;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists ledger_entries_balanced on public.ledger_entries;
+create constraint trigger ledger_entries_balanced
+  after insert on public.ledger_entries
+  deferrable initially deferred
+  for each row execute function public.assert_ledger_transaction_balanced();
+
+-- Backfill purchases and payouts made before the ledger existed; they carried no platform fee
+insert into public.ledger_entries (transaction_id, kind, account, direction, amount_cents, currency, creator_id, purchase_id, fee_bps)
+select 'sale:' || p.id, 'sale', line.account, line.direction, p.amount_total, coalesce(p.currency, 'usd'), p.seller_id, p.id, 0
+from public.purchases p
+cross join (values ('cash', 'debit'), ('creator_payable', 'credit')) as line (account, direction)
+where p.status in ('paid','partially_refunded','refunded','disputed')
+  and p.amount_total > 0
+on conflict (transaction_id, account, direction) do nothing;
+
+insert into public.ledger_entries (transaction_id, kind, account, direction, amount_cents, currency, creator_id, purchase_id)
+select 'refund:' || p.id || ':' || least(p.refunded_amount, p.amount_total), 'refund', line.account, line.direction,
+  least(p.refunded_amount, p.amount_total), coalesce(p.currency, 'usd'), p.seller_id, p.id
+from public.purchases p
+cross join (values ('creator_payable', 'debit'), ('cash', 'credit')) as line (account, direction)
+where p.status in ('partially_refunded','refunded')
+  and p.amount_total > 0
+  and p.refunded_amount > 0
+on conflict (transaction_id, account, direction) do nothing;
+
+insert into public.ledger_entries (transaction_id, kind, account, direction, amount_cents, currency, creator_id, payout_id, stripe_object_id)
+select 'payout:' || coalesce(po.stripe_transfer_id, po.id::text), 'payout', line.account, line.direction,
+  round(po.amount * 100)::integer, coalesce(po.currency, 'usd'), po.seller_id, po.id, po.stripe_transfer_id
+from public.payouts po
+cross join (values ('creator_payable', 'debit'), ('cash', 'credit')) as line (account, direction)
+where po.amount > 0
+on conflict (transaction_id, account, direction) do nothing;
+
+commit;
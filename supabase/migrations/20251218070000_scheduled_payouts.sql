@@ -0,0 +1,55 @@
+-- Opt-in automatic payouts and payout lifecycle tracking
+begin;
+
+-- Each payout row is written before the Stripe transfer is created, so an interrupted run leaves a
+-- pending row whose idempotency key makes the retry return the original transfer
+alter table public.payouts
+  add column if not exists status text not null default 'paid',
+  add column if not exists trigger text not null default 'manual',
+  add column if not exists idempotency_key text,
+  add column if not exists failure_reason text,
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.payouts
+  drop constraint if exists payouts_status_check,
+  add constraint payouts_status_check check (status in ('pending','paid','failed'));
+
+alter table public.payouts
+  drop constraint if exists payouts_trigger_check,
+  add constraint payouts_trigger_check check (trigger in ('manual','scheduled'));
+
+create unique index if not exists idx_payouts_idempotency_key on public.payouts (idempotency_key);
+create index if not exists idx_payouts_seller_status on public.payouts (seller_id, status);
+
+create policy if not exists payouts_update_service
+  on public.payouts for update
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create table if not exists public.payout_schedules (
+  creator_id uuid primary key references auth.users (id) on delete cascade,
+  interval text not null default 'weekly',
+  minimum_cents integer not null default 2500,
+  enabled boolean not null default true,
+  next_run_at timestamptz not null default now(),
+  last_run_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint payout_schedules_interval_check check (interval in ('weekly','monthly')),
+  constraint payout_schedules_minimum_check check (minimum_cents >= 100)
+);
+
+create index if not exists idx_payout_schedules_due on public.payout_schedules (next_run_at) where enabled;
+
+alter table public.payout_schedules enable row level security;
+
+create policy if not exists payout_schedules_select_own
+  on public.payout_schedules for select
+  using (auth.uid() = creator_id or auth.role() = 'service_role');
+
+create policy if not exists payout_schedules_write_service
+  on public.payout_schedules for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+commit;
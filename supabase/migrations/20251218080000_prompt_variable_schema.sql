@@ -0,0 +1,13 @@
+-- Typed template variables declared in prompt_text, e.g. {{audience:enum[marketers,devs]}}
+begin;
+
+-- Parsed by lib/prompt-variables.ts whenever prompt_text is written through the API; the test
+-- runner re-parses prompt_text, so a stale value only affects the form shown before a run
+alter table public.prompts
+  add column if not exists variable_schema jsonb not null default '[]'::jsonb;
+
+alter table public.prompts
+  drop constraint if exists prompts_variable_schema_array_check,
+  add constraint prompts_variable_schema_array_check check (jsonb_typeof(variable_schema) = 'array');
+
+commit;
@@ -0,0 +1,59 @@
+-- Prompt tester run history and model comparisons
+begin;
+
+create table if not exists public.test_runs (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid,
+  user_id uuid,
+  input_data jsonb,
+  output_data jsonb,
+  model_used text,
+  created_at timestamp
+);
+
+-- input_data holds the variable values and settings of the run, never the API key; output_data
+-- holds the text and stop reason. Latency and token counts are columns so they can be compared.
+alter table public.test_runs
+  add column if not exists provider text,
+  add column if not exists status text not null default 'completed',
+  add column if not exists latency_ms integer,
+  add column if not exists input_tokens integer,
+  add column if not exists output_tokens integer,
+  add column if not exists error_message text,
+  add column if not exists comparison_id uuid,
+  add column if not exists is_public boolean not null default false;
+
+alter table public.test_runs
+  alter column created_at set default now();
+
+alter table public.test_runs
+  drop constraint if exists test_runs_status_check,
+  add constraint test_runs_status_check check (status in ('completed','failed','cancelled'));
+
+create index if not exists idx_test_runs_prompt_user_created on public.test_runs (prompt_id, user_id, created_at desc);
+create index if not exists idx_test_runs_comparison on public.test_runs (comparison_id) where comparison_id is not null;
+create index if not exists idx_test_runs_public on public.test_runs (prompt_id, created_at desc) where is_public;
+
+alter table public.test_runs enable row level security;
+
+-- Runs are private to the tester; creators can publish their own runs as samples for buyers
+create policy if not exists test_runs_select_own_or_public
+  on public.test_runs for select
+  using (auth.uid() = user_id or is_public or auth.role() = 'service_role');
+
+create policy if not exists test_runs_insert_own
+  on public.test_runs for insert
+  with check (auth.uid() = user_id and not is_public);
+
+create policy if not exists test_runs_update_own
+  on public.test_runs for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      not is_public
+      or exists (select 1 from public.prompts p where p.id = test_runs.prompt_id and p.user_id = auth.uid())
+    )
+  );
+
+commit;
@@ -0,0 +1,102 @@
+-- Creator-defined evaluation suites: test cases with assertions, run through the prompt tester
+begin;
+
+-- One suite per prompt. cases is an array of { id, name, variables, assertions } checked by
+-- lib/evals.ts; the model and provider are what every case runs against.
+create table if not exists public.prompt_eval_suites (
+  prompt_id uuid primary key references public.prompts(id) on delete cascade,
+  model text not null,
+  provider text,
+  cases jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint prompt_eval_suites_cases_array_check check (jsonb_typeof(cases) = 'array')
+);
+
+create table if not exists public.eval_runs (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references public.prompts(id) on delete cascade,
+  triggered_by uuid not null,
+  model text not null,
+  provider text,
+  status text not null default 'running',
+  total_cases integer not null default 0,
+  passed_cases integer not null default 0,
+  pass_rate numeric(5,4),
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  constraint eval_runs_status_check check (status in ('running','completed','failed'))
+);
+
+create index if not exists idx_eval_runs_prompt_created on public.eval_runs (prompt_id, created_at desc);
+
+-- Each case of a suite run is stored as a test run with the assertion outcomes
+alter table public.test_runs
+  add column if not exists eval_run_id uuid references public.eval_runs(id) on delete cascade,
+  add column if not exists eval_case_id text,
+  add column if not exists assertion_results jsonb;
+
+create index if not exists idx_test_runs_eval_run on public.test_runs (eval_run_id) where eval_run_id is not null;
+
+-- Latest completed run, copied onto the prompt so cards can show the badge without a join
+alter table public.prompts
+  add column if not exists eval_pass_rate numeric(5,4),
+  add column if not exists eval_case_count integer,
+  add column if not exists eval_run_at timestamptz,
+  add column if not exists eval_stale boolean not null default false;
+
+-- A new version of the prompt text invalidates the badge until the suite is run again
+create or replace function public.mark_prompt_eval_stale()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.prompt_text is distinct from old.prompt_text and new.eval_run_at is not null then
+    new.eval_stale := true;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prompts_mark_eval_stale on public.prompts;
+create trigger prompts_mark_eval_stale
+  before update of prompt_text on public.prompts
+  for each row execute function public.mark_prompt_eval_stale();
+
+alter table public.prompt_eval_suites enable row level security;
+alter table public.eval_runs enable row level security;
+
+-- Suites and results are public so buyers can see what was tested; only the creator changes them
+create policy if not exists prompt_eval_suites_select_all
+  on public.prompt_eval_suites for select
+  using (true);
+
+create policy if not exists prompt_eval_suites_write_owner
+  on public.prompt_eval_suites for all
+  using (exists (select 1 from public.prompts p where p.id = prompt_eval_suites.prompt_id and p.user_id = auth.uid()))
+  with check (exists (select 1 from public.prompts p where p.id = prompt_eval_suites.prompt_id and p.user_id = auth.uid()));
+
+create policy if not exists eval_runs_select_all
+  on public.eval_runs for select
+  using (true);
+
+create policy if not exists eval_runs_insert_owner
+  on public.eval_runs for insert
+  with check (
+    auth.uid() = triggered_by
+    and exists (select 1 from public.prompts p where p.id = eval_runs.prompt_id and p.user_id = auth.uid())
+  );
+
+create policy if not exists eval_runs_update_owner
+  on public.eval_runs for update
+  using (auth.uid() = triggered_by)
+  with check (auth.uid() = triggered_by);
+
+-- Case results of a suite run are public like the run itself
+drop policy if exists test_runs_select_own_or_public on public.test_runs;
+create policy test_runs_select_own_or_public
+  on public.test_runs for select
+  using (auth.uid() = user_id or is_public or eval_run_id is not null or auth.role() = 'service_role');
+
+commit;
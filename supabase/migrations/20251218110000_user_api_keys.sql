@@ -0,0 +1,38 @@
+-- Provider API keys saved by users for the prompt tester, encrypted by the app before insert
+begin;
+
+-- encrypted_key is AES-256-GCM ciphertext produced by lib/api-keys.ts with the key-encryption
+-- key from API_KEY_ENCRYPTION_KEY; the database never sees the plaintext. key_hint holds the
+-- last four characters so users can tell keys apart.
+create table if not exists public.user_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null,
+  label text not null,
+  encrypted_key text,
+  key_hint text not null,
+  monthly_cap_cents integer,
+  month_spend_micros bigint not null default 0,
+  spend_month text,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint user_api_keys_cap_check check (monthly_cap_cents is null or monthly_cap_cents >= 0),
+  -- Revoking wipes the ciphertext; a live key always has one
+  constraint user_api_keys_revoked_check check ((revoked_at is null) = (encrypted_key is not null))
+);
+
+create index if not exists idx_user_api_keys_user on public.user_api_keys (user_id, created_at desc);
+
+alter table public.user_api_keys enable row level security;
+
+-- Only the server (service role) reads or writes keys; the API returns metadata, never ciphertext
+create policy if not exists user_api_keys_service_role
+  on public.user_api_keys for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+revoke all on public.user_api_keys from anon, authenticated;
+
+commit;
@@ -0,0 +1,205 @@
+-- Immutable, numbered prompt versions with changelog notes and buyer-facing publication
+begin;
+
+alter table public.prompt_versions
+  add column if not exists version_number integer,
+  add column if not exists published_at timestamptz;
+
+-- Number the versions saved before this migration in the order they were written
+with numbered as (
+  select id, row_number() over (partition by prompt_id order by created_at, id) as n
+  from public.prompt_versions
+  where version_number is null
+)
+update public.prompt_versions v
+set version_number = numbered.n
+from numbered
+where v.id = numbered.id;
+
+-- Snapshot the current text of every prompt whose latest version does not match it
+insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at, created_at)
+select p.id, p.user_id, coalesce(latest.version_number, 0) + 1, p.prompt_text, 'Current version',
+  case when p.status = 'approved' then now() end, now()
+from public.prompts p
+left join lateral (
+  select pv.version_number, pv.content
+  from public.prompt_versions pv
+  where pv.prompt_id = p.id
+  order by pv.version_number desc
+  limit 1
+) latest on true
+where latest.version_number is null or latest.content is distinct from p.prompt_text;
+
+-- Versions of approved prompts were already visible to buyers
+update public.prompt_versions v
+set published_at = coalesce(v.created_at, now())
+from public.prompts p
+where p.id = v.prompt_id and p.status = 'approved' and v.published_at is null;
+
+update public.prompts p
+set version = latest.version_number
+from (
+  select prompt_id, max(version_number) as version_number
+  from public.prompt_versions
+  group by prompt_id
+) latest
+where latest.prompt_id = p.id;
+
+alter table public.prompt_versions
+  alter column version_number set not null,
+  alter column content set not null;
+
+create unique index if not exists idx_prompt_versions_prompt_number on public.prompt_versions (prompt_id, version_number);
+
+-- Versions never change once written; only publication (null -> timestamp) may be recorded later
+create or replace function public.prevent_prompt_version_changes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.prompt_id is distinct from old.prompt_id
+    or new.user_id is distinct from old.user_id
+    or new.version_number is distinct from old.version_number
+    or new.content is distinct from old.content
+    or new.notes is distinct from old.notes
+    or new.created_at is distinct from old.created_at
+    or (old.published_at is not null and new.published_at is distinct from old.published_at) then
+    raise exception 'Prompt versions are immutable' using errcode = '55000';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists prompt_versions_immutable on public.prompt_versions;
+create trigger prompt_versions_immutable
+  before update on public.prompt_versions
+  for each row execute function public.prevent_prompt_version_changes();
+
+-- Writes the next version of a prompt and makes it the prompt's current text in one transaction.
+-- The version is published at once if the prompt is approved, otherwise when it next gets approved.
+create or replace function public.create_prompt_version(
+  p_prompt_id uuid,
+  p_user_id uuid,
+  p_content text,
+  p_notes text,
+  p_variable_schema jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_next integer;
+  v_version public.prompt_versions;
+begin
+  select status into v_status
+  from public.prompts
+  where id = p_prompt_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'Prompt % not found for user %', p_prompt_id, p_user_id using errcode = 'P0002';
+  end if;
+
+  select coalesce(max(version_number), 0) + 1 into v_next
+  from public.prompt_versions
+  where prompt_id = p_prompt_id;
+
+  insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at)
+  values (p_prompt_id, p_user_id, v_next, p_content, nullif(trim(p_notes), ''),
+    case when v_status = 'approved' then now() end)
+  returning * into v_version;
+
+  update public.prompts
+  set prompt_text = p_content,
+    variable_schema = coalesce(p_variable_schema, variable_schema),
+    version = v_next
+  where id = p_prompt_id;
+
+  return to_jsonb(v_version);
+end;
+$$;
+
+-- Prompts written outside create_prompt_version (client inserts, direct updates) still get a version
+create or replace function public.snapshot_prompt_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_latest public.prompt_versions;
+begin
+  if new.prompt_text is null then
+    return null;
+  end if;
+
+  select * into v_latest
+  from public.prompt_versions
+  where prompt_id = new.id
+  order by version_number desc
+  limit 1;
+
+  if v_latest.id is not null and v_latest.content = new.prompt_text then
+    return null;
+  end if;
+
+  insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at)
+  values (new.id, new.user_id, coalesce(v_latest.version_number, 0) + 1, new.prompt_text,
+    case when v_latest.id is null then 'Initial version' end,
+    case when new.status = 'approved' then now() end);
+
+  update public.prompts
+  set version = coalesce(v_latest.version_number, 0) + 1
+  where id = new.id and version is distinct from coalesce(v_latest.version_number, 0) + 1;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists prompts_snapshot_version on public.prompts;
+create trigger prompts_snapshot_version
+  after insert or update of prompt_text on public.prompts
+  for each row execute function public.snapshot_prompt_version();
+
+revoke all on function public.create_prompt_version(uuid, uuid, text, text, jsonb) from public;
+grant execute on function public.create_prompt_version(uuid, uuid, text, text, jsonb) to service_role;
+
+-- Versions are written only by the functions above and the service role. Buyers read published
+-- versions of prompts they hold a valid purchase for; the API also admits active subscribers.
+drop policy if exists prompt_versions_select on public.prompt_versions;
+drop policy if exists prompt_versions_modify_self on public.prompt_versions;
+
+create policy if not exists prompt_versions_select
+  on public.prompt_versions for select
+  using (
+    auth.role() = 'service_role'
+    or exists(select 1 from public.prompts p where p.id = prompt_id and p.user_id = auth.uid())
+    or exists(select 1 from public.profiles ap where ap.id = auth.uid() and coalesce(ap.is_admin,false) = true)
+    or (
+      published_at is not null
+      and exists(
+        select 1 from public.prompts p
+        where p.id = prompt_id
+          and (
+            (coalesce(p.price, 0) = 0 and p.is_public = true and p.status = 'approved')
+            or exists(
+              select 1 from public.purchases pu
+              where pu.prompt_id = p.id
+                and pu.buyer_id = auth.uid()
+                and pu.status in ('paid','partially_refunded','disputed')
+            )
+          )
+      )
+    )
+  );
+
+create policy if not exists prompt_versions_write_service_role
+  on public.prompt_versions for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+commit;
@@ -0,0 +1,129 @@
+-- Prompt embeddings (pgvector) and hybrid relevance search
+begin;
+
+create extension if not exists vector with schema extensions;
+
+-- Every embedding backend produces 384 dimensions; embedding_model records which one wrote the vector
+alter table public.prompts
+  add column if not exists embedding extensions.vector(384),
+  add column if not exists embedding_model text,
+  add column if not exists embedding_updated_at timestamptz;
+
+create index if not exists idx_prompts_embedding on public.prompts
+  using hnsw (embedding extensions.vector_cosine_ops);
+create index if not exists idx_prompts_embedding_model on public.prompts (embedding_model);
+
+-- Editing the embedded fields clears the embedding unless the same update writes a new one;
+-- the app re-embeds after saving and the embed-prompts job catches up on anything missed
+create or replace function public.clear_stale_prompt_embedding()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if (new.title is distinct from old.title
+      or new.description is distinct from old.description
+      or new.tags is distinct from old.tags)
+     and new.embedding is not distinct from old.embedding then
+    new.embedding := null;
+    new.embedding_model := null;
+    new.embedding_updated_at := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_stale_prompt_embedding on public.prompts;
+create trigger clear_stale_prompt_embedding
+  before update of title, description, tags on public.prompts
+  for each row execute function public.clear_stale_prompt_embedding();
+
+-- Ranks public prompts by a weighted blend of full-text rank, cosine similarity to the query
+-- embedding and log-scaled likes. A prompt matches when its text matches the query or its
+-- embedding is close enough; without a query every public prompt matches and likes decide.
+-- Runs as the caller so the prompts RLS policies still apply.
+create or replace function public.search_prompts_hybrid(
+  p_query text default null,
+  p_query_embedding extensions.vector(384) default null,
+  p_embedding_model text default null,
+  p_tags text[] default null,
+  p_price_min numeric default null,
+  p_price_max numeric default null,
+  p_text_weight double precision default 0.45,
+  p_vector_weight double precision default 0.45,
+  p_likes_weight double precision default 0.1,
+  p_min_similarity double precision default 0.3,
+  p_limit integer default 12,
+  p_offset integer default 0
+)
+returns table (
+  prompt jsonb,
+  score double precision,
+  text_rank double precision,
+  vector_similarity double precision,
+  total_count bigint
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with query as (
+    select case
+      when coalesce(trim(p_query), '') = '' then null
+      else websearch_to_tsquery('english', p_query)
+    end as tsq
+  ),
+  scored as (
+    select
+      p.*,
+      case when q.tsq is null then false else p.search_vector @@ q.tsq end as text_match,
+      -- Normalization 32 maps the rank into [0, 1)
+      coalesce(ts_rank_cd(p.search_vector, q.tsq, 32), 0)::double precision as text_rank,
+      case
+        when p_query_embedding is not null and p.embedding is not null and p.embedding_model = p_embedding_model
+          then (1 - (p.embedding <=> p_query_embedding))::double precision
+        else 0
+      end as vector_similarity,
+      -- 1000 likes saturate the popularity signal
+      least(1, ln(1 + greatest(coalesce(p.likes, 0), 0)) / ln(1001))::double precision as likes_score
+    from public.prompts p
+    cross join query q
+    where p.is_public = true
+      and (p_tags is null or p.tags @> p_tags)
+      and (p_price_min is null or p.price >= p_price_min)
+      and (p_price_max is null or p.price <= p_price_max)
+  )
+  select
+    jsonb_build_object(
+      'id', s.id,
+      'title', s.title,
+      'description', s.description,
+      'price', s.price,
+      'tags', s.tags,
+      'preview_image', s.preview_image,
+      'created_at', s.created_at,
+      'likes', s.likes,
+      'user_id', s.user_id,
+      'eval_pass_rate', s.eval_pass_rate,
+      'eval_case_count', s.eval_case_count,
+      'eval_run_at', s.eval_run_at,
+      'eval_stale', s.eval_stale
+    ) as prompt,
+    p_text_weight * s.text_rank + p_vector_weight * s.vector_similarity + p_likes_weight * s.likes_score as score,
+    s.text_rank,
+    s.vector_similarity,
+    count(*) over () as total_count
+  from scored s
+  cross join query q
+  where q.tsq is null or s.text_match or s.vector_similarity >= p_min_similarity
+  order by score desc, s.created_at desc
+  limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_prompts_hybrid(
+  text, extensions.vector, text, text[], numeric, numeric,
+  double precision, double precision, double precision, double precision, integer, integer
+) to anon, authenticated, service_role;
+
+commit;
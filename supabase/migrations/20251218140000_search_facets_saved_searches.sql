@@ -0,0 +1,377 @@
+-- Search facets (category, rating, creator, price) and saved searches with new-prompt alerts
+begin;
+
+-- The upload forms and create route already send a category
+alter table public.prompts
+  add column if not exists category text,
+  add column if not exists rating_avg numeric(3,2),
+  add column if not exists rating_count integer not null default 0;
+
+create index if not exists idx_prompts_category on public.prompts (category);
+create index if not exists idx_prompts_rating_avg on public.prompts (rating_avg);
+
+-- Keeps the rating summary on the prompt so rating filters and facets need no join
+create or replace function public.refresh_prompt_rating(p_prompt_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.prompts p
+  set rating_avg = r.avg_rating,
+      rating_count = r.rating_count
+  from (
+    select round(avg(rating)::numeric, 2) as avg_rating, count(rating)::integer as rating_count
+    from public.prompt_ratings
+    where prompt_id = p_prompt_id and rating is not null
+  ) r
+  where p.id = p_prompt_id;
+$$;
+
+create or replace function public.sync_prompt_rating()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.refresh_prompt_rating(old.prompt_id);
+  end if;
+  if tg_op = 'INSERT' or (tg_op = 'UPDATE' and new.prompt_id is distinct from old.prompt_id) then
+    perform public.refresh_prompt_rating(new.prompt_id);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_prompt_rating on public.prompt_ratings;
+create trigger sync_prompt_rating
+  after insert or update or delete on public.prompt_ratings
+  for each row execute function public.sync_prompt_rating();
+
+select public.refresh_prompt_rating(id) from public.prompts
+where id in (select distinct prompt_id from public.prompt_ratings where prompt_id is not null);
+
+revoke all on function public.refresh_prompt_rating(uuid) from public;
+
+-- The structured search filters shared by search, facets and saved-search alerts; null means "any"
+create or replace function public.prompt_matches_filters(
+  p public.prompts,
+  p_tags text[],
+  p_category text,
+  p_creator uuid,
+  p_price_min numeric,
+  p_price_max numeric,
+  p_min_rating numeric
+)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select p.is_public = true
+    and (p_tags is null or p.tags @> p_tags)
+    and (p_category is null or p.category = p_category)
+    and (p_creator is null or p.user_id = p_creator)
+    and (p_price_min is null or p.price >= p_price_min)
+    and (p_price_max is null or p.price <= p_price_max)
+    and (p_min_rating is null or p.rating_avg >= p_min_rating);
+$$;
+
+-- Same ranking as before, now with the category, creator and rating filters
+drop function if exists public.search_prompts_hybrid(
+  text, extensions.vector, text, text[], numeric, numeric,
+  double precision, double precision, double precision, double precision, integer, integer
+);
+
+create or replace function public.search_prompts_hybrid(
+  p_query text default null,
+  p_query_embedding extensions.vector(384) default null,
+  p_embedding_model text default null,
+  p_tags text[] default null,
+  p_category text default null,
+  p_creator uuid default null,
+  p_price_min numeric default null,
+  p_price_max numeric default null,
+  p_min_rating numeric default null,
+  p_text_weight double precision default 0.45,
+  p_vector_weight double precision default 0.45,
+  p_likes_weight double precision default 0.1,
+  p_min_similarity double precision default 0.3,
+  p_limit integer default 12,
+  p_offset integer default 0
+)
+returns table (
+  prompt jsonb,
+  score double precision,
+  text_rank double precision,
+  vector_similarity double precision,
+  total_count bigint
+)
+language sql
+stable
+set search_path = public, extensions
+as $$
+  with query as (
+    select case
+      when coalesce(trim(p_query), '') = '' then null
+      else websearch_to_tsquery('english', p_query)
+    end as tsq
+  ),
+  scored as (
+    select
+      p.*,
+      case when q.tsq is null then false else p.search_vector @@ q.tsq end as text_match,
+      -- Normalization 32 maps the rank into [0, 1)
+      coalesce(ts_rank_cd(p.search_vector, q.tsq, 32), 0)::double precision as text_rank,
+      case
+        when p_query_embedding is not null and p.embedding is not null and p.embedding_model = p_embedding_model
+          then (1 - (p.embedding <=> p_query_embedding))::double precision
+        else 0
+      end as vector_similarity,
+      -- 1000 likes saturate the popularity signal
+      least(1, ln(1 + greatest(coalesce(p.likes, 0), 0)) / ln(1001))::double precision as likes_score
+    from public.prompts p
+    cross join query q
+    where public.prompt_matches_filters(p, p_tags, p_category, p_creator, p_price_min, p_price_max, p_min_rating)
+  )
+  select
+    jsonb_build_object(
+      'id', s.id,
+      'title', s.title,
+      'description', s.description,
+      'price', s.price,
+      'tags', s.tags,
+      'category', s.category,
+      'preview_image', s.preview_image,
+      'created_at', s.created_at,
+      'likes', s.likes,
+      'user_id', s.user_id,
+      'rating_avg', s.rating_avg,
+      'rating_count', s.rating_count,
+      'eval_pass_rate', s.eval_pass_rate,
+      'eval_case_count', s.eval_case_count,
+      'eval_run_at', s.eval_run_at,
+      'eval_stale', s.eval_stale
+    ) as prompt,
+    p_text_weight * s.text_rank + p_vector_weight * s.vector_similarity + p_likes_weight * s.likes_score as score,
+    s.text_rank,
+    s.vector_similarity,
+    count(*) over () as total_count
+  from scored s
+  cross join query q
+  where q.tsq is null or s.text_match or s.vector_similarity >= p_min_similarity
+  order by score desc, s.created_at desc
+  limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_prompts_hybrid(
+  text, extensions.vector, text, text[], text, uuid, numeric, numeric, numeric,
+  double precision, double precision, double precision, double precision, integer, integer
+) to anon, authenticated, service_role;
+
+-- Facet buckets with counts for the prompts matching a search. Each facet applies every filter
+-- except its own, so picking a price range still shows how many prompts the other ranges hold.
+-- Tags are the exception: tag filters narrow the set, so their counts show tags to add.
+-- Facets count full-text matches only; relevance search may add embedding-only matches.
+-- Security definer so creator names can be read; only public prompts are counted.
+create or replace function public.search_prompt_facets(
+  p_query text default null,
+  p_tags text[] default null,
+  p_category text default null,
+  p_creator uuid default null,
+  p_price_min numeric default null,
+  p_price_max numeric default null,
+  p_min_rating numeric default null,
+  p_price_buckets jsonb default '[]'::jsonb,
+  p_rating_bands numeric[] default '{}',
+  p_facet_limit integer default 20
+)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with query as (
+    select case
+      when coalesce(trim(p_query), '') = '' then null
+      else websearch_to_tsquery('english', p_query)
+    end as tsq
+  ),
+  matched as (
+    select p as prompt
+    from public.prompts p
+    cross join query q
+    where p.is_public = true
+      and (q.tsq is null or p.search_vector @@ q.tsq)
+  )
+  select jsonb_build_object(
+    'tags', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', t.tag, 'count', t.n) order by t.n desc, t.tag), '[]'::jsonb)
+      from (
+        select tag, count(*) as n
+        from matched m
+        cross join lateral unnest((m.prompt).tags) as tag
+        where public.prompt_matches_filters(m.prompt, p_tags, p_category, p_creator, p_price_min, p_price_max, p_min_rating)
+        group by tag
+        order by n desc, tag
+        limit p_facet_limit
+      ) t
+    ),
+    'categories', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', c.category, 'count', c.n) order by c.n desc, c.category), '[]'::jsonb)
+      from (
+        select (m.prompt).category as category, count(*) as n
+        from matched m
+        where (m.prompt).category is not null
+          and public.prompt_matches_filters(m.prompt, p_tags, null, p_creator, p_price_min, p_price_max, p_min_rating)
+        group by (m.prompt).category
+        order by n desc, (m.prompt).category
+        limit p_facet_limit
+      ) c
+    ),
+    'creators', (
+      select coalesce(jsonb_agg(jsonb_build_object('value', c.user_id, 'label', c.label, 'count', c.n) order by c.n desc, c.label), '[]'::jsonb)
+      from (
+        select (m.prompt).user_id as user_id, coalesce(max(pr.full_name), 'Creator') as label, count(*) as n
+        from matched m
+        left join public.profiles pr on pr.id = (m.prompt).user_id
+        where (m.prompt).user_id is not null
+          and public.prompt_matches_filters(m.prompt, p_tags, p_category, null, p_price_min, p_price_max, p_min_rating)
+        group by (m.prompt).user_id
+        order by n desc
+        limit p_facet_limit
+      ) c
+    ),
+    'priceRanges', (
+      select coalesce(jsonb_agg(jsonb_build_object('key', b.bucket->>'key', 'count', (
+        select count(*)
+        from matched m
+        where public.prompt_matches_filters(m.prompt, p_tags, p_category, p_creator, null, null, p_min_rating)
+          and (b.bucket->>'min' is null or (m.prompt).price >= (b.bucket->>'min')::numeric)
+          and (b.bucket->>'max' is null or (m.prompt).price <= (b.bucket->>'max')::numeric)
+      )) order by b.ord), '[]'::jsonb)
+      from jsonb_array_elements(p_price_buckets) with ordinality as b(bucket, ord)
+    ),
+    'ratings', (
+      select coalesce(jsonb_agg(jsonb_build_object('min', r.band, 'count', (
+        select count(*)
+        from matched m
+        where public.prompt_matches_filters(m.prompt, p_tags, p_category, p_creator, p_price_min, p_price_max, null)
+          and (m.prompt).rating_avg >= r.band
+      )) order by r.ord), '[]'::jsonb)
+      from unnest(p_rating_bands) with ordinality as r(band, ord)
+    )
+  );
+$$;
+
+grant execute on function public.search_prompt_facets(
+  text, text[], text, uuid, numeric, numeric, numeric, jsonb, numeric[], integer
+) to anon, authenticated, service_role;
+
+-- Saved searches; filters holds the same fields as the search query string
+create table if not exists public.saved_searches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  filters jsonb not null default '{}'::jsonb,
+  notify boolean not null default true,
+  last_notified_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_saved_searches_user on public.saved_searches (user_id, created_at desc);
+create index if not exists idx_saved_searches_notify on public.saved_searches (notify) where notify = true;
+
+-- One alert per saved search and prompt, even if the prompt is approved again later
+create table if not exists public.saved_search_alerts (
+  saved_search_id uuid not null references public.saved_searches(id) on delete cascade,
+  prompt_id uuid not null references public.prompts(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (saved_search_id, prompt_id)
+);
+
+alter table public.saved_searches enable row level security;
+alter table public.saved_search_alerts enable row level security;
+
+create policy if not exists saved_searches_select_owner
+  on public.saved_searches for select
+  using (user_id = auth.uid() or auth.role() = 'service_role');
+
+create policy if not exists saved_searches_insert_owner
+  on public.saved_searches for insert
+  with check (user_id = auth.uid() or auth.role() = 'service_role');
+
+create policy if not exists saved_searches_update_owner
+  on public.saved_searches for update
+  using (user_id = auth.uid() or auth.role() = 'service_role')
+  with check (user_id = auth.uid() or auth.role() = 'service_role');
+
+create policy if not exists saved_searches_delete_owner
+  on public.saved_searches for delete
+  using (user_id = auth.uid() or auth.role() = 'service_role');
+
+create policy if not exists saved_search_alerts_service_role
+  on public.saved_search_alerts for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Records an alert for every saved search (with notifications on, owned by someone other than the
+-- creator) that an approved public prompt matches, and returns only the ones not alerted before
+create or replace function public.claim_saved_search_matches(p_prompt_id uuid)
+returns table (saved_search_id uuid, user_id uuid, name text)
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  with matches as (
+    select s.id, s.user_id, s.name
+    from public.saved_searches s
+    join public.prompts p on p.id = p_prompt_id
+    where s.notify = true
+      and p.status = 'approved'
+      and s.user_id is distinct from p.user_id
+      and (
+        coalesce(trim(s.filters->>'q'), '') = ''
+        or p.search_vector @@ websearch_to_tsquery('english', s.filters->>'q')
+      )
+      and public.prompt_matches_filters(
+        p,
+        case
+          when jsonb_typeof(s.filters->'tags') = 'array' and jsonb_array_length(s.filters->'tags') > 0
+            then array(select jsonb_array_elements_text(s.filters->'tags'))
+        end,
+        nullif(s.filters->>'category', ''),
+        nullif(s.filters->>'creator', '')::uuid,
+        (s.filters->>'priceMin')::numeric,
+        (s.filters->>'priceMax')::numeric,
+        (s.filters->>'minRating')::numeric
+      )
+  ),
+  claimed as (
+    insert into public.saved_search_alerts (saved_search_id, prompt_id)
+    select m.id, p_prompt_id from matches m
+    on conflict do nothing
+    returning saved_search_alerts.saved_search_id
+  ),
+  touched as (
+    update public.saved_searches s
+    set last_notified_at = now()
+    from claimed c
+    where s.id = c.saved_search_id
+    returning s.id
+  )
+  select m.id, m.user_id, m.name
+  from matches m
+  join touched t on t.id = m.id;
+$$;
+
+revoke all on function public.claim_saved_search_matches(uuid) from public;
+grant execute on function public.claim_saved_search_matches(uuid) to service_role;
+
+commit;
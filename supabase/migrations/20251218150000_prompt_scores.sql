@@ -0,0 +1,220 @@
+-- Trending and quality scores for prompts, recomputed by the prompt-scores cron job
+begin;
+
+-- The prompt page already logs views here; older databases never created the table
+create table if not exists public.prompt_views (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references public.prompts (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists prompt_views_prompt_idx on public.prompt_views (prompt_id);
+create index if not exists idx_prompt_views_created_at on public.prompt_views (created_at);
+create index if not exists idx_purchases_created_at on public.purchases (created_at);
+
+alter table public.prompt_views enable row level security;
+
+create policy if not exists "Prompt views service role only"
+  on public.prompt_views for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- One row per public prompt, replaced wholesale by refresh_prompt_scores
+create table if not exists public.prompt_scores (
+  prompt_id uuid primary key references public.prompts (id) on delete cascade,
+  bayesian_rating double precision not null,
+  recent_purchases integer not null default 0,
+  recent_views integer not null default 0,
+  trending_score double precision not null default 0,
+  computed_at timestamptz not null default now()
+);
+
+create index if not exists idx_prompt_scores_trending on public.prompt_scores (trending_score desc);
+create index if not exists idx_prompt_scores_rating on public.prompt_scores (bayesian_rating desc);
+
+alter table public.prompt_scores enable row level security;
+
+create policy if not exists "Prompt scores are readable"
+  on public.prompt_scores for select
+  using (true);
+
+create policy if not exists "Prompt scores service role writes"
+  on public.prompt_scores for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Bayesian rating: the prompt's ratings plus p_prior_weight phantom ratings at the catalogue mean,
+-- so a single 5-star rating does not outrank fifty 4.8s. Purchases and views inside the window
+-- count with exponential decay by event age. The trending score adds the log-scaled activity to
+-- the rating, so quality keeps a prompt visible in quiet weeks and a burst of sales can lift it.
+create or replace function public.refresh_prompt_scores(
+  p_prior_weight double precision default 5,
+  p_window_days integer default 14,
+  p_half_life_hours double precision default 72,
+  p_rating_weight double precision default 0.4,
+  p_purchases_weight double precision default 0.4,
+  p_views_weight double precision default 0.2
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+  v_mean double precision;
+  v_since timestamptz := now() - make_interval(days => greatest(p_window_days, 1));
+begin
+  select coalesce(avg(rating)::double precision, 3) into v_mean
+  from public.prompt_ratings
+  where rating is not null;
+
+  with ratings as (
+    select prompt_id, count(rating)::double precision as n, sum(rating)::double precision as total
+    from public.prompt_ratings
+    where rating is not null
+    group by prompt_id
+  ),
+  purchases as (
+    select prompt_id,
+      count(*)::integer as n,
+      sum(power(0.5, extract(epoch from (now() - created_at)) / 3600 / p_half_life_hours))::double precision as decayed
+    from public.purchases
+    where created_at >= v_since
+      and coalesce(status, 'paid') in ('paid', 'partially_refunded')
+    group by prompt_id
+  ),
+  views as (
+    select prompt_id,
+      count(*)::integer as n,
+      sum(power(0.5, extract(epoch from (now() - created_at)) / 3600 / p_half_life_hours))::double precision as decayed
+    from public.prompt_views
+    where created_at >= v_since
+    group by prompt_id
+  ),
+  scored as (
+    select
+      p.id as prompt_id,
+      (p_prior_weight * v_mean + coalesce(r.total, 0)) / (p_prior_weight + coalesce(r.n, 0)) as bayesian_rating,
+      coalesce(pu.n, 0) as recent_purchases,
+      coalesce(v.n, 0) as recent_views,
+      coalesce(pu.decayed, 0) as decayed_purchases,
+      coalesce(v.decayed, 0) as decayed_views
+    from public.prompts p
+    left join ratings r on r.prompt_id = p.id
+    left join purchases pu on pu.prompt_id = p.id
+    left join views v on v.prompt_id = p.id
+    where p.is_public = true
+  ),
+  upserted as (
+    insert into public.prompt_scores (
+      prompt_id, bayesian_rating, recent_purchases, recent_views, trending_score, computed_at
+    )
+    select
+      s.prompt_id,
+      s.bayesian_rating,
+      s.recent_purchases,
+      s.recent_views,
+      -- 100 decayed purchases or 1000 decayed views saturate their signals
+      p_rating_weight * (s.bayesian_rating / 5)
+        + p_purchases_weight * least(1, ln(1 + s.decayed_purchases) / ln(101))
+        + p_views_weight * least(1, ln(1 + s.decayed_views) / ln(1001)),
+      now()
+    from scored s
+    on conflict (prompt_id) do update set
+      bayesian_rating = excluded.bayesian_rating,
+      recent_purchases = excluded.recent_purchases,
+      recent_views = excluded.recent_views,
+      trending_score = excluded.trending_score,
+      computed_at = excluded.computed_at
+    returning 1
+  )
+  select count(*) into v_count from upserted;
+
+  -- Prompts that were unpublished since the last run
+  delete from public.prompt_scores s
+  where not exists (select 1 from public.prompts p where p.id = s.prompt_id and p.is_public = true);
+
+  return v_count;
+end;
+$$;
+
+revoke all on function public.refresh_prompt_scores(
+  double precision, integer, double precision, double precision, double precision, double precision
+) from public;
+grant execute on function public.refresh_prompt_scores(
+  double precision, integer, double precision, double precision, double precision, double precision
+) to service_role;
+
+-- Search ordered by the stored scores, with the same filters as search_prompts_hybrid.
+-- Prompts published since the last refresh have no score row yet and sort last.
+create or replace function public.search_prompts_by_score(
+  p_sort text default 'trending',
+  p_query text default null,
+  p_tags text[] default null,
+  p_category text default null,
+  p_creator uuid default null,
+  p_price_min numeric default null,
+  p_price_max numeric default null,
+  p_min_rating numeric default null,
+  p_limit integer default 12,
+  p_offset integer default 0
+)
+returns table (
+  prompt jsonb,
+  score double precision,
+  total_count bigint
+)
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select case
+      when coalesce(trim(p_query), '') = '' then null
+      else websearch_to_tsquery('english', p_query)
+    end as tsq
+  ),
+  scored as (
+    select
+      p.*,
+      case when p_sort = 'rating' then s.bayesian_rating else s.trending_score end as sort_score
+    from public.prompts p
+    cross join query q
+    left join public.prompt_scores s on s.prompt_id = p.id
+    where public.prompt_matches_filters(p, p_tags, p_category, p_creator, p_price_min, p_price_max, p_min_rating)
+      and (q.tsq is null or p.search_vector @@ q.tsq)
+  )
+  select
+    jsonb_build_object(
+      'id', s.id,
+      'title', s.title,
+      'description', s.description,
+      'price', s.price,
+      'tags', s.tags,
+      'category', s.category,
+      'preview_image', s.preview_image,
+      'created_at', s.created_at,
+      'likes', s.likes,
+      'user_id', s.user_id,
+      'rating_avg', s.rating_avg,
+      'rating_count', s.rating_count,
+      'eval_pass_rate', s.eval_pass_rate,
+      'eval_case_count', s.eval_case_count,
+      'eval_run_at', s.eval_run_at,
+      'eval_stale', s.eval_stale
+    ) as prompt,
+    s.sort_score as score,
+    count(*) over () as total_count
+  from scored s
+  order by s.sort_score desc nulls last, s.created_at desc
+  limit greatest(p_limit, 0)
+  offset greatest(p_offset, 0);
+$$;
+
+grant execute on function public.search_prompts_by_score(
+  text, text, text[], text, uuid, numeric, numeric, numeric, integer, integer
+) to anon, authenticated, service_role;
+
+commit;
@@ -0,0 +1,111 @@
+-- Moderation queue: reviewer claims with expiry, submission time for SLA tracking, and a full
+-- moderation_actions trail (claims, assignments, releases and each approval of a two-reviewer prompt)
+begin;
+
+-- moderation_actions.prompt_id was declared int, but prompt ids are uuids
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'moderation_actions'
+      and column_name = 'prompt_id' and data_type = 'integer'
+  ) then
+    alter table public.moderation_actions drop constraint if exists moderation_actions_prompt_id_fkey;
+    -- Integer ids cannot refer to any prompt, so there are no rows worth keeping
+    delete from public.moderation_actions;
+    alter table public.moderation_actions alter column prompt_id type uuid using null;
+    alter table public.moderation_actions
+      add constraint moderation_actions_prompt_id_fkey
+      foreign key (prompt_id) references public.prompts (id) on delete cascade;
+  end if;
+end;
+$$;
+
+alter table public.moderation_actions
+  add column if not exists details jsonb not null default '{}'::jsonb;
+
+create index if not exists idx_moderation_actions_created_at on public.moderation_actions (created_at desc);
+
+alter table public.moderation_actions enable row level security;
+
+create policy if not exists "Moderation actions service role only"
+  on public.moderation_actions for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- The queue is ordered by when a prompt entered review, not when it was first drafted
+alter table public.prompts add column if not exists submitted_at timestamptz;
+
+update public.prompts
+set submitted_at = created_at
+where status = 'submitted' and submitted_at is null;
+
+create index if not exists idx_prompts_submitted_queue on public.prompts (submitted_at) where status = 'submitted';
+
+create or replace function public.set_prompt_submitted_at()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = 'submitted' and (tg_op = 'INSERT' or old.status is distinct from 'submitted') then
+    new.submitted_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists set_prompt_submitted_at on public.prompts;
+create trigger set_prompt_submitted_at
+  before insert or update of status on public.prompts
+  for each row execute function public.set_prompt_submitted_at();
+
+-- At most one reviewer holds a prompt at a time; an expired claim is free for anyone to take
+create table if not exists public.moderation_claims (
+  prompt_id uuid primary key references public.prompts (id) on delete cascade,
+  reviewer_id uuid not null references public.profiles (id) on delete cascade,
+  assigned_by uuid references public.profiles (id) on delete set null,
+  claimed_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists idx_moderation_claims_reviewer on public.moderation_claims (reviewer_id);
+
+alter table public.moderation_claims enable row level security;
+
+create policy if not exists "Moderation claims service role only"
+  on public.moderation_claims for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Claims a submitted prompt for p_reviewer_id. Returns no row when another reviewer holds an
+-- unexpired claim, unless p_assigned_by is set: an admin assigning the prompt takes it over.
+create or replace function public.claim_moderation_prompt(
+  p_prompt_id uuid,
+  p_reviewer_id uuid,
+  p_ttl_seconds integer,
+  p_assigned_by uuid default null
+)
+returns setof public.moderation_claims
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  insert into public.moderation_claims as c (prompt_id, reviewer_id, assigned_by, claimed_at, expires_at)
+  select p.id, p_reviewer_id, p_assigned_by, now(), now() + make_interval(secs => greatest(p_ttl_seconds, 60))
+  from public.prompts p
+  where p.id = p_prompt_id and p.status = 'submitted'
+  on conflict (prompt_id) do update set
+    reviewer_id = excluded.reviewer_id,
+    assigned_by = excluded.assigned_by,
+    claimed_at = excluded.claimed_at,
+    expires_at = excluded.expires_at
+  where c.expires_at <= now() or c.reviewer_id = excluded.reviewer_id or excluded.assigned_by is not null
+  returning c.*;
+$$;
+
+revoke all on function public.claim_moderation_prompt(uuid, uuid, integer, uuid) from public;
+grant execute on function public.claim_moderation_prompt(uuid, uuid, integer, uuid) to service_role;
+
+commit;
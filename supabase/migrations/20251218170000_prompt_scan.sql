@@ -0,0 +1,56 @@
+-- Automated pre-moderation scan of submitted prompts: findings, risk score and near-duplicate lookup
+begin;
+
+alter table public.prompts
+  add column if not exists scan_findings jsonb not null default '[]'::jsonb,
+  -- 0-100, null until the prompt has been scanned
+  add column if not exists risk_score integer,
+  add column if not exists scanned_at timestamptz;
+
+alter table public.prompts drop constraint if exists prompts_risk_score_check;
+alter table public.prompts
+  add constraint prompts_risk_score_check check (risk_score is null or risk_score between 0 and 100);
+
+create index if not exists idx_prompts_submitted_risk on public.prompts (risk_score desc) where status = 'submitted';
+
+-- Scanner rejections have no reviewer
+alter table public.moderation_actions alter column admin_id drop not null;
+
+-- Other creators' submitted or approved prompts whose search embedding is close to this one's
+create or replace function public.find_similar_prompts(
+  p_prompt_id uuid,
+  p_min_similarity double precision default 0.9,
+  p_limit integer default 5
+)
+returns table (
+  id uuid,
+  title text,
+  user_id uuid,
+  similarity double precision
+)
+language sql
+stable
+security definer
+set search_path = public, extensions
+as $$
+  select m.id, m.title, m.user_id, m.similarity
+  from (
+    select o.id, o.title, o.user_id, (1 - (o.embedding <=> p.embedding))::double precision as similarity
+    from public.prompts p
+    join public.prompts o
+      on o.id <> p.id
+      and o.embedding is not null
+      and o.embedding_model = p.embedding_model
+      and o.user_id is distinct from p.user_id
+      and o.status in ('submitted', 'approved')
+    where p.id = p_prompt_id and p.embedding is not null
+    order by o.embedding <=> p.embedding
+    limit greatest(p_limit, 0)
+  ) m
+  where m.similarity >= p_min_similarity;
+$$;
+
+revoke all on function public.find_similar_prompts(uuid, double precision, integer) from public;
+grant execute on function public.find_similar_prompts(uuid, double precision, integer) to service_role;
+
+commit;
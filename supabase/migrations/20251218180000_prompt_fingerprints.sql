@@ -0,0 +1,85 @@
+-- MinHash text fingerprints of prompt_text with LSH bands, for catching copied and resold prompts
+begin;
+
+-- The signature is written by the app (lib/moderation/fingerprint.ts); fingerprint_algorithm
+-- records its parameters so a change recomputes the catalogue
+alter table public.prompts
+  add column if not exists text_fingerprint integer[],
+  add column if not exists fingerprint_algorithm text,
+  add column if not exists fingerprinted_at timestamptz;
+
+create index if not exists idx_prompts_fingerprint_algorithm on public.prompts (fingerprint_algorithm);
+
+-- One row per band of a prompt's signature; prompts sharing a band are candidate copies
+create table if not exists public.prompt_fingerprint_bands (
+  band text not null,
+  prompt_id uuid not null references public.prompts (id) on delete cascade,
+  primary key (band, prompt_id)
+);
+
+create index if not exists idx_prompt_fingerprint_bands_prompt_id on public.prompt_fingerprint_bands (prompt_id);
+
+alter table public.prompt_fingerprint_bands enable row level security;
+
+-- Fingerprints reveal which listings copy each other; only the service role reads or writes them
+create policy if not exists prompt_fingerprint_bands_service_only
+  on public.prompt_fingerprint_bands for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- Editing the text clears the fingerprint and its bands unless the same update writes a new one;
+-- the app fingerprints after saving and the fingerprint-prompts job catches up on anything missed
+create or replace function public.clear_stale_prompt_fingerprint()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.prompt_text is distinct from old.prompt_text
+     and new.text_fingerprint is not distinct from old.text_fingerprint then
+    new.text_fingerprint := null;
+    new.fingerprint_algorithm := null;
+    new.fingerprinted_at := null;
+    delete from public.prompt_fingerprint_bands where prompt_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists clear_stale_prompt_fingerprint on public.prompts;
+create trigger clear_stale_prompt_fingerprint
+  before update of prompt_text on public.prompts
+  for each row execute function public.clear_stale_prompt_fingerprint();
+
+-- Pairs of prompts sharing at least p_min_shared_bands bands, most shared first; the app scores
+-- each pair on the full signature before clustering
+create or replace function public.prompt_similarity_pairs(
+  p_min_shared_bands integer default 1,
+  p_limit integer default 500
+)
+returns table (
+  prompt_a uuid,
+  prompt_b uuid,
+  shared_bands integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.prompt_id, b.prompt_id, count(*)::integer
+  from public.prompt_fingerprint_bands a
+  join public.prompt_fingerprint_bands b
+    on b.band = a.band
+    and b.prompt_id > a.prompt_id
+  group by a.prompt_id, b.prompt_id
+  having count(*) >= greatest(p_min_shared_bands, 1)
+  order by count(*) desc
+  limit greatest(p_limit, 0);
+$$;
+
+revoke all on function public.prompt_similarity_pairs(integer, integer) from public;
+grant execute on function public.prompt_similarity_pairs(integer, integer) to service_role;
+
+commit;
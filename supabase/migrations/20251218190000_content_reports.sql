@@ -0,0 +1,125 @@
+-- User reports of prompts, comments and ratings, admin takedowns and creator appeals
+begin;
+
+-- Prompts taken down after a report; the creator may appeal
+alter table public.prompts drop constraint if exists prompts_status_check;
+alter table public.prompts
+  add constraint prompts_status_check check (status in ('draft','submitted','approved','rejected','archived','removed'));
+
+-- Hidden comments and ratings stay in place for the audit trail but are no longer shown
+alter table public.prompt_comments add column if not exists hidden_at timestamptz;
+alter table public.prompt_ratings add column if not exists hidden_at timestamptz;
+
+drop policy if exists prompt_comments_select on public.prompt_comments;
+create policy prompt_comments_select
+  on public.prompt_comments for select
+  using (
+    auth.role() = 'service_role'
+    or user_id = auth.uid()
+    or exists(select 1 from public.profiles ap where ap.id = auth.uid() and coalesce(ap.is_admin,false) = true)
+    or (
+      hidden_at is null
+      and exists(select 1 from public.prompts p where p.id = prompt_comments.prompt_id and (p.is_public = true or p.user_id = auth.uid()))
+    )
+  );
+
+drop policy if exists prompt_ratings_select on public.prompt_ratings;
+create policy prompt_ratings_select
+  on public.prompt_ratings for select
+  using (
+    auth.role() = 'service_role'
+    or user_id = auth.uid()
+    or exists(select 1 from public.profiles ap where ap.id = auth.uid() and coalesce(ap.is_admin,false) = true)
+    or (
+      hidden_at is null
+      and exists(select 1 from public.prompts p where p.id = prompt_ratings.prompt_id and p.is_public = true)
+    )
+  );
+
+-- Hidden ratings no longer count towards the prompt's average
+create or replace function public.refresh_prompt_rating(p_prompt_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.prompts p
+  set rating_avg = r.avg_rating,
+      rating_count = r.rating_count
+  from (
+    select round(avg(rating)::numeric, 2) as avg_rating, count(rating)::integer as rating_count
+    from public.prompt_ratings
+    where prompt_id = p_prompt_id and rating is not null and hidden_at is null
+  ) r
+  where p.id = p_prompt_id;
+$$;
+
+revoke all on function public.refresh_prompt_rating(uuid) from public;
+
+create table if not exists public.content_reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid not null references auth.users (id) on delete cascade,
+  target_type text not null check (target_type in ('prompt', 'comment', 'rating')),
+  target_id uuid not null,
+  -- The prompt the reported content belongs to, for links and context
+  prompt_id uuid references public.prompts (id) on delete set null,
+  reported_user_id uuid references auth.users (id) on delete set null,
+  reason text not null check (
+    reason in ('spam', 'harassment', 'hate', 'sexual_content', 'violence', 'ip_infringement', 'scam', 'other')
+  ),
+  details text,
+  status text not null default 'open' check (status in ('open', 'dismissed', 'actioned')),
+  resolution text check (resolution in ('dismiss', 'hide', 'warn', 'ban')),
+  resolution_note text,
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- One open report per reporter and piece of content
+create unique index if not exists idx_content_reports_open_unique
+  on public.content_reports (reporter_id, target_type, target_id) where status = 'open';
+create index if not exists idx_content_reports_open
+  on public.content_reports (target_type, target_id) where status = 'open';
+create index if not exists idx_content_reports_reported_user on public.content_reports (reported_user_id);
+
+alter table public.content_reports enable row level security;
+
+create policy if not exists content_reports_select_reporter_service
+  on public.content_reports for select
+  using (auth.role() = 'service_role' or reporter_id = auth.uid());
+
+create policy if not exists content_reports_write_service_only
+  on public.content_reports for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create table if not exists public.prompt_appeals (
+  id uuid primary key default gen_random_uuid(),
+  prompt_id uuid not null references public.prompts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  message text not null,
+  status text not null default 'pending' check (status in ('pending', 'granted', 'denied')),
+  decided_by uuid references auth.users (id) on delete set null,
+  decision_note text,
+  decided_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- A removed prompt has at most one appeal waiting for a decision
+create unique index if not exists idx_prompt_appeals_pending_unique
+  on public.prompt_appeals (prompt_id) where status = 'pending';
+create index if not exists idx_prompt_appeals_user on public.prompt_appeals (user_id);
+
+alter table public.prompt_appeals enable row level security;
+
+create policy if not exists prompt_appeals_select_owner_service
+  on public.prompt_appeals for select
+  using (auth.role() = 'service_role' or user_id = auth.uid());
+
+create policy if not exists prompt_appeals_write_service_only
+  on public.prompt_appeals for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+commit;
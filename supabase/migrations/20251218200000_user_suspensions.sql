@@ -0,0 +1,122 @@
+-- Temporary and permanent account suspensions with an audit trail
+begin;
+
+-- is_banned marks a permanent ban; suspended_until a temporary suspension
+alter table public.profiles
+  add column if not exists is_banned boolean not null default false,
+  add column if not exists suspended_until timestamptz,
+  add column if not exists suspension_reason text;
+
+-- Users may update their own profile, but only the service role may change their suspension
+create or replace function public.protect_profile_suspension()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.role() is distinct from 'service_role' then
+    new.is_banned := old.is_banned;
+    new.suspended_until := old.suspended_until;
+    new.suspension_reason := old.suspension_reason;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_suspension on public.profiles;
+create trigger protect_profile_suspension
+  before update on public.profiles
+  for each row execute function public.protect_profile_suspension();
+
+-- Listings hidden because their creator was suspended, so lifting the suspension relists exactly those
+alter table public.prompts add column if not exists suspended_at timestamptz;
+create index if not exists idx_prompts_suspended_at on public.prompts (user_id) where suspended_at is not null;
+
+create table if not exists public.user_suspensions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('temporary', 'permanent')),
+  reason text not null,
+  -- Null for permanent bans
+  ends_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  listings_hidden integer not null default 0,
+  swaps_cancelled integer not null default 0,
+  lifted_at timestamptz,
+  -- Null when a temporary suspension ran out on its own
+  lifted_by uuid references auth.users (id) on delete set null,
+  lift_reason text,
+  check (kind = 'permanent' or ends_at is not null)
+);
+
+-- At most one suspension in force per user
+create unique index if not exists idx_user_suspensions_active
+  on public.user_suspensions (user_id) where lifted_at is null;
+create index if not exists idx_user_suspensions_user on public.user_suspensions (user_id, created_at desc);
+
+alter table public.user_suspensions enable row level security;
+
+create policy if not exists user_suspensions_select_self_service
+  on public.user_suspensions for select
+  using (auth.role() = 'service_role' or user_id = auth.uid());
+
+create policy if not exists user_suspensions_write_service_only
+  on public.user_suspensions for all
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- True while a ban or an unexpired temporary suspension is in force
+create or replace function public.is_user_suspended(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists(
+    select 1 from public.profiles
+    where id = p_user_id
+      and (coalesce(is_banned, false) = true or suspended_until > now())
+  );
+$$;
+
+revoke all on function public.is_user_suspended(uuid) from public;
+grant execute on function public.is_user_suspended(uuid) to authenticated, service_role;
+
+-- The app blocks writes from suspended users in middleware; these restrictive policies also cover
+-- pages that write through the browser client. The service role bypasses RLS and is unaffected.
+create policy if not exists prompts_insert_not_suspended
+  on public.prompts as restrictive for insert
+  with check (not public.is_user_suspended(auth.uid()));
+create policy if not exists prompts_update_not_suspended
+  on public.prompts as restrictive for update
+  using (not public.is_user_suspended(auth.uid()));
+
+create policy if not exists prompt_comments_insert_not_suspended
+  on public.prompt_comments as restrictive for insert
+  with check (not public.is_user_suspended(auth.uid()));
+create policy if not exists prompt_comments_update_not_suspended
+  on public.prompt_comments as restrictive for update
+  using (not public.is_user_suspended(auth.uid()));
+
+create policy if not exists prompt_ratings_insert_not_suspended
+  on public.prompt_ratings as restrictive for insert
+  with check (not public.is_user_suspended(auth.uid()));
+create policy if not exists prompt_ratings_update_not_suspended
+  on public.prompt_ratings as restrictive for update
+  using (not public.is_user_suspended(auth.uid()));
+
+create policy if not exists swaps_insert_not_suspended
+  on public.swaps as restrictive for insert
+  with check (not public.is_user_suspended(auth.uid()));
+create policy if not exists swaps_update_not_suspended
+  on public.swaps as restrictive for update
+  using (not public.is_user_suspended(auth.uid()));
+
+create policy if not exists cart_items_insert_not_suspended
+  on public.cart_items as restrictive for insert
+  with check (not public.is_user_suspended(auth.uid()));
+
+commit;
@@ -0,0 +1,202 @@
+-- New text for an approved prompt is reviewed before buyers see it, while the listing stays on sale
+-- with its last published text
+begin;
+
+-- The version number of an approved prompt's edit that waits for review; null when there is none
+alter table public.prompts add column if not exists pending_version integer;
+
+create index if not exists idx_prompts_pending_version on public.prompts (submitted_at) where pending_version is not null;
+
+-- Set when a moderator or the scan turns down an edit; a rejected version is never published
+alter table public.prompt_versions add column if not exists rejected_at timestamptz;
+
+-- Versions never change once written; only publication or rejection (null -> timestamp, once) may be recorded later
+create or replace function public.prevent_prompt_version_changes()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.prompt_id is distinct from old.prompt_id
+    or new.user_id is distinct from old.user_id
+    or new.version_number is distinct from old.version_number
+    or new.content is distinct from old.content
+    or new.notes is distinct from old.notes
+    or new.created_at is distinct from old.created_at
+    or (old.published_at is not null and new.published_at is distinct from old.published_at)
+    or (old.rejected_at is not null and new.rejected_at is distinct from old.rejected_at)
+    or (new.published_at is not null and new.rejected_at is not null) then
+    raise exception 'Prompt versions are immutable' using errcode = '55000';
+  end if;
+  return new;
+end;
+$$;
+
+-- Writes the next version of a prompt. Versions are never published here. A prompt that is not
+-- approved takes the new text at once, as it is not on sale; an approved prompt keeps selling its
+-- current text and the version waits in the moderation queue until a moderator approves it.
+create or replace function public.create_prompt_version(
+  p_prompt_id uuid,
+  p_user_id uuid,
+  p_content text,
+  p_notes text,
+  p_variable_schema jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_next integer;
+  v_version public.prompt_versions;
+begin
+  select status into v_status
+  from public.prompts
+  where id = p_prompt_id and user_id = p_user_id
+  for update;
+
+  if not found then
+    raise exception 'Prompt % not found for user %', p_prompt_id, p_user_id using errcode = 'P0002';
+  end if;
+
+  select coalesce(max(version_number), 0) + 1 into v_next
+  from public.prompt_versions
+  where prompt_id = p_prompt_id;
+
+  insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at)
+  values (p_prompt_id, p_user_id, v_next, p_content, nullif(trim(p_notes), ''), null)
+  returning * into v_version;
+
+  if v_status = 'approved' then
+    update public.prompts
+    set pending_version = v_next,
+      submitted_at = now()
+    where id = p_prompt_id;
+  else
+    update public.prompts
+    set prompt_text = p_content,
+      variable_schema = coalesce(p_variable_schema, variable_schema),
+      version = v_next
+    where id = p_prompt_id;
+  end if;
+
+  return to_jsonb(v_version);
+end;
+$$;
+
+-- Text written to an approved prompt outside create_prompt_version (e.g. an owner updating the row
+-- from the browser) is held back the same way: it becomes a pending version and the row keeps its
+-- published text. Text that is already the newest version (an approved edit being applied) passes.
+create or replace function public.hold_approved_prompt_text()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_latest public.prompt_versions;
+begin
+  if old.status is distinct from 'approved' or new.status is distinct from 'approved'
+    or new.prompt_text is null or new.prompt_text is not distinct from old.prompt_text then
+    return new;
+  end if;
+
+  select * into v_latest
+  from public.prompt_versions
+  where prompt_id = new.id
+  order by version_number desc
+  limit 1;
+
+  if v_latest.id is not null and v_latest.content = new.prompt_text then
+    return new;
+  end if;
+
+  insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at)
+  values (new.id, new.user_id, coalesce(v_latest.version_number, 0) + 1, new.prompt_text, null, null);
+
+  new.prompt_text := old.prompt_text;
+  new.variable_schema := old.variable_schema;
+  new.pending_version := coalesce(v_latest.version_number, 0) + 1;
+  new.submitted_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists prompts_hold_approved_text on public.prompts;
+create trigger prompts_hold_approved_text
+  before update of prompt_text on public.prompts
+  for each row execute function public.hold_approved_prompt_text();
+
+-- Text written outside create_prompt_version to a prompt that is not on sale still gets a version;
+-- only a prompt created already approved publishes it straight away
+create or replace function public.snapshot_prompt_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_latest public.prompt_versions;
+begin
+  if new.prompt_text is null then
+    return null;
+  end if;
+
+  -- Held back by hold_approved_prompt_text, or the column was set to the text it already had
+  if tg_op = 'UPDATE' and new.prompt_text is not distinct from old.prompt_text then
+    return null;
+  end if;
+
+  select * into v_latest
+  from public.prompt_versions
+  where prompt_id = new.id
+  order by version_number desc
+  limit 1;
+
+  if v_latest.id is not null and v_latest.content = new.prompt_text then
+    return null;
+  end if;
+
+  insert into public.prompt_versions (prompt_id, user_id, version_number, content, notes, published_at)
+  values (new.id, new.user_id, coalesce(v_latest.version_number, 0) + 1, new.prompt_text,
+    case when v_latest.id is null then 'Initial version' end,
+    case when tg_op = 'INSERT' and new.status = 'approved' then now() end);
+
+  update public.prompts
+  set version = coalesce(v_latest.version_number, 0) + 1
+  where id = new.id and version is distinct from coalesce(v_latest.version_number, 0) + 1;
+
+  return null;
+end;
+$$;
+
+-- Reviewers claim submitted prompts and approved prompts with an edit waiting for review
+create or replace function public.claim_moderation_prompt(
+  p_prompt_id uuid,
+  p_reviewer_id uuid,
+  p_ttl_seconds integer,
+  p_assigned_by uuid default null
+)
+returns setof public.moderation_claims
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  insert into public.moderation_claims as c (prompt_id, reviewer_id, assigned_by, claimed_at, expires_at)
+  select p.id, p_reviewer_id, p_assigned_by, now(), now() + make_interval(secs => greatest(p_ttl_seconds, 60))
+  from public.prompts p
+  where p.id = p_prompt_id
+    and (p.status = 'submitted' or (p.status = 'approved' and p.pending_version is not null))
+  on conflict (prompt_id) do update set
+    reviewer_id = excluded.reviewer_id,
+    assigned_by = excluded.assigned_by,
+    claimed_at = excluded.claimed_at,
+    expires_at = excluded.expires_at
+  where c.expires_at <= now() or c.reviewer_id = excluded.reviewer_id or excluded.assigned_by is not null
+  returning c.*;
+$$;
+
+commit;
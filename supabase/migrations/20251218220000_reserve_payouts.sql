@@ -0,0 +1,66 @@
+-- Serialize each creator's payouts so two runs cannot both send the same balance
+begin;
+
+-- Reserves a payout by writing its pending row before any money moves. A per-creator advisory lock
+-- makes manual and scheduled payouts take turns: the balance is recomputed from the ledger and the
+-- payouts still pending under the lock, so whichever comes second sees the first one's reservation.
+-- The amount is capped at what is left; nothing left raises 23514. The refund holdback is passed in
+-- because it only depends on recent sales, not on other payouts. Calling it again with the same
+-- key returns the payout already reserved.
+create or replace function public.reserve_payout(
+  p_creator_id uuid,
+  p_amount_cents integer,
+  p_holdback_cents integer,
+  p_trigger text,
+  p_idempotency_key text,
+  p_destination text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_existing public.payouts;
+  v_payout public.payouts;
+  v_available integer;
+  v_pending integer;
+  v_payable integer;
+  v_amount integer;
+begin
+  perform pg_advisory_xact_lock(hashtextextended('payout:' || p_creator_id::text, 0));
+
+  select * into v_existing from public.payouts where idempotency_key = p_idempotency_key;
+  if found then
+    return to_jsonb(v_existing);
+  end if;
+
+  select greatest(0, coalesce(sum(case when direction = 'credit' then amount_cents else -amount_cents end), 0))
+  into v_available
+  from public.ledger_entries
+  where creator_id = p_creator_id and account = 'creator_payable';
+
+  select coalesce(sum(round(amount * 100)), 0)
+  into v_pending
+  from public.payouts
+  where seller_id = p_creator_id and status = 'pending';
+
+  v_payable := greatest(0, v_available - least(v_available, greatest(p_holdback_cents, 0)) - v_pending);
+  v_amount := least(p_amount_cents, v_payable);
+
+  if v_amount <= 0 then
+    raise exception 'No payable balance left for creator %', p_creator_id using errcode = '23514';
+  end if;
+
+  insert into public.payouts (seller_id, amount, currency, status, trigger, idempotency_key, destination_account)
+  values (p_creator_id, v_amount / 100.0, 'usd', 'pending', p_trigger, p_idempotency_key, p_destination)
+  returning * into v_payout;
+
+  return to_jsonb(v_payout);
+end;
+$$;
+
+revoke all on function public.reserve_payout(uuid, integer, integer, text, text, text) from public;
+grant execute on function public.reserve_payout(uuid, integer, integer, text, text, text) to service_role;
+
+commit;
@@ -0,0 +1,140 @@
+import { randomBytes } from 'crypto';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { decryptApiKey, encryptApiKey, spendMonth } from '@/lib/api-keys';
+
+let keysRoute: any;
+let keyRoute: any;
+let testRoute: any;
+let supabaseMockRef: any;
+const axiosPost = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(supabaseMockRef.data.authUser)),
+}));
+
+vi.mock('axios', () => ({
+  default: { post: (...args: any[]) => axiosPost(...args) },
+}));
+
+beforeAll(async () => {
+  process.env.API_KEY_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+  keysRoute = await import('@/app/api/api-keys/route');
+  keyRoute = await import('@/app/api/api-keys/[id]/route');
+  testRoute = await import('@/app/api/prompts/[id]/test/route');
+});
+
+beforeEach(() => {
+  axiosPost.mockReset();
+  axiosPost.mockResolvedValue({
+    data: { choices: [{ message: { content: 'model output' }, finish_reason: 'stop' }], usage: { prompt_tokens: 1000, completion_tokens: 500 } },
+  });
+});
+
+function seed(overrides: Record<string, unknown> = {}) {
+  return {
+    authUser: { id: 'buyer1' },
+    prompts: [{ id: '1', user_id: 'seller1', prompt_text: 'Summarize {{topic}}', price: 0, status: 'approved' }],
+    user_api_keys: [
+      {
+        id: 'key1',
+        user_id: 'buyer1',
+        provider: 'openai',
+        label: 'Personal',
+        encrypted_key: encryptApiKey('sk-saved-secret', 'buyer1', 'openai'),
+        key_hint: 'cret',
+        monthly_cap_cents: 500,
+        month_spend_micros: 0,
+        spend_month: null,
+        last_used_at: null,
+        revoked_at: null,
+        created_at: '2025-01-01T00:00:00Z',
+        ...overrides,
+      },
+    ],
+  };
+}
+
+function runTest(body: unknown) {
+  return testRoute.POST(
+    new NextRequest('http://localhost/api/prompts/1/test', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'x-forwarded-for': `10.2.0.${Math.floor(Math.random() * 250)}` },
+    }),
+    { params: Promise.resolve({ id: '1' }) }
+  );
+}
+
+describe('saved API keys', () => {
+  it('encrypts keys bound to their owner and provider', () => {
+    const ciphertext = encryptApiKey('sk-live-1234', 'user1', 'openai');
+
+    expect(ciphertext).not.toContain('sk-live-1234');
+    expect(decryptApiKey(ciphertext, 'user1', 'openai')).toBe('sk-live-1234');
+    expect(() => decryptApiKey(ciphertext, 'user2', 'openai')).toThrow();
+  });
+
+  it('never returns the key or its ciphertext after saving', async () => {
+    supabaseMockRef = createSupabaseMock({ authUser: { id: 'buyer1' } });
+
+    const res = await keysRoute.POST(
+      new NextRequest('http://localhost/api/api-keys', {
+        method: 'POST',
+        body: JSON.stringify({ provider: 'anthropic', label: 'Work', api_key: 'sk-ant-abcdef123456', monthly_cap_cents: 1000 }),
+      })
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body.data.key).toMatchObject({ provider: 'anthropic', label: 'Work', key_hint: '3456', monthly_cap_cents: 1000 });
+    const [stored] = supabaseMockRef.data.user_api_keys;
+    expect(stored.encrypted_key).not.toContain('sk-ant-abcdef123456');
+
+    const listed = await (await keysRoute.GET()).json();
+    const payloads = JSON.stringify([body, listed]);
+    expect(payloads).not.toContain('sk-ant-abcdef123456');
+    expect(payloads).not.toContain(stored.encrypted_key);
+  });
+
+  it('runs the tester with a saved key and records its spend', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+
+    const res = await runTest({ apiKeyId: 'key1', model: 'gpt-4o', variables: { topic: 'tides' } });
+
+    expect(res.status).toBe(200);
+    expect(axiosPost.mock.calls[0][2].headers.Authorization).toBe('Bearer sk-saved-secret');
+    const [key] = supabaseMockRef.data.user_api_keys;
+    // gpt-4o: 1000 × $2.50 + 500 × $10 per million tokens
+    expect(key.month_spend_micros).toBe(7500);
+    expect(key.spend_month).toBe(spendMonth());
+    expect(key.last_used_at).toBeTruthy();
+    expect(JSON.stringify(supabaseMockRef.data.test_runs)).not.toContain('sk-saved-secret');
+  });
+
+  it('refuses keys that reached their monthly cap', async () => {
+    supabaseMockRef = createSupabaseMock(seed({ month_spend_micros: 5_000_000, spend_month: spendMonth() }));
+
+    const res = await runTest({ apiKeyId: 'key1', model: 'gpt-4o', variables: { topic: 'tides' } });
+
+    expect(res.status).toBe(409);
+    expect(axiosPost).not.toHaveBeenCalled();
+  });
+
+  it('refuses revoked keys', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+
+    const revoked = await keyRoute.DELETE(new NextRequest('http://localhost/api/api-keys/key1', { method: 'DELETE' }), {
+      params: Promise.resolve({ id: 'key1' }),
+    });
+    expect(revoked.status).toBe(200);
+    expect(supabaseMockRef.data.user_api_keys[0].encrypted_key).toBeNull();
+
+    const res = await runTest({ apiKeyId: 'key1', model: 'gpt-4o', variables: { topic: 'tides' } });
+    expect(res.status).toBe(404);
+    expect(axiosPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { encodeCartMetadata, groupBySeller, parseCartMetadata } from '@/lib/cart';
+
+let supabaseMockRef: any;
+let currentUser: any;
+let cartRoute: any;
+let cartItemRoute: any;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(currentUser)),
+}));
+
+vi.mock('@/lib/logging', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const promptA = '11111111-1111-4111-8111-111111111111';
+const promptB = '22222222-2222-4222-8222-222222222222';
+
+function seed() {
+  return {
+    prompts: [
+      { id: promptA, title: 'Prompt A', user_id: 'sellerA', price: 5, status: 'approved' },
+      { id: promptB, title: 'Prompt B', user_id: 'sellerB', price: 12.5, status: 'approved' },
+    ],
+  };
+}
+
+function jsonRequest(method: string, body?: unknown) {
+  return new Request('http://localhost/api/cart', {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  cartRoute = await import('@/app/api/cart/route');
+  cartItemRoute = await import('@/app/api/cart/[promptId]/route');
+});
+
+beforeEach(() => {
+  supabaseMockRef = createSupabaseMock(seed());
+  currentUser = { id: 'buyer1' };
+});
+
+describe('cart metadata', () => {
+  it('round-trips cart lines through session metadata', () => {
+    const lines = [
+      { promptId: promptA, sellerId: 'sellerA', amountCents: 500 },
+      { promptId: promptB, sellerId: 'sellerB', amountCents: 1250 },
+    ];
+    const metadata = encodeCartMetadata(lines);
+
+    expect(metadata.cart_item_count).toBe('2');
+    expect(parseCartMetadata({ user_id: 'buyer1', ...metadata })).toEqual(lines);
+  });
+
+  it('returns null for single-prompt sessions and rejects malformed lines', () => {
+    expect(parseCartMetadata({ prompt_id: promptA })).toBeNull();
+    expect(() => parseCartMetadata({ cart_item_count: '1', cart_item_0: `${promptA}:sellerA:abc` })).toThrow();
+  });
+
+  it('groups lines into per-seller subtotals', () => {
+    const subtotals = groupBySeller([
+      { promptId: promptA, sellerId: 'sellerA', amountCents: 500 },
+      { promptId: promptB, sellerId: 'sellerA', amountCents: 700 },
+      { promptId: 'other', sellerId: 'sellerB', amountCents: 300 },
+    ]);
+
+    expect(subtotals).toEqual([
+      { sellerId: 'sellerA', amountCents: 1200, promptIds: [promptA, promptB] },
+      { sellerId: 'sellerB', amountCents: 300, promptIds: ['other'] },
+    ]);
+  });
+});
+
+describe('cart API', () => {
+  it('adds prompts once and returns the priced cart', async () => {
+    await cartRoute.POST(jsonRequest('POST', { prompt_id: promptA }));
+    await cartRoute.POST(jsonRequest('POST', { prompt_id: promptB }));
+    const res = await cartRoute.POST(jsonRequest('POST', { prompt_id: promptA }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(supabaseMockRef.data.cart_items).toHaveLength(2);
+    expect(body.data.items.map((item: any) => item.priceCents)).toEqual([500, 1250]);
+    expect(body.data.totalCents).toBe(1750);
+  });
+
+  it('rejects own and already purchased prompts', async () => {
+    currentUser = { id: 'sellerA' };
+    const own = await cartRoute.POST(jsonRequest('POST', { prompt_id: promptA }));
+    expect(own.status).toBe(400);
+
+    currentUser = { id: 'buyer1' };
+    supabaseMockRef.data.purchases.push({ id: 'pur1', buyer_id: 'buyer1', prompt_id: promptB, status: 'paid' });
+    const owned = await cartRoute.POST(jsonRequest('POST', { prompt_id: promptB }));
+    expect(owned.status).toBe(409);
+    expect(supabaseMockRef.data.cart_items).toHaveLength(0);
+  });
+
+  it('removes a single prompt from the cart', async () => {
+    await cartRoute.POST(jsonRequest('POST', { prompt_id: promptA }));
+    await cartRoute.POST(jsonRequest('POST', { prompt_id: promptB }));
+
+    const res = await cartItemRoute.DELETE(jsonRequest('DELETE'), { params: Promise.resolve({ promptId: promptA }) });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.items.map((item: any) => item.promptId)).toEqual([promptB]);
+  });
+
+  it('requires a signed-in user', async () => {
+    currentUser = null;
+    const res = await cartRoute.GET();
+    expect(res.status).toBe(401);
+  });
+});
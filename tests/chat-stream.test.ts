@@ -0,0 +1,121 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { readSseEvents } from '@/lib/llm/sse';
+
+let POST: any;
+let chatMessages: any[] = [];
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(createSupabaseMock({}))),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    chatSession: {
+      findUnique: vi.fn(async ({ where }: any) => (where.id === 'session1' ? { id: 'session1', title: null } : null)),
+    },
+    chatMessage: {
+      create: vi.fn(async ({ data }: any) => {
+        const row = { id: `m${chatMessages.length + 1}`, createdAt: new Date(), ...data };
+        chatMessages.push(row);
+        return row;
+      }),
+      findMany: vi.fn(async ({ where }: any) => chatMessages.filter((m) => m.sessionId === where.sessionId)),
+    },
+  },
+}));
+
+beforeAll(async () => {
+  // Chat goes to a self-hosted server here so the upstream stream can be controlled from the test
+  process.env.CHAT_MODEL = 'llama3.1';
+  process.env.CHAT_LLM_PROVIDER = 'openai-compatible';
+  process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://127.0.0.1:11434/v1';
+  ({ POST } = await import('@/app/api/chat/[sessionId]/stream/route'));
+});
+
+afterAll(() => {
+  delete process.env.CHAT_MODEL;
+  delete process.env.CHAT_LLM_PROVIDER;
+  delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+});
+
+beforeEach(() => {
+  chatMessages = [];
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// An upstream stream that sends the given chunks, then stays open until aborted (or closes)
+function stubUpstream(chunks: string[], { close }: { close: boolean }) {
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`));
+          }
+          if (close) {
+            controller.enqueue(encoder.encode('data: {"choices":[{"delta":{},"finish_reason":"stop"}],"usage":{"prompt_tokens":5,"completion_tokens":2}}\n\n'));
+            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            controller.close();
+          } else {
+            init.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+          }
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    })
+  );
+}
+
+function chatRequest(content: string, signal?: AbortSignal) {
+  return new NextRequest('http://localhost/api/chat/session1/stream', {
+    method: 'POST',
+    body: JSON.stringify({ content }),
+    signal,
+  });
+}
+
+describe('chat streaming route', () => {
+  it('streams the reply and saves it once complete', async () => {
+    stubUpstream(['Hello', ' there'], { close: true });
+
+    const res = await POST(chatRequest('Hi'), { params: Promise.resolve({ sessionId: 'session1' }) });
+    const events: any[] = [];
+    for await (const event of readSseEvents(res.body)) events.push(event);
+
+    expect(events.filter((e) => e.event === 'delta').map((e) => JSON.parse(e.data).text)).toEqual(['Hello', ' there']);
+    const done = JSON.parse(events.at(-1).data);
+    expect(done).toMatchObject({ stopReason: 'end', partial: false, usage: { inputTokens: 5, outputTokens: 2 } });
+    expect(chatMessages.map((m) => [m.role, m.content])).toEqual([
+      ['user', 'Hi'],
+      ['assistant', 'Hello there'],
+    ]);
+    expect(done.messageId).toBe(chatMessages[1].id);
+  });
+
+  it('saves the partial reply when the client disconnects mid-stream', async () => {
+    stubUpstream(['Partial', ' answer'], { close: false });
+    const client = new AbortController();
+
+    const res = await POST(chatRequest('Tell me a story', client.signal), { params: Promise.resolve({ sessionId: 'session1' }) });
+    const reader = res.body.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await vi.waitFor(() => expect(chatMessages).toHaveLength(2));
+    expect(chatMessages[1]).toMatchObject({ role: 'assistant', content: 'Partial answer' });
+  });
+
+  it('rejects unknown sessions without storing anything', async () => {
+    const res = await POST(chatRequest('Hi'), { params: Promise.resolve({ sessionId: 'missing' }) });
+
+    expect(res.status).toBe(404);
+    expect(chatMessages).toHaveLength(0);
+  });
+});
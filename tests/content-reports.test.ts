@@ -0,0 +1,181 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import {
+  createContentReport,
+  decidePromptAppeal,
+  filePromptAppeal,
+  loadReportTriage,
+  resolveContentReports,
+} from '@/lib/moderation/reports';
+
+let reportsRoute: any;
+let supabaseMockRef: any;
+
+const ADMIN = '00000000-0000-4000-8000-0000000000ad';
+const AUTHOR = '00000000-0000-4000-8000-0000000000a1';
+const READER = '00000000-0000-4000-8000-0000000000b1';
+const OTHER = '00000000-0000-4000-8000-0000000000c1';
+const PROMPT = '00000000-0000-4000-8000-000000000001';
+const COMMENT = '00000000-0000-4000-8000-000000000002';
+const RATING = '00000000-0000-4000-8000-000000000003';
+
+vi.mock('@/lib/admin/auth', () => ({
+  requireAdminSupabaseClient: () => supabaseMockRef,
+  getAdminUser: async () => ({ id: ADMIN }),
+  assertAdminAccess: async () => undefined,
+}));
+
+beforeAll(async () => {
+  reportsRoute = await import('@/app/api/admin/reports/route');
+});
+
+function community() {
+  return createSupabaseMock({
+    prompts: [{ id: PROMPT, user_id: AUTHOR, title: 'Cold outreach', status: 'approved', is_public: true }],
+    prompt_comments: [{ id: COMMENT, prompt_id: PROMPT, user_id: OTHER, comment: 'Buy followers at spam.example' }],
+    prompt_ratings: [{ id: RATING, prompt_id: PROMPT, user_id: OTHER, rating: 1, comment: 'The author is an idiot' }],
+    profiles: [
+      { id: ADMIN, is_admin: true },
+      { id: AUTHOR, is_banned: false },
+      { id: READER, is_banned: false },
+      { id: OTHER, is_banned: false },
+    ],
+  });
+}
+
+function adminPost(body: any) {
+  return reportsRoute.POST(
+    new NextRequest('http://localhost/api/admin/reports', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('content reports', () => {
+  it('files one open report per reporter, refuses self-reports and groups reports for triage', async () => {
+    const supabase = community();
+
+    await createContentReport(supabase, { reporterId: READER, targetType: 'comment', targetId: COMMENT, reason: 'spam' });
+    await expect(
+      createContentReport(supabase, { reporterId: READER, targetType: 'comment', targetId: COMMENT, reason: 'scam' })
+    ).rejects.toMatchObject({ code: 'ALREADY_EXISTS', statusCode: 409 });
+    await expect(
+      createContentReport(supabase, { reporterId: AUTHOR, targetType: 'prompt', targetId: PROMPT, reason: 'other' })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      createContentReport(supabase, { reporterId: READER, targetType: 'rating', targetId: PROMPT, reason: 'hate' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+
+    await createContentReport(supabase, { reporterId: AUTHOR, targetType: 'comment', targetId: COMMENT, reason: 'scam' });
+    await createContentReport(supabase, {
+      reporterId: READER,
+      targetType: 'rating',
+      targetId: RATING,
+      reason: 'harassment',
+      details: '  Insults the creator  ',
+    });
+
+    expect(supabase.data.content_reports.find((r: any) => r.target_id === COMMENT)).toMatchObject({
+      prompt_id: PROMPT,
+      reported_user_id: OTHER,
+      status: 'open',
+    });
+    expect(supabase.data.content_reports.find((r: any) => r.target_id === RATING).details).toBe('Insults the creator');
+    expect(supabase.data.notifications.filter((n: any) => n.user_id === ADMIN && n.type === 'report.created')).toHaveLength(3);
+
+    const triage = await loadReportTriage(supabase);
+    expect(triage.reports.map((group) => [group.targetType, group.reports.length])).toEqual([
+      ['comment', 2],
+      ['rating', 1],
+    ]);
+    expect(triage.reports[0]).toMatchObject({ reasons: { spam: 1, scam: 1 }, hidden: false });
+  });
+
+  it('hides, warns or bans from the admin route and tells reporters and the author', async () => {
+    const supabase = community();
+    supabaseMockRef = supabase;
+    await createContentReport(supabase, { reporterId: READER, targetType: 'comment', targetId: COMMENT, reason: 'spam' });
+    await createContentReport(supabase, { reporterId: READER, targetType: 'rating', targetId: RATING, reason: 'harassment' });
+    await createContentReport(supabase, { reporterId: OTHER, targetType: 'prompt', targetId: PROMPT, reason: 'ip_infringement' });
+
+    const invalid = await adminPost({ action: 'hide', targetType: 'comment' });
+    expect(invalid.status).toBe(400);
+
+    const hidden = await adminPost({ action: 'hide', targetType: 'comment', targetId: COMMENT });
+    expect(hidden.status).toBe(200);
+    expect(supabase.data.prompt_comments[0].hidden_at).toBeTruthy();
+    expect(supabase.data.content_reports.find((r: any) => r.target_id === COMMENT)).toMatchObject({
+      status: 'actioned',
+      resolution: 'hide',
+      resolved_by: ADMIN,
+    });
+    expect(supabase.data.notifications.find((n: any) => n.user_id === OTHER && n.type === 'moderation.removed')).toBeTruthy();
+    expect((await adminPost({ action: 'hide', targetType: 'comment', targetId: COMMENT })).status).toBe(404);
+
+    await adminPost({ action: 'ban', targetType: 'rating', targetId: RATING, note: 'Repeated abuse' });
+    expect(supabase.data.prompt_ratings[0].hidden_at).toBeTruthy();
+    expect(supabase.data.profiles.find((p: any) => p.id === OTHER).is_banned).toBe(true);
+
+    await adminPost({ action: 'warn', targetType: 'prompt', targetId: PROMPT });
+    expect(supabase.data.prompts[0].status).toBe('approved');
+    expect(supabase.data.notifications.find((n: any) => n.user_id === AUTHOR)).toMatchObject({
+      type: 'moderation.warning',
+      url: null,
+    });
+    expect(supabase.data.notifications.filter((n: any) => n.type === 'report.resolved').map((n: any) => n.user_id)).toEqual([
+      READER,
+      READER,
+      OTHER,
+    ]);
+
+    const res = await reportsRoute.GET(new NextRequest('http://localhost/api/admin/reports'));
+    expect((await res.json()).data).toEqual({ reports: [], appeals: [] });
+  });
+
+  it('takes a prompt down and lets the creator appeal once until an admin decides', async () => {
+    const supabase = community();
+    await createContentReport(supabase, { reporterId: READER, targetType: 'prompt', targetId: PROMPT, reason: 'scam' });
+    await expect(
+      filePromptAppeal(supabase, { promptId: PROMPT, userId: AUTHOR, message: 'Nothing to appeal yet' })
+    ).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+
+    await resolveContentReports(supabase, {
+      targetType: 'prompt',
+      targetId: PROMPT,
+      adminId: ADMIN,
+      resolution: 'hide',
+      note: 'Misleading claims',
+    });
+    expect(supabase.data.prompts[0]).toMatchObject({ status: 'removed', is_public: false, moderation_note: 'Misleading claims' });
+    expect(supabase.data.moderation_actions.map((a: any) => a.action)).toEqual(['remove']);
+    expect(supabase.data.notifications.find((n: any) => n.user_id === AUTHOR)).toMatchObject({
+      url: `/creator/prompts/${PROMPT}/appeal`,
+    });
+
+    await expect(
+      filePromptAppeal(supabase, { promptId: PROMPT, userId: READER, message: 'Not my prompt at all' })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    const appeal = await filePromptAppeal(supabase, { promptId: PROMPT, userId: AUTHOR, message: 'The claims are accurate' });
+    await expect(
+      filePromptAppeal(supabase, { promptId: PROMPT, userId: AUTHOR, message: 'Please look again soon' })
+    ).rejects.toMatchObject({ code: 'ALREADY_EXISTS' });
+    expect((await loadReportTriage(supabase)).appeals.map((a) => a.id)).toEqual([appeal.id]);
+
+    await decidePromptAppeal(supabase, { appealId: appeal.id, adminId: ADMIN, decision: 'deny', note: 'Claims are unverified' });
+    expect(supabase.data.prompts[0].status).toBe('removed');
+    await expect(
+      decidePromptAppeal(supabase, { appealId: appeal.id, adminId: ADMIN, decision: 'grant' })
+    ).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+
+    const second = await filePromptAppeal(supabase, { promptId: PROMPT, userId: AUTHOR, message: 'Added sources for every claim' });
+    await decidePromptAppeal(supabase, { appealId: second.id, adminId: ADMIN, decision: 'grant' });
+    expect(supabase.data.prompts[0]).toMatchObject({ status: 'approved', is_public: true });
+    expect(supabase.data.moderation_actions.map((a: any) => a.action)).toEqual(['remove', 'deny_appeal', 'reinstate']);
+    expect(
+      supabase.data.notifications.filter((n: any) => n.type === 'appeal.decided').map((n: any) => n.title)
+    ).toEqual(['Your appeal was denied', 'Your appeal was granted']);
+  });
+});
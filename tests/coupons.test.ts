@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { assertCouponRedeemable, CouponRow, quoteCouponPrice } from '@/lib/coupons';
+
+let supabaseMockRef: any;
+let currentUser: any;
+let checkoutRoute: any;
+const createSession = vi.fn();
+
+vi.mock('stripe', () => ({
+  default: class {
+    checkout = { sessions: { create: createSession } };
+  },
+}));
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(currentUser)),
+}));
+
+vi.mock('@/lib/logging', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const promptId = '11111111-1111-4111-8111-111111111111';
+
+function coupon(overrides: Partial<CouponRow> = {}): CouponRow {
+  return {
+    id: 'coupon1',
+    creator_id: 'seller1',
+    code: 'SAVE25',
+    discount_type: 'percent',
+    discount_value: 25,
+    prompt_id: null,
+    expires_at: null,
+    max_redemptions: null,
+    redemption_count: 0,
+    active: true,
+    ...overrides,
+  };
+}
+
+function checkoutRequest(body: Record<string, unknown>) {
+  return new Request('http://localhost/api/stripe/create-checkout-session', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+beforeAll(async () => {
+  process.env.STRIPE_SECRET_KEY = 'sk_test_coupons';
+  checkoutRoute = await import('@/app/api/stripe/create-checkout-session/route');
+});
+
+beforeEach(() => {
+  createSession.mockReset();
+  createSession.mockResolvedValue({ id: 'cs_coupon', url: 'https://checkout.stripe.test/cs_coupon' });
+  currentUser = { id: 'buyer1' };
+  supabaseMockRef = createSupabaseMock({
+    prompts: [{ id: promptId, title: 'Prompt One', user_id: 'seller1', price: 10, status: 'approved' }],
+    coupons: [coupon()],
+  });
+});
+
+describe('coupon pricing', () => {
+  it('applies percentage and fixed discounts', () => {
+    expect(quoteCouponPrice(999, coupon({ discount_value: 10 }))).toEqual({
+      listPriceCents: 999,
+      discountCents: 100,
+      amountCents: 899,
+    });
+    expect(quoteCouponPrice(1000, coupon({ discount_type: 'fixed', discount_value: 300 })).amountCents).toBe(700);
+    expect(quoteCouponPrice(1000).discountCents).toBe(0);
+  });
+
+  it('rejects discounts below the minimum charge', () => {
+    expect(() => quoteCouponPrice(1000, coupon({ discount_value: 100 }))).toThrow(/at least/);
+  });
+
+  it('checks activity, expiry, limits and prompt scope', () => {
+    const now = new Date('2025-01-01T00:00:00Z');
+    expect(() => assertCouponRedeemable(coupon({ active: false }), promptId, now)).toThrow(/no longer active/);
+    expect(() => assertCouponRedeemable(coupon({ expires_at: '2024-12-31T00:00:00Z' }), promptId, now)).toThrow(/expired/);
+    expect(() => assertCouponRedeemable(coupon({ max_redemptions: 2, redemption_count: 2 }), promptId, now)).toThrow(
+      /redemption limit/
+    );
+    expect(() => assertCouponRedeemable(coupon({ prompt_id: 'other' }), promptId, now)).toThrow(/does not apply/);
+    expect(() => assertCouponRedeemable(coupon({ prompt_id: promptId }), promptId, now)).not.toThrow();
+  });
+});
+
+describe('create-checkout-session', () => {
+  it('prices from the prompt row and ignores a client price', async () => {
+    const res = await checkoutRoute.POST(checkoutRequest({ prompt_id: promptId, price: 1, title: 'Cheap' }));
+    expect(res.status).toBe(200);
+
+    const params = createSession.mock.calls[0][0];
+    expect(params.line_items[0].price_data.unit_amount).toBe(1000);
+    expect(params.line_items[0].price_data.product_data.name).toBe('Prompt One');
+    expect(params.metadata.coupon_id).toBeUndefined();
+  });
+
+  it('refuses prompts hidden while their creator is suspended', async () => {
+    supabaseMockRef.data.prompts[0] = { ...supabaseMockRef.data.prompts[0], is_public: false, suspended_at: new Date().toISOString() };
+
+    const res = await checkoutRoute.POST(checkoutRequest({ prompt_id: promptId }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe('INVALID_STATUS');
+    expect(createSession).not.toHaveBeenCalled();
+  });
+
+  it('applies a valid coupon and records it in the session metadata', async () => {
+    const res = await checkoutRoute.POST(checkoutRequest({ prompt_id: promptId, coupon_code: 'save25' }));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.amountCents).toBe(750);
+    const params = createSession.mock.calls[0][0];
+    expect(params.line_items[0].price_data.unit_amount).toBe(750);
+    expect(params.metadata).toMatchObject({
+      coupon_id: 'coupon1',
+      coupon_code: 'SAVE25',
+      discount_cents: '250',
+      list_price_cents: '1000',
+    });
+  });
+
+  it('rejects unknown and exhausted coupons without creating a session', async () => {
+    const unknown = await checkoutRoute.POST(checkoutRequest({ prompt_id: promptId, coupon_code: 'NOPE' }));
+    expect(unknown.status).toBe(400);
+
+    supabaseMockRef.data.coupons[0].max_redemptions = 1;
+    supabaseMockRef.data.coupons[0].redemption_count = 1;
+    const exhausted = await checkoutRoute.POST(checkoutRequest({ prompt_id: promptId, coupon_code: 'SAVE25' }));
+    const body = await exhausted.json();
+
+    expect(exhausted.status).toBe(400);
+    expect(body.error.code).toBe('INVALID_COUPON');
+    expect(createSession).not.toHaveBeenCalled();
+  });
+});
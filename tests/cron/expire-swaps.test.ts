@@ -70,4 +70,51 @@ describe('cron expire swaps', () => {
     const notifications = supabaseMockRef.data.notifications.filter((n: any) => n.type === 'swap.expired');
     expect(notifications).toHaveLength(2);
   });
+
+  it('expires accepted escrow swaps whose deposit deadline has passed', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-12-10T00:00:00.000Z'));
+
+    supabaseMockRef = createSupabaseMock({
+      swaps: [
+        {
+          id: 'escrow-late',
+          requester_id: 'req1',
+          responder_id: 'res1',
+          requested_prompt_id: 'p1',
+          offered_prompt_id: 'p2',
+          status: 'escrow_partial',
+          escrow: true,
+          escrow_deadline: '2025-12-09T00:00:00.000Z',
+          created_at: '2025-12-08T00:00:00Z',
+        },
+        {
+          id: 'escrow-open',
+          requester_id: 'req2',
+          responder_id: 'res2',
+          requested_prompt_id: 'p3',
+          offered_prompt_id: 'p4',
+          status: 'accepted',
+          escrow: true,
+          escrow_deadline: '2025-12-11T00:00:00.000Z',
+          created_at: '2025-12-08T00:00:00Z',
+        },
+      ],
+    });
+
+    const req = new NextRequest('http://localhost/api/cron/expire-swaps', {
+      method: 'POST',
+      headers: { CRON_SECRET: 'cron-secret' },
+    });
+
+    const res = await POST(req as any);
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    expect(body.expired).toBe(1);
+    expect(supabaseMockRef.data.swaps.find((s: any) => s.id === 'escrow-late')?.status).toBe('expired');
+    expect(supabaseMockRef.data.swaps.find((s: any) => s.id === 'escrow-open')?.status).toBe('accepted');
+    const notification = supabaseMockRef.data.notifications.find((n: any) => n.type === 'swap.expired');
+    expect(notification?.body).toMatch(/escrow deadline passed/);
+  });
 });
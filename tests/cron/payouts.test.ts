@@ -0,0 +1,248 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from '../test-utils/mockSupabase';
+import { executePayout, getPayableBalance } from '@/lib/payouts';
+
+let routeModule: any;
+let supabaseMockRef: any;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+}));
+
+vi.mock('@/lib/logging', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+beforeAll(async () => {
+  process.env.CRON_SECRET = 'cron-secret';
+  routeModule = await import('@/app/api/cron/payouts/route');
+});
+
+beforeEach(() => {
+  routeModule.setStripeClient(null);
+});
+
+function saleEntries(purchaseId: string, netCents: number, createdAt: string) {
+  return [
+    { transaction_id: `sale:${purchaseId}`, kind: 'sale', account: 'cash', direction: 'debit', amount_cents: netCents, creator_id: 'seller1', purchase_id: purchaseId, created_at: createdAt },
+    { transaction_id: `sale:${purchaseId}`, kind: 'sale', account: 'creator_payable', direction: 'credit', amount_cents: netCents, creator_id: 'seller1', purchase_id: purchaseId, created_at: createdAt },
+  ];
+}
+
+// Mirrors reserve_payout: the mock runs each call to completion, like the per-creator lock does
+function reservePayout(args: any, data: any) {
+  const existing = data.payouts.find((row: any) => row.idempotency_key === args.p_idempotency_key);
+  if (existing) return { data: existing, error: null };
+
+  const available = Math.max(
+    0,
+    data.ledger_entries
+      .filter((entry: any) => entry.creator_id === args.p_creator_id && entry.account === 'creator_payable')
+      .reduce((sum: number, entry: any) => sum + (entry.direction === 'credit' ? entry.amount_cents : -entry.amount_cents), 0)
+  );
+  const pending = data.payouts
+    .filter((row: any) => row.seller_id === args.p_creator_id && row.status === 'pending')
+    .reduce((sum: number, row: any) => sum + Math.round(Number(row.amount) * 100), 0);
+  const amount = Math.min(args.p_amount_cents, Math.max(0, available - Math.min(available, args.p_holdback_cents) - pending));
+  if (amount <= 0) return { data: null, error: { code: '23514', message: 'No payable balance left' } };
+
+  const payout = {
+    id: `payout-${data.payouts.length + 1}`,
+    seller_id: args.p_creator_id,
+    amount: amount / 100,
+    currency: 'usd',
+    status: 'pending',
+    trigger: args.p_trigger,
+    idempotency_key: args.p_idempotency_key,
+    destination_account: args.p_destination,
+  };
+  data.payouts.push(payout);
+  return { data: payout, error: null };
+}
+
+function seed(overrides: { minimumCents?: number } = {}) {
+  return {
+    rpc: { reserve_payout: reservePayout },
+    profiles: [{ id: 'seller1', connected_account_id: 'acct_seller1', stripe_payouts_enabled: true }],
+    payout_schedules: [
+      {
+        creator_id: 'seller1',
+        interval: 'weekly',
+        minimum_cents: overrides.minimumCents ?? 2500,
+        enabled: true,
+        next_run_at: daysAgo(1),
+        last_run_at: null,
+      },
+    ],
+    // One sale past the refund window, one still inside it
+    ledger_entries: [...saleEntries('old', 4000, daysAgo(45)), ...saleEntries('recent', 1500, daysAgo(3))],
+  };
+}
+
+function stubStripe() {
+  return {
+    transfers: { create: vi.fn(async (params: any) => ({ id: `tr_${params.amount}`, ...params })) },
+  };
+}
+
+async function runJob() {
+  const req = new NextRequest('http://localhost/api/cron/payouts', {
+    method: 'POST',
+    headers: { CRON_SECRET: 'cron-secret' },
+  });
+  return routeModule.POST(req as any);
+}
+
+describe('cron scheduled payouts', () => {
+  it('pays the balance outside the refund window once per period and notifies the creator', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+    const stripe = stubStripe();
+    routeModule.setStripeClient(stripe);
+    const dueAt = supabaseMockRef.data.payout_schedules[0].next_run_at;
+
+    const res = await runJob();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({ due: 1, paid: 1, failed: 0 });
+    expect(stripe.transfers.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 4000, destination: 'acct_seller1' }),
+      { idempotencyKey: `scheduled_payout:seller1:${dueAt}` }
+    );
+
+    const payout = supabaseMockRef.data.payouts[0];
+    expect(payout).toMatchObject({ status: 'paid', trigger: 'scheduled', stripe_transfer_id: 'tr_4000' });
+    expect(supabaseMockRef.data.ledger_entries.filter((entry: any) => entry.kind === 'payout')).toHaveLength(2);
+    expect(supabaseMockRef.data.notifications[0]).toMatchObject({ user_id: 'seller1', type: 'payout.paid' });
+
+    const schedule = supabaseMockRef.data.payout_schedules[0];
+    expect(new Date(schedule.next_run_at).getTime()).toBeGreaterThan(Date.now());
+
+    // Running again for the same period finds nothing due and sends nothing
+    const rerun = await (await runJob()).json();
+    expect(rerun.due).toBe(0);
+    expect(stripe.transfers.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('carries the balance over when it is below the minimum', async () => {
+    supabaseMockRef = createSupabaseMock(seed({ minimumCents: 5000 }));
+    const stripe = stubStripe();
+    routeModule.setStripeClient(stripe);
+
+    const body = await (await runJob()).json();
+
+    expect(body).toMatchObject({ due: 1, paid: 0, belowMinimum: 1 });
+    expect(stripe.transfers.create).not.toHaveBeenCalled();
+    expect(supabaseMockRef.data.payouts).toHaveLength(0);
+    expect(new Date(supabaseMockRef.data.payout_schedules[0].next_run_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('marks the payout failed and tells the creator when the transfer fails', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+    const stripe = stubStripe();
+    stripe.transfers.create.mockRejectedValueOnce(new Error('Insufficient platform balance'));
+    routeModule.setStripeClient(stripe);
+
+    const body = await (await runJob()).json();
+
+    expect(body).toMatchObject({ due: 1, paid: 0, failed: 1 });
+    expect(supabaseMockRef.data.payouts[0]).toMatchObject({
+      status: 'failed',
+      failure_reason: 'Insufficient platform balance',
+    });
+    expect(supabaseMockRef.data.ledger_entries.some((entry: any) => entry.kind === 'payout')).toBe(false);
+    expect(supabaseMockRef.data.notifications[0]).toMatchObject({ type: 'payout.failed' });
+  });
+
+  it('sends a payout an interrupted run left pending and keeps the schedule until it settles', async () => {
+    const interruptedKey = `scheduled_payout:seller1:${daysAgo(8)}`;
+    const pendingPayout = {
+      id: 'payout-interrupted',
+      seller_id: 'seller1',
+      amount: 40,
+      currency: 'usd',
+      status: 'pending',
+      trigger: 'scheduled',
+      idempotency_key: interruptedKey,
+      destination_account: 'acct_seller1',
+    };
+
+    // With nowhere to send it, the pending payout stays and the schedule keeps its date
+    supabaseMockRef = createSupabaseMock({
+      ...seed(),
+      profiles: [{ id: 'seller1', stripe_payouts_enabled: false }],
+      payouts: [{ ...pendingPayout, destination_account: null }],
+    });
+    const dueAt = supabaseMockRef.data.payout_schedules[0].next_run_at;
+    routeModule.setStripeClient(stubStripe());
+    expect(await (await runJob()).json()).toMatchObject({ due: 1, retried: 0, skipped: 1 });
+    expect(supabaseMockRef.data.payout_schedules[0].next_run_at).toBe(dueAt);
+
+    supabaseMockRef = createSupabaseMock({ ...seed(), payouts: [{ ...pendingPayout }] });
+    const stripe = stubStripe();
+    routeModule.setStripeClient(stripe);
+
+    const body = await (await runJob()).json();
+
+    expect(body).toMatchObject({ due: 1, retried: 1, failed: 0 });
+    expect(stripe.transfers.create).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 4000, destination: 'acct_seller1' }),
+      { idempotencyKey: interruptedKey }
+    );
+    expect(supabaseMockRef.data.payouts[0]).toMatchObject({ status: 'paid', stripe_transfer_id: 'tr_4000' });
+    // The rest of the balance is still inside the refund window
+    expect(supabaseMockRef.data.payouts).toHaveLength(1);
+    expect(new Date(supabaseMockRef.data.payout_schedules[0].next_run_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('sends the balance once when a manual payout races the scheduled one', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+    const stripe = stubStripe();
+
+    // The first transfer is still in flight when the second payout is reserved
+    let reservations = 0;
+    let releaseTransfer!: () => void;
+    const transferGate = new Promise<void>((resolve) => (releaseTransfer = resolve));
+    supabaseMockRef.data.rpc.reserve_payout = (args: any, data: any) => {
+      const result = reservePayout(args, data);
+      if (++reservations === 2) releaseTransfer();
+      return result;
+    };
+    stripe.transfers.create.mockImplementationOnce(async (params: any) => {
+      await transferGate;
+      return { id: `tr_${params.amount}`, ...params };
+    });
+
+    // Both read the balance before either has reserved anything
+    const balance = await getPayableBalance(supabaseMockRef, 'seller1', 30);
+    expect(balance.payableCents).toBe(4000);
+    const payout = (trigger: 'manual' | 'scheduled', idempotencyKey: string) =>
+      executePayout(supabaseMockRef, stripe as any, {
+        creatorId: 'seller1',
+        destination: 'acct_seller1',
+        amountCents: balance.payableCents,
+        holdbackCents: balance.holdbackCents,
+        idempotencyKey,
+        trigger,
+        requestId: `req-${trigger}`,
+      });
+
+    const [manual, scheduled] = await Promise.allSettled([
+      payout('manual', 'manual_payout:seller1:no-header'),
+      payout('scheduled', `scheduled_payout:seller1:${supabaseMockRef.data.payout_schedules[0].next_run_at}`),
+    ]);
+
+    expect(manual).toMatchObject({ status: 'fulfilled', value: { status: 'paid', amount: 40 } });
+    expect(scheduled).toMatchObject({ status: 'rejected', reason: { code: 'INSUFFICIENT_FUNDS' } });
+    expect(stripe.transfers.create).toHaveBeenCalledTimes(1);
+    expect(supabaseMockRef.data.payouts).toHaveLength(1);
+    expect(supabaseMockRef.data.ledger_entries.filter((entry: any) => entry.kind === 'payout')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getPromptScoresConfig } from '@/lib/cron/prompt-scores';
+import { PROMPT_SCORE_SETTINGS, refreshPromptScores } from '@/lib/prompt-scores';
+
+describe('prompt scores job', () => {
+  afterEach(() => {
+    delete process.env.CRON_PROMPT_SCORES_WINDOW_DAYS;
+    delete process.env.CRON_PROMPT_SCORES_HALF_LIFE_HOURS;
+  });
+
+  it('reads the window and half-life from the environment', () => {
+    expect(getPromptScoresConfig()).toEqual(PROMPT_SCORE_SETTINGS);
+
+    process.env.CRON_PROMPT_SCORES_WINDOW_DAYS = '30';
+    process.env.CRON_PROMPT_SCORES_HALF_LIFE_HOURS = 'soon';
+    const config = getPromptScoresConfig();
+    expect(config.windowDays).toBe(30);
+    expect(config.halfLifeHours).toBe(72);
+  });
+
+  it('passes the settings to the refresh function', async () => {
+    const rpc = vi.fn(() => Promise.resolve({ data: 42, error: null }));
+
+    expect(await refreshPromptScores({ rpc })).toBe(42);
+    expect(rpc).toHaveBeenCalledWith('refresh_prompt_scores', {
+      p_prior_weight: 5,
+      p_window_days: 14,
+      p_half_life_hours: 72,
+      p_rating_weight: 0.4,
+      p_purchases_weight: 0.4,
+      p_views_weight: 0.2,
+    });
+
+    await expect(refreshPromptScores({ rpc: () => Promise.resolve({ data: null, error: { message: 'boom' } }) })).rejects.toThrow(
+      'Failed to refresh prompt scores'
+    );
+  });
+});
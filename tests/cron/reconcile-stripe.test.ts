@@ -0,0 +1,186 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from '../test-utils/mockSupabase';
+
+let routeModule: any;
+let supabaseMockRef: any;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+}));
+
+vi.mock('@/lib/logging', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+beforeAll(async () => {
+  process.env.CRON_SECRET = 'cron-secret';
+  routeModule = await import('@/app/api/cron/reconcile-stripe/route');
+});
+
+beforeEach(() => {
+  routeModule.setStripeClient(null);
+});
+
+function page(data: any[], hasMore = false) {
+  return { object: 'list', data, has_more: hasMore };
+}
+
+function paidSession(id: string, promptId: string, buyerId: string, amount: number) {
+  return {
+    id,
+    object: 'checkout.session',
+    status: 'complete',
+    payment_status: 'paid',
+    payment_intent: `pi_${id}`,
+    amount_total: amount,
+    currency: 'usd',
+    created: 1765000000,
+    metadata: { prompt_id: promptId, buyer_id: buyerId, seller_id: 'seller1' },
+  };
+}
+
+function stubStripe(overrides: { sessions?: any[][]; refunds?: any[] } = {}) {
+  const sessionPages = overrides.sessions ?? [[]];
+  return {
+    checkout: {
+      sessions: {
+        list: vi.fn(async (params: any) => {
+          const index = params.starting_after ? sessionPages.findIndex((p) => p.at(-1)?.id === params.starting_after) + 1 : 0;
+          return page(sessionPages[index] ?? [], index < sessionPages.length - 1);
+        }),
+      },
+    },
+    paymentIntents: { list: vi.fn(async () => page([])) },
+    refunds: { list: vi.fn(async () => page(overrides.refunds ?? [])) },
+    charges: { retrieve: vi.fn() },
+  };
+}
+
+async function runJob() {
+  const req = new NextRequest('http://localhost/api/cron/reconcile-stripe', {
+    method: 'POST',
+    headers: { CRON_SECRET: 'cron-secret' },
+  });
+  return routeModule.POST(req as any);
+}
+
+describe('cron reconcile stripe', () => {
+  it('rejects requests without the cron secret', async () => {
+    supabaseMockRef = createSupabaseMock();
+    const req = new NextRequest('http://localhost/api/cron/reconcile-stripe', { method: 'POST' });
+    const res = await routeModule.POST(req as any);
+    expect(res.status).toBe(403);
+  });
+
+  it('repairs pending purchases, creates missing ones and flags conflicts across pages', async () => {
+    supabaseMockRef = createSupabaseMock({
+      prompts: [
+        { id: 'prompt1', user_id: 'seller1', price: 5 },
+        { id: 'prompt2', user_id: 'seller1', price: 5 },
+        { id: 'prompt3', user_id: 'seller1', price: 5 },
+      ],
+      purchases: [
+        {
+          id: 'purchase-pending',
+          buyer_id: 'buyer1',
+          seller_id: 'seller1',
+          prompt_id: 'prompt1',
+          stripe_checkout_session_id: 'cs_pending',
+          stripe_payment_intent_id: null,
+          amount_total: 500,
+          refunded_amount: 0,
+          status: 'pending',
+          currency: 'usd',
+        },
+        {
+          id: 'purchase-conflict',
+          buyer_id: 'buyer3',
+          seller_id: 'seller1',
+          prompt_id: 'prompt3',
+          stripe_checkout_session_id: 'cs_conflict',
+          stripe_payment_intent_id: null,
+          amount_total: 900,
+          refunded_amount: 0,
+          status: 'paid',
+          currency: 'usd',
+        },
+      ],
+    });
+    const stripe = stubStripe({
+      sessions: [
+        [paidSession('cs_pending', 'prompt1', 'buyer1', 500), paidSession('cs_missing', 'prompt2', 'buyer2', 500)],
+        [paidSession('cs_conflict', 'prompt3', 'buyer3', 500)],
+      ],
+    });
+    routeModule.setStripeClient(stripe);
+
+    const res = await runJob();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(stripe.checkout.sessions.list).toHaveBeenCalledTimes(2);
+    expect(body.counts).toEqual({ fixed: 1, missing: 1, conflicting: 1 });
+    expect(body.checked.checkoutSessions).toBe(3);
+
+    const purchases = supabaseMockRef.data.purchases;
+    expect(purchases.find((p: any) => p.id === 'purchase-pending').status).toBe('paid');
+    expect(purchases.find((p: any) => p.stripe_checkout_session_id === 'cs_missing').status).toBe('paid');
+    expect(purchases.find((p: any) => p.id === 'purchase-conflict').amount_total).toBe(900);
+
+    const run = supabaseMockRef.data.stripe_reconciliation_runs[0];
+    expect(run).toMatchObject({ fixed_count: 1, missing_count: 1, conflicting_count: 1 });
+    expect(run.issues.find((i: any) => i.kind === 'conflicting').stripeId).toBe('cs_conflict');
+  });
+
+  it('records missing refunds and applies them to the purchase', async () => {
+    supabaseMockRef = createSupabaseMock({
+      purchases: [
+        {
+          id: 'purchase-refunded',
+          buyer_id: 'buyer1',
+          seller_id: 'seller1',
+          prompt_id: 'prompt1',
+          stripe_checkout_session_id: 'cs_1',
+          stripe_payment_intent_id: 'pi_refunded',
+          amount_total: 1000,
+          refunded_amount: 0,
+          status: 'paid',
+          currency: 'usd',
+        },
+      ],
+    });
+    const charge = {
+      id: 'ch_1',
+      object: 'charge',
+      payment_intent: 'pi_refunded',
+      amount: 1000,
+      amount_refunded: 400,
+      currency: 'usd',
+      metadata: {},
+      refunds: { data: [] },
+    };
+    const stripe = stubStripe({
+      refunds: [
+        { id: 're_1', object: 'refund', status: 'succeeded', amount: 400, currency: 'usd', created: 1765000100, charge, metadata: {} },
+      ],
+    });
+    routeModule.setStripeClient(stripe);
+
+    const res = await runJob();
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.counts).toEqual({ fixed: 1, missing: 1, conflicting: 0 });
+    expect(supabaseMockRef.data.refunds).toEqual([
+      expect.objectContaining({ purchase_id: 'purchase-refunded', stripe_refund_id: 're_1', amount: 400 }),
+    ]);
+    const purchase = supabaseMockRef.data.purchases[0];
+    expect(purchase.refunded_amount).toBe(400);
+    expect(purchase.status).toBe('partially_refunded');
+  });
+});
@@ -39,4 +39,36 @@ describe('download route entitlement', () => {
     const res = await GET(req as any, { params: Promise.resolve({ id: '1' }) } as any);
     expect(res.status).toBe(403);
   });
+
+  it('allows download through an active creator subscription', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'buyer3' },
+      prompts: [{ id: 1, user_id: 'seller1', title: 'Test', prompt_text: 'content', status: 'approved' }],
+      subscriptions: [
+        {
+          id: 's1',
+          user_id: 'buyer3',
+          creator_id: 'seller1',
+          status: 'active',
+          current_period_end: new Date(Date.now() + 86_400_000).toISOString(),
+        },
+      ],
+    });
+
+    const req = new NextRequest('http://localhost/api/prompts/1/download');
+    const res = await GET(req as any, { params: Promise.resolve({ id: '1' }) } as any);
+    expect(res.status).toBe(200);
+  });
+
+  it('does not extend subscriptions to unapproved prompts', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'buyer3' },
+      prompts: [{ id: 1, user_id: 'seller1', title: 'Test', prompt_text: 'content', status: 'pending' }],
+      subscriptions: [{ id: 's1', user_id: 'buyer3', creator_id: 'seller1', status: 'active', current_period_end: null }],
+    });
+
+    const req = new NextRequest('http://localhost/api/prompts/1/download');
+    const res = await GET(req as any, { params: Promise.resolve({ id: '1' }) } as any);
+    expect(res.status).toBe(403);
+  });
 });
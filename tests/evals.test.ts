@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { checkAssertion } from '@/lib/evals';
+
+let suiteRoute: any;
+let runRoute: any;
+let supabaseMockRef: any;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(createSupabaseMock({}))),
+}));
+
+beforeAll(async () => {
+  suiteRoute = await import('@/app/api/prompts/[id]/evals/route');
+  runRoute = await import('@/app/api/prompts/[id]/evals/run/route');
+});
+
+const params = { params: Promise.resolve({ id: '1' }) };
+
+function seed(authUserId: string, model = 'mock-small') {
+  return {
+    authUser: { id: authUserId },
+    prompts: [{ id: '1', user_id: 'seller1', prompt_text: 'Summarize {{topic}}', price: 5, status: 'approved', eval_stale: true }],
+    prompt_eval_suites: [
+      {
+        prompt_id: '1',
+        model,
+        provider: 'mock',
+        cases: [
+          { id: 'c1', name: 'Mentions the topic', variables: { topic: 'tides' }, assertions: [{ type: 'contains', value: 'TIDES' }] },
+          { id: 'c2', name: 'Short answer', variables: { topic: 'tides' }, assertions: [{ type: 'max_length', value: 10 }] },
+        ],
+      },
+    ],
+  };
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, { method, body: JSON.stringify(body), headers: { 'x-forwarded-for': '10.2.0.1' } });
+}
+
+describe('eval assertions', () => {
+  it('checks contains, regex, JSON schema and length against the output', () => {
+    expect(checkAssertion('Hello World', { type: 'contains', value: 'world' }).passed).toBe(true);
+    expect(checkAssertion('Hello World', { type: 'contains', value: 'world', case_sensitive: true }).passed).toBe(false);
+    expect(checkAssertion('Subject: Launch', { type: 'regex', pattern: '^subject:', flags: 'i' }).passed).toBe(true);
+    expect(checkAssertion('twelve chars', { type: 'max_length', value: 5 }).message).toBe(
+      'Output is 12 characters, more than 5'
+    );
+
+    const schema = { type: 'object', required: ['title', 'tags'], properties: { tags: { type: 'array', items: { type: 'string' } } } };
+    expect(checkAssertion('```json\n{"title": "Hi", "tags": ["a"]}\n```', { type: 'json_schema', schema }).passed).toBe(true);
+    expect(checkAssertion('{"tags": [1]}', { type: 'json_schema', schema }).message).toBe(
+      '$.title is required; $.tags[0] should be string, got integer'
+    );
+    expect(checkAssertion('not json', { type: 'json_schema', schema }).message).toBe('Output is not valid JSON');
+  });
+});
+
+describe('eval suites', () => {
+  it('lets only the creator save a suite and checks case variables against the template', async () => {
+    supabaseMockRef = createSupabaseMock({ ...seed('buyer1'), prompt_eval_suites: [] });
+    const suite = {
+      model: 'gpt-4o-mini',
+      cases: [{ name: 'No topic', variables: {}, assertions: [{ type: 'contains', value: 'x' }] }],
+    };
+    const save = () => suiteRoute.PUT(jsonRequest('http://localhost/api/prompts/1/evals', 'PUT', suite), params);
+
+    expect((await save()).status).toBe(403);
+
+    supabaseMockRef.data.authUser = { id: 'seller1' };
+    const res = await save();
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.details.cases).toEqual({ 0: { topic: 'This field is required' } });
+
+    suite.cases[0].variables = { topic: 'tides' };
+    Object.assign(suite, { provider: 'mock' });
+    expect((await save()).status).toBe(400);
+
+    Object.assign(suite, { provider: undefined });
+    expect((await save()).status).toBe(200);
+    expect(supabaseMockRef.data.prompt_eval_suites[0]).toMatchObject({ prompt_id: '1', model: 'gpt-4o-mini' });
+    expect(supabaseMockRef.data.prompt_eval_suites[0].cases[0].id).toEqual(expect.any(String));
+  });
+
+  it('runs every case, stores results with the test runs and refreshes the badge', async () => {
+    supabaseMockRef = createSupabaseMock(seed('seller1'));
+
+    const res = await runRoute.POST(jsonRequest('http://localhost/api/prompts/1/evals/run', 'POST', {}), params);
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.run).toMatchObject({ status: 'completed', total_cases: 2, passed_cases: 1, pass_rate: 0.5 });
+    expect(data.results.map((result: any) => [result.caseId, result.passed])).toEqual([
+      ['c1', true],
+      ['c2', false],
+    ]);
+
+    const caseRuns = supabaseMockRef.data.test_runs;
+    expect(caseRuns).toHaveLength(2);
+    expect(caseRuns.every((run: any) => run.eval_run_id === data.run.id)).toBe(true);
+    expect(caseRuns[1].assertion_results[0]).toMatchObject({ type: 'max_length', passed: false });
+    expect(supabaseMockRef.data.prompts[0]).toMatchObject({ eval_pass_rate: 0.5, eval_case_count: 2, eval_stale: false });
+
+    supabaseMockRef.data.authUser = { id: 'buyer1' };
+    const view = await (await suiteRoute.GET(new NextRequest('http://localhost/api/prompts/1/evals'), params)).json();
+    expect(view.data.summary).toMatchObject({ pass_rate: 0.5, case_count: 2, stale: false });
+    expect(view.data.results.map((result: any) => result.name)).toEqual(['Mentions the topic', 'Short answer']);
+    expect(view.data.canEdit).toBe(false);
+  });
+
+  it('leaves the badge alone when the model cannot be reached', async () => {
+    supabaseMockRef = createSupabaseMock(seed('seller1', 'mock-error-auth'));
+
+    const { data } = await (await runRoute.POST(jsonRequest('http://localhost/api/prompts/1/evals/run', 'POST', {}), params)).json();
+
+    expect(data.run.status).toBe('failed');
+    expect(supabaseMockRef.data.eval_runs[0].status).toBe('failed');
+    expect(supabaseMockRef.data.prompts[0].eval_pass_rate).toBeUndefined();
+    expect(supabaseMockRef.data.prompts[0].eval_stale).toBe(true);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { platformFeeCents, selectPlatformFee, PlatformFeeRule } from '@/lib/platform-fees';
+import {
+  allocateByAmount,
+  isBalanced,
+  payoutTransaction,
+  recordLedgerTransactions,
+  refundTransactions,
+  saleTransactions,
+  summarizeCreatorLedger,
+} from '@/lib/ledger';
+
+const now = new Date('2025-06-15T12:00:00Z');
+
+function rule(overrides: Partial<PlatformFeeRule>): PlatformFeeRule {
+  return {
+    id: overrides.id ?? 'rule',
+    creator_id: null,
+    fee_bps: 1000,
+    starts_at: null,
+    ends_at: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+const sale = {
+  purchaseId: 'pur1',
+  creatorId: 'seller1',
+  grossCents: 999,
+  platformFeeCents: 100,
+  feeBps: 1000,
+  currency: 'usd',
+};
+
+describe('platform fee rules', () => {
+  it('prefers a creator override over the global default', () => {
+    const rules = [
+      rule({ id: 'global', fee_bps: 1000 }),
+      rule({ id: 'override', creator_id: 'seller1', fee_bps: 500 }),
+    ];
+
+    expect(selectPlatformFee(rules, 'seller1', now)).toEqual({ feeBps: 500, ruleId: 'override', promotional: false });
+    expect(selectPlatformFee(rules, 'seller2', now)).toEqual({ feeBps: 1000, ruleId: 'global', promotional: false });
+  });
+
+  it('applies an active promotion only when it lowers the fee', () => {
+    const rules = [
+      rule({ id: 'global', fee_bps: 1000 }),
+      rule({ id: 'override', creator_id: 'seller1', fee_bps: 200 }),
+      rule({ id: 'promo', fee_bps: 500, starts_at: '2025-06-01T00:00:00Z', ends_at: '2025-07-01T00:00:00Z' }),
+      rule({ id: 'expired', fee_bps: 0, starts_at: '2025-01-01T00:00:00Z', ends_at: '2025-02-01T00:00:00Z' }),
+    ];
+
+    expect(selectPlatformFee(rules, 'seller2', now)).toEqual({ feeBps: 500, ruleId: 'promo', promotional: true });
+    expect(selectPlatformFee(rules, 'seller1', now).ruleId).toBe('override');
+  });
+
+  it('falls back to the default fee and rounds fees to cents', () => {
+    expect(selectPlatformFee([], 'seller1', now).feeBps).toBe(1000);
+    expect(platformFeeCents(999, 1000)).toBe(100);
+    expect(platformFeeCents(500, 0)).toBe(0);
+  });
+});
+
+describe('ledger transactions', () => {
+  it('splits a sale into creator share and platform fee', () => {
+    const [transaction, transfer] = saleTransactions({ ...sale, transferDestination: 'acct_1' });
+
+    expect(isBalanced(transaction)).toBe(true);
+    expect(transaction.lines).toEqual([
+      { account: 'cash', direction: 'debit', amountCents: 999 },
+      { account: 'creator_payable', direction: 'credit', amountCents: 899 },
+      { account: 'platform_revenue', direction: 'credit', amountCents: 100 },
+    ]);
+    expect(transfer.kind).toBe('transfer');
+    expect(isBalanced(transfer)).toBe(true);
+  });
+
+  it('reverses exactly the sale split across several partial refunds', () => {
+    const first = refundTransactions({ ...sale, previousRefundedCents: 0, refundedCents: 333 });
+    const second = refundTransactions({ ...sale, previousRefundedCents: 333, refundedCents: 999 });
+    const lines = [...first, ...second].flatMap((transaction) => transaction.lines);
+    const total = (account: string) =>
+      lines.filter((entry) => entry.account === account).reduce((sum, entry) => sum + entry.amountCents, 0);
+
+    expect([...first, ...second].every(isBalanced)).toBe(true);
+    expect(total('creator_payable')).toBe(899);
+    expect(total('platform_revenue')).toBe(100);
+    expect(total('cash')).toBe(999);
+  });
+
+  it('allocates payment-level amounts without losing cents', () => {
+    expect(allocateByAmount(100, [1, 1, 1])).toEqual([33, 33, 34]);
+    expect(allocateByAmount(50, [0, 0])).toEqual([0, 0]);
+  });
+
+  it('records each transaction once and summarizes the creator balance', async () => {
+    const supabase = createSupabaseMock();
+    const transactions = [
+      ...saleTransactions(sale),
+      ...refundTransactions({ ...sale, previousRefundedCents: 0, refundedCents: 999 }),
+      ...saleTransactions({ ...sale, purchaseId: 'pur2' }),
+      payoutTransaction({ payoutId: 'po1', creatorId: 'seller1', amountCents: 400, currency: 'usd', stripeTransferId: 'tr_1' }),
+    ];
+
+    expect(await recordLedgerTransactions(supabase, transactions)).toBe(4);
+    expect(await recordLedgerTransactions(supabase, transactions)).toBe(0);
+
+    expect(summarizeCreatorLedger(supabase.data.ledger_entries)).toEqual({
+      grossSalesCents: 1998,
+      platformFeesCents: 100,
+      refundedCents: 999,
+      netEarningsCents: 899,
+      paidOutCents: 400,
+      availableCents: 499,
+    });
+  });
+});
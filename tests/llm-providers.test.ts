@@ -0,0 +1,268 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { LlmProviderError } from '@/lib/llm/types';
+import { resolveLlmProvider, runLlmCompletion, streamLlmCompletion } from '@/lib/llm/registry';
+import { readSseEvents } from '@/lib/llm/sse';
+import { mockProvider } from '@/lib/llm/mock';
+
+let supabaseMockRef: any;
+const axiosPost = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+}));
+
+vi.mock('axios', () => ({
+  default: { post: (...args: any[]) => axiosPost(...args) },
+}));
+
+const conversation = [
+  { role: 'system' as const, content: 'Be brief.' },
+  { role: 'user' as const, content: 'Hi' },
+  { role: 'assistant' as const, content: 'Hello!' },
+  { role: 'user' as const, content: 'Name a colour' },
+];
+
+function httpError(status: number, data: unknown) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data } });
+}
+
+beforeEach(() => {
+  axiosPost.mockReset();
+});
+
+afterEach(() => {
+  delete process.env.OPENAI_COMPATIBLE_BASE_URL;
+  vi.unstubAllGlobals();
+});
+
+function sseResponse(events: string[]) {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        // Split mid-event to check that chunks are reassembled
+        const raw = events.join('');
+        const middle = Math.floor(raw.length / 2);
+        controller.enqueue(encoder.encode(raw.slice(0, middle)));
+        controller.enqueue(encoder.encode(raw.slice(middle)));
+        controller.close();
+      },
+    }),
+    { headers: { 'Content-Type': 'text/event-stream' } }
+  );
+}
+
+async function collect(stream: AsyncIterable<any>) {
+  const events: any[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+describe('llm provider registry', () => {
+  it('resolves providers from model names unless one is given explicitly', () => {
+    expect(resolveLlmProvider('gpt-4o').id).toBe('openai');
+    expect(resolveLlmProvider('claude-3-opus').id).toBe('anthropic');
+    expect(resolveLlmProvider('gemini-1.5-pro').id).toBe('google');
+    expect(resolveLlmProvider('mistral-large-latest').id).toBe('mistral');
+    expect(resolveLlmProvider('mock').id).toBe('mock');
+    expect(resolveLlmProvider('llama3.1').id).toBe('openai');
+    expect(resolveLlmProvider('llama3.1', 'openai-compatible').id).toBe('openai-compatible');
+  });
+
+  it('normalizes OpenAI usage and stop reasons', async () => {
+    axiosPost.mockResolvedValue({
+      data: {
+        model: 'gpt-4o-2024-08-06',
+        choices: [{ message: { content: 'Blue' }, finish_reason: 'length' }],
+        usage: { prompt_tokens: 12, completion_tokens: 1, total_tokens: 13 },
+      },
+    });
+
+    const result = await runLlmCompletion({ model: 'gpt-4o', messages: conversation, maxTokens: 1 }, { credentials: { apiKey: 'sk-test' } });
+
+    expect(result).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o-2024-08-06',
+      text: 'Blue',
+      stopReason: 'max_tokens',
+      usage: { inputTokens: 12, outputTokens: 1, totalTokens: 13 },
+    });
+    expect(axiosPost.mock.calls[0][0]).toBe('https://api.openai.com/v1/chat/completions');
+    expect(axiosPost.mock.calls[0][2].headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('moves system messages out of the Anthropic and Gemini message lists', async () => {
+    axiosPost.mockResolvedValueOnce({
+      data: {
+        content: [{ type: 'text', text: 'Gr' }, { type: 'text', text: 'een' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 9, output_tokens: 2 },
+      },
+    });
+    const claude = await runLlmCompletion({ model: 'claude-3-opus', messages: conversation }, { credentials: { apiKey: 'key' } });
+
+    expect(claude).toMatchObject({ text: 'Green', stopReason: 'end', usage: { inputTokens: 9, outputTokens: 2, totalTokens: 11 } });
+    expect(axiosPost.mock.calls[0][1]).toMatchObject({ system: 'Be brief.', max_tokens: 1024 });
+    expect(axiosPost.mock.calls[0][1].messages.map((m: any) => m.role)).toEqual(['user', 'assistant', 'user']);
+
+    axiosPost.mockResolvedValueOnce({
+      data: {
+        candidates: [{ content: { parts: [{ text: '' }] }, finishReason: 'SAFETY' }],
+        usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 0, totalTokenCount: 8 },
+      },
+    });
+    const gemini = await runLlmCompletion({ model: 'gemini-1.5-pro', messages: conversation }, { credentials: { apiKey: 'key' } });
+
+    expect(gemini).toMatchObject({ provider: 'google', stopReason: 'content_filter', usage: { inputTokens: 8, totalTokens: 8 } });
+    expect(axiosPost.mock.calls[1][0]).toContain('/models/gemini-1.5-pro:generateContent');
+    expect(axiosPost.mock.calls[1][1].systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+    expect(axiosPost.mock.calls[1][1].contents.map((c: any) => c.role)).toEqual(['user', 'model', 'user']);
+  });
+
+  it('maps provider failures onto common error kinds', async () => {
+    axiosPost.mockRejectedValueOnce(httpError(429, { error: { message: 'You exceeded your quota', code: 'insufficient_quota' } }));
+    const quota = await runLlmCompletion({ model: 'gpt-4o', messages: conversation }, { credentials: { apiKey: 'sk' } }).catch((err) => err);
+    expect(quota).toBeInstanceOf(LlmProviderError);
+    expect(quota).toMatchObject({ kind: 'quota', provider: 'openai', message: 'You exceeded your quota' });
+
+    axiosPost.mockRejectedValueOnce(httpError(529, { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }));
+    const overloaded = await runLlmCompletion({ model: 'claude-3-opus', messages: conversation }, { credentials: { apiKey: 'k' } }).catch((err) => err);
+    expect(overloaded).toMatchObject({ kind: 'unavailable', statusCode: 503 });
+
+    axiosPost.mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:11434'));
+    process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://127.0.0.1:11434/v1';
+    const offline = await runLlmCompletion(
+      { model: 'llama3.1', messages: conversation },
+      { provider: 'openai-compatible', credentials: {} }
+    ).catch((err) => err);
+    expect(offline).toMatchObject({ kind: 'unavailable', provider: 'openai-compatible' });
+    expect(axiosPost.mock.calls[2][0]).toBe('http://127.0.0.1:11434/v1/chat/completions');
+
+    await expect(runLlmCompletion({ model: 'gpt-4o', messages: conversation }, { credentials: {} })).rejects.toMatchObject({
+      kind: 'auth',
+    });
+  });
+
+  it('answers deterministically from the mock provider', async () => {
+    const request = { model: 'mock', messages: conversation, maxTokens: 3 };
+    const first = await mockProvider.complete(request, {});
+
+    expect(first).toEqual({
+      provider: 'mock',
+      model: 'mock',
+      text: '[mock:mock] Name a',
+      stopReason: 'max_tokens',
+      usage: { inputTokens: 7, outputTokens: 3, totalTokens: 10 },
+    });
+    expect(await mockProvider.complete(request, {})).toEqual(first);
+    await expect(mockProvider.complete({ model: 'mock-error-rate_limit', messages: conversation }, {})).rejects.toMatchObject({
+      kind: 'rate_limit',
+      statusCode: 429,
+    });
+    expect(axiosPost).not.toHaveBeenCalled();
+  });
+});
+
+describe('llm streaming', () => {
+  it('streams OpenAI deltas and reads usage from the final chunk', async () => {
+    const fetchMock = vi.fn(async () =>
+      sseResponse([
+        'data: {"model":"gpt-4o","choices":[{"delta":{"content":"Bl"}}]}\n\n',
+        'data: {"choices":[{"delta":{"content":"ue"},"finish_reason":"stop"}]}\n\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"total_tokens":14}}\n\n',
+        'data: [DONE]\n\n',
+      ])
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const events = await collect(streamLlmCompletion({ model: 'gpt-4o', messages: conversation }, { credentials: { apiKey: 'sk' } }));
+
+    expect(events.filter((e) => e.type === 'delta').map((e) => e.text)).toEqual(['Bl', 'ue']);
+    expect(events.at(-1)).toEqual({
+      type: 'done',
+      response: { provider: 'openai', model: 'gpt-4o', text: 'Blue', stopReason: 'end', usage: { inputTokens: 12, outputTokens: 2, totalTokens: 14 } },
+    });
+    expect(JSON.parse((fetchMock.mock.calls[0] as any)[1].body)).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('streams Anthropic events and surfaces in-stream errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        sseResponse([
+          'event: message_start\ndata: {"type":"message_start","message":{"model":"claude-3-opus","usage":{"input_tokens":9}}}\n\n',
+          'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Green"}}\n\n',
+          'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"max_tokens"},"usage":{"output_tokens":1}}\n\n',
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        ])
+      )
+    );
+
+    const events = await collect(streamLlmCompletion({ model: 'claude-3-opus', messages: conversation }, { credentials: { apiKey: 'k' } }));
+    expect(events.at(-1).response).toMatchObject({ text: 'Green', stopReason: 'max_tokens', usage: { inputTokens: 9, outputTokens: 1, totalTokens: 10 } });
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        sseResponse(['event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n'])
+      )
+    );
+    await expect(
+      collect(streamLlmCompletion({ model: 'claude-3-opus', messages: conversation }, { credentials: { apiKey: 'k' } }))
+    ).rejects.toMatchObject({ kind: 'unavailable', message: 'Overloaded' });
+  });
+});
+
+describe('prompt test route with providers', () => {
+  async function runTest(body: unknown) {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'seller1' },
+      prompts: [{ id: '1', user_id: 'seller1', prompt_text: 'Summarize {{topic}}', price: 5, status: 'approved' }],
+    });
+    const { POST } = await import('@/app/api/prompts/[id]/test/route');
+    const req = new NextRequest('http://localhost/api/prompts/1/test', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      headers: { 'x-forwarded-for': '10.1.0.1' },
+    });
+    return POST(req, { params: Promise.resolve({ id: '1' }) });
+  }
+
+  it('returns normalized usage and stop reason, and passes provider errors through', async () => {
+    const res = await runTest({ model: 'mock', provider: 'mock', variables: { topic: 'sales calls' } });
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body).toMatchObject({
+      output: '[mock:mock] Summarize sales calls',
+      provider: 'mock',
+      stopReason: 'end',
+      usage: { inputTokens: 3, outputTokens: 4, totalTokens: 7 },
+    });
+
+    const failed = await runTest({ model: 'mock-error-auth', provider: 'mock', variables: { topic: 'x' } });
+    expect(failed.status).toBe(401);
+    expect(await failed.json()).toMatchObject({ kind: 'auth', provider: 'mock' });
+
+    const unknown = await runTest({ apiKey: 'k', model: 'x', provider: 'cohere', variables: { topic: 'x' } });
+    expect(unknown.status).toBe(400);
+  });
+
+  it('streams the output as server-sent events when asked to', async () => {
+    const res = await runTest({ model: 'mock', provider: 'mock', variables: { topic: 'sales calls' }, stream: true });
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+
+    const events = await collect(readSseEvents(res.body!));
+    const deltas = events.filter((e) => e.event === 'delta').map((e) => JSON.parse(e.data).text);
+
+    expect(deltas.join('')).toBe('[mock:mock] Summarize sales calls');
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(JSON.parse(events.at(-1).data)).toMatchObject({ output: '[mock:mock] Summarize sales calls', stopReason: 'end' });
+
+    // A provider error before the first token still gets a JSON error and status code
+    const failed = await runTest({ model: 'mock-error-quota', provider: 'mock', variables: { topic: 'x' }, stream: true });
+    expect(failed.status).toBe(402);
+  });
+});
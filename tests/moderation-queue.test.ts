@@ -0,0 +1,194 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+
+let moderationRoute: any;
+let supabaseMockRef: any;
+let currentAdminId: string;
+const publishPromptVersions = vi.fn();
+const rejectPendingVersions = vi.fn();
+const notifySavedSearchMatches = vi.fn();
+
+const ADA = '00000000-0000-4000-8000-00000000000a';
+const BEN = '00000000-0000-4000-8000-00000000000b';
+const CHEAP = '00000000-0000-4000-8000-000000000001';
+const PRICEY = '00000000-0000-4000-8000-000000000002';
+const LIVE = '00000000-0000-4000-8000-000000000003';
+
+vi.mock('@/lib/admin/auth', () => ({
+  requireAdminSupabaseClient: () => supabaseMockRef,
+  getAdminUser: async () => ({ id: currentAdminId }),
+  assertAdminAccess: async (userId: string) => {
+    if (!supabaseMockRef.data.profiles.some((p: any) => p.id === userId && p.is_admin)) throw new Error('Forbidden');
+  },
+}));
+
+vi.mock('@/lib/prompt-versions', () => ({
+  publishPromptVersions: (...args: any[]) => publishPromptVersions(...args),
+  rejectPendingVersions: (...args: any[]) => rejectPendingVersions(...args),
+}));
+vi.mock('@/lib/saved-searches', () => ({ notifySavedSearchMatches: (...args: any[]) => notifySavedSearchMatches(...args) }));
+
+beforeAll(async () => {
+  moderationRoute = await import('@/app/api/admin/moderation/route');
+});
+
+beforeEach(() => {
+  publishPromptVersions.mockReset();
+  rejectPendingVersions.mockReset();
+  notifySavedSearchMatches.mockReset();
+  delete process.env.MODERATION_SECOND_REVIEW_MIN_PRICE;
+});
+
+// Mirrors claim_moderation_prompt: one live claim per prompt, taken over only when expired or assigned
+function claimRpc(args: any, data: any) {
+  const prompt = data.prompts.find(
+    (p: any) => p.id === args.p_prompt_id && (p.status === 'submitted' || (p.status === 'approved' && p.pending_version))
+  );
+  if (!prompt) return { data: [], error: null };
+  const existing = data.moderation_claims.find((c: any) => c.prompt_id === args.p_prompt_id);
+  if (
+    existing &&
+    new Date(existing.expires_at) > new Date() &&
+    existing.reviewer_id !== args.p_reviewer_id &&
+    !args.p_assigned_by
+  ) {
+    return { data: [], error: null };
+  }
+  const claim = {
+    prompt_id: args.p_prompt_id,
+    reviewer_id: args.p_reviewer_id,
+    assigned_by: args.p_assigned_by,
+    claimed_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + args.p_ttl_seconds * 1000).toISOString(),
+  };
+  data.moderation_claims.splice(0, data.moderation_claims.length, ...data.moderation_claims.filter((c: any) => c !== existing), claim);
+  return { data: [claim], error: null };
+}
+
+function seed() {
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * 3_600_000).toISOString();
+  return {
+    profiles: [
+      { id: ADA, is_admin: true, full_name: 'Ada' },
+      { id: BEN, is_admin: true, full_name: 'Ben' },
+    ],
+    prompts: [
+      { id: CHEAP, title: 'Cheap', user_id: 'seller1', price: 5, status: 'submitted', created_at: hoursAgo(90), submitted_at: hoursAgo(2) },
+      { id: PRICEY, title: 'Pricey', user_id: 'seller1', price: 80, status: 'submitted', created_at: hoursAgo(1), submitted_at: hoursAgo(30) },
+    ],
+    rpc: { claim_moderation_prompt: claimRpc },
+  };
+}
+
+async function act(adminId: string, body: Record<string, unknown>) {
+  currentAdminId = adminId;
+  const res = await moderationRoute.POST(
+    new NextRequest('http://localhost/api/admin/moderation', { method: 'POST', body: JSON.stringify(body) })
+  );
+  return { status: res.status, body: await res.json() };
+}
+
+describe('moderation queue', () => {
+  it('lists submitted prompts by time in review and flags SLA breaches', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+    currentAdminId = ADA;
+
+    const res = await moderationRoute.GET(new NextRequest('http://localhost/api/admin/moderation'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.queue.map((p: any) => [p.title, p.slaBreached, p.requiredApprovals])).toEqual([
+      ['Pricey', true, 2],
+      ['Cheap', false, 1],
+    ]);
+  });
+
+  it('lets one reviewer hold a prompt and requires the claim to decide it', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+
+    const unclaimed = await act(ADA, { action: 'approve', promptId: CHEAP });
+    expect(unclaimed.status).toBe(409);
+    expect(unclaimed.body.error.code).toBe('CLAIM_REQUIRED');
+
+    expect((await act(ADA, { action: 'claim', promptId: CHEAP })).status).toBe(200);
+    const taken = await act(BEN, { action: 'claim', promptId: CHEAP });
+    expect(taken.status).toBe(409);
+    expect(taken.body.error.code).toBe('REVIEW_CLAIMED');
+
+    // An expired claim is free for the next reviewer
+    supabaseMockRef.data.moderation_claims[0].expires_at = new Date(Date.now() - 1000).toISOString();
+    expect((await act(BEN, { action: 'claim', promptId: CHEAP })).status).toBe(200);
+
+    const approved = await act(BEN, { action: 'approve', promptId: CHEAP, reason: 'Looks good' });
+    expect(approved.status).toBe(200);
+    expect(approved.body.data.status).toBe('approved');
+    expect(supabaseMockRef.data.prompts.find((p: any) => p.id === CHEAP)).toMatchObject({ status: 'approved', is_public: true });
+    expect(supabaseMockRef.data.moderation_claims).toHaveLength(0);
+    expect(publishPromptVersions).toHaveBeenCalledWith(supabaseMockRef, CHEAP);
+    expect(supabaseMockRef.data.moderation_actions.map((a: any) => [a.admin_id, a.action])).toEqual([
+      [ADA, 'claim'],
+      [BEN, 'claim'],
+      [BEN, 'approve'],
+    ]);
+  });
+
+  it('publishes a high-priced prompt only after two different reviewers approve it', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+
+    await act(ADA, { action: 'claim', promptId: PRICEY });
+    const first = await act(ADA, { action: 'approve', promptId: PRICEY });
+    expect(first.body.data).toMatchObject({ status: 'awaiting_second_review', approvals: 1, requiredApprovals: 2 });
+    expect(supabaseMockRef.data.prompts.find((p: any) => p.id === PRICEY).status).toBe('submitted');
+    expect(publishPromptVersions).not.toHaveBeenCalled();
+
+    // The same reviewer cannot supply the second approval
+    await act(ADA, { action: 'claim', promptId: PRICEY });
+    expect((await act(ADA, { action: 'approve', promptId: PRICEY })).status).toBe(409);
+    await act(ADA, { action: 'release', promptId: PRICEY });
+
+    // An admin can hand the prompt to another reviewer
+    const assigned = await act(ADA, { action: 'assign', promptId: PRICEY, reviewerId: BEN });
+    expect(assigned.body.data.claim.reviewer_id).toBe(BEN);
+
+    const second = await act(BEN, { action: 'approve', promptId: PRICEY });
+    expect(second.body.data).toMatchObject({ status: 'approved', approvals: 2 });
+    expect(supabaseMockRef.data.prompts.find((p: any) => p.id === PRICEY).status).toBe('approved');
+    expect(notifySavedSearchMatches).toHaveBeenCalledWith(supabaseMockRef, PRICEY);
+  });
+
+  it('reviews an edit to an approved prompt without taking the listing off sale', async () => {
+    const data = seed();
+    data.prompts.push({
+      id: LIVE,
+      title: 'Live',
+      user_id: 'seller1',
+      price: 5,
+      status: 'approved',
+      is_public: true,
+      pending_version: 3,
+      created_at: new Date(Date.now() - 100 * 3_600_000).toISOString(),
+      submitted_at: new Date().toISOString(),
+    } as any);
+    supabaseMockRef = createSupabaseMock(data);
+    const live = () => supabaseMockRef.data.prompts.find((p: any) => p.id === LIVE);
+
+    const queue = await (await moderationRoute.GET(new NextRequest('http://localhost/api/admin/moderation'))).json();
+    expect(queue.data.queue.find((p: any) => p.id === LIVE)).toMatchObject({ pending_version: 3, requiredApprovals: 1 });
+
+    await act(ADA, { action: 'claim', promptId: LIVE });
+    const rejected = await act(ADA, { action: 'reject', promptId: LIVE, reason: 'Adds a tracking link' });
+    expect(rejected.body.data).toMatchObject({ status: 'rejected', edit: true });
+    expect(rejectPendingVersions).toHaveBeenCalledWith(supabaseMockRef, LIVE);
+    expect(live()).toMatchObject({ status: 'approved', is_public: true, moderation_note: 'Adds a tracking link' });
+
+    // The creator tries again and the next edit is approved
+    Object.assign(live(), { pending_version: 4 });
+    await act(BEN, { action: 'claim', promptId: LIVE });
+    const approved = await act(BEN, { action: 'approve', promptId: LIVE });
+    expect(approved.body.data).toMatchObject({ status: 'approved', edit: true });
+    expect(live()).toMatchObject({ status: 'approved', is_public: true });
+    expect(publishPromptVersions).toHaveBeenCalledWith(supabaseMockRef, LIVE);
+    expect(notifySavedSearchMatches).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { plagiarismClassifier } from '@/lib/moderation/classifiers';
+import { estimateSimilarity, minhashSignature, signatureBands } from '@/lib/moderation/fingerprint';
+import {
+  assertPromptOriginal,
+  assessPromptOriginality,
+  fingerprintPrompts,
+  fingerprintStalePrompts,
+  loadSimilarityClusters,
+} from '@/lib/moderation/plagiarism';
+import { scanPrompt } from '@/lib/moderation/scanner';
+
+const ORIGINAL =
+  'You are a senior product marketer. Write a launch email for {{product}} aimed at {{audience}}. ' +
+  'Open with a one line hook, explain the three most important benefits in plain language, ' +
+  'add a short customer quote, and finish with a clear call to action that links to the pricing page. ' +
+  'Keep it under two hundred words and avoid jargon.';
+
+const RESOLD =
+  'You are a senior product marketer! Write a launch email for {{item}} aimed at {{readers}}. ' +
+  'Open with a one line hook, explain the three most important benefits in plain language, ' +
+  'add a short customer quote, and finish with a clear call to action that links to the pricing page. ' +
+  'Keep it under two hundred words and avoid all jargon.';
+
+const UNRELATED =
+  'Summarise the attached meeting transcript into decisions, owners and deadlines as a markdown table, ' +
+  'then list open questions that nobody answered during the call.';
+
+function pairsRpc(_args: any, data: any) {
+  const byBand = new Map<string, string[]>();
+  for (const row of data.prompt_fingerprint_bands) {
+    byBand.set(row.band, [...(byBand.get(row.band) ?? []), row.prompt_id]);
+  }
+  const shared = new Map<string, number>();
+  for (const ids of byBand.values()) {
+    for (const a of ids) {
+      for (const b of ids) {
+        if (a < b) shared.set(`${a}|${b}`, (shared.get(`${a}|${b}`) ?? 0) + 1);
+      }
+    }
+  }
+  return {
+    data: Array.from(shared.entries()).map(([key, count]) => {
+      const [prompt_a, prompt_b] = key.split('|');
+      return { prompt_a, prompt_b, shared_bands: count };
+    }),
+    error: null,
+  };
+}
+
+function catalogue() {
+  return createSupabaseMock({
+    prompts: [
+      { id: 'src', user_id: 'seller', title: 'Launch email', prompt_text: ORIGINAL, status: 'approved', created_at: '2025-01-01T00:00:00Z' },
+      { id: 'copy', user_id: 'swapper', title: 'Launch email', prompt_text: ORIGINAL, status: 'draft', created_at: '2025-02-01T00:00:00Z' },
+      { id: 'resale', user_id: 'buyer', title: 'Email launcher', prompt_text: RESOLD, status: 'submitted', created_at: '2025-03-01T00:00:00Z' },
+      { id: 'notes', user_id: 'seller', title: 'Meeting notes', prompt_text: UNRELATED, status: 'approved', created_at: '2025-01-05T00:00:00Z' },
+    ],
+    purchases: [{ id: 'pur1', buyer_id: 'buyer', seller_id: 'seller', prompt_id: 'src', price: 10 }],
+    swap_prompt_copies: [{ swap_id: 'swap1', source_prompt_id: 'src', copied_prompt_id: 'copy', recipient_id: 'swapper' }],
+    profiles: [
+      { id: 'seller', full_name: 'Sam Seller' },
+      { id: 'buyer', full_name: 'Bo Buyer' },
+    ],
+    rpc: { prompt_similarity_pairs: pairsRpc },
+  });
+}
+
+describe('plagiarism detection', () => {
+  it('fingerprints text so light edits and renamed variables still match', () => {
+    const original = minhashSignature(ORIGINAL);
+    expect(original).toHaveLength(128);
+    expect(estimateSimilarity(original, minhashSignature(ORIGINAL.toUpperCase().replace(/\./g, ' ')))).toBe(1);
+    expect(estimateSimilarity(original, minhashSignature(RESOLD))).toBeGreaterThan(0.6);
+    expect(estimateSimilarity(original, minhashSignature(UNRELATED))).toBeLessThan(0.1);
+    expect(signatureBands(original)).toEqual(signatureBands(minhashSignature(ORIGINAL)));
+    expect(minhashSignature('  ...  ')).toEqual([]);
+  });
+
+  it('blocks relisting purchased or swapped prompts and flags copies of other creators', async () => {
+    const supabase = catalogue();
+    const report = await fingerprintStalePrompts(supabase, { limit: 10 });
+    expect(report.fingerprinted).toBe(4);
+    expect(supabase.data.prompt_fingerprint_bands).toHaveLength(4 * 32);
+
+    await expect(assertPromptOriginal(supabase, { userId: 'buyer', promptText: RESOLD })).rejects.toMatchObject({
+      code: 'DUPLICATE_CONTENT',
+      statusCode: 409,
+      details: { promptId: 'src', acquired: 'purchase' },
+    });
+    await expect(assertPromptOriginal(supabase, { promptId: 'copy', userId: 'swapper', promptText: ORIGINAL })).rejects.toMatchObject({
+      details: { promptId: 'src', acquired: 'swap' },
+    });
+
+    const stranger = await assessPromptOriginality(supabase, { userId: 'stranger', promptText: RESOLD });
+    expect(stranger.verdict).toBe('flag');
+    expect(stranger.matches.map((match) => [match.id, match.acquired])).toEqual(
+      expect.arrayContaining([
+        ['src', null],
+        ['copy', null],
+      ])
+    );
+
+    expect((await assessPromptOriginality(supabase, { userId: 'seller', promptText: ORIGINAL })).verdict).not.toBe('block');
+    expect((await assessPromptOriginality(supabase, { userId: 'stranger', promptText: 'Translate {{text}} into formal Japanese and explain any idioms you changed.' })).matches).toEqual([]);
+
+    const scan = await scanPrompt(
+      { promptId: 'resale', userId: 'buyer', title: 'Email launcher', description: null, promptText: RESOLD, tags: [] },
+      { supabase, classifiers: [plagiarismClassifier] }
+    );
+    expect(scan.verdict).toBe('reject');
+    expect(scan.findings.map((finding) => finding.rule)).toContain('acquired_copy');
+  });
+
+  it('clusters near-copies with ownership provenance and drops bands when the text changes', async () => {
+    const supabase = catalogue();
+    await fingerprintStalePrompts(supabase, { limit: 10 });
+
+    const clusters = await loadSimilarityClusters(supabase);
+    expect(clusters).toHaveLength(1);
+    const members = clusters[0].members;
+    expect(members.map((member) => member.id)).toEqual(['src', 'copy', 'resale']);
+    expect(members[0]).toMatchObject({ original: true, ownerName: 'Sam Seller', provenance: [] });
+    expect(members[1]).toMatchObject({
+      original: false,
+      provenance: [{ kind: 'swap_copy', sourcePromptId: 'src', swapId: 'swap1' }],
+    });
+    expect(members[2]).toMatchObject({ ownerName: 'Bo Buyer', provenance: [{ kind: 'purchased', promptId: 'src' }] });
+
+    await fingerprintPrompts(supabase, [{ id: 'resale', prompt_text: UNRELATED }]);
+    expect(supabase.data.prompt_fingerprint_bands.filter((row: any) => row.prompt_id === 'resale')).toHaveLength(32);
+    const after = await loadSimilarityClusters(supabase, { minSimilarity: 0.9 });
+    expect(after.map((cluster) => cluster.members.map((member) => member.id))).toEqual(
+      expect.arrayContaining([['src', 'copy'], ['notes', 'resale']])
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { cosineSimilarity, EMBEDDING_DIMENSIONS, getEmbeddingBackend } from '@/lib/embeddings';
+import { hashingEmbedding } from '@/lib/embeddings/hashing';
+import { embedStalePrompts } from '@/lib/prompt-search';
+
+let searchRoute: any;
+let supabaseMockRef: any;
+const axiosPost = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(null)),
+}));
+
+vi.mock('axios', () => ({
+  default: { post: (...args: any[]) => axiosPost(...args) },
+}));
+
+beforeAll(async () => {
+  searchRoute = await import('@/app/api/prompts/search/route');
+});
+
+beforeEach(() => {
+  axiosPost.mockReset();
+  delete process.env.EMBEDDING_BACKEND;
+});
+
+// Mirrors search_prompts_hybrid with vector similarity and likes; the text rank needs Postgres
+function searchPromptsHybridRpc(args: any, data: any) {
+  const rows = data.prompts
+    .filter((p: any) => p.is_public)
+    .map((p: any) => {
+      const similarity =
+        args.p_query_embedding && p.embedding_model === args.p_embedding_model
+          ? cosineSimilarity(p.embedding, args.p_query_embedding)
+          : 0;
+      const likes = Math.min(1, Math.log(1 + p.likes) / Math.log(1001));
+      return { p, similarity, score: args.p_vector_weight * similarity + args.p_likes_weight * likes };
+    })
+    .filter((row: any) => !args.p_query || row.similarity >= args.p_min_similarity)
+    .sort((a: any, b: any) => b.score - a.score);
+
+  return {
+    data: rows.map((row: any) => ({
+      prompt: { id: row.p.id, title: row.p.title, likes: row.p.likes },
+      score: row.score,
+      text_rank: 0,
+      vector_similarity: row.similarity,
+      total_count: rows.length,
+    })),
+    error: null,
+  };
+}
+
+function seed() {
+  return {
+    prompts: [
+      { id: '1', title: 'Cold email writer', description: 'Outreach emails for sales teams', tags: ['sales'], likes: 900, is_public: true },
+      { id: '2', title: 'Meeting notes summarizer', description: 'Summarize meeting transcripts into action items', tags: ['productivity'], likes: 3, is_public: true },
+      { id: '3', title: 'Meeting agenda planner', description: 'Draft agendas for team meetings', tags: ['productivity'], likes: 40, is_public: false },
+    ],
+    rpc: { search_prompts_hybrid: searchPromptsHybridRpc },
+  };
+}
+
+describe('prompt search', () => {
+  it('hashes related text closer together than unrelated text', () => {
+    const query = hashingEmbedding('summarise my meeting notes');
+
+    expect(query).toHaveLength(EMBEDDING_DIMENSIONS);
+    expect(Math.hypot(...query)).toBeCloseTo(1);
+    expect(hashingEmbedding('summarise my meeting notes')).toEqual(query);
+    expect(cosineSimilarity(query, hashingEmbedding('Meeting note summarizer'))).toBeGreaterThan(
+      cosineSimilarity(query, hashingEmbedding('Cold email writer for sales outreach')) + 0.3
+    );
+  });
+
+  it('uses a local OpenAI-compatible embeddings server when configured', async () => {
+    axiosPost.mockResolvedValue({
+      data: { data: [{ index: 0, embedding: new Array(EMBEDDING_DIMENSIONS).fill(2) }] },
+    });
+    const backend = getEmbeddingBackend({ EMBEDDING_BACKEND: 'local', EMBEDDING_BASE_URL: 'http://localhost:11434/v1/' } as any);
+
+    const [vector] = await backend.embed(['meeting notes']);
+
+    expect(backend.model).toBe('all-minilm');
+    expect(axiosPost).toHaveBeenCalledWith(
+      'http://localhost:11434/v1/embeddings',
+      { model: 'all-minilm', input: ['meeting notes'], dimensions: undefined },
+      expect.anything()
+    );
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+    expect(() => getEmbeddingBackend({ EMBEDDING_BACKEND: 'word2vec' } as any)).toThrow(/Unknown EMBEDDING_BACKEND/);
+  });
+
+  it('ranks by meaning and likes with sort=relevance', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+    expect(await embedStalePrompts(supabaseMockRef, { limit: 10 })).toEqual({ embedded: 3, model: 'hashing:v1' });
+
+    const res = await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?q=summarise%20my%20meeting%20notes&sort=relevance'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.items.map((item: any) => item.id)).toEqual(['2']);
+    expect(body.data.items[0].relevance).toBeGreaterThan(0);
+    expect(body.data.total).toBe(1);
+
+    // Without a query, likes decide
+    const browse = await (await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?sort=relevance'))).json();
+    expect(browse.data.items.map((item: any) => item.id)).toEqual(['1', '2']);
+  });
+
+  it('falls back to text rank and likes when the query cannot be embedded', async () => {
+    process.env.EMBEDDING_BACKEND = 'local';
+    process.env.EMBEDDING_BASE_URL = 'http://localhost:11434/v1';
+    axiosPost.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const rpc = vi.fn(() => ({ data: [], error: null }));
+    supabaseMockRef = createSupabaseMock({ ...seed(), rpc: { search_prompts_hybrid: rpc } });
+
+    const res = await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?q=meeting&sort=relevance&tags=productivity'));
+
+    expect(res.status).toBe(200);
+    expect(rpc).toHaveBeenCalledWith(
+      expect.objectContaining({ p_query: 'meeting', p_query_embedding: null, p_embedding_model: null, p_tags: ['productivity'] }),
+      expect.anything()
+    );
+    delete process.env.EMBEDDING_BASE_URL;
+  });
+});
+
+describe('score sorts', () => {
+  it('orders by the stored trending or rating score with sort=trending and sort=rating', async () => {
+    const scoresRpc = vi.fn((args: any) => ({
+      data: [
+        { prompt: { id: args.p_sort === 'rating' ? '2' : '1', title: 'First' }, score: 0.8, total_count: 2 },
+        { prompt: { id: args.p_sort === 'rating' ? '1' : '2', title: 'Second' }, score: null, total_count: 2 },
+      ],
+      error: null,
+    }));
+    supabaseMockRef = createSupabaseMock({ ...seed(), rpc: { search_prompts_by_score: scoresRpc } });
+
+    const trending = await (await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?sort=trending&tags=sales'))).json();
+    expect(trending.data.items.map((item: any) => [item.id, item.score])).toEqual([
+      ['1', 0.8],
+      ['2', null],
+    ]);
+    expect(trending.data.total).toBe(2);
+    expect(scoresRpc).toHaveBeenCalledWith(
+      expect.objectContaining({ p_sort: 'trending', p_query: null, p_tags: ['sales'], p_limit: 12, p_offset: 0 }),
+      expect.anything()
+    );
+
+    const rating = await (await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?sort=rating&page=2&pageSize=5'))).json();
+    expect(rating.data.items[0].id).toBe('2');
+    expect(scoresRpc).toHaveBeenLastCalledWith(expect.objectContaining({ p_sort: 'rating', p_limit: 5, p_offset: 5 }), expect.anything());
+  });
+});
+
+describe('search facets', () => {
+  it('returns facet counts with the results and passes the facet filters through', async () => {
+    const facetsRpc = vi.fn(() => ({
+      data: {
+        tags: [{ value: 'productivity', count: 2 }],
+        categories: [{ value: 'Writing', count: 1 }],
+        creators: [{ value: 'seller1', label: 'Ada', count: 2 }],
+        priceRanges: [
+          { key: 'free', count: 1 },
+          { key: '5-20', count: 1 },
+        ],
+        ratings: [{ min: 4, count: 1 }],
+      },
+      error: null,
+    }));
+    supabaseMockRef = createSupabaseMock({ ...seed(), rpc: { ...seed().rpc, search_prompt_facets: facetsRpc } });
+
+    const res = await searchRoute.GET(
+      new NextRequest('http://localhost/api/prompts/search?q=meeting&sort=relevance&category=Writing&minRating=4&creator=not-a-uuid')
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(facetsRpc).toHaveBeenCalledWith(
+      expect.objectContaining({ p_query: 'meeting', p_category: 'Writing', p_min_rating: 4, p_creator: null }),
+      expect.anything()
+    );
+    expect(body.data.facets.creators).toEqual([{ value: 'seller1', label: 'Ada', count: 2 }]);
+    expect(body.data.facets.priceRanges.map((range: any) => [range.key, range.count])).toEqual([
+      ['free', 1],
+      ['under-5', 0],
+      ['5-20', 1],
+      ['20-50', 0],
+      ['50-plus', 0],
+    ]);
+    expect(body.data.facets.ratings[0]).toEqual({ min: 4, label: '4+ stars', count: 1 });
+  });
+
+  it('still returns results when the facet counts fail', async () => {
+    supabaseMockRef = createSupabaseMock(seed());
+
+    const res = await searchRoute.GET(new NextRequest('http://localhost/api/prompts/search?sort=relevance'));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.data.items).toHaveLength(2);
+    expect(body.data.facets).toBeNull();
+  });
+});
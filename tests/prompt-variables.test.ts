@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { parsePromptVariables, renderPromptTemplate, validateVariableValues } from '@/lib/prompt-variables';
+
+let POST: any;
+let supabaseMockRef: any;
+const axiosPost = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+}));
+
+vi.mock('axios', () => ({
+  default: { post: (...args: any[]) => axiosPost(...args) },
+}));
+
+const template = 'Write a {{length:number=200}} word post for {{audience:enum[marketers,devs]}} about {{topic}}. Keep {{audience}} in mind.';
+
+beforeAll(async () => {
+  ({ POST } = await import('@/app/api/prompts/[id]/test/route'));
+});
+
+beforeEach(() => {
+  axiosPost.mockReset();
+  axiosPost.mockResolvedValue({ data: { choices: [{ message: { content: 'model output' } }] } });
+});
+
+function testRequest(body: unknown, ip: string) {
+  return new NextRequest('http://localhost/api/prompts/1/test', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'x-forwarded-for': ip },
+  });
+}
+
+describe('prompt template variables', () => {
+  it('extracts a typed schema, reusing earlier declarations', () => {
+    const parsed = parsePromptVariables(template);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.variables).toEqual([
+      { name: 'length', type: 'number', required: false, default: 200 },
+      { name: 'audience', type: 'enum', required: true, options: ['marketers', 'devs'] },
+      { name: 'topic', type: 'string', required: true },
+    ]);
+  });
+
+  it('reports conflicting declarations and bad defaults but leaves other braces alone', () => {
+    const parsed = parsePromptVariables('{{n:number}} {{n:string}} {{flag:boolean=maybe}} {{"json": true}}');
+
+    expect(parsed.variables.map((variable) => variable.name)).toEqual(['n']);
+    expect(parsed.errors).toHaveLength(2);
+  });
+
+  it('validates and coerces form values, then renders the template', () => {
+    const { variables } = parsePromptVariables(template);
+
+    expect(validateVariableValues(variables, { audience: 'designers' }).errors).toEqual({
+      audience: 'Must be one of: marketers, devs',
+      topic: 'This field is required',
+    });
+
+    const { values, errors } = validateVariableValues(variables, { audience: 'devs', topic: 'testing' });
+    expect(errors).toEqual({});
+    expect(renderPromptTemplate(template, values)).toBe(
+      'Write a 200 word post for devs about testing. Keep devs in mind.'
+    );
+  });
+});
+
+describe('prompt test route', () => {
+  it('sends the rendered prompt text to the model for a buyer', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'buyer1' },
+      prompts: [{ id: '1', user_id: 'seller1', prompt_text: template, price: 5, status: 'approved' }],
+      purchases: [{ id: 'p1', buyer_id: 'buyer1', prompt_id: '1', status: 'paid' }],
+    });
+
+    const res = await POST(
+      testRequest({ apiKey: 'sk-test', model: 'gpt-4o', variables: { audience: 'marketers', topic: 'launches', length: '50' } }, '10.0.0.1'),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).output).toBe('model output');
+    expect(axiosPost.mock.calls[0][1].messages[0].content).toBe(
+      'Write a 50 word post for marketers about launches. Keep marketers in mind.'
+    );
+  });
+
+  it('returns field errors for invalid variables without calling the model', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'seller1' },
+      prompts: [{ id: '1', user_id: 'seller1', prompt_text: template, price: 5, status: 'approved' }],
+    });
+
+    const res = await POST(
+      testRequest({ apiKey: 'sk-test', model: 'gpt-4o', variables: { length: 'long' } }, '10.0.0.2'),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(Object.keys(body.fields)).toEqual(['length', 'audience', 'topic']);
+    expect(axiosPost).not.toHaveBeenCalled();
+  });
+
+  it('refuses to run a paid prompt the user has not bought', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'stranger' },
+      prompts: [{ id: '1', user_id: 'seller1', prompt_text: template, price: 5, status: 'approved' }],
+    });
+
+    const res = await POST(
+      testRequest({ apiKey: 'sk-test', model: 'gpt-4o', variables: {} }, '10.0.0.3'),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+
+    expect(res.status).toBe(403);
+    expect(axiosPost).not.toHaveBeenCalled();
+  });
+});
@@ -26,4 +26,16 @@ describe('canDownloadPurchase', () => {
   it('blocks missing purchase', () => {
     expect(canDownloadPurchase(undefined)).toBe(false);
   });
+
+  it('allows an active creator subscription without a purchase', () => {
+    const periodEnd = new Date(Date.now() + 86_400_000).toISOString();
+    expect(canDownloadPurchase(undefined, { status: 'active', current_period_end: periodEnd })).toBe(true);
+    expect(canDownloadPurchase({ status: 'refunded' }, { status: 'past_due', current_period_end: periodEnd })).toBe(true);
+  });
+
+  it('blocks canceled or lapsed subscriptions', () => {
+    const periodEnd = new Date(Date.now() + 86_400_000).toISOString();
+    expect(canDownloadPurchase(undefined, { status: 'canceled', current_period_end: periodEnd })).toBe(false);
+    expect(canDownloadPurchase(undefined, { status: 'active', current_period_end: '2020-01-01T00:00:00.000Z' })).toBe(false);
+  });
 });
@@ -0,0 +1,108 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { notifySavedSearchMatches } from '@/lib/saved-searches';
+
+let savedSearchesRoute: any;
+let savedSearchRoute: any;
+let supabaseMockRef: any;
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(supabaseMockRef.data.authUser)),
+}));
+
+beforeAll(async () => {
+  savedSearchesRoute = await import('@/app/api/saved-searches/route');
+  savedSearchRoute = await import('@/app/api/saved-searches/[id]/route');
+});
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new Request(url, { method, body: JSON.stringify(body) });
+}
+
+// Mirrors claim_saved_search_matches for tag filters: one alert per saved search and prompt
+function claimMatchesRpc(args: any, data: any) {
+  const prompt = data.prompts.find((p: any) => p.id === args.p_prompt_id);
+  data.saved_search_alerts ??= [];
+  const claimed = data.saved_searches.filter(
+    (s: any) =>
+      s.notify &&
+      s.user_id !== prompt.user_id &&
+      (s.filters.tags ?? []).every((tag: string) => prompt.tags.includes(tag)) &&
+      !data.saved_search_alerts.some((a: any) => a.saved_search_id === s.id && a.prompt_id === prompt.id)
+  );
+  claimed.forEach((s: any) => data.saved_search_alerts.push({ saved_search_id: s.id, prompt_id: prompt.id }));
+  return { data: claimed.map((s: any) => ({ saved_search_id: s.id, user_id: s.user_id, name: s.name })), error: null };
+}
+
+describe('saved searches', () => {
+  it('saves a search with a readable default name and refuses one without filters', async () => {
+    supabaseMockRef = createSupabaseMock({ authUser: { id: 'buyer1' } });
+
+    const res = await savedSearchesRoute.POST(
+      jsonRequest('http://localhost/api/saved-searches', 'POST', {
+        filters: { q: ' meeting notes ', tags: ['productivity'], priceMin: 0.01, priceMax: 4.99 },
+      })
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body.data.search).toMatchObject({
+      user_id: 'buyer1',
+      name: '"meeting notes" · productivity · under $5',
+      notify: true,
+      filters: { q: 'meeting notes', tags: ['productivity'] },
+    });
+
+    const empty = await savedSearchesRoute.POST(jsonRequest('http://localhost/api/saved-searches', 'POST', { filters: { q: '  ' } }));
+    expect(empty.status).toBe(400);
+  });
+
+  it('lets only the owner change or delete a saved search', async () => {
+    supabaseMockRef = createSupabaseMock({
+      authUser: { id: 'buyer2' },
+      saved_searches: [{ id: 's1', user_id: 'buyer1', name: 'Sales', filters: { q: null, tags: ['sales'] }, notify: true }],
+    });
+    const params = { params: Promise.resolve({ id: 's1' }) };
+
+    const forbidden = await savedSearchRoute.PATCH(jsonRequest('http://localhost/api/saved-searches/s1', 'PATCH', { notify: false }), params);
+    expect(forbidden.status).toBe(404);
+
+    supabaseMockRef.data.authUser = { id: 'buyer1' };
+    const res = await savedSearchRoute.PATCH(jsonRequest('http://localhost/api/saved-searches/s1', 'PATCH', { notify: false }), params);
+    expect(res.status).toBe(200);
+    expect(supabaseMockRef.data.saved_searches[0].notify).toBe(false);
+
+    await savedSearchRoute.DELETE(new Request('http://localhost/api/saved-searches/s1', { method: 'DELETE' }), params);
+    expect(supabaseMockRef.data.saved_searches).toHaveLength(0);
+  });
+
+  it('notifies each matching user once per approved prompt', async () => {
+    supabaseMockRef = createSupabaseMock({
+      prompts: [{ id: 'p1', user_id: 'seller1', title: 'Cold email writer', tags: ['sales', 'email'], status: 'approved' }],
+      saved_searches: [
+        { id: 's1', user_id: 'buyer1', name: 'Sales', filters: { tags: ['sales'] }, notify: true },
+        { id: 's2', user_id: 'buyer1', name: 'Email', filters: { tags: ['email'] }, notify: true },
+        { id: 's3', user_id: 'buyer2', name: 'Muted', filters: { tags: ['sales'] }, notify: false },
+        { id: 's4', user_id: 'buyer3', name: 'Images', filters: { tags: ['images'] }, notify: true },
+      ],
+      rpc: { claim_saved_search_matches: claimMatchesRpc },
+    });
+
+    expect(await notifySavedSearchMatches(supabaseMockRef, 'p1')).toBe(1);
+    expect(supabaseMockRef.data.notifications).toEqual([
+      expect.objectContaining({
+        user_id: 'buyer1',
+        type: 'search.match',
+        title: 'New prompt for "Sales"',
+        body: 'Cold email writer matches your saved search.',
+        url: '/prompts/p1',
+      }),
+    ]);
+
+    // Approving the prompt again after an edit does not repeat the alert
+    expect(await notifySavedSearchMatches(supabaseMockRef, 'p1')).toBe(0);
+    expect(supabaseMockRef.data.notifications).toHaveLength(1);
+  });
+});
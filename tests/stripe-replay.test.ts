@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { replayStripeEvent } from '@/lib/stripe/replay';
+
+vi.mock('@/lib/logging', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const checkoutEvent = {
+  id: 'evt_failed',
+  type: 'checkout.session.completed',
+  created: 444,
+  livemode: false,
+  data: {
+    object: {
+      id: 'cs_replay',
+      payment_intent: 'pi_replay',
+      amount_total: 700,
+      currency: 'usd',
+      metadata: {
+        prompt_id: 'prompt1',
+        buyer_id: 'buyer1',
+        seller_id: 'seller1',
+      },
+    },
+  },
+};
+
+function stubStripe(event: any = checkoutEvent) {
+  return { events: { retrieve: vi.fn().mockResolvedValue(event) } } as any;
+}
+
+function seed(overrides: Record<string, any> = {}) {
+  return {
+    prompts: [{ id: 'prompt1', user_id: 'seller1', price: 7 }],
+    stripe_events: [
+      {
+        event_id: 'evt_failed',
+        type: 'checkout.session.completed',
+        processed_at: null,
+        last_error: 'Prompt prompt1 not found',
+        replay_count: 0,
+        ...overrides,
+      },
+    ],
+  };
+}
+
+describe('Stripe event replay', () => {
+  it('dry run records the writes without applying them', async () => {
+    const supabase = createSupabaseMock(seed());
+
+    const result = await replayStripeEvent(supabase, stubStripe(), {
+      eventId: 'evt_failed',
+      mode: 'dry_run',
+      adminId: 'admin1',
+      requestId: 'req-dry',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.writes).toEqual([
+      expect.objectContaining({ table: 'purchases', operation: 'insert' }),
+    ]);
+    expect(supabase.data.purchases).toHaveLength(0);
+
+    const row = supabase.data.stripe_events[0];
+    expect(row.processed_at).toBeNull();
+    expect(row.replay_count).toBe(1);
+    expect(row.last_replay_mode).toBe('dry_run');
+    expect(row.system_event_id).toBe(supabase.data.system_events[0].id);
+    expect(supabase.data.system_events[0]).toMatchObject({ type: 'stripe/replay', context: 'dry_run' });
+  });
+
+  it('live replay applies the event and marks it processed', async () => {
+    const supabase = createSupabaseMock(seed());
+
+    const result = await replayStripeEvent(supabase, stubStripe(), {
+      eventId: 'evt_failed',
+      mode: 'live',
+      adminId: 'admin1',
+      requestId: 'req-live',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(supabase.data.purchases).toHaveLength(1);
+    expect(supabase.data.purchases[0].status).toBe('paid');
+
+    const row = supabase.data.stripe_events[0];
+    expect(row.processed_at).toBeTruthy();
+    expect(row.last_error).toBeNull();
+    expect(row.last_replay_result.ok).toBe(true);
+  });
+
+  it('keeps the failure when a live replay fails again', async () => {
+    const supabase = createSupabaseMock({ ...seed(), prompts: [] });
+
+    const result = await replayStripeEvent(supabase, stubStripe(), {
+      eventId: 'evt_failed',
+      mode: 'live',
+      adminId: 'admin1',
+      requestId: 'req-fail',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toContain('not found');
+    const row = supabase.data.stripe_events[0];
+    expect(row.processed_at).toBeNull();
+    expect(row.last_error).toBe(result.error);
+    expect(supabase.data.system_events[0].error_message).toBe(result.error);
+  });
+
+  it('refuses to replay an already processed event live', async () => {
+    const supabase = createSupabaseMock(seed({ processed_at: '2025-12-01T00:00:00.000Z' }));
+    const stripe = stubStripe();
+
+    await expect(
+      replayStripeEvent(supabase, stripe, {
+        eventId: 'evt_failed',
+        mode: 'live',
+        adminId: 'admin1',
+        requestId: 'req-processed',
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(stripe.events.retrieve).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { activeSuspension, isSuspensionExempt, suspensionMessage } from '@/lib/moderation/suspension-status';
+import { assertNotSuspended, expireSuspensions, liftSuspension, suspendUser } from '@/lib/moderation/suspensions';
+import { decideModeration, getModerationQueueConfig } from '@/lib/moderation/queue';
+import { assertCartPrompt, loadCart } from '@/lib/cart';
+import { assertSwapBundle } from '@/lib/swaps/bundles';
+
+let suspensionsRoute: any;
+let notificationsRoute: any;
+let readAllRoute: any;
+let supabaseMockRef: any;
+let currentUser: any = null;
+
+const ADMIN = '00000000-0000-4000-8000-0000000000ad';
+const CREATOR = '00000000-0000-4000-8000-0000000000a1';
+const TRADER = '00000000-0000-4000-8000-0000000000b1';
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  getCurrentUser: vi.fn(() => Promise.resolve(currentUser)),
+}));
+
+vi.mock('@/lib/admin/auth', () => ({
+  requireAdminSupabaseClient: () => supabaseMockRef,
+  getAdminUser: async () => ({ id: ADMIN }),
+  assertAdminAccess: async () => undefined,
+}));
+
+beforeAll(async () => {
+  suspensionsRoute = await import('@/app/api/admin/suspensions/route');
+  notificationsRoute = await import('@/app/api/notifications/route');
+  readAllRoute = await import('@/app/api/notifications/read-all/route');
+});
+
+function marketplace() {
+  return createSupabaseMock({
+    profiles: [
+      { id: ADMIN, is_admin: true },
+      { id: CREATOR, is_banned: false, full_name: 'Casey Creator' },
+      { id: TRADER, is_banned: false },
+    ],
+    prompts: [
+      { id: 'p1', user_id: CREATOR, status: 'approved', is_public: true },
+      { id: 'p2', user_id: CREATOR, status: 'approved', is_public: true },
+      { id: 'p3', user_id: CREATOR, status: 'draft', is_public: false },
+      { id: 'p5', user_id: CREATOR, status: 'submitted', is_public: false, price: 1 },
+      { id: 'p4', user_id: TRADER, status: 'approved', is_public: true },
+    ],
+    swaps: [
+      { id: 's1', requester_id: TRADER, responder_id: CREATOR, requested_prompt_id: 'p1', offered_prompt_id: 'p4', status: 'requested' },
+      { id: 's2', requester_id: CREATOR, responder_id: TRADER, requested_prompt_id: 'p4', offered_prompt_id: 'p2', status: 'fulfilled' },
+    ],
+  });
+}
+
+function adminPost(body: any) {
+  return suspensionsRoute.POST(
+    new NextRequest('http://localhost/api/admin/suspensions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+describe('user suspensions', () => {
+  it('reads the suspension in force from a profile and exempts the pages a suspended user still needs', () => {
+    const now = new Date('2025-06-01T00:00:00Z');
+    expect(activeSuspension({ is_banned: false, suspended_until: null }, now)).toBeNull();
+    expect(activeSuspension({ suspended_until: '2025-05-31T00:00:00Z' }, now)).toBeNull();
+    expect(activeSuspension({ suspended_until: '2025-06-08T00:00:00Z', suspension_reason: 'Spam' }, now)).toEqual({
+      permanent: false,
+      until: '2025-06-08T00:00:00Z',
+      reason: 'Spam',
+    });
+    const ban = activeSuspension({ is_banned: true, suspension_reason: 'Fraud' }, now)!;
+    expect(ban.permanent).toBe(true);
+    expect(suspensionMessage(ban)).toBe('Your account has been banned. Reason: Fraud');
+
+    expect(isSuspensionExempt('/suspended')).toBe(true);
+    expect(isSuspensionExempt('/auth/login')).toBe(true);
+    expect(isSuspensionExempt('/api/auth/callback')).toBe(true);
+    expect(isSuspensionExempt('/authors')).toBe(false);
+    expect(isSuspensionExempt('/api/swaps')).toBe(false);
+  });
+
+  it('hides listings and voids open swaps on suspension, and relists them when lifted', async () => {
+    const supabase = marketplace();
+
+    await expect(
+      suspendUser(supabase, { userId: ADMIN, adminId: CREATOR, reason: 'Nope', days: 1 })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    await expect(
+      suspendUser(supabase, { userId: CREATOR, adminId: CREATOR, reason: 'Nope', days: 1 })
+    ).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    const suspension = await suspendUser(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Spam listings', days: 7 });
+    expect(suspension).toMatchObject({ kind: 'temporary', listings_hidden: 2, swaps_cancelled: 1 });
+
+    const creator = () => supabase.data.profiles.find((p: any) => p.id === CREATOR);
+    expect(creator().suspended_until).toBe(suspension.ends_at);
+    await expect(assertNotSuspended(supabase, CREATOR)).rejects.toMatchObject({
+      code: 'ACCOUNT_SUSPENDED',
+      statusCode: 403,
+    });
+
+    const listings = supabase.data.prompts.filter((p: any) => p.user_id === CREATOR);
+    expect(listings.map((p: any) => p.is_public)).toEqual([false, false, false, false]);
+    expect(supabase.data.swaps.map((s: any) => s.status)).toEqual(['cancelled', 'fulfilled']);
+    expect(supabase.data.notifications).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ user_id: TRADER, type: 'swap.cancelled' }),
+        expect.objectContaining({ user_id: CREATOR, type: 'account.suspended' }),
+      ])
+    );
+
+    // A ban replaces the temporary suspension rather than stacking on it
+    const ban = await suspendUser(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Repeat offender' });
+    expect(ban.kind).toBe('permanent');
+    expect(creator().is_banned).toBe(true);
+    expect(supabase.data.user_suspensions.filter((s: any) => !s.lifted_at)).toHaveLength(1);
+
+    // A prompt approved from the queue while its creator is banned stays hidden until the ban is lifted
+    supabase.data.moderation_claims.push({
+      prompt_id: 'p5',
+      reviewer_id: ADMIN,
+      expires_at: new Date(Date.now() + 60_000).toISOString(),
+    });
+    const decision = await decideModeration(supabase, {
+      promptId: 'p5',
+      reviewerId: ADMIN,
+      action: 'approve',
+      reason: null,
+      config: getModerationQueueConfig(),
+    });
+    expect(decision.status).toBe('approved');
+    expect(supabase.data.prompts.find((p: any) => p.id === 'p5')).toMatchObject({
+      status: 'approved',
+      is_public: false,
+      suspended_at: expect.any(String),
+    });
+
+    // A listing taken down after a report while hidden stays down
+    const takenDown = supabase.data.prompts.findIndex((p: any) => p.id === 'p2');
+    supabase.data.prompts[takenDown] = { ...supabase.data.prompts[takenDown], status: 'removed' };
+
+    const lifted = await liftSuspension(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Appeal granted' });
+    expect(lifted.relisted).toBe(2);
+    expect(supabase.data.prompts.find((p: any) => p.id === 'p1').is_public).toBe(true);
+    expect(supabase.data.prompts.find((p: any) => p.id === 'p5').is_public).toBe(true);
+    expect(supabase.data.prompts.find((p: any) => p.id === 'p2')).toMatchObject({ is_public: false, suspended_at: null });
+    expect(creator()).toMatchObject({ is_banned: false, suspended_until: null });
+    expect(supabase.data.prompts.find((p: any) => p.id === 'p3').is_public).toBe(false);
+    await expect(assertNotSuspended(supabase, CREATOR)).resolves.toBeUndefined();
+    await expect(
+      liftSuspension(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Again' })
+    ).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+  });
+
+  it('stops buyers and traders from buying or swapping a suspended creator\'s prompts', async () => {
+    const supabase = marketplace();
+    const listed = supabase.data.prompts.findIndex((p: any) => p.id === 'p1');
+    supabase.data.prompts[listed] = { ...supabase.data.prompts[listed], price: 5 };
+    supabase.data.cart_items.push({ user_id: TRADER, prompt_id: 'p1', created_at: new Date().toISOString() });
+    await assertCartPrompt(supabase, TRADER, 'p1');
+
+    await suspendUser(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Spam listings', days: 7 });
+
+    await expect(assertCartPrompt(supabase, TRADER, 'p1')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    const [line] = await loadCart(supabase, TRADER);
+    expect(line).toMatchObject({ promptId: 'p1', available: false });
+    await expect(
+      assertSwapBundle(supabase, {
+        requesterId: TRADER,
+        responderId: CREATOR,
+        bundle: { requested_prompt_ids: ['p4'], offered_prompt_ids: ['p1'] },
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_STATUS', details: { hidden: ['p1'] } });
+  });
+
+  it('expires finished suspensions and serves the audit trail to admins', async () => {
+    const supabase = marketplace();
+    supabaseMockRef = supabase;
+
+    const res = await adminPost({ action: 'suspend', userId: CREATOR, reason: 'Harassment', days: 3 });
+    expect(res.status).toBe(201);
+
+    const invalid = await adminPost({ action: 'suspend', userId: CREATOR, reason: 'Harassment', days: 0 });
+    expect(invalid.status).toBe(400);
+
+    const early = await expireSuspensions(supabase, { now: new Date() });
+    expect(early.expired).toBe(0);
+
+    const later = new Date(Date.now() + 4 * 24 * 60 * 60 * 1000);
+    const report = await expireSuspensions(supabase, { now: later });
+    expect(report).toEqual({ expired: 1, relisted: 2, failed: 0 });
+    expect(supabase.data.user_suspensions[0]).toMatchObject({ lifted_by: null, lift_reason: 'Suspension ended' });
+
+    const audit = await suspensionsRoute.GET(
+      new NextRequest(`http://localhost/api/admin/suspensions?userId=${CREATOR}`)
+    );
+    const json = await audit.json();
+    expect(json.data.active).toHaveLength(0);
+    expect(json.data.history).toHaveLength(1);
+    expect(json.data.history[0].profile.full_name).toBe('Casey Creator');
+  });
+
+  it('lets suspended users read their notifications but refuses their writes', async () => {
+    const supabase = marketplace();
+    supabaseMockRef = supabase;
+    currentUser = { id: CREATOR };
+    await suspendUser(supabase, { userId: CREATOR, adminId: ADMIN, reason: 'Spam listings', days: 7 });
+
+    const list = await notificationsRoute.GET(new NextRequest('http://localhost/api/notifications'));
+    expect(list.status).toBe(200);
+    const json = await list.json();
+    expect(json.data.notifications).toEqual([expect.objectContaining({ type: 'account.suspended' })]);
+
+    const readAll = await readAllRoute.POST(
+      new NextRequest('http://localhost/api/notifications/read-all', { method: 'POST' })
+    );
+    expect(readAll.status).toBe(403);
+    expect((await readAll.json()).error.code).toBe('ACCOUNT_SUSPENDED');
+    expect(supabase.data.notifications.every((n: any) => !n.is_read)).toBe(true);
+  });
+});
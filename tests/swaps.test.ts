@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { transitionSwap } from '@/lib/swaps/state';
+import { getSwapBundle } from '@/lib/swaps/bundles';
 import { createSupabaseMock } from './test-utils/mockSupabase';
 
 const baseSwap = {
@@ -11,8 +12,41 @@ const baseSwap = {
   status: 'requested',
 };
 
-function supabaseWithSwap(status: string) {
-  return createSupabaseMock({ swaps: [{ ...baseSwap, status }] });
+const prompts = [
+  { id: 'p1', user_id: 'req1', status: 'approved' },
+  { id: 'p2', user_id: 'res1', status: 'approved' },
+  { id: 'p3', user_id: 'res1', status: 'approved' },
+  { id: 'p4', user_id: 'req1', status: 'approved' },
+  { id: 'p5', user_id: 'req1', status: 'draft' },
+];
+
+// Mimics the fulfill_swap database function: copies once, then replays the stored result
+function fulfillSwapRpc(args: any, data: any) {
+  const swap = data.swaps.find((s: any) => s.id === args.p_swap_id);
+  data.swap_fulfillments = data.swap_fulfillments ?? [];
+  const existing = data.swap_fulfillments.find((f: any) => f.swap_id === args.p_swap_id);
+  if (existing) {
+    return { data: { replayed: true, copies: existing.copies }, error: null };
+  }
+  if (swap.status !== 'accepted') {
+    return { data: null, error: { code: '55000', message: `Cannot fulfill from status ${swap.status}` } };
+  }
+  const copies = [
+    { source_prompt_id: swap.offered_prompt_id, copied_prompt_id: `copy-${data.prompts.length}`, recipient_id: swap.requester_id },
+    { source_prompt_id: swap.requested_prompt_id, copied_prompt_id: `copy-${data.prompts.length + 1}`, recipient_id: swap.responder_id },
+  ];
+  copies.forEach((c) => data.prompts.push({ id: c.copied_prompt_id, user_id: c.recipient_id }));
+  data.swap_fulfillments.push({ swap_id: swap.id, idempotency_key: args.p_idempotency_key, copies });
+  swap.status = 'fulfilled';
+  return { data: { replayed: false, copies }, error: null };
+}
+
+function supabaseWithSwap(status: string, overrides: Record<string, any> = {}) {
+  return createSupabaseMock({
+    swaps: [{ ...baseSwap, status, ...overrides }],
+    prompts: prompts.map((p) => ({ ...p })),
+    rpc: { fulfill_swap: fulfillSwapRpc },
+  });
 }
 
 describe('swap state machine', () => {
@@ -49,4 +83,142 @@ describe('swap state machine', () => {
     const supabase = supabaseWithSwap('requested');
     await expect(transitionSwap(supabase, 'swap1', 'req1', 'fulfill', 'req-6')).rejects.toThrow(/Cannot fulfill/);
   });
+
+  it('fulfill copies both sides through the database function', async () => {
+    const supabase = supabaseWithSwap('accepted');
+    const res = await transitionSwap(supabase, 'swap1', 'req1', 'fulfill', 'req-13');
+    expect(res.status).toBe('fulfilled');
+    expect(res.fulfillment?.replayed).toBe(false);
+    expect(res.fulfillment?.copies).toHaveLength(2);
+    expect(supabase.data.swaps[0].status).toBe('fulfilled');
+    expect(supabase.data.swap_fulfillments[0].idempotency_key).toBe('swap-fulfill:swap1');
+  });
+
+  it('retried fulfill replays the original copies instead of duplicating them', async () => {
+    const supabase = supabaseWithSwap('accepted');
+    const first = await transitionSwap(supabase, 'swap1', 'req1', 'fulfill', 'req-14');
+    const retry = await transitionSwap(supabase, 'swap1', 'res1', 'fulfill', 'req-15');
+    expect(retry.fulfillment?.replayed).toBe(true);
+    expect(retry.fulfillment?.copies).toEqual(first.fulfillment?.copies);
+    expect(supabase.data.prompts).toHaveLength(prompts.length + 2);
+  });
+
+  it('failed fulfillment leaves the swap accepted', async () => {
+    const supabase = supabaseWithSwap('accepted');
+    supabase.data.rpc.fulfill_swap = () => ({ data: null, error: { code: 'XX000', message: 'insert failed' } });
+    await expect(transitionSwap(supabase, 'swap1', 'req1', 'fulfill', 'req-16')).rejects.toMatchObject({
+      code: 'COPY_FAILED',
+      statusCode: 500,
+    });
+    expect(supabase.data.swaps[0].status).toBe('accepted');
+  });
+
+  it('counter creates a reversed swap linked to the original', async () => {
+    const supabase = supabaseWithSwap('requested');
+    const res = await transitionSwap(supabase, 'swap1', 'res1', 'counter', 'req-7', {
+      counterOffer: { requested_prompt_ids: ['p2', 'p3'], offered_prompt_ids: ['p1', 'p4'] },
+    });
+    expect(res.status).toBe('countered');
+    expect(supabase.data.swaps[0].status).toBe('countered');
+
+    const counter = supabase.data.swaps.find((s: any) => s.parent_swap_id === 'swap1');
+    expect(counter).toMatchObject({
+      id: res.counterSwap?.id,
+      requester_id: 'res1',
+      responder_id: 'req1',
+      requested_prompt_ids: ['p2', 'p3'],
+      offered_prompt_ids: ['p1', 'p4'],
+      status: 'requested',
+    });
+  });
+
+  it('counter requires a bundle', async () => {
+    const supabase = supabaseWithSwap('requested');
+    await expect(transitionSwap(supabase, 'swap1', 'res1', 'counter', 'req-8')).rejects.toThrow(/bundle is required/);
+    expect(supabase.data.swaps[0].status).toBe('requested');
+  });
+
+  it('counter must change the bundle', async () => {
+    const supabase = supabaseWithSwap('requested');
+    await expect(
+      transitionSwap(supabase, 'swap1', 'res1', 'counter', 'req-9', {
+        counterOffer: { requested_prompt_ids: ['p2'], offered_prompt_ids: ['p1'] },
+      })
+    ).rejects.toThrow(/must change the bundle/);
+  });
+
+  it('counter rejects prompts that are not approved or not owned by the right side', async () => {
+    const supabase = supabaseWithSwap('requested');
+    await expect(
+      transitionSwap(supabase, 'swap1', 'res1', 'counter', 'req-10', {
+        counterOffer: { requested_prompt_ids: ['p2'], offered_prompt_ids: ['p5'] },
+      })
+    ).rejects.toThrow(/must be approved/);
+    await expect(
+      transitionSwap(supabase, 'swap1', 'res1', 'counter', 'req-11', {
+        counterOffer: { requested_prompt_ids: ['p1'], offered_prompt_ids: ['p4'] },
+      })
+    ).rejects.toThrow(/your own prompts/);
+    expect(supabase.data.swaps).toHaveLength(1);
+  });
+
+  it('requester cannot counter their own swap', async () => {
+    const supabase = supabaseWithSwap('requested');
+    await expect(
+      transitionSwap(supabase, 'swap1', 'req1', 'counter', 'req-12', {
+        counterOffer: { requested_prompt_ids: ['p1', 'p4'], offered_prompt_ids: ['p2'] },
+      })
+    ).rejects.toThrow(/Only responder/);
+  });
+
+  it('treats legacy single-prompt swaps as one-prompt bundles', () => {
+    expect(getSwapBundle(baseSwap)).toEqual({ requested_prompt_ids: ['p1'], offered_prompt_ids: ['p2'] });
+    expect(getSwapBundle({ ...baseSwap, requested_prompt_ids: ['p1', 'p4'], offered_prompt_ids: ['p2', 'p3'] })).toEqual({
+      requested_prompt_ids: ['p1', 'p4'],
+      offered_prompt_ids: ['p2', 'p3'],
+    });
+  });
+
+  it('accepting an escrow swap sets a deposit deadline', async () => {
+    const supabase = supabaseWithSwap('requested', { escrow: true });
+    await transitionSwap(supabase, 'swap1', 'res1', 'accept', 'req-17');
+    expect(supabase.data.swaps[0].status).toBe('accepted');
+    expect(new Date(supabase.data.swaps[0].escrow_deadline).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('deposits go through the escrow database function', async () => {
+    const supabase = supabaseWithSwap('escrow_partial', {
+      escrow: true,
+      escrow_deadline: new Date(Date.now() + 60_000).toISOString(),
+      requester_deposited_at: new Date().toISOString(),
+    });
+    supabase.data.rpc.deposit_swap_escrow = () => ({
+      data: {
+        status: 'fulfilled',
+        released: true,
+        replayed: false,
+        copies: [{ source_prompt_id: 'p2', copied_prompt_id: 'c1', recipient_id: 'req1' }],
+      },
+      error: null,
+    });
+    const res = await transitionSwap(supabase, 'swap1', 'res1', 'deposit', 'req-18');
+    expect(res.status).toBe('fulfilled');
+    expect(res.fulfillment?.copies).toHaveLength(1);
+  });
+
+  it('rejects deposits on regular swaps and after the deadline', async () => {
+    const regular = supabaseWithSwap('accepted');
+    await expect(transitionSwap(regular, 'swap1', 'req1', 'deposit', 'req-19')).rejects.toThrow(/Only escrow swaps/);
+
+    const late = supabaseWithSwap('accepted', { escrow: true, escrow_deadline: '2000-01-01T00:00:00Z' });
+    await expect(transitionSwap(late, 'swap1', 'req1', 'deposit', 'req-20')).rejects.toThrow(/deadline has passed/);
+  });
+
+  it('escrow swaps cannot be fulfilled directly or expired before the deadline', async () => {
+    const deadline = new Date(Date.now() + 60_000).toISOString();
+    const supabase = supabaseWithSwap('accepted', { escrow: true, escrow_deadline: deadline });
+    await expect(transitionSwap(supabase, 'swap1', 'req1', 'fulfill', 'req-21')).rejects.toThrow(/released automatically/);
+    await expect(transitionSwap(supabase, 'swap1', null, 'expire', 'req-22')).rejects.toThrow(/before the escrow deadline/);
+    expect(supabase.data.swaps[0].status).toBe('accepted');
+  });
 });
@@ -0,0 +1,137 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createSupabaseMock } from './test-utils/mockSupabase';
+import { diffWords } from '@/lib/text-diff';
+
+let testRoute: any;
+let compareRoute: any;
+let runsRoute: any;
+let runRoute: any;
+let supabaseMockRef: any;
+const axiosPost = vi.fn();
+
+vi.mock('@/lib/supabase/server', () => ({
+  createSupabaseServerClient: vi.fn(() => Promise.resolve(supabaseMockRef)),
+  createSupabaseAdminClient: vi.fn(() => Promise.resolve(createSupabaseMock({}))),
+}));
+
+vi.mock('axios', () => ({
+  default: { post: (...args: any[]) => axiosPost(...args) },
+}));
+
+beforeAll(async () => {
+  testRoute = await import('@/app/api/prompts/[id]/test/route');
+  compareRoute = await import('@/app/api/prompts/[id]/test/compare/route');
+  runsRoute = await import('@/app/api/prompts/[id]/test/runs/route');
+  runRoute = await import('@/app/api/prompts/[id]/test/runs/[runId]/route');
+});
+
+beforeEach(() => {
+  axiosPost.mockReset();
+  axiosPost.mockResolvedValue({
+    data: { choices: [{ message: { content: 'model output' }, finish_reason: 'stop' }], usage: { prompt_tokens: 12, completion_tokens: 2 } },
+  });
+});
+
+const params = { params: Promise.resolve({ id: '1' }) };
+
+function seed(authUserId: string) {
+  return {
+    authUser: { id: authUserId },
+    prompts: [{ id: '1', user_id: 'seller1', prompt_text: 'Summarize {{topic}}', price: 0, status: 'approved' }],
+  };
+}
+
+function jsonRequest(url: string, method: string, body: unknown) {
+  return new NextRequest(url, { method, body: JSON.stringify(body), headers: { 'x-forwarded-for': '10.1.0.1' } });
+}
+
+describe('test run history', () => {
+  it('records each tester run without the API key', async () => {
+    supabaseMockRef = createSupabaseMock(seed('buyer1'));
+
+    const res = await testRoute.POST(
+      jsonRequest('http://localhost/api/prompts/1/test', 'POST', { apiKey: 'sk-secret', model: 'gpt-4o', variables: { topic: 'tides' } }),
+      params
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    const [run] = supabaseMockRef.data.test_runs;
+    expect(body.runId).toBe(run.id);
+    expect(run).toMatchObject({
+      prompt_id: '1',
+      user_id: 'buyer1',
+      model_used: 'gpt-4o',
+      provider: 'openai',
+      status: 'completed',
+      input_tokens: 12,
+      output_tokens: 2,
+      input_data: { variables: { topic: 'tides' } },
+      output_data: { text: 'model output' },
+    });
+    expect(JSON.stringify(run)).not.toContain('sk-secret');
+  });
+
+  it('compares several models and keeps the others when one fails', async () => {
+    supabaseMockRef = createSupabaseMock(seed('buyer1'));
+
+    const res = await compareRoute.POST(
+      jsonRequest('http://localhost/api/prompts/1/test/compare', 'POST', {
+        targets: [
+          { model: 'mock-small', provider: 'mock' },
+          { model: 'mock-error-rate_limit', provider: 'mock' },
+        ],
+        variables: { topic: 'tides' },
+      }),
+      params
+    );
+    const { data } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(data.results.map((result: any) => result.error === null)).toEqual([true, false]);
+    expect(data.results[0].output).toBe('[mock:mock-small] Summarize tides');
+
+    const runs = supabaseMockRef.data.test_runs;
+    expect(runs.map((run: any) => run.status)).toEqual(['completed', 'failed']);
+    expect(runs.every((run: any) => run.comparison_id === data.comparisonId)).toBe(true);
+  });
+
+  it('lets only the creator publish a completed run as a sample', async () => {
+    supabaseMockRef = createSupabaseMock({
+      ...seed('buyer1'),
+      test_runs: [
+        { id: 'r1', prompt_id: '1', user_id: 'buyer1', status: 'completed', is_public: false },
+        { id: 'r2', prompt_id: '1', user_id: 'seller1', status: 'completed', is_public: false },
+      ],
+    });
+    const publish = (runId: string) =>
+      runRoute.PATCH(jsonRequest(`http://localhost/api/prompts/1/test/runs/${runId}`, 'PATCH', { is_public: true }), {
+        params: Promise.resolve({ id: '1', runId }),
+      });
+
+    expect((await publish('r1')).status).toBe(403);
+
+    supabaseMockRef.data.authUser = { id: 'seller1' };
+    const res = await publish('r2');
+    expect(res.status).toBe(200);
+    expect(supabaseMockRef.data.test_runs[1].is_public).toBe(true);
+
+    supabaseMockRef.data.authUser = { id: 'buyer2' };
+    const history = await (await runsRoute.GET(new NextRequest('http://localhost/api/prompts/1/test/runs'), params)).json();
+    expect(history.data.samples.map((run: any) => run.id)).toEqual(['r2']);
+    expect(history.data.runs).toEqual([]);
+    expect(history.data.canPublish).toBe(false);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks added and removed words between two outputs', () => {
+    expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+      { type: 'same', text: 'the ' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'same', text: ' fox' },
+    ]);
+  });
+});
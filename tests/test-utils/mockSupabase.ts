@@ -2,7 +2,7 @@ import { randomUUID } from 'crypto';
 
 type TableRow = Record<string, any>;
 
-type FilterOperator = 'eq' | 'lt' | 'lte' | 'gt' | 'gte';
+type FilterOperator = 'eq' | 'lt' | 'lte' | 'gt' | 'gte' | 'in' | 'is';
 
 type Filter = { column: string; operator: FilterOperator; value: any };
 
@@ -31,6 +31,10 @@ function matchFilter(row: TableRow, filter: Filter): boolean {
       return actual > expected;
     case 'gte':
       return actual >= expected;
+    case 'in':
+      return (expected as any[]).includes(actual);
+    case 'is':
+      return (actual ?? null) === expected;
     default:
       return false;
   }
@@ -40,6 +44,7 @@ class TableQuery {
   private state: QueryState;
   private parent: ReturnType<typeof createSupabaseMock>;
   private pendingUpdate?: any;
+  private pendingDelete = false;
 
   constructor(state: QueryState, parent: ReturnType<typeof createSupabaseMock>) {
     this.state = state;
@@ -80,10 +85,30 @@ class TableQuery {
     return this.addFilter(column, 'gte', value);
   }
 
+  in(column: string, values: any[]) {
+    return this.addFilter(column, 'in', values);
+  }
+
+  is(column: string, value: any) {
+    return this.addFilter(column, 'is', value);
+  }
+
   or(_expr: string) {
     return this; // not needed for current tests
   }
 
+  order(_column: string, _options?: any) {
+    return this;
+  }
+
+  limit(_count: number) {
+    return this;
+  }
+
+  range(_from: number, _to: number) {
+    return this;
+  }
+
   maybeSingle() {
     const row = this.state.rows.find((r) => matchFilters(r, this.state.filters));
     if (!row) return { data: null, error: { code: 'PGRST116', message: 'No rows' } };
@@ -95,6 +120,14 @@ class TableQuery {
   }
 
   then(resolve: (value: any) => any, reject?: (reason: any) => any) {
+    if (this.pendingDelete) {
+      const remaining = this.state.rows.filter((r) => !matchFilters(r, this.state.filters));
+      this.state.rows.splice(0, this.state.rows.length, ...remaining);
+      const result = { data: null, error: null };
+      resolve(result);
+      return Promise.resolve(result);
+    }
+
     const rows = this.state.rows.filter((r) => matchFilters(r, this.state.filters));
     const result = { data: rows, error: null };
     resolve(result);
@@ -155,6 +188,144 @@ class TableQuery {
       return wrapResult(row, null);
     }
 
+    if (this.state.table === 'swaps') {
+      const row = { ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.swaps.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'system_events') {
+      const row = { ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.system_events.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'stripe_reconciliation_runs') {
+      const row = { ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.stripe_reconciliation_runs.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'cart_items') {
+      const exists = this.parent.data.cart_items.find(
+        (r: TableRow) => r.user_id === payload.user_id && r.prompt_id === payload.prompt_id
+      );
+      if (exists) {
+        return wrapResult(null, { code: '23505', message: 'duplicate key value violates unique constraint' });
+      }
+      const row = { created_at: new Date().toISOString(), ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.cart_items.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'ledger_entries') {
+      const rows: TableRow[] = (Array.isArray(payload) ? payload : [payload]).map((row: TableRow) => ({
+        ...row,
+        id: row.id ?? randomUUID(),
+        created_at: row.created_at ?? new Date().toISOString(),
+      }));
+      const duplicate = rows.some((row) =>
+        this.parent.data.ledger_entries.some(
+          (r: TableRow) =>
+            r.transaction_id === row.transaction_id && r.account === row.account && r.direction === row.direction
+        )
+      );
+      if (duplicate) {
+        return wrapResult(null, { code: '23505', message: 'duplicate key value violates unique constraint' });
+      }
+      this.parent.data.ledger_entries.push(...rows);
+      return wrapResult(rows, null);
+    }
+
+    if (this.state.table === 'payouts') {
+      const exists = this.parent.data.payouts.find(
+        (r: TableRow) => payload.idempotency_key && r.idempotency_key === payload.idempotency_key
+      );
+      if (exists) {
+        return wrapResult(null, { code: '23505', message: 'duplicate key value violates unique constraint' });
+      }
+      const row = { created_at: new Date().toISOString(), ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.payouts.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'test_runs') {
+      const row = { created_at: new Date().toISOString(), is_public: false, ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.test_runs.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'eval_runs') {
+      const row = { created_at: new Date().toISOString(), ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.eval_runs.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'user_api_keys') {
+      const row = {
+        created_at: new Date().toISOString(),
+        month_spend_micros: 0,
+        spend_month: null,
+        last_used_at: null,
+        revoked_at: null,
+        ...payload,
+        id: payload.id ?? randomUUID(),
+      };
+      this.parent.data.user_api_keys.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'saved_searches') {
+      const row = { created_at: new Date().toISOString(), last_notified_at: null, ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.saved_searches.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'moderation_actions') {
+      const row = { created_at: new Date().toISOString(), details: {}, ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.moderation_actions.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'prompt_fingerprint_bands') {
+      const rows = (Array.isArray(payload) ? payload : [payload]).map((row: any) => ({ ...row }));
+      this.parent.data.prompt_fingerprint_bands.push(...rows);
+      return wrapResult(rows, null);
+    }
+
+    if (this.state.table === 'content_reports') {
+      const row = {
+        created_at: new Date().toISOString(),
+        status: 'open',
+        resolution: null,
+        ...payload,
+        id: payload.id ?? randomUUID(),
+      };
+      this.parent.data.content_reports.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'prompt_appeals') {
+      const row = { created_at: new Date().toISOString(), status: 'pending', ...payload, id: payload.id ?? randomUUID() };
+      this.parent.data.prompt_appeals.push(row);
+      return wrapResult(row, null);
+    }
+
+    if (this.state.table === 'user_suspensions') {
+      const row = {
+        created_at: new Date().toISOString(),
+        listings_hidden: 0,
+        swaps_cancelled: 0,
+        lifted_at: null,
+        lifted_by: null,
+        lift_reason: null,
+        ...payload,
+        id: payload.id ?? randomUUID(),
+      };
+      this.parent.data.user_suspensions.push(row);
+      return wrapResult(row, null);
+    }
+
     if (this.state.table === 'notifications') {
       const row = { ...payload, id: payload.id ?? randomUUID() };
       this.parent.data.notifications.push(row);
@@ -170,14 +341,24 @@ class TableQuery {
     return this;
   }
 
-  delete() {
+  upsert(payload: any, options?: { onConflict?: string }) {
     const rows = this.state.rows;
-    const index = rows.findIndex((r) => matchFilters(r, this.state.filters));
-    if (index === -1) return { error: { code: 'PGRST116', message: 'No rows found' } };
-    rows.splice(index, 1);
+    const key = options?.onConflict ?? 'id';
+    const index = rows.findIndex((r) => payload[key] !== undefined && r[key] === payload[key]);
+    if (index === -1) {
+      rows.push({ ...payload, id: payload.id ?? randomUUID() });
+    } else {
+      rows[index] = { ...rows[index], ...payload };
+    }
     return { data: null, error: null };
   }
 
+  delete() {
+    // Defer delete until the query is awaited so chained filters apply to every matching row
+    this.pendingDelete = true;
+    return this;
+  }
+
   private applyPendingUpdate() {
     const rows = this.state.rows;
     const index = rows.findIndex((r) => matchFilters(r, this.state.filters));
@@ -195,6 +376,13 @@ export function createSupabaseMock(seed?: Partial<ReturnType<typeof defaultData>
     auth: {
       getUser: async () => ({ data: { user: data.authUser }, error: null }),
     },
+    async rpc(name: string, args: any) {
+      const handler = data.rpc[name];
+      if (!handler) {
+        return { data: null, error: { message: `RPC not mocked: ${name}` } };
+      }
+      return handler(args, data);
+    },
     from(table: string) {
       switch (table) {
         case 'stripe_events':
@@ -215,8 +403,58 @@ export function createSupabaseMock(seed?: Partial<ReturnType<typeof defaultData>
           return new TableQuery({ table, rows: data.prompt_comments, filters: [] }, supabase as any);
         case 'notifications':
           return new TableQuery({ table, rows: data.notifications, filters: [] }, supabase as any);
+        case 'system_events':
+          return new TableQuery({ table, rows: data.system_events, filters: [] }, supabase as any);
+        case 'stripe_reconciliation_runs':
+          return new TableQuery({ table, rows: data.stripe_reconciliation_runs, filters: [] }, supabase as any);
+        case 'cart_items':
+          return new TableQuery({ table, rows: data.cart_items, filters: [] }, supabase as any);
+        case 'coupons':
+          return new TableQuery({ table, rows: data.coupons, filters: [] }, supabase as any);
         case 'rate_limits':
           return new TableQuery({ table, rows: data.rate_limits, filters: [] }, supabase as any);
+        case 'subscriptions':
+          return new TableQuery({ table, rows: data.subscriptions, filters: [] }, supabase as any);
+        case 'creator_subscription_plans':
+          return new TableQuery({ table, rows: data.creator_subscription_plans, filters: [] }, supabase as any);
+        case 'platform_fee_rules':
+          return new TableQuery({ table, rows: data.platform_fee_rules, filters: [] }, supabase as any);
+        case 'ledger_entries':
+          return new TableQuery({ table, rows: data.ledger_entries, filters: [] }, supabase as any);
+        case 'payouts':
+          return new TableQuery({ table, rows: data.payouts, filters: [] }, supabase as any);
+        case 'payout_schedules':
+          return new TableQuery({ table, rows: data.payout_schedules, filters: [] }, supabase as any);
+        case 'test_runs':
+          return new TableQuery({ table, rows: data.test_runs, filters: [] }, supabase as any);
+        case 'prompt_eval_suites':
+          return new TableQuery({ table, rows: data.prompt_eval_suites, filters: [] }, supabase as any);
+        case 'eval_runs':
+          return new TableQuery({ table, rows: data.eval_runs, filters: [] }, supabase as any);
+        case 'user_api_keys':
+          return new TableQuery({ table, rows: data.user_api_keys, filters: [] }, supabase as any);
+        case 'prompt_versions':
+          return new TableQuery({ table, rows: data.prompt_versions, filters: [] }, supabase as any);
+        case 'saved_searches':
+          return new TableQuery({ table, rows: data.saved_searches, filters: [] }, supabase as any);
+        case 'moderation_actions':
+          return new TableQuery({ table, rows: data.moderation_actions, filters: [] }, supabase as any);
+        case 'moderation_claims':
+          return new TableQuery({ table, rows: data.moderation_claims, filters: [] }, supabase as any);
+        case 'prompt_sales':
+          return new TableQuery({ table, rows: data.prompt_sales, filters: [] }, supabase as any);
+        case 'prompt_ratings':
+          return new TableQuery({ table, rows: data.prompt_ratings, filters: [] }, supabase as any);
+        case 'prompt_fingerprint_bands':
+          return new TableQuery({ table, rows: data.prompt_fingerprint_bands, filters: [] }, supabase as any);
+        case 'swap_prompt_copies':
+          return new TableQuery({ table, rows: data.swap_prompt_copies, filters: [] }, supabase as any);
+        case 'content_reports':
+          return new TableQuery({ table, rows: data.content_reports, filters: [] }, supabase as any);
+        case 'prompt_appeals':
+          return new TableQuery({ table, rows: data.prompt_appeals, filters: [] }, supabase as any);
+        case 'user_suspensions':
+          return new TableQuery({ table, rows: data.user_suspensions, filters: [] }, supabase as any);
         default:
           throw new Error(`Table not mocked: ${table}`);
       }
@@ -238,6 +476,32 @@ function defaultData() {
     prompt_comments: [] as TableRow[],
     notifications: [] as TableRow[],
     rate_limits: [] as TableRow[],
+    system_events: [] as TableRow[],
+    stripe_reconciliation_runs: [] as TableRow[],
+    cart_items: [] as TableRow[],
+    coupons: [] as TableRow[],
+    subscriptions: [] as TableRow[],
+    creator_subscription_plans: [] as TableRow[],
+    platform_fee_rules: [] as TableRow[],
+    ledger_entries: [] as TableRow[],
+    payouts: [] as TableRow[],
+    payout_schedules: [] as TableRow[],
+    test_runs: [] as TableRow[],
+    prompt_eval_suites: [] as TableRow[],
+    eval_runs: [] as TableRow[],
+    user_api_keys: [] as TableRow[],
+    prompt_versions: [] as TableRow[],
+    saved_searches: [] as TableRow[],
+    moderation_actions: [] as TableRow[],
+    moderation_claims: [] as TableRow[],
+    prompt_sales: [] as TableRow[],
+    prompt_ratings: [] as TableRow[],
+    prompt_fingerprint_bands: [] as TableRow[],
+    swap_prompt_copies: [] as TableRow[],
+    content_reports: [] as TableRow[],
+    prompt_appeals: [] as TableRow[],
+    user_suspensions: [] as TableRow[],
+    rpc: {} as Record<string, (args: any, data: any) => { data: any; error: any }>,
     authUser: null as any,
   };
 }
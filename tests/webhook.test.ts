@@ -122,6 +122,36 @@ describe('Stripe webhook route', () => {
     expect(supabaseMockRef.data.purchases).toHaveLength(1);
   });
 
+  it('records the failure on the event row', async () => {
+    const event = {
+      id: 'evt_missing_prompt',
+      type: 'checkout.session.completed',
+      created: 150,
+      livemode: false,
+      data: {
+        object: {
+          id: 'cs_missing',
+          payment_intent: 'pi_missing',
+          amount_total: 500,
+          currency: 'usd',
+          metadata: {
+            prompt_id: 'missing',
+            buyer_id: 'buyer1',
+            seller_id: 'seller1',
+          },
+        },
+      },
+    };
+
+    const res = await runWebhook(event);
+    expect(res.status).toBe(404);
+
+    const row = supabaseMockRef.data.stripe_events[0];
+    expect(row.processed_at).toBeUndefined();
+    expect(row.last_error).toContain('missing');
+    expect(row.system_event_id).toBe(supabaseMockRef.data.system_events[0].id);
+  });
+
   it('handles checkout.session.completed to paid', async () => {
     const event = {
       id: 'evt_checkout',
@@ -151,6 +181,115 @@ describe('Stripe webhook route', () => {
     expect(purchase.amount_total).toBe(900);
   });
 
+  it('records coupon redemptions on the purchase', async () => {
+    const event = {
+      id: 'evt_checkout_coupon',
+      type: 'checkout.session.completed',
+      created: 223,
+      livemode: false,
+      data: {
+        object: {
+          id: 'cs_coupon',
+          payment_intent: 'pi_coupon',
+          amount_total: 750,
+          currency: 'usd',
+          metadata: {
+            prompt_id: 'promptA',
+            buyer_id: 'buyerA',
+            seller_id: 'sellerA',
+            coupon_id: 'coupon1',
+            coupon_code: 'SAVE25',
+            discount_cents: '250',
+          },
+        },
+      },
+    };
+    const refresh = vi.fn(() => ({ data: 1, error: null }));
+
+    await runWebhook(event, {
+      prompts: [{ id: 'promptA', user_id: 'sellerA', price: 10 }],
+      rpc: { refresh_coupon_redemptions: refresh },
+    });
+
+    const purchase = supabaseMockRef.data.purchases[0];
+    expect(purchase.amount_total).toBe(750);
+    expect(purchase.coupon_id).toBe('coupon1');
+    expect(purchase.coupon_code).toBe('SAVE25');
+    expect(purchase.discount_amount).toBe(250);
+    expect(refresh).toHaveBeenCalledWith({ p_coupon_id: 'coupon1' }, expect.anything());
+  });
+
+  it('records the platform fee split in the ledger and reverses it on refund', async () => {
+    const checkout = {
+      id: 'evt_checkout_fee',
+      type: 'checkout.session.completed',
+      created: 224,
+      livemode: false,
+      data: {
+        object: {
+          id: 'cs_fee',
+          payment_intent: 'pi_fee',
+          amount_total: 1000,
+          currency: 'usd',
+          metadata: {
+            prompt_id: 'promptA',
+            buyer_id: 'buyerA',
+            seller_id: 'sellerA',
+            platform_fee_bps: '1500',
+            platform_fee_cents: '150',
+            transfer_destination: 'acct_seller',
+          },
+        },
+      },
+    };
+
+    await runWebhook(checkout, { prompts: [{ id: 'promptA', user_id: 'sellerA', price: 10 }] });
+
+    const purchase = supabaseMockRef.data.purchases[0];
+    expect(purchase.platform_fee_amount).toBe(150);
+    expect(purchase.transfer_destination).toBe('acct_seller');
+    expect(
+      supabaseMockRef.data.ledger_entries
+        .filter((entry: any) => entry.kind === 'sale')
+        .map((entry: any) => [entry.account, entry.direction, entry.amount_cents])
+    ).toEqual([
+      ['cash', 'debit', 1000],
+      ['creator_payable', 'credit', 850],
+      ['platform_revenue', 'credit', 150],
+    ]);
+    expect(supabaseMockRef.data.ledger_entries.some((entry: any) => entry.kind === 'transfer')).toBe(true);
+
+    const refund = {
+      id: 'evt_refund_fee',
+      type: 'charge.refunded',
+      created: 225,
+      data: {
+        object: {
+          id: 'ch_fee',
+          object: 'charge',
+          payment_intent: 'pi_fee',
+          amount_refunded: 1000,
+          amount: 1000,
+          currency: 'usd',
+          metadata: {},
+          refunds: { data: [] },
+        },
+      },
+    };
+
+    await runWebhook(refund, {}, true);
+
+    const refundLines = supabaseMockRef.data.ledger_entries
+      .filter((entry: any) => entry.kind === 'refund')
+      .map((entry: any) => [entry.account, entry.direction, entry.amount_cents]);
+    expect(refundLines).toEqual([
+      ['creator_payable', 'debit', 850],
+      ['platform_revenue', 'debit', 150],
+      ['cash', 'credit', 1000],
+    ]);
+    expect(supabaseMockRef.data.ledger_entries.some((entry: any) => entry.kind === 'transfer_reversal')).toBe(true);
+  });
+
   it('handles full refunds', async () => {
     const event = {
       id: 'evt_refund_full',
@@ -261,4 +400,202 @@ describe('Stripe webhook route', () => {
     const purchase = supabaseMockRef.data.purchases[0];
     expect(purchase.status).toBe('disputed');
   });
+
+  it('creates one purchase per cart line and clears the cart', async () => {
+    const event = {
+      id: 'evt_cart',
+      type: 'checkout.session.completed',
+      created: 666,
+      livemode: false,
+      data: {
+        object: {
+          id: 'cs_cart',
+          payment_intent: 'pi_cart',
+          amount_total: 1700,
+          currency: 'usd',
+          metadata: {
+            user_id: 'buyerC',
+            cart_item_count: '2',
+            cart_item_0: 'promptC1:sellerC1:500',
+            cart_item_1: 'promptC2:sellerC2:1200',
+          },
+        },
+      },
+    };
+
+    const res = await runWebhook(event, {
+      prompts: [
+        { id: 'promptC1', user_id: 'sellerC1', price: 5 },
+        { id: 'promptC2', user_id: 'sellerC2', price: 12 },
+      ],
+      cart_items: [
+        { id: 'ci1', user_id: 'buyerC', prompt_id: 'promptC1' },
+        { id: 'ci2', user_id: 'buyerC', prompt_id: 'promptC2' },
+        { id: 'ci3', user_id: 'otherBuyer', prompt_id: 'promptC1' },
+      ],
+    });
+
+    expect(res.status).toBe(200);
+    const purchases = supabaseMockRef.data.purchases;
+    expect(purchases).toHaveLength(2);
+    expect(purchases.map((p: any) => [p.prompt_id, p.seller_id, p.amount_total])).toEqual([
+      ['promptC1', 'sellerC1', 500],
+      ['promptC2', 'sellerC2', 1200],
+    ]);
+    expect(purchases.every((p: any) => p.stripe_payment_intent_id === 'pi_cart' && p.status === 'paid')).toBe(true);
+    expect(supabaseMockRef.data.cart_items.map((item: any) => item.id)).toEqual(['ci3']);
+  });
+
+  it('applies refunds on cart payments to the named line item only', async () => {
+    const cartPurchases = [
+      {
+        id: 'purC1',
+        buyer_id: 'buyerC',
+        seller_id: 'sellerC1',
+        prompt_id: 'promptC1',
+        amount_total: 500,
+        refunded_amount: 0,
+        status: 'paid',
+        currency: 'usd',
+        stripe_payment_intent_id: 'pi_cart_refund',
+      },
+      {
+        id: 'purC2',
+        buyer_id: 'buyerC',
+        seller_id: 'sellerC2',
+        prompt_id: 'promptC2',
+        amount_total: 1200,
+        refunded_amount: 0,
+        status: 'paid',
+        currency: 'usd',
+        stripe_payment_intent_id: 'pi_cart_refund',
+      },
+    ];
+
+    const chargeEvent = {
+      id: 'evt_cart_charge_refunded',
+      type: 'charge.refunded',
+      created: 777,
+      data: {
+        object: {
+          object: 'charge',
+          payment_intent: 'pi_cart_refund',
+          amount_refunded: 500,
+          amount: 1700,
+          currency: 'usd',
+          metadata: {},
+          refunds: { data: [] },
+        },
+      },
+    };
+
+    await runWebhook(chargeEvent, { purchases: cartPurchases });
+    expect(supabaseMockRef.data.purchases.map((p: any) => p.refunded_amount)).toEqual([0, 0]);
+
+    const refundEvent = {
+      id: 'evt_cart_refund',
+      type: 'refund.updated',
+      created: 778,
+      data: {
+        object: {
+          object: 'refund',
+          id: 're_cart',
+          payment_intent: 'pi_cart_refund',
+          amount: 500,
+          currency: 'usd',
+          status: 'succeeded',
+          created: 778,
+          metadata: { purchase_id: 'purC1' },
+        },
+      },
+    };
+
+    await runWebhook(refundEvent, {}, true);
+
+    const [first, second] = supabaseMockRef.data.purchases;
+    expect(first.refunded_amount).toBe(500);
+    expect(first.status).toBe('refunded');
+    expect(second.refunded_amount).toBe(0);
+    expect(second.status).toBe('paid');
+    expect(supabaseMockRef.data.refunds).toHaveLength(1);
+    expect(supabaseMockRef.data.notifications).toHaveLength(1);
+  });
+
+  it('syncs creator subscriptions and the subscriber profile', async () => {
+    const periodEnd = Math.floor(Date.now() / 1000) + 30 * 86_400;
+    const subscription = {
+      object: 'subscription',
+      id: 'sub_1',
+      customer: 'cus_1',
+      status: 'active',
+      current_period_end: periodEnd,
+      cancel_at_period_end: false,
+      canceled_at: null,
+      items: { data: [{ price: { id: 'price_1' } }] },
+      metadata: { user_id: 'subscriber1', creator_id: 'creator1' },
+    };
+
+    await runWebhook(
+      { id: 'evt_sub_created', type: 'customer.subscription.created', created: 900, data: { object: subscription } },
+      { profiles: [{ id: 'subscriber1', subscription_status: null }] }
+    );
+
+    expect(supabaseMockRef.data.subscriptions).toHaveLength(1);
+    expect(supabaseMockRef.data.subscriptions[0]).toMatchObject({
+      user_id: 'subscriber1',
+      creator_id: 'creator1',
+      status: 'active',
+      stripe_price_id: 'price_1',
+    });
+    expect(supabaseMockRef.data.profiles[0].subscription_status).toBe('active');
+    expect(supabaseMockRef.data.profiles[0].stripe_customer_id).toBe('cus_1');
+    expect(supabaseMockRef.data.notifications[0].user_id).toBe('creator1');
+
+    await runWebhook(
+      {
+        id: 'evt_invoice_failed',
+        type: 'invoice.payment_failed',
+        created: 901,
+        data: { object: { object: 'invoice', id: 'in_1', subscription: 'sub_1', customer: 'cus_1', lines: { data: [] } } },
+      },
+      {},
+      true
+    );
+
+    expect(supabaseMockRef.data.subscriptions[0].status).toBe('past_due');
+    expect(supabaseMockRef.data.notifications.map((n: any) => n.user_id)).toEqual(['creator1', 'subscriber1']);
+  });
+
+  it('does not revive a canceled subscription on a late update', async () => {
+    const subscription = {
+      object: 'subscription',
+      id: 'sub_2',
+      customer: 'cus_2',
+      status: 'canceled',
+      current_period_end: Math.floor(Date.now() / 1000) + 86_400,
+      cancel_at_period_end: false,
+      canceled_at: 1000,
+      items: { data: [] },
+      metadata: { user_id: 'subscriber2', creator_id: 'creator2' },
+    };
+
+    await runWebhook(
+      { id: 'evt_sub_deleted', type: 'customer.subscription.deleted', created: 1000, data: { object: subscription } },
+      { profiles: [{ id: 'subscriber2', subscription_status: 'active' }] }
+    );
+    await runWebhook(
+      {
+        id: 'evt_sub_late_update',
+        type: 'customer.subscription.updated',
+        created: 999,
+        data: { object: { ...subscription, status: 'active', canceled_at: null } },
+      },
+      {},
+      true
+    );
+
+    expect(supabaseMockRef.data.subscriptions).toHaveLength(1);
+    expect(supabaseMockRef.data.subscriptions[0].status).toBe('canceled');
+    expect(supabaseMockRef.data.profiles[0].subscription_status).toBe('inactive');
+  });
 });